@@ -0,0 +1,18 @@
+-- Component Plugins Migration
+-- User-contributed parametric components, private to a user or shared with their tenant
+
+CREATE TABLE IF NOT EXISTS component_plugins (
+  id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL,
+  tenant_id TEXT, -- NULL for private plugins
+  component_id TEXT NOT NULL, -- id the component is listed and generated under
+  spec TEXT NOT NULL, -- JSON ComponentSpec
+  generator TEXT NOT NULL, -- JSON generator definition
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (user_id) REFERENCES profiles (id) ON DELETE CASCADE,
+  UNIQUE(user_id, component_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_component_plugins_user_id ON component_plugins(user_id);
+CREATE INDEX IF NOT EXISTS idx_component_plugins_tenant_id ON component_plugins(tenant_id) WHERE tenant_id IS NOT NULL;
@@ -0,0 +1,17 @@
+-- Machine Profiles Migration
+-- Machines users save for themselves, and the one they use by default
+
+CREATE TABLE IF NOT EXISTS machine_profiles (
+  id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL,
+  name TEXT NOT NULL,
+  profile TEXT NOT NULL, -- JSON: kind, capabilities, kerf, operations, postProcessor
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (user_id) REFERENCES profiles (id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_machine_profiles_user_id ON machine_profiles(user_id);
+
+-- A built-in machine id or a machine_profiles id; NULL uses the default Glowforge
+ALTER TABLE profiles ADD COLUMN preferred_machine_id TEXT;
@@ -0,0 +1,18 @@
+-- Custom Materials Migration
+-- Calibrated materials private to a user or shared with their tenant
+
+CREATE TABLE IF NOT EXISTS custom_materials (
+  id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL,
+  tenant_id TEXT, -- NULL for private materials
+  material_key TEXT NOT NULL, -- looked up before the built-in material keys
+  name TEXT NOT NULL,
+  properties TEXT NOT NULL, -- JSON MaterialProperties plus optional structural limits
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (user_id) REFERENCES profiles (id) ON DELETE CASCADE,
+  UNIQUE(user_id, material_key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_custom_materials_user_id ON custom_materials(user_id);
+CREATE INDEX IF NOT EXISTS idx_custom_materials_tenant_id ON custom_materials(tenant_id) WHERE tenant_id IS NOT NULL;
@@ -0,0 +1,5 @@
+-- Operation Layers Migration
+-- Cut, score, engrave and pocket layers saved with each project and snapshotted on revisions
+
+ALTER TABLE user_projects ADD COLUMN operation_layers TEXT; -- JSON OperationLayerModel, NULL until the user saves one
+ALTER TABLE project_revisions ADD COLUMN operation_layers TEXT; -- model as it was when the revision was saved
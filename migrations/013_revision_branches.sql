@@ -0,0 +1,36 @@
+-- Revision Branches Migration
+-- Named branches per project and parent pointers so revisions form a graph instead of a line
+
+CREATE TABLE IF NOT EXISTS project_branches (
+  id TEXT PRIMARY KEY,
+  project_id TEXT NOT NULL,
+  name TEXT NOT NULL,
+  head_revision_id TEXT, -- latest revision on the branch
+  base_revision_id TEXT, -- revision the branch was forked from; NULL for main
+  created_by TEXT,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (project_id) REFERENCES user_projects (id) ON DELETE CASCADE,
+  UNIQUE(project_id, name)
+);
+
+-- Revisions saved before branches existed have no branch or parent and are read as one line on main
+ALTER TABLE project_revisions ADD COLUMN branch_id TEXT;
+ALTER TABLE project_revisions ADD COLUMN parent_revision_id TEXT;
+ALTER TABLE project_revisions ADD COLUMN merge_parent_revision_id TEXT;
+ALTER TABLE user_projects ADD COLUMN current_branch_id TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_project_branches_project_id ON project_branches(project_id);
+CREATE INDEX IF NOT EXISTS idx_project_revisions_branch_id ON project_revisions(branch_id);
+
+-- Revision numbers are unique per project; saves that raced before this renumber in insertion order first
+CREATE TABLE IF NOT EXISTS revision_renumbering AS
+  SELECT id, ROW_NUMBER() OVER (PARTITION BY project_id ORDER BY revision_number, rowid) AS revision_number
+  FROM project_revisions
+  WHERE project_id IN (SELECT project_id FROM project_revisions GROUP BY project_id, revision_number HAVING COUNT(*) > 1);
+UPDATE project_revisions
+  SET revision_number = (SELECT revision_number FROM revision_renumbering WHERE revision_renumbering.id = project_revisions.id)
+  WHERE id IN (SELECT id FROM revision_renumbering);
+DROP TABLE revision_renumbering;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_project_revisions_project_number ON project_revisions(project_id, revision_number);
@@ -0,0 +1,45 @@
+-- Subscription Tiers Migration
+-- Plans are free, starter and professional everywhere; legacy maker/pro/trial values and NULL are folded in
+
+-- SQLite cannot change a CHECK in place and rebuilding profiles would cascade-delete user data,
+-- so each tier column is replaced by a new column with the new CHECK and renamed into place
+
+-- profiles.subscription_tier
+ALTER TABLE profiles ADD COLUMN plan_tier TEXT NOT NULL DEFAULT 'free' CHECK (plan_tier IN ('free', 'starter', 'professional'));
+UPDATE profiles SET plan_tier = CASE
+  WHEN subscription_tier IN ('starter', 'maker') THEN 'starter'
+  WHEN subscription_tier IN ('professional', 'pro') THEN 'professional'
+  ELSE 'free'
+END;
+DROP INDEX IF EXISTS idx_profiles_subscription_tier;
+ALTER TABLE profiles DROP COLUMN subscription_tier;
+ALTER TABLE profiles RENAME COLUMN plan_tier TO subscription_tier;
+
+-- billing_subscriptions.tier
+ALTER TABLE billing_subscriptions ADD COLUMN plan_tier TEXT NOT NULL DEFAULT 'free' CHECK (plan_tier IN ('free', 'starter', 'professional'));
+UPDATE billing_subscriptions SET plan_tier = CASE
+  WHEN tier IN ('starter', 'maker') THEN 'starter'
+  WHEN tier IN ('professional', 'pro') THEN 'professional'
+  ELSE 'free'
+END;
+DROP INDEX IF EXISTS idx_billing_subscriptions_tier;
+ALTER TABLE billing_subscriptions DROP COLUMN tier;
+ALTER TABLE billing_subscriptions RENAME COLUMN plan_tier TO tier;
+
+-- usage_quotas.tier
+ALTER TABLE usage_quotas ADD COLUMN plan_tier TEXT NOT NULL DEFAULT 'free' CHECK (plan_tier IN ('free', 'starter', 'professional'));
+UPDATE usage_quotas SET plan_tier = CASE
+  WHEN tier IN ('starter', 'maker') THEN 'starter'
+  WHEN tier IN ('professional', 'pro') THEN 'professional'
+  ELSE 'free'
+END;
+DROP INDEX IF EXISTS idx_usage_quotas_tier_feature;
+ALTER TABLE usage_quotas DROP COLUMN tier;
+ALTER TABLE usage_quotas RENAME COLUMN plan_tier TO tier;
+
+CREATE INDEX IF NOT EXISTS idx_profiles_subscription_tier ON profiles(subscription_tier);
+CREATE INDEX IF NOT EXISTS idx_billing_subscriptions_tier ON billing_subscriptions(tier);
+CREATE INDEX IF NOT EXISTS idx_usage_quotas_tier_feature ON usage_quotas(tier, feature);
+
+-- Limits that the admin settings seeded per tier now live in the plan definitions
+DELETE FROM system_settings WHERE key IN ('max_free_ai_generations', 'max_starter_ai_generations', 'max_maker_ai_generations');
@@ -0,0 +1,25 @@
+-- AI Usage Telemetry Migration
+-- Every model call is recorded with its tenant, token split and cost; admins set spend budgets per scope
+
+-- operation_type holds the task type and tokens_used the total; rows written before this migration have no split or cost
+ALTER TABLE ai_usage_stats ADD COLUMN tenant_id TEXT;
+ALTER TABLE ai_usage_stats ADD COLUMN input_tokens INTEGER;
+ALTER TABLE ai_usage_stats ADD COLUMN output_tokens INTEGER;
+ALTER TABLE ai_usage_stats ADD COLUMN cost_usd REAL; -- NULL when the model reported no usage or has no price
+
+CREATE TABLE IF NOT EXISTS ai_budgets (
+  id TEXT PRIMARY KEY,
+  scope TEXT NOT NULL CHECK (scope IN ('global', 'tenant', 'user')),
+  scope_id TEXT NOT NULL DEFAULT '', -- tenant or user id; empty for global
+  period TEXT NOT NULL DEFAULT 'month' CHECK (period IN ('day', 'month')),
+  limit_usd REAL NOT NULL,
+  alert_threshold REAL NOT NULL DEFAULT 0.8, -- fraction of the limit that raises a warning
+  created_by TEXT,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (created_by) REFERENCES profiles (id) ON DELETE SET NULL,
+  UNIQUE(scope, scope_id, period)
+);
+
+CREATE INDEX IF NOT EXISTS idx_ai_usage_stats_tenant_id ON ai_usage_stats(tenant_id);
+CREATE INDEX IF NOT EXISTS idx_ai_usage_stats_model_used ON ai_usage_stats(model_used);
@@ -0,0 +1,16 @@
+-- Project Drafts Migration
+-- Autosaved editor state kept apart from named revisions, one draft per project
+
+CREATE TABLE IF NOT EXISTS project_drafts (
+  project_id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL,
+  svg_data TEXT NOT NULL,
+  metadata TEXT, -- JSON string
+  operation_layers TEXT, -- JSON OperationLayerModel
+  base_revision_id TEXT, -- project revision the draft was edited from
+  version INTEGER NOT NULL DEFAULT 1, -- bumped on every autosave; writers send the version they last saw
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (project_id) REFERENCES user_projects (id) ON DELETE CASCADE,
+  FOREIGN KEY (user_id) REFERENCES profiles (id) ON DELETE CASCADE
+);
@@ -0,0 +1,42 @@
+-- Project Search Migration
+-- Last-edited time for sorting, and a full-text index over project title, description and metadata
+
+ALTER TABLE user_projects ADD COLUMN updated_at DATETIME;
+
+-- The app writes ISO timestamps and the list sorts and pages by comparing them as text,
+-- so rows stamped with SQLite's CURRENT_TIMESTAMP format are rewritten to match
+UPDATE user_projects SET created_at = strftime('%Y-%m-%dT%H:%M:%fZ', created_at) WHERE created_at NOT LIKE '%T%';
+UPDATE user_projects SET updated_at = created_at WHERE updated_at IS NULL;
+
+-- External-content index: rows live in user_projects and the triggers keep the index in step
+CREATE VIRTUAL TABLE IF NOT EXISTS user_projects_fts USING fts5(
+  title,
+  description,
+  metadata,
+  content = 'user_projects',
+  content_rowid = 'rowid'
+);
+
+CREATE TRIGGER IF NOT EXISTS user_projects_fts_insert AFTER INSERT ON user_projects BEGIN
+  INSERT INTO user_projects_fts (rowid, title, description, metadata)
+  VALUES (new.rowid, new.title, new.description, new.metadata);
+END;
+
+CREATE TRIGGER IF NOT EXISTS user_projects_fts_delete AFTER DELETE ON user_projects BEGIN
+  INSERT INTO user_projects_fts (user_projects_fts, rowid, title, description, metadata)
+  VALUES ('delete', old.rowid, old.title, old.description, old.metadata);
+END;
+
+CREATE TRIGGER IF NOT EXISTS user_projects_fts_update AFTER UPDATE OF title, description, metadata ON user_projects BEGIN
+  INSERT INTO user_projects_fts (user_projects_fts, rowid, title, description, metadata)
+  VALUES ('delete', old.rowid, old.title, old.description, old.metadata);
+  INSERT INTO user_projects_fts (rowid, title, description, metadata)
+  VALUES (new.rowid, new.title, new.description, new.metadata);
+END;
+
+-- Index the projects that existed before the triggers
+INSERT INTO user_projects_fts (user_projects_fts) VALUES ('rebuild');
+
+CREATE INDEX IF NOT EXISTS idx_user_projects_user_created ON user_projects(user_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_user_projects_user_updated ON user_projects(user_id, updated_at);
+CREATE INDEX IF NOT EXISTS idx_user_projects_user_type ON user_projects(user_id, project_type);
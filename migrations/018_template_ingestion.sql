@@ -0,0 +1,16 @@
+-- Template Ingestion Migration
+-- Templates imported from the on-disk library carry their source file, content hash and physical size
+
+-- Rows from 0002_populate_templates.sql have no source until ingestion matches them by id
+ALTER TABLE templates ADD COLUMN content_hash TEXT; -- SHA-256 of svg_data
+ALTER TABLE templates ADD COLUMN source_path TEXT; -- relative to templates/
+ALTER TABLE templates ADD COLUMN width_mm REAL;
+ALTER TABLE templates ADD COLUMN height_mm REAL;
+ALTER TABLE templates ADD COLUMN updated_at DATETIME;
+-- Library SVGs too large for one D1 statement are served as static files; svg_data is empty for them
+ALTER TABLE templates ADD COLUMN svg_url TEXT;
+-- 'inferred' while title, description, category, tags, materials and difficulty are ingestion's guesses; re-ingestion leaves 'curated' rows' text alone
+ALTER TABLE templates ADD COLUMN catalogue_source TEXT NOT NULL DEFAULT 'curated' CHECK (catalogue_source IN ('curated', 'inferred'));
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_templates_content_hash ON templates(content_hash);
+CREATE INDEX IF NOT EXISTS idx_templates_source_path ON templates(source_path);
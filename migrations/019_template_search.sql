@@ -0,0 +1,46 @@
+-- Template Search Migration
+-- Full-text index over the template catalogue, and per-user download history for recommendations
+
+CREATE VIRTUAL TABLE IF NOT EXISTS templates_fts USING fts5(
+  title,
+  description,
+  tags,
+  content = 'templates',
+  content_rowid = 'rowid'
+);
+
+CREATE TRIGGER IF NOT EXISTS templates_fts_insert AFTER INSERT ON templates BEGIN
+  INSERT INTO templates_fts (rowid, title, description, tags)
+  VALUES (new.rowid, new.title, new.description, new.tags);
+END;
+
+CREATE TRIGGER IF NOT EXISTS templates_fts_delete AFTER DELETE ON templates BEGIN
+  INSERT INTO templates_fts (templates_fts, rowid, title, description, tags)
+  VALUES ('delete', old.rowid, old.title, old.description, old.tags);
+END;
+
+CREATE TRIGGER IF NOT EXISTS templates_fts_update AFTER UPDATE OF title, description, tags ON templates BEGIN
+  INSERT INTO templates_fts (templates_fts, rowid, title, description, tags)
+  VALUES ('delete', old.rowid, old.title, old.description, old.tags);
+  INSERT INTO templates_fts (rowid, title, description, tags)
+  VALUES (new.rowid, new.title, new.description, new.tags);
+END;
+
+INSERT INTO templates_fts (templates_fts) VALUES ('rebuild');
+
+-- One row per user and template; download_count on templates still counts every download
+CREATE TABLE IF NOT EXISTS template_downloads (
+  template_id TEXT NOT NULL,
+  user_id TEXT NOT NULL,
+  download_count INTEGER NOT NULL DEFAULT 1,
+  first_downloaded_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  last_downloaded_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (template_id, user_id),
+  FOREIGN KEY (template_id) REFERENCES templates (id) ON DELETE CASCADE,
+  FOREIGN KEY (user_id) REFERENCES profiles (id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_template_downloads_user_id ON template_downloads(user_id);
+CREATE INDEX IF NOT EXISTS idx_templates_download_count ON templates(download_count);
+CREATE INDEX IF NOT EXISTS idx_templates_created_at ON templates(created_at);
+CREATE INDEX IF NOT EXISTS idx_templates_difficulty ON templates(difficulty);
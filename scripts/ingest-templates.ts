@@ -0,0 +1,143 @@
+import { globSync } from 'glob';
+import { spawnSync } from 'child_process';
+import { mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { dirname, join } from 'path';
+import {
+  MAX_INLINE_SVG_LENGTH,
+  assignTemplateIds,
+  ingestTemplateFile,
+  renderTemplatePreview,
+  templateUpsertSQL,
+  type IngestedTemplate
+} from '../src/lib/template-ingest';
+
+// Template library ingestion
+// Scans templates/ for SVG and DXF files and writes one idempotent upsert per template, with PNG previews under public/
+//
+// Usage: npm run templates:ingest -- [--local | --remote] [--out file.sql] [--no-previews]
+// Without --local or --remote the SQL is only written, so it can be reviewed before it is applied.
+// Designs too large for a D1 statement are written to public/templates/svg/ and must be deployed with the site.
+// Exits with an error, without applying anything, when a file other than a duplicate could not be ingested.
+
+const TEMPLATES_DIR = join(process.cwd(), 'templates');
+const LIBRARY_FOLDERS = ['woodworking', 'svg', 'dxf', 'by-category', 'shaper-origin'];
+const PREVIEWS_DIR = join(process.cwd(), 'public', 'templates', 'previews');
+const PREVIEWS_URL = '/templates/previews';
+const SVG_FILES_DIR = join(process.cwd(), 'public', 'templates', 'svg');
+const SVG_FILES_URL = '/templates/svg';
+const DATABASE_NAME = 'cutgluebuild-db';
+
+const args = process.argv.slice(2);
+const outFile = optionValue('--out') || join(process.cwd(), '.wrangler', 'template-ingest.sql');
+const target = args.includes('--remote') ? 'remote' : args.includes('--local') ? 'local' : null;
+const withPreviews = !args.includes('--no-previews');
+
+async function ingestTemplates() {
+  console.log('\n📐 Ingesting templates library\n');
+  console.log('='.repeat(60));
+
+  // Folder order decides which copy of a file found twice is kept
+  const paths = LIBRARY_FOLDERS.flatMap(folder =>
+    globSync(`${folder}/**/*.{svg,dxf,SVG,DXF}`, { cwd: TEMPLATES_DIR, posix: true }).sort()
+  );
+  const ids = assignTemplateIds(paths);
+  console.log(`\nFound ${paths.length} files in ${LIBRARY_FOLDERS.map(folder => `templates/${folder}`).join(', ')}`);
+
+  const templates: IngestedTemplate[] = [];
+  const byHash = new Map<string, IngestedTemplate>();
+  const skipped: { path: string; reason: string; duplicate?: boolean }[] = [];
+
+  for (const path of paths) {
+    try {
+      const template = await ingestTemplateFile(ids.get(path)!, path, readFileSync(join(TEMPLATES_DIR, path), 'utf-8'));
+      const original = byHash.get(template.content_hash);
+      if (original) {
+        skipped.push({ path, reason: `same content as ${original.source_path}`, duplicate: true });
+        continue;
+      }
+
+      byHash.set(template.content_hash, template);
+      templates.push(template);
+      template.warnings.forEach(warning => console.log(`  ⚠️  ${path}: ${warning}`));
+    } catch (error) {
+      skipped.push({ path, reason: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  const statements: string[] = [];
+  let previews = 0;
+  let svgFiles = 0;
+  if (withPreviews) mkdirSync(PREVIEWS_DIR, { recursive: true });
+
+  for (const template of templates) {
+    let svgUrl: string | null = null;
+    if (template.svg_data.length > MAX_INLINE_SVG_LENGTH) {
+      mkdirSync(SVG_FILES_DIR, { recursive: true });
+      writeFileSync(join(SVG_FILES_DIR, `${template.id}.svg`), template.svg_data);
+      svgUrl = `${SVG_FILES_URL}/${template.id}.svg`;
+      svgFiles++;
+    }
+
+    let previewUrl: string | null = null;
+    if (withPreviews) {
+      try {
+        writeFileSync(join(PREVIEWS_DIR, `${template.id}.png`), await renderTemplatePreview(template));
+        previewUrl = `${PREVIEWS_URL}/${template.id}.png`;
+        previews++;
+      } catch (error) {
+        console.log(`  ⚠️  ${template.source_path}: no preview (${error instanceof Error ? error.message : error})`);
+      }
+    }
+    statements.push(templateUpsertSQL(template, previewUrl, svgUrl));
+  }
+
+  mkdirSync(dirname(outFile), { recursive: true });
+  writeFileSync(outFile, [
+    '-- Generated by scripts/ingest-templates.ts; safe to apply more than once',
+    ...statements
+  ].join('\n\n') + '\n');
+
+  console.log(`\n✅ ${templates.length} templates written to ${outFile}`);
+  if (withPreviews) console.log(`🖼️  ${previews} previews written to ${PREVIEWS_DIR}`);
+  if (svgFiles > 0) console.log(`📁 ${svgFiles} large designs written to ${SVG_FILES_DIR}`);
+
+  const categories = new Map<string, number>();
+  templates.forEach(template => categories.set(template.category, (categories.get(template.category) || 0) + 1));
+  console.log('\nBy category:');
+  [...categories.entries()].sort().forEach(([category, count]) => console.log(`  • ${category}: ${count}`));
+
+  if (skipped.length > 0) {
+    console.log(`\n⏭️  Skipped ${skipped.length} files:`);
+    skipped.forEach(({ path, reason }) => console.log(`  • ${path}: ${reason}`));
+  }
+
+  const failed = skipped.filter(file => !file.duplicate);
+  if (failed.length > 0) {
+    console.error(`\n❌ ${failed.length} templates could not be ingested; fix them before applying the catalogue`);
+    process.exit(1);
+  }
+
+  if (!target) {
+    console.log(`\nReview the SQL, then apply it with:\n  npx wrangler d1 execute ${DATABASE_NAME} --file=${outFile} --local   (or --remote)`);
+    return;
+  }
+
+  console.log(`\n🚀 Applying to the ${target} ${DATABASE_NAME} database...\n`);
+  const result = spawnSync('npx', ['wrangler', 'd1', 'execute', DATABASE_NAME, `--file=${outFile}`, `--${target}`], { stdio: 'inherit' });
+  if (result.status !== 0) {
+    console.error('\n❌ wrangler could not apply the templates');
+    process.exit(result.status || 1);
+  }
+  console.log('\n✅ Templates are up to date');
+}
+
+function optionValue(name: string): string | undefined {
+  const index = args.indexOf(name);
+  return index >= 0 ? args[index + 1] : undefined;
+}
+
+// Run the ingestion
+ingestTemplates().catch(error => {
+  console.error('\n❌ Error ingesting templates:', error);
+  process.exit(1);
+});
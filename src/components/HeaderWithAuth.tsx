@@ -1,5 +1,6 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { useAuthStore, useUser, useSubscriptionTier } from '../store/authStore';
+import { PLANS } from '../lib/entitlements';
 import {
   LayoutDashboard,
   User,
@@ -35,13 +36,13 @@ export default function HeaderWithAuth() {
   };
 
   const getTierBadge = () => {
-    if (tier === 'pro') return { label: 'PRO', color: 'bg-gradient-to-r from-purple-500 to-pink-500' };
-    if (tier === 'maker') return { label: 'MAKER', color: 'bg-gradient-to-r from-blue-500 to-cyan-500' };
+    if (tier === 'professional') return { label: 'PRO', color: 'bg-gradient-to-r from-purple-500 to-pink-500' };
     if (tier === 'starter') return { label: 'STARTER', color: 'bg-gradient-to-r from-green-500 to-emerald-500' };
     return { label: 'FREE', color: 'bg-gray-500' };
   };
 
   const tierBadge = getTierBadge();
+  const aiLimit = PLANS[tier || 'free'].quotas.ai_designs;
 
   if (!user) {
     return (
@@ -115,7 +116,7 @@ export default function HeaderWithAuth() {
             <div className="px-4 py-3 bg-gray-50 dark:bg-gray-900/50 border-b border-gray-200 dark:border-gray-700">
               <div className="flex justify-between text-xs">
                 <span className="text-gray-600 dark:text-gray-400">AI Uses This Month</span>
-                <span className="font-medium">47 / {tier === 'pro' ? '∞' : tier === 'maker' ? '100' : '50'}</span>
+                <span className="font-medium">47 / {aiLimit === -1 ? '∞' : aiLimit}</span>
               </div>
               <div className="w-full bg-gray-200 dark:bg-gray-700 rounded-full h-1 mt-1">
                 <div className="bg-gradient-to-r from-primary-500 to-secondary-500 h-1 rounded-full" style={{ width: '47%' }} />
@@ -162,7 +163,7 @@ export default function HeaderWithAuth() {
             </div>
 
             {/* Upgrade CTA for non-pro users */}
-            {tier !== 'pro' && (
+            {tier !== 'professional' && (
               <div className="px-4 py-3 bg-gradient-to-r from-primary-500 to-secondary-500">
                 <a
                   href="/pricing"
@@ -44,6 +44,23 @@ interface AdminStats {
   };
 }
 
+interface SpendRow {
+  key: string | null;
+  label: string | null;
+  calls: number;
+  cost_usd: number;
+  input_tokens: number;
+  output_tokens: number;
+}
+
+interface AISpend {
+  totals: { calls: number; failures: number; cost_usd: number; input_tokens: number; output_tokens: number; unpriced_calls: number };
+  by_model: SpendRow[];
+  by_task: SpendRow[];
+  by_user: SpendRow[];
+  alerts: Array<{ budget_id: string; status: 'warning' | 'exceeded'; message: string }>;
+}
+
 interface RecentActivity {
   id: string;
   admin_id: string;
@@ -340,8 +357,27 @@ const TemplatesTab: React.FC<{ stats: AdminStats | null }> = ({ stats }) => {
 
 // AI Usage Tab Component
 const AIUsageTab: React.FC<{ stats: AdminStats | null }> = ({ stats }) => {
+  const [spend, setSpend] = useState<AISpend | null>(null);
+
+  useEffect(() => {
+    fetch('/api/admin/ai-usage', { credentials: 'include' })
+      .then(response => response.ok ? response.json() : null)
+      .then(setSpend)
+      .catch(error => console.error('Failed to load AI spend:', error));
+  }, []);
+
   return (
     <div className="space-y-6">
+      {spend?.alerts.map(alert => (
+        <div
+          key={alert.budget_id}
+          className={`flex items-center p-4 rounded-lg ${alert.status === 'exceeded' ? 'bg-red-50 text-red-800 dark:bg-red-900/20 dark:text-red-300' : 'bg-yellow-50 text-yellow-800 dark:bg-yellow-900/20 dark:text-yellow-300'}`}
+        >
+          <AlertTriangle className="h-5 w-5 mr-3 flex-shrink-0" />
+          <span className="text-sm">{alert.message}</span>
+        </div>
+      ))}
+
       <div className="bg-white dark:bg-gray-800 p-6 rounded-lg shadow">
         <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">
           AI Usage Monitoring
@@ -369,10 +405,58 @@ const AIUsageTab: React.FC<{ stats: AdminStats | null }> = ({ stats }) => {
           </div>
         )}
       </div>
+
+      {spend && (
+        <div className="bg-white dark:bg-gray-800 p-6 rounded-lg shadow">
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">
+            AI Spend (last 30 days)
+          </h3>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+            <div className="text-center">
+              <div className="text-2xl font-bold text-green-600">{formatUSD(spend.totals.cost_usd)}</div>
+              <div className="text-sm text-gray-600 dark:text-gray-400">Total Cost</div>
+            </div>
+            <div className="text-center">
+              <div className="text-2xl font-bold text-blue-600">{spend.totals.calls.toLocaleString()}</div>
+              <div className="text-sm text-gray-600 dark:text-gray-400">Calls</div>
+            </div>
+            <div className="text-center">
+              <div className="text-2xl font-bold text-purple-600">
+                {(spend.totals.input_tokens + spend.totals.output_tokens).toLocaleString()}
+              </div>
+              <div className="text-sm text-gray-600 dark:text-gray-400">Tokens</div>
+            </div>
+            <div className="text-center">
+              <div className="text-2xl font-bold text-orange-600">{spend.totals.unpriced_calls.toLocaleString()}</div>
+              <div className="text-sm text-gray-600 dark:text-gray-400">Calls Without Cost</div>
+            </div>
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+            <SpendTable title="By Model" rows={spend.by_model} />
+            <SpendTable title="By Task" rows={spend.by_task} />
+            <SpendTable title="Top Users" rows={spend.by_user.slice(0, 10)} />
+          </div>
+        </div>
+      )}
     </div>
   );
 };
 
+const SpendTable: React.FC<{ title: string; rows: SpendRow[] }> = ({ title, rows }) => (
+  <div>
+    <h4 className="text-sm font-medium text-gray-900 dark:text-white mb-2">{title}</h4>
+    <div className="space-y-1">
+      {rows.map(row => (
+        <div key={row.key ?? 'none'} className="flex justify-between text-sm">
+          <span className="text-gray-600 dark:text-gray-400 truncate mr-2">{row.label || row.key || 'Unattributed'}</span>
+          <span className="text-gray-900 dark:text-white">{formatUSD(row.cost_usd)}</span>
+        </div>
+      ))}
+      {rows.length === 0 && <div className="text-sm text-gray-500">No calls yet</div>}
+    </div>
+  </div>
+);
+
 // System Tab Component
 const SystemTab: React.FC<{ stats: AdminStats | null }> = ({ stats }) => {
   return (
@@ -406,4 +490,8 @@ const SystemTab: React.FC<{ stats: AdminStats | null }> = ({ stats }) => {
   );
 };
 
+function formatUSD(amount: number): string {
+  return `$${amount.toFixed(amount < 1 ? 4 : 2)}`;
+}
+
 export default AdminDashboard;
\ No newline at end of file
@@ -216,8 +216,8 @@ export default function RevenueAnalytics() {
             <div key={tier.tier} className="flex items-center justify-between">
               <div className="flex items-center space-x-3">
                 <div className={`w-3 h-3 rounded-full ${
-                  tier.tier === 'pro' ? 'bg-purple-500' :
-                  tier.tier === 'maker' ? 'bg-blue-500' : 'bg-gray-400'
+                  tier.tier === 'professional' ? 'bg-purple-500' :
+                  tier.tier === 'starter' ? 'bg-blue-500' : 'bg-gray-400'
                 }`}></div>
                 <div>
                   <p className="font-medium text-gray-900 dark:text-white capitalize">
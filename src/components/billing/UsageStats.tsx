@@ -59,6 +59,7 @@ export default function UsageStats() {
 
   const getUsagePercentage = (used: number, limit: number): number => {
     if (limit === -1) return 0; // Unlimited
+    if (limit === 0) return 100; // Not included in the plan
     return Math.min((used / limit) * 100, 100);
   };
 
@@ -133,9 +134,8 @@ export default function UsageStats() {
 
       <div className="space-y-4">
         {usageData.map((usage) => {
-          const dailyPercentage = getUsagePercentage(usage.used_today, usage.limit_daily);
           const monthlyPercentage = getUsagePercentage(usage.used_this_month, usage.limit_monthly);
-          const isUnlimited = usage.limit_daily === -1;
+          const isUnlimited = usage.limit_monthly === -1;
 
           return (
             <div key={usage.feature} className="space-y-2">
@@ -150,14 +150,12 @@ export default function UsageStats() {
                     </span>
                   ) : (
                     <>
-                      <span className={`text-xs px-2 py-1 rounded-full ${getUsageColor(dailyPercentage)}`}>
-                        {usage.used_today}/{usage.limit_daily} today
+                      <span className={`text-xs px-2 py-1 rounded-full ${getUsageColor(monthlyPercentage)}`}>
+                        {usage.used_this_month}/{usage.limit_monthly} this month
+                      </span>
+                      <span className="text-xs text-gray-500">
+                        {usage.used_today} today
                       </span>
-                      {usage.limit_monthly > 0 && (
-                        <span className="text-xs text-gray-500">
-                          {usage.used_this_month}/{usage.limit_monthly} this month
-                        </span>
-                      )}
                     </>
                   )}
                 </div>
@@ -167,13 +165,13 @@ export default function UsageStats() {
                 <div className="relative">
                   <div className="w-full bg-gray-200 rounded-full h-2">
                     <div
-                      className={`h-2 rounded-full transition-all duration-300 ${getProgressColor(dailyPercentage)}`}
-                      style={{ width: `${dailyPercentage}%` }}
+                      className={`h-2 rounded-full transition-all duration-300 ${getProgressColor(monthlyPercentage)}`}
+                      style={{ width: `${monthlyPercentage}%` }}
                     ></div>
                   </div>
-                  {dailyPercentage >= 90 && (
+                  {monthlyPercentage >= 90 && (
                     <div className="text-xs text-red-600 mt-1">
-                      Daily limit almost reached
+                      Monthly limit almost reached
                     </div>
                   )}
                 </div>
@@ -200,7 +198,7 @@ export default function UsageStats() {
       </div>
 
       {/* Upgrade prompt for starter users */}
-      {currentTier === 'starter' && usageData.some(u => u.used_today > u.limit_daily * 0.8) && (
+      {currentTier === 'starter' && usageData.some(u => u.limit_monthly > 0 && u.used_this_month > u.limit_monthly * 0.8) && (
         <div className="mt-6 p-4 bg-gradient-to-r from-primary-50 to-secondary-50 rounded-lg">
           <div className="flex items-center justify-between">
             <div>
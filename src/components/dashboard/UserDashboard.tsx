@@ -21,6 +21,7 @@ import {
   ArrowDown
 } from 'lucide-react';
 import { useAuthStore, useUser, useSubscriptionTier } from '../../store/authStore';
+import { PLANS } from '../../lib/entitlements';
 import toast from 'react-hot-toast';
 
 interface QuickAction {
@@ -132,18 +133,17 @@ export default function UserDashboard() {
     }
   ];
 
+  const plan = PLANS[tier || 'free'];
+  const aiLimit = plan.quotas.ai_designs;
+
   const getUsagePercentage = () => {
-    if (tier === 'pro') return 0; // Unlimited
-    if (tier === 'maker') return (stats.aiGenerations / 100) * 100;
-    if (tier === 'starter') return (stats.aiGenerations / 50) * 100;
-    return (stats.aiGenerations / 10) * 100; // Free tier
+    if (aiLimit === -1) return 0; // Unlimited
+    if (aiLimit === 0) return 100;
+    return (stats.aiGenerations / aiLimit) * 100;
   };
 
   const getUsageLimit = () => {
-    if (tier === 'pro') return 'Unlimited';
-    if (tier === 'maker') return '100';
-    if (tier === 'starter') return '50';
-    return '10';
+    return aiLimit === -1 ? 'Unlimited' : String(aiLimit);
   };
 
   return (
@@ -233,7 +233,7 @@ export default function UserDashboard() {
               Monthly Usage
             </h2>
             <span className="text-sm text-gray-600 dark:text-gray-400">
-              {tier === 'free' ? 'Free Plan' : `${tier.charAt(0).toUpperCase() + tier.slice(1)} Plan`}
+              {plan.name} Plan
             </span>
           </div>
 
@@ -266,7 +266,7 @@ export default function UserDashboard() {
               </div>
             </div>
 
-            {tier !== 'pro' && (
+            {tier !== 'professional' && (
               <div className="pt-4 border-t border-gray-200 dark:border-gray-700">
                 <a
                   href="/pricing"
@@ -49,7 +49,9 @@ export default function TemplateDownloadButton({
 
       const template = await response.json();
 
-      if (!template || !template.svg_data) {
+      // Large library designs are served as static files rather than stored with the template
+      const svgData = template?.svg_data || (template?.svg_url ? await fetch(template.svg_url).then(file => (file.ok ? file.text() : '')) : '');
+      if (!svgData) {
         throw new Error('Template not found');
       }
 
@@ -73,7 +75,7 @@ export default function TemplateDownloadButton({
       }
 
       // Create and download file
-      const blob = new Blob([template.svg_data], { type: 'image/svg+xml' });
+      const blob = new Blob([svgData], { type: 'image/svg+xml' });
       const url = URL.createObjectURL(blob);
       const a = document.createElement('a');
       a.href = url;
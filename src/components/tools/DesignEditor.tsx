@@ -10,6 +10,7 @@ import {
 } from 'fabric';
 import toast from 'react-hot-toast';
 import ShaperSVGExporter from './ShaperSVGExporter';
+import type { OperationLayerModel } from '../../lib/operation-layers';
 
 interface DesignEditorProps {
   projectId?: string;
@@ -19,13 +20,21 @@ interface DesignEditorProps {
     height: number;
     backgroundColor: string;
   };
+  operationLayers?: OperationLayerModel;
+  currentRevisionId?: string | null; // the project's revision when the page loaded; saves are rejected once it is stale
   onSave?: (svgData: string) => void;
 }
 
+type AutosaveStatus = 'idle' | 'saving' | 'saved' | 'conflict';
+
+const AUTOSAVE_DELAY_MS = 2000;
+
 export default function DesignEditor({
   projectId,
   initialSvgData,
   canvasSettings = { width: 800, height: 600, backgroundColor: '#ffffff' },
+  operationLayers,
+  currentRevisionId = null,
   onSave,
 }: DesignEditorProps) {
   const canvasRef = useRef<HTMLCanvasElement>(null);
@@ -34,6 +43,14 @@ export default function DesignEditor({
   const [selectedTool, setSelectedTool] = useState('select');
   const [showShaperExport, setShowShaperExport] = useState(false);
   const [currentSvgData, setCurrentSvgData] = useState<string>('');
+  const [autosaveStatus, setAutosaveStatus] = useState<AutosaveStatus>('idle');
+  const revisionIdRef = useRef<string | null>(currentRevisionId);
+  const draftVersionRef = useRef<number | null>(null);
+  const autosaveTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const loadingRef = useRef(false);
+  const initialLoadRef = useRef<Promise<void>>(Promise.resolve());
+  const conflictRef = useRef(false);
+  const canAutosave = !!projectId && projectId !== 'temp';
 
   useEffect(() => {
     if (canvasRef.current) {
@@ -46,7 +63,7 @@ export default function DesignEditor({
       setCanvas(fabricCanvas);
 
       if (initialSvgData) {
-        loadSvgData(fabricCanvas, initialSvgData);
+        initialLoadRef.current = loadSvgData(fabricCanvas, initialSvgData);
       }
 
       return () => {
@@ -55,19 +72,114 @@ export default function DesignEditor({
     }
   }, []);
 
-  const loadSvgData = (fabricCanvas: Canvas, svgData: string) => {
-    loadSVGFromString(svgData, (objects, options) => {
-      if (Array.isArray(objects)) {
-        const obj = fabricUtil.groupSVGElements(objects as FabricObject[], options);
+  // Offer back the autosaved draft, and autosave edits a moment after they stop
+  useEffect(() => {
+    if (!canvas || !canAutosave) return;
+    let active = true;
+
+    // The draft replaces the saved design, so wait for that to finish loading first
+    initialLoadRef.current
+      .then(() => fetch(`/api/projects/${projectId}/draft`))
+      .then(response => (response.ok ? response.json() : null))
+      .then(async data => {
+        if (!active || !data?.draft) return;
+        draftVersionRef.current = data.draft.version;
+        if (!data.draft.stale) {
+          await loadSvgData(canvas, data.draft.svgData, true);
+          toast.success('Restored your unsaved changes');
+        }
+      })
+      .catch(error => console.error('Draft load error:', error));
+
+    const scheduleAutosave = () => {
+      if (loadingRef.current || conflictRef.current) return;
+      if (autosaveTimerRef.current) clearTimeout(autosaveTimerRef.current);
+      autosaveTimerRef.current = setTimeout(() => autosaveDraft(canvas), AUTOSAVE_DELAY_MS);
+    };
+
+    canvas.on('object:added', scheduleAutosave);
+    canvas.on('object:modified', scheduleAutosave);
+    canvas.on('object:removed', scheduleAutosave);
+
+    return () => {
+      active = false;
+      canvas.off('object:added', scheduleAutosave);
+      canvas.off('object:modified', scheduleAutosave);
+      canvas.off('object:removed', scheduleAutosave);
+      if (autosaveTimerRef.current) clearTimeout(autosaveTimerRef.current);
+    };
+  }, [canvas]);
+
+  // Canvas events fired while loading are not edits, so they do not schedule an autosave
+  const loadSvgData = async (fabricCanvas: Canvas, svgData: string, replace = false) => {
+    loadingRef.current = true;
+    try {
+      const { objects, options } = await loadSVGFromString(svgData);
+      const elements = objects.filter((obj): obj is FabricObject => !!obj);
+      if (replace) {
+        fabricCanvas.remove(...fabricCanvas.getObjects());
+      }
+      if (elements.length > 0) {
+        const obj = fabricUtil.groupSVGElements(elements, options);
         fabricCanvas.add(obj);
         fabricCanvas.centerObject(obj);
-      } else {
-        // Handle single object case
-        fabricCanvas.add(objects as unknown as FabricObject);
-        fabricCanvas.centerObject(objects as unknown as FabricObject);
       }
       fabricCanvas.renderAll();
-    });
+    } catch (error) {
+      console.error('SVG load error:', error);
+    } finally {
+      loadingRef.current = false;
+    }
+  };
+
+  const savePayload = (fabricCanvas: Canvas, svgData: string) => ({
+    projectId,
+    svgData,
+    baseRevisionId: revisionIdRef.current,
+    metadata: {
+      canvasSettings: {
+        width: fabricCanvas.width,
+        height: fabricCanvas.height,
+        backgroundColor: fabricCanvas.backgroundColor,
+      },
+    },
+  });
+
+  // Another window saved first; stop writing so neither copy is silently lost
+  const handleConflict = () => {
+    conflictRef.current = true;
+    setAutosaveStatus('conflict');
+    if (autosaveTimerRef.current) clearTimeout(autosaveTimerRef.current);
+    toast.error('This project was changed in another window. Reload to get the latest version before saving.', { duration: 8000 });
+  };
+
+  const autosaveDraft = async (fabricCanvas: Canvas) => {
+    if (conflictRef.current) return;
+
+    setAutosaveStatus('saving');
+    try {
+      const response = await fetch('/api/projects/save-revision', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          ...savePayload(fabricCanvas, fabricCanvas.toSVG()),
+          draft: true,
+          draftVersion: draftVersionRef.current,
+        }),
+      });
+      if (response.status === 409) {
+        handleConflict();
+        return;
+      }
+      if (!response.ok) throw new Error('Failed to autosave draft');
+
+      const data = await response.json();
+      draftVersionRef.current = data.draft.version;
+      setAutosaveStatus('saved');
+    } catch (error) {
+      console.error('Autosave error:', error);
+      setAutosaveStatus('idle');
+    }
   };
 
   const addShape = (shape: 'rect' | 'circle' | 'text') => {
@@ -127,24 +239,27 @@ export default function DesignEditor({
       const svgData = canvas.toSVG();
       if (onSave) onSave(svgData);
 
-      if (projectId && projectId !== 'temp') {
+      if (canAutosave) {
+        if (autosaveTimerRef.current) clearTimeout(autosaveTimerRef.current);
         const response = await fetch('/api/projects/save-revision', {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
           body: JSON.stringify({
-            projectId,
-            svgData,
+            ...savePayload(canvas, svgData),
             changesDescription: 'Design updated',
-            metadata: {
-              canvasSettings: {
-                width: canvas.width,
-                height: canvas.height,
-                backgroundColor: canvas.backgroundColor,
-              },
-            },
           }),
         });
+        if (response.status === 409) {
+          handleConflict();
+          return;
+        }
         if (!response.ok) throw new Error('Failed to save project');
+
+        // The new revision is the token for the next save, and the draft is gone
+        const data = await response.json();
+        revisionIdRef.current = data.currentRevisionId;
+        draftVersionRef.current = null;
+        setAutosaveStatus('idle');
       }
 
       toast.success('Design saved successfully!');
@@ -217,6 +332,11 @@ export default function DesignEditor({
             </button>
           </div>
           <div className="flex items-center space-x-3">
+            {autosaveStatus !== 'idle' && (
+              <span className={`text-xs ${autosaveStatus === 'conflict' ? 'text-red-600 dark:text-red-400' : 'text-gray-500 dark:text-gray-400'}`}>
+                {autosaveStatus === 'saving' ? 'Saving draft...' : autosaveStatus === 'saved' ? 'Draft saved' : 'Changed in another window'}
+              </span>
+            )}
             <button onClick={saveDesign} disabled={isLoading} className="btn btn-primary text-sm">
               {isLoading ? 'Saving...' : 'Save'}
             </button>
@@ -253,6 +373,7 @@ export default function DesignEditor({
             <ShaperSVGExporter
               svgData={currentSvgData}
               projectTitle={`Project ${projectId || 'Design'}`}
+              operationLayers={operationLayers}
               onShaperSVGGenerated={(svg) => {
                 console.log('Shaper SVG generated:', svg);
                 toast.success('Shaper SVG ready for download!');
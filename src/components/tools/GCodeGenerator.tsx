@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { motion } from 'framer-motion';
 import { toast } from 'react-hot-toast';
 import { 
@@ -15,6 +15,8 @@ import {
 } from 'lucide-react';
 import { useUser } from '../../store/authStore';
 import type { GCodeOutput } from '../../lib/cloudflare-ai';
+import type { MachineSettings } from '../../lib/toolpath-compiler';
+import type { MachineProfile } from '../../lib/machine-profiles';
 
 interface GCodeGeneratorProps {
   svgData?: string;
@@ -22,16 +24,6 @@ interface GCodeGeneratorProps {
   onGCodeGenerated?: (gcode: string) => void;
 }
 
-interface MachineSettings {
-  machineType: 'laser' | 'cnc' | 'plasma';
-  material: string;
-  thickness: number;
-  feedRate: number;
-  laserPower?: number;
-  spindleSpeed?: number;
-  passes: number;
-}
-
 export default function GCodeGenerator({ svgData, projectTitle, onGCodeGenerated }: GCodeGeneratorProps) {
   const user = useUser();
   const [isGenerating, setIsGenerating] = useState(false);
@@ -42,9 +34,45 @@ export default function GCodeGenerator({ svgData, projectTitle, onGCodeGenerated
     thickness: 3,
     feedRate: 1000,
     laserPower: 80,
-    passes: 1
+    passes: 1,
+    postProcessor: 'grbl'
   });
   const [showAdvanced, setShowAdvanced] = useState(false);
+  const [machines, setMachines] = useState<MachineProfile[]>([]);
+  const [machineId, setMachineId] = useState<string | null>(null);
+
+  // Only machines driven by G-code are offered; Glowforge and Shaper take SVG
+  const gcodeMachines = machines.filter(machine => machine.postProcessor);
+
+  useEffect(() => {
+    if (!user) return;
+
+    fetch('/api/machines', { credentials: 'include' })
+      .then(response => response.ok ? response.json() : null)
+      .then(data => {
+        if (!data) return;
+        setMachines(data.machines);
+        const preferred = data.machines.find((machine: MachineProfile) => machine.id === data.preferredMachineId);
+        if (preferred?.postProcessor) selectMachine(preferred.id, data.machines);
+      })
+      .catch(error => console.error('Machine list error:', error));
+  }, [user]);
+
+  const selectMachine = (value: string, available: MachineProfile[] = machines) => {
+    const machine = available.find(profile => profile.id === value);
+    if (!machine) {
+      setMachineId(null);
+      setSettings(prev => ({ ...prev, machineType: value as MachineSettings['machineType'] }));
+      return;
+    }
+
+    setMachineId(machine.id);
+    setSettings(prev => ({
+      ...prev,
+      machineType: machine.capabilities.type === 'waterjet' ? 'cnc' : machine.capabilities.type,
+      postProcessor: machine.postProcessor || prev.postProcessor
+    }));
+  };
 
   const materialPresets = {
     plywood: { feedRate: 1000, laserPower: 75, passes: 1 },
@@ -90,6 +118,7 @@ export default function GCodeGenerator({ svgData, projectTitle, onGCodeGenerated
           svgData,
           material: settings.material,
           machineType: settings.machineType,
+          machineId,
           settings
         })
       });
@@ -119,7 +148,7 @@ export default function GCodeGenerator({ svgData, projectTitle, onGCodeGenerated
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
     a.href = url;
-    a.download = `${projectTitle || 'project'}_${settings.machineType}.gcode`;
+    a.download = `${projectTitle || 'project'}_${settings.machineType}_${settings.postProcessor || 'grbl'}.gcode`;
     document.body.appendChild(a);
     a.click();
     document.body.removeChild(a);
@@ -185,16 +214,25 @@ export default function GCodeGenerator({ svgData, projectTitle, onGCodeGenerated
           {/* Machine Type */}
           <div>
             <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
-              Machine Type
+              Machine
             </label>
             <select
-              value={settings.machineType}
-              onChange={(e) => setSettings(prev => ({ ...prev, machineType: e.target.value as any }))}
+              value={machineId || settings.machineType}
+              onChange={(e) => selectMachine(e.target.value)}
               className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100"
             >
-              <option value="laser">Laser Cutter</option>
-              <option value="cnc">CNC Router</option>
-              <option value="plasma">Plasma Cutter</option>
+              {gcodeMachines.length > 0 && (
+                <optgroup label="Machines">
+                  {gcodeMachines.map(machine => (
+                    <option key={machine.id} value={machine.id}>{machine.name}</option>
+                  ))}
+                </optgroup>
+              )}
+              <optgroup label="Generic">
+                <option value="laser">Laser Cutter</option>
+                <option value="cnc">CNC Router</option>
+                <option value="plasma">Plasma Cutter</option>
+              </optgroup>
             </select>
           </div>
 
@@ -311,6 +349,22 @@ export default function GCodeGenerator({ svgData, projectTitle, onGCodeGenerated
                 max="10"
               />
             </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                Controller
+              </label>
+              <select
+                value={settings.postProcessor}
+                onChange={(e) => setSettings(prev => ({ ...prev, postProcessor: e.target.value }))}
+                className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100"
+              >
+                <option value="grbl">GRBL</option>
+                <option value="marlin">Marlin</option>
+                <option value="linuxcnc">LinuxCNC</option>
+                <option value="ruida">Ruida (laser)</option>
+              </select>
+            </div>
           </motion.div>
         )}
       </div>
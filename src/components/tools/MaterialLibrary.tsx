@@ -0,0 +1,315 @@
+import React, { useEffect, useState } from 'react';
+import { toast, Toaster } from 'react-hot-toast';
+import { Layers, Pencil, Plus, Share2, Trash2 } from 'lucide-react';
+import type { MaterialProperties } from '../../lib/manufacturing-constraints';
+import type { CustomMaterial } from '../../lib/material-library';
+
+type BuiltinMaterial = MaterialProperties & { key: string };
+type LibraryMaterial = CustomMaterial & { editable: boolean };
+
+interface MaterialForm {
+  key: string;
+  name: string;
+  basedOn: string;
+  thickness: number;
+  kerfWidth: number;
+  pressFitTolerance: number;
+  looseFitTolerance: number;
+  slidingFitTolerance: number;
+  minFeatureSize: number;
+  minHoleSize: number;
+  notes: string;
+  shareWithTenant: boolean;
+}
+
+// Values a calibration run measures; everything else comes from the base material
+const MEASURED_FIELDS: { field: keyof MaterialForm; label: string; step: string }[] = [
+  { field: 'thickness', label: 'Thickness (mm)', step: '0.01' },
+  { field: 'kerfWidth', label: 'Measured kerf (mm)', step: '0.01' },
+  { field: 'pressFitTolerance', label: 'Press fit (mm)', step: '0.01' },
+  { field: 'looseFitTolerance', label: 'Loose fit (mm)', step: '0.01' },
+  { field: 'slidingFitTolerance', label: 'Sliding fit (mm)', step: '0.01' },
+  { field: 'minFeatureSize', label: 'Min feature (mm)', step: '0.05' },
+  { field: 'minHoleSize', label: 'Min hole (mm)', step: '0.1' }
+];
+
+const formFromMaterial = (material: MaterialProperties, key: string, basedOn: string): MaterialForm => ({
+  key,
+  name: material.name,
+  basedOn,
+  thickness: material.thickness,
+  kerfWidth: material.kerfWidth,
+  pressFitTolerance: material.pressFitTolerance,
+  looseFitTolerance: material.looseFitTolerance,
+  slidingFitTolerance: material.slidingFitTolerance,
+  minFeatureSize: material.minFeatureSize,
+  minHoleSize: material.minHoleSize,
+  notes: '',
+  shareWithTenant: false
+});
+
+export default function MaterialLibrary() {
+  const [builtin, setBuiltin] = useState<BuiltinMaterial[]>([]);
+  const [custom, setCustom] = useState<LibraryMaterial[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [editing, setEditing] = useState<LibraryMaterial | null>(null);
+  const [form, setForm] = useState<MaterialForm | null>(null);
+
+  useEffect(() => {
+    loadMaterials();
+  }, []);
+
+  const loadMaterials = async () => {
+    try {
+      setIsLoading(true);
+      const response = await fetch('/api/materials', { credentials: 'include' });
+      if (!response.ok) throw new Error('Failed to load materials');
+
+      const data = await response.json();
+      setBuiltin(data.builtin || []);
+      setCustom(data.custom || []);
+    } catch (error) {
+      console.error('Error loading materials:', error);
+      toast.error('Failed to load your material library');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const startNew = () => {
+    const base = builtin[0];
+    if (!base) return;
+    setEditing(null);
+    setForm({ ...formFromMaterial(base, `${base.key}-calibrated`, base.key), name: `${base.name} (calibrated)` });
+  };
+
+  const startEdit = (material: LibraryMaterial) => {
+    setEditing(material);
+    setForm({
+      ...formFromMaterial(material, material.key, material.basedOn || ''),
+      notes: material.notes || '',
+      shareWithTenant: material.scope === 'tenant'
+    });
+  };
+
+  const changeBase = (key: string) => {
+    const base = builtin.find(material => material.key === key);
+    if (!base || !form) return;
+    setForm({ ...formFromMaterial(base, form.key, key), name: form.name, notes: form.notes, shareWithTenant: form.shareWithTenant });
+  };
+
+  const saveMaterial = async () => {
+    if (!form) return;
+
+    try {
+      setIsSaving(true);
+      // Edits resend the stored material so properties not on the form are kept
+      const body = editing ? { ...editing, ...form } : form;
+      const response = await fetch(editing ? `/api/materials/${editing.id}` : '/api/materials', {
+        method: editing ? 'PUT' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify(body)
+      });
+
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.error || 'Failed to save material');
+
+      toast.success(editing ? 'Material updated' : 'Material saved');
+      setForm(null);
+      setEditing(null);
+      await loadMaterials();
+    } catch (error) {
+      console.error('Error saving material:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to save material');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const deleteMaterial = async (material: LibraryMaterial) => {
+    if (!confirm(`Delete ${material.name}? Projects that use "${material.key}" will fall back to the built-in material.`)) return;
+
+    try {
+      const response = await fetch(`/api/materials/${material.id}`, { method: 'DELETE', credentials: 'include' });
+      if (!response.ok) throw new Error('Failed to delete material');
+
+      toast.success('Material deleted');
+      setCustom(prev => prev.filter(item => item.id !== material.id));
+    } catch (error) {
+      console.error('Error deleting material:', error);
+      toast.error('Failed to delete material');
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="card p-6">
+        <div className="animate-pulse space-y-4">
+          <div className="h-6 bg-gray-200 dark:bg-gray-700 rounded w-1/3"></div>
+          <div className="h-16 bg-gray-200 dark:bg-gray-700 rounded"></div>
+          <div className="h-16 bg-gray-200 dark:bg-gray-700 rounded"></div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-8">
+      <Toaster />
+      <div className="card p-6">
+        <div className="flex items-center justify-between mb-6">
+          <div>
+            <h2 className="text-2xl font-bold text-gray-900 dark:text-white">Your Materials</h2>
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              Custom materials are used before the built-in ones wherever their key is selected.
+            </p>
+          </div>
+          <button onClick={startNew} className="btn-primary flex items-center space-x-2">
+            <Plus className="w-4 h-4" />
+            <span>Add Material</span>
+          </button>
+        </div>
+
+        {custom.length === 0 ? (
+          <div className="text-center py-8">
+            <Layers className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+            <p className="text-gray-600 dark:text-gray-400">
+              No custom materials yet. Add one after calibrating a new batch of stock.
+            </p>
+          </div>
+        ) : (
+          <div className="divide-y divide-gray-200 dark:divide-gray-700">
+            {custom.map(material => (
+              <div key={material.id} className="flex items-center justify-between py-4">
+                <div>
+                  <div className="flex items-center space-x-2">
+                    <span className="font-medium text-gray-900 dark:text-white">{material.name}</span>
+                    {material.scope === 'tenant' && (
+                      <span className="flex items-center text-xs text-primary-600 dark:text-primary-400">
+                        <Share2 className="w-3 h-3 mr-1" /> Shared
+                      </span>
+                    )}
+                  </div>
+                  <p className="text-sm text-gray-500 dark:text-gray-400">
+                    {material.key} · {material.thickness}mm · kerf {material.kerfWidth}mm · press fit {material.pressFitTolerance}mm
+                  </p>
+                </div>
+                {material.editable && (
+                  <div className="flex items-center space-x-2">
+                    <button
+                      onClick={() => startEdit(material)}
+                      className="p-2 text-gray-500 hover:text-gray-900 dark:hover:text-gray-100"
+                      title="Edit"
+                    >
+                      <Pencil className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => deleteMaterial(material)}
+                      className="p-2 text-gray-500 hover:text-red-600"
+                      title="Delete"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {form && (
+        <div className="card p-6">
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">
+            {editing ? `Edit ${editing.name}` : 'New Material'}
+          </h3>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Name</label>
+              <input
+                type="text"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Key</label>
+              <input
+                type="text"
+                value={form.key}
+                onChange={(e) => setForm({ ...form, key: e.target.value.toLowerCase() })}
+                className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Based on</label>
+              <select
+                value={form.basedOn}
+                onChange={(e) => changeBase(e.target.value)}
+                disabled={!!editing}
+                className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100"
+              >
+                {editing && !form.basedOn && <option value="">—</option>}
+                {builtin.map(material => (
+                  <option key={material.key} value={material.key}>{material.name}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-4">
+            {MEASURED_FIELDS.map(({ field, label, step }) => (
+              <div key={field}>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">{label}</label>
+                <input
+                  type="number"
+                  step={step}
+                  value={form[field] as number}
+                  onChange={(e) => setForm({ ...form, [field]: Number(e.target.value) })}
+                  className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100"
+                />
+              </div>
+            ))}
+          </div>
+
+          <div className="mb-4">
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Notes</label>
+            <textarea
+              value={form.notes}
+              onChange={(e) => setForm({ ...form, notes: e.target.value })}
+              rows={2}
+              placeholder="Supplier, batch, machine and settings used for calibration"
+              className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100"
+            />
+          </div>
+
+          <div className="flex items-center justify-between">
+            <label className="flex items-center space-x-2 text-sm text-gray-700 dark:text-gray-300">
+              <input
+                type="checkbox"
+                checked={form.shareWithTenant}
+                onChange={(e) => setForm({ ...form, shareWithTenant: e.target.checked })}
+              />
+              <span>Share with my workspace</span>
+            </label>
+            <div className="flex space-x-2">
+              <button
+                onClick={() => { setForm(null); setEditing(null); }}
+                className="px-4 py-2 text-gray-700 dark:text-gray-300 hover:text-gray-900 dark:hover:text-gray-100"
+              >
+                Cancel
+              </button>
+              <button onClick={saveMaterial} disabled={isSaving} className="btn-primary disabled:opacity-50">
+                {isSaving ? 'Saving...' : 'Save Material'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,10 +1,12 @@
 import React, { useState } from 'react';
 import toast from 'react-hot-toast';
+import { useSubscriptionTier } from '../../store/authStore';
+import { canExportFormat } from '../../lib/entitlements';
 
 interface ProjectExporterProps {
-  svgData: string;
+  projectId: string;
   projectTitle: string;
-  metadata?: any;
+  hasDesign: boolean;
 }
 
 interface ExportFormat {
@@ -43,186 +45,90 @@ const exportFormats: ExportFormat[] = [
     extension: 'dxf',
     description: 'AutoCAD drawing exchange format',
     icon: 'wrench'
+  },
+  {
+    id: 'gcode',
+    name: 'G-code',
+    extension: 'gcode',
+    description: 'Toolpaths for your preferred machine',
+    icon: '⚙️'
+  },
+  {
+    id: 'ai',
+    name: 'Adobe Illustrator',
+    extension: 'ai',
+    description: 'Editable layers for Illustrator and CorelDRAW',
+    icon: '✏️'
+  },
+  {
+    id: 'eps',
+    name: 'EPS Vector',
+    extension: 'eps',
+    description: 'Encapsulated PostScript for print and sign software',
+    icon: '📐'
   }
 ];
 
-export default function ProjectExporter({ svgData, projectTitle, metadata }: ProjectExporterProps) {
+export default function ProjectExporter({ projectId, projectTitle, hasDesign }: ProjectExporterProps) {
+  const tier = useSubscriptionTier();
   const [selectedFormat, setSelectedFormat] = useState('svg');
   const [isExporting, setIsExporting] = useState(false);
   const [exportSettings, setExportSettings] = useState({
     scale: 1,
     dpi: 300,
-    includeMetadata: true
+    includeMetadata: true,
+    dxfVersion: 'R2000' as 'R12' | 'R2000',
+    dxfUnits: 'mm' as 'mm' | 'in'
   });
 
+  // The server renders every format, checks the plan and counts the export
   const exportProject = async (format: string) => {
     setIsExporting(true);
-    
+
     try {
-      const filename = `${projectTitle.replace(/[^a-z0-9]/gi, '_').toLowerCase()}`;
-      
-      switch (format) {
-        case 'svg':
-          await exportSVG(filename);
-          break;
-        case 'png':
-          await exportPNG(filename);
-          break;
-        case 'pdf':
-          await exportPDF(filename);
-          break;
-        case 'dxf':
-          await exportDXF(filename);
-          break;
-        default:
-          throw new Error('Unsupported format');
+      const response = await fetch(`/api/projects/${encodeURIComponent(projectId)}/export`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({
+          format,
+          options: {
+            dpi: exportSettings.dpi,
+            scale: exportSettings.scale,
+            dxfVersion: exportSettings.dxfVersion,
+            dxfUnits: exportSettings.dxfUnits,
+            includeMetadata: exportSettings.includeMetadata
+          }
+        })
+      });
+
+      const result = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(result.message || result.error || 'Export failed');
       }
-      
+
+      downloadFile(result.download.url, result.download.filename);
+      (result.warnings || []).forEach((warning: string) => toast(warning));
       toast.success(`Exported as ${format.toUpperCase()}`);
     } catch (error) {
       console.error('Export error:', error);
-      toast.error('Failed to export project');
+      toast.error(error instanceof Error ? error.message : 'Failed to export project');
     } finally {
       setIsExporting(false);
     }
   };
 
-  const exportSVG = async (filename: string) => {
-    let svgContent = svgData;
-    
-    if (exportSettings.includeMetadata && metadata) {
-      // Add metadata as comments
-      const metadataComment = `<!-- Generated by CutGlueBuild
-Project: ${projectTitle}
-Created: ${new Date().toISOString()}
-Settings: ${JSON.stringify(metadata)}
--->`;
-      svgContent = svgContent.replace('<svg', `${metadataComment}\n<svg`);
-    }
-    
-    const blob = new Blob([svgContent], { type: 'image/svg+xml' });
-    downloadBlob(blob, `${filename}.svg`);
-  };
-
-  const exportPNG = async (filename: string) => {
-    return new Promise<void>((resolve, reject) => {
-      const canvas = document.createElement('canvas');
-      const ctx = canvas.getContext('2d');
-      const img = new Image();
-      
-      img.onload = () => {
-        const scale = exportSettings.scale;
-        canvas.width = img.width * scale;
-        canvas.height = img.height * scale;
-        
-        if (ctx) {
-          ctx.scale(scale, scale);
-          ctx.drawImage(img, 0, 0);
-          
-          canvas.toBlob((blob) => {
-            if (blob) {
-              downloadBlob(blob, `${filename}.png`);
-              resolve();
-            } else {
-              reject(new Error('Failed to create PNG'));
-            }
-          }, 'image/png');
-        }
-      };
-      
-      img.onerror = () => reject(new Error('Failed to load SVG'));
-      img.src = 'data:image/svg+xml;base64,' + btoa(svgData);
-    });
-  };
-
-  const exportPDF = async (filename: string) => {
-    // For PDF export, we'd typically use a library like jsPDF
-    // This is a simplified version
-    const canvas = document.createElement('canvas');
-    const ctx = canvas.getContext('2d');
-    const img = new Image();
-    
-    return new Promise<void>((resolve, reject) => {
-      img.onload = () => {
-        canvas.width = img.width;
-        canvas.height = img.height;
-        
-        if (ctx) {
-          ctx.drawImage(img, 0, 0);
-          
-          // Convert to PDF (simplified - would use jsPDF in real implementation)
-          canvas.toBlob((blob) => {
-            if (blob) {
-              downloadBlob(blob, `${filename}.pdf`);
-              resolve();
-            } else {
-              reject(new Error('Failed to create PDF'));
-            }
-          }, 'image/png'); // Simplified - would be actual PDF
-        }
-      };
-      
-      img.onerror = () => reject(new Error('Failed to load SVG'));
-      img.src = 'data:image/svg+xml;base64,' + btoa(svgData);
-    });
-  };
-
-  const exportDXF = async (filename: string) => {
-    // DXF export would require SVG to DXF conversion
-    // This is a placeholder implementation
-    const dxfContent = `0
-SECTION
-2
-HEADER
-9
-$ACADVER
-1
-AC1015
-0
-ENDSEC
-0
-SECTION
-2
-ENTITIES
-${convertSVGToDXF(svgData)}
-0
-ENDSEC
-0
-EOF`;
-    
-    const blob = new Blob([dxfContent], { type: 'application/dxf' });
-    downloadBlob(blob, `${filename}.dxf`);
-  };
-
-  const convertSVGToDXF = (svg: string): string => {
-    // Simplified SVG to DXF conversion
-    // In a real implementation, this would parse SVG elements and convert to DXF entities
-    return `0
-LINE
-8
-0
-10
-0.0
-20
-0.0
-11
-100.0
-21
-100.0
-`;
-  };
-
-  const downloadBlob = (blob: Blob, filename: string) => {
-    const url = URL.createObjectURL(blob);
+  const downloadFile = (url: string, filename: string) => {
     const a = document.createElement('a');
     a.href = url;
     a.download = filename;
     document.body.appendChild(a);
     a.click();
     document.body.removeChild(a);
-    URL.revokeObjectURL(url);
   };
 
+  const isLocked = (format: string) => !canExportFormat(tier, format);
+
   return (
     <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg p-6">
       <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">
@@ -253,6 +159,9 @@ LINE
               <div>
                 <div className="font-medium text-gray-900 dark:text-white">
                   {format.name}
+                  {isLocked(format.id) && (
+                    <span className="ml-2 text-xs font-normal text-primary-600 dark:text-primary-400">Upgrade</span>
+                  )}
                 </div>
                 <div className="text-xs text-gray-600 dark:text-gray-400">
                   {format.description}
@@ -265,27 +174,29 @@ LINE
 
       {/* Export Settings */}
       <div className="space-y-4 mb-6">
-        <div>
-          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
-            Scale Factor
-          </label>
-          <input
-            type="range"
-            min="0.5"
-            max="3"
-            step="0.1"
-            value={exportSettings.scale}
-            onChange={(e) => setExportSettings(prev => ({ ...prev, scale: parseFloat(e.target.value) }))}
-            className="w-full"
-          />
-          <div className="flex justify-between text-xs text-gray-500 dark:text-gray-500 mt-1">
-            <span>0.5x</span>
-            <span>{exportSettings.scale}x</span>
-            <span>3x</span>
+        {selectedFormat === 'png' && (
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              Scale Factor
+            </label>
+            <input
+              type="range"
+              min="0.5"
+              max="3"
+              step="0.1"
+              value={exportSettings.scale}
+              onChange={(e) => setExportSettings(prev => ({ ...prev, scale: parseFloat(e.target.value) }))}
+              className="w-full"
+            />
+            <div className="flex justify-between text-xs text-gray-500 dark:text-gray-500 mt-1">
+              <span>0.5x</span>
+              <span>{exportSettings.scale}x</span>
+              <span>3x</span>
+            </div>
           </div>
-        </div>
+        )}
 
-        {(selectedFormat === 'png' || selectedFormat === 'pdf') && (
+        {selectedFormat === 'png' && (
           <div>
             <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
               DPI Quality
@@ -302,24 +213,63 @@ LINE
           </div>
         )}
 
-        <div className="flex items-center">
-          <input
-            type="checkbox"
-            id="includeMetadata"
-            checked={exportSettings.includeMetadata}
-            onChange={(e) => setExportSettings(prev => ({ ...prev, includeMetadata: e.target.checked }))}
-            className="mr-2"
-          />
-          <label htmlFor="includeMetadata" className="text-sm text-gray-700 dark:text-gray-300">
-            Include project metadata
-          </label>
-        </div>
+        {selectedFormat === 'dxf' && (
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                DXF Version
+              </label>
+              <select
+                value={exportSettings.dxfVersion}
+                onChange={(e) => setExportSettings(prev => ({ ...prev, dxfVersion: e.target.value as 'R12' | 'R2000' }))}
+                className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg dark:bg-gray-700 dark:text-white"
+              >
+                <option value="R2000">R2000 (AutoCAD, Fusion 360)</option>
+                <option value="R12">R12 (older CAM software)</option>
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                Units
+              </label>
+              <select
+                value={exportSettings.dxfUnits}
+                onChange={(e) => setExportSettings(prev => ({ ...prev, dxfUnits: e.target.value as 'mm' | 'in' }))}
+                className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg dark:bg-gray-700 dark:text-white"
+              >
+                <option value="mm">Millimetres</option>
+                <option value="in">Inches</option>
+              </select>
+            </div>
+          </div>
+        )}
+
+        {selectedFormat === 'svg' && (
+          <div className="flex items-center">
+            <input
+              type="checkbox"
+              id="includeMetadata"
+              checked={exportSettings.includeMetadata}
+              onChange={(e) => setExportSettings(prev => ({ ...prev, includeMetadata: e.target.checked }))}
+              className="mr-2"
+            />
+            <label htmlFor="includeMetadata" className="text-sm text-gray-700 dark:text-gray-300">
+              Include project metadata
+            </label>
+          </div>
+        )}
+
+        {selectedFormat === 'gcode' && (
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            G-code is generated for your preferred machine, using the project's operation layers.
+          </p>
+        )}
       </div>
 
       {/* Export Button */}
       <button
         onClick={() => exportProject(selectedFormat)}
-        disabled={isExporting || !svgData}
+        disabled={isExporting || !hasDesign || isLocked(selectedFormat)}
         className="w-full btn btn-primary py-3 text-base font-medium disabled:opacity-50"
       >
         {isExporting ? (
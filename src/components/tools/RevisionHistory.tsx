@@ -11,6 +11,25 @@ interface Revision {
   metadata?: any;
 }
 
+interface DiffShape {
+  id?: string;
+  element: string;
+  bounds: { x: number; y: number; width: number; height: number };
+}
+
+interface RevisionDiff {
+  summary: { added: number; removed: number; moved: number; resized: number; unchanged: number };
+  added: DiffShape[];
+  removed: DiffShape[];
+  moved: { before: DiffShape; after: DiffShape; offset: { x: number; y: number } }[];
+  resized: { before: DiffShape; after: DiffShape; widthChange: number; heightChange: number }[];
+  dimensions: { before: { width: number; height: number }; after: { width: number; height: number }; changed: boolean };
+  overlay: string;
+}
+
+const shapeLabel = (shape: DiffShape) => shape.id ? `${shape.element} "${shape.id}"` : shape.element;
+const signed = (value: number) => `${value > 0 ? '+' : ''}${value}mm`;
+
 interface RevisionHistoryProps {
   projectId: string;
   currentRevisionId?: string;
@@ -25,6 +44,10 @@ export default function RevisionHistory({
   const [revisions, setRevisions] = useState<Revision[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [isRestoring, setIsRestoring] = useState<string | null>(null);
+  const [compareFrom, setCompareFrom] = useState('');
+  const [compareTo, setCompareTo] = useState('');
+  const [diff, setDiff] = useState<RevisionDiff | null>(null);
+  const [isComparing, setIsComparing] = useState(false);
   const user = useUser();
 
   useEffect(() => {
@@ -49,8 +72,14 @@ export default function RevisionHistory({
         throw new Error('Failed to load revisions');
       }
 
-      const data = await response.json();
+      const data: Revision[] = await response.json();
       setRevisions(data || []);
+
+      // Newest first, so default to what changed in the latest revision
+      if (data && data.length >= 2) {
+        setCompareFrom(String(data[1].revision_number));
+        setCompareTo(String(data[0].revision_number));
+      }
     } catch (error) {
       console.error('Error loading revisions:', error);
       toast.error('Failed to load revision history');
@@ -99,6 +128,30 @@ export default function RevisionHistory({
     }
   };
 
+  const compareRevisions = async () => {
+    if (!compareFrom || !compareTo) return;
+
+    try {
+      setIsComparing(true);
+      const query = new URLSearchParams({ from: compareFrom, to: compareTo });
+      const response = await fetch(`/api/projects/${projectId}/diff?${query}`, {
+        method: 'GET',
+        credentials: 'include'
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to compare revisions');
+      }
+
+      setDiff(await response.json());
+    } catch (error) {
+      console.error('Error comparing revisions:', error);
+      toast.error('Failed to compare revisions');
+    } finally {
+      setIsComparing(false);
+    }
+  };
+
   const previewRevision = async (revisionId: string) => {
     try {
       if (!user) {
@@ -181,8 +234,95 @@ export default function RevisionHistory({
         <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
           {revisions.length} revision{revisions.length !== 1 ? 's' : ''}
         </p>
+
+        {revisions.length >= 2 && (
+          <div className="flex items-center space-x-2 mt-4">
+            <select
+              value={compareFrom}
+              onChange={(e) => setCompareFrom(e.target.value)}
+              className="flex-1 px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+            >
+              {revisions.map(revision => (
+                <option key={revision.id} value={revision.revision_number}>#{revision.revision_number}</option>
+              ))}
+            </select>
+            <span className="text-sm text-gray-500 dark:text-gray-400">to</span>
+            <select
+              value={compareTo}
+              onChange={(e) => setCompareTo(e.target.value)}
+              className="flex-1 px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+            >
+              {revisions.map(revision => (
+                <option key={revision.id} value={revision.revision_number}>#{revision.revision_number}</option>
+              ))}
+            </select>
+            <button
+              onClick={compareRevisions}
+              disabled={isComparing || compareFrom === compareTo}
+              className="btn btn-outline text-sm disabled:opacity-50"
+            >
+              {isComparing ? 'Comparing...' : 'Compare'}
+            </button>
+          </div>
+        )}
       </div>
 
+      {diff && (
+        <div className="p-6 border-b border-gray-200 dark:border-gray-700">
+          <div className="flex items-center justify-between mb-3">
+            <h4 className="text-sm font-semibold text-gray-900 dark:text-white">
+              #{compareFrom} → #{compareTo}
+            </h4>
+            <button
+              onClick={() => setDiff(null)}
+              className="text-xs text-gray-500 hover:text-gray-700 dark:hover:text-gray-300"
+            >
+              Close
+            </button>
+          </div>
+
+          <div
+            className="bg-white border border-gray-200 dark:border-gray-600 rounded mb-3 [&>svg]:w-full [&>svg]:h-auto"
+            dangerouslySetInnerHTML={{ __html: diff.overlay }}
+          />
+
+          <p className="text-xs text-gray-600 dark:text-gray-400 mb-2">
+            <span className="text-green-600">{diff.summary.added} added</span> ·{' '}
+            <span className="text-red-600">{diff.summary.removed} removed</span> ·{' '}
+            {diff.summary.moved} moved · {diff.summary.resized} resized · {diff.summary.unchanged} unchanged
+          </p>
+
+          <ul className="text-xs text-gray-600 dark:text-gray-400 space-y-1">
+            {diff.dimensions.changed && (
+              <li>
+                Design size {diff.dimensions.before.width} × {diff.dimensions.before.height}mm
+                → {diff.dimensions.after.width} × {diff.dimensions.after.height}mm
+              </li>
+            )}
+            {diff.resized.map((change, index) => (
+              <li key={`resized-${index}`}>
+                Resized {shapeLabel(change.after)}: width {signed(change.widthChange)}, height {signed(change.heightChange)}
+              </li>
+            ))}
+            {diff.moved.map((change, index) => (
+              <li key={`moved-${index}`}>
+                Moved {shapeLabel(change.after)} by {signed(change.offset.x)}, {signed(change.offset.y)}
+              </li>
+            ))}
+            {diff.added.map((shape, index) => (
+              <li key={`added-${index}`} className="text-green-600">
+                Added {shapeLabel(shape)} ({shape.bounds.width} × {shape.bounds.height}mm)
+              </li>
+            ))}
+            {diff.removed.map((shape, index) => (
+              <li key={`removed-${index}`} className="text-red-600">
+                Removed {shapeLabel(shape)} ({shape.bounds.width} × {shape.bounds.height}mm)
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
       <div className="flex-1 overflow-y-auto">
         {revisions.length === 0 ? (
           <div className="p-6 text-center">
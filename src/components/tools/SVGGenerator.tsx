@@ -17,7 +17,7 @@ export default function SVGGenerator({ onGenerate }: SVGGeneratorProps) {
   const [generatedSvg, setGeneratedSvg] = useState<string | null>(null);
   const [usedToday, setUsedToday] = useState(0); // This should come from usage tracking
 
-  const hasSubscription = tier !== null;
+  const hasSubscription = tier !== null && tier !== 'free';
   const canGenerate = hasSubscription && (limits.ai_designs === -1 || usedToday < limits.ai_designs);
   const remainingGenerations = limits.ai_designs === -1 ? '∞' : Math.max(0, limits.ai_designs - usedToday);
 
@@ -8,87 +8,57 @@ import {
   Eye,
   AlertCircle,
   CheckCircle,
-  FileText,
   Zap
 } from 'lucide-react';
 import { useUser } from '../../store/authStore';
+import type { OperationLayerModel } from '../../lib/operation-layers';
+import {
+  convertToShaperSVG,
+  DEFAULT_SHAPER_TOOL_DIAMETER,
+  SHAPER_CUT_STYLES,
+  type ShaperCutType,
+  type ShaperToolIssue
+} from '../../lib/shaper-svg';
 
 interface ShaperSVGExporterProps {
   svgData?: string;
   projectTitle?: string;
+  operationLayers?: OperationLayerModel;
   onShaperSVGGenerated?: (svg: string) => void;
 }
 
-interface ShaperCutType {
-  id: string;
-  name: string;
-  color: string;
-  description: string;
-  strokeWidth: string;
-}
-
 interface ShaperSettings {
   material: string;
   thickness: number;
+  toolDiameter: number;
   cutTypes: { [key: string]: boolean };
-  optimizeForShaper: boolean;
   includeGuides: boolean;
 }
 
-// Shaper Origin cut type color specifications
-const SHAPER_CUT_TYPES: ShaperCutType[] = [
-  {
-    id: 'online',
-    name: 'Online (Engrave)',
-    color: '#0066FF', // Blue for engraving
-    description: 'Surface engraving operations',
-    strokeWidth: '0.1'
-  },
-  {
-    id: 'exterior',
-    name: 'Exterior Cut',
-    color: '#FF0000', // Red for exterior cuts
-    description: 'Cut out positive shapes at specified dimensions',
-    strokeWidth: '0.1'
-  },
-  {
-    id: 'interior',
-    name: 'Interior Cut',
-    color: '#00FF00', // Green for interior cuts
-    description: 'Cut through-holes with dimensions equal to SVG shape',
-    strokeWidth: '0.1'
-  },
-  {
-    id: 'pocket',
-    name: 'Pocket',
-    color: '#FF00FF', // Magenta for pocket cuts
-    description: 'Remove material within shape to specified depth',
-    strokeWidth: '0.1'
-  },
-  {
-    id: 'guide',
-    name: 'Guide',
-    color: '#888888', // Gray for guide marks
-    description: 'Reference marks that are not cut',
-    strokeWidth: '0.05'
-  }
+// Checkbox ids are the cutTypes keys /api/ai/generate-shaper-svg accepts
+const SHAPER_CUT_TYPES: { id: string; type: ShaperCutType }[] = [
+  { id: 'exterior', type: 'outside' },
+  { id: 'interior', type: 'inside' },
+  { id: 'online', type: 'online' },
+  { id: 'pocket', type: 'pocket' },
+  { id: 'guide', type: 'guide' }
 ];
 
-export default function ShaperSVGExporter({ svgData, projectTitle, onShaperSVGGenerated }: ShaperSVGExporterProps) {
+export default function ShaperSVGExporter({ svgData, projectTitle, operationLayers, onShaperSVGGenerated }: ShaperSVGExporterProps) {
   const user = useUser();
-  const [isGenerating, setIsGenerating] = useState(false);
   const [shaperSVG, setShaperSVG] = useState<string | null>(null);
+  const [issues, setIssues] = useState<ShaperToolIssue[]>([]);
   const [settings, setSettings] = useState<ShaperSettings>({
     material: 'plywood',
     thickness: 3,
+    toolDiameter: DEFAULT_SHAPER_TOOL_DIAMETER,
     cutTypes: {
       exterior: true,
       online: true,
-      interior: false,
-      pocket: false,
+      interior: true,
+      pocket: true,
       guide: true
     },
-    optimizeForShaper: true,
     includeGuides: true
   });
   const [showAdvanced, setShowAdvanced] = useState(false);
@@ -114,90 +84,37 @@ export default function ShaperSVGExporter({ svgData, projectTitle, onShaperSVGGe
     }
   };
 
-  const generateShaperSVG = async () => {
-    if (!user) {
-      toast.error('Please sign in to generate Shaper SVG');
-      return;
-    }
-
-    if (!svgData) {
-      toast.error('No SVG data provided');
-      return;
-    }
+  const convertSVG = () => {
+    if (!svgData) return;
 
-    setIsGenerating(true);
     try {
-      const response = await fetch('/api/ai/generate-shaper-svg', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        credentials: 'include',
-        body: JSON.stringify({
-          svgData,
-          material: settings.material,
-          settings
-        })
+      const cutTypes = Object.fromEntries(
+        SHAPER_CUT_TYPES.map(({ id, type }) => [type, settings.cutTypes[id] !== false])
+      ) as Record<ShaperCutType, boolean>;
+      if (!settings.includeGuides) cutTypes.guide = false;
+
+      const result = convertToShaperSVG(svgData, {
+        thickness: settings.thickness,
+        toolDiameter: settings.toolDiameter,
+        layers: operationLayers,
+        cutTypes
       });
 
-      if (!response.ok) throw new Error('Failed to generate Shaper SVG');
-
-      const result = await response.json();
       setShaperSVG(result.svg);
-      
+      setIssues(result.issues);
+
       if (onShaperSVGGenerated) {
         onShaperSVGGenerated(result.svg);
       }
 
-      toast.success('Shaper SVG generated successfully!');
-    } catch (error) {
-      console.error('Shaper SVG generation error:', error);
-      toast.error('Failed to generate Shaper SVG');
-    } finally {
-      setIsGenerating(false);
-    }
-  };
-
-  const convertToShaperSVG = () => {
-    if (!svgData) return;
-
-    try {
-      const parser = new DOMParser();
-      const doc = parser.parseFromString(svgData, 'image/svg+xml');
-      const svg = doc.documentElement;
-
-      // Apply Shaper-specific color encoding
-      const paths = svg.querySelectorAll('path, circle, rect, line, polyline, polygon');
-      
-      paths.forEach((element) => {
-        // Default to exterior cut if no specific type is set
-        let cutType = 'exterior';
-        
-        // Apply color based on cut type
-        const shaperCutType = SHAPER_CUT_TYPES.find(ct => ct.id === cutType);
-        if (shaperCutType) {
-          element.setAttribute('stroke', shaperCutType.color);
-          element.setAttribute('stroke-width', shaperCutType.strokeWidth);
-          element.setAttribute('fill', 'none');
-        }
-      });
-
-      // Add Shaper-specific metadata
-      svg.setAttribute('data-shaper-origin', 'true');
-      svg.setAttribute('data-material', settings.material);
-      svg.setAttribute('data-thickness', settings.thickness.toString());
-
-      const serializer = new XMLSerializer();
-      const shaperSVGString = serializer.serializeToString(svg);
-      
-      setShaperSVG(shaperSVGString);
-      
-      if (onShaperSVGGenerated) {
-        onShaperSVGGenerated(shaperSVGString);
+      if (result.issues.length > 0) {
+        toast(`Converted with ${result.issues.length} feature(s) the tool cannot cut exactly`, { icon: '⚠️' });
+      } else {
+        toast.success('SVG converted for Shaper Origin!');
       }
-
-      toast.success('SVG converted for Shaper Origin!');
     } catch (error) {
       console.error('SVG conversion error:', error);
-      toast.error('Failed to convert SVG for Shaper');
+      toast.error(error instanceof Error ? error.message : 'Failed to convert SVG for Shaper');
     }
   };
 
@@ -255,29 +172,14 @@ export default function ShaperSVGExporter({ svgData, projectTitle, onShaperSVGGe
             </div>
           </div>
 
-          <div className="flex space-x-2">
-            <button
-              onClick={convertToShaperSVG}
-              disabled={!svgData}
-              className="btn-secondary flex items-center space-x-2"
-            >
-              <Zap className="w-4 h-4" />
-              <span>Convert SVG</span>
-            </button>
-            
-            <button
-              onClick={generateShaperSVG}
-              disabled={isGenerating || !svgData}
-              className="btn-primary flex items-center space-x-2"
-            >
-              {isGenerating ? (
-                <div className="animate-spin rounded-full h-4 w-4 border-2 border-white border-t-transparent"></div>
-              ) : (
-                <FileText className="w-4 h-4" />
-              )}
-              <span>{isGenerating ? 'Generating...' : 'AI Optimize'}</span>
-            </button>
-          </div>
+          <button
+            onClick={convertSVG}
+            disabled={!svgData}
+            className="btn-primary flex items-center space-x-2"
+          >
+            <Zap className="w-4 h-4" />
+            <span>Convert SVG</span>
+          </button>
         </div>
 
         {/* Cut Type Legend */}
@@ -286,36 +188,42 @@ export default function ShaperSVGExporter({ svgData, projectTitle, onShaperSVGGe
             Shaper Origin Cut Types
           </h4>
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-3">
-            {SHAPER_CUT_TYPES.map((cutType) => (
-              <div key={cutType.id} className="flex items-center space-x-3 p-3 bg-gray-50 dark:bg-gray-800 rounded-lg">
-                <div
-                  className="w-4 h-4 border-2 rounded"
-                  style={{ backgroundColor: cutType.color, borderColor: cutType.color }}
-                />
-                <div className="flex-1 min-w-0">
-                  <p className="text-sm font-medium text-gray-900 dark:text-gray-100">
-                    {cutType.name}
-                  </p>
-                  <p className="text-xs text-gray-600 dark:text-gray-400 truncate">
-                    {cutType.description}
-                  </p>
+            {SHAPER_CUT_TYPES.map((cutType) => {
+              const style = SHAPER_CUT_STYLES[cutType.type];
+              return (
+                <div key={cutType.id} className="flex items-center space-x-3 p-3 bg-gray-50 dark:bg-gray-800 rounded-lg">
+                  <div
+                    className="w-4 h-4 border-2 rounded"
+                    style={{
+                      backgroundColor: style.fill === 'none' ? 'transparent' : style.fill,
+                      borderColor: style.stroke === 'none' ? style.fill : style.stroke
+                    }}
+                  />
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium text-gray-900 dark:text-gray-100">
+                      {style.name}
+                    </p>
+                    <p className="text-xs text-gray-600 dark:text-gray-400 truncate">
+                      {style.description}
+                    </p>
+                  </div>
+                  <input
+                    type="checkbox"
+                    checked={settings.cutTypes[cutType.id] || false}
+                    onChange={(e) => setSettings(prev => ({
+                      ...prev,
+                      cutTypes: { ...prev.cutTypes, [cutType.id]: e.target.checked }
+                    }))}
+                    className="rounded text-blue-600"
+                  />
                 </div>
-                <input
-                  type="checkbox"
-                  checked={settings.cutTypes[cutType.id] || false}
-                  onChange={(e) => setSettings(prev => ({
-                    ...prev,
-                    cutTypes: { ...prev.cutTypes, [cutType.id]: e.target.checked }
-                  }))}
-                  className="rounded text-blue-600"
-                />
-              </div>
-            ))}
+              );
+            })}
           </div>
         </div>
 
         {/* Material Settings */}
-        <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-6">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-6">
           <div>
             <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
               Material
@@ -347,6 +255,20 @@ export default function ShaperSVGExporter({ svgData, projectTitle, onShaperSVGGe
               step="0.1"
             />
           </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              Bit Diameter (mm)
+            </label>
+            <input
+              type="number"
+              value={settings.toolDiameter}
+              onChange={(e) => setSettings(prev => ({ ...prev, toolDiameter: Number(e.target.value) }))}
+              className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100"
+              min="0.1"
+              step="0.001"
+            />
+          </div>
         </div>
 
         {/* Advanced Settings */}
@@ -367,18 +289,6 @@ export default function ShaperSVGExporter({ svgData, projectTitle, onShaperSVGGe
             exit={{ opacity: 0, height: 0 }}
             className="space-y-4 p-4 bg-gray-50 dark:bg-gray-800 rounded-lg"
           >
-            <div className="flex items-center justify-between">
-              <label className="text-sm font-medium text-gray-700 dark:text-gray-300">
-                Optimize for Shaper Origin
-              </label>
-              <input
-                type="checkbox"
-                checked={settings.optimizeForShaper}
-                onChange={(e) => setSettings(prev => ({ ...prev, optimizeForShaper: e.target.checked }))}
-                className="rounded text-blue-600"
-              />
-            </div>
-
             <div className="flex items-center justify-between">
               <label className="text-sm font-medium text-gray-700 dark:text-gray-300">
                 Include Guide Lines
@@ -427,6 +337,25 @@ export default function ShaperSVGExporter({ svgData, projectTitle, onShaperSVGGe
             </div>
           </div>
 
+          {/* Tool fit */}
+          {issues.length > 0 && (
+            <div className="bg-yellow-50 dark:bg-yellow-900/20 rounded-lg p-4 mb-4">
+              <div className="flex items-start space-x-2">
+                <AlertCircle className="w-5 h-5 text-yellow-600 dark:text-yellow-400 flex-shrink-0 mt-0.5" />
+                <div>
+                  <h5 className="text-sm font-medium text-yellow-900 dark:text-yellow-100 mb-2">
+                    Too small for a {settings.toolDiameter}mm bit
+                  </h5>
+                  <ul className="text-sm text-yellow-700 dark:text-yellow-300 space-y-1">
+                    {issues.map((issue, index) => (
+                      <li key={index}>• {issue.message}</li>
+                    ))}
+                  </ul>
+                </div>
+              </div>
+            </div>
+          )}
+
           {/* Instructions */}
           <div className="bg-blue-50 dark:bg-blue-900/20 rounded-lg p-4">
             <div className="flex items-start space-x-2">
@@ -436,9 +365,9 @@ export default function ShaperSVGExporter({ svgData, projectTitle, onShaperSVGGe
                   Ready for Shaper Origin
                 </h5>
                 <ul className="text-sm text-blue-700 dark:text-blue-300 space-y-1">
-                  <li>• Colors are encoded for different cut operations</li>
+                  <li>• Cut types are encoded with Shaper's fill and stroke colors</li>
+                  <li>• Cut depths are set from the {settings.thickness}mm material thickness</li>
                   <li>• Transfer this SVG file to your Shaper Origin device</li>
-                  <li>• Set cut depths manually on the device as needed</li>
                   <li>• Test settings on scrap material first</li>
                 </ul>
               </div>
@@ -1,18 +1,12 @@
 import React, { useState, useCallback } from 'react';
 import { useDropzone } from 'react-dropzone';
 import toast from 'react-hot-toast';
+import { loadRasterImage, traceImage, type VectorizationSettings } from '../../lib/raster-trace';
 
 interface UploadVectorizerProps {
   onVectorize?: (svgData: string, originalImage: string) => void;
 }
 
-interface VectorizationSettings {
-  quality: 'low' | 'medium' | 'high' | 'ultra';
-  colorMode: 'monochrome' | 'grayscale' | 'color';
-  smoothing: number;
-  threshold: number;
-}
-
 export default function UploadVectorizer({ onVectorize }: UploadVectorizerProps) {
   const [uploadedImage, setUploadedImage] = useState<string | null>(null);
   const [vectorizedSvg, setVectorizedSvg] = useState<string | null>(null);
@@ -61,20 +55,24 @@ export default function UploadVectorizer({ onVectorize }: UploadVectorizerProps)
 
     setIsVectorizing(true);
     try {
-      // Simulate vectorization process
-      await new Promise(resolve => setTimeout(resolve, 3000));
-      
-      // Create mock SVG based on settings
-      const svgData = createMockVectorizedSVG(settings);
+      const image = await loadRasterImage(uploadedImage, settings.quality);
+      // Let the spinner paint before tracing takes over the main thread
+      await new Promise(resolve => setTimeout(resolve, 0));
+
+      const { svg: svgData, layers } = traceImage(image, settings);
+      if (layers.length === 0) {
+        toast.error('Nothing to trace at this threshold. Try moving the slider.');
+        return;
+      }
+
       setVectorizedSvg(svgData);
       setSplitView(true);
-      
+
       if (onVectorize) {
         onVectorize(svgData, uploadedImage);
       }
-      
-      toast.success('Image vectorized successfully!');
-      
+
+      toast.success(`Image vectorized into ${layers.length} layer${layers.length === 1 ? '' : 's'}`);
     } catch (error) {
       console.error('Vectorization error:', error);
       toast.error('Failed to vectorize image. Please try again.');
@@ -83,55 +81,6 @@ export default function UploadVectorizer({ onVectorize }: UploadVectorizerProps)
     }
   };
 
-  const createMockVectorizedSVG = (settings: VectorizationSettings): string => {
-    const width = 300;
-    const height = 300;
-    
-    let content = '';
-    
-    if (settings.colorMode === 'monochrome') {
-      // Simple black and white paths
-      content = `
-        <path d="M50,50 Q150,20 250,50 Q220,150 250,250 Q150,280 50,250 Q20,150 50,50 Z" 
-              fill="none" stroke="#000" stroke-width="2"/>
-        <circle cx="150" cy="150" r="30" fill="none" stroke="#000" stroke-width="2"/>
-        <path d="M100,100 L200,100 L200,200 L100,200 Z" 
-              fill="none" stroke="#000" stroke-width="1"/>
-      `;
-    } else if (settings.colorMode === 'grayscale') {
-      // Multiple gray levels for engraving
-      content = `
-        <rect x="50" y="50" width="200" height="200" fill="#f0f0f0" stroke="#000" stroke-width="1"/>
-        <circle cx="150" cy="150" r="60" fill="#d0d0d0" stroke="#666" stroke-width="1"/>
-        <circle cx="150" cy="150" r="30" fill="#a0a0a0" stroke="#333" stroke-width="1"/>
-        <circle cx="150" cy="150" r="15" fill="#606060" stroke="#000" stroke-width="1"/>
-      `;
-    } else {
-      // Full color paths
-      content = `
-        <path d="M50,50 Q150,20 250,50 Q220,150 250,250 Q150,280 50,250 Q20,150 50,50 Z" 
-              fill="#ff6b6b" stroke="#e55555" stroke-width="2"/>
-        <circle cx="150" cy="150" r="40" fill="#4ecdc4" stroke="#45b7aa" stroke-width="2"/>
-        <rect x="120" y="120" width="60" height="60" fill="#ffe66d" stroke="#ffdd44" stroke-width="1"/>
-      `;
-    }
-
-    return `
-      <svg width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" xmlns="http://www.w3.org/2000/svg">
-        <defs>
-          <style>
-            .cut-line { stroke: #ff0000; stroke-width: 0.1; }
-            .engrave-area { fill: #0000ff; opacity: 0.1; }
-          </style>
-        </defs>
-        ${content}
-        <text x="10" y="290" font-family="Arial" font-size="10" fill="#666" opacity="0.7">
-          Vectorized - ${settings.quality} quality
-        </text>
-      </svg>
-    `;
-  };
-
   const downloadSVG = () => {
     if (!vectorizedSvg) return;
     
@@ -211,7 +160,8 @@ export default function UploadVectorizer({ onVectorize }: UploadVectorizerProps)
                   {[
                     { value: 'monochrome', label: 'Monochrome (Cut only)' },
                     { value: 'grayscale', label: 'Grayscale (Engrave)' },
-                    { value: 'color', label: 'Full Color' }
+                    { value: 'color', label: 'Full Color' },
+                    { value: 'outline', label: 'Outline (Edge detection)' }
                   ].map(mode => (
                     <label key={mode.value} className="flex items-center p-2 border border-gray-300 dark:border-gray-600 rounded cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-700">
                       <input
@@ -5,7 +5,9 @@ import { streamText, generateObject, generateText } from 'ai';
 import { createWorkersAI } from 'workers-ai-provider';
 import { z } from 'zod';
 import type { Env, UserProject } from './database';
-import { trackAICall, aiRateLimiter } from './ai-usage-tracker';
+import { trackAICall, createAIRateLimiter, type AICallContext, type AIRateLimiter } from './ai-usage-tracker';
+import type { MachineSettings } from './toolpath-compiler';
+import { generateMachineGCode, type MachineProfile } from './machine-profiles';
 
 // Request interfaces (keeping existing for compatibility)
 export interface SVGGenerationRequest {
@@ -71,14 +73,6 @@ const QualityAnalysisSchema = z.object({
   materialOptimizations: z.array(z.string())
 });
 
-const GCodeSchema = z.object({
-  gcode: z.string(),
-  estimatedTime: z.string(),
-  materialUsage: z.number(),
-  cuttingPath: z.string(),
-  warnings: z.array(z.string())
-});
-
 const WorkshopGuidanceSchema = z.object({
   safetyTips: z.array(z.string()),
   stepByStep: z.array(z.string()),
@@ -99,9 +93,13 @@ export class AgentsAIService {
   private workersAI: any;
   private openaiModel: any;
   private useCloudflare: boolean;
+  private rateLimiter: AIRateLimiter;
+  private usageContext: AICallContext;
 
-  constructor(env?: Env) {
+  constructor(env?: Env, caller: Omit<AICallContext, 'env'> = {}) {
     this.useCloudflare = !!env?.AI;
+    this.rateLimiter = createAIRateLimiter(env);
+    this.usageContext = { ...caller, env };
     
     if (this.useCloudflare && env?.AI) {
       this.workersAI = createWorkersAI({ binding: env.AI });
@@ -135,27 +133,24 @@ export class AgentsAIService {
   }
 
   // Check rate limits before API calls
-  private checkRateLimit() {
-    if (!aiRateLimiter.canMakeCall()) {
-      const waitTime = aiRateLimiter.getTimeUntilNextCall();
-      throw new Error(`Rate limit exceeded. Wait ${Math.ceil(waitTime / 1000)} seconds.`);
-    }
-    aiRateLimiter.recordCall();
+  private async checkRateLimit() {
+    await this.rateLimiter.acquire();
   }
 
   async generateSVG(request: SVGGenerationRequest): Promise<string> {
-    this.checkRateLimit();
+    await this.checkRateLimit();
 
     const model = this.getModel('simple');
     const prompt = this.createManufacturingConstrainedPrompt(request);
 
-    return trackAICall(this.useCloudflare ? '@cf/openai/gpt-oss-20b' : 'gpt-4', 'Constrained SVG Generation', async () => {
+    return trackAICall(this.useCloudflare ? '@cf/openai/gpt-oss-20b' : 'gpt-4', 'Constrained SVG Generation', async (meter) => {
       try {
-        const { text } = await generateText({
+        const { text, usage } = await generateText({
           model,
           prompt,
           temperature: 0.4, // Lower temperature for more consistent, physics-based results
         });
+        meter.record(usage);
 
         // Extract SVG from response
         const svgMatch = text.match(/<svg[\s\S]*?<\/svg>/i);
@@ -176,7 +171,7 @@ export class AgentsAIService {
         console.error('AI SVG generation error:', error);
         throw new Error('Failed to generate SVG with AI');
       }
-    });
+    }, this.usageContext);
   }
 
   /**
@@ -245,7 +240,7 @@ REJECT design if ANY constraint violated. Return only manufacturable SVG.`;
     const materialKey = this.mapMaterialToKey(request.material);
     const constraints = getManufacturingConstraints(materialKey);
 
-    return trackAICall(this.useCloudflare ? '@cf/openai/gpt-oss-120b' : 'gpt-4', 'Manufacturing Validation', async () => {
+    return trackAICall(this.useCloudflare ? '@cf/openai/gpt-oss-120b' : 'gpt-4', 'Manufacturing Validation', async (meter) => {
       try {
         const validationPrompt = `VALIDATE this SVG design against manufacturing physics:
 
@@ -262,11 +257,12 @@ CONSTRAINTS:
 Analyze ALL paths, circles, rects, lines. Check dimensions against limits.
 Return JSON: {"isValid": boolean, "violations": ["specific issues"], "score": 0-100}`;
 
-        const { text } = await generateText({
+        const { text, usage } = await generateText({
           model,
           prompt: validationPrompt,
           temperature: 0.1, // Very low for consistent validation
         });
+        meter.record(usage);
 
         try {
           const result = JSON.parse(text);
@@ -291,7 +287,7 @@ Return JSON: {"isValid": boolean, "violations": ["specific issues"], "score": 0-
         console.warn('Validation error:', error);
         return { isValid: true, violations: [], score: 70 }; // Assume valid if validation fails
       }
-    });
+    }, this.usageContext);
   }
 
   /**
@@ -304,7 +300,7 @@ Return JSON: {"isValid": boolean, "violations": ["specific issues"], "score": 0-
     const materialKey = this.mapMaterialToKey(request.material);
     const constraints = getManufacturingConstraints(materialKey);
 
-    return trackAICall(this.useCloudflare ? '@cf/openai/gpt-oss-120b' : 'gpt-4', 'Constraint Fix', async () => {
+    return trackAICall(this.useCloudflare ? '@cf/openai/gpt-oss-120b' : 'gpt-4', 'Constraint Fix', async (meter) => {
       try {
         const fixPrompt = `FIX this SVG to meet manufacturing constraints:
 
@@ -320,11 +316,12 @@ REQUIREMENTS:
 
 Fix violations while preserving design intent. Return corrected SVG only.`;
 
-        const { text } = await generateText({
+        const { text, usage } = await generateText({
           model,
           prompt: fixPrompt,
           temperature: 0.3,
         });
+        meter.record(usage);
 
         const svgMatch = text.match(/<svg[\s\S]*?<\/svg>/i);
         return svgMatch ? svgMatch[0] : text;
@@ -332,7 +329,7 @@ Fix violations while preserving design intent. Return corrected SVG only.`;
         console.warn('Fix error:', error);
         return svgContent; // Return original if fixing fails
       }
-    });
+    }, this.usageContext);
   }
 
   /**
@@ -353,19 +350,20 @@ Fix violations while preserving design intent. Return corrected SVG only.`;
   }
 
   async generateProjectIdeas(request: ProjectIdeaRequest): Promise<any[]> {
-    this.checkRateLimit();
+    await this.checkRateLimit();
     
     const model = this.getModel('balanced');
     const prompt = this.createProjectIdeaPrompt(request);
     
-    return trackAICall(this.useCloudflare ? '@cf/openai/gpt-oss-20b' : 'gpt-4', 'Project Ideas', async () => {
+    return trackAICall(this.useCloudflare ? '@cf/openai/gpt-oss-20b' : 'gpt-4', 'Project Ideas', async (meter) => {
       try {
-        const { object } = await generateObject({
+        const { object, usage } = await generateObject({
           model,
           schema: ProjectIdeaSchema,
           prompt,
           temperature: 0.8,
         });
+        meter.record(usage);
 
         return object.projects;
         
@@ -374,46 +372,16 @@ Fix violations while preserving design intent. Return corrected SVG only.`;
         // Fallback to text generation
         return this.generateProjectIdeasFallback(request);
       }
-    });
+    }, this.usageContext);
   }
 
-  async generateGCode(svgData: string, material: string, machineType: string): Promise<GCodeOutput> {
-    this.checkRateLimit();
-    
-    const model = this.getModel('complex');
-    const prompt = `Convert this SVG design to optimized G-code for ${machineType}:
-
-SVG Data: ${svgData}
-Material: ${material}
-Machine: ${machineType}
-
-Generate G-code with:
-- Optimized cutting paths to minimize travel time
-- Appropriate feed rates and speeds for ${material}
-- Safety checks and tool changes
-- Material usage calculations
-- Estimated completion time`;
-    
-    return trackAICall(this.useCloudflare ? '@cf/openai/gpt-oss-120b' : 'gpt-4', 'G-code Generation', async () => {
-      try {
-        const { object } = await generateObject({
-          model,
-          schema: GCodeSchema,
-          prompt,
-          temperature: 0.3,
-        });
-
-        return object;
-        
-      } catch (error) {
-        console.error('G-code generation error:', error);
-        return this.generateGCodeFallback();
-      }
-    });
+  // G-code comes from the deterministic toolpath compiler, never from a model
+  async generateGCode(svgData: string, material: string, machineType: string | MachineProfile, settings?: Partial<MachineSettings>): Promise<GCodeOutput> {
+    return generateMachineGCode(svgData, material, machineType, settings);
   }
 
   async analyzeQuality(svgData: string, material: string, settings: any): Promise<QualityPrediction> {
-    this.checkRateLimit();
+    await this.checkRateLimit();
     
     const model = this.getModel('balanced');
     const prompt = `Analyze this design for fabrication quality:
@@ -424,14 +392,15 @@ Settings: ${JSON.stringify(settings)}
 
 Predict success probability, potential issues, recommendations, and material optimizations.`;
     
-    return trackAICall(this.useCloudflare ? '@cf/openai/gpt-oss-20b' : 'gpt-4', 'Quality Analysis', async () => {
+    return trackAICall(this.useCloudflare ? '@cf/openai/gpt-oss-20b' : 'gpt-4', 'Quality Analysis', async (meter) => {
       try {
-        const { object } = await generateObject({
+        const { object, usage } = await generateObject({
           model,
           schema: QualityAnalysisSchema,
           prompt,
           temperature: 0.4,
         });
+        meter.record(usage);
 
         return object;
         
@@ -439,11 +408,11 @@ Predict success probability, potential issues, recommendations, and material opt
         console.error('Quality analysis error:', error);
         return this.analyzeQualityFallback();
       }
-    });
+    }, this.usageContext);
   }
 
   async generateWorkshopGuidance(project: UserProject): Promise<WorkshopGuidance> {
-    this.checkRateLimit();
+    await this.checkRateLimit();
     
     const model = this.getModel('simple');
     const prompt = `Generate workshop guidance for this project:
@@ -454,14 +423,15 @@ Type: ${project.project_type}
 
 Provide safety tips, step-by-step instructions, required tools, time estimate, difficulty rating, and troubleshooting.`;
     
-    return trackAICall(this.useCloudflare ? '@cf/openai/gpt-oss-20b' : 'gpt-4', 'Workshop Guidance', async () => {
+    return trackAICall(this.useCloudflare ? '@cf/openai/gpt-oss-20b' : 'gpt-4', 'Workshop Guidance', async (meter) => {
       try {
-        const { object } = await generateObject({
+        const { object, usage } = await generateObject({
           model,
           schema: WorkshopGuidanceSchema,
           prompt,
           temperature: 0.6,
         });
+        meter.record(usage);
 
         return object;
         
@@ -469,11 +439,11 @@ Provide safety tips, step-by-step instructions, required tools, time estimate, d
         console.error('Workshop guidance generation error:', error);
         return this.generateWorkshopGuidanceFallback();
       }
-    });
+    }, this.usageContext);
   }
 
   async optimizeMaterial(designs: string[], materialDimensions: { width: number, height: number }) {
-    this.checkRateLimit();
+    await this.checkRateLimit();
     
     const model = this.getModel('complex');
     const prompt = `Optimize material layout for these designs:
@@ -483,14 +453,15 @@ Material: ${materialDimensions.width}mm x ${materialDimensions.height}mm
 
 Calculate optimal nesting layout, efficiency, waste percentage, and recommendations.`;
     
-    return trackAICall(this.useCloudflare ? '@cf/openai/gpt-oss-120b' : 'gpt-4', 'Material Optimization', async () => {
+    return trackAICall(this.useCloudflare ? '@cf/openai/gpt-oss-120b' : 'gpt-4', 'Material Optimization', async (meter) => {
       try {
-        const { object } = await generateObject({
+        const { object, usage } = await generateObject({
           model,
           schema: MaterialOptimizationSchema,
           prompt,
           temperature: 0.3,
         });
+        meter.record(usage);
 
         return object;
         
@@ -498,11 +469,11 @@ Calculate optimal nesting layout, efficiency, waste percentage, and recommendati
         console.error('Material optimization error:', error);
         return this.optimizeMaterialFallback();
       }
-    });
+    }, this.usageContext);
   }
 
   async vectorizeImage(imageData: string, settings: any): Promise<string> {
-    this.checkRateLimit();
+    await this.checkRateLimit();
     
     const model = this.getModel('balanced');
     const prompt = `Convert this image to a laser-ready SVG with settings:
@@ -513,9 +484,9 @@ Threshold: ${settings.threshold}
 
 Generate clean SVG paths suitable for laser cutting.`;
     
-    return trackAICall(this.useCloudflare ? '@cf/openai/gpt-oss-20b' : 'gpt-4', 'Image Vectorization', async () => {
+    return trackAICall(this.useCloudflare ? '@cf/openai/gpt-oss-20b' : 'gpt-4', 'Image Vectorization', async (meter) => {
       try {
-        const { text } = await generateText({
+        const { text, usage } = await generateText({
           model,
           messages: [
             {
@@ -528,6 +499,7 @@ Generate clean SVG paths suitable for laser cutting.`;
           ],
           temperature: 0.4,
         });
+        meter.record(usage);
 
         const svgMatch = text.match(/<svg[\s\S]*?<\/svg>/i);
         return svgMatch ? svgMatch[0] : text;
@@ -536,12 +508,12 @@ Generate clean SVG paths suitable for laser cutting.`;
         console.error('Image vectorization error:', error);
         return this.vectorizeImageFallback();
       }
-    });
+    }, this.usageContext);
   }
 
   // Stream-based SVG generation for real-time updates
   async *streamSVGGeneration(request: SVGGenerationRequest): AsyncGenerator<string, void, unknown> {
-    this.checkRateLimit();
+    await this.checkRateLimit();
     
     const model = this.getModel('simple');
     const prompt = this.createContextualSVGPrompt(request);
@@ -610,16 +582,6 @@ Each project needs: title, description, difficulty, time estimate, materials, to
     }];
   }
 
-  private generateGCodeFallback(): GCodeOutput {
-    return {
-      gcode: "; Fallback G-code\nG21\nG90\nM3 S1000\nG1 X10 Y10 F1000\nM5",
-      estimatedTime: "15-30 minutes",
-      materialUsage: 75,
-      cuttingPath: "Optimized path",
-      warnings: ["Test settings on scrap material"]
-    };
-  }
-
   private analyzeQualityFallback(): QualityPrediction {
     return {
       successProbability: 85,
@@ -695,14 +657,8 @@ export class MockAgentsAIService {
     return this.generateProjectIdeasFallback(request);
   }
 
-  async generateGCode(): Promise<GCodeOutput> {
-    return {
-      gcode: "; Mock Agents SDK G-code\nG21\nG90\nM3 S1000\nG1 X10 Y10\nM5",
-      estimatedTime: "Mock: 15 minutes",
-      materialUsage: 75,
-      cuttingPath: "Mock optimized",
-      warnings: ["Mock data for development"]
-    };
+  async generateGCode(svgData: string, material: string, machineType: string | MachineProfile, settings?: Partial<MachineSettings>): Promise<GCodeOutput> {
+    return generateMachineGCode(svgData, material, machineType, settings);
   }
 
   async analyzeQuality(): Promise<QualityPrediction> {
@@ -770,9 +726,10 @@ export class MockAgentsAIService {
 }
 
 // Factory function
-export function createAgentsAIService(env?: Env): AgentsAIService | MockAgentsAIService {
+// caller names the user (and tenant) the calls are recorded against
+export function createAgentsAIService(env?: Env, caller: Omit<AICallContext, 'env'> = {}): AgentsAIService | MockAgentsAIService {
   if (env?.AI || (typeof window !== 'undefined' && import.meta.env.OPENAI_API_KEY)) {
-    return new AgentsAIService(env);
+    return new AgentsAIService(env, caller);
   }
   return new MockAgentsAIService();
 }
@@ -0,0 +1,27 @@
+// AI model pricing
+// Per-token prices for the models we call, so every recorded call carries what it cost
+
+export interface ModelPrice {
+  input: number; // USD per million input tokens
+  output: number; // USD per million output tokens
+}
+
+// Keep in step with the providers' published prices; models missing here are recorded without a cost
+export const MODEL_PRICES: Record<string, ModelPrice> = {
+  '@cf/openai/gpt-oss-120b': { input: 0.35, output: 0.75 },
+  '@cf/openai/gpt-oss-20b': { input: 0.2, output: 0.3 },
+  'gpt-4': { input: 30, output: 60 }
+};
+
+export function getModelPrice(model: string): ModelPrice | null {
+  return MODEL_PRICES[model] || null;
+}
+
+/**
+ * Cost of one call in USD, or null when the model has no price
+ */
+export function calculateCost(model: string, inputTokens: number, outputTokens: number): number | null {
+  const price = getModelPrice(model);
+  if (!price) return null;
+  return (inputTokens * price.input + outputTokens * price.output) / 1_000_000;
+}
@@ -1,22 +1,62 @@
 // AI Usage tracking and optimization utilities
-import type { Env } from './database';
+import { getDatabase, type AIBudget, type DatabaseService, type Env } from './database';
+import { calculateCost } from './ai-pricing';
+import { consumeRateLimit, getRateLimitStore, type RateLimitRule, type RateLimitStore } from './rate-limit';
 
 export interface AIUsageMetrics {
   modelUsed: string;
   taskType: string;
   tokensUsed?: number;
+  inputTokens?: number;
+  outputTokens?: number;
+  costUsd?: number | null; // null when usage or the model's price is unknown
   responseTime: number;
   timestamp: Date;
   userId?: string;
+  tenantId?: string;
   success: boolean;
   errorType?: string;
 }
 
+// Who a call is made for, and where it is recorded
+export interface AICallContext {
+  env?: Env; // calls are persisted when the database is bound
+  userId?: string;
+  tenantId?: string;
+}
+
+export interface AIBudgetStatus extends AIBudget {
+  spent_usd: number;
+  period_start: string;
+  ratio: number; // spent / limit
+  status: 'ok' | 'warning' | 'exceeded';
+}
+
+/**
+ * Token counts reported while a tracked call runs. Calls that make more
+ * than one request to a model report each response and are summed.
+ */
+export class AICallMeter {
+  inputTokens = 0;
+  outputTokens = 0;
+  reported = false;
+
+  // Accepts Workers AI usage (prompt_tokens/completion_tokens) and AI SDK usage (inputTokens/outputTokens)
+  record(usage: any): void {
+    if (!usage || typeof usage !== 'object') return;
+    const input = Number(usage.prompt_tokens ?? usage.inputTokens ?? usage.promptTokens);
+    const output = Number(usage.completion_tokens ?? usage.outputTokens ?? usage.completionTokens);
+    if (Number.isFinite(input)) this.inputTokens += input;
+    if (Number.isFinite(output)) this.outputTokens += output;
+    if (Number.isFinite(input) || Number.isFinite(output)) this.reported = true;
+  }
+}
+
 export class AIUsageTracker {
   private metrics: AIUsageMetrics[] = [];
   private readonly MAX_METRICS = 1000; // Keep last 1000 calls
 
-  logUsage(metrics: AIUsageMetrics) {
+  async logUsage(metrics: AIUsageMetrics, env?: Env) {
     this.metrics.push(metrics);
     
     // Keep only recent metrics
@@ -26,6 +66,23 @@ export class AIUsageTracker {
     
     // Log for debugging
     console.log(`AI Usage: ${metrics.modelUsed} (${metrics.taskType}) - ${metrics.responseTime}ms - ${metrics.success ? 'SUCCESS' : 'FAILED'}`);
+
+    // Persist for spend reporting; a failed write is logged by the database and never fails the call
+    if (env?.DB) {
+      await getDatabase(env).recordAIUsage({
+        user_id: metrics.userId,
+        tenant_id: metrics.tenantId,
+        model_used: metrics.modelUsed,
+        operation_type: metrics.taskType,
+        input_tokens: metrics.inputTokens,
+        output_tokens: metrics.outputTokens,
+        tokens_used: metrics.tokensUsed,
+        cost_usd: metrics.costUsd,
+        response_time_ms: metrics.responseTime,
+        success: metrics.success,
+        error_details: metrics.errorType
+      });
+    }
   }
 
   getUsageStats(): {
@@ -108,68 +165,101 @@ export const aiUsageTracker = new AIUsageTracker();
 export async function trackAICall<T>(
   modelName: string,
   taskType: string,
-  aiCall: () => Promise<T>,
-  userId?: string
+  aiCall: (meter: AICallMeter) => Promise<T>,
+  context: AICallContext = {}
 ): Promise<T> {
   const startTime = Date.now();
+  const meter = new AICallMeter();
   
   try {
-    const result = await aiCall();
+    const result = await aiCall(meter);
     const responseTime = Date.now() - startTime;
     
-    aiUsageTracker.logUsage({
+    await aiUsageTracker.logUsage({
+      ...meteredUsage(modelName, meter),
       modelUsed: modelName,
       taskType,
       responseTime,
       timestamp: new Date(),
-      userId,
+      userId: context.userId,
+      tenantId: context.tenantId,
       success: true
-    });
+    }, context.env);
     
     return result;
   } catch (error) {
     const responseTime = Date.now() - startTime;
     
-    aiUsageTracker.logUsage({
+    await aiUsageTracker.logUsage({
+      ...meteredUsage(modelName, meter),
       modelUsed: modelName,
       taskType,
       responseTime,
       timestamp: new Date(),
-      userId,
+      userId: context.userId,
+      tenantId: context.tenantId,
       success: false,
       errorType: error.message
-    });
+    }, context.env);
     
     throw error;
   }
 }
 
-// Rate limiting helper
+/**
+ * Spend against each budget in its current period, with alerts for
+ * budgets past their threshold
+ */
+export async function evaluateAIBudgets(database: DatabaseService, budgets: AIBudget[], now: Date = new Date()): Promise<AIBudgetStatus[]> {
+  return Promise.all(budgets.map(async budget => {
+    const periodStart = budget.period === 'day'
+      ? new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()))
+      : new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+    const spent = await database.getAISpendTotal(budget.scope, budget.scope_id, toSQLiteDateTime(periodStart));
+    const ratio = budget.limit_usd > 0 ? spent / budget.limit_usd : 0;
+
+    return {
+      ...budget,
+      spent_usd: Math.round(spent * 10000) / 10000,
+      period_start: periodStart.toISOString(),
+      ratio: Math.round(ratio * 1000) / 1000,
+      status: ratio >= 1 ? 'exceeded' : ratio >= budget.alert_threshold ? 'warning' : 'ok'
+    } as AIBudgetStatus;
+  }));
+}
+
+// ai_usage_stats.created_at is an SQLite CURRENT_TIMESTAMP, so ranges are compared in the same format
+export function toSQLiteDateTime(date: Date): string {
+  return date.toISOString().slice(0, 19).replace('T', ' ');
+}
+
+// Rate limiting helper: one account-wide budget of model calls, shared by every isolate
 export class AIRateLimiter {
-  private callTimes: number[] = [];
-  private readonly maxCallsPerMinute = 250; // Conservative limit for text generation
-  
-  canMakeCall(): boolean {
-    const now = Date.now();
-    const oneMinuteAgo = now - 60000;
-    
-    // Remove calls older than 1 minute
-    this.callTimes = this.callTimes.filter(time => time > oneMinuteAgo);
-    
-    return this.callTimes.length < this.maxCallsPerMinute;
-  }
-  
-  recordCall() {
-    this.callTimes.push(Date.now());
-  }
-  
-  getTimeUntilNextCall(): number {
-    if (this.canMakeCall()) return 0;
-    
-    const oldestCall = Math.min(...this.callTimes);
-    const timeUntilExpiry = (oldestCall + 60000) - Date.now();
-    return Math.max(0, timeUntilExpiry);
+  private readonly rule: RateLimitRule = { requests: 250, windowMs: 60000 }; // Conservative limit for text generation
+
+  constructor(private store: RateLimitStore = getRateLimitStore()) {}
+
+  // Take one call from the budget, or throw with how long to wait
+  async acquire(): Promise<void> {
+    const decision = await consumeRateLimit(this.store, 'ai:calls', this.rule);
+    if (!decision.allowed) {
+      throw new Error(`Rate limit exceeded. Wait ${Math.ceil(decision.retryAfterMs / 1000)} seconds.`);
+    }
   }
 }
 
+export function createAIRateLimiter(env?: Env): AIRateLimiter {
+  return new AIRateLimiter(getRateLimitStore(env));
+}
+
 export const aiRateLimiter = new AIRateLimiter();
+
+function meteredUsage(modelName: string, meter: AICallMeter): Pick<AIUsageMetrics, 'inputTokens' | 'outputTokens' | 'tokensUsed' | 'costUsd'> {
+  if (!meter.reported) return { costUsd: null };
+  return {
+    inputTokens: meter.inputTokens,
+    outputTokens: meter.outputTokens,
+    tokensUsed: meter.inputTokens + meter.outputTokens,
+    costUsd: calculateCost(modelName, meter.inputTokens, meter.outputTokens)
+  };
+}
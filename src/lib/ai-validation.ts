@@ -0,0 +1,185 @@
+// AI request and response validation
+// Typed checks for the AI tool endpoints, and repair of model output that does not match the declared shape
+
+import type { MachineSettings, MachineType } from './toolpath-compiler';
+import type { QualityPrediction, WorkshopGuidance } from './cloudflare-ai';
+import { POST_PROCESSORS } from './machine-profiles';
+
+export interface GCodeRequest {
+  svgData: string;
+  material: string;
+  machineType: MachineType;
+  machineId?: string;
+  settings: Partial<MachineSettings>;
+}
+
+export interface QualityAnalysisRequest {
+  svgData: string;
+  material: string;
+  settings: Record<string, unknown>;
+}
+
+export interface WorkshopGuidanceRequest {
+  projectId?: string; // guidance uses the saved project when given
+  title: string;
+  description: string;
+  projectType: string;
+  metadata: string;
+}
+
+export const MAX_SVG_LENGTH = 2_000_000;
+
+const MACHINE_TYPES: MachineType[] = ['laser', 'cnc', 'plasma'];
+const UNSAFE_SVG = /<script|javascript:|vbscript:|data:text\/html|\son\w+\s*=|<embed|<object|<iframe|<meta|<link/i;
+
+/**
+ * Check a G-code request. Material and machine type are read from the top
+ * level; the same keys inside settings are ignored. Throws with a message
+ * suitable for the API response.
+ */
+export function validateGCodeRequest(body: any): GCodeRequest {
+  const input = body && typeof body === 'object' ? body : {};
+  const machineType = input.machineType ?? 'laser';
+  if (!MACHINE_TYPES.includes(machineType)) {
+    throw new Error(`Machine type must be one of ${MACHINE_TYPES.join(', ')}`);
+  }
+  if (input.machineId !== undefined && input.machineId !== null && (typeof input.machineId !== 'string' || input.machineId.length > 100)) {
+    throw new Error('Invalid machine');
+  }
+
+  return {
+    svgData: validateSVG(input.svgData),
+    material: validateText(input.material ?? 'plywood', 'Material', 50, true),
+    machineType,
+    machineId: input.machineId || undefined,
+    settings: validateMachineSettings(input.settings)
+  };
+}
+
+export function validateQualityAnalysisRequest(body: any): QualityAnalysisRequest {
+  const input = body && typeof body === 'object' ? body : {};
+  const settings = input.settings ?? {};
+  if (typeof settings !== 'object' || Array.isArray(settings)) {
+    throw new Error('Settings must be an object');
+  }
+  if (JSON.stringify(settings).length > 2000) {
+    throw new Error('Settings are too large');
+  }
+
+  return {
+    svgData: validateSVG(input.svgData),
+    material: validateText(input.material ?? 'plywood', 'Material', 50, true),
+    settings
+  };
+}
+
+export function validateWorkshopGuidanceRequest(body: any): WorkshopGuidanceRequest {
+  const project = body?.project;
+  if (!project || typeof project !== 'object') {
+    throw new Error('Project is required');
+  }
+  if (project.id !== undefined && (typeof project.id !== 'string' || project.id.length > 100)) {
+    throw new Error('Invalid project');
+  }
+
+  const metadata = typeof project.metadata === 'string' ? project.metadata : project.metadata ? JSON.stringify(project.metadata) : '';
+  return {
+    projectId: project.id || undefined,
+    title: validateText(project.title, 'Project title', 200, true),
+    description: validateText(project.description ?? '', 'Project description', 2000),
+    projectType: validateText(project.project_type ?? '', 'Project type', 50),
+    metadata: validateText(metadata, 'Project metadata', 5000)
+  };
+}
+
+/**
+ * A prediction in the declared shape, whatever the model returned: the
+ * probability is clamped to 0-100 and lists keep only their text entries
+ */
+export function normalizeQualityPrediction(raw: any): QualityPrediction {
+  const probability = Number(raw?.successProbability);
+  return {
+    successProbability: Number.isFinite(probability) ? Math.round(Math.min(100, Math.max(0, probability))) : 0,
+    potentialIssues: textList(raw?.potentialIssues),
+    recommendations: textList(raw?.recommendations),
+    materialOptimizations: textList(raw?.materialOptimizations)
+  };
+}
+
+export function normalizeWorkshopGuidance(raw: any): WorkshopGuidance {
+  const rating = Number(raw?.difficultyRating);
+  return {
+    safetyTips: textList(raw?.safetyTips),
+    stepByStep: textList(raw?.stepByStep),
+    toolsNeeded: textList(raw?.toolsNeeded),
+    timeEstimate: typeof raw?.timeEstimate === 'string' ? raw.timeEstimate.slice(0, 200) : '',
+    difficultyRating: Number.isFinite(rating) ? Math.round(Math.min(10, Math.max(1, rating))) : 5,
+    troubleshooting: textList(raw?.troubleshooting)
+  };
+}
+
+function validateSVG(svg: any): string {
+  if (typeof svg !== 'string' || !svg.includes('<svg') || !svg.includes('</svg>')) {
+    throw new Error('SVG data is required');
+  }
+  if (svg.length > MAX_SVG_LENGTH) {
+    throw new Error(`SVG data exceeds ${MAX_SVG_LENGTH} characters`);
+  }
+  if (UNSAFE_SVG.test(svg)) {
+    throw new Error('SVG content contains potentially dangerous elements');
+  }
+  return svg;
+}
+
+function validateText(value: any, label: string, maxLength: number, required = false): string {
+  if (typeof value !== 'string') {
+    throw new Error(`${label} must be text`);
+  }
+  const text = value.replace(/[\x00-\x08\x0B\x0C\x0E-\x1F\x7F]/g, '').trim();
+  if (required && !text) {
+    throw new Error(`${label} is required`);
+  }
+  if (text.length > maxLength) {
+    throw new Error(`${label} must be at most ${maxLength} characters`);
+  }
+  return text;
+}
+
+function validateMachineSettings(input: any): Partial<MachineSettings> {
+  if (input === undefined || input === null) return {};
+  if (typeof input !== 'object' || Array.isArray(input)) {
+    throw new Error('Settings must be an object');
+  }
+
+  const settings: Partial<MachineSettings> = {};
+  const number = (key: 'thickness' | 'feedRate' | 'laserPower' | 'spindleSpeed' | 'passes', label: string, min: number, max: number) => {
+    if (input[key] === undefined) return;
+    const value = Number(input[key]);
+    if (!Number.isFinite(value) || value < min || value > max) {
+      throw new Error(`${label} must be between ${min} and ${max}`);
+    }
+    settings[key] = value;
+  };
+
+  number('thickness', 'Thickness', 0.1, 100);
+  number('feedRate', 'Feed rate', 1, 100000);
+  number('laserPower', 'Laser power', 0, 100);
+  number('spindleSpeed', 'Spindle speed', 0, 60000);
+  number('passes', 'Passes', 1, 20);
+  if (settings.passes !== undefined) settings.passes = Math.round(settings.passes);
+
+  if (input.postProcessor !== undefined) {
+    if (!POST_PROCESSORS.includes(input.postProcessor)) {
+      throw new Error(`Post-processor must be one of ${POST_PROCESSORS.join(', ')}`);
+    }
+    settings.postProcessor = input.postProcessor;
+  }
+
+  return settings;
+}
+
+function textList(value: any): string[] {
+  return Array.isArray(value)
+    ? value.filter((item): item is string => typeof item === 'string' && item.trim() !== '').map(item => item.slice(0, 500)).slice(0, 20)
+    : [];
+}
@@ -2,7 +2,12 @@
 // Replaces OpenAI SDK for hackathon submission
 
 import type { Env, UserProject } from './database';
-import { trackAICall, aiRateLimiter } from './ai-usage-tracker';
+import { trackAICall, aiRateLimiter, createAIRateLimiter, type AICallContext, type AIRateLimiter } from './ai-usage-tracker';
+import type { MachineSettings } from './toolpath-compiler';
+import { generateMachineGCode, type MachineProfile } from './machine-profiles';
+import { convertToShaperSVG } from './shaper-svg';
+import { normalizeQualityPrediction, normalizeWorkshopGuidance } from './ai-validation';
+import { getBoundingBox, orientedExtent, parseSVG, polylineLength } from './svg-geometry';
 
 export interface SVGGenerationRequest {
   description: string;
@@ -49,7 +54,7 @@ export interface QualityPrediction {
 export class CloudflareAIService {
   private ai: any;
 
-  constructor(ai: any) {
+  constructor(ai: any, private rateLimiter: AIRateLimiter = aiRateLimiter, private usageContext: AICallContext = {}) {
     this.ai = ai;
   }
 
@@ -95,17 +100,12 @@ export class CloudflareAIService {
 
   async generateContextualSVG(request: SVGGenerationRequest): Promise<string> {
     // Check rate limits
-    if (!aiRateLimiter.canMakeCall()) {
-      const waitTime = aiRateLimiter.getTimeUntilNextCall();
-      throw new Error(`Rate limit exceeded. Wait ${Math.ceil(waitTime / 1000)} seconds.`);
-    }
+    await this.rateLimiter.acquire();
 
     const model = this.selectModel('simple'); // SVG generation is fast task
     const reasoningEffort = this.selectReasoningEffort('simple');
 
-    return trackAICall(model, 'SVG Generation with Constraints', async () => {
-      aiRateLimiter.recordCall();
-
+    return trackAICall(model, 'SVG Generation with Constraints', async (meter) => {
       const prompt = this.createContextualSVGPrompt(request);
       this.logModelUsage(model, 'Constrained SVG Generation');
 
@@ -124,6 +124,7 @@ export class CloudflareAIService {
         max_tokens: 2500,
         temperature: 0.4 // Lower temperature for more consistent, physics-based results
       });
+      meter.record(response.usage);
 
       const svgContent = response.response;
 
@@ -145,7 +146,7 @@ export class CloudflareAIService {
       }
 
       return cleanSVG;
-    });
+    }, this.usageContext);
   }
 
   /**
@@ -164,7 +165,7 @@ export class CloudflareAIService {
     const model = this.selectModel('complex');
     const reasoningEffort = this.selectReasoningEffort('complex');
 
-    return trackAICall(model, 'Design Validation', async () => {
+    return trackAICall(model, 'Design Validation', async (meter) => {
       const validationPrompt = `VALIDATE this SVG design against manufacturing constraints:
 
 SVG Content: ${svgContent}
@@ -210,6 +211,7 @@ Be precise - manufacturing failure is expensive. Flag ANY potential issues.`;
         max_tokens: 1500,
         temperature: 0.1 // Very low temperature for consistent validation
       });
+      meter.record(response.usage);
 
       try {
         const result = JSON.parse(response.response);
@@ -229,7 +231,7 @@ Be precise - manufacturing failure is expensive. Flag ANY potential issues.`;
           score: hasViolations ? 30 : 80
         };
       }
-    });
+    }, this.usageContext);
   }
 
   /**
@@ -244,7 +246,7 @@ Be precise - manufacturing failure is expensive. Flag ANY potential issues.`;
     const model = this.selectModel('complex');
     const reasoningEffort = this.selectReasoningEffort('complex');
 
-    return trackAICall(model, 'Design Fixing', async () => {
+    return trackAICall(model, 'Design Fixing', async (meter) => {
       const fixPrompt = `FIX this SVG design to meet manufacturing constraints:
 
 ORIGINAL SVG: ${svgContent}
@@ -282,78 +284,35 @@ Return the CORRECTED SVG that will cut successfully.`;
         max_tokens: 3000,
         temperature: 0.3
       });
+      meter.record(response.usage);
 
       const fixedSVG = response.response;
       const svgMatch = fixedSVG.match(/<svg[\s\S]*?<\/svg>/i);
       return svgMatch ? svgMatch[0] : fixedSVG;
-    });
+    }, this.usageContext);
   }
 
-  async generateGCode(svgData: string, material: string, machineType: string): Promise<GCodeOutput> {
-    if (!aiRateLimiter.canMakeCall()) {
-      const waitTime = aiRateLimiter.getTimeUntilNextCall();
-      throw new Error(`Rate limit exceeded. Wait ${Math.ceil(waitTime / 1000)} seconds.`);
-    }
-    
-    const model = this.selectModel('complex'); // G-code requires complex reasoning
-    const reasoningEffort = this.selectReasoningEffort('complex');
-    
-    return trackAICall(model, 'G-code Generation', async () => {
-      aiRateLimiter.recordCall();
-      
-      const prompt = `Convert this SVG design to optimized G-code for ${machineType}:
-
-SVG Data: ${svgData}
-Material: ${material}
-Machine: ${machineType}
-
-Generate G-code with:
-- Optimized cutting paths to minimize travel time
-- Appropriate feed rates and speeds for ${material}
-- Safety checks and tool changes
-- Material usage calculations
-- Estimated completion time
-
-Return as JSON with: gcode, estimatedTime, materialUsage, cuttingPath, warnings`;
-
-      this.logModelUsage(model, 'G-code Generation');
-
-      const response = await this.ai.run(model, {
-        reasoning: { effort: reasoningEffort },
-        messages: [
-          {
-            role: "system",
-            content: "You are a CNC/laser cutting expert. Generate optimized G-code from SVG designs with safety considerations and efficiency optimizations."
-          },
-          {
-            role: "user",
-            content: prompt
-          }
-        ],
-        max_tokens: 3000,
-        temperature: 0.3
-      });
-
-      try {
-        return JSON.parse(response.response);
-      } catch {
-        // Fallback if not JSON
-        return {
-          gcode: response.response,
-          estimatedTime: "15-30 minutes",
-          materialUsage: 75,
-          cuttingPath: "Optimized for minimal travel",
-          warnings: ["Test settings on scrap material first"]
-        };
-      }
-    });
+  // G-code is compiled from the geometry rather than generated by a model,
+  // so the output is repeatable and safe to send to a machine
+  async generateGCode(svgData: string, material: string, machineType: string | MachineProfile, settings?: Partial<MachineSettings>): Promise<GCodeOutput> {
+    return generateMachineGCode(svgData, material, machineType, settings);
   }
 
   async analyzeQuality(svgData: string, material: string, settings: any): Promise<QualityPrediction> {
+    await this.rateLimiter.acquire();
+
+    const model = this.selectModel('balanced'); // Quality analysis - balanced approach
+    const reasoningEffort = this.selectReasoningEffort('balanced');
+
     try {
-      const prompt = `Analyze this design for fabrication quality:
+      // Designs can run to megabytes, so the model sees measurements rather than the markup
+      const geometry = summarizeGeometry(svgData);
+
+      return await trackAICall(model, 'Quality Analysis', async (meter) => {
+        const prompt = `Analyze this design for fabrication quality:
 
-Design: ${svgData}
+Design geometry:
+${geometry}
 Material: ${material}
 Settings: ${JSON.stringify(settings)}
 
@@ -365,47 +324,49 @@ Predict:
 
 Return as JSON with: successProbability, potentialIssues, recommendations, materialOptimizations`;
 
-      const model = this.selectModel('balanced'); // Quality analysis - balanced approach
-      const reasoningEffort = this.selectReasoningEffort('balanced');
-      this.logModelUsage(model, 'Quality Analysis');
-
-      const response = await this.ai.run(model, {
-        reasoning: { effort: reasoningEffort },
-        messages: [
-          {
-            role: "system",
-            content: "You are a fabrication quality expert. Analyze designs and predict potential issues before cutting."
-          },
-          {
-            role: "user",
-            content: prompt
-          }
-        ],
-        max_tokens: 1500,
-        temperature: 0.4
-      });
-
-      try {
-        return JSON.parse(response.response);
-      } catch {
-        // Fallback analysis
-        return {
-          successProbability: 85,
-          potentialIssues: ["Check material thickness", "Verify cut settings"],
-          recommendations: ["Test on scrap material", "Double-check dimensions"],
-          materialOptimizations: ["Consider grain direction", "Optimize nesting layout"]
-        };
-      }
-      
+        this.logModelUsage(model, 'Quality Analysis');
+
+        const response = await this.ai.run(model, {
+          reasoning: { effort: reasoningEffort },
+          messages: [
+            {
+              role: "system",
+              content: "You are a fabrication quality expert. Analyze designs and predict potential issues before cutting."
+            },
+            {
+              role: "user",
+              content: prompt
+            }
+          ],
+          max_tokens: 1500,
+          temperature: 0.4
+        });
+        meter.record(response.usage);
+
+        let parsed: unknown;
+        try {
+          parsed = JSON.parse(response.response);
+        } catch {
+          // A guess would read as a real prediction, so an unreadable reply is a failed analysis
+          throw new Error('Quality analysis reply was not valid JSON');
+        }
+        return normalizeQualityPrediction(parsed);
+      }, this.usageContext);
     } catch (error) {
       console.error('Quality analysis error:', error);
       throw new Error('Failed to analyze design quality');
     }
   }
 
-  async generateWorkshopGuidance(project: UserProject): Promise<WorkshopGuidance> {
+  async generateWorkshopGuidance(project: Pick<UserProject, 'title' | 'description' | 'metadata'> & { project_type?: string }): Promise<WorkshopGuidance> {
+    await this.rateLimiter.acquire();
+
+    const model = this.selectModel('simple'); // Workshop guidance is straightforward
+    const reasoningEffort = this.selectReasoningEffort('simple');
+
     try {
-      const prompt = `Generate workshop guidance for this project:
+      return await trackAICall(model, 'Workshop Guidance', async (meter) => {
+        const prompt = `Generate workshop guidance for this project:
 
 Title: ${project.title}
 Description: ${project.description}
@@ -422,40 +383,39 @@ Provide:
 
 Return as JSON.`;
 
-      const model = this.selectModel('simple'); // Workshop guidance is straightforward
-      const reasoningEffort = this.selectReasoningEffort('simple');
-      this.logModelUsage(model, 'Workshop Guidance');
-
-      const response = await this.ai.run(model, {
-        reasoning: { effort: reasoningEffort },
-        messages: [
-          {
-            role: "system",
-            content: "You are an expert workshop instructor. Provide clear, safety-focused guidance for fabrication projects."
-          },
-          {
-            role: "user",
-            content: prompt
-          }
-        ],
-        max_tokens: 2000,
-        temperature: 0.6
-      });
-
-      try {
-        return JSON.parse(response.response);
-      } catch {
-        // Fallback guidance
-        return {
-          safetyTips: ["Wear safety glasses", "Ensure proper ventilation", "Check material security"],
-          stepByStep: ["Prepare materials", "Set up machine", "Test settings", "Execute cuts", "Finish edges"],
-          toolsNeeded: ["Laser cutter", "Safety equipment", "Measuring tools"],
-          timeEstimate: "30-60 minutes",
-          difficultyRating: 5,
-          troubleshooting: ["If cut is incomplete, increase power slightly", "If edges are rough, decrease speed"]
-        };
-      }
-      
+        this.logModelUsage(model, 'Workshop Guidance');
+
+        const response = await this.ai.run(model, {
+          reasoning: { effort: reasoningEffort },
+          messages: [
+            {
+              role: "system",
+              content: "You are an expert workshop instructor. Provide clear, safety-focused guidance for fabrication projects."
+            },
+            {
+              role: "user",
+              content: prompt
+            }
+          ],
+          max_tokens: 2000,
+          temperature: 0.6
+        });
+        meter.record(response.usage);
+
+        try {
+          return normalizeWorkshopGuidance(JSON.parse(response.response));
+        } catch {
+          // Fallback guidance
+          return {
+            safetyTips: ["Wear safety glasses", "Ensure proper ventilation", "Check material security"],
+            stepByStep: ["Prepare materials", "Set up machine", "Test settings", "Execute cuts", "Finish edges"],
+            toolsNeeded: ["Laser cutter", "Safety equipment", "Measuring tools"],
+            timeEstimate: "30-60 minutes",
+            difficultyRating: 5,
+            troubleshooting: ["If cut is incomplete, increase power slightly", "If edges are rough, decrease speed"]
+          };
+        }
+      }, this.usageContext);
     } catch (error) {
       console.error('Workshop guidance generation error:', error);
       throw new Error('Failed to generate workshop guidance');
@@ -468,8 +428,14 @@ Return as JSON.`;
     wastePercentage: number;
     recommendations: string[];
   }> {
+    await this.rateLimiter.acquire();
+
+    const model = this.selectModel('complex'); // Material optimization requires complex calculations
+    const reasoningEffort = this.selectReasoningEffort('complex');
+
     try {
-      const prompt = `Optimize material layout for these designs:
+      return await trackAICall(model, 'Material Optimization', async (meter) => {
+        const prompt = `Optimize material layout for these designs:
 
 Designs: ${JSON.stringify(designs)}
 Material: ${materialDimensions.width}mm x ${materialDimensions.height}mm
@@ -482,100 +448,48 @@ Calculate:
 
 Return as JSON with: layout, efficiency, wastePercentage, recommendations`;
 
-      const model = this.selectModel('complex'); // Material optimization requires complex calculations
-      const reasoningEffort = this.selectReasoningEffort('complex');
-      this.logModelUsage(model, 'Material Optimization');
-
-      const response = await this.ai.run(model, {
-        reasoning: { effort: reasoningEffort },
-        messages: [
-          {
-            role: "system",
-            content: "You are a material optimization expert. Calculate efficient nesting layouts to minimize waste."
-          },
-          {
-            role: "user",
-            content: prompt
-          }
-        ],
-        max_tokens: 1500,
-        temperature: 0.3
-      });
-
-      try {
-        return JSON.parse(response.response);
-      } catch {
-        return {
-          layout: "Rectangular grid layout with 5mm spacing",
-          efficiency: 78,
-          wastePercentage: 22,
-          recommendations: ["Rotate pieces for better fit", "Consider smaller material sheet"]
-        };
-      }
-      
+        this.logModelUsage(model, 'Material Optimization');
+
+        const response = await this.ai.run(model, {
+          reasoning: { effort: reasoningEffort },
+          messages: [
+            {
+              role: "system",
+              content: "You are a material optimization expert. Calculate efficient nesting layouts to minimize waste."
+            },
+            {
+              role: "user",
+              content: prompt
+            }
+          ],
+          max_tokens: 1500,
+          temperature: 0.3
+        });
+        meter.record(response.usage);
+
+        try {
+          return JSON.parse(response.response);
+        } catch {
+          return {
+            layout: "Rectangular grid layout with 5mm spacing",
+            efficiency: 78,
+            wastePercentage: 22,
+            recommendations: ["Rotate pieces for better fit", "Consider smaller material sheet"]
+          };
+        }
+      }, this.usageContext);
     } catch (error) {
       console.error('Material optimization error:', error);
       throw new Error('Failed to optimize material layout');
     }
   }
 
-  async generateShaperOriginSVG(svgData: string, toolDiameter: number = 3.175): Promise<string> {
-    if (!aiRateLimiter.canMakeCall()) {
-      const waitTime = aiRateLimiter.getTimeUntilNextCall();
-      throw new Error(`Rate limit exceeded. Wait ${Math.ceil(waitTime / 1000)} seconds.`);
-    }
-    
-    const model = this.selectModel('balanced');
-    const reasoningEffort = this.selectReasoningEffort('balanced');
-    
-    return trackAICall(model, 'Shaper Origin Conversion', async () => {
-      aiRateLimiter.recordCall();
-      
-      const prompt = `Convert this SVG for Shaper Origin CNC router compatibility:
-
-Input SVG: ${svgData}
-Tool Diameter: ${toolDiameter}mm
-
-Requirements for Shaper Origin:
-- Convert all shapes to single-stroke vectors (no fills)
-- Apply tool radius compensation (inset paths by ${toolDiameter/2}mm for interior cuts)
-- Use only stroke paths, no complex shapes
-- Add tool-change markers as comments: <!-- TOOL_CHANGE: 1/8_ROUTER_BIT -->
-- Ensure all paths are continuous and optimized for CNC routing
-- Remove any elements that can't be cut with a router bit
-- Maintain proper scaling and dimensions
-- Group related operations together
-
-Return optimized SVG for Shaper Origin.`;
-
-      this.logModelUsage(model, 'Shaper Origin Conversion');
-
-      const response = await this.ai.run(model, {
-        reasoning: { effort: reasoningEffort },
-        messages: [
-          {
-            role: "system",
-            content: "You are a CNC routing expert specializing in Shaper Origin. Convert SVG designs for optimal CNC router compatibility with proper tool compensation."
-          },
-          {
-            role: "user",
-            content: prompt
-          }
-        ],
-        max_tokens: 2500,
-        temperature: 0.3
-      });
-
-      const shaperSVG = response.response;
-      
-      if (!shaperSVG) {
-        throw new Error('No Shaper-compatible SVG generated');
-      }
-
-      // Extract SVG from response if wrapped in markdown
-      const svgMatch = shaperSVG.match(/<svg[\s\S]*?<\/svg>/i);
-      return svgMatch ? svgMatch[0] : shaperSVG;
-    });
+  /**
+   * Shaper Origin conversion is rule-based: cut types follow contour nesting
+   * and depths follow the material, so no model call is made
+   */
+  async generateShaperOriginSVG(svgData: string, toolDiameter: number = 3.175, thickness: number = 3): Promise<string> {
+    return convertToShaperSVG(svgData, { thickness, toolDiameter }).svg;
   }
 
   async generateParametricDesign(params: {
@@ -584,17 +498,12 @@ Return optimized SVG for Shaper Origin.`;
     material: string;
     style?: string;
   }): Promise<{ svg: string; script: string }> {
-    if (!aiRateLimiter.canMakeCall()) {
-      const waitTime = aiRateLimiter.getTimeUntilNextCall();
-      throw new Error(`Rate limit exceeded. Wait ${Math.ceil(waitTime / 1000)} seconds.`);
-    }
+    await this.rateLimiter.acquire();
     
     const model = this.selectModel('complex'); // Parametric design requires complex reasoning
     const reasoningEffort = this.selectReasoningEffort('complex');
     
-    return trackAICall(model, 'Parametric Design', async () => {
-      aiRateLimiter.recordCall();
-      
+    return trackAICall(model, 'Parametric Design', async (meter) => {
       const prompt = `Generate a parametric ${params.type} design:
 
 Type: ${params.type}
@@ -629,6 +538,7 @@ Return as JSON: { "svg": "...", "script": "...", "documentation": "..." }`;
         max_tokens: 3500,
         temperature: 0.4
       });
+      meter.record(response.usage);
 
       try {
         const result = JSON.parse(response.response);
@@ -643,7 +553,7 @@ Return as JSON: { "svg": "...", "script": "...", "documentation": "..." }`;
           script: `# Parametric ${params.type} generator\nimport svgwrite\n# Add your parameters here`
         };
       }
-    });
+    }, this.usageContext);
   }
 
   private getParametricRequirements(type: string): string {
@@ -666,17 +576,12 @@ Return as JSON: { "svg": "...", "script": "...", "documentation": "..." }`;
     toolSettings?: { rpm: number; feedRate: number; plungeRate: number };
     recommendations: string[];
   }> {
-    if (!aiRateLimiter.canMakeCall()) {
-      const waitTime = aiRateLimiter.getTimeUntilNextCall();
-      throw new Error(`Rate limit exceeded. Wait ${Math.ceil(waitTime / 1000)} seconds.`);
-    }
+    await this.rateLimiter.acquire();
     
     const model = this.selectModel('balanced');
     const reasoningEffort = this.selectReasoningEffort('balanced');
     
-    return trackAICall(model, 'Material Settings', async () => {
-      aiRateLimiter.recordCall();
-      
+    return trackAICall(model, 'Material Settings', async (meter) => {
       const prompt = `Generate optimal ${machine} settings for:
 
 Material: ${material}
@@ -711,6 +616,7 @@ Return as JSON with appropriate settings and recommendations.`;
         max_tokens: 1500,
         temperature: 0.3
       });
+      meter.record(response.usage);
 
       try {
         return JSON.parse(response.response);
@@ -724,7 +630,7 @@ Return as JSON with appropriate settings and recommendations.`;
           ]
         };
       }
-    });
+    }, this.usageContext);
   }
 
   private createContextualSVGPrompt(request: SVGGenerationRequest): string {
@@ -842,14 +748,8 @@ export class MockCloudflareAIService {
     </svg>`;
   }
 
-  async generateGCode(): Promise<GCodeOutput> {
-    return {
-      gcode: "; Mock G-code\nG21 ; Set units to millimeters\nG90 ; Absolute positioning\nM3 S1000 ; Spindle on\nG1 X10 Y10 F1000\nM5 ; Spindle off",
-      estimatedTime: "15 minutes",
-      materialUsage: 75,
-      cuttingPath: "Optimized mock path",
-      warnings: ["This is mock data for development"]
-    };
+  async generateGCode(svgData: string, material: string, machineType: string | MachineProfile, settings?: Partial<MachineSettings>): Promise<GCodeOutput> {
+    return generateMachineGCode(svgData, material, machineType, settings);
   }
 
   async analyzeQuality(): Promise<QualityPrediction> {
@@ -883,11 +783,54 @@ export class MockCloudflareAIService {
 }
 
 // Factory function to create appropriate AI service
-export function createAIService(env?: Env): CloudflareAIService | MockCloudflareAIService {
+// caller names the user (and tenant) the calls are recorded against
+export function createAIService(env?: Env, caller: Omit<AICallContext, 'env'> = {}): CloudflareAIService | MockCloudflareAIService {
   if (env?.AI) {
-    return new CloudflareAIService(env.AI);
+    return new CloudflareAIService(env.AI, createAIRateLimiter(env), { ...caller, env });
   }
   return new MockCloudflareAIService();
 }
 
-export const aiService = createAIService();
\ No newline at end of file
+export const aiService = createAIService();
+
+const GEOMETRY_SUMMARY_GROUPS = 10;
+
+// Counts, bounds and the smallest features of a design, in millimetres
+function summarizeGeometry(svgData: string): string {
+  const geometry = parseSVG(svgData);
+  const shapes = geometry.shapes.filter(shape => shape.points.length >= 2);
+  if (shapes.length === 0) {
+    return `Document: ${round(geometry.width)} × ${round(geometry.height)} mm with no drawable shapes`;
+  }
+
+  const closed = shapes.filter(shape => shape.closed);
+  const bounds = getBoundingBox(shapes.flatMap(shape => shape.points));
+  const narrowest = closed.reduce((min, shape) => Math.min(min, orientedExtent(shape.points).width), Infinity);
+  const shortest = shapes.reduce((min, shape) => Math.min(min, polylineLength(shape.points, shape.closed)), Infinity);
+  const totalLength = shapes.reduce((sum, shape) => sum + polylineLength(shape.points, shape.closed), 0);
+
+  const elements = new Map<string, number>();
+  const layers = new Map<string, number>();
+  shapes.forEach(shape => {
+    elements.set(shape.element, (elements.get(shape.element) || 0) + 1);
+    if (shape.layer) layers.set(shape.layer, (layers.get(shape.layer) || 0) + 1);
+  });
+  const counts = (map: Map<string, number>) => [...map.entries()]
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, GEOMETRY_SUMMARY_GROUPS)
+    .map(([name, count]) => `${name} ${count}`)
+    .join(', ');
+
+  return [
+    `Document: ${round(geometry.width)} × ${round(geometry.height)} mm`,
+    `Drawing bounds: ${round(bounds.width)} × ${round(bounds.height)} mm at (${round(bounds.x)}, ${round(bounds.y)})`,
+    `Shapes: ${shapes.length} (${closed.length} closed, ${shapes.length - closed.length} open); elements: ${counts(elements)}`,
+    `Total cut length: ${round(totalLength)} mm; shortest path: ${round(shortest)} mm`,
+    closed.length ? `Narrowest closed shape: ${round(narrowest)} mm` : null,
+    layers.size ? `Layers: ${counts(layers)}` : null
+  ].filter(Boolean).join('\n');
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
@@ -0,0 +1,794 @@
+// Parametric geometry generators for the standard component library
+// Builds exact part outlines from component parameters and renders them as kerf-compensated SVG
+
+import { offsetPolygon } from './polygon-offset';
+import {
+  getBoundingBox,
+  pointsToPathData,
+  polylineLength,
+  simplifyCollinear,
+  type Point
+} from './svg-geometry';
+
+export interface ComponentPart {
+  name: string;
+  quantity: number;
+  outline: Point[]; // closed cut contour, in mm
+  holes: Point[][]; // closed cut contours inside the outline
+  cuts: Point[][]; // open single-line cuts (hinge slits)
+  grooves: Point[][]; // closed partial-depth regions (engrave on a laser, pocket on a CNC)
+}
+
+export interface ComponentGeometry {
+  parts: ComponentPart[];
+  hardware: string[];
+  assemblyInstructions: string[];
+  notes: string[]; // derived dimensions worth reporting, e.g. gear centre distance
+}
+
+export interface RenderOptions {
+  kerf?: number; // mm - outlines grow and holes shrink by half of this
+  spacing?: number; // mm between laid-out parts
+  maxRowWidth?: number; // mm before parts wrap onto a new row
+}
+
+export interface GeneratorContext {
+  kerf: number; // mm the cutter removes, for features drawn narrower or wider than the beam
+}
+
+export type ComponentGenerator = (params: Record<string, any>, context: GeneratorContext) => ComponentGeometry;
+
+const CURVE_TOLERANCE = 0.01; // mm - chord deviation for arcs and circles
+const FIT_CLEARANCE = 0.2; // mm - play left in sliding and lift-off fits
+const PRESSURE_ANGLE = (20 * Math.PI) / 180;
+const GEAR_BACKLASH = 0.1; // mm of tooth thickness removed at the pitch circle
+const FLANK_STEPS = 24;
+const CUT_COLOR = '#FF0000';
+const ENGRAVE_COLOR = '#000000';
+
+export const COMPONENT_GENERATORS: Record<string, ComponentGenerator> = {
+  'finger-joint-box': generateFingerJointBox,
+  'living-hinge': generateLivingHinge,
+  'gear-set': generateGearSet,
+  'dovetail-joint': generateDovetailJoint,
+  'kerf-bend': generateKerfBend,
+  'cam-lever': generateCamLever
+};
+
+/**
+ * Lay parts out in rows and render them as SVG in millimetres. Cut contours
+ * are kerf-compensated so the finished parts match the generated dimensions;
+ * single-line cuts and grooves are left as drawn.
+ */
+export function renderComponentSVG(geometry: ComponentGeometry, options: RenderOptions = {}): string {
+  const kerf = Math.max(0, options.kerf || 0);
+  const spacing = (options.spacing ?? 5) + kerf;
+
+  const instances = geometry.parts.flatMap(part =>
+    Array.from({ length: Math.max(1, Math.round(part.quantity)) }, (_, i) => ({ part: compensatePart(part, kerf), copy: i + 1 }))
+  );
+  const widest = Math.max(0, ...instances.map(({ part }) => getBoundingBox(part.outline).width));
+  const rowWidth = Math.max(options.maxRowWidth ?? 600, widest);
+
+  let x = spacing;
+  let y = spacing;
+  let rowHeight = 0;
+  let width = 0;
+  const groups: string[] = [];
+
+  for (const { part, copy } of instances) {
+    const box = getBoundingBox(part.outline);
+    if (x > spacing && x + box.width > rowWidth + spacing) {
+      x = spacing;
+      y += rowHeight + spacing;
+      rowHeight = 0;
+    }
+
+    const shift = (points: Point[]) => points.map(p => ({ x: p.x - box.x + x, y: p.y - box.y + y }));
+    const cutPath = pointsToPathData([
+      { points: shift(part.outline), closed: true },
+      ...part.holes.map(hole => ({ points: shift(hole), closed: true })),
+      ...part.cuts.map(cut => ({ points: shift(cut), closed: false }))
+    ]);
+    const id = `${slugify(part.name)}-${copy}`;
+
+    groups.push(`  <g id="${id}">`);
+    if (part.grooves.length > 0) {
+      const groovePath = pointsToPathData(part.grooves.map(groove => ({ points: shift(groove), closed: true })));
+      groups.push(`    <path d="${groovePath}" fill="${ENGRAVE_COLOR}" stroke="none"/>`);
+    }
+    groups.push(`    <path d="${cutPath}" fill="none" stroke="${CUT_COLOR}" stroke-width="0.1"/>`);
+    groups.push('  </g>');
+
+    x += box.width + spacing;
+    rowHeight = Math.max(rowHeight, box.height);
+    width = Math.max(width, x);
+  }
+
+  const height = round(y + rowHeight + spacing);
+  width = round(Math.max(width, spacing * 2));
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}mm" height="${height}mm" viewBox="0 0 ${width} ${height}">`,
+    ...groups,
+    '</svg>'
+  ].join('\n');
+}
+
+/**
+ * Total length of every cut in the geometry, before kerf compensation
+ */
+export function componentCutLength(geometry: ComponentGeometry): number {
+  return geometry.parts.reduce((sum, part) => {
+    const closed = [part.outline, ...part.holes].reduce((length, contour) => length + polylineLength(contour, true), 0);
+    const open = part.cuts.reduce((length, cut) => length + polylineLength(cut), 0);
+    return sum + (closed + open) * part.quantity;
+  }, 0);
+}
+
+// ----------------------------------------------------------------------------
+// Finger joint box
+// ----------------------------------------------------------------------------
+
+interface EdgeSegment {
+  from: number;
+  to: number;
+  inset: boolean;
+}
+
+/**
+ * Box of the given outside dimensions. Every finger edge uses an odd count so
+ * both ends of an edge match, and mating edges use opposite phases: front and
+ * back own the vertical corners and the bottom sits inside all four walls.
+ */
+function generateFingerJointBox(params: Record<string, any>): ComponentGeometry {
+  const width = Number(params.width);
+  const height = Number(params.height);
+  const depth = Number(params.depth);
+  const t = Number(params.thickness);
+  const fingerWidth = Number(params.fingerWidth);
+  const lidStyle = params.hasLid ? String(params.lidStyle || 'friction') : 'none';
+
+  if (Math.min(width, height, depth) <= 2 * t) {
+    throw new Error('Box dimensions must be more than twice the material thickness');
+  }
+
+  const fingers = (length: number) => fingerCount(length, fingerWidth);
+  const tabs = (length: number) => fingerProfile(length, fingers(length), false);
+  const slots = (length: number) => fingerProfile(length, fingers(length), true);
+  const flat = (length: number): EdgeSegment[] => [{ from: 0, to: length, inset: false }];
+
+  // A sliding lid enters over a front wall that is one thickness lower
+  const frontHeight = lidStyle === 'sliding' ? height - t : height;
+
+  const parts: ComponentPart[] = [
+    panelPart('Bottom', 1, width, depth, [slots(width), slots(depth), slots(width), slots(depth)], t),
+    panelPart('Front', 1, width, frontHeight, [
+      flat(width),
+      trimProfile(tabs(height), height - frontHeight, height),
+      tabs(width),
+      trimProfile(tabs(height), 0, frontHeight)
+    ], t),
+    panelPart('Back', 1, width, height, [flat(width), tabs(height), tabs(width), tabs(height)], t),
+    panelPart('Side', 2, depth, height, [flat(depth), slots(height), tabs(depth), slots(height)], t)
+  ];
+
+  const hardware: string[] = [];
+  const assemblyInstructions = [
+    'Dry-fit the front and back onto the bottom panel',
+    'Slide both sides down over the finger joints at the corners',
+    'Glue the joints and clamp square until dry'
+  ];
+
+  if (lidStyle === 'friction') {
+    const lipWidth = width - 2 * t - FIT_CLEARANCE;
+    const lipDepth = depth - 2 * t - FIT_CLEARANCE;
+    parts.push(rectanglePart('Lid', 1, width, depth), rectanglePart('Lid lip', 1, lipWidth, lipDepth));
+    assemblyInstructions.push('Glue the lip centred on the underside of the lid so it drops inside the walls');
+  } else if (lidStyle === 'hinged') {
+    parts.push(rectanglePart('Lid', 1, width, depth));
+    hardware.push('2 × small butt hinges with screws');
+    assemblyInstructions.push('Screw the hinges along the back edge of the lid and the top of the back panel');
+  } else if (lidStyle === 'sliding') {
+    parts.push(
+      rectanglePart('Lid', 1, width - 2 * t - FIT_CLEARANCE, depth - t - FIT_CLEARANCE),
+      rectanglePart('Lid ledge', 2, depth - 2 * t, t)
+    );
+    assemblyInstructions.push(
+      `Glue a ledge inside each side with its top edge ${round(t)}mm below the rim`,
+      'Slide the lid in over the lowered front wall'
+    );
+  }
+
+  return {
+    parts,
+    hardware,
+    assemblyInstructions,
+    notes: [
+      `Fingers: ${fingers(width)} across the width, ${fingers(depth)} across the depth, ${fingers(height)} up the height`,
+      `Inside dimensions: ${round(width - 2 * t)} × ${round(depth - 2 * t)} × ${round(height - t)} mm`
+    ]
+  };
+}
+
+function fingerCount(length: number, fingerWidth: number): number {
+  let count = Math.max(3, Math.round(length / Math.max(fingerWidth, 1e-6)));
+  if (count % 2 === 0) count += length / fingerWidth > count ? 1 : -1;
+  return Math.max(3, count);
+}
+
+function fingerProfile(length: number, count: number, startInset: boolean): EdgeSegment[] {
+  const size = length / count;
+  return Array.from({ length: count }, (_, i) => ({
+    from: i * size,
+    to: i === count - 1 ? length : (i + 1) * size,
+    inset: (i % 2 === 0) === startInset
+  }));
+}
+
+function trimProfile(profile: EdgeSegment[], from: number, to: number): EdgeSegment[] {
+  return profile
+    .filter(segment => segment.to > from + 1e-9 && segment.from < to - 1e-9)
+    .map(segment => ({ from: Math.max(segment.from, from) - from, to: Math.min(segment.to, to) - from, inset: segment.inset }));
+}
+
+/**
+ * Walk a w × h panel clockwise from its top-left corner (SVG coordinates). Each
+ * edge profile runs in the walking direction; inset segments step in by the
+ * material thickness and corners take the inset of both edges that meet there.
+ */
+function panelPart(name: string, quantity: number, w: number, h: number, edges: EdgeSegment[][], t: number): ComponentPart {
+  const frames = [
+    { start: { x: 0, y: 0 }, dir: { x: 1, y: 0 }, normal: { x: 0, y: 1 }, length: w },
+    { start: { x: w, y: 0 }, dir: { x: 0, y: 1 }, normal: { x: -1, y: 0 }, length: h },
+    { start: { x: w, y: h }, dir: { x: -1, y: 0 }, normal: { x: 0, y: -1 }, length: w },
+    { start: { x: 0, y: h }, dir: { x: 0, y: -1 }, normal: { x: 1, y: 0 }, length: h }
+  ];
+  const depthOf = (segment: EdgeSegment) => (segment.inset ? t : 0);
+  const points: Point[] = [];
+
+  frames.forEach((frame, e) => {
+    const profile = edges[e];
+    const previous = edges[(e + 3) % 4];
+    const next = edges[(e + 1) % 4];
+    const startAt = depthOf(previous[previous.length - 1]);
+    const endAt = frame.length - depthOf(next[0]);
+
+    for (const segment of profile) {
+      const offset = depthOf(segment);
+      const from = Math.max(segment.from, startAt);
+      const to = Math.min(segment.to, endAt);
+      if (to < from) continue;
+      points.push(
+        { x: frame.start.x + frame.dir.x * from + frame.normal.x * offset, y: frame.start.y + frame.dir.y * from + frame.normal.y * offset },
+        { x: frame.start.x + frame.dir.x * to + frame.normal.x * offset, y: frame.start.y + frame.dir.y * to + frame.normal.y * offset }
+      );
+    }
+  });
+
+  return { name, quantity, outline: cleanContour(points), holes: [], cuts: [], grooves: [] };
+}
+
+// ----------------------------------------------------------------------------
+// Living hinge
+// ----------------------------------------------------------------------------
+
+/**
+ * Hinge panel `width` wide (across the bend) and `length` long (along the
+ * bend axis). Slit columns alternate between two and one-plus-two-halves so
+ * every slit is bridged, and no slit reaches the panel edge.
+ */
+function generateLivingHinge(params: Record<string, any>, context: GeneratorContext): ComponentGeometry {
+  const length = Number(params.length);
+  const width = Number(params.width);
+  const cutWidth = Number(params.cutWidth);
+  const spacing = Number(params.spacing);
+  const pattern = String(params.pattern || 'straight');
+
+  const bridge = Math.max(2, spacing * 2);
+  const slitsPerColumn = Math.max(1, Math.round((length - bridge) / 20));
+  const slit = (length - (slitsPerColumn + 1) * bridge) / slitsPerColumn;
+  if (slit <= bridge) {
+    throw new Error('Hinge is too short for its cut spacing');
+  }
+
+  const columns = Math.max(1, Math.floor((width - 2 * spacing) / spacing) + 1);
+  const margin = (width - (columns - 1) * spacing) / 2;
+  const amplitude = pattern === 'straight' ? 0 : spacing * 0.25;
+  const cuts: Point[][] = [];
+  const holes: Point[][] = [];
+
+  for (let c = 0; c < columns; c++) {
+    const x = margin + c * spacing;
+    const offset = c % 2 === 0 ? 0 : (slit + bridge) / 2;
+    for (let s = -1; s <= slitsPerColumn; s++) {
+      const from = Math.max(bridge, bridge + offset + s * (slit + bridge));
+      const to = Math.min(length - bridge, bridge + offset + s * (slit + bridge) + slit);
+      if (to - from < bridge) continue;
+
+      const line = hingeSlit(x, from, to, amplitude, pattern, spacing);
+      // Straight slits wider than the beam are cut as narrow slots, everything else as single lines
+      if (pattern === 'straight' && cutWidth > context.kerf) {
+        holes.push([
+          { x: x - cutWidth / 2, y: from },
+          { x: x + cutWidth / 2, y: from },
+          { x: x + cutWidth / 2, y: to },
+          { x: x - cutWidth / 2, y: to }
+        ]);
+      } else {
+        cuts.push(line);
+      }
+    }
+  }
+
+  return {
+    parts: [{ name: 'Living hinge', quantity: 1, outline: rectangle(width, length), holes, cuts, grooves: [] }],
+    hardware: [],
+    assemblyInstructions: [
+      'Cut the slits before the outline so the panel stays flat while cutting',
+      'Flex the panel gently a few times before bending it into place'
+    ],
+    notes: [`${columns} slit columns, ${round(bridge)}mm bridges, ${round(slit)}mm slits`]
+  };
+}
+
+function hingeSlit(x: number, from: number, to: number, amplitude: number, pattern: string, spacing: number): Point[] {
+  if (amplitude === 0) return [{ x, y: from }, { x, y: to }];
+
+  const steps = Math.max(8, Math.ceil((to - from) / 0.5));
+  return Array.from({ length: steps + 1 }, (_, i) => {
+    const y = from + ((to - from) * i) / steps;
+    const u = i / steps;
+    const dx = pattern === 'wavy'
+      ? amplitude * Math.sin(((y - from) / (spacing * 4)) * Math.PI * 2)
+      : amplitude * 4 * u * (1 - u);
+    return { x: x + dx, y };
+  });
+}
+
+// ----------------------------------------------------------------------------
+// Involute gears
+// ----------------------------------------------------------------------------
+
+/**
+ * Pair of 20° involute spur gears on a shared module, plus a plate that
+ * holds both shafts at the exact centre distance
+ */
+function generateGearSet(params: Record<string, any>): ComponentGeometry {
+  const teeth1 = Math.round(Number(params.teeth1));
+  const teeth2 = Math.round(Number(params.teeth2));
+  const module = Number(params.module);
+  const shaftDiameter = Number(params.shaftDiameter);
+  const spokes = spokeCount(String(params.spokeStyle || 'solid'));
+
+  const centreDistance = (module * (teeth1 + teeth2)) / 2;
+  const margin = Math.max(5, shaftDiameter);
+  const plateWidth = centreDistance + shaftDiameter + 2 * margin;
+  const plateHeight = shaftDiameter + 2 * margin;
+  const shaftCentre = margin + shaftDiameter / 2;
+
+  const parts: ComponentPart[] = [
+    gearPart(`Gear ${teeth1}T`, teeth1, module, shaftDiameter, spokes),
+    gearPart(`Gear ${teeth2}T`, teeth2, module, shaftDiameter, spokes),
+    {
+      name: 'Mounting plate',
+      quantity: 2,
+      outline: rectangle(plateWidth, plateHeight),
+      holes: [
+        circle({ x: shaftCentre, y: plateHeight / 2 }, shaftDiameter / 2),
+        circle({ x: shaftCentre + centreDistance, y: plateHeight / 2 }, shaftDiameter / 2)
+      ],
+      cuts: [],
+      grooves: []
+    }
+  ];
+
+  const notes = [
+    `Centre distance: ${round(centreDistance)}mm`,
+    `Gear ratio: ${round(teeth2 / teeth1)}:1`,
+    `Outside diameters: ${round(module * (teeth1 + 2))}mm and ${round(module * (teeth2 + 2))}mm`
+  ];
+  if (Math.min(teeth1, teeth2) < 17) {
+    notes.push('Gears with fewer than 17 teeth are not undercut here and may bind; add centre-distance clearance if they do');
+  }
+
+  return {
+    parts,
+    hardware: [`2 × ${round(shaftDiameter)}mm shafts or bolts`, '4 × spacers to hold the plates apart'],
+    assemblyInstructions: [
+      'Fit both shafts through one mounting plate',
+      'Slide the gears onto the shafts so the teeth mesh',
+      'Close with the second plate and check the gears turn without binding'
+    ],
+    notes
+  };
+}
+
+function spokeCount(style: string): number {
+  const match = style.match(/^(\d+)-spoke$/);
+  return match ? Number(match[1]) : 0;
+}
+
+function gearPart(name: string, teeth: number, module: number, shaftDiameter: number, spokes: number): ComponentPart {
+  const pitchRadius = (module * teeth) / 2;
+  const baseRadius = pitchRadius * Math.cos(PRESSURE_ANGLE);
+  const tipRadius = pitchRadius + module;
+  const rootRadius = Math.max(pitchRadius - 1.25 * module, shaftDiameter / 2 + module);
+
+  // Half the tooth's angular thickness at radius r, measured from its centreline
+  const thicknessAtPitch = (Math.PI * module) / 2 - GEAR_BACKLASH;
+  const involuteHalfAngle = (r: number) =>
+    thicknessAtPitch / (2 * pitchRadius) + involute(PRESSURE_ANGLE) - involute(Math.acos(Math.min(1, baseRadius / r)));
+
+  // Below the base circle the flank follows the trochoid traced by the tip
+  // corner of the generating rack, which undercuts gears with few teeth
+  const dedendum = 1.25 * module;
+  const rackCorner = (Math.PI * module) / 4 + GEAR_BACKLASH / 2 - dedendum * Math.tan(PRESSURE_ANGLE);
+  const pitch = (Math.PI * 2) / teeth;
+  const trochoidCut = (r: number) => {
+    const reach = Math.sqrt(Math.max(0, r * r - (pitchRadius - dedendum) ** 2));
+    return Math.max(
+      ...[reach, -reach].map(along => Math.atan2(along, pitchRadius - dedendum) - (along - rackCorner) / pitchRadius)
+    );
+  };
+  const halfAngle = (r: number) => Math.min(involuteHalfAngle(r), pitch / 2 - trochoidCut(r));
+
+  // Stop the flank where the tooth comes to a point on low tooth counts
+  let flankTop = tipRadius;
+  while (involuteHalfAngle(flankTop) * flankTop < module * 0.05 && flankTop > baseRadius) flankTop -= module * 0.01;
+
+  const flank: { r: number; angle: number }[] = [];
+  for (let i = 0; i <= FLANK_STEPS; i++) {
+    const r = rootRadius + ((flankTop - rootRadius) * i) / FLANK_STEPS;
+    flank.push({ r, angle: Math.min(halfAngle(r), pitch / 2) });
+  }
+
+  const polar = (r: number, angle: number): Point => ({ x: tipRadius + r * Math.cos(angle), y: tipRadius + r * Math.sin(angle) });
+  const outline: Point[] = [];
+
+  for (let i = 0; i < teeth; i++) {
+    const centre = i * pitch;
+    flank.forEach(p => outline.push(polar(p.r, centre - p.angle)));
+    const tipHalf = flank[flank.length - 1].angle;
+    outline.push(...arcPoints(tipRadius, tipRadius, flankTop, centre - tipHalf, centre + tipHalf).slice(1, -1));
+    for (let k = flank.length - 1; k >= 0; k--) outline.push(polar(flank[k].r, centre + flank[k].angle));
+    const rootStart = centre + flank[0].angle;
+    const rootEnd = centre + pitch - flank[0].angle;
+    outline.push(...arcPoints(tipRadius, tipRadius, rootRadius, rootStart, rootEnd).slice(1, -1));
+  }
+
+  const centre = { x: tipRadius, y: tipRadius };
+  const holes = [circle(centre, shaftDiameter / 2)];
+  const hubRadius = shaftDiameter / 2 + Math.max(3, 1.5 * module);
+  const rimRadius = rootRadius - Math.max(3, 2.5 * module);
+  const spokeWidth = Math.min(Math.max(3, (rimRadius - hubRadius) * 0.3), hubRadius);
+
+  if (spokes > 0 && rimRadius - hubRadius >= 4) {
+    for (let s = 0; s < spokes; s++) {
+      const from = (s * Math.PI * 2) / spokes;
+      const to = ((s + 1) * Math.PI * 2) / spokes;
+      const innerGap = Math.asin(spokeWidth / 2 / hubRadius);
+      const outerGap = Math.asin(spokeWidth / 2 / rimRadius);
+      if (to - from <= 2 * innerGap) continue;
+      holes.push([
+        ...arcPoints(centre.x, centre.y, hubRadius, from + innerGap, to - innerGap),
+        ...arcPoints(centre.x, centre.y, rimRadius, to - outerGap, from + outerGap)
+      ]);
+    }
+  }
+
+  return { name, quantity: 1, outline: cleanContour(outline), holes, cuts: [], grooves: [] };
+}
+
+function involute(angle: number): number {
+  return Math.tan(angle) - angle;
+}
+
+// ----------------------------------------------------------------------------
+// Dovetail joint
+// ----------------------------------------------------------------------------
+
+/**
+ * In-plane dovetail between two boards cut from the same sheet. Tails flare
+ * towards the board end at the given angle; the pin board is their exact
+ * complement, with a half pin at each edge.
+ */
+function generateDovetailJoint(params: Record<string, any>): ComponentGeometry {
+  const boardWidth = Number(params.boardWidth);
+  const thickness = Number(params.thickness);
+  const style = String(params.style || 'through');
+  const pins = style === 'sliding' ? 0 : Math.round(Number(params.pinCount));
+  const flare = Math.tan((Number(params.angle) * Math.PI) / 180);
+
+  const jointDepth = style === 'half-blind' ? thickness * 0.75 : thickness;
+  const shift = jointDepth * flare;
+  const bodyLength = boardWidth;
+
+  // Tail extents across the board end, where the tails are widest
+  const tails: { from: number; to: number }[] = [];
+  if (style === 'sliding') {
+    const tailWidth = boardWidth / 3 + shift;
+    tails.push({ from: (boardWidth - tailWidth) / 2, to: (boardWidth + tailWidth) / 2 });
+  } else {
+    const pinWidth = Math.max(2, thickness * 0.4);
+    const halfPin = pinWidth / 2;
+    const tailWidth = (boardWidth - 2 * halfPin - pins * pinWidth) / (pins + 1);
+    for (let i = 0; i <= pins; i++) {
+      const from = halfPin + i * (tailWidth + pinWidth);
+      tails.push({ from, to: from + tailWidth });
+    }
+  }
+
+  const narrowest = Math.min(...tails.map(tail => tail.to - tail.from - 2 * shift));
+  if (!(narrowest > 1)) {
+    throw new Error('Board is too narrow for this many pins at this angle');
+  }
+
+  const tailEdge: Point[] = [];
+  for (const tail of tails) {
+    tailEdge.push(
+      { x: tail.from + shift, y: jointDepth },
+      { x: tail.from, y: 0 },
+      { x: tail.to, y: 0 },
+      { x: tail.to - shift, y: jointDepth }
+    );
+  }
+
+  const tailBoard = cleanContour([
+    { x: 0, y: jointDepth },
+    ...tailEdge,
+    { x: boardWidth, y: jointDepth },
+    { x: boardWidth, y: jointDepth + bodyLength },
+    { x: 0, y: jointDepth + bodyLength }
+  ]);
+  const pinBoard = cleanContour([
+    { x: 0, y: -bodyLength },
+    { x: boardWidth, y: -bodyLength },
+    { x: boardWidth, y: jointDepth },
+    ...tailEdge.slice().reverse(),
+    { x: 0, y: jointDepth }
+  ]);
+
+  return {
+    parts: [
+      { name: 'Tail board', quantity: 1, outline: tailBoard, holes: [], cuts: [], grooves: [] },
+      { name: 'Pin board', quantity: 1, outline: pinBoard, holes: [], cuts: [], grooves: [] }
+    ],
+    hardware: [],
+    assemblyInstructions: [
+      'Router bits leave a radius in inside corners: ease the tail corners with a file until the joint closes',
+      style === 'sliding' ? 'Slide the tail into the socket from one face' : 'Tap the tails into the pin board from one face',
+      'Glue once the dry fit closes fully'
+    ],
+    notes: [`Joint depth ${round(jointDepth)}mm, flare ${round(shift)}mm per side`]
+  };
+}
+
+// ----------------------------------------------------------------------------
+// Kerf bending
+// ----------------------------------------------------------------------------
+
+/**
+ * Kerf grooves across a panel. The count is chosen so the grooves close up
+ * exactly when the inside face shortens to the requested radius over the
+ * pattern length, leaving a web of roughly a quarter of the thickness.
+ */
+function generateKerfBend(params: Record<string, any>): ComponentGeometry {
+  const length = Number(params.length);
+  const radius = Number(params.bendRadius);
+  const thickness = Number(params.thickness);
+  const kerfWidth = Number(params.kerfWidth);
+  const width = Number(params.width ?? 100);
+  const pattern = String(params.pattern || 'straight');
+
+  const shortening = (thickness * length) / (radius + thickness);
+  const count = Math.max(2, Math.ceil(shortening / kerfWidth));
+  const pitch = length / count;
+  if (pitch <= kerfWidth * 1.5) {
+    throw new Error('Bend radius is too tight for this thickness and kerf width');
+  }
+
+  const web = Math.max(1, thickness / 4);
+  const flat = Math.max(10, 2 * thickness);
+  const bow = pattern === 'curved' ? Math.min(pitch * 0.4, width * 0.05) : 0;
+  const grooves: Point[][] = [];
+
+  for (let i = 0; i < count; i++) {
+    const x = flat + (i + 0.5) * pitch;
+    if (bow === 0) {
+      grooves.push([
+        { x: x - kerfWidth / 2, y: 0 },
+        { x: x + kerfWidth / 2, y: 0 },
+        { x: x + kerfWidth / 2, y: width },
+        { x: x - kerfWidth / 2, y: width }
+      ]);
+    } else {
+      const steps = Math.max(8, Math.ceil(width / 2));
+      const centreLine = Array.from({ length: steps + 1 }, (_, k) => {
+        const u = k / steps;
+        return { x: x + bow * 4 * u * (1 - u), y: width * u };
+      });
+      grooves.push([
+        ...centreLine.map(p => ({ x: p.x + kerfWidth / 2, y: p.y })),
+        ...centreLine.reverse().map(p => ({ x: p.x - kerfWidth / 2, y: p.y }))
+      ]);
+    }
+  }
+
+  const cutDepth = thickness - web;
+  return {
+    parts: [{ name: 'Kerf bend panel', quantity: 1, outline: rectangle(length + 2 * flat, width), holes: [], cuts: [], grooves }],
+    hardware: [],
+    assemblyInstructions: [
+      pattern === 'v-groove'
+        ? `Cut each groove with a V-bit ${round(cutDepth)}mm deep (${round((2 * Math.atan(kerfWidth / 2 / cutDepth) * 180) / Math.PI)}° included angle)`
+        : `Cut each groove ${round(cutDepth)}mm deep, leaving a ${round(web)}mm web`,
+      'Dampen the uncut face and bend slowly around a form',
+      'Fill the closed kerfs with glue to lock the curve'
+    ],
+    notes: [`${count} grooves at ${round(pitch)}mm pitch, bend angle ${round((length / (radius + thickness)) * (180 / Math.PI))}°`]
+  };
+}
+
+// ----------------------------------------------------------------------------
+// Cam lever
+// ----------------------------------------------------------------------------
+
+const CAM_RISE = (150 * Math.PI) / 180; // sweep over which the cam lifts by the clamp travel
+const CAM_DWELL = (30 * Math.PI) / 180; // over-centre detent after the rise
+const CAM_DETENT = 0.3; // mm the radius falls back inside the detent
+const HANDLE_ANGLE = (270 * Math.PI) / 180;
+
+/**
+ * Eccentric clamping cam with its handle. The radius rises smoothly by the
+ * clamp travel, then drops slightly into an over-centre detent so the lever
+ * stays locked under load.
+ */
+function generateCamLever(params: Record<string, any>): ComponentGeometry {
+  const leverLength = Number(params.leverLength);
+  const camRadius = Number(params.camRadius);
+  const shaftDiameter = Number(params.shaftDiameter);
+  const travel = Number(params.clampTravel);
+  const style = String(params.handleStyle || 'basic');
+
+  if (leverLength <= camRadius + travel + 10) {
+    throw new Error('Lever must extend at least 10mm beyond the cam');
+  }
+  if (camRadius - shaftDiameter / 2 < 3) {
+    throw new Error('Cam radius leaves too little material around the shaft');
+  }
+
+  const pivot = { x: 0, y: 0 };
+  const profile: Point[] = [];
+  const riseSteps = 60;
+  for (let i = 0; i <= riseSteps; i++) {
+    const u = i / riseSteps;
+    const r = camRadius + travel * (3 * u * u - 2 * u * u * u);
+    profile.push(polarPoint(pivot, r, u * CAM_RISE));
+  }
+  profile.push(...arcPoints(0, 0, camRadius + travel - CAM_DETENT, CAM_RISE, CAM_RISE + CAM_DWELL));
+
+  const folding = style === 'folding';
+  const reach = folding ? camRadius + 15 : leverLength;
+  const rootWidth = camRadius * 1.2;
+  const tipWidth = style === 'ergonomic' ? camRadius * 0.6 : folding ? rootWidth * 0.8 : rootWidth;
+  const rootGap = Math.asin(rootWidth / 2 / camRadius);
+  const along = { x: Math.cos(HANDLE_ANGLE), y: Math.sin(HANDLE_ANGLE) };
+  const across = { x: -along.y, y: along.x };
+  const at = (distanceAlong: number, side: number): Point => ({
+    x: along.x * distanceAlong + across.x * side,
+    y: along.y * distanceAlong + across.y * side
+  });
+  const rootDistance = camRadius * Math.cos(rootGap);
+  const tip = at(reach, 0);
+
+  const outline = [
+    ...profile,
+    ...arcPoints(0, 0, camRadius, CAM_RISE + CAM_DWELL, HANDLE_ANGLE - rootGap),
+    at(rootDistance, -rootWidth / 2),
+    ...arcPoints(tip.x, tip.y, tipWidth / 2, HANDLE_ANGLE - Math.PI / 2, HANDLE_ANGLE + Math.PI / 2),
+    at(rootDistance, rootWidth / 2),
+    ...arcPoints(0, 0, camRadius, HANDLE_ANGLE + rootGap, Math.PI * 2).slice(0, -1)
+  ];
+
+  const holes = [circle(pivot, shaftDiameter / 2)];
+  const parts: ComponentPart[] = [];
+  const hardware = [`1 × ${round(shaftDiameter)}mm pivot pin or bolt`];
+
+  if (folding) {
+    const pinDiameter = Math.min(shaftDiameter, tipWidth / 2);
+    holes.push(circle(tip, pinDiameter / 2));
+    const armWidth = tipWidth;
+    const arm = leverLength - reach + armWidth;
+    parts.push({
+      name: 'Folding handle',
+      quantity: 1,
+      outline: slotOutline(arm, armWidth),
+      holes: [circle({ x: armWidth / 2, y: armWidth / 2 }, pinDiameter / 2)],
+      cuts: [],
+      grooves: []
+    });
+    hardware.push(`1 × ${round(pinDiameter)}mm hinge pin for the handle`);
+  }
+
+  parts.unshift({ name: 'Cam lever', quantity: 2, outline: cleanContour(outline), holes, cuts: [], grooves: [] });
+
+  return {
+    parts,
+    hardware,
+    assemblyInstructions: [
+      'Glue the two cam plates face to face with the shaft holes aligned',
+      'Mount the cam on the pivot so the rising edge meets the workpiece first',
+      'Rotate the handle until it drops past the high point into the detent'
+    ],
+    notes: [`Clamping travel ${round(travel)}mm over ${Math.round((CAM_RISE * 180) / Math.PI)}° of handle rotation`]
+  };
+}
+
+function slotOutline(length: number, width: number): Point[] {
+  const r = width / 2;
+  return [
+    ...arcPoints(r, r, r, Math.PI / 2, Math.PI * 1.5),
+    ...arcPoints(length - r, r, r, -Math.PI / 2, Math.PI / 2)
+  ];
+}
+
+// ----------------------------------------------------------------------------
+// Shared helpers
+// ----------------------------------------------------------------------------
+
+function rectanglePart(name: string, quantity: number, width: number, height: number): ComponentPart {
+  return { name, quantity, outline: rectangle(width, height), holes: [], cuts: [], grooves: [] };
+}
+
+function rectangle(width: number, height: number): Point[] {
+  return [{ x: 0, y: 0 }, { x: width, y: 0 }, { x: width, y: height }, { x: 0, y: height }];
+}
+
+function circle(centre: Point, radius: number): Point[] {
+  return arcPoints(centre.x, centre.y, radius, 0, Math.PI * 2).slice(0, -1);
+}
+
+function polarPoint(centre: Point, radius: number, angle: number): Point {
+  return { x: centre.x + radius * Math.cos(angle), y: centre.y + radius * Math.sin(angle) };
+}
+
+/**
+ * Points along an arc from one angle to another (radians, either direction),
+ * including both ends
+ */
+function arcPoints(cx: number, cy: number, radius: number, from: number, to: number): Point[] {
+  const maxStep = radius > CURVE_TOLERANCE ? 2 * Math.acos(1 - CURVE_TOLERANCE / radius) : Math.PI / 8;
+  const steps = Math.max(2, Math.ceil(Math.abs(to - from) / Math.min(maxStep, Math.PI / 8)));
+  return Array.from({ length: steps + 1 }, (_, i) => polarPoint({ x: cx, y: cy }, radius, from + ((to - from) * i) / steps));
+}
+
+function cleanContour(points: Point[]): Point[] {
+  const unique = points.filter((p, i) => {
+    const previous = points[(i + points.length - 1) % points.length];
+    return Math.abs(p.x - previous.x) > 1e-9 || Math.abs(p.y - previous.y) > 1e-9;
+  });
+  return simplifyCollinear(unique, true, 1e-6);
+}
+
+/**
+ * Grow the outline and shrink the holes by half the kerf. Contours the offset
+ * would collapse are kept as drawn.
+ */
+function compensatePart(part: ComponentPart, kerf: number): ComponentPart {
+  if (kerf <= 0) return part;
+  const offset = (contour: Point[], delta: number) => offsetPolygon(contour, delta, { joinType: 'miter' })[0] || contour;
+  return {
+    ...part,
+    outline: offset(part.outline, kerf / 2),
+    holes: part.holes.map(hole => offset(hole, -kerf / 2))
+  };
+}
+
+function slugify(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
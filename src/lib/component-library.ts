@@ -1,6 +1,15 @@
 // Standard Component Library for makerspace parts
-import type { Env, UserProject } from './database';
-import { trackAICall, aiRateLimiter } from './ai-usage-tracker';
+import { COMPONENT_GENERATORS, componentCutLength, renderComponentSVG, type ComponentGenerator } from './component-generators';
+import {
+  compileTemplateGenerator,
+  resolveBuiltinParameters,
+  validateComponentPlugin,
+  type ComponentPlugin,
+  type PluginGeneratorDefinition
+} from './component-plugins';
+import { formatDuration } from './gcode-simulator';
+import { KERF_PROPERTIES } from './material-database';
+import { getBoundingBox } from './svg-geometry';
 
 export interface ComponentSpec {
   id: string;
@@ -8,7 +17,7 @@ export interface ComponentSpec {
   category: 'joints' | 'hardware' | 'enclosures' | 'mechanisms' | 'decorative';
   description: string;
   parameters: ComponentParameter[];
-  defaultValues: Record<string, number | string>;
+  defaultValues: Record<string, number | string | boolean>;
   materials: string[];
   machines: ('glowforge' | 'shaper' | 'cnc')[];
   tags: string[];
@@ -39,15 +48,54 @@ export interface GeneratedComponent {
   difficulty: number;
 }
 
+// Kerf applied to generated SVG; Shaper and CNC users offset on the tool or in CAM instead
+const DEFAULT_KERF: Record<'glowforge' | 'shaper' | 'cnc', number> = {
+  glowforge: KERF_PROPERTIES['glowforge-basic'].width,
+  shaper: 0,
+  cnc: 0
+};
+const DEFAULT_CUT_SPEED = 1000; // mm/min, for time estimates
+const DIFFICULTY_BY_TAG: [string, number][] = [['beginner', 3], ['intermediate', 5], ['advanced', 7]];
+
 export class StandardComponentLibrary {
-  private ai: any;
+  private plugins: ComponentPlugin[];
+
+  /**
+   * Plugins are listed after the built-ins. When two plugins share an id the
+   * first one wins, so callers should pass the user's own plugins first.
+   */
+  constructor(plugins: ComponentPlugin[] = []) {
+    const builtinIds = new Set(this.getBuiltinSpecs().map(spec => spec.id));
+    this.plugins = plugins.filter((plugin, index) =>
+      !builtinIds.has(plugin.spec.id) && plugins.findIndex(other => other.spec.id === plugin.spec.id) === index
+    );
+  }
 
-  constructor(ai: any) {
-    this.ai = ai;
+  // Built-in and plugin components
+  getComponentSpecs(): ComponentSpec[] {
+    return [...this.getBuiltinSpecs(), ...this.plugins.map(plugin => plugin.spec)];
+  }
+
+  listComponents(): (ComponentSpec & { source: 'builtin' | 'user' | 'tenant' })[] {
+    return [
+      ...this.getBuiltinSpecs().map(spec => ({ ...spec, source: 'builtin' as const })),
+      ...this.plugins.map(plugin => ({ ...plugin.spec, source: plugin.scope }))
+    ];
+  }
+
+  /**
+   * Validate a plugin definition from user input and generate it once with
+   * its defaults, so definitions that cannot produce geometry are never stored
+   */
+  async preparePlugin(spec: any, generator: any): Promise<{ spec: ComponentSpec; generator: PluginGeneratorDefinition }> {
+    const definition = validateComponentPlugin(spec, generator, this.getBuiltinSpecs());
+    const trial = new StandardComponentLibrary([{ id: '', ownerId: '', tenantId: null, scope: 'user', ...definition }]);
+    await trial.generateComponent(definition.spec.id, definition.spec.defaultValues, definition.spec.machines[0]);
+    return definition;
   }
 
   // Standard component definitions
-  getComponentSpecs(): ComponentSpec[] {
+  getBuiltinSpecs(): ComponentSpec[] {
     return [
       {
         id: 'finger-joint-box',
@@ -129,9 +177,10 @@ export class StandardComponentLibrary {
           { name: 'bendRadius', type: 'number', description: 'Desired bend radius', unit: 'mm', min: 10, max: 500, step: 1, default: 50, required: true },
           { name: 'thickness', type: 'number', description: 'Material thickness', unit: 'mm', min: 3, max: 25, step: 0.5, default: 6, required: true },
           { name: 'kerfWidth', type: 'number', description: 'Kerf cut width', unit: 'mm', min: 1, max: 5, step: 0.1, default: 2, required: true },
+          { name: 'width', type: 'number', description: 'Panel width across the bend', unit: 'mm', min: 20, max: 500, step: 1, default: 100, required: false },
           { name: 'pattern', type: 'select', description: 'Kerf pattern', options: ['straight', 'v-groove', 'curved'], default: 'straight', required: false }
         ],
-        defaultValues: { length: 200, bendRadius: 50, thickness: 6, kerfWidth: 2, pattern: 'straight' },
+        defaultValues: { length: 200, bendRadius: 50, thickness: 6, kerfWidth: 2, width: 100, pattern: 'straight' },
         materials: ['plywood', 'mdf', 'solid wood'],
         machines: ['glowforge', 'cnc'],
         tags: ['bending', 'curved', 'flexible', 'intermediate']
@@ -159,110 +208,63 @@ export class StandardComponentLibrary {
   async generateComponent(
     componentId: string, 
     parameters: Record<string, any>,
-    machine: 'glowforge' | 'shaper' | 'cnc' = 'glowforge'
+    machine: 'glowforge' | 'shaper' | 'cnc' = 'glowforge',
+    options: { kerf?: number } = {}
   ): Promise<GeneratedComponent> {
-    if (!aiRateLimiter.canMakeCall()) {
-      const waitTime = aiRateLimiter.getTimeUntilNextCall();
-      throw new Error(`Rate limit exceeded. Wait ${Math.ceil(waitTime / 1000)} seconds.`);
-    }
-
     const spec = this.getComponentSpecs().find(s => s.id === componentId);
-    if (!spec) {
+    const generator = spec && this.resolveGenerator(spec.id);
+    if (!spec || !generator) {
       throw new Error(`Component ${componentId} not found`);
     }
 
     // Validate parameters
     this.validateParameters(spec, parameters);
 
-    const model = '@cf/openai/gpt-oss-120b'; // Use complex model for precision components
-    
-    return trackAICall(model, 'Standard Component Generation', async () => {
-      aiRateLimiter.recordCall();
-      
-      const prompt = this.createComponentPrompt(spec, parameters, machine);
-
-      const response = await this.ai.run(model, {
-        reasoning: { effort: \"high\" },
-        messages: [
-          {
-            role: \"system\",
-            content: `You are a precision mechanical design expert specializing in ${machine} fabrication. Generate production-ready standard components with complete documentation.`
-          },
-          {
-            role: \"user\",
-            content: prompt
-          }
-        ],
-        max_tokens: 4000,
-        temperature: 0.2
-      });
-
-      try {
-        const result = JSON.parse(response.response);
-        return this.processComponentResult(result, spec, parameters, machine);
-      } catch {
-        // Fallback if JSON parsing fails
-        return this.createFallbackComponent(spec, parameters, machine);
-      }
-    });
+    const values: Record<string, any> = {
+      ...Object.fromEntries(spec.parameters.map(p => [p.name, p.default])),
+      ...parameters
+    };
+    const kerf = options.kerf ?? DEFAULT_KERF[machine];
+    const geometry = generator(values, { kerf });
+    const estimatedTime = formatDuration((componentCutLength(geometry) / DEFAULT_CUT_SPEED) * 60);
+    const difficulty = DIFFICULTY_BY_TAG.find(([tag]) => spec.tags.includes(tag))?.[1] ?? 5;
+
+    return {
+      svg: renderComponentSVG(geometry, { kerf }),
+      script: this.createScript(spec, values, machine, kerf),
+      documentation: this.createDocumentation(spec, values, { difficulty, estimatedTime, notes: geometry.notes }),
+      materialSettings: this.getMaterialSettings(spec, values, machine),
+      assemblyInstructions: [...geometry.assemblyInstructions, 'Test settings on scrap material first'],
+      partsList: [
+        ...geometry.parts.map(part => {
+          const box = getBoundingBox(part.outline);
+          return `${part.quantity} × ${part.name} (${formatMillimetres(box.width)} × ${formatMillimetres(box.height)} mm)`;
+        }),
+        ...geometry.hardware
+      ],
+      estimatedTime,
+      difficulty
+    };
   }
 
-  private createComponentPrompt(spec: ComponentSpec, parameters: Record<string, any>, machine: string): string {
-    return `Generate a precision ${spec.name} component for ${machine}:
-
-Component Specifications:
-- Type: ${spec.name} (${spec.category})
-- Description: ${spec.description}
-- Target Machine: ${machine}
-
-Parameters:
-${spec.parameters.map(p => `- ${p.name}: ${parameters[p.name] || p.default} ${p.unit || ''} - ${p.description}`).join('\\n')}
-
-Generate complete fabrication package:
-
-1. **SVG Design**: Production-ready vector file with:
-   ${machine === 'glowforge' 
-     ? '- Red (#FF0000) cut lines (0.025mm stroke)\n   - Blue (#0000FF) score lines (0.25mm stroke)\n   - Black (#000000) engrave lines\n   - Proper kerf compensation'
-     : '- Single-stroke vectors for CNC routing\n   - Tool radius compensation\n   - Optimized toolpath ordering\n   - Tool change markers'
-   }
-
-2. **Python Script**: Parametric generator using svgwrite that:
-   - Accepts all parameters as variables
-   - Generates mathematically precise geometry
-   - Includes error checking and validation
-   - Has clear documentation and examples
-
-3. **Assembly Instructions**: Step-by-step guide with:
-   - Required tools and materials
-   - Safety precautions
-   - Assembly sequence with diagrams
-   - Common issues and troubleshooting
-   - Quality check points
-
-4. **Parts List**: Complete BOM including:
-   - Cut pieces with dimensions
-   - Hardware requirements (screws, pins, etc.)
-   - Material specifications
-   - Finishing requirements
-
-5. **Manufacturing Notes**: 
-   - Material-specific settings
-   - Test cut recommendations  
-   - Tolerance specifications
-   - Quality control checkpoints
-
-Return as JSON:
-{
-  "svg": "complete SVG code",
-  "script": "complete Python script",
-  "assemblyInstructions": ["step 1", "step 2", ...],
-  "partsList": ["part 1: description", "part 2: description", ...],
-  "manufacturingNotes": ["note 1", "note 2", ...],
-  "estimatedTime": "fabrication time estimate",
-  "difficulty": 1-10,
-  "tolerances": "critical dimension tolerances",
-  "testingProcedure": ["test 1", "test 2", ...]
-}`;
+  private resolveGenerator(componentId: string): ComponentGenerator | null {
+    const plugin = this.plugins.find(p => p.spec.id === componentId);
+    if (!plugin) return COMPONENT_GENERATORS[componentId] || null;
+
+    const definition = plugin.generator;
+    if (definition.type === 'template') return compileTemplateGenerator(definition);
+
+    // Wrapped built-ins see the derived values, checked against their own limits
+    const builtin = this.getBuiltinSpecs().find(spec => spec.id === definition.component);
+    if (!builtin) return null;
+    return (values, context) => {
+      const mapped = {
+        ...Object.fromEntries(builtin.parameters.map(p => [p.name, p.default])),
+        ...resolveBuiltinParameters(definition, values)
+      };
+      this.validateParameters(builtin, mapped);
+      return COMPONENT_GENERATORS[builtin.id](mapped, context);
+    };
   }
 
   private validateParameters(spec: ComponentSpec, parameters: Record<string, any>): void {
@@ -274,6 +276,9 @@ Return as JSON:
       }
 
       if (value !== undefined && param.type === 'number') {
+        if (typeof value !== 'number' || !Number.isFinite(value)) {
+          throw new Error(`Parameter ${param.name} must be a number`);
+        }
         if (param.min !== undefined && value < param.min) {
           throw new Error(`Parameter ${param.name} (${value}) is below minimum (${param.min})`);
         }
@@ -282,6 +287,10 @@ Return as JSON:
         }
       }
 
+      if (value !== undefined && param.type === 'boolean' && typeof value !== 'boolean') {
+        throw new Error(`Parameter ${param.name} must be true or false`);
+      }
+
       if (value !== undefined && param.type === 'select' && param.options) {
         if (!param.options.includes(value)) {
           throw new Error(`Parameter ${param.name} value "${value}" not in allowed options: ${param.options.join(', ')}`);
@@ -290,89 +299,9 @@ Return as JSON:
     }
   }
 
-  private processComponentResult(result: any, spec: ComponentSpec, parameters: Record<string, any>, machine: string): GeneratedComponent {
-    return {
-      svg: result.svg || this.createFallbackSVG(spec, parameters),
-      script: result.script || this.createFallbackScript(spec),
-      documentation: this.createDocumentation(spec, parameters, result),
-      materialSettings: this.getMaterialSettings(spec, parameters, machine),
-      assemblyInstructions: result.assemblyInstructions || ['Assembly instructions not generated'],
-      partsList: result.partsList || ['Parts list not generated'],
-      estimatedTime: result.estimatedTime || '30-60 minutes',
-      difficulty: result.difficulty || 5
-    };
-  }
-
-  private createFallbackComponent(spec: ComponentSpec, parameters: Record<string, any>, machine: string): GeneratedComponent {
-    return {
-      svg: this.createFallbackSVG(spec, parameters),
-      script: this.createFallbackScript(spec),
-      documentation: this.createDocumentation(spec, parameters, {}),
-      materialSettings: this.getMaterialSettings(spec, parameters, machine),
-      assemblyInstructions: [
-        'Fallback component generated',
-        'Review design before fabrication',
-        'Test with scrap material first'
-      ],
-      partsList: ['Main component', 'Hardware as needed'],
-      estimatedTime: '30-60 minutes',
-      difficulty: 5
-    };
-  }
-
-  private createFallbackSVG(spec: ComponentSpec, parameters: Record<string, any>): string {
-    const width = parameters.width || parameters.length || 100;
-    const height = parameters.height || parameters.width || 80;
-    
-    return `<svg width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" xmlns="http://www.w3.org/2000/svg">
-  <!-- ${spec.name} - Generated Component -->
-  <rect x="5" y="5" width="${width-10}" height="${height-10}" fill="none" stroke="#FF0000" stroke-width="0.025"/>
-  <text x="10" y="20" font-family="Arial" font-size="8" fill="#000">${spec.name}</text>
-  <text x="10" y="35" font-family="Arial" font-size="6" fill="#666">Auto-generated component</text>
-</svg>`;
-  }
-
-  private createFallbackScript(spec: ComponentSpec): string {
-    return `#!/usr/bin/env python3
-"""
-${spec.name} Generator
-Category: ${spec.category}
-${spec.description}
-"""
-
-import svgwrite
-import math
-
-def generate_${spec.id.replace('-', '_')}(**params):
-    \"\"\"Generate ${spec.name} with given parameters\"\"\"
-    
-    # Default parameters
-    defaults = {
-${spec.parameters.map(p => `        '${p.name}': ${JSON.stringify(p.default)}`).join(',\\n')}
-    }
-    
-    # Merge with provided parameters
-    p = {**defaults, **params}
-    
-    # Create SVG
-    dwg = svgwrite.Drawing(size=(f"{p['width']}mm", f"{p['height']}mm"))
-    
-    # Add your component generation logic here
-    dwg.add(dwg.rect(
-        insert=(5, 5),
-        size=(p['width']-10, p['height']-10),
-        fill='none',
-        stroke='red',
-        stroke_width='0.025mm'
-    ))
-    
-    return dwg
-
-if __name__ == "__main__":
-    # Example usage
-    component = generate_${spec.id.replace('-', '_')}()
-    component.saveas('${spec.id}.svg')
-    print("Generated ${spec.name}")
+  private createScript(spec: ComponentSpec, values: Record<string, any>, machine: string, kerf: number): string {
+    return `// ${spec.name} - the same call always produces the same geometry
+standardComponentLibrary.generateComponent('${spec.id}', ${JSON.stringify(values, null, 2)}, '${machine}', { kerf: ${kerf} });
 `;
   }
 
@@ -383,11 +312,14 @@ if __name__ == "__main__":
 ${spec.description}
 
 **Category**: ${spec.category}
-**Complexity**: ${result.difficulty || 5}/10
-**Estimated Time**: ${result.estimatedTime || '30-60 minutes'}
+**Complexity**: ${result.difficulty}/10
+**Estimated Cut Time**: ${result.estimatedTime}
 
 ## Parameters Used
-${spec.parameters.map(p => `- **${p.name}**: ${parameters[p.name] || p.default} ${p.unit || ''} - ${p.description}`).join('\\n')}
+${spec.parameters.map(p => `- **${p.name}**: ${parameters[p.name]} ${p.unit || ''} - ${p.description}`).join('\n')}
+
+## Key Dimensions
+${result.notes.map((note: string) => `- ${note}`).join('\n')}
 
 ## Materials
 Compatible with: ${spec.materials.join(', ')}
@@ -405,13 +337,10 @@ ${spec.machines.join(', ')}
 - Verify all dimensions before final cut
 - Check joint fit with test pieces
 - Inspect cut quality and adjust settings if needed
-
-Generated on: ${new Date().toISOString()}
 `;
   }
 
   private getMaterialSettings(spec: ComponentSpec, parameters: Record<string, any>, machine: string): any {
-    // Simplified material settings - could be enhanced with AI generation
     return {
       machine,
       recommended: spec.materials[0] || 'plywood',
@@ -421,4 +350,8 @@ Generated on: ${new Date().toISOString()}
   }
 }
 
-export const standardComponentLibrary = new StandardComponentLibrary(null);
+export const standardComponentLibrary = new StandardComponentLibrary();
+
+function formatMillimetres(value: number): string {
+  return String(Math.round(value * 10) / 10);
+}
@@ -0,0 +1,644 @@
+// User-contributed parametric components
+// Declarative plugin definitions stored in D1, validated and compiled into component generators
+
+import type { ComponentPluginRecord, DatabaseService } from './database';
+import type { ComponentParameter, ComponentSpec } from './component-library';
+import type { ComponentGenerator, ComponentPart } from './component-generators';
+import type { Point } from './svg-geometry';
+
+// A number, or an arithmetic expression over the component's parameters
+export type PluginExpression = number | string;
+
+interface PluginShapeBase {
+  repeat?: { count: PluginExpression; as: string }; // draws the shape count times with `as` bound to 0..count-1
+  when?: PluginExpression; // skipped when this evaluates to 0
+}
+
+export type PluginShape = PluginShapeBase & (
+  | { type: 'rect'; x?: PluginExpression; y?: PluginExpression; width: PluginExpression; height: PluginExpression }
+  | { type: 'circle'; cx: PluginExpression; cy: PluginExpression; r: PluginExpression }
+  | { type: 'polygon' | 'polyline'; points: [PluginExpression, PluginExpression][] }
+);
+
+export interface PluginPartDefinition {
+  name: string;
+  quantity?: PluginExpression;
+  outline: PluginShape;
+  holes?: PluginShape[];
+  cuts?: PluginShape[]; // open polylines
+  grooves?: PluginShape[];
+}
+
+export type PluginGeneratorDefinition =
+  | {
+      type: 'template';
+      parts: PluginPartDefinition[];
+      hardware?: string[];
+      assemblyInstructions?: string[];
+    }
+  | {
+      // Reuse a built-in generator with parameters derived from the plugin's own
+      type: 'builtin';
+      component: string;
+      parameters: Record<string, PluginExpression | boolean>;
+    };
+
+export interface ComponentPlugin {
+  id: string;
+  ownerId: string;
+  tenantId: string | null;
+  scope: 'user' | 'tenant';
+  spec: ComponentSpec;
+  generator: PluginGeneratorDefinition;
+}
+
+const ID_PATTERN = /^[a-z0-9][a-z0-9-]{1,62}$/;
+const NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]{0,39}$/;
+const CATEGORIES: ComponentSpec['category'][] = ['joints', 'hardware', 'enclosures', 'mechanisms', 'decorative'];
+const MACHINES: ComponentSpec['machines'] = ['glowforge', 'shaper', 'cnc'];
+const MAX_PARAMETERS = 30;
+const MAX_PARTS = 50;
+const MAX_SHAPES = 5000; // per generated component, after repeats
+const MAX_POINTS = 500; // per polygon or polyline
+const MAX_EXPRESSION_LENGTH = 500;
+const MAX_CACHED_EXPRESSIONS = 2000;
+const CIRCLE_TOLERANCE = 0.01; // mm
+
+const FUNCTIONS: Record<string, (...args: number[]) => number> = {
+  abs: Math.abs,
+  min: Math.min,
+  max: Math.max,
+  floor: Math.floor,
+  ceil: Math.ceil,
+  round: Math.round,
+  sqrt: Math.sqrt,
+  sin: Math.sin,
+  cos: Math.cos,
+  tan: Math.tan,
+  atan2: Math.atan2,
+  rad: (degrees: number) => (degrees * Math.PI) / 180
+};
+const CONSTANTS: Record<string, number> = { PI: Math.PI, true: 1, false: 0 };
+
+/**
+ * Check a plugin definition from user input and return it in canonical form.
+ * Throws with a message suitable for the API response when anything is off.
+ */
+export function validateComponentPlugin(
+  spec: any,
+  generator: any,
+  builtins: ComponentSpec[]
+): { spec: ComponentSpec; generator: PluginGeneratorDefinition } {
+  if (!spec || typeof spec !== 'object') throw new Error('Plugin spec is required');
+  if (!generator || typeof generator !== 'object') throw new Error('Plugin generator is required');
+
+  const id = String(spec.id || '');
+  if (!ID_PATTERN.test(id)) {
+    throw new Error('Plugin id must be 2-63 lowercase letters, digits or hyphens');
+  }
+  if (builtins.some(builtin => builtin.id === id)) {
+    throw new Error(`Plugin id "${id}" is reserved by a built-in component`);
+  }
+  if (!CATEGORIES.includes(spec.category)) {
+    throw new Error(`Plugin category must be one of: ${CATEGORIES.join(', ')}`);
+  }
+  if (!Array.isArray(spec.parameters) || spec.parameters.length > MAX_PARAMETERS) {
+    throw new Error(`Plugin must declare up to ${MAX_PARAMETERS} parameters`);
+  }
+
+  const parameters = spec.parameters.map(validateParameterDefinition);
+  const names = new Set<string>();
+  for (const parameter of parameters) {
+    if (names.has(parameter.name)) throw new Error(`Parameter ${parameter.name} is declared twice`);
+    names.add(parameter.name);
+  }
+
+  const canonical: ComponentSpec = {
+    id,
+    name: requireText(spec.name, 'Plugin name', 100),
+    category: spec.category,
+    description: optionalText(spec.description, 500),
+    parameters,
+    defaultValues: Object.fromEntries(parameters.map(parameter => [parameter.name, parameter.default])),
+    materials: stringList(spec.materials, 'materials'),
+    machines: Array.isArray(spec.machines) && spec.machines.length > 0
+      ? spec.machines.map((machine: any) => {
+          if (!MACHINES.includes(machine)) throw new Error(`Unknown machine "${machine}"`);
+          return machine;
+        })
+      : ['glowforge'],
+    tags: stringList(spec.tags, 'tags')
+  };
+
+  return { spec: canonical, generator: validateGeneratorDefinition(generator, names, builtins) };
+}
+
+/**
+ * Turn a stored row back into a plugin, or null when its JSON is unreadable
+ */
+export function parseComponentPlugin(record: ComponentPluginRecord): ComponentPlugin | null {
+  try {
+    return {
+      id: record.id,
+      ownerId: record.user_id,
+      tenantId: record.tenant_id || null,
+      scope: record.tenant_id ? 'tenant' : 'user',
+      spec: JSON.parse(record.spec),
+      generator: JSON.parse(record.generator)
+    };
+  } catch (error) {
+    console.error('Component plugin parse error:', error);
+    return null;
+  }
+}
+
+/**
+ * Plugins visible to a user: their own first, so they shadow tenant plugins
+ * that reuse the same component id
+ */
+export async function loadComponentPlugins(
+  database: DatabaseService,
+  userId: string,
+  tenantId?: string | null
+): Promise<ComponentPlugin[]> {
+  const records = await database.getComponentPlugins(userId, tenantId);
+  return records
+    .map(parseComponentPlugin)
+    .filter((plugin): plugin is ComponentPlugin => plugin !== null)
+    .sort((a, b) => Number(b.ownerId === userId) - Number(a.ownerId === userId));
+}
+
+/**
+ * Build a generator from a template definition. Expressions are parsed once
+ * and evaluated against the parameters for every generation.
+ */
+export function compileTemplateGenerator(definition: Extract<PluginGeneratorDefinition, { type: 'template' }>): ComponentGenerator {
+  return params => {
+    const scope = toScope(params);
+    const budget = { shapes: 0 };
+
+    const parts: ComponentPart[] = definition.parts.flatMap(part => {
+      const quantity = Math.round(evaluate(part.quantity ?? 1, scope));
+      if (quantity < 1) return [];
+
+      const outlines = drawShape(part.outline, scope, budget);
+      if (outlines.length !== 1 || outlines[0].length < 3) {
+        throw new Error(`Part "${part.name}" must have exactly one closed outline`);
+      }
+
+      return [{
+        name: part.name,
+        quantity,
+        outline: outlines[0],
+        holes: (part.holes || []).flatMap(shape => drawShape(shape, scope, budget)),
+        cuts: (part.cuts || []).flatMap(shape => drawShape(shape, scope, budget)),
+        grooves: (part.grooves || []).flatMap(shape => drawShape(shape, scope, budget))
+      }];
+    });
+
+    if (parts.length === 0) {
+      throw new Error('Component produced no parts');
+    }
+
+    return {
+      parts,
+      hardware: definition.hardware || [],
+      assemblyInstructions: definition.assemblyInstructions || [],
+      notes: []
+    };
+  };
+}
+
+/**
+ * Values for the built-in generator a plugin wraps, computed from the
+ * plugin's own parameters
+ */
+export function resolveBuiltinParameters(
+  definition: Extract<PluginGeneratorDefinition, { type: 'builtin' }>,
+  params: Record<string, any>
+): Record<string, number | string | boolean> {
+  const scope = toScope(params);
+  return Object.fromEntries(
+    Object.entries(definition.parameters).map(([name, value]) => [
+      name,
+      typeof value === 'string' ? evaluateValue(parseExpression(value), scope) : value
+    ])
+  );
+}
+
+// ----------------------------------------------------------------------------
+// Definition validation
+// ----------------------------------------------------------------------------
+
+function validateParameterDefinition(raw: any): ComponentParameter {
+  if (!raw || typeof raw !== 'object') throw new Error('Parameters must be objects');
+
+  const name = String(raw.name || '');
+  if (!NAME_PATTERN.test(name) || name in FUNCTIONS || name in CONSTANTS) {
+    throw new Error(`Parameter name "${name}" must be an identifier that is not a built-in function or constant`);
+  }
+
+  const base = {
+    name,
+    description: optionalText(raw.description, 200),
+    unit: raw.unit ? requireText(raw.unit, `Unit of ${name}`, 20) : undefined,
+    required: raw.required === true
+  };
+
+  if (raw.type === 'number') {
+    const min = optionalNumber(raw.min, `${name}.min`);
+    const max = optionalNumber(raw.max, `${name}.max`);
+    const step = optionalNumber(raw.step, `${name}.step`);
+    const value = Number(raw.default);
+    if (!Number.isFinite(value)) throw new Error(`Parameter ${name} needs a numeric default`);
+    if (min !== undefined && max !== undefined && min > max) throw new Error(`Parameter ${name} has min above max`);
+    if ((min !== undefined && value < min) || (max !== undefined && value > max)) {
+      throw new Error(`Default for ${name} is outside its min/max range`);
+    }
+    return { ...base, type: 'number', min, max, step, default: value };
+  }
+
+  if (raw.type === 'select') {
+    const options = stringList(raw.options, `${name}.options`);
+    if (options.length === 0) throw new Error(`Parameter ${name} needs at least one option`);
+    const value = raw.default === undefined ? options[0] : String(raw.default);
+    if (!options.includes(value)) throw new Error(`Default for ${name} is not one of its options`);
+    return { ...base, type: 'select', options, default: value };
+  }
+
+  if (raw.type === 'boolean') {
+    return { ...base, type: 'boolean', default: raw.default === true };
+  }
+
+  throw new Error(`Parameter ${name} has unknown type "${raw.type}"`);
+}
+
+function validateGeneratorDefinition(raw: any, names: Set<string>, builtins: ComponentSpec[]): PluginGeneratorDefinition {
+  if (raw.type === 'builtin') {
+    const builtin = builtins.find(spec => spec.id === raw.component);
+    if (!builtin) throw new Error(`Unknown built-in component "${raw.component}"`);
+    if (!raw.parameters || typeof raw.parameters !== 'object') throw new Error('Built-in mapping needs a parameters object');
+
+    const parameters: Record<string, PluginExpression | boolean> = {};
+    for (const [key, value] of Object.entries(raw.parameters)) {
+      if (!builtin.parameters.some(parameter => parameter.name === key)) {
+        throw new Error(`${builtin.name} has no parameter "${key}"`);
+      }
+      parameters[key] = typeof value === 'boolean' ? value : checkExpression(value, names);
+    }
+    return { type: 'builtin', component: builtin.id, parameters };
+  }
+
+  if (raw.type === 'template') {
+    if (!Array.isArray(raw.parts) || raw.parts.length === 0 || raw.parts.length > MAX_PARTS) {
+      throw new Error(`Template needs between 1 and ${MAX_PARTS} parts`);
+    }
+    return {
+      type: 'template',
+      parts: raw.parts.map((part: any) => {
+        if (!part || typeof part !== 'object') throw new Error('Parts must be objects');
+        const shapes = (list: any, label: string) => {
+          if (list === undefined) return [];
+          if (!Array.isArray(list)) throw new Error(`${label} must be a list of shapes`);
+          return list.map((shape: any) => checkShape(shape, names));
+        };
+        return {
+          name: requireText(part.name, 'Part name', 100),
+          quantity: part.quantity === undefined ? 1 : checkExpression(part.quantity, names),
+          outline: checkShape(part.outline, names),
+          holes: shapes(part.holes, 'holes'),
+          cuts: shapes(part.cuts, 'cuts'),
+          grooves: shapes(part.grooves, 'grooves')
+        };
+      }),
+      hardware: stringList(raw.hardware, 'hardware'),
+      assemblyInstructions: stringList(raw.assemblyInstructions, 'assemblyInstructions')
+    };
+  }
+
+  throw new Error('Generator type must be "template" or "builtin"');
+}
+
+function checkShape(raw: any, names: Set<string>): PluginShape {
+  if (!raw || typeof raw !== 'object') throw new Error('Shapes must be objects');
+
+  let scope = names;
+  const base: PluginShapeBase = {};
+  if (raw.repeat !== undefined) {
+    const as = String(raw.repeat?.as || '');
+    if (!NAME_PATTERN.test(as) || names.has(as) || as in CONSTANTS) {
+      throw new Error(`Repeat variable "${as}" must be a new identifier`);
+    }
+    base.repeat = { count: checkExpression(raw.repeat.count, names), as };
+    scope = new Set([...names, as]);
+  }
+  if (raw.when !== undefined) base.when = checkExpression(raw.when, scope);
+
+  const expression = (value: any) => checkExpression(value, scope);
+
+  switch (raw.type) {
+    case 'rect':
+      return {
+        ...base,
+        type: 'rect',
+        x: expression(raw.x ?? 0),
+        y: expression(raw.y ?? 0),
+        width: expression(raw.width),
+        height: expression(raw.height)
+      };
+    case 'circle':
+      return { ...base, type: 'circle', cx: expression(raw.cx), cy: expression(raw.cy), r: expression(raw.r) };
+    case 'polygon':
+    case 'polyline':
+      if (!Array.isArray(raw.points) || raw.points.length < 2 || raw.points.length > MAX_POINTS) {
+        throw new Error(`A ${raw.type} needs between 2 and ${MAX_POINTS} points`);
+      }
+      return {
+        ...base,
+        type: raw.type,
+        points: raw.points.map((point: any) => {
+          if (!Array.isArray(point) || point.length !== 2) throw new Error('Points must be [x, y] pairs');
+          return [expression(point[0]), expression(point[1])] as [PluginExpression, PluginExpression];
+        })
+      };
+    default:
+      throw new Error(`Unknown shape type "${raw.type}"`);
+  }
+}
+
+function checkExpression(value: any, names: Set<string>): PluginExpression {
+  if (typeof value === 'number') {
+    if (!Number.isFinite(value)) throw new Error('Numbers must be finite');
+    return value;
+  }
+  if (typeof value !== 'string' || value.length === 0 || value.length > MAX_EXPRESSION_LENGTH) {
+    throw new Error(`Expressions must be numbers or strings of up to ${MAX_EXPRESSION_LENGTH} characters`);
+  }
+
+  const unknown = identifiersOf(parseExpression(value)).filter(name => !names.has(name) && !(name in CONSTANTS));
+  if (unknown.length > 0) {
+    throw new Error(`Expression "${value}" uses unknown name(s): ${unknown.join(', ')}`);
+  }
+  return value;
+}
+
+// ----------------------------------------------------------------------------
+// Shape drawing
+// ----------------------------------------------------------------------------
+
+type Scope = Record<string, number | string>;
+
+function drawShape(shape: PluginShape, scope: Scope, budget: { shapes: number }): Point[][] {
+  const count = shape.repeat ? Math.floor(evaluate(shape.repeat.count, scope)) : 1;
+  const contours: Point[][] = [];
+
+  for (let i = 0; i < count; i++) {
+    const local = shape.repeat ? { ...scope, [shape.repeat.as]: i } : scope;
+    if (shape.when !== undefined && evaluate(shape.when, local) === 0) continue;
+    if (++budget.shapes > MAX_SHAPES) {
+      throw new Error(`Component exceeds ${MAX_SHAPES} shapes`);
+    }
+
+    const value = (expression: PluginExpression) => evaluate(expression, local);
+    if (shape.type === 'rect') {
+      const x = value(shape.x ?? 0);
+      const y = value(shape.y ?? 0);
+      const width = value(shape.width);
+      const height = value(shape.height);
+      if (width <= 0 || height <= 0) throw new Error('Rectangles need a positive width and height');
+      contours.push([{ x, y }, { x: x + width, y }, { x: x + width, y: y + height }, { x, y: y + height }]);
+    } else if (shape.type === 'circle') {
+      const r = value(shape.r);
+      if (r <= 0) throw new Error('Circles need a positive radius');
+      const cx = value(shape.cx);
+      const cy = value(shape.cy);
+      const step = r > CIRCLE_TOLERANCE ? 2 * Math.acos(1 - CIRCLE_TOLERANCE / r) : Math.PI / 8;
+      const segments = Math.max(16, Math.ceil((Math.PI * 2) / step));
+      contours.push(Array.from({ length: segments }, (_, k) => ({
+        x: cx + r * Math.cos((k / segments) * Math.PI * 2),
+        y: cy + r * Math.sin((k / segments) * Math.PI * 2)
+      })));
+    } else {
+      contours.push(shape.points.map(([x, y]) => ({ x: value(x), y: value(y) })));
+    }
+  }
+
+  return contours;
+}
+
+function toScope(params: Record<string, any>): Scope {
+  return Object.fromEntries(
+    Object.entries(params).map(([name, value]) => [name, typeof value === 'boolean' ? (value ? 1 : 0) : value])
+  );
+}
+
+function evaluate(expression: PluginExpression, scope: Scope): number {
+  if (typeof expression === 'number') return expression;
+  const value = evaluateValue(parseExpression(expression), scope);
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    throw new Error(`Expression "${expression}" did not produce a finite number`);
+  }
+  return value;
+}
+
+// ----------------------------------------------------------------------------
+// Expressions: arithmetic, comparisons, && || ?:, function calls and string
+// literals for comparing select parameters. Parsed ASTs are cached because
+// the same expressions are evaluated for every repeat.
+// ----------------------------------------------------------------------------
+
+type ExpressionNode =
+  | { kind: 'number'; value: number }
+  | { kind: 'string'; value: string }
+  | { kind: 'name'; name: string }
+  | { kind: 'unary'; operator: string; operand: ExpressionNode }
+  | { kind: 'binary'; operator: string; left: ExpressionNode; right: ExpressionNode }
+  | { kind: 'conditional'; test: ExpressionNode; then: ExpressionNode; otherwise: ExpressionNode }
+  | { kind: 'call'; name: string; args: ExpressionNode[] };
+
+const BINARY_PRECEDENCE: Record<string, number> = {
+  '||': 1, '&&': 2,
+  '==': 3, '!=': 3,
+  '<': 4, '<=': 4, '>': 4, '>=': 4,
+  '+': 5, '-': 5,
+  '*': 6, '/': 6, '%': 6,
+  '^': 8
+};
+const TOKEN_PATTERN = /\s*(?:(\d+\.?\d*(?:e[+-]?\d+)?|\.\d+(?:e[+-]?\d+)?)|([A-Za-z_][A-Za-z0-9_]*)|("[^"]*"|'[^']*')|(\|\||&&|==|!=|<=|>=|[-+*/%^()<>?:,!]))/y;
+const expressionCache = new Map<string, ExpressionNode>();
+
+function parseExpression(source: string): ExpressionNode {
+  const cached = expressionCache.get(source);
+  if (cached) return cached;
+
+  const tokens: string[] = [];
+  TOKEN_PATTERN.lastIndex = 0;
+  while (TOKEN_PATTERN.lastIndex < source.length) {
+    const start = TOKEN_PATTERN.lastIndex;
+    const match = TOKEN_PATTERN.exec(source);
+    if (!match) {
+      if (source.slice(start).trim() === '') break;
+      throw new Error(`Unexpected character in expression "${source}"`);
+    }
+    tokens.push(match[1] ?? match[2] ?? match[3] ?? match[4]);
+  }
+
+  let position = 0;
+  const peek = () => tokens[position];
+  const expect = (token: string) => {
+    if (tokens[position] !== token) throw new Error(`Expected "${token}" in expression "${source}"`);
+    position++;
+  };
+
+  const parsePrimary = (): ExpressionNode => {
+    const token = tokens[position++];
+    if (token === undefined) throw new Error(`Unexpected end of expression "${source}"`);
+    if (token === '(') {
+      const inner = parseConditional();
+      expect(')');
+      return inner;
+    }
+    if (token === '-' || token === '+' || token === '!') {
+      return { kind: 'unary', operator: token, operand: parseBinary(7) };
+    }
+    if (/^[\d.]/.test(token)) return { kind: 'number', value: Number(token) };
+    if (/^["']/.test(token)) return { kind: 'string', value: token.slice(1, -1) };
+    if (/^[A-Za-z_]/.test(token)) {
+      if (peek() !== '(') return { kind: 'name', name: token };
+      if (!(token in FUNCTIONS)) throw new Error(`Unknown function "${token}"`);
+      position++;
+      const args: ExpressionNode[] = [];
+      if (peek() !== ')') {
+        args.push(parseConditional());
+        while (peek() === ',') {
+          position++;
+          args.push(parseConditional());
+        }
+      }
+      expect(')');
+      return { kind: 'call', name: token, args };
+    }
+    throw new Error(`Unexpected "${token}" in expression "${source}"`);
+  };
+
+  const parseBinary = (minPrecedence: number): ExpressionNode => {
+    let left = parsePrimary();
+    for (;;) {
+      const operator = peek();
+      const precedence = BINARY_PRECEDENCE[operator];
+      if (precedence === undefined || precedence < minPrecedence) return left;
+      position++;
+      // ^ is right-associative, everything else left-associative
+      const right = parseBinary(operator === '^' ? precedence : precedence + 1);
+      left = { kind: 'binary', operator, left, right };
+    }
+  };
+
+  const parseConditional = (): ExpressionNode => {
+    const test = parseBinary(1);
+    if (peek() !== '?') return test;
+    position++;
+    const then = parseConditional();
+    expect(':');
+    return { kind: 'conditional', test, then, otherwise: parseConditional() };
+  };
+
+  const node = parseConditional();
+  if (position < tokens.length) throw new Error(`Unexpected "${tokens[position]}" in expression "${source}"`);
+
+  if (expressionCache.size >= MAX_CACHED_EXPRESSIONS) expressionCache.clear();
+  expressionCache.set(source, node);
+  return node;
+}
+
+function evaluateValue(node: ExpressionNode, scope: Scope): number | string {
+  switch (node.kind) {
+    case 'number':
+    case 'string':
+      return node.value;
+    case 'name':
+      if (node.name in scope) return scope[node.name];
+      if (node.name in CONSTANTS) return CONSTANTS[node.name];
+      throw new Error(`Unknown name "${node.name}"`);
+    case 'unary': {
+      const operand = numeric(evaluateValue(node.operand, scope));
+      return node.operator === '-' ? -operand : node.operator === '!' ? Number(operand === 0) : operand;
+    }
+    case 'conditional':
+      return numeric(evaluateValue(node.test, scope)) !== 0
+        ? evaluateValue(node.then, scope)
+        : evaluateValue(node.otherwise, scope);
+    case 'call':
+      return FUNCTIONS[node.name](...node.args.map(arg => numeric(evaluateValue(arg, scope))));
+    case 'binary': {
+      const left = evaluateValue(node.left, scope);
+      const right = evaluateValue(node.right, scope);
+      if (node.operator === '==') return Number(left === right);
+      if (node.operator === '!=') return Number(left !== right);
+
+      const a = numeric(left);
+      const b = numeric(right);
+      switch (node.operator) {
+        case '+': return a + b;
+        case '-': return a - b;
+        case '*': return a * b;
+        case '/': return a / b;
+        case '%': return a % b;
+        case '^': return a ** b;
+        case '<': return Number(a < b);
+        case '<=': return Number(a <= b);
+        case '>': return Number(a > b);
+        case '>=': return Number(a >= b);
+        case '&&': return Number(a !== 0 && b !== 0);
+        default: return Number(a !== 0 || b !== 0);
+      }
+    }
+  }
+}
+
+function identifiersOf(node: ExpressionNode): string[] {
+  switch (node.kind) {
+    case 'name':
+      return [node.name];
+    case 'unary':
+      return identifiersOf(node.operand);
+    case 'binary':
+      return [...identifiersOf(node.left), ...identifiersOf(node.right)];
+    case 'conditional':
+      return [...identifiersOf(node.test), ...identifiersOf(node.then), ...identifiersOf(node.otherwise)];
+    case 'call':
+      return node.args.flatMap(identifiersOf);
+    default:
+      return [];
+  }
+}
+
+function numeric(value: number | string): number {
+  if (typeof value !== 'number') throw new Error(`Text value "${value}" can only be compared with == or !=`);
+  return value;
+}
+
+function requireText(value: any, label: string, maxLength: number): string {
+  const text = typeof value === 'string' ? value.trim() : '';
+  if (!text || text.length > maxLength) throw new Error(`${label} must be 1-${maxLength} characters`);
+  return text;
+}
+
+function optionalText(value: any, maxLength: number): string {
+  return typeof value === 'string' ? value.trim().slice(0, maxLength) : '';
+}
+
+function optionalNumber(value: any, label: string): number | undefined {
+  if (value === undefined || value === null) return undefined;
+  const number = Number(value);
+  if (!Number.isFinite(number)) throw new Error(`${label} must be a number`);
+  return number;
+}
+
+function stringList(value: any, label: string): string[] {
+  if (value === undefined) return [];
+  if (!Array.isArray(value) || value.length > 50 || value.some(item => typeof item !== 'string' || item.length > 200)) {
+    throw new Error(`${label} must be a list of short strings`);
+  }
+  return value;
+}
@@ -0,0 +1,327 @@
+// Cut-order optimizer for laser and CNC toolpaths
+// Sequences contours so holes are cut before the parts that contain them, with minimal rapid travel
+
+import {
+  buildContourTree,
+  distance,
+  pointInPolygon,
+  pointsToPathData,
+  polylineLength,
+  segmentsIntersect,
+  type Point,
+  type SVGShape
+} from './svg-geometry';
+
+export interface CutContour {
+  id: string;
+  points: Point[];
+  closed: boolean;
+  parent?: string | null; // id of the contour that encloses this one
+  depth?: number; // 0 = outer outline, 1 = hole, 2 = island in a hole...
+}
+
+export interface OrderedCut {
+  id: string;
+  points: Point[]; // in cutting order; closed contours start (and end) at the entry point
+  closed: boolean;
+  depth: number;
+  reversed: boolean; // open paths may be cut from their far end
+  leadIn: Point | null; // where the tool pierces before running in to points[0]
+}
+
+export interface CutSequence {
+  cuts: OrderedCut[];
+  travelDistance: number; // mm of rapid travel between contours
+  unoptimizedTravel: number; // mm of travel in the original order, for comparison
+  cutDistance: number; // mm
+}
+
+export interface CutOrderOptions {
+  start?: Point; // tool position before the first cut
+  leadInLength?: number; // mm - 0 pierces directly on the contour
+  maxIterations?: number; // 2-opt improvement rounds
+}
+
+interface SequenceItem {
+  index: number; // into the contour list
+  entry: number; // vertex index for closed contours; 0 or 1 (reversed) for open paths
+}
+
+const DEFAULT_MAX_ITERATIONS = 50;
+const CORNER_PREFERENCE = 1; // mm - entry points this close to the best are moved to the sharpest corner
+const MAX_VERTEX_CANDIDATES = 64; // entry points considered per closed contour during the search
+
+/**
+ * Order contours for cutting. Every contour is cut after the contours nested
+ * inside it, travel is minimised with nearest-neighbour followed by 2-opt,
+ * and each closed contour gets an entry point (and optional lead-in) on the
+ * scrap side.
+ */
+export function optimizeCutOrder(contours: CutContour[], options: CutOrderOptions = {}): CutSequence {
+  const start = options.start || { x: 0, y: 0 };
+  const count = contours.length;
+  const idToIndex = new Map(contours.map((contour, i) => [contour.id, i]));
+  const parents = contours.map(contour => (contour.parent != null ? idToIndex.get(contour.parent) ?? -1 : -1));
+  const pendingChildren = new Array<number>(count).fill(0);
+  parents.forEach(parent => { if (parent >= 0) pendingChildren[parent]++; });
+
+  const candidates = contours.map(contour => entryCandidates(contour));
+
+  // Nearest neighbour among contours whose nested contours are already cut
+  const sequence: SequenceItem[] = [];
+  const done = new Array<boolean>(count).fill(false);
+  let position = start;
+
+  for (let step = 0; step < count; step++) {
+    let best: { item: SequenceItem; cost: number } | null = null;
+
+    for (let i = 0; i < count; i++) {
+      if (done[i] || pendingChildren[i] > 0) continue;
+      for (const entry of candidates[i]) {
+        const cost = distance(position, entryPoint(contours[i], entry));
+        if (!best || cost < best.cost - 1e-9) best = { item: { index: i, entry }, cost };
+      }
+    }
+
+    if (!best) break; // Only possible with a cycle in the parent links
+    sequence.push(best.item);
+    done[best.item.index] = true;
+    if (parents[best.item.index] >= 0) pendingChildren[parents[best.item.index]]--;
+    position = exitPoint(contours[best.item.index], best.item.entry);
+  }
+
+  // Contours caught in a parent cycle are appended as given rather than dropped
+  contours.forEach((_, i) => { if (!done[i]) sequence.push({ index: i, entry: 0 }); });
+
+  improveWithTwoOpt(sequence, contours, parents, start, options.maxIterations ?? DEFAULT_MAX_ITERATIONS);
+  refineEntries(sequence, contours, start);
+
+  const unoptimized = contours.map((_, index) => ({ index, entry: 0 }));
+  const leadInLength = Math.max(0, options.leadInLength || 0);
+
+  return {
+    cuts: sequence.map(item => buildCut(contours[item.index], item.entry, leadInLength)),
+    travelDistance: round(sequenceTravel(sequence, contours, start)),
+    unoptimizedTravel: round(sequenceTravel(unoptimized, contours, start)),
+    cutDistance: round(contours.reduce((sum, contour) => sum + polylineLength(contour.points, contour.closed), 0))
+  };
+}
+
+/**
+ * Build cut contours from parsed SVG shapes, with nesting taken from the contour tree
+ */
+export function contoursFromShapes(shapes: SVGShape[], transform: (p: Point) => Point = p => p): CutContour[] {
+  const tree = buildContourTree(shapes);
+  return shapes.map((shape, index) => ({
+    id: String(index),
+    points: shape.points.map(transform),
+    closed: shape.closed,
+    parent: tree[index].parent !== null ? String(tree[index].parent) : null,
+    depth: tree[index].depth
+  }));
+}
+
+/**
+ * SVG path data for a sequence, one subpath per cut in cutting order
+ */
+export function cutSequenceToPathData(sequence: CutSequence, precision: number = 3): string {
+  return pointsToPathData(sequence.cuts.map(cut => ({ points: cut.points, closed: cut.closed })), precision);
+}
+
+function entryCandidates(contour: CutContour): number[] {
+  if (!contour.closed) return contour.points.length > 1 ? [0, 1] : [0];
+
+  // Long contours are sampled evenly; refineEntries later checks every vertex
+  const step = Math.max(1, Math.ceil(contour.points.length / MAX_VERTEX_CANDIDATES));
+  const indices: number[] = [];
+  for (let i = 0; i < contour.points.length; i += step) indices.push(i);
+  return indices;
+}
+
+function entryPoint(contour: CutContour, entry: number): Point {
+  if (contour.closed) return contour.points[entry];
+  return entry === 0 ? contour.points[0] : contour.points[contour.points.length - 1];
+}
+
+function exitPoint(contour: CutContour, entry: number): Point {
+  if (contour.closed) return contour.points[entry];
+  return entry === 0 ? contour.points[contour.points.length - 1] : contour.points[0];
+}
+
+function sequenceTravel(sequence: SequenceItem[], contours: CutContour[], start: Point): number {
+  let travel = 0;
+  let position = start;
+  for (const item of sequence) {
+    travel += distance(position, entryPoint(contours[item.index], item.entry));
+    position = exitPoint(contours[item.index], item.entry);
+  }
+  return travel;
+}
+
+/**
+ * Reverse runs of the sequence while that shortens travel. A reversal is only
+ * allowed if it keeps every contour ahead of its parent; checking direct
+ * parents is enough because any ancestor in the run implies its parent is too.
+ */
+function improveWithTwoOpt(
+  sequence: SequenceItem[],
+  contours: CutContour[],
+  parents: number[],
+  start: Point,
+  maxIterations: number
+): void {
+  const n = sequence.length;
+  if (n < 3) return;
+
+  const position = new Array<number>(contours.length);
+  const reindex = () => sequence.forEach((item, i) => { position[item.index] = i; });
+  reindex();
+
+  const exitOf = (k: number) => (k < 0 ? start : exitPoint(contours[sequence[k].index], sequence[k].entry));
+  const entryOf = (k: number) => entryPoint(contours[sequence[k].index], sequence[k].entry);
+  const flipped = (item: SequenceItem) => (contours[item.index].closed ? item : { ...item, entry: 1 - item.entry });
+
+  for (let iteration = 0; iteration < maxIterations; iteration++) {
+    let improved = false;
+
+    for (let i = 0; i < n - 1; i++) {
+      for (let j = i + 1; j < n; j++) {
+        // Cost of the edges into i and out of j before and after reversing i..j
+        const before = distance(exitOf(i - 1), entryOf(i)) + (j + 1 < n ? distance(exitOf(j), entryOf(j + 1)) : 0);
+        const firstAfter = flipped(sequence[j]);
+        const lastAfter = flipped(sequence[i]);
+        const after = distance(exitOf(i - 1), entryPoint(contours[firstAfter.index], firstAfter.entry)) +
+          (j + 1 < n ? distance(exitPoint(contours[lastAfter.index], lastAfter.entry), entryOf(j + 1)) : 0);
+        if (after >= before - 1e-6) continue;
+
+        let valid = true;
+        for (let k = i; k <= j && valid; k++) {
+          const parent = parents[sequence[k].index];
+          if (parent >= 0 && position[parent] >= i && position[parent] <= j) valid = false;
+        }
+        if (!valid) continue;
+
+        const reversed = sequence.slice(i, j + 1).reverse().map(flipped);
+        sequence.splice(i, reversed.length, ...reversed);
+        reindex();
+        improved = true;
+      }
+    }
+
+    if (!improved) break;
+  }
+}
+
+/**
+ * Pick the entry vertex of each closed contour that minimises travel from the
+ * previous exit and to the next entry, preferring sharp corners where a
+ * pierce mark is least visible.
+ */
+function refineEntries(sequence: SequenceItem[], contours: CutContour[], start: Point): void {
+  for (let pass = 0; pass < 2; pass++) {
+    sequence.forEach((item, k) => {
+      const contour = contours[item.index];
+      if (!contour.closed || contour.points.length < 3) return;
+
+      const previous = k === 0 ? start : exitPoint(contours[sequence[k - 1].index], sequence[k - 1].entry);
+      const next = k + 1 < sequence.length ? entryPoint(contours[sequence[k + 1].index], sequence[k + 1].entry) : null;
+      const cost = (p: Point) => distance(previous, p) + (next ? distance(p, next) : 0);
+
+      let bestCost = Infinity;
+      contour.points.forEach(p => { bestCost = Math.min(bestCost, cost(p)); });
+
+      let bestEntry = item.entry;
+      let bestSharpness = -Infinity;
+      contour.points.forEach((p, i) => {
+        if (cost(p) > bestCost + CORNER_PREFERENCE) return;
+        const sharpness = cornerSharpness(contour.points, i);
+        if (sharpness > bestSharpness + 1e-9) {
+          bestSharpness = sharpness;
+          bestEntry = i;
+        }
+      });
+      item.entry = bestEntry;
+    });
+  }
+}
+
+// 0 for a straight run, up to 2 for a full reversal
+function cornerSharpness(points: Point[], i: number): number {
+  const prev = points[(i - 1 + points.length) % points.length];
+  const p = points[i];
+  const next = points[(i + 1) % points.length];
+  const a = distance(prev, p);
+  const b = distance(p, next);
+  if (a < 1e-9 || b < 1e-9) return 0;
+  const cosine = ((p.x - prev.x) * (next.x - p.x) + (p.y - prev.y) * (next.y - p.y)) / (a * b);
+  return 1 - cosine;
+}
+
+function buildCut(contour: CutContour, entry: number, leadInLength: number): OrderedCut {
+  const depth = contour.depth ?? 0;
+
+  if (!contour.closed) {
+    const reversed = entry === 1;
+    return {
+      id: contour.id,
+      points: reversed ? [...contour.points].reverse() : [...contour.points],
+      closed: false,
+      depth,
+      reversed,
+      leadIn: null
+    };
+  }
+
+  const points = [...contour.points.slice(entry), ...contour.points.slice(0, entry)];
+  return {
+    id: contour.id,
+    points,
+    closed: true,
+    depth,
+    reversed: false,
+    leadIn: leadInLength > 0 ? leadInPoint(points, leadInLength, depth % 2 === 1) : null
+  };
+}
+
+/**
+ * Pierce point on the scrap side of the entry vertex: inside holes, outside
+ * outlines. The lead-in follows the corner bisector and is shortened if it
+ * would cross back over the contour.
+ */
+function leadInPoint(points: Point[], length: number, isHole: boolean): Point | null {
+  const p = points[0];
+  const prev = points[points.length - 1];
+  const next = points[1];
+  const inDirection = normalize({ x: p.x - prev.x, y: p.y - prev.y });
+  const outDirection = normalize({ x: next.x - p.x, y: next.y - p.y });
+  if (!inDirection || !outDirection) return null;
+
+  // Bisector of the corner, falling back to the edge normal on straight runs
+  let direction = normalize({ x: outDirection.x - inDirection.x, y: outDirection.y - inDirection.y })
+    || { x: -outDirection.y, y: outDirection.x };
+
+  const probe = { x: p.x + direction.x * 1e-3, y: p.y + direction.y * 1e-3 };
+  if (pointInPolygon(probe, points) !== isHole) direction = { x: -direction.x, y: -direction.y };
+
+  for (let scale = 1; scale >= 0.25; scale /= 2) {
+    const candidate = { x: p.x + direction.x * length * scale, y: p.y + direction.y * length * scale };
+    if (pointInPolygon(candidate, points) === isHole && !crossesContour(p, candidate, points)) return candidate;
+  }
+  return null;
+}
+
+function crossesContour(from: Point, to: Point, points: Point[]): boolean {
+  for (let i = 1; i < points.length - 1; i++) {
+    if (segmentsIntersect(from, to, points[i], points[i + 1])) return true;
+  }
+  return false;
+}
+
+function normalize(v: Point): Point | null {
+  const length = Math.hypot(v.x, v.y);
+  return length > 1e-9 ? { x: v.x / length, y: v.y / length } : null;
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
@@ -1,6 +1,8 @@
 // Cloudflare D1 database client
 // Replaces the previous Supabase integration
 
+import type { PlanId } from './entitlements';
+
 export interface Env {
   DB: D1Database;
   AI: any; // Cloudflare AI binding
@@ -8,6 +10,9 @@ export interface Env {
   BASE_URL?: string;
   GITHUB_CLIENT_ID?: string;
   GITHUB_CLIENT_SECRET?: string;
+  JWT_SECRET?: string; // also keys signed export download links
+  RATE_LIMITER?: any; // Durable Object namespace for RateLimiterDurableObject
+  RATE_LIMIT_KV?: any; // KV namespace, used for rate limits when no Durable Object is bound
 }
 
 // Database types
@@ -16,7 +21,7 @@ export interface Profile {
   email: string;
   full_name?: string;
   avatar_url?: string;
-  subscription_tier?: 'free' | 'starter' | 'maker' | 'pro' | 'professional';
+  subscription_tier?: PlanId;
   stripe_customer_id?: string;
   password_hash?: string;
   tenant_id?: string;
@@ -25,6 +30,7 @@ export interface Profile {
   role?: 'user' | 'admin' | 'superadmin';
   is_active?: boolean;
   last_login?: string;
+  preferred_machine_id?: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -37,11 +43,104 @@ export interface Template {
   tags: string; // JSON string
   materials: string; // JSON string
   difficulty: 'beginner' | 'intermediate' | 'advanced';
-  svg_data: string;
+  svg_data: string; // empty when svg_url is set
+  svg_url?: string | null; // static file for library designs too large to store in the row
   preview_url?: string;
   is_premium: boolean;
   download_count: number;
+  content_hash?: string | null; // set for templates ingested from the library
+  source_path?: string | null;
+  width_mm?: number | null;
+  height_mm?: number | null;
+  catalogue_source?: 'curated' | 'inferred';
   created_at: string;
+  updated_at?: string | null;
+}
+
+// Search results and recommendations leave out the design and ingestion bookkeeping
+export type TemplateSummary = Omit<Template, 'svg_data' | 'svg_url' | 'content_hash' | 'source_path' | 'catalogue_source'>;
+
+export type TemplateSortField = 'download_count' | 'created_at';
+
+export interface TemplateArea {
+  width: number; // mm
+  height: number; // mm
+}
+
+export interface TemplateSearchQuery {
+  search?: string; // FTS5 query over title, description and tags
+  category?: string;
+  tags: string[]; // every tag must be present
+  material?: string;
+  difficulty?: Template['difficulty'];
+  premium?: boolean;
+  fitsWithin: TemplateArea[]; // machine work areas and sheet sizes, in either orientation
+  sort: TemplateSortField;
+  order: 'asc' | 'desc';
+  limit: number;
+  after?: { value: string | number; id: string }; // sort value and id of the last template on the previous page
+}
+
+export interface TemplateFacetCount {
+  value: string;
+  count: number;
+}
+
+export interface TemplateFacets {
+  total: number;
+  tags: TemplateFacetCount[];
+  materials: TemplateFacetCount[];
+  difficulty: TemplateFacetCount[];
+  fits: number[]; // templates fitting each area asked for, in the same order
+}
+
+export interface SimilarTemplate extends TemplateSummary {
+  shared_tags: number;
+  co_downloads: number; // users who downloaded both templates
+}
+
+// Every template column except the SVG and ingestion bookkeeping
+const TEMPLATE_SUMMARY_COLUMNS = 'id, title, description, category, tags, materials, difficulty, preview_url, is_premium, download_count, width_mm, height_mm, created_at, updated_at';
+
+// Binds width, height, height, width; templates without dimensions never fit
+const TEMPLATE_FITS = '((width_mm <= ? AND height_mm <= ?) OR (width_mm <= ? AND height_mm <= ?))';
+
+function templateSearchConditions(query: TemplateSearchQuery): { conditions: string[]; values: unknown[] } {
+  const conditions = ['1=1'];
+  const values: unknown[] = [];
+  const hasValue = (column: string) =>
+    `EXISTS (SELECT 1 FROM json_each(CASE WHEN json_valid(${column}) THEN ${column} ELSE '[]' END) WHERE value = ? COLLATE NOCASE)`;
+
+  if (query.search) {
+    conditions.push('rowid IN (SELECT rowid FROM templates_fts WHERE templates_fts MATCH ?)');
+    values.push(query.search);
+  }
+  if (query.category) {
+    conditions.push('category = ?');
+    values.push(query.category);
+  }
+  for (const tag of query.tags) {
+    conditions.push(hasValue('tags'));
+    values.push(tag);
+  }
+  if (query.material) {
+    conditions.push(hasValue('materials'));
+    values.push(query.material);
+  }
+  if (query.difficulty) {
+    conditions.push('difficulty = ?');
+    values.push(query.difficulty);
+  }
+  if (query.premium !== undefined) {
+    conditions.push('is_premium = ?');
+    values.push(query.premium ? 1 : 0);
+  }
+  for (const area of query.fitsWithin) {
+    conditions.push(TEMPLATE_FITS);
+    values.push(area.width, area.height, area.height, area.width);
+  }
+
+  return { conditions, values };
 }
 
 export interface UserProject {
@@ -54,7 +153,25 @@ export interface UserProject {
   metadata?: string; // JSON string
   current_revision_id?: string;
   canvas_settings?: string; // JSON string
+  operation_layers?: string; // JSON OperationLayerModel
+  current_branch_id?: string; // branch the editor saves to
   created_at: string;
+  updated_at?: string;
+}
+
+// Project list rows leave out the design itself
+export type ProjectSummary = Omit<UserProject, 'svg_data' | 'operation_layers'>;
+
+export type ProjectSortField = 'created_at' | 'updated_at' | 'title';
+
+export interface ProjectListQuery {
+  search?: string; // FTS5 query over title, description and metadata
+  projectType?: UserProject['project_type'];
+  material?: string; // metadata.material
+  sort: ProjectSortField;
+  order: 'asc' | 'desc';
+  limit: number;
+  after?: { value: string; id: string }; // sort value and id of the last project on the previous page
 }
 
 export interface ProjectRevision {
@@ -64,7 +181,65 @@ export interface ProjectRevision {
   svg_data: string;
   changes_description?: string;
   metadata?: string; // JSON string
+  operation_layers?: string; // JSON OperationLayerModel
+  branch_id?: string | null;
+  parent_revision_id?: string | null; // revision this one was edited from
+  merge_parent_revision_id?: string | null; // revision merged in, for merge revisions
+  created_at: string;
+}
+
+export interface ProjectBranch {
+  id: string;
+  project_id: string;
+  name: string;
+  head_revision_id: string | null; // latest revision on the branch
+  base_revision_id: string | null; // revision the branch was forked from
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ProjectDraft {
+  project_id: string;
+  user_id: string;
+  svg_data: string;
+  metadata?: string | null; // JSON string
+  operation_layers?: string | null; // JSON OperationLayerModel
+  base_revision_id: string | null; // revision the draft was edited from
+  version: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ComponentPluginRecord {
+  id: string;
+  user_id: string;
+  tenant_id?: string | null; // set when the plugin is shared with the owner's tenant
+  component_id: string;
+  spec: string; // JSON ComponentSpec
+  generator: string; // JSON generator definition
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CustomMaterialRecord {
+  id: string;
+  user_id: string;
+  tenant_id?: string | null; // set when the material is shared with the owner's tenant
+  material_key: string;
+  name: string;
+  properties: string; // JSON material properties
+  created_at: string;
+  updated_at: string;
+}
+
+export interface MachineProfileRecord {
+  id: string;
+  user_id: string;
+  name: string;
+  profile: string; // JSON machine definition
   created_at: string;
+  updated_at: string;
 }
 
 export interface BlogPost {
@@ -145,7 +320,7 @@ export interface UsageRecord {
 export interface UsageQuota {
   id: string;
   user_id: string;
-  tier: 'starter' | 'professional';
+  tier: PlanId;
   feature: string;
   used_today: number;
   used_this_month: number;
@@ -154,7 +329,57 @@ export interface UsageQuota {
   updated_at: string;
 }
 
+export interface AIUsageRecord {
+  id: string;
+  user_id?: string | null;
+  tenant_id?: string | null;
+  model_used: string;
+  operation_type: string; // task type, e.g. 'Design Validation'
+  input_tokens?: number | null;
+  output_tokens?: number | null;
+  tokens_used?: number | null;
+  cost_usd?: number | null; // NULL when usage or the model's price is unknown
+  response_time_ms: number;
+  success: boolean;
+  error_details?: string | null;
+  created_at: string;
+}
+
+export type AISpendGrouping = 'model' | 'task' | 'user' | 'tenant' | 'hour' | 'day' | 'month';
+
+export interface AISpendRow {
+  key: string | null; // model, task, user or tenant id, or the start of the time bucket
+  label: string | null; // email when grouped by user
+  calls: number;
+  failures: number;
+  input_tokens: number;
+  output_tokens: number;
+  cost_usd: number;
+  unpriced_calls: number;
+  avg_response_time_ms: number;
+}
+
+export interface AIBudget {
+  id: string;
+  scope: 'global' | 'tenant' | 'user';
+  scope_id: string; // empty for global
+  period: 'day' | 'month';
+  limit_usd: number;
+  alert_threshold: number; // fraction of limit_usd
+  created_by?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
 // Database service class
+// Another save took this revision number between reading the next number and inserting
+export class RevisionNumberTakenError extends Error {
+  constructor(public projectId: string, public revisionNumber: number) {
+    super(`Revision ${revisionNumber} already exists on project ${projectId}`);
+    this.name = 'RevisionNumberTakenError';
+  }
+}
+
 export class DatabaseService {
   private db: D1Database;
 
@@ -272,6 +497,150 @@ export class DatabaseService {
     }
   }
 
+  async searchTemplates(query: TemplateSearchQuery): Promise<{ templates: TemplateSummary[]; hasMore: boolean }> {
+    const direction = query.order === 'asc' ? 'ASC' : 'DESC';
+    const { conditions, values } = templateSearchConditions(query);
+
+    if (query.after) {
+      const comparison = query.order === 'asc' ? '>' : '<';
+      conditions.push(`(${query.sort} ${comparison} ? OR (${query.sort} = ? AND id ${comparison} ?))`);
+      values.push(query.after.value, query.after.value, query.after.id);
+    }
+
+    const result = await this.db
+      .prepare(`
+        SELECT ${TEMPLATE_SUMMARY_COLUMNS}
+        FROM templates
+        WHERE ${conditions.join(' AND ')}
+        ORDER BY ${query.sort} ${direction}, id ${direction}
+        LIMIT ?
+      `)
+      .bind(...values, query.limit + 1)
+      .all<TemplateSummary>();
+
+    const rows = result.results || [];
+    return { templates: rows.slice(0, query.limit), hasMore: rows.length > query.limit };
+  }
+
+  /**
+   * Counts for the templates matching the query, ignoring pagination: the
+   * most common tags and materials, each difficulty, and how many fit each
+   * of the given areas. Query errors are thrown, not reported as no facets.
+   */
+  async getTemplateFacets(query: TemplateSearchQuery, areas: TemplateArea[], valueLimit = 20): Promise<TemplateFacets> {
+    const { conditions, values } = templateSearchConditions(query);
+    const matched = `WITH matched AS (SELECT tags, materials, difficulty, width_mm, height_mm FROM templates WHERE ${conditions.join(' AND ')})`;
+    const valueCounts = (column: 'tags' | 'materials') => this.db
+      .prepare(`
+        ${matched}
+        SELECT value, COUNT(*) AS count
+        FROM matched, json_each(CASE WHEN json_valid(matched.${column}) THEN matched.${column} ELSE '[]' END)
+        GROUP BY value
+        ORDER BY count DESC, value
+        LIMIT ?
+      `)
+      .bind(...values, valueLimit)
+      .all<TemplateFacetCount>();
+
+    const fitColumns = areas.map((_, index) => `SUM(CASE WHEN ${TEMPLATE_FITS} THEN 1 ELSE 0 END) AS fits_${index}`);
+    const fitValues = areas.flatMap(area => [area.width, area.height, area.height, area.width]);
+
+    const [tags, materials, difficulty, totals] = await Promise.all([
+      valueCounts('tags'),
+      valueCounts('materials'),
+      this.db
+        .prepare(`${matched} SELECT difficulty AS value, COUNT(*) AS count FROM matched GROUP BY difficulty ORDER BY count DESC`)
+        .bind(...values)
+        .all<TemplateFacetCount>(),
+      this.db
+        .prepare(`${matched} SELECT ${['COUNT(*) AS total', ...fitColumns].join(', ')} FROM matched`)
+        .bind(...values, ...fitValues)
+        .first<Record<string, number | null>>()
+    ]);
+
+    return {
+      total: totals?.total || 0,
+      tags: tags.results || [],
+      materials: materials.results || [],
+      difficulty: difficulty.results || [],
+      fits: areas.map((_, index) => totals?.[`fits_${index}`] || 0)
+    };
+  }
+
+  /**
+   * Templates sharing tags with this one or downloaded by the same users.
+   * A co-download weighs twice a shared tag, and the same category breaks
+   * ties before overall downloads do.
+   */
+  async getSimilarTemplates(id: string, limit: number): Promise<SimilarTemplate[]> {
+    try {
+      const result = await this.db
+        .prepare(`
+          WITH source AS (
+            SELECT category, CASE WHEN json_valid(tags) THEN tags ELSE '[]' END AS tags FROM templates WHERE id = ?
+          ),
+          co_downloads AS (
+            SELECT other.template_id, COUNT(*) AS co_downloads
+            FROM template_downloads mine
+            JOIN template_downloads other ON other.user_id = mine.user_id AND other.template_id != mine.template_id
+            WHERE mine.template_id = ?
+            GROUP BY other.template_id
+          ),
+          scored AS (
+            SELECT ${TEMPLATE_SUMMARY_COLUMNS.split(', ').map(column => `t.${column}`).join(', ')},
+              (
+                SELECT COUNT(*)
+                FROM json_each(CASE WHEN json_valid(t.tags) THEN t.tags ELSE '[]' END) tag
+                WHERE tag.value IN (SELECT value FROM source, json_each(source.tags))
+              ) AS shared_tags,
+              COALESCE(co_downloads.co_downloads, 0) AS co_downloads,
+              t.category = (SELECT category FROM source) AS same_category
+            FROM templates t
+            LEFT JOIN co_downloads ON co_downloads.template_id = t.id
+            WHERE t.id != ?
+          )
+          SELECT * FROM scored
+          WHERE shared_tags > 0 OR co_downloads > 0
+          ORDER BY shared_tags + 2 * co_downloads DESC, same_category DESC, download_count DESC, id
+          LIMIT ?
+        `)
+        .bind(id, id, id, limit)
+        .all<SimilarTemplate & { same_category?: number }>();
+
+      return (result.results || []).map(({ same_category, ...template }) => template);
+    } catch (error) {
+      console.error('Error getting similar templates:', error);
+      return [];
+    }
+  }
+
+  // Counts the download on the template and remembers who downloaded it
+  async recordTemplateDownload(templateId: string, userId: string): Promise<boolean> {
+    try {
+      const result = await this.db
+        .prepare('UPDATE templates SET download_count = download_count + 1 WHERE id = ?')
+        .bind(templateId)
+        .run();
+      if ((result.meta?.changes || 0) === 0) return false;
+
+      await this.db
+        .prepare(`
+          INSERT INTO template_downloads (template_id, user_id)
+          VALUES (?, ?)
+          ON CONFLICT (template_id, user_id) DO UPDATE SET
+            download_count = template_downloads.download_count + 1,
+            last_downloaded_at = CURRENT_TIMESTAMP
+        `)
+        .bind(templateId, userId)
+        .run();
+
+      return true;
+    } catch (error) {
+      console.error('Error recording template download:', error);
+      return false;
+    }
+  }
+
   async incrementTemplateDownloads(id: string): Promise<boolean> {
     try {
       await this.db
@@ -287,16 +656,16 @@ export class DatabaseService {
   }
 
   // User project operations
-  async createUserProject(project: Omit<UserProject, 'created_at'>): Promise<UserProject | null> {
+  async createUserProject(project: Omit<UserProject, 'created_at' | 'updated_at'>): Promise<UserProject | null> {
     try {
       const now = new Date().toISOString();
       const result = await this.db
         .prepare(`
-          INSERT INTO user_projects (id, user_id, title, description, svg_data, project_type, metadata, current_revision_id, canvas_settings, created_at)
-          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+          INSERT INTO user_projects (id, user_id, title, description, svg_data, project_type, metadata, current_revision_id, canvas_settings, operation_layers, created_at, updated_at)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
           RETURNING *
         `)
-        .bind(project.id, project.user_id, project.title, project.description, project.svg_data, project.project_type, project.metadata, project.current_revision_id, project.canvas_settings, now)
+        .bind(project.id, project.user_id, project.title, project.description ?? null, project.svg_data ?? null, project.project_type, project.metadata ?? null, project.current_revision_id ?? null, project.canvas_settings ?? null, project.operation_layers ?? null, now, now)
         .first<UserProject>();
       
       return result || null;
@@ -320,6 +689,55 @@ export class DatabaseService {
     }
   }
 
+  /**
+   * One page of a user's projects in keyset order, so pages stay stable
+   * while projects are added or edited. Fetches one extra row to tell
+   * whether another page follows.
+   */
+  async listUserProjects(userId: string, query: ProjectListQuery): Promise<{ projects: ProjectSummary[]; hasMore: boolean }> {
+    const column = query.sort === 'title' ? 'title COLLATE NOCASE' : query.sort;
+    const direction = query.order === 'asc' ? 'ASC' : 'DESC';
+    const conditions = ['user_id = ?'];
+    const values: unknown[] = [userId];
+
+    if (query.search) {
+      conditions.push('rowid IN (SELECT rowid FROM user_projects_fts WHERE user_projects_fts MATCH ?)');
+      values.push(query.search);
+    }
+    if (query.projectType) {
+      conditions.push('project_type = ?');
+      values.push(query.projectType);
+    }
+    if (query.material) {
+      conditions.push("CASE WHEN json_valid(metadata) THEN json_extract(metadata, '$.material') END = ? COLLATE NOCASE");
+      values.push(query.material);
+    }
+    if (query.after) {
+      const comparison = query.order === 'asc' ? '>' : '<';
+      conditions.push(`(${column} ${comparison} ? OR (${column} = ? AND id ${comparison} ?))`);
+      values.push(query.after.value, query.after.value, query.after.id);
+    }
+
+    try {
+      const result = await this.db
+        .prepare(`
+          SELECT id, user_id, title, description, project_type, metadata, current_revision_id, canvas_settings, current_branch_id, created_at, updated_at
+          FROM user_projects
+          WHERE ${conditions.join(' AND ')}
+          ORDER BY ${column} ${direction}, id ${direction}
+          LIMIT ?
+        `)
+        .bind(...values, query.limit + 1)
+        .all<ProjectSummary>();
+
+      const rows = result.results || [];
+      return { projects: rows.slice(0, query.limit), hasMore: rows.length > query.limit };
+    } catch (error) {
+      console.error('Error listing user projects:', error);
+      return { projects: [], hasMore: false };
+    }
+  }
+
   async getUserProject(id: string, userId: string): Promise<UserProject | null> {
     try {
       const result = await this.db
@@ -344,11 +762,26 @@ export class DatabaseService {
               svg_data = COALESCE(?, svg_data),
               metadata = COALESCE(?, metadata),
               current_revision_id = COALESCE(?, current_revision_id),
-              canvas_settings = COALESCE(?, canvas_settings)
+              canvas_settings = COALESCE(?, canvas_settings),
+              operation_layers = COALESCE(?, operation_layers),
+              current_branch_id = COALESCE(?, current_branch_id),
+              updated_at = ?
           WHERE id = ? AND user_id = ?
           RETURNING *
         `)
-        .bind(updates.title, updates.description, updates.svg_data, updates.metadata, updates.current_revision_id, updates.canvas_settings, id, userId)
+        .bind(
+          updates.title ?? null,
+          updates.description ?? null,
+          updates.svg_data ?? null,
+          updates.metadata ?? null,
+          updates.current_revision_id ?? null,
+          updates.canvas_settings ?? null,
+          updates.operation_layers ?? null,
+          updates.current_branch_id ?? null,
+          new Date().toISOString(),
+          id,
+          userId
+        )
         .first<UserProject>();
       
       return result || null;
@@ -378,15 +811,30 @@ export class DatabaseService {
       const now = new Date().toISOString();
       const result = await this.db
         .prepare(`
-          INSERT INTO project_revisions (id, project_id, revision_number, svg_data, changes_description, metadata, created_at)
-          VALUES (?, ?, ?, ?, ?, ?, ?)
+          INSERT INTO project_revisions (id, project_id, revision_number, svg_data, changes_description, metadata, operation_layers, branch_id, parent_revision_id, merge_parent_revision_id, created_at)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
           RETURNING *
         `)
-        .bind(revision.id, revision.project_id, revision.revision_number, revision.svg_data, revision.changes_description, revision.metadata, now)
+        .bind(
+          revision.id,
+          revision.project_id,
+          revision.revision_number,
+          revision.svg_data,
+          revision.changes_description ?? null,
+          revision.metadata ?? null,
+          revision.operation_layers ?? null,
+          revision.branch_id ?? null,
+          revision.parent_revision_id ?? null,
+          revision.merge_parent_revision_id ?? null,
+          now
+        )
         .first<ProjectRevision>();
       
       return result || null;
     } catch (error) {
+      if (String(error).includes('UNIQUE constraint failed: project_revisions.project_id, project_revisions.revision_number')) {
+        throw new RevisionNumberTakenError(revision.project_id, revision.revision_number);
+      }
       console.error('Error creating project revision:', error);
       return null;
     }
@@ -434,6 +882,413 @@ export class DatabaseService {
     }
   }
 
+  // Project branch operations
+  async getProjectBranches(projectId: string): Promise<ProjectBranch[]> {
+    try {
+      const result = await this.db
+        .prepare('SELECT * FROM project_branches WHERE project_id = ? ORDER BY created_at ASC')
+        .bind(projectId)
+        .all<ProjectBranch>();
+
+      return result.results || [];
+    } catch (error) {
+      console.error('Error getting project branches:', error);
+      return [];
+    }
+  }
+
+  async createProjectBranch(branch: Omit<ProjectBranch, 'created_at' | 'updated_at'>): Promise<ProjectBranch | null> {
+    try {
+      const now = new Date().toISOString();
+      const result = await this.db
+        .prepare(`
+          INSERT INTO project_branches (id, project_id, name, head_revision_id, base_revision_id, created_by, created_at, updated_at)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+          RETURNING *
+        `)
+        .bind(branch.id, branch.project_id, branch.name, branch.head_revision_id, branch.base_revision_id, branch.created_by, now, now)
+        .first<ProjectBranch>();
+
+      return result || null;
+    } catch (error) {
+      console.error('Error creating project branch:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Move a branch head. With expectedHeadId the update only applies if the
+   * head has not moved since it was read, and null is returned otherwise.
+   */
+  async updateProjectBranchHead(branchId: string, headRevisionId: string | null, expectedHeadId?: string | null): Promise<ProjectBranch | null> {
+    try {
+      const now = new Date().toISOString();
+      const statement = expectedHeadId === undefined
+        ? this.db
+          .prepare('UPDATE project_branches SET head_revision_id = ?, updated_at = ? WHERE id = ? RETURNING *')
+          .bind(headRevisionId, now, branchId)
+        : this.db
+          .prepare('UPDATE project_branches SET head_revision_id = ?, updated_at = ? WHERE id = ? AND head_revision_id IS ? RETURNING *')
+          .bind(headRevisionId, now, branchId, expectedHeadId);
+
+      return (await statement.first<ProjectBranch>()) || null;
+    } catch (error) {
+      console.error('Error updating project branch head:', error);
+      return null;
+    }
+  }
+
+  async deleteProjectBranch(branchId: string, projectId: string): Promise<boolean> {
+    try {
+      await this.db
+        .prepare('DELETE FROM project_branches WHERE id = ? AND project_id = ?')
+        .bind(branchId, projectId)
+        .run();
+
+      return true;
+    } catch (error) {
+      console.error('Error deleting project branch:', error);
+      return false;
+    }
+  }
+
+  // Project draft operations
+  async getProjectDraft(projectId: string, userId: string): Promise<ProjectDraft | null> {
+    try {
+      const result = await this.db
+        .prepare('SELECT * FROM project_drafts WHERE project_id = ? AND user_id = ?')
+        .bind(projectId, userId)
+        .first<ProjectDraft>();
+
+      return result || null;
+    } catch (error) {
+      console.error('Error getting project draft:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Write a project's draft. expectedVersion is the version the writer last
+   * saw, or null when it saw no draft; null is returned if the stored draft
+   * has moved on since.
+   */
+  async saveProjectDraft(
+    draft: Omit<ProjectDraft, 'version' | 'created_at' | 'updated_at'>,
+    expectedVersion: number | null
+  ): Promise<ProjectDraft | null> {
+    try {
+      const now = new Date().toISOString();
+      const statement = expectedVersion === null
+        ? this.db
+          .prepare(`
+            INSERT INTO project_drafts (project_id, user_id, svg_data, metadata, operation_layers, base_revision_id, version, created_at, updated_at)
+            VALUES (?, ?, ?, ?, ?, ?, 1, ?, ?)
+            ON CONFLICT (project_id) DO NOTHING
+            RETURNING *
+          `)
+          .bind(draft.project_id, draft.user_id, draft.svg_data, draft.metadata ?? null, draft.operation_layers ?? null, draft.base_revision_id, now, now)
+        : this.db
+          .prepare(`
+            UPDATE project_drafts
+            SET svg_data = ?, metadata = ?, operation_layers = ?, base_revision_id = ?, version = version + 1, updated_at = ?
+            WHERE project_id = ? AND user_id = ? AND version = ?
+            RETURNING *
+          `)
+          .bind(draft.svg_data, draft.metadata ?? null, draft.operation_layers ?? null, draft.base_revision_id, now, draft.project_id, draft.user_id, expectedVersion);
+
+      return (await statement.first<ProjectDraft>()) || null;
+    } catch (error) {
+      console.error('Error saving project draft:', error);
+      return null;
+    }
+  }
+
+  async deleteProjectDraft(projectId: string, userId: string): Promise<boolean> {
+    try {
+      await this.db
+        .prepare('DELETE FROM project_drafts WHERE project_id = ? AND user_id = ?')
+        .bind(projectId, userId)
+        .run();
+
+      return true;
+    } catch (error) {
+      console.error('Error deleting project draft:', error);
+      return false;
+    }
+  }
+
+  // Component plugin operations
+  async createComponentPlugin(plugin: Omit<ComponentPluginRecord, 'created_at' | 'updated_at'>): Promise<ComponentPluginRecord | null> {
+    try {
+      const now = new Date().toISOString();
+      const result = await this.db
+        .prepare(`
+          INSERT INTO component_plugins (id, user_id, tenant_id, component_id, spec, generator, created_at, updated_at)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+          RETURNING *
+        `)
+        .bind(plugin.id, plugin.user_id, plugin.tenant_id || null, plugin.component_id, plugin.spec, plugin.generator, now, now)
+        .first<ComponentPluginRecord>();
+
+      return result || null;
+    } catch (error) {
+      console.error('Error creating component plugin:', error);
+      return null;
+    }
+  }
+
+  async getComponentPlugins(userId: string, tenantId?: string | null): Promise<ComponentPluginRecord[]> {
+    try {
+      // The user's own plugins, plus any shared with their tenant
+      const result = await this.db
+        .prepare(`
+          SELECT * FROM component_plugins
+          WHERE user_id = ? OR (tenant_id IS NOT NULL AND tenant_id = ?)
+          ORDER BY created_at ASC
+        `)
+        .bind(userId, tenantId || null)
+        .all<ComponentPluginRecord>();
+
+      return result.results || [];
+    } catch (error) {
+      console.error('Error getting component plugins:', error);
+      return [];
+    }
+  }
+
+  async getComponentPlugin(id: string, userId: string): Promise<ComponentPluginRecord | null> {
+    try {
+      const result = await this.db
+        .prepare('SELECT * FROM component_plugins WHERE id = ? AND user_id = ?')
+        .bind(id, userId)
+        .first<ComponentPluginRecord>();
+
+      return result || null;
+    } catch (error) {
+      console.error('Error getting component plugin:', error);
+      return null;
+    }
+  }
+
+  async updateComponentPlugin(id: string, userId: string, updates: Pick<ComponentPluginRecord, 'tenant_id' | 'component_id' | 'spec' | 'generator'>): Promise<ComponentPluginRecord | null> {
+    try {
+      const result = await this.db
+        .prepare(`
+          UPDATE component_plugins
+          SET tenant_id = ?, component_id = ?, spec = ?, generator = ?, updated_at = ?
+          WHERE id = ? AND user_id = ?
+          RETURNING *
+        `)
+        .bind(updates.tenant_id || null, updates.component_id, updates.spec, updates.generator, new Date().toISOString(), id, userId)
+        .first<ComponentPluginRecord>();
+
+      return result || null;
+    } catch (error) {
+      console.error('Error updating component plugin:', error);
+      return null;
+    }
+  }
+
+  async deleteComponentPlugin(id: string, userId: string): Promise<boolean> {
+    try {
+      const result = await this.db
+        .prepare('DELETE FROM component_plugins WHERE id = ? AND user_id = ?')
+        .bind(id, userId)
+        .run();
+
+      return (result.meta?.changes || 0) > 0;
+    } catch (error) {
+      console.error('Error deleting component plugin:', error);
+      return false;
+    }
+  }
+
+  // Custom material operations
+  async createCustomMaterial(material: Omit<CustomMaterialRecord, 'created_at' | 'updated_at'>): Promise<CustomMaterialRecord | null> {
+    try {
+      const now = new Date().toISOString();
+      const result = await this.db
+        .prepare(`
+          INSERT INTO custom_materials (id, user_id, tenant_id, material_key, name, properties, created_at, updated_at)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+          RETURNING *
+        `)
+        .bind(material.id, material.user_id, material.tenant_id || null, material.material_key, material.name, material.properties, now, now)
+        .first<CustomMaterialRecord>();
+
+      return result || null;
+    } catch (error) {
+      console.error('Error creating custom material:', error);
+      return null;
+    }
+  }
+
+  async getCustomMaterials(userId: string, tenantId?: string | null): Promise<CustomMaterialRecord[]> {
+    try {
+      const result = await this.db
+        .prepare(`
+          SELECT * FROM custom_materials
+          WHERE user_id = ? OR (tenant_id IS NOT NULL AND tenant_id = ?)
+          ORDER BY name ASC
+        `)
+        .bind(userId, tenantId || null)
+        .all<CustomMaterialRecord>();
+
+      return result.results || [];
+    } catch (error) {
+      console.error('Error getting custom materials:', error);
+      return [];
+    }
+  }
+
+  async getCustomMaterial(id: string, userId: string): Promise<CustomMaterialRecord | null> {
+    try {
+      const result = await this.db
+        .prepare('SELECT * FROM custom_materials WHERE id = ? AND user_id = ?')
+        .bind(id, userId)
+        .first<CustomMaterialRecord>();
+
+      return result || null;
+    } catch (error) {
+      console.error('Error getting custom material:', error);
+      return null;
+    }
+  }
+
+  async updateCustomMaterial(id: string, userId: string, updates: Pick<CustomMaterialRecord, 'tenant_id' | 'material_key' | 'name' | 'properties'>): Promise<CustomMaterialRecord | null> {
+    try {
+      const result = await this.db
+        .prepare(`
+          UPDATE custom_materials
+          SET tenant_id = ?, material_key = ?, name = ?, properties = ?, updated_at = ?
+          WHERE id = ? AND user_id = ?
+          RETURNING *
+        `)
+        .bind(updates.tenant_id || null, updates.material_key, updates.name, updates.properties, new Date().toISOString(), id, userId)
+        .first<CustomMaterialRecord>();
+
+      return result || null;
+    } catch (error) {
+      console.error('Error updating custom material:', error);
+      return null;
+    }
+  }
+
+  async deleteCustomMaterial(id: string, userId: string): Promise<boolean> {
+    try {
+      const result = await this.db
+        .prepare('DELETE FROM custom_materials WHERE id = ? AND user_id = ?')
+        .bind(id, userId)
+        .run();
+
+      return (result.meta?.changes || 0) > 0;
+    } catch (error) {
+      console.error('Error deleting custom material:', error);
+      return false;
+    }
+  }
+
+  // Machine profile operations
+  async createMachineProfile(machine: Omit<MachineProfileRecord, 'created_at' | 'updated_at'>): Promise<MachineProfileRecord | null> {
+    try {
+      const now = new Date().toISOString();
+      const result = await this.db
+        .prepare(`
+          INSERT INTO machine_profiles (id, user_id, name, profile, created_at, updated_at)
+          VALUES (?, ?, ?, ?, ?, ?)
+          RETURNING *
+        `)
+        .bind(machine.id, machine.user_id, machine.name, machine.profile, now, now)
+        .first<MachineProfileRecord>();
+
+      return result || null;
+    } catch (error) {
+      console.error('Error creating machine profile:', error);
+      return null;
+    }
+  }
+
+  async getMachineProfiles(userId: string): Promise<MachineProfileRecord[]> {
+    try {
+      const result = await this.db
+        .prepare('SELECT * FROM machine_profiles WHERE user_id = ? ORDER BY created_at ASC')
+        .bind(userId)
+        .all<MachineProfileRecord>();
+
+      return result.results || [];
+    } catch (error) {
+      console.error('Error getting machine profiles:', error);
+      return [];
+    }
+  }
+
+  async getMachineProfile(id: string, userId: string): Promise<MachineProfileRecord | null> {
+    try {
+      const result = await this.db
+        .prepare('SELECT * FROM machine_profiles WHERE id = ? AND user_id = ?')
+        .bind(id, userId)
+        .first<MachineProfileRecord>();
+
+      return result || null;
+    } catch (error) {
+      console.error('Error getting machine profile:', error);
+      return null;
+    }
+  }
+
+  async updateMachineProfile(id: string, userId: string, updates: Pick<MachineProfileRecord, 'name' | 'profile'>): Promise<MachineProfileRecord | null> {
+    try {
+      const result = await this.db
+        .prepare(`
+          UPDATE machine_profiles
+          SET name = ?, profile = ?, updated_at = ?
+          WHERE id = ? AND user_id = ?
+          RETURNING *
+        `)
+        .bind(updates.name, updates.profile, new Date().toISOString(), id, userId)
+        .first<MachineProfileRecord>();
+
+      return result || null;
+    } catch (error) {
+      console.error('Error updating machine profile:', error);
+      return null;
+    }
+  }
+
+  async deleteMachineProfile(id: string, userId: string): Promise<boolean> {
+    try {
+      const result = await this.db
+        .prepare('DELETE FROM machine_profiles WHERE id = ? AND user_id = ?')
+        .bind(id, userId)
+        .run();
+
+      // Fall back to the default machine if the deleted one was preferred
+      await this.db
+        .prepare('UPDATE profiles SET preferred_machine_id = NULL WHERE id = ? AND preferred_machine_id = ?')
+        .bind(userId, id)
+        .run();
+
+      return (result.meta?.changes || 0) > 0;
+    } catch (error) {
+      console.error('Error deleting machine profile:', error);
+      return false;
+    }
+  }
+
+  async setPreferredMachine(userId: string, machineId: string | null): Promise<boolean> {
+    try {
+      const result = await this.db
+        .prepare('UPDATE profiles SET preferred_machine_id = ?, updated_at = ? WHERE id = ?')
+        .bind(machineId, new Date().toISOString(), userId)
+        .run();
+
+      return (result.meta?.changes || 0) > 0;
+    } catch (error) {
+      console.error('Error setting preferred machine:', error);
+      return false;
+    }
+  }
+
   // Blog post operations
   async getBlogPosts(published: boolean = true): Promise<BlogPost[]> {
     try {
@@ -699,6 +1554,26 @@ export class DatabaseService {
     }
   }
 
+  /**
+   * Total quantity recorded for any of the features since a unix timestamp
+   */
+  async getUsageTotal(userId: string, features: string[], since: number): Promise<number> {
+    try {
+      const result = await this.db
+        .prepare(`
+          SELECT COALESCE(SUM(quantity), 0) AS total FROM usage_records
+          WHERE user_id = ? AND feature IN (${features.map(() => '?').join(', ')}) AND timestamp >= ?
+        `)
+        .bind(userId, ...features, since)
+        .first<{ total: number }>();
+
+      return result?.total || 0;
+    } catch (error) {
+      console.error('Error getting usage total:', error);
+      return 0;
+    }
+  }
+
   async getUsageQuota(userId: string, feature: string): Promise<UsageQuota | null> {
     try {
       const today = new Date().toISOString().split('T')[0];
@@ -1081,6 +1956,156 @@ export class DatabaseService {
       return [];
     }
   }
+
+  // AI usage telemetry
+  async recordAIUsage(record: Omit<AIUsageRecord, 'id' | 'created_at'>): Promise<boolean> {
+    try {
+      // created_at keeps its SQLite default so range queries compare like with like
+      await this.db
+        .prepare(`
+          INSERT INTO ai_usage_stats (id, user_id, tenant_id, model_used, operation_type, input_tokens, output_tokens, tokens_used, cost_usd, response_time_ms, success, error_details)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        `)
+        .bind(
+          crypto.randomUUID(),
+          record.user_id ?? null,
+          record.tenant_id ?? null,
+          record.model_used,
+          record.operation_type,
+          record.input_tokens ?? null,
+          record.output_tokens ?? null,
+          record.tokens_used ?? null,
+          record.cost_usd ?? null,
+          record.response_time_ms,
+          record.success ? 1 : 0,
+          record.error_details ?? null
+        )
+        .run();
+
+      return true;
+    } catch (error) {
+      console.error('Error recording AI usage:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Calls, tokens and cost between two SQLite datetimes (UTC), grouped by one dimension.
+   * Time buckets come back oldest first, everything else by cost.
+   */
+  async getAISpend(groupBy: AISpendGrouping, since: string, until: string, limit = 100): Promise<AISpendRow[]> {
+    const keys: Record<AISpendGrouping, string> = {
+      model: 'a.model_used',
+      task: 'a.operation_type',
+      user: 'a.user_id',
+      tenant: 'a.tenant_id',
+      hour: "strftime('%Y-%m-%d %H:00', a.created_at)",
+      day: 'DATE(a.created_at)',
+      month: "strftime('%Y-%m', a.created_at)"
+    };
+    const isTime = groupBy === 'hour' || groupBy === 'day' || groupBy === 'month';
+
+    try {
+      const result = await this.db
+        .prepare(`
+          SELECT
+            ${keys[groupBy]} AS key,
+            ${groupBy === 'user' ? 'MAX(p.email)' : 'NULL'} AS label,
+            COUNT(*) AS calls,
+            SUM(CASE WHEN a.success = 0 THEN 1 ELSE 0 END) AS failures,
+            COALESCE(SUM(a.input_tokens), 0) AS input_tokens,
+            COALESCE(SUM(a.output_tokens), 0) AS output_tokens,
+            COALESCE(SUM(a.cost_usd), 0) AS cost_usd,
+            SUM(CASE WHEN a.cost_usd IS NULL THEN 1 ELSE 0 END) AS unpriced_calls,
+            COALESCE(AVG(a.response_time_ms), 0) AS avg_response_time_ms
+          FROM ai_usage_stats a
+          LEFT JOIN profiles p ON p.id = a.user_id
+          WHERE a.created_at >= ? AND a.created_at < ?
+          GROUP BY key
+          ORDER BY ${isTime ? 'key ASC' : 'cost_usd DESC, calls DESC'}
+          LIMIT ?
+        `)
+        .bind(since, until, limit)
+        .all<AISpendRow>();
+
+      return result.results || [];
+    } catch (error) {
+      console.error('Error getting AI spend:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Total cost in USD for a budget scope since a SQLite datetime (UTC)
+   */
+  async getAISpendTotal(scope: AIBudget['scope'], scopeId: string, since: string): Promise<number> {
+    const filter = scope === 'user' ? 'AND user_id = ?' : scope === 'tenant' ? 'AND tenant_id = ?' : '';
+
+    try {
+      const result = await this.db
+        .prepare(`SELECT COALESCE(SUM(cost_usd), 0) AS total FROM ai_usage_stats WHERE created_at >= ? ${filter}`)
+        .bind(...(scope === 'global' ? [since] : [since, scopeId]))
+        .first<{ total: number }>();
+
+      return result?.total || 0;
+    } catch (error) {
+      console.error('Error getting AI spend total:', error);
+      return 0;
+    }
+  }
+
+  async getAIBudgets(): Promise<AIBudget[]> {
+    try {
+      const result = await this.db
+        .prepare('SELECT * FROM ai_budgets ORDER BY scope ASC, scope_id ASC, period ASC')
+        .all<AIBudget>();
+
+      return result.results || [];
+    } catch (error) {
+      console.error('Error getting AI budgets:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Create a budget, or replace the limit of the one already set for its scope and period
+   */
+  async upsertAIBudget(budget: Omit<AIBudget, 'created_at' | 'updated_at'>): Promise<AIBudget | null> {
+    try {
+      const now = new Date().toISOString();
+      const result = await this.db
+        .prepare(`
+          INSERT INTO ai_budgets (id, scope, scope_id, period, limit_usd, alert_threshold, created_by, created_at, updated_at)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+          ON CONFLICT(scope, scope_id, period) DO UPDATE SET
+            limit_usd = excluded.limit_usd,
+            alert_threshold = excluded.alert_threshold,
+            updated_at = excluded.updated_at
+          RETURNING *
+        `)
+        .bind(budget.id, budget.scope, budget.scope_id, budget.period, budget.limit_usd, budget.alert_threshold, budget.created_by ?? null, now, now)
+        .first<AIBudget>();
+
+      return result || null;
+    } catch (error) {
+      console.error('Error saving AI budget:', error);
+      return null;
+    }
+  }
+
+  async deleteAIBudget(id: string): Promise<boolean> {
+    try {
+      const result = await this.db
+        .prepare('DELETE FROM ai_budgets WHERE id = ?')
+        .bind(id)
+        .run();
+
+      return (result.meta?.changes || 0) > 0;
+    } catch (error) {
+      console.error('Error deleting AI budget:', error);
+      return false;
+    }
+  }
 }
 
 // Create a mock database service for build time
@@ -1134,4 +2159,4 @@ export function getAuthService() {
 // Temporary session function for backward compatibility
 export function getSessionFromRequest() {
   return Promise.resolve(null);
-}
\ No newline at end of file
+}
@@ -0,0 +1,283 @@
+// Design diff
+// Shape-by-shape comparison of two versions of a design, with an overlay for review
+
+import {
+  distance,
+  getBoundingBox,
+  parseSVG,
+  pointToSegmentDistance,
+  pointsToPathData,
+  polylineLength,
+  type Point,
+  type SVGShape
+} from './svg-geometry';
+
+export interface DiffShape {
+  id?: string;
+  element: string;
+  closed: boolean;
+  bounds: { x: number; y: number; width: number; height: number }; // mm
+}
+
+export interface MovedShape {
+  before: DiffShape;
+  after: DiffShape;
+  offset: Point; // mm
+}
+
+export interface ResizedShape {
+  before: DiffShape;
+  after: DiffShape;
+  widthChange: number; // mm
+  heightChange: number; // mm
+}
+
+export interface DesignDiff {
+  added: DiffShape[];
+  removed: DiffShape[];
+  moved: MovedShape[];
+  resized: ResizedShape[];
+  unchanged: number;
+  dimensions: {
+    before: { width: number; height: number };
+    after: { width: number; height: number };
+    changed: boolean;
+  };
+  overlay: string;
+}
+
+export interface DiffOptions {
+  tolerance?: number; // mm two shapes may differ by and still count as the same
+}
+
+// Overlay colours: green for what the newer version adds, red for what it takes away
+export const DIFF_COLORS = {
+  added: '#16A34A',
+  removed: '#DC2626',
+  unchanged: '#9CA3AF'
+};
+
+const DEFAULT_TOLERANCE = 0.1;
+const OUTLINE_SAMPLES = 32;
+
+interface IndexedShape {
+  shape: SVGShape;
+  summary: DiffShape;
+  center: Point;
+  length: number;
+}
+
+export interface ShapeMatches {
+  unchanged: [SVGShape, SVGShape][];
+  moved: [SVGShape, SVGShape][];
+  resized: [SVGShape, SVGShape][];
+  added: SVGShape[];
+  removed: SVGShape[];
+}
+
+/**
+ * Compare two SVG designs by shape. A shape that keeps its outline but not
+ * its position has moved; one that stays put but changes size has been
+ * resized; anything else without a partner was added or removed.
+ */
+export function diffDesigns(beforeSvg: string, afterSvg: string, options: DiffOptions = {}): DesignDiff {
+  const tolerance = options.tolerance ?? DEFAULT_TOLERANCE;
+  const before = parseSVG(beforeSvg);
+  const after = parseSVG(afterSvg);
+  const { unchanged, moved, resized, added, removed } = pairShapes(indexShapes(before.shapes), indexShapes(after.shapes), tolerance);
+
+  const width = Math.max(before.width, after.width);
+  const height = Math.max(before.height, after.height);
+
+  return {
+    added: added.map(shape => shape.summary),
+    removed: removed.map(shape => shape.summary),
+    moved: moved.map(([a, b]) => ({
+      before: a.summary,
+      after: b.summary,
+      offset: { x: round(b.center.x - a.center.x), y: round(b.center.y - a.center.y) }
+    })),
+    resized: resized.map(([a, b]) => ({
+      before: a.summary,
+      after: b.summary,
+      widthChange: round(b.summary.bounds.width - a.summary.bounds.width),
+      heightChange: round(b.summary.bounds.height - a.summary.bounds.height)
+    })),
+    unchanged: unchanged.length,
+    dimensions: {
+      before: { width: round(before.width), height: round(before.height) },
+      after: { width: round(after.width), height: round(after.height) },
+      changed: Math.abs(before.width - after.width) > tolerance || Math.abs(before.height - after.height) > tolerance
+    },
+    overlay: renderOverlay(width, height, {
+      unchanged: unchanged.map(([, b]) => b.shape),
+      removed: [...removed, ...moved.map(([a]) => a), ...resized.map(([a]) => a)].map(shape => shape.shape),
+      added: [...added, ...moved.map(([, b]) => b), ...resized.map(([, b]) => b)].map(shape => shape.shape)
+    })
+  };
+}
+
+/**
+ * Pair up the shapes of two parsed designs the same way diffDesigns does,
+ * keeping the parsed shapes so callers can work on the source elements
+ */
+export function matchShapes(before: SVGShape[], after: SVGShape[], tolerance: number = DEFAULT_TOLERANCE): ShapeMatches {
+  const matches = pairShapes(indexShapes(before), indexShapes(after), tolerance);
+  const toShapes = (pairs: [IndexedShape, IndexedShape][]) => pairs.map(([a, b]) => [a.shape, b.shape] as [SVGShape, SVGShape]);
+
+  return {
+    unchanged: toShapes(matches.unchanged),
+    moved: toShapes(matches.moved),
+    resized: toShapes(matches.resized),
+    added: matches.added.map(shape => shape.shape),
+    removed: matches.removed.map(shape => shape.shape)
+  };
+}
+
+function pairShapes(before: IndexedShape[], after: IndexedShape[], tolerance: number) {
+  let removed = before;
+  let added = after;
+
+  const unchanged: [IndexedShape, IndexedShape][] = [];
+  const moved: [IndexedShape, IndexedShape][] = [];
+  const resized: [IndexedShape, IndexedShape][] = [];
+
+  // Matched in order of confidence so a resized shape cannot claim an exact partner
+  const passes: { pairs: [IndexedShape, IndexedShape][]; matches: (a: IndexedShape, b: IndexedShape) => boolean; cost: (a: IndexedShape, b: IndexedShape) => number }[] = [
+    {
+      pairs: unchanged,
+      matches: (a, b) => distance(a.center, b.center) <= tolerance && sameOutline(a, b, { x: 0, y: 0 }, tolerance),
+      cost: (a, b) => distance(a.center, b.center)
+    },
+    {
+      pairs: moved,
+      matches: (a, b) => sameOutline(a, b, { x: b.center.x - a.center.x, y: b.center.y - a.center.y }, tolerance),
+      cost: (a, b) => distance(a.center, b.center)
+    },
+    {
+      pairs: resized,
+      matches: (a, b) => a.shape.closed === b.shape.closed && a.shape.element === b.shape.element && overlaps(a.summary.bounds, b.summary.bounds),
+      cost: (a, b) => distance(a.center, b.center)
+    }
+  ];
+
+  for (const pass of passes) {
+    const candidates: { a: IndexedShape; b: IndexedShape; cost: number }[] = [];
+    for (const a of removed) {
+      for (const b of added) {
+        if (pass.matches(a, b)) candidates.push({ a, b, cost: pass.cost(a, b) });
+      }
+    }
+
+    // Closest pairs first, each shape used once
+    const used = new Set<IndexedShape>();
+    candidates.sort((x, y) => x.cost - y.cost);
+    for (const { a, b } of candidates) {
+      if (used.has(a) || used.has(b)) continue;
+      used.add(a);
+      used.add(b);
+      pass.pairs.push([a, b]);
+    }
+    removed = removed.filter(shape => !used.has(shape));
+    added = added.filter(shape => !used.has(shape));
+  }
+
+  return { unchanged, moved, resized, added, removed };
+}
+
+// Unchanged shapes underneath in grey, then the old positions in red and the new ones in green
+function renderOverlay(width: number, height: number, layers: Record<keyof typeof DIFF_COLORS, SVGShape[]>): string {
+  const strokeWidth = round(Math.max(width, height) / 400 || 0.5);
+  const groups = (['unchanged', 'removed', 'added'] as const).map(kind => {
+    const paths = layers[kind].map(shape => `    <path d="${pointsToPathData([{ points: shape.points, closed: shape.closed }], 3)}"/>`);
+    const dash = kind === 'removed' ? ` stroke-dasharray="${round(strokeWidth * 4)} ${round(strokeWidth * 2)}"` : '';
+    return `  <g id="${kind}" fill="none" stroke="${DIFF_COLORS[kind]}" stroke-width="${strokeWidth}"${dash}>\n${paths.join('\n')}\n  </g>`;
+  });
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${round(width)}mm" height="${round(height)}mm" viewBox="0 0 ${round(width)} ${round(height)}">`,
+    ...groups,
+    '</svg>'
+  ].join('\n');
+}
+
+function indexShapes(shapes: SVGShape[]): IndexedShape[] {
+  return shapes
+    .filter(shape => shape.points.length >= 2)
+    .map(shape => {
+      const box = getBoundingBox(shape.points);
+      return {
+        shape,
+        summary: {
+          ...(shape.id ? { id: shape.id } : {}),
+          element: shape.element,
+          closed: shape.closed,
+          bounds: { x: round(box.x), y: round(box.y), width: round(box.width), height: round(box.height) }
+        },
+        center: box.center,
+        length: polylineLength(shape.points, shape.closed)
+      };
+    });
+}
+
+/**
+ * Whether b traces the same outline as a once shifted by offset. Cheap size
+ * checks come first; the outlines are then compared point by point both ways.
+ */
+function sameOutline(a: IndexedShape, b: IndexedShape, offset: Point, tolerance: number): boolean {
+  if (a.shape.closed !== b.shape.closed) return false;
+  if (Math.abs(a.summary.bounds.width - b.summary.bounds.width) > tolerance * 2) return false;
+  if (Math.abs(a.summary.bounds.height - b.summary.bounds.height) > tolerance * 2) return false;
+  if (Math.abs(a.length - b.length) > tolerance * 4 + a.length * 0.01) return false;
+
+  const shifted = a.shape.points.map(p => ({ x: p.x + offset.x, y: p.y + offset.y }));
+  return outlineDeviation(shifted, a.shape.closed, b.shape.points, b.shape.closed) <= tolerance &&
+    outlineDeviation(b.shape.points, b.shape.closed, shifted, a.shape.closed) <= tolerance;
+}
+
+// Furthest that evenly spaced samples along one polyline stray from another
+function outlineDeviation(from: Point[], fromClosed: boolean, to: Point[], toClosed: boolean): number {
+  const segments = toClosed ? to.length : to.length - 1;
+  let deviation = 0;
+
+  for (const sample of samplePolyline(from, fromClosed, OUTLINE_SAMPLES)) {
+    let nearest = Infinity;
+    for (let i = 0; i < segments && nearest > 0; i++) {
+      nearest = Math.min(nearest, pointToSegmentDistance(sample, to[i], to[(i + 1) % to.length]));
+    }
+    deviation = Math.max(deviation, nearest);
+  }
+
+  return deviation;
+}
+
+function samplePolyline(points: Point[], closed: boolean, count: number): Point[] {
+  const path = closed ? [...points, points[0]] : points;
+  const total = polylineLength(points, closed);
+  if (total === 0) return [points[0]];
+
+  const samples: Point[] = [];
+  let walked = 0;
+  let target = 0;
+  const step = total / count;
+
+  for (let i = 0; i < path.length - 1 && samples.length < count; i++) {
+    const length = distance(path[i], path[i + 1]);
+    while (target <= walked + length && samples.length < count) {
+      const t = length === 0 ? 0 : (target - walked) / length;
+      samples.push({ x: path[i].x + (path[i + 1].x - path[i].x) * t, y: path[i].y + (path[i + 1].y - path[i].y) * t });
+      target += step;
+    }
+    walked += length;
+  }
+
+  return samples;
+}
+
+function overlaps(a: DiffShape['bounds'], b: DiffShape['bounds']): boolean {
+  return a.x <= b.x + b.width && b.x <= a.x + a.width && a.y <= b.y + b.height && b.y <= a.y + a.height;
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
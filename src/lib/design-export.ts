@@ -0,0 +1,236 @@
+// Design export
+// Renders a project in any export format and signs short-lived links to download the result
+
+import { applyOperationLayers, type OperationLayerModel } from './operation-layers';
+import { exportDXF, type DxfVersion } from './dxf';
+import { exportEPS, exportIllustrator, exportPDF } from './vector-export';
+import { exportPNG } from './png-export';
+import { generateMachineGCode, type MachineProfile } from './machine-profiles';
+import type { ExportFormat } from './entitlements';
+
+export interface ExportFormatInfo {
+  id: ExportFormat;
+  name: string;
+  extension: string;
+  contentType: string;
+}
+
+// Settings that change the file; they travel inside download links, so keep them small
+export interface ExportOptions {
+  dpi?: number; // png
+  scale?: number; // png
+  dxfVersion?: DxfVersion;
+  dxfUnits?: 'mm' | 'in';
+  machineId?: string; // gcode, defaults to the user's preferred machine
+  includeMetadata?: boolean; // svg
+}
+
+export interface ExportSource {
+  svg: string;
+  title: string;
+  material: string;
+  layers?: OperationLayerModel;
+  machine?: MachineProfile; // gcode
+}
+
+export interface RenderedExport {
+  body: Uint8Array;
+  filename: string;
+  contentType: string;
+  warnings: string[];
+}
+
+export interface DownloadClaims {
+  projectId: string;
+  userId: string;
+  format: ExportFormat;
+  options: ExportOptions;
+  digest: string; // SHA-256 of the rendered file, so a changed design is not served under an old link
+  expires: number; // unix seconds
+}
+
+export class ExportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ExportError';
+  }
+}
+
+export const EXPORT_FORMATS: Record<ExportFormat, ExportFormatInfo> = {
+  svg: { id: 'svg', name: 'SVG', extension: 'svg', contentType: 'image/svg+xml' },
+  png: { id: 'png', name: 'PNG', extension: 'png', contentType: 'image/png' },
+  pdf: { id: 'pdf', name: 'PDF', extension: 'pdf', contentType: 'application/pdf' },
+  dxf: { id: 'dxf', name: 'DXF', extension: 'dxf', contentType: 'application/dxf' },
+  gcode: { id: 'gcode', name: 'G-code', extension: 'gcode', contentType: 'text/x-gcode' },
+  ai: { id: 'ai', name: 'Adobe Illustrator', extension: 'ai', contentType: 'application/postscript' },
+  eps: { id: 'eps', name: 'EPS', extension: 'eps', contentType: 'application/postscript' }
+};
+
+export const DOWNLOAD_TTL = 15 * 60; // seconds
+
+const DPI_OPTIONS = [72, 150, 300, 600];
+
+export function isExportFormat(format: unknown): format is ExportFormat {
+  return typeof format === 'string' && format in EXPORT_FORMATS;
+}
+
+/**
+ * Check export settings from user input, keeping only those the format uses.
+ * Throws with a message suitable for the API response.
+ */
+export function validateExportOptions(format: ExportFormat, input: any): ExportOptions {
+  const options: ExportOptions = {};
+  if (!input || typeof input !== 'object') return options;
+
+  if (format === 'png') {
+    if (input.dpi !== undefined) {
+      if (!DPI_OPTIONS.includes(Number(input.dpi))) throw new Error(`DPI must be one of ${DPI_OPTIONS.join(', ')}`);
+      options.dpi = Number(input.dpi);
+    }
+    if (input.scale !== undefined) {
+      const scale = Number(input.scale);
+      if (!Number.isFinite(scale) || scale < 0.1 || scale > 4) throw new Error('Scale must be between 0.1 and 4');
+      options.scale = Math.round(scale * 100) / 100;
+    }
+  }
+
+  if (format === 'dxf') {
+    if (input.dxfVersion !== undefined) {
+      if (input.dxfVersion !== 'R12' && input.dxfVersion !== 'R2000') throw new Error('DXF version must be R12 or R2000');
+      options.dxfVersion = input.dxfVersion;
+    }
+    if (input.dxfUnits !== undefined) {
+      if (input.dxfUnits !== 'mm' && input.dxfUnits !== 'in') throw new Error('DXF units must be mm or in');
+      options.dxfUnits = input.dxfUnits;
+    }
+  }
+
+  if (format === 'gcode' && input.machineId !== undefined) {
+    if (typeof input.machineId !== 'string' || input.machineId.length > 100) throw new Error('Invalid machine');
+    options.machineId = input.machineId;
+  }
+
+  if (format === 'svg' && input.includeMetadata !== undefined) {
+    options.includeMetadata = input.includeMetadata === true;
+  }
+
+  return options;
+}
+
+/**
+ * Render a design in one format. Output is deterministic for the same
+ * design and options, which is what lets a download link render again
+ * instead of storing the file.
+ */
+export async function renderExport(source: ExportSource, format: ExportFormat, options: ExportOptions = {}): Promise<RenderedExport> {
+  const info = EXPORT_FORMATS[format];
+  const filename = `${source.title.replace(/[^a-z0-9_-]/gi, '_').slice(0, 100) || 'project'}.${info.extension}`;
+  const encoder = new TextEncoder();
+  const vectorOptions = { title: source.title, layers: source.layers };
+  const warnings: string[] = [];
+
+  let body: Uint8Array;
+  try {
+    switch (format) {
+      case 'svg':
+        body = encoder.encode(exportSVG(source, options));
+        break;
+      case 'png':
+        body = await exportPNG(source.svg, { ...vectorOptions, dpi: options.dpi, scale: options.scale });
+        break;
+      case 'pdf':
+        body = encoder.encode(exportPDF(source.svg, vectorOptions));
+        break;
+      case 'dxf':
+        body = encoder.encode(exportDXF(source.svg, { version: options.dxfVersion, units: options.dxfUnits, layers: source.layers }));
+        break;
+      case 'gcode': {
+        if (!source.machine) throw new ExportError('A machine is required for G-code');
+        const output = generateMachineGCode(source.svg, source.material, source.machine, {}, source.layers);
+        warnings.push(...output.warnings);
+        body = encoder.encode(output.gcode);
+        break;
+      }
+      case 'ai':
+        body = encoder.encode(exportIllustrator(source.svg, vectorOptions));
+        break;
+      case 'eps':
+        body = encoder.encode(exportEPS(source.svg, vectorOptions));
+        break;
+    }
+  } catch (error) {
+    if (error instanceof ExportError) throw error;
+    // Geometry and size problems come back as plain errors with readable messages
+    throw new ExportError(error instanceof Error ? error.message : `Could not export ${info.name}`);
+  }
+
+  return { body, filename, contentType: info.contentType, warnings };
+}
+
+export async function digestExport(body: Uint8Array): Promise<string> {
+  return base64Url(await crypto.subtle.digest('SHA-256', body as BufferSource));
+}
+
+/**
+ * A tamper-proof token naming exactly what may be downloaded and until when
+ */
+export async function signDownload(secret: string, claims: DownloadClaims): Promise<string> {
+  const payload = base64Url(new TextEncoder().encode(JSON.stringify(claims)));
+  const signature = await crypto.subtle.sign('HMAC', await signingKey(secret), new TextEncoder().encode(payload));
+  return `${payload}.${base64Url(signature)}`;
+}
+
+/**
+ * Claims of a valid, unexpired token, otherwise null
+ */
+export async function verifyDownload(secret: string, token: string): Promise<DownloadClaims | null> {
+  const [payload, signature] = token.split('.');
+  if (!payload || !signature) return null;
+
+  try {
+    const valid = await crypto.subtle.verify('HMAC', await signingKey(secret), fromBase64Url(signature) as BufferSource, new TextEncoder().encode(payload));
+    if (!valid) return null;
+
+    const claims = JSON.parse(new TextDecoder().decode(fromBase64Url(payload))) as DownloadClaims;
+    if (!isExportFormat(claims.format) || typeof claims.expires !== 'number' || claims.expires < Math.floor(Date.now() / 1000)) {
+      return null;
+    }
+    return claims;
+  } catch (error) {
+    console.error('Download token error:', error);
+    return null;
+  }
+}
+
+function exportSVG(source: ExportSource, options: ExportOptions): string {
+  // Each shape leaves in its layer's colour, which laser software maps to an operation
+  const svg = source.layers ? applyOperationLayers(source.svg, source.layers) : source.svg;
+  if (!options.includeMetadata) return svg;
+
+  const comment = `<!-- Generated by CutGlueBuild\nProject: ${source.title.replace(/--/g, '-')}\nMaterial: ${source.material}\n-->`;
+  return svg.replace('<svg', `${comment}\n<svg`);
+}
+
+// Derived from the secret with a purpose label, so download tokens can never pass as session tokens
+async function signingKey(secret: string): Promise<CryptoKey> {
+  return crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(`export-download:${secret}`),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign', 'verify']
+  );
+}
+
+function base64Url(data: ArrayBuffer | Uint8Array): string {
+  const bytes = data instanceof Uint8Array ? data : new Uint8Array(data);
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) binary += String.fromCharCode(bytes[i]);
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=/g, '');
+}
+
+function fromBase64Url(value: string): Uint8Array {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64.padEnd(base64.length + ((4 - (base64.length % 4)) % 4), '='));
+  return Uint8Array.from(binary, char => char.charCodeAt(0));
+}
@@ -1,6 +1,6 @@
 // Enhanced Documentation Generation System
 import type { Env, UserProject } from './database';
-import { trackAICall, aiRateLimiter } from './ai-usage-tracker';
+import { trackAICall, aiRateLimiter, type AICallContext, type AIRateLimiter } from './ai-usage-tracker';
 
 export interface DocumentationRequest {
   projectTitle: string;
@@ -65,21 +65,16 @@ export interface ComprehensiveDocumentation {
 export class DocumentationGenerator {
   private ai: any;
 
-  constructor(ai: any) {
+  constructor(ai: any, private rateLimiter: AIRateLimiter = aiRateLimiter, private usageContext: AICallContext = {}) {
     this.ai = ai;
   }
 
   async generateComprehensiveDocumentation(request: DocumentationRequest): Promise<ComprehensiveDocumentation> {
-    if (!aiRateLimiter.canMakeCall()) {
-      const waitTime = aiRateLimiter.getTimeUntilNextCall();
-      throw new Error(`Rate limit exceeded. Wait ${Math.ceil(waitTime / 1000)} seconds.`);
-    }
+    await this.rateLimiter.acquire();
 
     const model = '@cf/openai/gpt-oss-120b'; // Use complex model for detailed documentation
     
-    return trackAICall(model, 'Documentation Generation', async () => {
-      aiRateLimiter.recordCall();
-      
+    return trackAICall(model, 'Documentation Generation', async (meter) => {
       const prompt = this.createDocumentationPrompt(request);
 
       const response = await this.ai.run(model, {
@@ -97,6 +92,7 @@ export class DocumentationGenerator {
         max_tokens: 4000,
         temperature: 0.3
       });
+      meter.record(response.usage);
 
       try {
         const result = JSON.parse(response.response);
@@ -105,20 +101,15 @@ export class DocumentationGenerator {
         // Fallback if JSON parsing fails
         return this.createFallbackDocumentation(request);
       }
-    });
+    }, this.usageContext);
   }
 
   async generateAssemblySequence(components: ComponentInfo[], projectType: string): Promise<AssemblyStep[]> {
-    if (!aiRateLimiter.canMakeCall()) {
-      const waitTime = aiRateLimiter.getTimeUntilNextCall();
-      throw new Error(`Rate limit exceeded. Wait ${Math.ceil(waitTime / 1000)} seconds.`);
-    }
+    await this.rateLimiter.acquire();
 
     const model = '@cf/openai/gpt-oss-120b';
     
-    return trackAICall(model, 'Assembly Sequence', async () => {
-      aiRateLimiter.recordCall();
-      
+    return trackAICall(model, 'Assembly Sequence', async (meter) => {
       const prompt = `Generate detailed assembly sequence for ${projectType}:
 
 Components:
@@ -163,26 +154,22 @@ Return as JSON array of steps:
         max_tokens: 3500,
         temperature: 0.4
       });
+      meter.record(response.usage);
 
       try {
         return JSON.parse(response.response);
       } catch {
         return this.createFallbackAssemblySteps(components);
       }
-    });
+    }, this.usageContext);
   }
 
   async generateTroubleshootingGuide(projectType: string, materials: MaterialInfo[]): Promise<string[]> {
-    if (!aiRateLimiter.canMakeCall()) {
-      const waitTime = aiRateLimiter.getTimeUntilNextCall();
-      throw new Error(`Rate limit exceeded. Wait ${Math.ceil(waitTime / 1000)} seconds.`);
-    }
+    await this.rateLimiter.acquire();
 
     const model = '@cf/openai/gpt-oss-20b'; // Simpler model for troubleshooting
     
-    return trackAICall(model, 'Troubleshooting Guide', async () => {
-      aiRateLimiter.recordCall();
-      
+    return trackAICall(model, 'Troubleshooting Guide', async (meter) => {
       const prompt = `Generate comprehensive troubleshooting guide for ${projectType} using materials:
 ${materials.map(m => `- ${m.type} (${m.thickness}mm) - ${m.dimensions}`).join('\\n')}
 
@@ -218,6 +205,7 @@ Return as array of troubleshooting entries in format:
         max_tokens: 2000,
         temperature: 0.5
       });
+      meter.record(response.usage);
 
       try {
         return JSON.parse(response.response);
@@ -230,7 +218,7 @@ Return as array of troubleshooting entries in format:
           \"Tear-out: Use backing board | Sharp tools | Proper grain direction\"
         ];
       }
-    });
+    }, this.usageContext);
   }
 
   private createDocumentationPrompt(request: DocumentationRequest): string {
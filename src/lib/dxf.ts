@@ -0,0 +1,810 @@
+// DXF reader and writer
+// Converts R12/R2000 drawings to the normalized millimetre SVG stored on projects, and back
+
+import { fitArcs } from './toolpath-compiler';
+import { parseSVG, getBoundingBox, distance, type Point, type SVGShape } from './svg-geometry';
+import {
+  groupShapesByLayer,
+  inferOperationLayers,
+  operationForName,
+  OPERATION_COLORS,
+  type OperationLayerModel,
+  type OperationType
+} from './operation-layers';
+
+export type DxfVersion = 'R12' | 'R2000';
+export type DxfUnits = 'mm' | 'cm' | 'm' | 'in' | 'ft';
+
+export interface DxfImportOptions {
+  units?: DxfUnits; // overrides whatever the header declares
+  material?: string; // for the settings of the operation layers built from the drawing
+}
+
+export interface DxfLayerSummary {
+  name: string;
+  operation: OperationType;
+  entities: number;
+}
+
+export interface DxfImportResult {
+  svg: string;
+  width: number; // mm
+  height: number; // mm
+  units: DxfUnits;
+  unitsSource: 'option' | 'header' | 'assumed';
+  layers: DxfLayerSummary[];
+  operationLayers: OperationLayerModel;
+  entities: number;
+  warnings: string[];
+}
+
+export interface DxfExportOptions {
+  version?: DxfVersion;
+  units?: 'mm' | 'in';
+  tolerance?: number; // mm - arc fitting tolerance for flattened curves
+  layers?: OperationLayerModel; // inferred from the SVG when not given
+}
+
+// Millimetres per drawing unit
+export const DXF_UNIT_SCALE: Record<DxfUnits, number> = { mm: 1, cm: 10, m: 1000, in: 25.4, ft: 304.8 };
+
+const INSUNITS: Record<number, DxfUnits> = { 1: 'in', 2: 'ft', 4: 'mm', 5: 'cm', 6: 'm' };
+const INSUNITS_CODE: Record<DxfUnits, number> = { in: 1, ft: 2, mm: 4, cm: 5, m: 6 };
+
+// AutoCAD colour index per operation
+const ACI_COLORS: Record<OperationType, number> = { cut: 1, score: 5, engrave: 7, pocket: 8 };
+
+const DEFAULT_EXPORT_TOLERANCE = 0.01; // mm
+const SPLINE_SEGMENTS_PER_SPAN = 16;
+const MAX_SPLINE_POINTS = 5000;
+const EPSILON = 1e-9;
+
+type DxfPair = [number, string];
+
+type DxfEntity =
+  | { kind: 'line'; layer: string; a: Point; b: Point }
+  | { kind: 'circle'; layer: string; center: Point; radius: number }
+  | { kind: 'arc'; layer: string; center: Point; radius: number; start: number; end: number } // degrees, counter-clockwise
+  | { kind: 'polyline'; layer: string; vertices: (Point & { bulge: number })[]; closed: boolean }
+  | { kind: 'points'; layer: string; points: Point[]; closed: boolean };
+
+/**
+ * Read a DXF drawing into normalized SVG: millimetres, Y down, the drawing
+ * extents moved to the origin and one group per DXF layer
+ */
+export function importDXF(dxf: string, options: DxfImportOptions = {}): DxfImportResult {
+  const pairs = tokenize(dxf);
+  const warnings: string[] = [];
+  const header = readHeader(pairs);
+  const entities = readEntities(pairs, warnings);
+
+  let units: DxfUnits = 'mm';
+  let unitsSource: DxfImportResult['unitsSource'] = 'assumed';
+  if (options.units) {
+    units = options.units;
+    unitsSource = 'option';
+  } else if (INSUNITS[Number(header.$INSUNITS)]) {
+    units = INSUNITS[Number(header.$INSUNITS)];
+    unitsSource = 'header';
+  } else if (header.$MEASUREMENT !== undefined) {
+    units = header.$MEASUREMENT === '0' ? 'in' : 'mm';
+    unitsSource = 'header';
+  } else {
+    warnings.push('The drawing does not declare its units; millimetres were assumed');
+  }
+
+  if (entities.length === 0) {
+    throw new Error('The DXF file contains no supported geometry');
+  }
+
+  const scale = DXF_UNIT_SCALE[units];
+  const bounds = getBoundingBox(entities.flatMap(entityExtentPoints));
+  const toSVG = (p: Point): Point => ({ x: (p.x - bounds.x) * scale, y: (bounds.y + bounds.height - p.y) * scale });
+  const width = bounds.width * scale;
+  const height = bounds.height * scale;
+
+  const layers = new Map<string, { operation: OperationType; elements: string[] }>();
+  for (const entity of entities) {
+    if (!layers.has(entity.layer)) {
+      layers.set(entity.layer, { operation: operationForName(entity.layer) || 'cut', elements: [] });
+    }
+    const layer = layers.get(entity.layer)!;
+    layer.elements.push(entityToSVG(entity, toSVG, scale, layer.operation));
+  }
+
+  const groups = [...layers.entries()].map(([name, layer]) =>
+    `  <g inkscape:groupmode="layer" inkscape:label="${escapeXml(name)}" data-operation="${layer.operation}">\n` +
+    layer.elements.map(element => `    ${element}`).join('\n') +
+    '\n  </g>'
+  );
+
+  const svg = [
+    `<svg xmlns="http://www.w3.org/2000/svg" xmlns:inkscape="http://www.inkscape.org/namespaces/inkscape" ` +
+      `width="${fmt(width)}mm" height="${fmt(height)}mm" viewBox="0 0 ${fmt(width)} ${fmt(height)}">`,
+    ...groups,
+    '</svg>'
+  ].join('\n');
+
+  return {
+    svg,
+    width,
+    height,
+    units,
+    unitsSource,
+    layers: [...layers.entries()].map(([name, layer]) => ({ name, operation: layer.operation, entities: layer.elements.length })),
+    operationLayers: inferOperationLayers(svg, options.material || 'plywood-3mm'),
+    entities: entities.length,
+    warnings
+  };
+}
+
+/**
+ * Write SVG geometry as DXF with one DXF layer per operation layer, coloured
+ * by operation. Circles stay circles and flattened curves are fitted back into arcs.
+ */
+export function exportDXF(svg: string, options: DxfExportOptions = {}): string {
+  const version = options.version || 'R2000';
+  const units = options.units || 'mm';
+  const tolerance = options.tolerance ?? DEFAULT_EXPORT_TOLERANCE;
+  const scale = DXF_UNIT_SCALE[units];
+
+  const geometry = parseSVG(svg, { tolerance: tolerance / 2 });
+  const shapes = geometry.shapes.filter(shape => shape.points.length >= 2);
+  const bounds = shapes.length > 0 ? getBoundingBox(shapes.flatMap(shape => shape.points)) : null;
+  const flipHeight = geometry.height > 0 ? geometry.height : (bounds ? bounds.y + bounds.height : 0);
+  const toDXF = (p: Point): Point => ({ x: p.x / scale, y: (flipHeight - p.y) / scale });
+
+  const model = options.layers || inferOperationLayers(shapes, 'plywood-3mm');
+  const { groups, unassigned } = groupShapesByLayer(shapes, model);
+  const layers = groups.map(group => ({ name: dxfLayerName(group.layer.name), color: ACI_COLORS[group.layer.operation] }));
+  const entities: DxfEntity[] = [
+    ...groups.flatMap((group, i) => group.shapes.map(shape => shapeToEntity(shape, layers[i].name, toDXF, tolerance / scale))),
+    // Geometry the model does not place stays in the drawing on the default layer
+    ...unassigned.map(shape => shapeToEntity(shape, '0', toDXF, tolerance / scale))
+  ];
+  const extents = entities.length > 0 ? getBoundingBox(entities.flatMap(entityExtentPoints)) : { x: 0, y: 0, width: 0, height: 0 };
+
+  return new DxfWriter(version).write({
+    units,
+    extents: {
+      min: { x: extents.x, y: extents.y },
+      max: { x: extents.x + extents.width, y: extents.y + extents.height }
+    },
+    layers: layers.filter((layer, i) => layers.findIndex(other => other.name === layer.name) === i),
+    entities
+  });
+}
+
+// ----------------------------------------------------------------------------
+// Reading
+// ----------------------------------------------------------------------------
+
+function tokenize(dxf: string): DxfPair[] {
+  const lines = dxf.split(/\r\n|\r|\n/);
+  const pairs: DxfPair[] = [];
+
+  for (let i = 0; i + 1 < lines.length; i += 2) {
+    const code = parseInt(lines[i].trim(), 10);
+    if (!Number.isFinite(code)) {
+      throw new Error(`Invalid DXF: expected a group code on line ${i + 1}`);
+    }
+    pairs.push([code, lines[i + 1].trim()]);
+  }
+
+  if (!pairs.some(([code, value]) => code === 0 && value === 'SECTION')) {
+    throw new Error('Invalid DXF: no sections found. Binary DXF is not supported.');
+  }
+  return pairs;
+}
+
+function sectionRange(pairs: DxfPair[], name: string): [number, number] | null {
+  for (let i = 0; i + 1 < pairs.length; i++) {
+    if (pairs[i][0] === 0 && pairs[i][1] === 'SECTION' && pairs[i + 1][0] === 2 && pairs[i + 1][1] === name) {
+      let end = i + 2;
+      while (end < pairs.length && !(pairs[end][0] === 0 && pairs[end][1] === 'ENDSEC')) end++;
+      return [i + 2, end];
+    }
+  }
+  return null;
+}
+
+function readHeader(pairs: DxfPair[]): Record<string, string> {
+  const header: Record<string, string> = {};
+  const range = sectionRange(pairs, 'HEADER');
+  if (!range) return header;
+
+  for (let i = range[0]; i < range[1]; i++) {
+    if (pairs[i][0] === 9 && i + 1 < range[1]) {
+      header[pairs[i][1]] = pairs[i + 1][1]; // first value of each variable is enough for units
+    }
+  }
+  return header;
+}
+
+function readEntities(pairs: DxfPair[], warnings: string[]): DxfEntity[] {
+  const range = sectionRange(pairs, 'ENTITIES');
+  if (!range) throw new Error('Invalid DXF: missing ENTITIES section');
+
+  // Split the section into entities, each a type and its group pairs
+  const raw: { type: string; pairs: DxfPair[] }[] = [];
+  for (let i = range[0]; i < range[1]; i++) {
+    if (pairs[i][0] === 0) raw.push({ type: pairs[i][1], pairs: [] });
+    else raw[raw.length - 1]?.pairs.push(pairs[i]);
+  }
+
+  const entities: DxfEntity[] = [];
+  const skipped = new Map<string, number>();
+
+  for (let i = 0; i < raw.length; i++) {
+    const { type, pairs: groups } = raw[i];
+    const layer = value(groups, 8) || '0';
+
+    switch (type) {
+      case 'LINE':
+        entities.push({ kind: 'line', layer, a: point(groups, 10, 20), b: point(groups, 11, 21) });
+        break;
+      case 'CIRCLE':
+        entities.push({ kind: 'circle', layer, center: point(groups, 10, 20), radius: number(groups, 40) });
+        break;
+      case 'ARC':
+        entities.push({
+          kind: 'arc',
+          layer,
+          center: point(groups, 10, 20),
+          radius: number(groups, 40),
+          start: number(groups, 50),
+          end: number(groups, 51)
+        });
+        break;
+      case 'LWPOLYLINE':
+        entities.push({ kind: 'polyline', layer, vertices: lwpolylineVertices(groups), closed: (number(groups, 70) & 1) === 1 });
+        break;
+      case 'POLYLINE': {
+        // R12 polylines: VERTEX entities follow until SEQEND
+        const vertices: (Point & { bulge: number })[] = [];
+        while (i + 1 < raw.length && raw[i + 1].type === 'VERTEX') {
+          const vertex = raw[++i].pairs;
+          vertices.push({ ...point(vertex, 10, 20), bulge: number(vertex, 42) });
+        }
+        if (i + 1 < raw.length && raw[i + 1].type === 'SEQEND') i++;
+        if ((number(groups, 70) & (16 | 64)) !== 0) {
+          skipped.set('POLYLINE mesh', (skipped.get('POLYLINE mesh') || 0) + 1);
+          break;
+        }
+        entities.push({ kind: 'polyline', layer, vertices, closed: (number(groups, 70) & 1) === 1 });
+        break;
+      }
+      case 'SPLINE': {
+        const spline = splinePoints(groups);
+        if (spline) entities.push({ kind: 'points', layer, ...spline });
+        else skipped.set('SPLINE', (skipped.get('SPLINE') || 0) + 1);
+        break;
+      }
+      default:
+        skipped.set(type, (skipped.get(type) || 0) + 1);
+    }
+  }
+
+  for (const [type, count] of skipped) {
+    warnings.push(`Skipped ${count} unsupported ${type} entit${count === 1 ? 'y' : 'ies'}`);
+  }
+
+  return entities.filter(entity => {
+    if (entity.kind === 'polyline') return entity.vertices.length >= 2;
+    if (entity.kind === 'points') return entity.points.length >= 2;
+    if (entity.kind === 'circle' || entity.kind === 'arc') return entity.radius > EPSILON;
+    return true;
+  });
+}
+
+function lwpolylineVertices(groups: DxfPair[]): (Point & { bulge: number })[] {
+  const vertices: (Point & { bulge: number })[] = [];
+  for (const [code, raw] of groups) {
+    if (code === 10) vertices.push({ x: Number(raw), y: 0, bulge: 0 });
+    else if (code === 20 && vertices.length > 0) vertices[vertices.length - 1].y = Number(raw);
+    else if (code === 42 && vertices.length > 0) vertices[vertices.length - 1].bulge = Number(raw);
+  }
+  return vertices;
+}
+
+/**
+ * Sample a B-spline (rational when weights are given) with de Boor's
+ * algorithm. Splines defined only by fit points fall back to those points.
+ */
+function splinePoints(groups: DxfPair[]): { points: Point[]; closed: boolean } | null {
+  const flags = number(groups, 70);
+  const degree = number(groups, 71) || 3;
+  const knots = values(groups, 40).map(Number);
+  const weights = values(groups, 41).map(Number);
+  const controls = pointList(groups, 10, 20);
+  const closed = (flags & 1) === 1;
+
+  if (controls.length <= degree || knots.length !== controls.length + degree + 1) {
+    const fit = pointList(groups, 11, 21);
+    return fit.length >= 2 ? { points: fit, closed } : null;
+  }
+
+  const start = knots[degree];
+  const end = knots[controls.length];
+  const samples = Math.min(MAX_SPLINE_POINTS, (controls.length - degree) * SPLINE_SEGMENTS_PER_SPAN);
+  const points: Point[] = [];
+
+  for (let s = 0; s <= samples; s++) {
+    const t = start + ((end - start) * s) / samples;
+    points.push(deBoor(t, degree, knots, controls, weights));
+  }
+  return { points, closed };
+}
+
+function deBoor(t: number, degree: number, knots: number[], controls: Point[], weights: number[]): Point {
+  let span = degree;
+  while (span < controls.length - 1 && t >= knots[span + 1]) span++;
+
+  // Homogeneous coordinates so rational splines (arcs, conics) evaluate exactly
+  const d = Array.from({ length: degree + 1 }, (_, j) => {
+    const p = controls[span - degree + j];
+    const w = weights[span - degree + j] ?? 1;
+    return { x: p.x * w, y: p.y * w, w };
+  });
+
+  for (let r = 1; r <= degree; r++) {
+    for (let j = degree; j >= r; j--) {
+      const i = span - degree + j;
+      const denominator = knots[i + degree - r + 1] - knots[i];
+      const alpha = Math.abs(denominator) < EPSILON ? 0 : (t - knots[i]) / denominator;
+      d[j] = {
+        x: (1 - alpha) * d[j - 1].x + alpha * d[j].x,
+        y: (1 - alpha) * d[j - 1].y + alpha * d[j].y,
+        w: (1 - alpha) * d[j - 1].w + alpha * d[j].w
+      };
+    }
+  }
+
+  const { x, y, w } = d[degree];
+  return { x: x / w, y: y / w };
+}
+
+// ----------------------------------------------------------------------------
+// Entity geometry
+// ----------------------------------------------------------------------------
+
+// Points that bound an entity: endpoints plus the extreme points of any arcs
+function entityExtentPoints(entity: DxfEntity): Point[] {
+  switch (entity.kind) {
+    case 'line':
+      return [entity.a, entity.b];
+    case 'circle':
+      return arcExtentPoints(entity.center, entity.radius, 0, 360);
+    case 'arc':
+      return arcExtentPoints(entity.center, entity.radius, entity.start, entity.end);
+    case 'points':
+      return entity.points;
+    case 'polyline': {
+      const result: Point[] = [];
+      const count = entity.closed ? entity.vertices.length : entity.vertices.length - 1;
+      for (let i = 0; i < count; i++) {
+        const a = entity.vertices[i];
+        const b = entity.vertices[(i + 1) % entity.vertices.length];
+        result.push(a, b);
+        if (Math.abs(a.bulge) > EPSILON) {
+          const arc = bulgeArc(a, b, a.bulge);
+          result.push(...arcExtentPoints(arc.center, arc.radius, arc.start, arc.end));
+        }
+      }
+      return result;
+    }
+  }
+}
+
+function arcExtentPoints(center: Point, radius: number, startDegrees: number, endDegrees: number): Point[] {
+  const start = normalizeDegrees(startDegrees);
+  const sweep = normalizeDegrees(endDegrees - startDegrees) || 360;
+  const at = (degrees: number): Point => ({
+    x: center.x + radius * Math.cos((degrees * Math.PI) / 180),
+    y: center.y + radius * Math.sin((degrees * Math.PI) / 180)
+  });
+
+  const points = [at(start), at(start + sweep)];
+  for (const quadrant of [0, 90, 180, 270, 360, 450, 540, 630]) {
+    if (quadrant > start && quadrant < start + sweep) points.push(at(quadrant));
+  }
+  return points;
+}
+
+// Arc between two polyline vertices; positive bulge turns counter-clockwise
+function bulgeArc(a: Point, b: Point, bulge: number): { center: Point; radius: number; start: number; end: number } {
+  const chord = distance(a, b);
+  const radius = (chord * (1 + bulge * bulge)) / (4 * Math.abs(bulge));
+  const sagittaToCenter = radius - (Math.abs(bulge) * chord) / 2;
+  const mid = { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 };
+  const normal = { x: -(b.y - a.y) / chord, y: (b.x - a.x) / chord }; // left of a→b
+  const side = bulge > 0 ? 1 : -1;
+  const center = { x: mid.x + normal.x * sagittaToCenter * side, y: mid.y + normal.y * sagittaToCenter * side };
+
+  const angleA = (Math.atan2(a.y - center.y, a.x - center.x) * 180) / Math.PI;
+  const angleB = (Math.atan2(b.y - center.y, b.x - center.x) * 180) / Math.PI;
+  return bulge > 0 ? { center, radius, start: angleA, end: angleB } : { center, radius, start: angleB, end: angleA };
+}
+
+function entityToSVG(
+  entity: DxfEntity,
+  toSVG: (p: Point) => Point,
+  scale: number,
+  operation: OperationType
+): string {
+  const color = OPERATION_COLORS[operation];
+  const filled = operation === 'engrave' || operation === 'pocket';
+  const closedStyle = filled ? `fill="${color}" stroke="none"` : `fill="none" stroke="${color}" stroke-width="0.1"`;
+  const openStyle = `fill="none" stroke="${color}" stroke-width="0.1"`;
+
+  switch (entity.kind) {
+    case 'circle': {
+      const center = toSVG(entity.center);
+      return `<circle cx="${fmt(center.x)}" cy="${fmt(center.y)}" r="${fmt(entity.radius * scale)}" ${closedStyle}/>`;
+    }
+    case 'line': {
+      const a = toSVG(entity.a);
+      const b = toSVG(entity.b);
+      return `<path d="M${fmt(a.x)} ${fmt(a.y)}L${fmt(b.x)} ${fmt(b.y)}" ${openStyle}/>`;
+    }
+    case 'arc': {
+      const sweep = normalizeDegrees(entity.end - entity.start) || 360;
+      const r = entity.radius * scale;
+      const start = toSVG(polar(entity.center, entity.radius, entity.start));
+      const end = toSVG(polar(entity.center, entity.radius, entity.start + sweep));
+      if (sweep >= 360 - EPSILON) {
+        const center = toSVG(entity.center);
+        return `<circle cx="${fmt(center.x)}" cy="${fmt(center.y)}" r="${fmt(r)}" ${openStyle}/>`;
+      }
+      // Counter-clockwise in DXF stays counter-clockwise on screen: sweep flag 0
+      return `<path d="M${fmt(start.x)} ${fmt(start.y)}A${fmt(r)} ${fmt(r)} 0 ${sweep > 180 ? 1 : 0} 0 ${fmt(end.x)} ${fmt(end.y)}" ${openStyle}/>`;
+    }
+    case 'points': {
+      const points = entity.points.map(toSVG);
+      const d = points.map((p, i) => `${i === 0 ? 'M' : 'L'}${fmt(p.x)} ${fmt(p.y)}`).join('') + (entity.closed ? 'Z' : '');
+      return `<path d="${d}" ${entity.closed ? closedStyle : openStyle}/>`;
+    }
+    case 'polyline': {
+      const { vertices, closed } = entity;
+      const first = toSVG(vertices[0]);
+      let d = `M${fmt(first.x)} ${fmt(first.y)}`;
+      const count = closed ? vertices.length : vertices.length - 1;
+
+      for (let i = 0; i < count; i++) {
+        const a = vertices[i];
+        const b = vertices[(i + 1) % vertices.length];
+        const end = toSVG(b);
+        if (Math.abs(a.bulge) < EPSILON) {
+          d += `L${fmt(end.x)} ${fmt(end.y)}`;
+        } else {
+          const r = ((distance(a, b) * (1 + a.bulge * a.bulge)) / (4 * Math.abs(a.bulge))) * scale;
+          d += `A${fmt(r)} ${fmt(r)} 0 ${Math.abs(a.bulge) > 1 ? 1 : 0} ${a.bulge > 0 ? 0 : 1} ${fmt(end.x)} ${fmt(end.y)}`;
+        }
+      }
+
+      return `<path d="${d}${closed ? 'Z' : ''}" ${closed ? closedStyle : openStyle}/>`;
+    }
+  }
+}
+
+function shapeToEntity(shape: SVGShape, layer: string, toDXF: (p: Point) => Point, tolerance: number): DxfEntity {
+  const points = shape.points.map(toDXF);
+
+  if (!shape.closed && points.length === 2) {
+    return { kind: 'line', layer, a: points[0], b: points[1] };
+  }
+
+  const path = shape.closed ? [...points, points[0]] : points;
+  const segments = fitArcs(path, tolerance);
+
+  // A closed run of arcs about one centre is a circle
+  if (shape.closed && segments.length > 0 && segments.every(segment => segment.type === 'arc')) {
+    const centers = segments.map((segment, i) => {
+      const from = i === 0 ? path[0] : { x: segments[i - 1].x, y: segments[i - 1].y };
+      return segment.type === 'arc' ? { x: from.x + segment.i, y: from.y + segment.j } : from;
+    });
+    const radius = distance(centers[0], path[0]);
+    if (centers.every(center => distance(center, centers[0]) <= tolerance)) {
+      return { kind: 'circle', layer, center: centers[0], radius };
+    }
+  }
+
+  const vertices: (Point & { bulge: number })[] = [{ ...path[0], bulge: 0 }];
+  let from = path[0];
+  for (const segment of segments) {
+    if (segment.type === 'arc') {
+      const center = { x: from.x + segment.i, y: from.y + segment.j };
+      let sweep = Math.atan2(
+        (from.x - center.x) * (segment.y - center.y) - (from.y - center.y) * (segment.x - center.x),
+        (from.x - center.x) * (segment.x - center.x) + (from.y - center.y) * (segment.y - center.y)
+      );
+      if (segment.clockwise && sweep > 0) sweep -= 2 * Math.PI;
+      if (!segment.clockwise && sweep < 0) sweep += 2 * Math.PI;
+      vertices[vertices.length - 1].bulge = Math.tan(sweep / 4);
+    }
+    vertices.push({ x: segment.x, y: segment.y, bulge: 0 });
+    from = { x: segment.x, y: segment.y };
+  }
+
+  // Closed polylines do not repeat their first vertex
+  if (shape.closed) vertices.pop();
+  return { kind: 'polyline', layer, vertices, closed: shape.closed };
+}
+
+// ----------------------------------------------------------------------------
+// Writing
+// ----------------------------------------------------------------------------
+
+interface DxfDrawing {
+  units: 'mm' | 'in';
+  extents: { min: Point; max: Point };
+  layers: { name: string; color: number }[];
+  entities: DxfEntity[];
+}
+
+/**
+ * Emits group code/value pairs. R2000 output carries the handles, subclass
+ * markers, block records and root dictionary that AutoCAD requires; R12
+ * output is the plain pre-handle format most CAM software reads.
+ */
+class DxfWriter {
+  private lines: string[] = [];
+  private nextHandle = 0x20;
+
+  constructor(private version: DxfVersion) {}
+
+  write(drawing: DxfDrawing): string {
+    const modern = this.version === 'R2000';
+    this.section('HEADER', () => {
+      this.variable('$ACADVER', [[1, modern ? 'AC1015' : 'AC1009']]);
+      // Newer than R12, but R12 readers skip variables they do not know and the units survive a round trip
+      this.variable('$INSUNITS', [[70, String(INSUNITS_CODE[drawing.units])]]);
+      this.variable('$MEASUREMENT', [[70, drawing.units === 'in' ? '0' : '1']]);
+      this.variable('$EXTMIN', [[10, num(drawing.extents.min.x)], [20, num(drawing.extents.min.y)], [30, '0.0']]);
+      this.variable('$EXTMAX', [[10, num(drawing.extents.max.x)], [20, num(drawing.extents.max.y)], [30, '0.0']]);
+      if (modern) this.variable('$HANDSEED', [[5, 'FFFF']]);
+    });
+
+    const modelSpace = modern ? this.handle() : '';
+    const paperSpace = modern ? this.handle() : '';
+
+    this.section('TABLES', () => {
+      this.table('LTYPE', 1, () => {
+        this.tableEntry('LTYPE', 'AcDbLinetypeTableRecord', [
+          [2, 'CONTINUOUS'], [70, '0'], [3, 'Solid line'], [72, '65'], [73, '0'], [40, '0.0']
+        ]);
+      });
+      this.table('LAYER', drawing.layers.length + 1, () => {
+        for (const layer of [{ name: '0', color: 7 }, ...drawing.layers.filter(layer => layer.name !== '0')]) {
+          this.tableEntry('LAYER', 'AcDbLayerTableRecord', [[2, layer.name], [70, '0'], [62, String(layer.color)], [6, 'CONTINUOUS']]);
+        }
+      });
+      if (modern) {
+        this.table('BLOCK_RECORD', 2, () => {
+          this.pair(0, 'BLOCK_RECORD');
+          this.pair(5, modelSpace);
+          this.pair(100, 'AcDbSymbolTableRecord');
+          this.pair(100, 'AcDbBlockTableRecord');
+          this.pair(2, '*Model_Space');
+          this.pair(0, 'BLOCK_RECORD');
+          this.pair(5, paperSpace);
+          this.pair(100, 'AcDbSymbolTableRecord');
+          this.pair(100, 'AcDbBlockTableRecord');
+          this.pair(2, '*Paper_Space');
+        });
+      }
+    });
+
+    if (modern) {
+      this.section('BLOCKS', () => {
+        for (const [name, owner] of [['*Model_Space', modelSpace], ['*Paper_Space', paperSpace]]) {
+          this.pair(0, 'BLOCK');
+          this.pair(5, this.handle());
+          this.pair(330, owner);
+          this.pair(100, 'AcDbEntity');
+          this.pair(8, '0');
+          this.pair(100, 'AcDbBlockBegin');
+          this.pair(2, name);
+          this.pair(70, '0');
+          this.pair(10, '0.0');
+          this.pair(20, '0.0');
+          this.pair(30, '0.0');
+          this.pair(3, name);
+          this.pair(1, '');
+          this.pair(0, 'ENDBLK');
+          this.pair(5, this.handle());
+          this.pair(330, owner);
+          this.pair(100, 'AcDbEntity');
+          this.pair(8, '0');
+          this.pair(100, 'AcDbBlockEnd');
+        }
+      });
+    }
+
+    this.section('ENTITIES', () => {
+      for (const entity of drawing.entities) this.entity(entity, modelSpace);
+    });
+
+    if (modern) {
+      this.section('OBJECTS', () => {
+        this.pair(0, 'DICTIONARY');
+        this.pair(5, this.handle());
+        this.pair(100, 'AcDbDictionary');
+      });
+    }
+
+    this.pair(0, 'EOF');
+    return this.lines.join('\n') + '\n';
+  }
+
+  private entity(entity: DxfEntity, owner: string): void {
+    const modern = this.version === 'R2000';
+    const start = (type: string, subclass: string) => {
+      this.pair(0, type);
+      if (modern) {
+        this.pair(5, this.handle());
+        this.pair(330, owner);
+        this.pair(100, 'AcDbEntity');
+      }
+      this.pair(8, entity.layer);
+      if (modern) this.pair(100, subclass);
+    };
+
+    switch (entity.kind) {
+      case 'line':
+        start('LINE', 'AcDbLine');
+        this.point(10, entity.a);
+        this.point(11, entity.b);
+        break;
+      case 'circle':
+        start('CIRCLE', 'AcDbCircle');
+        this.point(10, entity.center);
+        this.pair(40, num(entity.radius));
+        break;
+      case 'arc':
+        start('ARC', 'AcDbCircle');
+        this.point(10, entity.center);
+        this.pair(40, num(entity.radius));
+        if (modern) this.pair(100, 'AcDbArc');
+        this.pair(50, num(entity.start));
+        this.pair(51, num(entity.end));
+        break;
+      case 'points':
+      case 'polyline': {
+        const vertices = entity.kind === 'points' ? entity.points.map(p => ({ ...p, bulge: 0 })) : entity.vertices;
+        if (modern) {
+          start('LWPOLYLINE', 'AcDbPolyline');
+          this.pair(90, String(vertices.length));
+          this.pair(70, entity.closed ? '1' : '0');
+          for (const vertex of vertices) {
+            this.pair(10, num(vertex.x));
+            this.pair(20, num(vertex.y));
+            if (vertex.bulge !== 0) this.pair(42, num(vertex.bulge));
+          }
+        } else {
+          start('POLYLINE', '');
+          this.pair(66, '1');
+          this.point(10, { x: 0, y: 0 });
+          this.pair(70, entity.closed ? '1' : '0');
+          for (const vertex of vertices) {
+            this.pair(0, 'VERTEX');
+            this.pair(8, entity.layer);
+            this.point(10, vertex);
+            if (vertex.bulge !== 0) this.pair(42, num(vertex.bulge));
+          }
+          this.pair(0, 'SEQEND');
+          this.pair(8, entity.layer);
+        }
+        break;
+      }
+    }
+  }
+
+  private section(name: string, body: () => void): void {
+    this.pair(0, 'SECTION');
+    this.pair(2, name);
+    body();
+    this.pair(0, 'ENDSEC');
+  }
+
+  private table(name: string, count: number, body: () => void): void {
+    this.pair(0, 'TABLE');
+    this.pair(2, name);
+    if (this.version === 'R2000') {
+      this.pair(5, this.handle());
+      this.pair(100, 'AcDbSymbolTable');
+    }
+    this.pair(70, String(count));
+    body();
+    this.pair(0, 'ENDTAB');
+  }
+
+  private tableEntry(type: string, subclass: string, groups: [number, string][]): void {
+    this.pair(0, type);
+    if (this.version === 'R2000') {
+      this.pair(5, this.handle());
+      this.pair(100, 'AcDbSymbolTableRecord');
+      this.pair(100, subclass);
+    }
+    for (const [code, value] of groups) this.pair(code, value);
+  }
+
+  private variable(name: string, groups: [number, string][]): void {
+    this.pair(9, name);
+    for (const [code, value] of groups) this.pair(code, value);
+  }
+
+  private point(code: number, p: Point): void {
+    this.pair(code, num(p.x));
+    this.pair(code + 10, num(p.y));
+    this.pair(code + 20, '0.0');
+  }
+
+  private pair(code: number, value: string): void {
+    this.lines.push(String(code).padStart(3, ' '), value);
+  }
+
+  private handle(): string {
+    return (this.nextHandle++).toString(16).toUpperCase();
+  }
+}
+
+// ----------------------------------------------------------------------------
+// Helpers
+// ----------------------------------------------------------------------------
+
+// DXF layer names may not contain these characters
+function dxfLayerName(name: string): string {
+  return name.replace(/[<>\/\\":;?*|=`]/g, '_').slice(0, 255) || '0';
+}
+
+function value(groups: DxfPair[], code: number): string | undefined {
+  return groups.find(([c]) => c === code)?.[1];
+}
+
+function values(groups: DxfPair[], code: number): string[] {
+  return groups.filter(([c]) => c === code).map(([, v]) => v);
+}
+
+function number(groups: DxfPair[], code: number): number {
+  const parsed = Number(value(groups, code));
+  return Number.isFinite(parsed) ? parsed : 0;
+}
+
+function point(groups: DxfPair[], xCode: number, yCode: number): Point {
+  return { x: number(groups, xCode), y: number(groups, yCode) };
+}
+
+// Repeated coordinates in entity order, such as SPLINE control points
+function pointList(groups: DxfPair[], xCode: number, yCode: number): Point[] {
+  const points: Point[] = [];
+  for (const [code, raw] of groups) {
+    if (code === xCode) points.push({ x: Number(raw), y: 0 });
+    else if (code === yCode && points.length > 0) points[points.length - 1].y = Number(raw);
+  }
+  return points;
+}
+
+function polar(center: Point, radius: number, degrees: number): Point {
+  const radians = (degrees * Math.PI) / 180;
+  return { x: center.x + radius * Math.cos(radians), y: center.y + radius * Math.sin(radians) };
+}
+
+function normalizeDegrees(degrees: number): number {
+  return ((degrees % 360) + 360) % 360;
+}
+
+function fmt(value: number): string {
+  const rounded = Math.round(value * 1000) / 1000;
+  return (Object.is(rounded, -0) ? 0 : rounded).toString();
+}
+
+function num(value: number): string {
+  const rounded = Math.round(value * 1e6) / 1e6;
+  const text = (Object.is(rounded, -0) ? 0 : rounded).toString();
+  return text.includes('.') || text.includes('e') ? text : `${text}.0`;
+}
+
+function escapeXml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
@@ -0,0 +1,194 @@
+// Plan entitlements
+// The one definition of what each subscription plan includes; pricing, quotas and feature gates all read it
+
+export type PlanId = 'free' | 'starter' | 'professional';
+
+export type UsageFeature = 'ai_generation' | 'ai_analysis' | 'template_download' | 'export_operation' | 'project_creation';
+
+export type QuotaKey = 'ai_designs' | 'template_downloads' | 'exports' | 'projects';
+
+export type PlanFeature =
+  | 'premium_templates'
+  | 'gcode_generation'
+  | 'commercial_license'
+  | 'priority_support'
+  | 'phone_support'
+  | 'api_access'
+  | 'white_label'
+  | 'bulk_operations'
+  | 'team_collaboration'
+  | 'custom_integrations';
+
+export type ExportFormat = 'svg' | 'png' | 'pdf' | 'dxf' | 'gcode' | 'ai' | 'eps';
+
+export interface PlanDefinition {
+  id: PlanId;
+  name: string;
+  description: string;
+  price: { monthly: number; yearly: number }; // USD per month; yearly is the per-month equivalent
+  stripePriceIds: { monthly?: string; yearly?: string };
+  purchasable: boolean; // shown on the pricing page
+  highlighted?: boolean;
+  quotas: Record<QuotaKey, number>; // per calendar month, -1 = unlimited
+  features: PlanFeature[];
+  exportFormats: ExportFormat[];
+  highlights: string[]; // pricing page bullet points
+}
+
+export interface QuotaCheck {
+  plan: PlanId;
+  quota: QuotaKey;
+  limit: number; // -1 = unlimited
+  features: UsageFeature[]; // usage that counts against the same allowance
+}
+
+export const PLANS: Record<PlanId, PlanDefinition> = {
+  free: {
+    id: 'free',
+    name: 'Free',
+    description: 'Browse templates and try the editor',
+    price: { monthly: 0, yearly: 0 },
+    stripePriceIds: {},
+    purchasable: false,
+    quotas: {
+      ai_designs: 0,
+      template_downloads: 10,
+      exports: 10,
+      projects: 3
+    },
+    features: [],
+    exportFormats: ['svg'],
+    highlights: ['Free templates', 'SVG export', '3 new projects per month']
+  },
+  starter: {
+    id: 'starter',
+    name: 'Starter',
+    description: 'For makers & small workshops',
+    price: { monthly: 49, yearly: 39 },
+    stripePriceIds: {
+      monthly: 'price_starter_monthly', // Replace with actual Stripe price IDs
+      yearly: 'price_starter_yearly'
+    },
+    purchasable: true,
+    highlighted: true,
+    quotas: {
+      ai_designs: 25,
+      template_downloads: 100,
+      exports: 50,
+      projects: 25
+    },
+    features: ['commercial_license', 'priority_support'],
+    exportFormats: ['svg', 'png', 'pdf', 'dxf'],
+    highlights: [
+      '25 AI designs per month',
+      '100 template downloads',
+      '50 exports per month',
+      '25 new projects per month',
+      'Commercial license included',
+      'Priority email support',
+      '7-day money-back guarantee'
+    ]
+  },
+  professional: {
+    id: 'professional',
+    name: 'Professional',
+    description: 'For design professionals',
+    price: { monthly: 99, yearly: 79 },
+    stripePriceIds: {
+      monthly: 'price_professional_monthly', // Replace with actual Stripe price IDs
+      yearly: 'price_professional_yearly'
+    },
+    purchasable: true,
+    quotas: {
+      ai_designs: -1,
+      template_downloads: -1,
+      exports: -1,
+      projects: -1
+    },
+    features: [
+      'premium_templates',
+      'gcode_generation',
+      'commercial_license',
+      'priority_support',
+      'phone_support',
+      'api_access',
+      'white_label',
+      'bulk_operations',
+      'team_collaboration',
+      'custom_integrations'
+    ],
+    exportFormats: ['svg', 'png', 'pdf', 'dxf', 'gcode', 'ai', 'eps'],
+    highlights: [
+      'Unlimited AI designs',
+      'Unlimited templates & exports',
+      'G-code generation',
+      'Premium AI templates',
+      'API access & integrations',
+      'Priority phone support'
+    ]
+  }
+};
+
+// Cheapest first
+export const PLAN_ORDER: PlanId[] = ['free', 'starter', 'professional'];
+
+// Which allowance each kind of tracked usage draws from
+export const USAGE_QUOTAS: Record<UsageFeature, QuotaKey> = {
+  ai_generation: 'ai_designs',
+  ai_analysis: 'ai_designs',
+  template_download: 'template_downloads',
+  export_operation: 'exports',
+  project_creation: 'projects'
+};
+
+// Tier names used before plans were consolidated
+const LEGACY_TIERS: Record<string, PlanId> = {
+  maker: 'starter',
+  pro: 'professional',
+  trial: 'free'
+};
+
+/**
+ * Map a stored tier value, including legacy names and NULL, to a plan
+ */
+export function normalizeTier(tier: string | null | undefined): PlanId {
+  if (!tier) return 'free';
+  if (tier in PLANS) return tier as PlanId;
+  return LEGACY_TIERS[tier] || 'free';
+}
+
+export function getPlan(tier: string | null | undefined): PlanDefinition {
+  return PLANS[normalizeTier(tier)];
+}
+
+export function getPurchasablePlans(): PlanDefinition[] {
+  return PLAN_ORDER.map(id => PLANS[id]).filter(plan => plan.purchasable);
+}
+
+export function hasFeature(tier: string | null | undefined, feature: PlanFeature): boolean {
+  return getPlan(tier).features.includes(feature);
+}
+
+export function canExportFormat(tier: string | null | undefined, format: string): boolean {
+  return (getPlan(tier).exportFormats as string[]).includes(format);
+}
+
+/**
+ * Whether a tier is one of the allowed plans. Legacy names are normalized
+ * on both sides so old route options keep working.
+ */
+export function isPlanAllowed(tier: string | null | undefined, allowed: string[]): boolean {
+  const plan = normalizeTier(tier);
+  return allowed.some(candidate => normalizeTier(candidate) === plan);
+}
+
+export function getQuota(tier: string | null | undefined, feature: UsageFeature): QuotaCheck {
+  const plan = normalizeTier(tier);
+  const quota = USAGE_QUOTAS[feature];
+  return {
+    plan,
+    quota,
+    limit: PLANS[plan].quotas[quota],
+    features: (Object.keys(USAGE_QUOTAS) as UsageFeature[]).filter(candidate => USAGE_QUOTAS[candidate] === quota)
+  };
+}
@@ -0,0 +1,444 @@
+// G-code simulator and safety linter
+// Replays a program against a machine's limits to measure real distances and time and flag unsafe moves
+
+import type { MachineCapabilities } from './manufacturing-constraints';
+
+export type SimulationIssueCode =
+  | 'out_of_bounds'
+  | 'tool_left_on'
+  | 'rapid_with_tool_on'
+  | 'unsafe_rapid_plunge'
+  | 'rapid_below_surface'
+  | 'plunge_too_deep'
+  | 'cut_with_tool_off'
+  | 'missing_feed'
+  | 'feed_out_of_range'
+  | 'unknown_code'
+  | 'invalid_arc'
+  | 'unsupported_plane';
+
+export interface SimulationIssue {
+  code: SimulationIssueCode;
+  severity: 'error' | 'warning';
+  line: number; // first line where the problem occurs (1-based)
+  occurrences: number;
+  message: string;
+}
+
+export interface SimulationResult {
+  cutDistance: number; // mm with the tool on
+  travelDistance: number; // mm with the tool off, including Z moves
+  cutTime: number; // seconds
+  travelTime: number; // seconds
+  dwellTime: number; // seconds
+  totalTime: number; // seconds
+  bounds: { minX: number; minY: number; minZ: number; maxX: number; maxY: number; maxZ: number };
+  lineCount: number;
+  moveCount: number;
+  issues: SimulationIssue[];
+}
+
+export interface SimulationOptions {
+  machineType?: 'laser' | 'cnc' | 'plasma' | 'waterjet'; // defaults to the machine's type
+  stockThickness?: number; // mm - plunges deeper than this are flagged
+}
+
+interface Segment {
+  length: number;
+  direction: [number, number, number];
+  maxSpeed: number; // mm/s
+  acceleration: number; // mm/s²
+  cutting: boolean;
+}
+
+const KNOWN_G_CODES = new Set([0, 1, 2, 3, 4, 17, 18, 19, 20, 21, 28, 40, 49, 53, 54, 55, 56, 57, 58, 59, 61, 64, 80, 90, 91, 92, 93, 94]);
+const KNOWN_M_CODES = new Set([0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 30, 84, 106, 107, 400]);
+const KNOWN_WORDS = new Set(['G', 'M', 'X', 'Y', 'Z', 'I', 'J', 'K', 'R', 'F', 'S', 'P', 'N', 'T', 'H', 'D', 'Q']);
+const ARC_STEP = Math.PI / 36; // 5° - arcs are planned as short chords
+const BOUNDS_TOLERANCE = 1e-3; // mm
+const MIN_JUNCTION_COSINE = 0; // corners of 90° or more come to a full stop
+
+export class GCodeSimulator {
+  private machine: MachineCapabilities;
+
+  constructor(machine: MachineCapabilities) {
+    this.machine = machine;
+  }
+
+  /**
+   * Replay a program and report distances, time and safety issues
+   */
+  simulate(gcode: string, options: SimulationOptions = {}): SimulationResult {
+    const machineType = options.machineType || this.machine.type;
+    const usesZ = machineType === 'cnc';
+    const issues = new Map<SimulationIssueCode, SimulationIssue>();
+    const report = (code: SimulationIssueCode, severity: 'error' | 'warning', line: number, message: string) => {
+      const existing = issues.get(code);
+      if (existing) existing.occurrences++;
+      else issues.set(code, { code, severity, line, occurrences: 1, message });
+    };
+
+    const rapidSpeed = this.machine.speedRange.max / 60; // mm/s
+    const position = { x: 0, y: 0, z: 0 };
+    const bounds = { minX: Infinity, minY: Infinity, minZ: Infinity, maxX: -Infinity, maxY: -Infinity, maxZ: -Infinity };
+    const blocks: Segment[][] = [[]];
+    const result = { cutDistance: 0, travelDistance: 0, dwellTime: 0, moveCount: 0 };
+
+    let motion = 0;
+    let feed = 0; // mm/min
+    let unitScale = 1;
+    let relative = false;
+    let toolOn = false;
+    let ended = false;
+    let lastToolOnLine = 0;
+
+    const lines = gcode.split(/\r?\n/);
+    lines.forEach((rawLine, index) => {
+      if (ended) return;
+      const lineNumber = index + 1;
+      const words = parseWords(rawLine);
+      if (words.length === 0) return;
+
+      const target: { x?: number; y?: number; z?: number } = {};
+      const arc: { i?: number; j?: number; r?: number } = {};
+      let dwell: number | null = null;
+      let explicitMotion: number | null = null;
+
+      for (const { letter, value } of words) {
+        if (!KNOWN_WORDS.has(letter)) {
+          report('unknown_code', 'warning', lineNumber, `Line ${lineNumber}: unknown word ${letter}${value}`);
+          continue;
+        }
+
+        switch (letter) {
+          case 'G': {
+            const code = Math.round(value * 10) / 10;
+            if (!KNOWN_G_CODES.has(Math.floor(code)) || (code % 1 !== 0 && code !== 91.1 && code !== 90.1)) {
+              report('unknown_code', 'warning', lineNumber, `Line ${lineNumber}: unknown command G${code}`);
+            } else if (code <= 3) {
+              explicitMotion = code;
+            } else if (code === 4) {
+              dwell = 0;
+            } else if (code === 18 || code === 19) {
+              report('unsupported_plane', 'warning', lineNumber, `Line ${lineNumber}: G${code} arc plane is not simulated; only XY arcs (G17) are checked`);
+            } else if (code === 20) {
+              unitScale = 25.4;
+            } else if (code === 21) {
+              unitScale = 1;
+            } else if (code === 90) {
+              relative = false;
+            } else if (code === 91) {
+              relative = true;
+            }
+            break;
+          }
+          case 'M': {
+            const code = Math.round(value);
+            if (!KNOWN_M_CODES.has(code)) {
+              report('unknown_code', 'warning', lineNumber, `Line ${lineNumber}: unknown command M${code}`);
+            } else if (code === 3 || code === 4) {
+              toolOn = true;
+              lastToolOnLine = lineNumber;
+              blocks.push([]); // the tool switching waits for the planner to empty
+            } else if (code === 5) {
+              toolOn = false;
+              blocks.push([]);
+            } else if (code === 2 || code === 30) {
+              ended = true;
+            }
+            break;
+          }
+          case 'X': target.x = value * unitScale; break;
+          case 'Y': target.y = value * unitScale; break;
+          case 'Z': target.z = value * unitScale; break;
+          case 'I': arc.i = value * unitScale; break;
+          case 'J': arc.j = value * unitScale; break;
+          case 'R': arc.r = value * unitScale; break;
+          case 'F': feed = value * unitScale; break;
+          case 'P':
+          case 'S':
+            // G4 takes seconds in P (GRBL, LinuxCNC) or S (Marlin); elsewhere S is power/speed
+            if (dwell !== null) dwell = value;
+            break;
+        }
+      }
+
+      if (dwell !== null) {
+        result.dwellTime += dwell;
+        blocks.push([]);
+        return;
+      }
+      if (explicitMotion !== null) motion = explicitMotion;
+      if (target.x === undefined && target.y === undefined && target.z === undefined) return;
+
+      const end = {
+        x: target.x === undefined ? position.x : (relative ? position.x + target.x : target.x),
+        y: target.y === undefined ? position.y : (relative ? position.y + target.y : target.y),
+        z: target.z === undefined ? position.z : (relative ? position.z + target.z : target.z)
+      };
+      result.moveCount++;
+
+      const rapid = motion === 0;
+      const cutting = !rapid && toolOn && (!usesZ || Math.min(position.z, end.z) < 0);
+
+      if (!rapid && !(feed > 0)) {
+        report('missing_feed', 'error', lineNumber, `Line ${lineNumber}: cutting move without a feed rate (F)`);
+      } else if (!rapid && (feed < this.machine.speedRange.min || feed > this.machine.speedRange.max)) {
+        report('feed_out_of_range', 'warning', lineNumber,
+          `Line ${lineNumber}: feed F${Math.round(feed)} is outside the machine range of ${this.machine.speedRange.min}-${this.machine.speedRange.max} mm/min`);
+      }
+
+      if (rapid && toolOn && !usesZ) {
+        report('rapid_with_tool_on', 'warning', lineNumber, `Line ${lineNumber}: rapid move with the ${machineType === 'laser' ? 'laser' : 'torch'} on`);
+      }
+      if (usesZ && rapid && end.z < position.z && end.z < 0) {
+        report('unsafe_rapid_plunge', 'error', lineNumber, `Line ${lineNumber}: rapid (G0) plunge into the stock to Z${round(end.z)}`);
+      }
+      if (usesZ && rapid && (end.x !== position.x || end.y !== position.y) && Math.min(position.z, end.z) < 0) {
+        report('rapid_below_surface', 'error', lineNumber, `Line ${lineNumber}: rapid traverse below the stock surface at Z${round(Math.min(position.z, end.z))}`);
+      }
+      if (usesZ && !rapid && end.z < 0 && !toolOn) {
+        report('cut_with_tool_off', 'error', lineNumber, `Line ${lineNumber}: feeding into the stock with the spindle off`);
+      }
+      const maxDepth = options.stockThickness ?? this.machine.maxThickness;
+      if (usesZ && end.z < position.z && end.z < -maxDepth - BOUNDS_TOLERANCE) {
+        report('plunge_too_deep', 'warning', lineNumber, `Line ${lineNumber}: plunge to Z${round(end.z)} is deeper than ${maxDepth}mm`);
+      }
+
+      const path = motion === 2 || motion === 3
+        ? arcPoints(position, end, arc, motion === 2)
+        : [end];
+      if (!path) {
+        report('invalid_arc', 'error', lineNumber, `Line ${lineNumber}: arc without a valid centre (I/J or R)`);
+      }
+
+      const speed = rapid ? rapidSpeed : Math.min(feed, this.machine.speedRange.max) / 60;
+      let from = { ...position };
+      for (const point of path || [end]) {
+        const dx = point.x - from.x;
+        const dy = point.y - from.y;
+        const dz = point.z - from.z;
+        const length = Math.sqrt(dx * dx + dy * dy + dz * dz);
+        this.extendBounds(bounds, point);
+
+        if (length > 1e-9) {
+          const direction: [number, number, number] = [dx / length, dy / length, dz / length];
+          blocks[blocks.length - 1].push({
+            length,
+            direction,
+            maxSpeed: speed > 0 ? speed : rapidSpeed,
+            acceleration: this.accelerationAlong(direction),
+            cutting
+          });
+          if (cutting) result.cutDistance += length;
+          else result.travelDistance += length;
+        }
+        from = point;
+      }
+
+      Object.assign(position, end);
+    });
+
+    if (toolOn) {
+      report('tool_left_on', 'error', lastToolOnLine,
+        `Program ends with the ${machineType === 'cnc' ? 'spindle' : machineType === 'laser' ? 'laser' : 'torch'} still on (missing M5 after line ${lastToolOnLine})`);
+    }
+
+    const { width, height } = this.machine.workAreaSize;
+    if (bounds.minX < -BOUNDS_TOLERANCE || bounds.minY < -BOUNDS_TOLERANCE ||
+        bounds.maxX > width + BOUNDS_TOLERANCE || bounds.maxY > height + BOUNDS_TOLERANCE) {
+      const line = this.firstOutOfBoundsLine(lines, width, height);
+      report('out_of_bounds', 'error', line,
+        `Toolpath spans X${round(bounds.minX)}..${round(bounds.maxX)} Y${round(bounds.minY)}..${round(bounds.maxY)}, outside the ${width}×${height}mm work area${line > 0 ? ` (first at line ${line})` : ''}`);
+    }
+
+    let cutTime = 0;
+    let travelTime = 0;
+    for (const block of blocks) {
+      const times = planBlock(block);
+      block.forEach((segment, i) => {
+        if (segment.cutting) cutTime += times[i];
+        else travelTime += times[i];
+      });
+    }
+
+    const finite = (value: number) => (Number.isFinite(value) ? round(value) : 0);
+    return {
+      cutDistance: round(result.cutDistance),
+      travelDistance: round(result.travelDistance),
+      cutTime: round(cutTime),
+      travelTime: round(travelTime),
+      dwellTime: round(result.dwellTime),
+      totalTime: round(cutTime + travelTime + result.dwellTime),
+      bounds: {
+        minX: finite(bounds.minX), minY: finite(bounds.minY), minZ: finite(bounds.minZ),
+        maxX: finite(bounds.maxX), maxY: finite(bounds.maxY), maxZ: finite(bounds.maxZ)
+      },
+      lineCount: lines.length,
+      moveCount: result.moveCount,
+      issues: [...issues.values()].sort((a, b) => (a.severity === b.severity ? a.line - b.line : a.severity === 'error' ? -1 : 1))
+    };
+  }
+
+  // Axis limits bound the acceleration along a direction; Z uses the slower of X and Y
+  private accelerationAlong(direction: [number, number, number]): number {
+    const limits = [this.machine.accelerationLimits.x, this.machine.accelerationLimits.y,
+      Math.min(this.machine.accelerationLimits.x, this.machine.accelerationLimits.y)];
+    let acceleration = Infinity;
+    direction.forEach((component, axis) => {
+      if (Math.abs(component) > 1e-9) acceleration = Math.min(acceleration, limits[axis] / Math.abs(component));
+    });
+    return Number.isFinite(acceleration) ? acceleration : limits[0];
+  }
+
+  private extendBounds(bounds: SimulationResult['bounds'], point: { x: number; y: number; z: number }): void {
+    bounds.minX = Math.min(bounds.minX, point.x);
+    bounds.minY = Math.min(bounds.minY, point.y);
+    bounds.minZ = Math.min(bounds.minZ, point.z);
+    bounds.maxX = Math.max(bounds.maxX, point.x);
+    bounds.maxY = Math.max(bounds.maxY, point.y);
+    bounds.maxZ = Math.max(bounds.maxZ, point.z);
+  }
+
+  // Re-scan for the first move whose end point leaves the work area
+  private firstOutOfBoundsLine(lines: string[], width: number, height: number): number {
+    let x = 0;
+    let y = 0;
+    let scale = 1;
+    for (let i = 0; i < lines.length; i++) {
+      for (const { letter, value } of parseWords(lines[i])) {
+        if (letter === 'G' && value === 20) scale = 25.4;
+        if (letter === 'G' && value === 21) scale = 1;
+        if (letter === 'X') x = value * scale;
+        if (letter === 'Y') y = value * scale;
+      }
+      if (x < -BOUNDS_TOLERANCE || y < -BOUNDS_TOLERANCE || x > width + BOUNDS_TOLERANCE || y > height + BOUNDS_TOLERANCE) {
+        return i + 1;
+      }
+    }
+    return 0;
+  }
+}
+
+/**
+ * Human readable duration for GCodeOutput.estimatedTime
+ */
+export function formatDuration(seconds: number): string {
+  if (seconds < 60) return `${Math.max(1, Math.round(seconds))} seconds`;
+  const minutes = Math.floor(seconds / 60);
+  const remainder = Math.round(seconds % 60);
+  if (minutes < 60) return remainder > 0 ? `${minutes} min ${remainder} s` : `${minutes} minutes`;
+  return `${Math.floor(minutes / 60)} h ${minutes % 60} min`;
+}
+
+function parseWords(line: string): { letter: string; value: number }[] {
+  const code = line
+    .replace(/\([^)]*\)/g, '')
+    .replace(/;.*$/, '')
+    .trim()
+    .toUpperCase();
+  if (!code || code === '%') return [];
+
+  const words: { letter: string; value: number }[] = [];
+  const pattern = /([A-Z])\s*([-+]?(?:\d+\.?\d*|\.\d+))/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(code)) !== null) {
+    words.push({ letter: match[1], value: parseFloat(match[2]) });
+  }
+  return words;
+}
+
+// Points along an XY arc (Z interpolated for helixes), excluding the start
+function arcPoints(
+  start: { x: number; y: number; z: number },
+  end: { x: number; y: number; z: number },
+  arc: { i?: number; j?: number; r?: number },
+  clockwise: boolean
+): { x: number; y: number; z: number }[] | null {
+  let cx: number;
+  let cy: number;
+
+  if (arc.i !== undefined || arc.j !== undefined) {
+    cx = start.x + (arc.i || 0);
+    cy = start.y + (arc.j || 0);
+  } else if (arc.r !== undefined) {
+    // Radius form: centre on the chord bisector; negative R selects the long way round
+    const dx = end.x - start.x;
+    const dy = end.y - start.y;
+    const chord = Math.sqrt(dx * dx + dy * dy);
+    const radius = Math.abs(arc.r);
+    if (chord < 1e-9 || chord > 2 * radius + 1e-6) return null;
+    const offset = Math.sqrt(Math.max(0, radius * radius - (chord / 2) ** 2));
+    const side = (clockwise ? -1 : 1) * (arc.r < 0 ? -1 : 1);
+    cx = (start.x + end.x) / 2 - (side * dy * offset) / chord;
+    cy = (start.y + end.y) / 2 + (side * dx * offset) / chord;
+  } else {
+    return null;
+  }
+
+  const radius = Math.hypot(start.x - cx, start.y - cy);
+  const startAngle = Math.atan2(start.y - cy, start.x - cx);
+  let sweep = Math.atan2(end.y - cy, end.x - cx) - startAngle;
+  if (clockwise && sweep >= -1e-9) sweep -= 2 * Math.PI;
+  if (!clockwise && sweep <= 1e-9) sweep += 2 * Math.PI;
+
+  const steps = Math.max(1, Math.ceil(Math.abs(sweep) / ARC_STEP));
+  const points: { x: number; y: number; z: number }[] = [];
+  for (let k = 1; k < steps; k++) {
+    const angle = startAngle + (sweep * k) / steps;
+    points.push({
+      x: cx + radius * Math.cos(angle),
+      y: cy + radius * Math.sin(angle),
+      z: start.z + ((end.z - start.z) * k) / steps
+    });
+  }
+  points.push({ ...end });
+  return points;
+}
+
+/**
+ * Time per segment for a block that starts and ends at rest. Junction speeds
+ * fall off with the corner angle, then forward/backward passes cap each speed
+ * by what the acceleration allows, as a firmware motion planner does.
+ */
+function planBlock(segments: Segment[]): number[] {
+  const count = segments.length;
+  if (count === 0) return [];
+
+  const entry = new Array<number>(count + 1).fill(0);
+  for (let i = 1; i < count; i++) {
+    const a = segments[i - 1].direction;
+    const b = segments[i].direction;
+    const cosine = a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+    entry[i] = cosine <= MIN_JUNCTION_COSINE ? 0 : Math.min(segments[i - 1].maxSpeed, segments[i].maxSpeed) * cosine;
+  }
+
+  for (let i = count - 1; i >= 0; i--) {
+    const s = segments[i];
+    entry[i] = Math.min(entry[i], Math.sqrt(entry[i + 1] ** 2 + 2 * s.acceleration * s.length));
+  }
+  for (let i = 0; i < count; i++) {
+    const s = segments[i];
+    entry[i + 1] = Math.min(entry[i + 1], Math.sqrt(entry[i] ** 2 + 2 * s.acceleration * s.length));
+  }
+
+  return segments.map((s, i) => {
+    const v0 = entry[i];
+    const v1 = entry[i + 1];
+    const accelerating = (s.maxSpeed ** 2 - v0 ** 2) / (2 * s.acceleration);
+    const decelerating = (s.maxSpeed ** 2 - v1 ** 2) / (2 * s.acceleration);
+
+    if (accelerating + decelerating <= s.length) {
+      return (s.maxSpeed - v0) / s.acceleration + (s.maxSpeed - v1) / s.acceleration +
+        (s.length - accelerating - decelerating) / s.maxSpeed;
+    }
+
+    // Triangular profile: never reaches the programmed speed
+    const peak = Math.sqrt((2 * s.acceleration * s.length + v0 ** 2 + v1 ** 2) / 2);
+    return (peak - v0) / s.acceleration + (peak - v1) / s.acceleration;
+  });
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
@@ -175,7 +175,7 @@ export class GitHubAuthService {
           github_id: githubUser.id.toString(),
           github_username: githubUser.login,
           role: role,
-          subscription_tier: role === 'superadmin' ? 'pro' : 'free',
+          subscription_tier: role === 'superadmin' ? 'professional' : 'free',
           is_active: true,
           last_login: new Date().toISOString(),
           created_at: new Date().toISOString(),
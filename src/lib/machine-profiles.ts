@@ -0,0 +1,253 @@
+// Machine profile registry
+// Built-in lasers, routers and the Shaper Origin, plus machines users save for themselves
+
+import type { GCodeOutput } from './cloudflare-ai';
+import type { KerfProperties, MachineCapabilities } from './manufacturing-constraints';
+import type { DatabaseService, MachineProfileRecord } from './database';
+import { toolpathCompiler, resolveMachineSettings, type MachineSettings, type MachineType } from './toolpath-compiler';
+import { KERF_PROPERTIES, MACHINE_CAPABILITIES } from './material-database';
+import type { OperationLayerModel } from './operation-layers';
+
+export type MachineKind = 'co2-laser' | 'diode-laser' | 'fiber-laser' | 'cnc-router' | 'handheld-router' | 'plasma';
+export type MachineOperation = 'cut' | 'score' | 'engrave' | 'pocket' | 'drill';
+
+export interface MachineProfile {
+  id: string;
+  name: string;
+  kind: MachineKind;
+  capabilities: MachineCapabilities;
+  kerf: KerfProperties; // for routers, width is the tool diameter
+  operations: MachineOperation[];
+  postProcessor: string | null; // G-code dialect; null for machines that take SVG, like the Glowforge and Shaper
+  family: 'glowforge' | 'shaper' | 'cnc'; // component generator target
+  source: 'builtin' | 'user';
+}
+
+export const DEFAULT_MACHINE_ID = 'glowforge-basic';
+
+const KINDS: MachineKind[] = ['co2-laser', 'diode-laser', 'fiber-laser', 'cnc-router', 'handheld-router', 'plasma'];
+const OPERATIONS: MachineOperation[] = ['cut', 'score', 'engrave', 'pocket', 'drill'];
+export const POST_PROCESSORS = ['grbl', 'marlin', 'linuxcnc', 'ruida'];
+const COMPENSATIONS: KerfProperties['compensation'][] = ['none', 'inside', 'outside', 'center'];
+const KIND_TYPES: Record<MachineKind, MachineCapabilities['type']> = {
+  'co2-laser': 'laser',
+  'diode-laser': 'laser',
+  'fiber-laser': 'laser',
+  'cnc-router': 'cnc',
+  'handheld-router': 'cnc',
+  plasma: 'plasma'
+};
+const MAX_WORK_AREA = 10000; // mm
+
+const builtin = (
+  id: string,
+  name: string,
+  kind: MachineKind,
+  operations: MachineOperation[],
+  postProcessor: string | null,
+  family: MachineProfile['family']
+): MachineProfile => ({
+  id,
+  name,
+  kind,
+  capabilities: MACHINE_CAPABILITIES[id],
+  kerf: KERF_PROPERTIES[id],
+  operations,
+  postProcessor,
+  family,
+  source: 'builtin'
+});
+
+export const BUILTIN_MACHINE_PROFILES: MachineProfile[] = [
+  builtin('glowforge-basic', 'Glowforge Basic', 'co2-laser', ['cut', 'score', 'engrave'], null, 'glowforge'),
+  builtin('glowforge-pro', 'Glowforge Pro', 'co2-laser', ['cut', 'score', 'engrave'], null, 'glowforge'),
+  builtin('generic-co2', 'CO₂ laser (Ruida controller)', 'co2-laser', ['cut', 'score', 'engrave'], 'ruida', 'glowforge'),
+  builtin('diode-laser', 'Diode laser (GRBL)', 'diode-laser', ['cut', 'score', 'engrave'], 'grbl', 'glowforge'),
+  builtin('cnc-router', 'CNC router (GRBL)', 'cnc-router', ['cut', 'pocket', 'drill', 'engrave'], 'grbl', 'cnc'),
+  builtin('shaper-origin', 'Shaper Origin', 'handheld-router', ['cut', 'pocket', 'engrave'], null, 'shaper')
+];
+
+export class MachineProfileRegistry {
+  private profiles: MachineProfile[];
+
+  constructor(userProfiles: MachineProfile[] = []) {
+    this.profiles = [...BUILTIN_MACHINE_PROFILES, ...userProfiles];
+  }
+
+  listProfiles(): MachineProfile[] {
+    return [...this.profiles];
+  }
+
+  getProfile(id: string): MachineProfile | undefined {
+    return this.profiles.find(profile => profile.id === id);
+  }
+
+  /**
+   * The requested machine, falling back to the default when it is unknown
+   */
+  resolveProfile(id?: string | null): MachineProfile {
+    return (id && this.getProfile(id)) || this.getProfile(DEFAULT_MACHINE_ID)!;
+  }
+}
+
+/**
+ * Check a machine definition from user input and return it in canonical form.
+ * Throws with a message suitable for the API response.
+ */
+export function validateMachineProfile(input: any): Omit<MachineProfile, 'id' | 'source'> {
+  if (!input || typeof input !== 'object') throw new Error('Machine definition is required');
+
+  const name = typeof input.name === 'string' ? input.name.trim() : '';
+  if (!name || name.length > 100) throw new Error('Machine name is required (up to 100 characters)');
+  if (!KINDS.includes(input.kind)) throw new Error(`Machine kind must be one of: ${KINDS.join(', ')}`);
+
+  const kind: MachineKind = input.kind;
+  const type = KIND_TYPES[kind];
+  const capabilities = input.capabilities || {};
+  const workArea = capabilities.workAreaSize || {};
+  const powerRange = range(capabilities.powerRange, 'powerRange', type === 'cnc' ? 100000 : 100);
+  const speedRange = range(capabilities.speedRange, 'speedRange', 100000);
+  const acceleration = capabilities.accelerationLimits || {};
+
+  const operations: MachineOperation[] = Array.isArray(input.operations) && input.operations.length > 0
+    ? [...new Set<MachineOperation>(input.operations.map((operation: any) => {
+        if (!OPERATIONS.includes(operation)) throw new Error(`Unknown operation "${operation}"`);
+        return operation;
+      }))]
+    : ['cut'];
+
+  const postProcessor = input.postProcessor ?? null;
+  if (postProcessor !== null && !POST_PROCESSORS.includes(postProcessor)) {
+    throw new Error(`Post-processor must be one of: ${POST_PROCESSORS.join(', ')}`);
+  }
+
+  const kerf = input.kerf || {};
+  const compensation = kerf.compensation ?? (type === 'cnc' ? 'outside' : 'center');
+  if (!COMPENSATIONS.includes(compensation)) {
+    throw new Error(`Kerf compensation must be one of: ${COMPENSATIONS.join(', ')}`);
+  }
+
+  return {
+    name,
+    kind,
+    capabilities: {
+      type,
+      workAreaSize: {
+        width: positive(workArea.width, 'workAreaSize.width', MAX_WORK_AREA),
+        height: positive(workArea.height, 'workAreaSize.height', MAX_WORK_AREA)
+      },
+      maxThickness: positive(capabilities.maxThickness, 'maxThickness', 500),
+      minFeatureResolution: positive(capabilities.minFeatureResolution ?? 0.05, 'minFeatureResolution', 10),
+      powerRange,
+      speedRange,
+      accelerationLimits: {
+        x: positive(acceleration.x ?? 1000, 'accelerationLimits.x', 100000),
+        y: positive(acceleration.y ?? 1000, 'accelerationLimits.y', 100000)
+      }
+    },
+    kerf: {
+      width: positive(kerf.width, type === 'cnc' ? 'Tool diameter' : 'Kerf width', 50),
+      variation: nonNegative(kerf.variation ?? 0.02, 'kerf.variation', 5),
+      compensation,
+      cornerEffect: nonNegative(kerf.cornerEffect ?? 0, 'kerf.cornerEffect', 5)
+    },
+    operations,
+    postProcessor,
+    family: kind === 'handheld-router' ? 'shaper' : type === 'laser' ? 'glowforge' : 'cnc'
+  };
+}
+
+/**
+ * Turn a stored row back into a profile, or null when its JSON is unreadable
+ */
+export function parseMachineProfile(record: MachineProfileRecord): MachineProfile | null {
+  try {
+    return { ...JSON.parse(record.profile), id: record.id, name: record.name, source: 'user' };
+  } catch (error) {
+    console.error('Machine profile parse error:', error);
+    return null;
+  }
+}
+
+/**
+ * A user's saved machines, in the order they were added
+ */
+export async function loadMachineProfiles(database: DatabaseService, userId: string): Promise<MachineProfile[]> {
+  const records = await database.getMachineProfiles(userId);
+  return records
+    .map(parseMachineProfile)
+    .filter((profile): profile is MachineProfile => profile !== null);
+}
+
+/**
+ * Compile G-code for a machine profile, or for a bare machine type such as
+ * 'laser' when no profile matches. Profiles supply the post-processor and the
+ * limits the program is checked against; the project's operation layers, when
+ * given, decide what each shape is and the power and feed it runs at.
+ */
+export function generateMachineGCode(
+  svg: string,
+  material: string,
+  machine: string | MachineProfile,
+  overrides: Partial<MachineSettings> = {},
+  layers?: OperationLayerModel
+): GCodeOutput {
+  const profile = typeof machine === 'string' ? machineProfileRegistry.getProfile(machine) : machine;
+  if (!profile) {
+    return toolpathCompiler.generate(svg, resolveMachineSettings(material, machine as string, overrides), { layers });
+  }
+  return toolpathCompiler.generate(svg, machineSettingsForProfile(profile, material, overrides), {
+    machine: profile.capabilities,
+    layers
+  });
+}
+
+/**
+ * Toolpath settings for a machine, with feeds and power inside its ranges
+ */
+export function machineSettingsForProfile(
+  profile: MachineProfile,
+  material: string,
+  overrides: Partial<MachineSettings> = {}
+): MachineSettings {
+  const { capabilities } = profile;
+  const machineType: MachineType = capabilities.type === 'waterjet' ? 'cnc' : capabilities.type;
+  const clampSpeed = (speed: number) => Math.min(capabilities.speedRange.max, Math.max(capabilities.speedRange.min, speed));
+
+  return {
+    machineType,
+    material,
+    thickness: 3,
+    feedRate: clampSpeed(1000),
+    passes: 1,
+    postProcessor: profile.postProcessor || 'grbl',
+    ...(machineType === 'laser' ? { laserPower: 80 } : {}),
+    ...(machineType === 'cnc' ? { spindleSpeed: Math.min(capabilities.powerRange.max, Math.max(capabilities.powerRange.min, 18000)) } : {}),
+    ...overrides
+  };
+}
+
+function positive(value: any, label: string, max: number): number {
+  const number = Number(value);
+  if (!Number.isFinite(number) || number <= 0 || number > max) {
+    throw new Error(`${label} must be a number above 0 and at most ${max}`);
+  }
+  return number;
+}
+
+function nonNegative(value: any, label: string, max: number): number {
+  const number = Number(value);
+  if (!Number.isFinite(number) || number < 0 || number > max) {
+    throw new Error(`${label} must be a number from 0 to ${max}`);
+  }
+  return number;
+}
+
+function range(value: any, label: string, max: number): { min: number; max: number } {
+  if (!value || typeof value !== 'object') throw new Error(`${label} needs min and max`);
+  const result = { min: nonNegative(value.min, `${label}.min`, max), max: positive(value.max, `${label}.max`, max) };
+  if (result.min > result.max) throw new Error(`${label}.min is above ${label}.max`);
+  return result;
+}
+
+export const machineProfileRegistry = new MachineProfileRegistry();
@@ -1,6 +1,29 @@
 // Manufacturing constraints and physics validation for laser cutting
 // Ensures all AI-generated designs are actually manufacturable
 
+import {
+  parseSVG,
+  parseSVGDocument,
+  serializeSVGDocument,
+  setElementPath,
+  pointsToPathData,
+  invertMatrix,
+  applyMatrix,
+  buildContourTree,
+  simplifyCollinear,
+  signedArea,
+  polylineLength,
+  polylineDistance,
+  pointToSegmentDistance,
+  getBoundingBox,
+  orientedExtent,
+  type ContourNode,
+  type Point,
+  type Subpath,
+  type SVGNode
+} from './svg-geometry';
+import { offsetPolygon } from './polygon-offset';
+
 export interface MaterialProperties {
   name: string;
   type: 'wood' | 'acrylic' | 'metal' | 'paper' | 'fabric' | 'composite';
@@ -72,6 +95,14 @@ export interface MachineCapabilities {
   accelerationLimits: { x: number; y: number }; // mm/s²
 }
 
+// Feature classification thresholds
+const CIRCULARITY_THRESHOLD = 0.85; // 4πA/P² - 1.0 for a perfect circle
+const SLOT_ASPECT_RATIO = 2; // length/width above which a cutout is a slot
+const BEAM_ASPECT_RATIO = 3; // length/width above which a web acts as a beam
+const CANTILEVER_ASPECT_RATIO = 1.5; // length/width above which a tab acts as a cantilever
+const WEB_WIDTH_FACTOR = 3; // webs wider than minBeamWidth * factor are treated as solid
+const TOUCH_TOLERANCE = 0.001; // mm - contours closer than this are connected
+
 export class ManufacturingValidator {
   private constraints: ManufacturingConstraints;
 
@@ -109,19 +140,25 @@ export class ManufacturingValidator {
   }
 
   /**
-   * Generate kerf-compensated paths
+   * Generate kerf-compensated paths.
+   * 'outside' keeps the kerf outside the part so outlines grow and holes shrink
+   * (parts come out true to size); 'inside' does the opposite.
    */
-  generateKerfCompensatedSVG(originalSVG: string, compensationType: 'inside' | 'outside' | 'center' = 'center'): string {
+  generateKerfCompensatedSVG(
+    originalSVG: string,
+    compensationType: 'inside' | 'outside' | 'center' = 'center',
+    joinType: 'miter' | 'round' = 'miter'
+  ): string {
     const kerfOffset = this.constraints.kerf.width / 2;
 
     // Apply offset based on compensation type
     let offset = 0;
     switch (compensationType) {
       case 'inside':
-        offset = -kerfOffset; // Shrink paths for interior cuts
+        offset = -kerfOffset; // Kerf inside the part
         break;
       case 'outside':
-        offset = kerfOffset; // Expand paths for exterior cuts
+        offset = kerfOffset; // Kerf outside the part
         break;
       case 'center':
         offset = 0; // No compensation - cut on the line
@@ -129,7 +166,7 @@ export class ManufacturingValidator {
     }
 
     // Parse SVG and apply offset to all paths
-    return this.applyPathOffset(originalSVG, offset);
+    return this.applyPathOffset(originalSVG, offset, joinType);
   }
 
   /**
@@ -250,11 +287,13 @@ export class ManufacturingValidator {
         });
       }
 
-      // Check gaps between features
-      const nearbyFeatures = this.findNearbyFeatures(feature, features, kerf * 3);
-      if (nearbyFeatures.length > 0) {
+      // Check gaps between features (touching contours are connected, not spaced)
+      const gaps = this.findNearbyFeatures(feature, features, kerf * 3)
+        .map(nearby => this.calculateMinGap(feature, nearby))
+        .filter(gap => gap > TOUCH_TOLERANCE);
+      if (gaps.length > 0) {
         const minGap = kerf * 2; // Features must be at least 2x kerf width apart
-        const actualGap = this.calculateMinGap(feature, nearbyFeatures[0]);
+        const actualGap = Math.min(...gaps);
 
         if (actualGap < minGap) {
           violations.push({
@@ -276,20 +315,253 @@ export class ManufacturingValidator {
     return [];
   }
 
+  /**
+   * Check the design against the machine: it must fit the work area (either
+   * way round), and a router cannot cut a cutout narrower than its bit
+   */
   private checkDimensionalLimits(features: GeometricFeature[]): Violation[] {
-    // Implementation for dimensional checks
-    return [];
+    const violations: Violation[] = [];
+    const machine = this.constraints.machine;
+    const points = features.flatMap(feature => feature.points || []);
+    if (points.length === 0) return violations;
+
+    const bounds = getBoundingBox(points);
+    const { width, height } = machine.workAreaSize;
+    const fits = (bounds.width <= width && bounds.height <= height) || (bounds.width <= height && bounds.height <= width);
+    if (!fits) {
+      violations.push({
+        type: 'dimensional',
+        severity: 'high',
+        message: `Design is ${round(bounds.width)}×${round(bounds.height)}mm but the machine work area is ${width}×${height}mm`,
+        location: bounds,
+        fix: 'Scale the design down or split it into parts that fit the work area'
+      });
+    }
+
+    if (machine.type === 'cnc') {
+      const toolDiameter = this.constraints.kerf.width;
+      for (const feature of features) {
+        if ((feature.type === 'hole' || feature.type === 'slot') && feature.minDimension < toolDiameter) {
+          violations.push({
+            type: 'dimensional',
+            severity: 'high',
+            message: `${feature.type === 'hole' ? 'Hole' : 'Slot'} ${feature.minDimension}mm wide is narrower than the ${toolDiameter}mm tool`,
+            location: feature.bounds,
+            fix: `Widen it to at least ${toolDiameter}mm or use a smaller bit`
+          });
+        }
+      }
+    }
+
+    return violations;
   }
 
   private checkMaterialLimits(features: GeometricFeature[]): Violation[] {
-    // Implementation for material-specific checks
-    return [];
+    const { material, machine } = this.constraints;
+    if (features.length === 0 || material.thickness <= machine.maxThickness) return [];
+
+    return [{
+      type: 'material',
+      severity: 'high',
+      message: `${material.name} is ${material.thickness}mm thick; the machine handles up to ${machine.maxThickness}mm`,
+      location: getBoundingBox(features.flatMap(feature => feature.points || [])),
+      fix: 'Choose thinner stock or a machine rated for this thickness'
+    }];
   }
 
+  /**
+   * Extract geometric features from SVG markup.
+   * Closed contours are classified by nesting depth: outlines at even depths,
+   * cutouts (holes and slots) at odd depths. Beams are the thin webs of material
+   * left between neighbouring contours; cantilevers are narrow tabs on outlines.
+   */
   private parseSVGFeatures(svgPath: string): GeometricFeature[] {
-    // Parse SVG and extract geometric features for analysis
-    // This would use an SVG parsing library in real implementation
-    return [];
+    const geometry = parseSVG(svgPath);
+    const contours = buildContourTree(geometry.shapes);
+    const features: GeometricFeature[] = [];
+
+    for (const contour of contours) {
+      const { shape } = contour;
+      const points = simplifyCollinear(shape.points, shape.closed);
+
+      if (!shape.closed || points.length < 3) {
+        features.push(this.createPathFeature(points));
+      } else if (contour.depth % 2 === 1) {
+        features.push(this.createCutoutFeature(points));
+      } else {
+        features.push(this.createOutlineFeature(points));
+        features.push(...this.findCantilevers(points));
+      }
+    }
+
+    features.push(...this.findBeams(contours));
+
+    return features;
+  }
+
+  private createPathFeature(points: Point[]): GeometricFeature {
+    const length = round(polylineLength(points));
+
+    return {
+      type: points.length === 2 ? 'line' : 'curve',
+      bounds: getBoundingBox(points),
+      minDimension: length,
+      maxDimension: length,
+      length,
+      area: 0,
+      points,
+      closed: false
+    };
+  }
+
+  private createOutlineFeature(points: Point[]): GeometricFeature {
+    const extent = orientedExtent(points);
+
+    return {
+      type: 'curve',
+      bounds: getBoundingBox(points),
+      minDimension: round(extent.width),
+      maxDimension: round(extent.length),
+      length: round(polylineLength(points, true)),
+      area: round(Math.abs(signedArea(points))),
+      points,
+      closed: true
+    };
+  }
+
+  private createCutoutFeature(points: Point[]): GeometricFeature {
+    const area = Math.abs(signedArea(points));
+    const perimeter = polylineLength(points, true);
+    const extent = orientedExtent(points);
+    const circularity = perimeter > 0 ? (4 * Math.PI * area) / (perimeter * perimeter) : 0;
+
+    const base = {
+      bounds: getBoundingBox(points),
+      area: round(area),
+      points,
+      closed: true
+    };
+
+    if (circularity >= CIRCULARITY_THRESHOLD) {
+      const diameter = round(2 * Math.sqrt(area / Math.PI));
+      return { ...base, type: 'hole', diameter, minDimension: diameter, maxDimension: diameter };
+    }
+
+    const width = round(extent.width);
+    const length = round(extent.length);
+
+    if (width > 0 && length / width >= SLOT_ASPECT_RATIO) {
+      return { ...base, type: 'slot', length, width, minDimension: width, maxDimension: length };
+    }
+
+    // Irregular cutouts are sized by their narrowest opening
+    return { ...base, type: 'hole', diameter: width, minDimension: width, maxDimension: length };
+  }
+
+  /**
+   * Find narrow tabs on an outline: an edge whose corners are both convex and
+   * whose neighbouring edges run back parallel to each other. At least one base
+   * corner must be concave so a free-standing strip is not mistaken for a tab.
+   */
+  private findCantilevers(points: Point[]): GeometricFeature[] {
+    const cantilevers: GeometricFeature[] = [];
+    const count = points.length;
+    if (count < 4) return cantilevers;
+
+    const orientation = Math.sign(signedArea(points));
+    const at = (i: number) => points[((i % count) + count) % count];
+    const isConvex = (i: number) => turn(at(i - 1), at(i), at(i + 1)) * orientation > 0;
+
+    for (let i = 0; i < count; i++) {
+      const p0 = at(i - 1);
+      const p1 = at(i);
+      const p2 = at(i + 1);
+      const p3 = at(i + 2);
+
+      if (!isConvex(i) || !isConvex(i + 1)) continue;
+      if (isConvex(i - 1) && isConvex(i + 2)) continue;
+
+      const before = { x: p1.x - p0.x, y: p1.y - p0.y };
+      const after = { x: p3.x - p2.x, y: p3.y - p2.y };
+      const beforeLength = Math.hypot(before.x, before.y);
+      const afterLength = Math.hypot(after.x, after.y);
+      const alignment = (before.x * after.x + before.y * after.y) / (beforeLength * afterLength);
+      if (alignment > -0.95) continue;
+
+      const width = Math.hypot(p2.x - p1.x, p2.y - p1.y);
+      const length = Math.min(beforeLength, afterLength);
+      if (width <= 0 || length < CANTILEVER_ASPECT_RATIO * width) continue;
+
+      const base1 = { x: p1.x - (before.x / beforeLength) * length, y: p1.y - (before.y / beforeLength) * length };
+      const base2 = { x: p2.x + (after.x / afterLength) * length, y: p2.y + (after.y / afterLength) * length };
+
+      cantilevers.push({
+        type: 'cantilever',
+        bounds: getBoundingBox([p1, p2, base1, base2]),
+        minDimension: round(width),
+        maxDimension: round(length),
+        length: round(length),
+        width: round(width),
+        area: round(length * width)
+      });
+    }
+
+    return cantilevers;
+  }
+
+  /**
+   * Find thin webs of material between a cutout and its neighbours
+   * (sibling cutouts or the enclosing outline)
+   */
+  private findBeams(contours: ContourNode[]): GeometricFeature[] {
+    const beams: GeometricFeature[] = [];
+    const maxWebWidth = this.constraints.structural.minBeamWidth * WEB_WIDTH_FACTOR;
+    const cutouts = contours.filter(c => c.shape.closed && c.depth % 2 === 1);
+
+    for (const cutout of cutouts) {
+      const neighbours = contours.filter(other =>
+        other.shape.closed && (
+          other.index === cutout.parent ||
+          (other.depth === cutout.depth && other.parent === cutout.parent && other.index > cutout.index)
+        )
+      );
+
+      for (const neighbour of neighbours) {
+        const beam = this.measureWeb(cutout.shape.points, neighbour.shape.points, maxWebWidth);
+        if (beam) beams.push(beam);
+      }
+    }
+
+    return beams;
+  }
+
+  private measureWeb(a: Point[], b: Point[], maxWebWidth: number): GeometricFeature | null {
+    const boxA = getBoundingBox(a);
+    const boxB = getBoundingBox(b);
+    if (boundsGap(boxA, boxB) > maxWebWidth) return null;
+
+    const gap = polylineDistance(a, true, b, true);
+    if (gap <= TOUCH_TOLERANCE || gap > maxWebWidth) return null;
+
+    // Sample the shorter contour and keep the stretch that runs alongside the other
+    const [sampled, other] = polylineLength(a, true) <= polylineLength(b, true) ? [a, b] : [b, a];
+    const samples = densify(sampled, Math.max(gap / 2, 0.5));
+    const threshold = gap * 1.25 + TOUCH_TOLERANCE;
+    const alongside = samples.filter(p => distanceToContour(p, other) <= threshold);
+    if (alongside.length < 2) return null;
+
+    const length = orientedExtent(alongside).length;
+    if (length < BEAM_ASPECT_RATIO * gap) return null;
+
+    return {
+      type: 'beam',
+      bounds: getBoundingBox(alongside),
+      minDimension: round(gap),
+      maxDimension: round(length),
+      length: round(length),
+      width: round(gap),
+      area: round(length * gap)
+    };
   }
 
   private generateFixes(violations: Violation[]): string[] {
@@ -312,22 +584,65 @@ export class ManufacturingValidator {
     return 95; // Base success rate with only low-severity issues
   }
 
-  private applyPathOffset(svg: string, offset: number): string {
-    // Apply offset to SVG paths - simplified implementation
-    // Real implementation would use SVG path manipulation library
-    return svg; // Placeholder
+  /**
+   * Offset every closed contour away from the material: outlines (even depth)
+   * grow by the offset and holes (odd depth) shrink by it. Open paths such as
+   * score lines are left untouched.
+   */
+  private applyPathOffset(svg: string, offset: number, joinType: 'miter' | 'round' = 'miter'): string {
+    if (offset === 0) return svg;
+
+    const document = parseSVGDocument(svg);
+    const contours = buildContourTree(document.geometry.shapes);
+    const subpathsByNode = new Map<SVGNode, Subpath[]>();
+
+    for (const contour of contours) {
+      const { shape } = contour;
+      const toLocal = invertMatrix(shape.matrix);
+      let subpaths: Subpath[] = [{ points: shape.points, closed: shape.closed }];
+
+      if (shape.closed && shape.points.length >= 3) {
+        const delta = contour.depth % 2 === 0 ? offset : -offset;
+        const offsetPolygons = offsetPolygon(shape.points, delta, {
+          joinType,
+          cornerEffect: this.constraints.kerf.cornerEffect
+        });
+
+        if (offsetPolygons.length > 0) {
+          subpaths = offsetPolygons.map(points => ({ points, closed: true }));
+        } else {
+          console.warn('Kerf compensation collapsed a contour narrower than the kerf; keeping original geometry');
+        }
+      }
+
+      const local = subpaths.map(subpath => ({
+        points: subpath.points.map(p => applyMatrix(toLocal, p)),
+        closed: subpath.closed
+      }));
+      subpathsByNode.set(shape.node, [...(subpathsByNode.get(shape.node) || []), ...local]);
+    }
+
+    subpathsByNode.forEach((subpaths, node) => setElementPath(node, pointsToPathData(subpaths, 4)));
+
+    return serializeSVGDocument(document.tree);
   }
 
   private findNearbyFeatures(feature: GeometricFeature, allFeatures: GeometricFeature[], radius: number): GeometricFeature[] {
+    // Only contour features have edges to measure; beams and cantilevers are derived from them
+    if (!feature.points) return [];
+
     return allFeatures.filter(f =>
       f !== feature &&
-      this.calculateDistance(feature.bounds.center, f.bounds.center) <= radius
+      f.points !== undefined &&
+      boundsGap(feature.bounds, f.bounds) <= radius
     );
   }
 
   private calculateMinGap(feature1: GeometricFeature, feature2: GeometricFeature): number {
-    // Calculate minimum distance between feature edges
-    return 0; // Placeholder
+    if (!feature1.points || !feature2.points) {
+      return round(boundsGap(feature1.bounds, feature2.bounds));
+    }
+    return round(polylineDistance(feature1.points, !!feature1.closed, feature2.points, !!feature2.closed));
   }
 
   private calculateDistance(point1: { x: number; y: number }, point2: { x: number; y: number }): number {
@@ -361,6 +676,8 @@ export interface GeometricFeature {
   width?: number;
   diameter?: number;
   area: number;
+  points?: Point[]; // flattened contour in mm (absent for derived beam/cantilever features)
+  closed?: boolean;
 }
 
 export interface BoundingBox {
@@ -371,6 +688,44 @@ export interface BoundingBox {
   center: { x: number; y: number };
 }
 
+// Geometry helpers
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+// z-component of (b - a) × (c - b)
+function turn(a: Point, b: Point, c: Point): number {
+  return (b.x - a.x) * (c.y - b.y) - (b.y - a.y) * (c.x - b.x);
+}
+
+function boundsGap(a: BoundingBox, b: BoundingBox): number {
+  const dx = Math.max(0, a.x - (b.x + b.width), b.x - (a.x + a.width));
+  const dy = Math.max(0, a.y - (b.y + b.height), b.y - (a.y + a.height));
+  return Math.hypot(dx, dy);
+}
+
+function distanceToContour(p: Point, contour: Point[]): number {
+  let minimum = Infinity;
+  for (let i = 0, j = contour.length - 1; i < contour.length; j = i++) {
+    minimum = Math.min(minimum, pointToSegmentDistance(p, contour[j], contour[i]));
+  }
+  return minimum;
+}
+
+// Resample a closed contour so no edge is longer than step
+function densify(points: Point[], step: number): Point[] {
+  const result: Point[] = [];
+  for (let i = 0; i < points.length; i++) {
+    const a = points[i];
+    const b = points[(i + 1) % points.length];
+    const segments = Math.max(1, Math.ceil(Math.hypot(b.x - a.x, b.y - a.y) / step));
+    for (let k = 0; k < segments; k++) {
+      result.push({ x: a.x + ((b.x - a.x) * k) / segments, y: a.y + ((b.y - a.y) * k) / segments });
+    }
+  }
+  return result;
+}
+
 // Export commonly used constraint sets
 export const GLOWFORGE_CONSTRAINTS: Partial<MachineCapabilities> = {
   type: 'laser',
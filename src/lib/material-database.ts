@@ -2,6 +2,8 @@
 // Based on real-world testing data for accurate manufacturing constraints
 
 import type { MaterialProperties, KerfProperties, StructuralLimits, DimensionalLimits, MachineCapabilities, ManufacturingConstraints } from './manufacturing-constraints';
+import type { MachineProfile } from './machine-profiles';
+import type { CustomMaterial } from './material-library';
 
 // Material database with tested properties
 export const MATERIALS: Record<string, MaterialProperties> = {
@@ -208,6 +210,24 @@ export const KERF_PROPERTIES: Record<string, KerfProperties> = {
     variation: 0.03,
     compensation: 'center',
     cornerEffect: 0.06
+  },
+  'diode-laser': {
+    width: 0.08, // narrow beam, but needs several passes on thicker stock
+    variation: 0.03,
+    compensation: 'center',
+    cornerEffect: 0.05
+  },
+  'cnc-router': {
+    width: 3.175, // 1/8" end mill
+    variation: 0.02,
+    compensation: 'outside',
+    cornerEffect: 0
+  },
+  'shaper-origin': {
+    width: 3, // 3mm spiral bit; the Origin offsets for the bit itself
+    variation: 0.05,
+    compensation: 'outside',
+    cornerEffect: 0
   }
 };
 
@@ -276,30 +296,93 @@ export const GLOWFORGE_CAPABILITIES: MachineCapabilities = {
   accelerationLimits: { x: 20000, y: 20000 } // mm/s²
 };
 
+// Machine capabilities, keyed like KERF_PROPERTIES
+export const MACHINE_CAPABILITIES: Record<string, MachineCapabilities> = {
+  'glowforge-basic': GLOWFORGE_CAPABILITIES,
+  'glowforge-pro': {
+    ...GLOWFORGE_CAPABILITIES,
+    maxThickness: 38 // mm - passthrough slot and taller lift
+  },
+  'generic-co2': {
+    type: 'laser',
+    workAreaSize: { width: 600, height: 400 },
+    maxThickness: 20,
+    minFeatureResolution: 0.05,
+    powerRange: { min: 1, max: 100 },
+    speedRange: { min: 60, max: 30000 },
+    accelerationLimits: { x: 3000, y: 3000 }
+  },
+  'diode-laser': {
+    type: 'laser',
+    workAreaSize: { width: 430, height: 390 },
+    maxThickness: 10,
+    minFeatureResolution: 0.08,
+    powerRange: { min: 1, max: 100 },
+    speedRange: { min: 60, max: 24000 },
+    accelerationLimits: { x: 2000, y: 2000 }
+  },
+  'cnc-router': {
+    type: 'cnc',
+    workAreaSize: { width: 838, height: 838 },
+    maxThickness: 75,
+    minFeatureResolution: 0.05,
+    powerRange: { min: 10000, max: 30000 }, // spindle RPM
+    speedRange: { min: 50, max: 5000 },
+    accelerationLimits: { x: 400, y: 400 }
+  },
+  'shaper-origin': {
+    type: 'cnc',
+    workAreaSize: { width: 10000, height: 10000 }, // handheld, limited only by the workpiece
+    maxThickness: 43, // maximum plunge depth
+    minFeatureResolution: 0.1,
+    powerRange: { min: 10000, max: 26000 },
+    speedRange: { min: 60, max: 1200 },
+    accelerationLimits: { x: 500, y: 500 }
+  }
+};
+
 /**
- * Get complete manufacturing constraints for a material + machine combination
+ * Look up a material, preferring the caller's custom materials over the
+ * built-in database
+ */
+export function findMaterial(materialKey: string, customMaterials: CustomMaterial[] = []): MaterialProperties | CustomMaterial | undefined {
+  return customMaterials.find(material => material.key === materialKey) || MATERIALS[materialKey];
+}
+
+/**
+ * Get complete manufacturing constraints for a material + machine combination.
+ * The machine is a built-in key or a resolved profile, such as a user's own machine.
  */
 export function getManufacturingConstraints(
   materialKey: string,
-  machineType: 'glowforge-basic' | 'glowforge-pro' | 'generic-co2' = 'glowforge-basic',
-  precisionLevel: 'high-precision' | 'standard' | 'quick' = 'standard'
+  machineType: string | Pick<MachineProfile, 'capabilities' | 'kerf'> = 'glowforge-basic',
+  precisionLevel: 'high-precision' | 'standard' | 'quick' = 'standard',
+  customMaterials: CustomMaterial[] = []
 ): ManufacturingConstraints {
-  const material = MATERIALS[materialKey];
+  const material = findMaterial(materialKey, customMaterials);
   if (!material) {
     throw new Error(`Unknown material: ${materialKey}`);
   }
 
-  const kerf = KERF_PROPERTIES[machineType];
+  const machine = typeof machineType === 'string'
+    ? { kerf: KERF_PROPERTIES[machineType], capabilities: MACHINE_CAPABILITIES[machineType] }
+    : machineType;
+  if (!machine.kerf || !machine.capabilities) {
+    throw new Error(`Unknown machine: ${machineType}`);
+  }
+
+  // Custom materials carry a kerf measured on the user's own machine
+  const custom = 'key' in material;
   const structuralKey = `${material.type}-${material.thickness}mm`;
-  const structural = STRUCTURAL_LIMITS[structuralKey] || STRUCTURAL_LIMITS['wood-3mm'];
+  const structural = (custom && material.structural) || STRUCTURAL_LIMITS[structuralKey] || STRUCTURAL_LIMITS['wood-3mm'];
   const dimensional = DIMENSIONAL_LIMITS[precisionLevel];
 
   return {
     material,
-    kerf,
+    kerf: custom ? { ...machine.kerf, width: material.kerfWidth } : machine.kerf,
     structural,
     dimensional,
-    machine: GLOWFORGE_CAPABILITIES
+    machine: machine.capabilities
   };
 }
 
@@ -377,9 +460,10 @@ export function validateMaterialSelection(
     needsFlexibility?: boolean;
     needsTransparency?: boolean;
     outdoorUse?: boolean;
-  }
+  },
+  customMaterials: CustomMaterial[] = []
 ): { isValid: boolean; issues: string[]; alternatives: string[] } {
-  const material = MATERIALS[materialKey];
+  const material = findMaterial(materialKey, customMaterials);
   if (!material) {
     return {
       isValid: false,
@@ -394,7 +478,7 @@ export function validateMaterialSelection(
   // Check span requirements
   if (designRequirements.maxSpan) {
     const structuralKey = `${material.type}-${material.thickness}mm`;
-    const structural = STRUCTURAL_LIMITS[structuralKey];
+    const structural = ('key' in material && material.structural) || STRUCTURAL_LIMITS[structuralKey];
     if (structural && designRequirements.maxSpan > structural.maxSpanWithoutSupport) {
       issues.push(`Design span ${designRequirements.maxSpan}mm exceeds material limit ${structural.maxSpanWithoutSupport}mm`);
       alternatives.push('plywood-6mm', 'hardwood-maple-3mm');
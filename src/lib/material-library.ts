@@ -0,0 +1,160 @@
+// User material library
+// Calibrated materials saved per user or shared with a tenant, layered over the built-in database
+
+import type { MaterialProperties, StructuralLimits } from './manufacturing-constraints';
+import type { CustomMaterialRecord, DatabaseService } from './database';
+import { MATERIALS } from './material-database';
+
+export interface CustomMaterial extends MaterialProperties {
+  id: string;
+  key: string; // used wherever a built-in material key is accepted, and may shadow one
+  ownerId: string;
+  tenantId: string | null;
+  scope: 'user' | 'tenant';
+  basedOn?: string; // built-in material the unmeasured properties came from
+  structural?: StructuralLimits; // measured limits instead of the thickness-based table
+  notes?: string;
+}
+
+export type CustomMaterialDefinition = Omit<CustomMaterial, 'id' | 'ownerId' | 'tenantId' | 'scope'>;
+
+const KEY_PATTERN = /^[a-z0-9][a-z0-9-]{1,62}$/;
+const TYPES: MaterialProperties['type'][] = ['wood', 'acrylic', 'metal', 'paper', 'fabric', 'composite'];
+
+// [min, max] for every numeric property; tolerances may be negative for press fits
+const NUMERIC_RANGES: Record<string, [number, number]> = {
+  thickness: [0.1, 100],
+  density: [1, 20000],
+  tensileStrength: [0, 5000],
+  elasticModulus: [0, 1000],
+  kerfWidth: [0, 10],
+  heatAffectedZone: [0, 10],
+  charDepth: [0, 10],
+  minFeatureSize: [0, 100],
+  minHoleSize: [0, 100],
+  minSlotWidth: [0, 100],
+  maxAspectRatio: [1, 1000],
+  thermalExpansion: [0, 1],
+  pressFitTolerance: [-5, 5],
+  looseFitTolerance: [-5, 5],
+  slidingFitTolerance: [-5, 5]
+};
+const STRUCTURAL_RANGES: Record<keyof StructuralLimits, [number, number]> = {
+  maxSpanWithoutSupport: [0, 10000],
+  maxCantileverLength: [0, 10000],
+  minWallThickness: [0, 100],
+  minBeamWidth: [0, 100],
+  safetyFactor: [1, 20]
+};
+
+/**
+ * Check a material from user input and return it in canonical form. Starting
+ * from a built-in material (basedOn) means only measured values need entering.
+ * Throws with a message suitable for the API response.
+ */
+export function validateCustomMaterial(input: any): CustomMaterialDefinition {
+  if (!input || typeof input !== 'object') throw new Error('Material definition is required');
+
+  const key = String(input.key || '');
+  if (!KEY_PATTERN.test(key)) {
+    throw new Error('Material key must be 2-63 lowercase letters, digits or hyphens');
+  }
+
+  const basedOn = input.basedOn ? String(input.basedOn) : undefined;
+  const base = basedOn ? MATERIALS[basedOn] : undefined;
+  if (basedOn && !base) throw new Error(`Unknown base material: ${basedOn}`);
+
+  const name = typeof input.name === 'string' && input.name.trim() ? input.name.trim() : base?.name;
+  if (!name || name.length > 100) throw new Error('Material name is required (up to 100 characters)');
+
+  const type = input.type ?? base?.type;
+  if (!TYPES.includes(type)) throw new Error(`Material type must be one of: ${TYPES.join(', ')}`);
+
+  const numbers = Object.fromEntries(
+    Object.entries(NUMERIC_RANGES).map(([field, [min, max]]) => [
+      field,
+      numberInRange(input[field] ?? (base as any)?.[field], field, min, max)
+    ])
+  );
+
+  const tempRange = input.operatingTempRange ?? base?.operatingTempRange;
+  if (!tempRange || !Number.isFinite(tempRange.min) || !Number.isFinite(tempRange.max) || tempRange.min > tempRange.max) {
+    throw new Error('operatingTempRange needs a min no greater than its max');
+  }
+
+  const notes = typeof input.notes === 'string' ? input.notes.trim().slice(0, 1000) : undefined;
+
+  return {
+    ...(numbers as Omit<MaterialProperties, 'name' | 'type' | 'operatingTempRange'>),
+    key,
+    name,
+    type,
+    operatingTempRange: { min: tempRange.min, max: tempRange.max },
+    ...(basedOn ? { basedOn } : {}),
+    ...(input.structural ? { structural: validateStructural(input.structural) } : {}),
+    ...(notes ? { notes } : {})
+  };
+}
+
+/**
+ * Turn a stored row back into a material, or null when its JSON is unreadable
+ */
+export function parseCustomMaterial(record: CustomMaterialRecord): CustomMaterial | null {
+  try {
+    return {
+      ...JSON.parse(record.properties),
+      id: record.id,
+      key: record.material_key,
+      name: record.name,
+      ownerId: record.user_id,
+      tenantId: record.tenant_id || null,
+      scope: record.tenant_id ? 'tenant' : 'user'
+    };
+  } catch (error) {
+    console.error('Custom material parse error:', error);
+    return null;
+  }
+}
+
+/**
+ * Materials visible to a user. Their own come first, so a lookup by key
+ * prefers them over tenant materials with the same key.
+ */
+export async function loadCustomMaterials(
+  database: DatabaseService,
+  userId: string,
+  tenantId?: string | null
+): Promise<CustomMaterial[]> {
+  const records = await database.getCustomMaterials(userId, tenantId);
+  return records
+    .map(parseCustomMaterial)
+    .filter((material): material is CustomMaterial => material !== null)
+    .sort((a, b) => Number(b.ownerId === userId) - Number(a.ownerId === userId));
+}
+
+/**
+ * Split a custom material into the record columns it is stored under
+ */
+export function serializeCustomMaterial(material: CustomMaterialDefinition): { material_key: string; name: string; properties: string } {
+  const { key, name, ...properties } = material;
+  return { material_key: key, name, properties: JSON.stringify(properties) };
+}
+
+function validateStructural(input: any): StructuralLimits {
+  if (typeof input !== 'object') throw new Error('structural must be an object');
+  return Object.fromEntries(
+    Object.entries(STRUCTURAL_RANGES).map(([field, [min, max]]) => [
+      field,
+      numberInRange(input[field], `structural.${field}`, min, max)
+    ])
+  ) as unknown as StructuralLimits;
+}
+
+function numberInRange(value: any, field: string, min: number, max: number): number {
+  const number = Number(value);
+  if (value === undefined || value === null || value === '' || !Number.isFinite(number)) {
+    throw new Error(`${field} is required`);
+  }
+  if (number < min || number > max) throw new Error(`${field} must be between ${min} and ${max}`);
+  return number;
+}
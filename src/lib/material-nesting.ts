@@ -1,6 +1,27 @@
 // Visual Material Nesting and Layout Optimization
-import type { Env } from './database';
-import { trackAICall, aiRateLimiter } from './ai-usage-tracker';
+// Deterministic nesting: skyline packing for rectangles, no-fit polygons for true outlines
+
+import {
+  parseSVG,
+  buildContourTree,
+  simplifyCollinear,
+  simplifyDouglasPeucker,
+  convexHull,
+  signedArea,
+  polylineLength,
+  getBoundingBox,
+  type Point
+} from './svg-geometry';
+import { offsetPolygon } from './polygon-offset';
+import { optimizeCutOrder, type CutContour } from './cut-order';
+import type { MachineCapabilities } from './manufacturing-constraints';
+import {
+  packPolygons,
+  packRectangles,
+  rotatePoints,
+  type NestingItem,
+  type NestingPlacement
+} from './nesting-engine';
 
 export interface PartShape {
   id: string;
@@ -27,6 +48,7 @@ export interface MaterialSheet {
   margin: number; // minimum margin from edges
 }
 
+// x/y is the top-left of the part's bounding box after rotating it by `rotation` degrees
 export interface PlacedPart {
   partId: string;
   x: number;
@@ -83,65 +105,146 @@ export interface CostAnalysis {
   savings: string[];
 }
 
-export class MaterialNestingOptimizer {
-  private ai: any;
+export interface NestingOptions {
+  algorithm?: 'efficiency' | 'speed' | 'minimal_waste';
+  allowRotation?: boolean;
+  minimumSpacing?: number; // mm between neighbouring parts
+  prioritizeOrder?: boolean; // keep the given order within a priority level instead of largest-first
+  machine?: MachineCapabilities; // sheets larger than its work area are nested within the reachable part
+}
 
-  constructor(ai: any) {
-    this.ai = ai;
-  }
+interface PreparedPart {
+  part: PartShape;
+  outline: Point[]; // true outline in mm, bounding box starting at (0, 0)
+  nestingOutline: Point[]; // outline inflated by half the spacing, simplified for placement
+  isRectangle: boolean;
+  area: number;
+  perimeter: number;
+}
+
+interface SheetPacking {
+  sheet: MaterialSheet;
+  placements: NestingPlacement[];
+  evaluations: number;
+  placedArea: number;
+}
+
+const DEFAULT_SPACING = 2; // mm
+const MAX_SHEETS = 100;
+const MAX_OUTLINE_VERTICES = 200;
+const DEFAULT_CUT_SPEED = 1000; // mm/min - typical through-cut speed for 3mm stock
+const LABOR_RATE = 25; // $/hour
 
+export class MaterialNestingOptimizer {
+  /**
+   * Nest parts onto sheets without overlaps. Rectangular parts are packed on a
+   * skyline; parts with real outlines use no-fit polygons so they can interlock.
+   * Higher priority parts are placed first, and each new sheet is the stock
+   * that places the most part area per dollar.
+   */
   async optimizeLayout(
-    parts: PartShape[], 
-    sheets: MaterialSheet[],
-    options: {
-      algorithm?: 'efficiency' | 'speed' | 'minimal_waste';
-      allowRotation?: boolean;
-      minimumSpacing?: number;
-      prioritizeOrder?: boolean;
-    } = {}
+    parts: PartShape[],
+    stock: MaterialSheet[],
+    options: NestingOptions = {}
   ): Promise<NestingResult> {
-    if (!aiRateLimiter.canMakeCall()) {
-      const waitTime = aiRateLimiter.getTimeUntilNextCall();
-      throw new Error(`Rate limit exceeded. Wait ${Math.ceil(waitTime / 1000)} seconds.`);
-    }
+    const startTime = Date.now();
+    const sheets = options.machine ? stock.map(sheet => this.fitToWorkArea(sheet, options.machine!)) : stock;
+    const trimmed = sheets.filter((sheet, index) => sheet !== stock[index]);
+    const algorithm = options.algorithm || 'efficiency';
+    const spacing = Math.max(0, options.minimumSpacing ?? DEFAULT_SPACING);
+    const useOutlines = algorithm !== 'speed';
 
-    const model = '@cf/openai/gpt-oss-120b'; // Complex optimization requires advanced reasoning
-    
-    return trackAICall(model, 'Material Nesting Optimization', async () => {
-      aiRateLimiter.recordCall();
-      
-      const prompt = this.createNestingPrompt(parts, sheets, options);
-
-      const response = await this.ai.run(model, {
-        reasoning: { effort: \"high\" },
-        messages: [
-          {
-            role: \"system\",
-            content: \"You are an expert in computational geometry and material optimization. Create efficient nesting layouts that minimize waste while considering cutting constraints, tool paths, and material costs.\"
-          },
-          {
-            role: \"user\",
-            content: prompt
-          }
-        ],
-        max_tokens: 4000,
-        temperature: 0.2
-      });
+    const prepared = new Map<string, PreparedPart>();
+    const items: { item: NestingItem; prepared: PreparedPart; order: number }[] = [];
 
-      try {
-        const result = JSON.parse(response.response);
-        const nestingResult = this.processNestingResult(result, parts, sheets, options);
-        nestingResult.visualizationSVG = await this.generateVisualization(nestingResult);
-        return nestingResult;
-      } catch {
-        const fallbackResult = this.createFallbackNesting(parts, sheets, options);
-        fallbackResult.visualizationSVG = await this.generateVisualization(fallbackResult);
-        return fallbackResult;
+    parts.forEach((part, partIndex) => {
+      const preparedPart = this.preparePart(part, spacing, useOutlines);
+      prepared.set(part.id, preparedPart);
+
+      for (let i = 0; i < part.quantity; i++) {
+        items.push({
+          item: {
+            id: `${part.id}_${i + 1}`,
+            shapeKey: part.id,
+            outline: preparedPart.nestingOutline,
+            rotations: this.getRotations(part, preparedPart.isRectangle, algorithm, options.allowRotation !== false)
+          },
+          prepared: preparedPart,
+          order: partIndex
+        });
       }
     });
+
+    // Highest priority first; within a priority, input order or largest first
+    items.sort((a, b) =>
+      (b.prepared.part.priority || 0) - (a.prepared.part.priority || 0) ||
+      (options.prioritizeOrder ? a.order - b.order : b.prepared.area - a.prepared.area) ||
+      a.order - b.order
+    );
+
+    const preparedByItem = new Map(items.map(entry => [entry.item.id, entry.prepared]));
+    let pending = items.map(entry => entry.item);
+    const packings: SheetPacking[] = [];
+    let evaluations = 0;
+
+    while (pending.length > 0 && packings.length < MAX_SHEETS) {
+      let best: SheetPacking | null = null;
+
+      for (const sheet of sheets) {
+        const compatible = pending.filter(item => this.isCompatible(preparedByItem.get(item.id)!.part, sheet));
+        if (compatible.length === 0) continue;
+
+        const packing = this.packSheet(compatible, sheet, spacing, preparedByItem);
+        evaluations += packing.evaluations;
+        if (packing.placements.length === 0) continue;
+
+        if (!best || this.sheetValue(packing) > this.sheetValue(best)) {
+          best = packing;
+        }
+      }
+
+      if (!best) break; // Nothing left fits on any compatible sheet
+
+      packings.push(best);
+      const placedIds = new Set(best.placements.map(placement => placement.id));
+      pending = pending.filter(item => !placedIds.has(item.id));
+    }
+
+    const layouts = packings.map(packing => this.createSheetLayout(packing, preparedByItem, spacing));
+    const summary = this.createSummary(parts, packings, layouts, pending.map(item => item.id));
+    const costAnalysis = this.createCostAnalysis(packings, layouts, summary);
+    const rotatedCount = layouts.reduce((sum, layout) =>
+      sum + layout.placedParts.filter(placed => placed.rotation !== (prepared.get(this.partIdOf(placed.partId))?.part.rotation || 0)).length, 0);
+    const outlineCount = [...prepared.values()].filter(p => !p.isRectangle).length;
+
+    const nestingResult: NestingResult = {
+      layoutId: `layout_${Date.now()}`,
+      sheets: layouts,
+      summary,
+      optimizationMetrics: {
+        algorithm: `${useOutlines && outlineCount > 0 ? 'no-fit-polygon' : 'skyline'} bottom-left (${algorithm})`,
+        iterations: evaluations,
+        processingTime: Date.now() - startTime,
+        efficiency: Math.round(summary.averageUtilization * 10) / 10,
+        improvements: [
+          ...(rotatedCount > 0 ? [`Rotated ${rotatedCount} part${rotatedCount === 1 ? '' : 's'} for a tighter fit`] : []),
+          ...(outlineCount > 0 && useOutlines ? [`Nested ${outlineCount} true part outline${outlineCount === 1 ? '' : 's'} instead of bounding boxes`] : []),
+          `Maintained ${spacing}mm spacing between parts`
+        ]
+      },
+      visualizationSVG: '',
+      recommendations: [
+        ...trimmed.map(sheet => `${sheet.name} is larger than the machine work area; parts were nested within ${sheet.width}×${sheet.height}mm`),
+        ...this.createRecommendations(summary, layouts, options, outlineCount, useOutlines)
+      ],
+      costAnalysis
+    };
+
+    nestingResult.visualizationSVG = await this.generateVisualization(nestingResult, sheets);
+    return nestingResult;
   }
 
-  async generateVisualization(nestingResult: NestingResult): Promise<string> {
+  async generateVisualization(nestingResult: NestingResult, materialSheets: MaterialSheet[] = []): Promise<string> {
     // Generate SVG visualization of the nesting layout
     let svg = `<svg width=\"800\" height=\"600\" viewBox=\"0 0 800 600\" xmlns=\"http://www.w3.org/2000/svg\">`;
     
@@ -162,13 +265,23 @@ export class MaterialNestingOptimizer {
 
     let yOffset = 60;
     const sheetSpacing = 20;
-    const scale = Math.min(360 / Math.max(...nestingResult.sheets.map(s => s.placedParts.length > 0 ? 400 : 300)), 0.5);
+    const sheetSize = (sheetId: string) => {
+      const material = materialSheets.find(s => s.id === sheetId);
+      return material ? { width: material.width, height: material.height } : { width: 300, height: 200 };
+    };
+    const sizes = nestingResult.sheets.map(s => sheetSize(s.sheetId));
+    // Fit the largest sheet into a 300x200 slot
+    const scale = Math.min(
+      300 / Math.max(...sizes.map(size => size.width), 1),
+      200 / Math.max(...sizes.map(size => size.height), 1),
+      1
+    );
 
     nestingResult.sheets.forEach((sheet, index) => {
       if (sheet.placedParts.length === 0) return;
 
-      const sheetWidth = 300 * scale;
-      const sheetHeight = 200 * scale;
+      const sheetWidth = sizes[index].width * scale;
+      const sheetHeight = sizes[index].height * scale;
       const x = 50 + (index % 2) * (sheetWidth + 50);
       const y = yOffset + Math.floor(index / 2) * (sheetHeight + sheetSpacing + 40);
 
@@ -207,193 +320,275 @@ export class MaterialNestingOptimizer {
     return svg;
   }
 
-  private createNestingPrompt(parts: PartShape[], sheets: MaterialSheet[], options: any): string {
-    return `Optimize material nesting layout:
+  private preparePart(part: PartShape, spacing: number, useOutlines: boolean): PreparedPart {
+    const rectangle: Point[] = [
+      { x: 0, y: 0 },
+      { x: part.width, y: 0 },
+      { x: part.width, y: part.height },
+      { x: 0, y: part.height }
+    ];
+
+    const outline = (useOutlines && part.svg && this.extractOutline(part)) || rectangle;
+    const isRectangle = outline === rectangle || isAxisAlignedRectangle(outline);
+    const half = spacing / 2;
+
+    let nestingOutline: Point[];
+    if (isRectangle) {
+      const box = getBoundingBox(outline);
+      nestingOutline = [
+        { x: -half, y: -half },
+        { x: box.width + half, y: -half },
+        { x: box.width + half, y: box.height + half },
+        { x: -half, y: box.height + half }
+      ];
+    } else {
+      // Inflate by the simplification tolerance as well so the simplified
+      // outline still contains the part plus half the spacing everywhere
+      const tolerance = spacing > 0 ? Math.min(0.5, spacing / 4) : 0.01;
+      const inflated = offsetPolygon(outline, half + tolerance, { joinType: 'miter', miterLimit: 2, tolerance })
+        .sort((a, b) => Math.abs(signedArea(b)) - Math.abs(signedArea(a)))[0] || convexHull(outline);
+      const simplified = simplifyDouglasPeucker(inflated, tolerance, true);
+      nestingOutline = simplified.length > MAX_OUTLINE_VERTICES ? convexHull(inflated) : simplified;
+    }
 
-Parts to nest (${parts.length} items):
-${parts.map(p => `- ${p.name}: ${p.width}x${p.height}mm, qty: ${p.quantity}, material: ${p.materialType}, priority: ${p.priority}`).join('\n')}
+    return {
+      part,
+      outline,
+      nestingOutline,
+      isRectangle,
+      area: Math.abs(signedArea(outline)),
+      perimeter: polylineLength(outline, true)
+    };
+  }
+
+  /**
+   * Largest outer contour of the part's SVG, scaled to the declared part size
+   */
+  private extractOutline(part: PartShape): Point[] | null {
+    try {
+      const contours = buildContourTree(parseSVG(part.svg).shapes)
+        .filter(contour => contour.depth === 0 && contour.shape.closed && contour.shape.points.length >= 3)
+        .sort((a, b) => Math.abs(b.area) - Math.abs(a.area));
+      if (contours.length === 0) return null;
+
+      const points = simplifyCollinear(contours[0].shape.points, true);
+      const box = getBoundingBox(points);
+      if (box.width <= 0 || box.height <= 0) return null;
+
+      const scaleX = part.width > 0 && Math.abs(box.width - part.width) / part.width > 0.01 ? part.width / box.width : 1;
+      const scaleY = part.height > 0 && Math.abs(box.height - part.height) / part.height > 0.01 ? part.height / box.height : 1;
+
+      return points.map(p => ({ x: (p.x - box.x) * scaleX, y: (p.y - box.y) * scaleY }));
+    } catch (error) {
+      console.error('Part outline parsing error:', error);
+      return null;
+    }
+  }
 
-Available sheets (${sheets.length} options):
-${sheets.map(s => `- ${s.name}: ${s.width}x${s.height}mm, ${s.materialType}, $${s.costPerSheet}, ${s.usableArea}% usable`).join('\n')}
+  private getRotations(part: PartShape, isRectangle: boolean, algorithm: string, allowRotation: boolean): number[] {
+    const base = part.rotation || 0;
+    if (!allowRotation) return [normalizeAngle(base)];
 
-Optimization settings:
-- Algorithm: ${options.algorithm || 'efficiency'}
-- Allow rotation: ${options.allowRotation !== false}
-- Minimum spacing: ${options.minimumSpacing || 2}mm
-- Prioritize order: ${options.prioritizeOrder || false}
+    // Rectangles look the same at 180°; outlines can interlock in any quarter turn
+    const steps = isRectangle || algorithm === 'speed' ? [0, 90] : [0, 90, 180, 270];
+    return [...new Set(steps.map(step => normalizeAngle(base + step)))];
+  }
 
-Generate optimal nesting layout considering:
-1. Material utilization efficiency
-2. Cutting path optimization
-3. Part priority and quantity requirements
-4. Material costs and waste minimization
-5. Manufacturing constraints
+  /**
+   * Limit a sheet to the area the machine can reach, turning the bed
+   * whichever way keeps more of the sheet
+   */
+  private fitToWorkArea(sheet: MaterialSheet, machine: MachineCapabilities): MaterialSheet {
+    const { width, height } = machine.workAreaSize;
+    if (sheet.width <= width && sheet.height <= height) return sheet;
 
-Return detailed layout with:
-- Sheet assignments and part placements
-- Utilization percentages and waste analysis
-- Cost breakdown and optimization metrics
-- Cutting sequence recommendations
-- Alternative layout suggestions
+    const aligned = { width: Math.min(sheet.width, width), height: Math.min(sheet.height, height) };
+    const turned = { width: Math.min(sheet.width, height), height: Math.min(sheet.height, width) };
+    const reachable = aligned.width * aligned.height >= turned.width * turned.height ? aligned : turned;
+    if (reachable.width === sheet.width && reachable.height === sheet.height) return sheet;
 
-Return as JSON with complete nesting solution.`;
+    return { ...sheet, ...reachable };
   }
 
-  private processNestingResult(result: any, parts: PartShape[], sheets: MaterialSheet[], options: any): NestingResult {
-    const layoutId = `layout_${Date.now()}`;
-    
-    return {
-      layoutId,
-      sheets: result.sheets || this.createBasicLayout(parts, sheets),
-      summary: result.summary || this.createSummary(parts, sheets),
-      optimizationMetrics: result.metrics || {
-        algorithm: options.algorithm || 'efficiency',
-        iterations: 100,
-        processingTime: 250,
-        efficiency: 78,
-        improvements: ['Optimized part rotation', 'Minimized travel distance']
-      },
-      visualizationSVG: '', // Will be generated separately
-      recommendations: result.recommendations || [
-        'Consider rotating parts for better fit',
-        'Group similar operations together',
-        'Use waste material for smaller components'
-      ],
-      costAnalysis: result.costAnalysis || this.createCostAnalysis(parts, sheets)
-    };
+  private isCompatible(part: PartShape, sheet: MaterialSheet): boolean {
+    const materialMatches = !part.materialType || !sheet.materialType ||
+      part.materialType.toLowerCase() === sheet.materialType.toLowerCase();
+    const thicknessMatches = !part.thickness || !sheet.thickness ||
+      Math.abs(part.thickness - sheet.thickness) < 0.05;
+    return materialMatches && thicknessMatches;
   }
 
-  private createFallbackNesting(parts: PartShape[], sheets: MaterialSheet[], options: any): NestingResult {
-    const layoutId = `fallback_${Date.now()}`;
-    
-    return {
-      layoutId,
-      sheets: this.createBasicLayout(parts, sheets),
-      summary: this.createSummary(parts, sheets),
-      optimizationMetrics: {
-        algorithm: 'basic',
-        iterations: 1,
-        processingTime: 50,
-        efficiency: 65,
-        improvements: ['Basic rectangular packing applied']
-      },
-      visualizationSVG: '',
-      recommendations: [
-        'Try advanced nesting algorithms for better utilization',
-        'Consider manual optimization for critical parts',
-        'Test different sheet orientations'
-      ],
-      costAnalysis: this.createCostAnalysis(parts, sheets)
+  private packSheet(
+    items: NestingItem[],
+    sheet: MaterialSheet,
+    spacing: number,
+    preparedByItem: Map<string, PreparedPart>
+  ): SheetPacking {
+    // The inflated outlines may reach half the spacing into the margin
+    const inset = Math.max(0, sheet.margin || 0) - spacing / 2;
+    const region = {
+      x: inset,
+      y: inset,
+      width: sheet.width - inset * 2,
+      height: sheet.height - inset * 2
     };
+
+    const needsOutlines = items.some(item => !preparedByItem.get(item.id)!.isRectangle);
+    const result = needsOutlines ? packPolygons(items, region) : packRectangles(items, region);
+    const placedArea = result.placements.reduce((sum, placement) => sum + preparedByItem.get(placement.id)!.area, 0);
+
+    return { sheet, placements: result.placements, evaluations: result.evaluations, placedArea };
   }
 
-  private createBasicLayout(parts: PartShape[], sheets: MaterialSheet[]): SheetLayout[] {
-    const layouts: SheetLayout[] = [];
-    let currentSheet = 0;
-    let currentX = 0;
-    let currentY = 0;
-    let rowHeight = 0;
-    
-    const sheet = sheets[0] || { id: 'default', width: 600, height: 400, margin: 5 };
-    let currentLayout: SheetLayout = {
-      sheetId: `sheet_${currentSheet}`,
-      placedParts: [],
-      utilization: 0,
-      wasteArea: 0,
-      cuttingPath: 'Linear sequence',
-      estimatedCutTime: '30-45 minutes'
-    };
-    
-    parts.forEach(part => {
-      for (let i = 0; i < part.quantity; i++) {
-        // Simple left-to-right, top-to-bottom placement
-        if (currentX + part.width > sheet.width - sheet.margin) {
-          currentX = sheet.margin;
-          currentY += rowHeight + 5;
-          rowHeight = 0;
-        }
-        
-        if (currentY + part.height > sheet.height - sheet.margin) {
-          // Start new sheet
-          layouts.push(currentLayout);
-          currentSheet++;
-          currentLayout = {
-            sheetId: `sheet_${currentSheet}`,
-            placedParts: [],
-            utilization: 0,
-            wasteArea: 0,
-            cuttingPath: 'Linear sequence',
-            estimatedCutTime: '30-45 minutes'
-          };
-          currentX = sheet.margin;
-          currentY = sheet.margin;
-          rowHeight = 0;
-        }
-        
-        currentLayout.placedParts.push({
-          partId: `${part.id}_${i + 1}`,
-          x: currentX,
-          y: currentY,
-          rotation: part.rotation || 0,
-          width: part.width,
-          height: part.height
-        });
-        
-        currentX += part.width + 5;
-        rowHeight = Math.max(rowHeight, part.height);
-      }
-    });
-    
-    if (currentLayout.placedParts.length > 0) {
-      layouts.push(currentLayout);
-    }
-    
-    // Calculate utilization
-    layouts.forEach(layout => {
-      const totalPartArea = layout.placedParts.reduce((sum, part) => sum + (part.width * part.height), 0);
-      const sheetArea = sheet.width * sheet.height;
-      layout.utilization = (totalPartArea / sheetArea) * 100;
-      layout.wasteArea = sheetArea - totalPartArea;
+  // Part area placed per dollar of stock; free stock is ranked by area alone
+  private sheetValue(packing: SheetPacking): number {
+    return packing.sheet.costPerSheet > 0 ? packing.placedArea / packing.sheet.costPerSheet : packing.placedArea * 1e6;
+  }
+
+  private createSheetLayout(packing: SheetPacking, preparedByItem: Map<string, PreparedPart>, spacing: number): SheetLayout {
+    const { sheet, placements } = packing;
+    const sheetArea = sheet.width * sheet.height;
+    let perimeter = 0;
+    const outlines: CutContour[] = [];
+
+    const placedParts: PlacedPart[] = placements.map(placement => {
+      const preparedPart = preparedByItem.get(placement.id)!;
+      perimeter += preparedPart.perimeter;
+
+      // Offset between the inflated outline used for placement and the real part
+      const inflatedBox = getBoundingBox(rotatePoints(preparedPart.nestingOutline, placement.rotation));
+      const rotated = rotatePoints(preparedPart.outline, placement.rotation);
+      const partBox = getBoundingBox(rotated);
+      const x = placement.x + partBox.x - inflatedBox.x;
+      const y = placement.y + partBox.y - inflatedBox.y;
+
+      outlines.push({
+        id: placement.id,
+        points: rotated.map(p => ({ x: p.x - partBox.x + x, y: p.y - partBox.y + y })),
+        closed: true
+      });
+
+      return {
+        partId: placement.id,
+        x: roundTo(x, 3),
+        y: roundTo(y, 3),
+        rotation: placement.rotation,
+        width: roundTo(partBox.width, 3),
+        height: roundTo(partBox.height, 3)
+      };
     });
-    
-    return layouts;
+
+    const usedArea = packing.placedArea;
+    const cutMinutes = perimeter / DEFAULT_CUT_SPEED;
+
+    return {
+      sheetId: sheet.id,
+      placedParts,
+      utilization: roundTo((usedArea / sheetArea) * 100, 1),
+      wasteArea: roundTo(sheetArea - usedArea, 1),
+      cuttingPath: optimizeCutOrder(outlines).cuts.map(cut => cut.id).join(' → '),
+      estimatedCutTime: `${Math.max(1, Math.ceil(cutMinutes))} minutes`
+    };
   }
 
-  private createSummary(parts: PartShape[], sheets: MaterialSheet[]): NestingSummary {
+  private createSummary(parts: PartShape[], packings: SheetPacking[], layouts: SheetLayout[], notPlaced: string[]): NestingSummary {
     const totalParts = parts.reduce((sum, part) => sum + part.quantity, 0);
-    const estimatedSheets = Math.ceil(totalParts / 8); // rough estimate
-    const avgCost = sheets.reduce((sum, sheet) => sum + sheet.costPerSheet, 0) / sheets.length;
-    
+    const partsPlaced = layouts.reduce((sum, layout) => sum + layout.placedParts.length, 0);
+
     return {
       totalParts,
-      partsPlaced: totalParts,
-      partsNotPlaced: [],
-      sheetsUsed: estimatedSheets,
-      totalMaterialCost: estimatedSheets * avgCost,
-      averageUtilization: 75,
-      totalWasteArea: estimatedSheets * 10000 * 0.25 // 25% waste estimate
+      partsPlaced,
+      partsNotPlaced: notPlaced,
+      sheetsUsed: layouts.length,
+      totalMaterialCost: roundTo(packings.reduce((sum, packing) => sum + packing.sheet.costPerSheet, 0), 2),
+      averageUtilization: layouts.length > 0
+        ? roundTo(layouts.reduce((sum, layout) => sum + layout.utilization, 0) / layouts.length, 1)
+        : 0,
+      totalWasteArea: roundTo(layouts.reduce((sum, layout) => sum + layout.wasteArea, 0), 1)
     };
   }
 
-  private createCostAnalysis(parts: PartShape[], sheets: MaterialSheet[]): CostAnalysis {
-    const avgSheetCost = sheets.reduce((sum, sheet) => sum + sheet.costPerSheet, 0) / sheets.length;
-    const estimatedSheets = Math.ceil(parts.length / 6);
-    const materialCosts = estimatedSheets * avgSheetCost;
-    
+  private createCostAnalysis(packings: SheetPacking[], layouts: SheetLayout[], summary: NestingSummary): CostAnalysis {
+    const materialCosts = summary.totalMaterialCost;
+    const wasteCosts = packings.reduce((sum, packing, i) =>
+      sum + packing.sheet.costPerSheet * (1 - layouts[i].utilization / 100), 0);
+    const cuttingTime = layouts.reduce((sum, layout) => sum + parseInt(layout.estimatedCutTime, 10), 0); // minutes
+    const laborCosts = (cuttingTime / 60) * LABOR_RATE;
+    const savings: string[] = [];
+
+    const lastLayout = layouts[layouts.length - 1];
+    if (lastLayout && layouts.length > 1 && lastLayout.utilization < 40) {
+      savings.push(`Last sheet is only ${lastLayout.utilization}% used - batch more parts onto it or cut it from an offcut`);
+    }
+    if (layouts.length > 0 && summary.averageUtilization < 60) {
+      savings.push('Utilization is below 60% - a smaller sheet size may cost less');
+    }
+    if (layouts.length > 0 && savings.length === 0) {
+      savings.push(`Average utilization of ${summary.averageUtilization}% leaves little material to recover`);
+    }
+
     return {
       materialCosts,
-      wasteCosts: materialCosts * 0.25,
-      cuttingTime: estimatedSheets * 45, // minutes
-      laborCosts: (estimatedSheets * 45 / 60) * 25, // $25/hour
-      totalProject: materialCosts + (materialCosts * 0.25) + ((estimatedSheets * 45 / 60) * 25),
-      costPerPart: materialCosts / parts.reduce((sum, part) => sum + part.quantity, 0),
-      savings: [
-        'Optimize nesting to reduce material waste by 15-20%',
-        'Batch multiple projects to improve utilization',
-        'Consider alternative sheet sizes for better fit'
-      ]
+      wasteCosts: roundTo(wasteCosts, 2),
+      cuttingTime,
+      laborCosts: roundTo(laborCosts, 2),
+      totalProject: roundTo(materialCosts + laborCosts, 2),
+      costPerPart: summary.partsPlaced > 0 ? roundTo(materialCosts / summary.partsPlaced, 2) : 0,
+      savings
     };
   }
+
+  private createRecommendations(
+    summary: NestingSummary,
+    layouts: SheetLayout[],
+    options: NestingOptions,
+    outlineCount: number,
+    useOutlines: boolean
+  ): string[] {
+    const recommendations: string[] = [];
+
+    if (summary.partsNotPlaced.length > 0) {
+      recommendations.push(
+        `${summary.partsNotPlaced.length} part(s) did not fit any compatible sheet: ${summary.partsNotPlaced.join(', ')}`
+      );
+    }
+    if (options.allowRotation === false) {
+      recommendations.push('Allow rotation to let parts fill gaps in other orientations');
+    }
+    if (!useOutlines) {
+      recommendations.push('Use the efficiency algorithm to nest true part outlines instead of bounding boxes');
+    } else if (outlineCount === 0) {
+      recommendations.push('Provide part SVG outlines so irregular parts can interlock');
+    }
+    if (layouts.some(layout => layout.utilization < 50)) {
+      recommendations.push('Use leftover areas for small components or future projects');
+    }
+
+    return recommendations;
+  }
+
+  // Instance ids are `${partId}_${n}`
+  private partIdOf(instanceId: string): string {
+    return instanceId.slice(0, instanceId.lastIndexOf('_'));
+  }
+}
+
+function isAxisAlignedRectangle(points: Point[]): boolean {
+  const simplified = simplifyCollinear(points, true);
+  if (simplified.length !== 4) return false;
+  return simplified.every((p, i) => {
+    const next = simplified[(i + 1) % 4];
+    return Math.abs(p.x - next.x) < 1e-6 || Math.abs(p.y - next.y) < 1e-6;
+  });
+}
+
+function normalizeAngle(degrees: number): number {
+  return ((degrees % 360) + 360) % 360;
+}
+
+function roundTo(value: number, decimals: number): number {
+  const factor = Math.pow(10, decimals);
+  return Math.round(value * factor) / factor;
 }
 
-export const materialNestingOptimizer = new MaterialNestingOptimizer(null);
+export const materialNestingOptimizer = new MaterialNestingOptimizer();
@@ -0,0 +1,623 @@
+// Geometric nesting engine
+// Skyline bottom-left packing for rectangles and no-fit-polygon placement for true outlines
+
+import {
+  convexHull,
+  distance,
+  getBoundingBox,
+  pointInPolygon,
+  pointToSegmentDistance,
+  segmentsIntersect,
+  signedArea,
+  type Point
+} from './svg-geometry';
+
+export interface NestingItem {
+  id: string;
+  shapeKey: string; // identical shapes share a key so no-fit polygons can be reused
+  outline: Point[]; // closed outline already inflated by half the part spacing
+  rotations: number[]; // degrees to try
+}
+
+export interface NestingRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface NestingPlacement {
+  id: string;
+  rotation: number; // degrees
+  x: number; // translation of the rotated outline, whose bounding box starts at (0, 0)
+  y: number;
+  outline: Point[]; // placed outline in sheet coordinates
+}
+
+export interface PackingResult {
+  placements: NestingPlacement[];
+  remaining: NestingItem[];
+  evaluations: number; // candidate positions tested
+}
+
+const EPSILON = 1e-7;
+const GRID_CELL = 25; // mm - spatial index cell size for no-fit polygon pieces
+
+/**
+ * Rotate points about the origin (degrees, clockwise on screen)
+ */
+export function rotatePoints(points: Point[], rotation: number): Point[] {
+  const radians = (rotation * Math.PI) / 180;
+  const cos = Math.cos(radians);
+  const sin = Math.sin(radians);
+  return points.map(p => ({
+    x: round(p.x * cos - p.y * sin),
+    y: round(p.x * sin + p.y * cos)
+  }));
+}
+
+/**
+ * Rotate an outline about the origin and move it so its bounding box starts at (0, 0)
+ */
+export function orientOutline(outline: Point[], rotation: number): Point[] {
+  const rotated = rotatePoints(outline, rotation);
+  const box = getBoundingBox(rotated);
+  return rotated.map(p => ({ x: p.x - box.x, y: p.y - box.y }));
+}
+
+// ----------------------------------------------------------------------------
+// Skyline bottom-left packing (rectangles)
+// ----------------------------------------------------------------------------
+
+interface SkylineSegment {
+  x: number;
+  y: number; // top of the filled area under this segment (y grows downwards)
+  width: number;
+}
+
+/**
+ * Pack items by their bounding boxes on a skyline, choosing for each item the
+ * position and rotation with the lowest resulting edge, then the leftmost.
+ * Items are placed in the given order; those that do not fit are returned.
+ */
+export function packRectangles(items: NestingItem[], region: NestingRegion): PackingResult {
+  let skyline: SkylineSegment[] = [{ x: region.x, y: region.y, width: region.width }];
+  const placements: NestingPlacement[] = [];
+  const remaining: NestingItem[] = [];
+  let evaluations = 0;
+
+  for (const item of items) {
+    let best: { x: number; y: number; rotation: number; outline: Point[]; width: number; height: number; score: number } | null = null;
+
+    for (const rotation of item.rotations) {
+      const outline = orientOutline(item.outline, rotation);
+      const box = getBoundingBox(outline);
+
+      for (let i = 0; i < skyline.length; i++) {
+        evaluations++;
+        const x = skyline[i].x;
+        if (x + box.width > region.x + region.width + EPSILON) break;
+
+        // Rest on the highest segment spanned by the item
+        let y = region.y;
+        let covered = 0;
+        for (let j = i; j < skyline.length && covered < box.width - EPSILON; j++) {
+          y = Math.max(y, skyline[j].y);
+          covered += skyline[j].width;
+        }
+        if (y + box.height > region.y + region.height + EPSILON) continue;
+
+        const score = y + box.height;
+        if (!best || score < best.score - EPSILON || (Math.abs(score - best.score) <= EPSILON && x < best.x)) {
+          best = { x, y, rotation, outline, width: box.width, height: box.height, score };
+        }
+      }
+    }
+
+    if (!best) {
+      remaining.push(item);
+      continue;
+    }
+
+    skyline = addToSkyline(skyline, best.x, best.y + best.height, best.width);
+    placements.push({
+      id: item.id,
+      rotation: best.rotation,
+      x: best.x,
+      y: best.y,
+      outline: best.outline.map(p => ({ x: p.x + best!.x, y: p.y + best!.y }))
+    });
+  }
+
+  return { placements, remaining, evaluations };
+}
+
+function addToSkyline(skyline: SkylineSegment[], x: number, top: number, width: number): SkylineSegment[] {
+  const right = x + width;
+  const result: SkylineSegment[] = [];
+
+  for (const segment of skyline) {
+    const segmentRight = segment.x + segment.width;
+    if (segmentRight <= x + EPSILON || segment.x >= right - EPSILON) {
+      result.push(segment);
+      continue;
+    }
+    // Keep the parts of the segment sticking out either side of the new item
+    if (segment.x < x - EPSILON) result.push({ x: segment.x, y: segment.y, width: x - segment.x });
+    if (segmentRight > right + EPSILON) result.push({ x: right, y: segment.y, width: segmentRight - right });
+  }
+
+  result.push({ x, y: top, width });
+  result.sort((a, b) => a.x - b.x);
+
+  // Merge neighbours at the same height
+  const merged: SkylineSegment[] = [];
+  for (const segment of result) {
+    const last = merged[merged.length - 1];
+    if (last && Math.abs(last.y - segment.y) <= EPSILON && Math.abs(last.x + last.width - segment.x) <= EPSILON) {
+      last.width += segment.width;
+    } else {
+      merged.push({ ...segment });
+    }
+  }
+  return merged;
+}
+
+// ----------------------------------------------------------------------------
+// No-fit polygon placement (true outlines)
+// ----------------------------------------------------------------------------
+
+interface ConvexPiece {
+  points: Point[]; // counter-clockwise (positive signed area)
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+interface PlacedShape {
+  placement: NestingPlacement;
+  pieces: Point[][]; // convex decomposition in sheet coordinates
+}
+
+/**
+ * Place items bottom-left using no-fit polygons. The no-fit polygon of a placed
+ * part A and a moving part B is the Minkowski sum A ⊕ (−B): B overlaps A exactly
+ * when its reference point lies strictly inside it. Non-convex outlines are
+ * split into convex pieces so every no-fit polygon is a union of convex sums.
+ * Candidate positions are the vertices of those pieces plus the corners and
+ * edge crossings of the inner-fit rectangle; the lowest, then leftmost,
+ * candidate outside every piece wins.
+ */
+export function packPolygons(items: NestingItem[], region: NestingRegion): PackingResult {
+  const placed: PlacedShape[] = [];
+  const placements: NestingPlacement[] = [];
+  const remaining: NestingItem[] = [];
+  const decompositions = new Map<string, Point[][]>();
+  let evaluations = 0;
+
+  const piecesFor = (item: NestingItem, rotation: number, outline: Point[]) => {
+    const key = `${item.shapeKey}@${rotation}`;
+    if (!decompositions.has(key)) decompositions.set(key, convexDecomposition(outline));
+    return decompositions.get(key)!;
+  };
+
+  for (const item of items) {
+    let best: { x: number; y: number; rotation: number; outline: Point[]; pieces: Point[][]; score: number } | null = null;
+
+    for (const rotation of item.rotations) {
+      const outline = orientOutline(item.outline, rotation);
+      const box = getBoundingBox(outline);
+
+      // Inner-fit rectangle: reference positions that keep B inside the region
+      const fit = {
+        minX: region.x,
+        minY: region.y,
+        maxX: region.x + region.width - box.width,
+        maxY: region.y + region.height - box.height
+      };
+      if (fit.maxX < fit.minX - EPSILON || fit.maxY < fit.minY - EPSILON) continue;
+
+      const pieces = piecesFor(item, rotation, outline);
+      const negated = pieces.map(piece => piece.map(p => ({ x: -p.x, y: -p.y })));
+      const index = new PieceIndex();
+      const nfps: ConvexPiece[] = [];
+      const candidates: Point[] = [
+        { x: fit.minX, y: fit.minY },
+        { x: fit.maxX, y: fit.minY },
+        { x: fit.minX, y: fit.maxY },
+        { x: fit.maxX, y: fit.maxY }
+      ];
+
+      for (const shape of placed) {
+        for (const a of shape.pieces) {
+          for (const b of negated) {
+            const nfp = toPiece(minkowskiSum(a, b));
+            // Pieces clear of the inner-fit rectangle cannot block any position
+            if (nfp.maxX < fit.minX || nfp.minX > fit.maxX || nfp.maxY < fit.minY || nfp.minY > fit.maxY) continue;
+            index.add(nfp);
+            nfps.push(nfp);
+            candidates.push(...nfp.points);
+            candidates.push(...fitEdgeCrossings(nfp.points, fit));
+          }
+        }
+      }
+
+      candidates.push(...pocketCorners(nfps, index));
+
+      const feasible = candidates
+        .filter(c => c.x >= fit.minX - EPSILON && c.x <= fit.maxX + EPSILON && c.y >= fit.minY - EPSILON && c.y <= fit.maxY + EPSILON)
+        .sort((a, b) => a.y - b.y || a.x - b.x);
+
+      for (const candidate of feasible) {
+        evaluations++;
+        const score = candidate.y + box.height;
+        if (best && (score > best.score + EPSILON || (Math.abs(score - best.score) <= EPSILON && candidate.x >= best.x))) {
+          break; // Sorted by y: nothing later can beat the current best
+        }
+        if (index.blocks(candidate)) continue;
+
+        const x = clamp(candidate.x, fit.minX, fit.maxX);
+        const y = clamp(candidate.y, fit.minY, fit.maxY);
+
+        // Safety net: never accept an overlap, whatever the no-fit polygons said
+        const moved = outline.map(p => ({ x: p.x + x, y: p.y + y }));
+        if (placed.some(shape => polygonsOverlap(shape.placement.outline, moved))) continue;
+
+        best = { x, y, rotation, outline, pieces, score: y + box.height };
+        break;
+      }
+    }
+
+    if (!best) {
+      remaining.push(item);
+      continue;
+    }
+
+    const { x, y } = best;
+    const placement: NestingPlacement = {
+      id: item.id,
+      rotation: best.rotation,
+      x,
+      y,
+      outline: best.outline.map(p => ({ x: p.x + x, y: p.y + y }))
+    };
+
+    placed.push({ placement, pieces: best.pieces.map(piece => piece.map(p => ({ x: p.x + x, y: p.y + y }))) });
+    placements.push(placement);
+  }
+
+  return { placements, remaining, evaluations };
+}
+
+// Points where no-fit polygon edges cross the left and top sides of the inner-fit rectangle
+function fitEdgeCrossings(points: Point[], fit: { minX: number; minY: number; maxX: number; maxY: number }): Point[] {
+  const crossings: Point[] = [];
+  for (let i = 0; i < points.length; i++) {
+    const a = points[i];
+    const b = points[(i + 1) % points.length];
+    if ((a.x - fit.minX) * (b.x - fit.minX) < 0) {
+      crossings.push({ x: fit.minX, y: a.y + ((fit.minX - a.x) * (b.y - a.y)) / (b.x - a.x) });
+    }
+    if ((a.y - fit.minY) * (b.y - fit.minY) < 0) {
+      crossings.push({ x: a.x + ((fit.minY - a.y) * (b.x - a.x)) / (b.y - a.y), y: fit.minY });
+    }
+  }
+  return crossings;
+}
+
+/**
+ * Positions that touch two walls at once (pockets between neighbours, notches
+ * in concave parts) sit where no-fit polygon pieces cross. Only edges that are
+ * not buried inside other pieces can bound free space, which keeps this cheap.
+ */
+function pocketCorners(nfps: ConvexPiece[], index: PieceIndex): Point[] {
+  const edges: { a: Point; b: Point }[] = [];
+  for (const piece of nfps) {
+    for (let i = 0; i < piece.points.length; i++) {
+      const a = piece.points[i];
+      const b = piece.points[(i + 1) % piece.points.length];
+      if (!index.blocks({ x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 })) edges.push({ a, b });
+    }
+  }
+
+  const cells = new Map<string, number[]>();
+  edges.forEach((edge, i) => {
+    for (let cx = Math.floor(Math.min(edge.a.x, edge.b.x) / GRID_CELL); cx <= Math.floor(Math.max(edge.a.x, edge.b.x) / GRID_CELL); cx++) {
+      for (let cy = Math.floor(Math.min(edge.a.y, edge.b.y) / GRID_CELL); cy <= Math.floor(Math.max(edge.a.y, edge.b.y) / GRID_CELL); cy++) {
+        const key = `${cx},${cy}`;
+        const cell = cells.get(key);
+        if (cell) cell.push(i);
+        else cells.set(key, [i]);
+      }
+    }
+  });
+
+  const corners: Point[] = [];
+  const tested = new Set<number>();
+  for (const cell of cells.values()) {
+    for (let i = 0; i < cell.length; i++) {
+      for (let j = i + 1; j < cell.length; j++) {
+        const pair = Math.min(cell[i], cell[j]) * edges.length + Math.max(cell[i], cell[j]);
+        if (tested.has(pair)) continue;
+        tested.add(pair);
+
+        const p = edges[cell[i]];
+        const q = edges[cell[j]];
+        const crossing = segmentCrossing(p.a, p.b, q.a, q.b);
+        if (crossing) corners.push(crossing);
+      }
+    }
+  }
+  return corners;
+}
+
+function segmentCrossing(p1: Point, p2: Point, q1: Point, q2: Point): Point | null {
+  const denominator = (p2.x - p1.x) * (q2.y - q1.y) - (p2.y - p1.y) * (q2.x - q1.x);
+  if (Math.abs(denominator) < EPSILON) return null;
+
+  const t = ((q1.x - p1.x) * (q2.y - q1.y) - (q1.y - p1.y) * (q2.x - q1.x)) / denominator;
+  const u = ((q1.x - p1.x) * (p2.y - p1.y) - (q1.y - p1.y) * (p2.x - p1.x)) / denominator;
+  if (t <= 0 || t >= 1 || u <= 0 || u >= 1) return null;
+  return { x: p1.x + t * (p2.x - p1.x), y: p1.y + t * (p2.y - p1.y) };
+}
+
+class PieceIndex {
+  private cells = new Map<string, ConvexPiece[]>();
+
+  add(piece: ConvexPiece): void {
+    for (let cx = Math.floor(piece.minX / GRID_CELL); cx <= Math.floor(piece.maxX / GRID_CELL); cx++) {
+      for (let cy = Math.floor(piece.minY / GRID_CELL); cy <= Math.floor(piece.maxY / GRID_CELL); cy++) {
+        const key = `${cx},${cy}`;
+        const cell = this.cells.get(key);
+        if (cell) cell.push(piece);
+        else this.cells.set(key, [piece]);
+      }
+    }
+  }
+
+  // True when the point lies strictly inside any piece (touching is allowed)
+  blocks(p: Point): boolean {
+    const cell = this.cells.get(`${Math.floor(p.x / GRID_CELL)},${Math.floor(p.y / GRID_CELL)}`);
+    if (!cell) return false;
+
+    return cell.some(piece =>
+      p.x > piece.minX + EPSILON && p.x < piece.maxX - EPSILON &&
+      p.y > piece.minY + EPSILON && p.y < piece.maxY - EPSILON &&
+      strictlyInsideConvex(p, piece.points)
+    );
+  }
+}
+
+function strictlyInsideConvex(p: Point, polygon: Point[]): boolean {
+  for (let i = 0; i < polygon.length; i++) {
+    const a = polygon[i];
+    const b = polygon[(i + 1) % polygon.length];
+    const length = distance(a, b);
+    if (length < EPSILON) continue;
+    const side = ((b.x - a.x) * (p.y - a.y) - (b.y - a.y) * (p.x - a.x)) / length;
+    if (side <= EPSILON) return false;
+  }
+  return true;
+}
+
+function toPiece(points: Point[]): ConvexPiece {
+  const box = getBoundingBox(points);
+  return { points, minX: box.x, minY: box.y, maxX: box.x + box.width, maxY: box.y + box.height };
+}
+
+/**
+ * Minkowski sum of two convex polygons (convex hull of pairwise vertex sums)
+ */
+export function minkowskiSum(a: Point[], b: Point[]): Point[] {
+  const sums: Point[] = [];
+  for (const p of a) {
+    for (const q of b) {
+      sums.push({ x: p.x + q.x, y: p.y + q.y });
+    }
+  }
+  return convexHull(sums);
+}
+
+// ----------------------------------------------------------------------------
+// Convex decomposition
+// ----------------------------------------------------------------------------
+
+/**
+ * Split a simple polygon into convex pieces: ear-clipping triangulation
+ * followed by Hertel-Mehlhorn merging of triangles across removable diagonals.
+ * Falls back to the convex hull (a conservative superset) if triangulation fails.
+ */
+export function convexDecomposition(polygon: Point[]): Point[][] {
+  const points = signedArea(polygon) < 0 ? [...polygon].reverse() : [...polygon];
+  if (isConvex(points)) return [points];
+
+  const triangles = triangulate(points);
+  if (!triangles) return [convexHull(points)];
+
+  const pieces = triangles.map(triangle => [...triangle]);
+  let merged = true;
+
+  while (merged) {
+    merged = false;
+
+    search:
+    for (let i = 0; i < pieces.length; i++) {
+      for (let j = i + 1; j < pieces.length; j++) {
+        const combined = mergeAlongSharedEdge(pieces[i], pieces[j]);
+        if (combined && isConvex(combined.map(index => points[index]))) {
+          pieces[i] = combined;
+          pieces.splice(j, 1);
+          merged = true;
+          break search;
+        }
+      }
+    }
+  }
+
+  return pieces.map(piece => piece.map(index => points[index]));
+}
+
+// Ear clipping on a counter-clockwise polygon; returns vertex index triples
+function triangulate(points: Point[]): number[][] | null {
+  const indices = points.map((_, i) => i);
+  const triangles: number[][] = [];
+  let guard = points.length * points.length;
+
+  while (indices.length > 3 && guard-- > 0) {
+    let clipped = false;
+
+    for (let i = 0; i < indices.length; i++) {
+      const prev = indices[(i - 1 + indices.length) % indices.length];
+      const current = indices[i];
+      const next = indices[(i + 1) % indices.length];
+      const a = points[prev];
+      const b = points[current];
+      const c = points[next];
+
+      if (cross(a, b, c) <= EPSILON) continue; // Reflex or degenerate corner
+
+      const containsOther = indices.some(index =>
+        index !== prev && index !== current && index !== next && pointInTriangle(points[index], a, b, c)
+      );
+      if (containsOther) continue;
+
+      triangles.push([prev, current, next]);
+      indices.splice(i, 1);
+      clipped = true;
+      break;
+    }
+
+    if (!clipped) {
+      // Drop a collinear vertex if one is blocking progress, otherwise give up
+      const collinear = indices.findIndex((current, i) => {
+        const prev = indices[(i - 1 + indices.length) % indices.length];
+        const next = indices[(i + 1) % indices.length];
+        return Math.abs(cross(points[prev], points[current], points[next])) <= EPSILON;
+      });
+      if (collinear === -1) return null;
+      indices.splice(collinear, 1);
+    }
+  }
+
+  if (indices.length === 3 && cross(points[indices[0]], points[indices[1]], points[indices[2]]) > EPSILON) {
+    triangles.push([...indices]);
+  }
+  return triangles;
+}
+
+// Join two index polygons sharing an edge (a→b in one, b→a in the other)
+function mergeAlongSharedEdge(p: number[], q: number[]): number[] | null {
+  for (let i = 0; i < p.length; i++) {
+    const a = p[i];
+    const b = p[(i + 1) % p.length];
+    const j = q.indexOf(b);
+    if (j === -1 || q[(j + 1) % q.length] !== a) continue;
+
+    // Walk p from b round to a, then q from a round to b (excluding the shared edge)
+    const result: number[] = [];
+    for (let k = 1; k <= p.length; k++) result.push(p[(i + k) % p.length]);
+    for (let k = 2; k < q.length; k++) result.push(q[(j + k) % q.length]);
+    return result;
+  }
+  return null;
+}
+
+function isConvex(points: Point[]): boolean {
+  for (let i = 0; i < points.length; i++) {
+    const a = points[(i - 1 + points.length) % points.length];
+    const b = points[i];
+    const c = points[(i + 1) % points.length];
+    if (cross(a, b, c) < -EPSILON) return false;
+  }
+  return true;
+}
+
+function pointInTriangle(p: Point, a: Point, b: Point, c: Point): boolean {
+  return cross(a, b, p) >= -EPSILON && cross(b, c, p) >= -EPSILON && cross(c, a, p) >= -EPSILON;
+}
+
+function cross(o: Point, a: Point, b: Point): number {
+  return (a.x - o.x) * (b.y - o.y) - (a.y - o.y) * (b.x - o.x);
+}
+
+// ----------------------------------------------------------------------------
+// Overlap test
+// ----------------------------------------------------------------------------
+
+/**
+ * Exact overlap test between two simple polygons. Touching edges do not count.
+ */
+export function polygonsOverlap(a: Point[], b: Point[]): boolean {
+  const boxA = getBoundingBox(a);
+  const boxB = getBoundingBox(b);
+  if (boxA.x + boxA.width <= boxB.x + EPSILON || boxB.x + boxB.width <= boxA.x + EPSILON ||
+      boxA.y + boxA.height <= boxB.y + EPSILON || boxB.y + boxB.height <= boxA.y + EPSILON) {
+    return false;
+  }
+
+  for (let i = 0; i < a.length; i++) {
+    for (let j = 0; j < b.length; j++) {
+      if (segmentsIntersect(a[i], a[(i + 1) % a.length], b[j], b[(j + 1) % b.length])) return true;
+    }
+  }
+
+  const deepInside = (p: Point, polygon: Point[]) =>
+    pointInPolygon(p, polygon) && boundaryDistance(p, polygon) > 1e-5;
+
+  // Contained outlines, or identical outlines stacked on top of each other
+  return a.some(p => deepInside(p, b)) || b.some(p => deepInside(p, a)) ||
+    deepInside(interiorPoint(a), b) || deepInside(interiorPoint(b), a);
+}
+
+function boundaryDistance(p: Point, polygon: Point[]): number {
+  let minimum = Infinity;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    minimum = Math.min(minimum, pointToSegmentDistance(p, polygon[j], polygon[i]));
+  }
+  return minimum;
+}
+
+// A point strictly inside the polygon; the centroid of a concave outline can fall outside it
+function interiorPoint(points: Point[]): Point {
+  const center = centroid(points);
+  if (pointInPolygon(center, points) && boundaryDistance(center, points) > 1e-3) return center;
+
+  for (let i = 0; i < points.length; i++) {
+    const a = points[i];
+    const b = points[(i + 1) % points.length];
+    const length = distance(a, b);
+    if (length < 1e-2) continue;
+
+    // Step off the middle of the edge to both sides; one of them is inside
+    const nx = -(b.y - a.y) / length * 1e-3;
+    const ny = (b.x - a.x) / length * 1e-3;
+    for (const side of [1, -1]) {
+      const p = { x: (a.x + b.x) / 2 + nx * side, y: (a.y + b.y) / 2 + ny * side };
+      if (pointInPolygon(p, points)) return p;
+    }
+  }
+  return center;
+}
+
+function centroid(points: Point[]): Point {
+  const area = signedArea(points);
+  if (Math.abs(area) < EPSILON) return getBoundingBox(points).center;
+
+  let x = 0;
+  let y = 0;
+  for (let i = 0, j = points.length - 1; i < points.length; j = i++) {
+    const factor = points[j].x * points[i].y - points[i].x * points[j].y;
+    x += (points[j].x + points[i].x) * factor;
+    y += (points[j].y + points[i].y) * factor;
+  }
+  return { x: x / (6 * area), y: y / (6 * area) };
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+function round(value: number): number {
+  return Math.round(value * 1e6) / 1e6;
+}
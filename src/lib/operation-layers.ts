@@ -0,0 +1,308 @@
+// Operation layers
+// Which shapes are cut, scored, engraved or pocketed, in what order and with which settings
+
+import { getGlowforgeSettings, MATERIALS } from './material-database';
+import {
+  buildContourTree,
+  parseSVGDocument,
+  serializeSVGDocument,
+  setElementAttributes,
+  type SVGNode,
+  type SVGShape
+} from './svg-geometry';
+
+export type OperationType = 'cut' | 'score' | 'engrave' | 'pocket';
+
+export interface OperationLayer {
+  id: string; // shapes join a layer through data-operation-layer or an enclosing group with this id or name
+  name: string;
+  operation: OperationType;
+  order: number; // layers run lowest first
+  depth: number | null; // mm below the surface; null cuts through the material
+  power: number; // percent
+  speed: number; // mm/min
+  passes: number;
+  color: string; // stroke colour the layer is exported with
+}
+
+export interface OperationLayerModel {
+  material: string;
+  layers: OperationLayer[];
+}
+
+export interface LayerGroup {
+  layer: OperationLayer;
+  shapes: SVGShape[];
+}
+
+export type LayerSettingOverrides = Partial<Record<OperationType, Partial<Pick<OperationLayer, 'power' | 'speed' | 'passes' | 'depth'>>>>;
+
+export const OPERATION_TYPES: OperationType[] = ['cut', 'score', 'engrave', 'pocket'];
+
+export const OPERATION_COLORS: Record<OperationType, string> = {
+  cut: '#FF0000',
+  score: '#0000FF',
+  engrave: '#000000',
+  pocket: '#808080'
+};
+
+// Engrave and score before cutting, so parts have not dropped or shifted yet
+const DEFAULT_ORDER: Record<OperationType, number> = { engrave: 1, score: 2, pocket: 3, cut: 4 };
+const OPERATION_NAMES: Record<OperationType, string> = { cut: 'Cut', score: 'Score', engrave: 'Engrave', pocket: 'Pocket' };
+
+const LAYER_ATTRIBUTE = 'data-operation-layer';
+const ID_PATTERN = /^[A-Za-z0-9][A-Za-z0-9 _.-]{0,63}$/;
+const COLOR_PATTERN = /^#[0-9A-Fa-f]{6}$/;
+const MAX_LAYERS = 50;
+
+/**
+ * One layer per operation with the material's tested laser settings.
+ * Overrides replace individual settings, for example a feed the user chose.
+ */
+export function defaultOperationLayers(material: string, overrides: LayerSettingOverrides = {}): OperationLayerModel {
+  const settings = getGlowforgeSettings(material);
+  const thickness = MATERIALS[material]?.thickness ?? 3;
+  const base: Record<OperationType, Omit<OperationLayer, 'id' | 'name' | 'operation' | 'order' | 'color'>> = {
+    cut: { depth: null, power: settings.cut.power, speed: settings.cut.speed, passes: settings.cut.passes },
+    score: { depth: 0, power: settings.score.power, speed: settings.score.speed, passes: 1 },
+    engrave: { depth: 0, power: settings.engrave.power, speed: settings.engrave.speed, passes: 1 },
+    pocket: { depth: Math.round((thickness / 2) * 100) / 100, power: settings.engrave.power, speed: settings.engrave.speed, passes: 1 }
+  };
+
+  return {
+    material,
+    layers: OPERATION_TYPES.map(operation => ({
+      id: operation,
+      name: OPERATION_NAMES[operation],
+      operation,
+      order: DEFAULT_ORDER[operation],
+      color: OPERATION_COLORS[operation],
+      ...base[operation],
+      ...overrides[operation]
+    }))
+  };
+}
+
+/**
+ * Build a model for a design saved without one. Named groups that are not
+ * already covered become layers of their own, classified by name or by the
+ * colours of the shapes inside them.
+ */
+export function inferOperationLayers(
+  svg: string | SVGShape[],
+  material: string,
+  overrides: LayerSettingOverrides = {}
+): OperationLayerModel {
+  const model = defaultOperationLayers(material, overrides);
+  let shapes: SVGShape[] = [];
+  try {
+    shapes = typeof svg === 'string' ? parseSVGDocument(svg).geometry.shapes : svg;
+  } catch (error) {
+    console.error('Operation layer inference error:', error);
+  }
+
+  for (const shape of shapes) {
+    if (!shape.layer || findLayer(model, shape.layer) || model.layers.length >= MAX_LAYERS) continue;
+    if (!ID_PATTERN.test(shape.layer)) continue;
+
+    const operation = operationForName(shape.layer) || inferOperation(shape);
+    const template = model.layers.find(layer => layer.id === operation)!;
+    model.layers.push({ ...template, id: shape.layer, name: shape.layer });
+  }
+
+  return model;
+}
+
+/**
+ * The layer a shape belongs to: an explicit data-operation-layer, then its
+ * group, then the first layer of the operation its colours suggest
+ */
+export function resolveShapeLayer(shape: SVGShape, model: OperationLayerModel): OperationLayer | null {
+  const explicit = shape.attributes[LAYER_ATTRIBUTE];
+  const layer = (explicit && findLayer(model, explicit)) || (shape.layer && findLayer(model, shape.layer));
+  if (layer) return layer;
+
+  const operation = inferOperation(shape);
+  return sortLayers(model.layers).find(candidate => candidate.operation === operation) || null;
+}
+
+/**
+ * Shapes grouped by layer in execution order. Shapes on no layer are returned
+ * separately so exporters can report them rather than cut them.
+ */
+export function groupShapesByLayer(shapes: SVGShape[], model: OperationLayerModel): { groups: LayerGroup[]; unassigned: SVGShape[] } {
+  const groups = new Map<OperationLayer, SVGShape[]>();
+  const unassigned: SVGShape[] = [];
+
+  for (const shape of shapes) {
+    const layer = resolveShapeLayer(shape, model);
+    if (!layer) {
+      unassigned.push(shape);
+      continue;
+    }
+    groups.set(layer, [...(groups.get(layer) || []), shape]);
+  }
+
+  return {
+    groups: sortLayers([...groups.keys()]).map(layer => ({ layer, shapes: groups.get(layer)! })),
+    unassigned
+  };
+}
+
+/**
+ * Restyle every shape with its layer's colour and tag it with the layer id,
+ * so the SVG carries the model to laser software that separates operations
+ * by colour. A custom style function can map layers to another convention.
+ */
+export function applyOperationLayers(
+  svg: string,
+  model: OperationLayerModel,
+  style: (layer: OperationLayer, depth: number) => { stroke: string; fill: string; strokeWidth?: string } = layer => ({
+    stroke: layer.color,
+    fill: layer.operation === 'cut' || layer.operation === 'score' ? 'none' : layer.color
+  })
+): string {
+  const document = parseSVGDocument(svg);
+  const contours = buildContourTree(document.geometry.shapes);
+  const styled = new Set<SVGNode>();
+
+  for (const contour of contours) {
+    const { shape } = contour;
+    if (styled.has(shape.node)) continue;
+    styled.add(shape.node);
+
+    const layer = resolveShapeLayer(shape, model);
+    if (!layer) continue;
+
+    const { stroke, fill, strokeWidth } = style(layer, contour.depth);
+    setElementAttributes(shape.node, {
+      stroke,
+      fill,
+      ...(strokeWidth ? { 'stroke-width': strokeWidth } : {}),
+      style: stripPaintStyles(shape.attributes.style),
+      [LAYER_ATTRIBUTE]: layer.id,
+      'data-operation': layer.operation
+    });
+  }
+
+  return serializeSVGDocument(document.tree);
+}
+
+/**
+ * Check a model from user input and return it in canonical form.
+ * Throws with a message suitable for the API response.
+ */
+export function validateOperationLayers(input: any): OperationLayerModel {
+  if (!input || typeof input !== 'object') throw new Error('Operation layers are required');
+
+  const material = typeof input.material === 'string' && input.material.trim() ? input.material.trim() : 'plywood-3mm';
+  if (!Array.isArray(input.layers) || input.layers.length === 0) throw new Error('At least one layer is required');
+  if (input.layers.length > MAX_LAYERS) throw new Error(`Up to ${MAX_LAYERS} layers are allowed`);
+
+  const ids = new Set<string>();
+  const layers = input.layers.map((layer: any, index: number): OperationLayer => {
+    const label = `Layer ${index + 1}`;
+    if (!layer || typeof layer !== 'object') throw new Error(`${label} must be an object`);
+
+    const id = String(layer.id || '');
+    if (!ID_PATTERN.test(id)) throw new Error(`${label}: id must be 1-64 letters, digits, spaces, dots, dashes or underscores`);
+    if (ids.has(id)) throw new Error(`${label}: duplicate id "${id}"`);
+    ids.add(id);
+
+    if (!OPERATION_TYPES.includes(layer.operation)) {
+      throw new Error(`${label}: operation must be one of: ${OPERATION_TYPES.join(', ')}`);
+    }
+    const operation: OperationType = layer.operation;
+    const color = layer.color ?? OPERATION_COLORS[operation];
+    if (!COLOR_PATTERN.test(color)) throw new Error(`${label}: color must be a #RRGGBB value`);
+
+    return {
+      id,
+      name: typeof layer.name === 'string' && layer.name.trim() ? layer.name.trim().slice(0, 100) : id,
+      operation,
+      order: numberInRange(layer.order ?? index + 1, `${label}: order`, 0, 1000),
+      depth: layer.depth === null || layer.depth === undefined ? null : numberInRange(layer.depth, `${label}: depth`, 0, 500),
+      power: numberInRange(layer.power, `${label}: power`, 0, 100),
+      speed: numberInRange(layer.speed, `${label}: speed`, 1, 100000),
+      passes: Math.round(numberInRange(layer.passes ?? 1, `${label}: passes`, 1, 50)),
+      color: color.toUpperCase()
+    };
+  });
+
+  return { material, layers };
+}
+
+/**
+ * Read a stored model, or null when there is none or its JSON is unreadable
+ */
+export function parseOperationLayers(json?: string | null): OperationLayerModel | null {
+  if (!json) return null;
+  try {
+    return validateOperationLayers(JSON.parse(json));
+  } catch (error) {
+    console.error('Operation layer parse error:', error);
+    return null;
+  }
+}
+
+/**
+ * Operation a layer or group name refers to, such as "CUT" or "score-lines"
+ */
+export function operationForName(name: string): OperationType | null {
+  const lower = name.toLowerCase();
+  if (/score|scribe|mark/.test(lower)) return 'score';
+  if (/engrave|etch|raster/.test(lower)) return 'engrave';
+  if (/pocket/.test(lower)) return 'pocket';
+  if (/cut|profile|outline/.test(lower)) return 'cut';
+  return null;
+}
+
+/**
+ * Operation guessed from laser colour conventions. Only used to place shapes
+ * that carry no layer, such as designs saved before the model existed.
+ */
+export function inferOperation(shape: SVGShape): OperationType {
+  const fromLayer = shape.layer ? operationForName(shape.layer) : null;
+  if (fromLayer) return fromLayer;
+
+  const fill = normalizeColor(shape.fill);
+  const stroke = normalizeColor(shape.stroke);
+  if (fill && fill !== 'none' && (!stroke || stroke === 'none')) return 'engrave';
+  if (stroke === '#0000ff' || stroke === 'blue') return 'score';
+  return 'cut';
+}
+
+function findLayer(model: OperationLayerModel, key: string): OperationLayer | undefined {
+  const lower = key.toLowerCase();
+  return model.layers.find(layer => layer.id === key) || model.layers.find(layer => layer.name.toLowerCase() === lower);
+}
+
+function sortLayers(layers: OperationLayer[]): OperationLayer[] {
+  return [...layers].sort((a, b) => a.order - b.order);
+}
+
+// Inline stroke and fill would override the presentation attributes set from the layer
+function stripPaintStyles(style?: string): string | undefined {
+  if (!style) return undefined;
+  const kept = style
+    .split(';')
+    .map(declaration => declaration.trim())
+    .filter(declaration => declaration && !/^(stroke|fill)\s*:/i.test(declaration));
+  return kept.length > 0 ? kept.join(';') : undefined;
+}
+
+function normalizeColor(color?: string): string | undefined {
+  if (!color) return undefined;
+  const lower = color.trim().toLowerCase();
+  const short = /^#([0-9a-f])([0-9a-f])([0-9a-f])$/.exec(lower);
+  return short ? `#${short[1]}${short[1]}${short[2]}${short[2]}${short[3]}${short[3]}` : lower;
+}
+
+function numberInRange(value: any, field: string, min: number, max: number): number {
+  const number = Number(value);
+  if (value === undefined || value === null || value === '' || !Number.isFinite(number)) {
+    throw new Error(`${field} is required`);
+  }
+  if (number < min || number > max) throw new Error(`${field} must be between ${min} and ${max}`);
+  return number;
+}
@@ -0,0 +1,207 @@
+// PNG export
+// Rasterizes project SVG at a chosen resolution without a browser canvas, for previews and print shops
+
+import { layoutDesign, type VectorExportOptions } from './vector-export';
+import type { Point } from './svg-geometry';
+
+export interface PngExportOptions extends VectorExportOptions {
+  dpi?: number;
+  scale?: number; // multiplies the physical size, for enlarged previews
+  strokeWidth?: number; // mm on the printed image
+}
+
+const DEFAULT_DPI = 300;
+const DEFAULT_STROKE_WIDTH = 0.25; // mm
+const MM_PER_INCH = 25.4;
+// One byte per pixel; keeps the largest image well inside a worker's memory
+export const MAX_PNG_PIXELS = 20_000_000;
+
+const PNG_SIGNATURE = [137, 80, 78, 71, 13, 10, 26, 10];
+
+/**
+ * Render the design's layers onto a white background as a palette PNG.
+ * Outlines are drawn at a fixed printed width and engraved areas are
+ * filled even-odd, matching the vector exports.
+ */
+export async function exportPNG(svg: string, options: PngExportOptions = {}): Promise<Uint8Array> {
+  const layout = layoutDesign(svg, options);
+  const pixelsPerMm = ((options.dpi || DEFAULT_DPI) / MM_PER_INCH) * (options.scale || 1);
+  const width = Math.max(1, Math.ceil(layout.width * pixelsPerMm));
+  const height = Math.max(1, Math.ceil(layout.height * pixelsPerMm));
+  if (width * height > MAX_PNG_PIXELS) {
+    throw new Error(`The image would be ${width}×${height} pixels; lower the DPI or scale`);
+  }
+
+  // Palette index 0 is the background; each distinct layer colour gets the next index
+  const palette: string[] = ['#FFFFFF'];
+  const canvas = new RasterCanvas(width, height);
+  const halfStroke = Math.max(0.5, ((options.strokeWidth ?? DEFAULT_STROKE_WIDTH) * pixelsPerMm) / 2);
+  const toPixels = (p: Point): Point => ({ x: p.x * pixelsPerMm, y: p.y * pixelsPerMm });
+
+  for (const layer of layout.layers) {
+    const color = layer.color.toUpperCase();
+    if (!palette.includes(color)) palette.push(color);
+    const index = palette.indexOf(color);
+
+    const rings = layer.filled
+      ? layer.shapes.filter(shape => shape.closed).map(shape => shape.points.map(toPixels))
+      : [];
+    if (rings.length > 0) canvas.fillPolygons(rings, index);
+
+    for (const shape of layer.shapes) {
+      const points = shape.points.map(toPixels);
+      const segments = shape.closed ? points.length : points.length - 1;
+      for (let i = 0; i < segments; i++) {
+        canvas.strokeSegment(points[i], points[(i + 1) % points.length], halfStroke, index);
+      }
+    }
+  }
+
+  return encodePNG(canvas, palette, (options.dpi || DEFAULT_DPI) * (options.scale || 1));
+}
+
+/**
+ * Indexed pixels stored as PNG scanlines: each row starts with its filter
+ * byte (always 0, none), so the buffer compresses without another copy
+ */
+class RasterCanvas {
+  readonly data: Uint8Array;
+  private readonly stride: number;
+
+  constructor(readonly width: number, readonly height: number) {
+    this.stride = width + 1;
+    this.data = new Uint8Array(this.stride * height);
+  }
+
+  /**
+   * Even-odd scanline fill sampled at pixel centres
+   */
+  fillPolygons(rings: Point[][], index: number): void {
+    const edges = rings.flatMap(ring => ring.map((a, i) => [a, ring[(i + 1) % ring.length]] as [Point, Point]))
+      .filter(([a, b]) => a.y !== b.y);
+    if (edges.length === 0) return;
+
+    let minY = Infinity;
+    let maxY = -Infinity;
+    for (const [a, b] of edges) {
+      minY = Math.min(minY, a.y, b.y);
+      maxY = Math.max(maxY, a.y, b.y);
+    }
+    const top = Math.max(0, Math.floor(minY));
+    const bottom = Math.min(this.height - 1, Math.ceil(maxY));
+
+    for (let row = top; row <= bottom; row++) {
+      const y = row + 0.5;
+      const crossings: number[] = [];
+      for (const [a, b] of edges) {
+        if ((a.y <= y) !== (b.y <= y)) {
+          crossings.push(a.x + ((y - a.y) / (b.y - a.y)) * (b.x - a.x));
+        }
+      }
+      crossings.sort((x1, x2) => x1 - x2);
+      for (let i = 0; i + 1 < crossings.length; i += 2) {
+        this.fillSpan(row, crossings[i], crossings[i + 1], index);
+      }
+    }
+  }
+
+  /**
+   * A segment drawn as a rectangle of the stroke width, extended by half
+   * the width at both ends so consecutive segments meet without gaps
+   */
+  strokeSegment(a: Point, b: Point, halfWidth: number, index: number): void {
+    const length = Math.hypot(b.x - a.x, b.y - a.y);
+    const ux = length > 0 ? (b.x - a.x) / length : 1;
+    const uy = length > 0 ? (b.y - a.y) / length : 0;
+    const start = { x: a.x - ux * halfWidth, y: a.y - uy * halfWidth };
+    const end = { x: b.x + ux * halfWidth, y: b.y + uy * halfWidth };
+    const nx = -uy * halfWidth;
+    const ny = ux * halfWidth;
+
+    this.fillPolygons([[
+      { x: start.x + nx, y: start.y + ny },
+      { x: end.x + nx, y: end.y + ny },
+      { x: end.x - nx, y: end.y - ny },
+      { x: start.x - nx, y: start.y - ny }
+    ]], index);
+  }
+
+  private fillSpan(row: number, fromX: number, toX: number, index: number): void {
+    const first = Math.max(0, Math.ceil(fromX - 0.5));
+    const last = Math.min(this.width - 1, Math.floor(toX - 0.5));
+    if (last < first) return;
+    const offset = row * this.stride + 1;
+    this.data.fill(index, offset + first, offset + last + 1);
+  }
+}
+
+async function encodePNG(canvas: RasterCanvas, palette: string[], dpi: number): Promise<Uint8Array> {
+  const header = new Uint8Array(13);
+  const view = new DataView(header.buffer);
+  view.setUint32(0, canvas.width);
+  view.setUint32(4, canvas.height);
+  header.set([8, 3, 0, 0, 0], 8); // 8-bit palette, default compression, filter and no interlace
+
+  const colors = new Uint8Array(palette.length * 3);
+  palette.forEach((color, i) => {
+    colors.set([1, 3, 5].map(start => parseInt(color.slice(start, start + 2), 16)), i * 3);
+  });
+
+  const physical = new Uint8Array(9);
+  const pixelsPerMetre = Math.round(dpi / 0.0254);
+  new DataView(physical.buffer).setUint32(0, pixelsPerMetre);
+  new DataView(physical.buffer).setUint32(4, pixelsPerMetre);
+  physical[8] = 1; // unit is the metre
+
+  const chunks = [
+    chunk('IHDR', header),
+    chunk('PLTE', colors),
+    chunk('pHYs', physical),
+    chunk('IDAT', await deflate(canvas.data)),
+    chunk('IEND', new Uint8Array(0))
+  ];
+
+  const png = new Uint8Array(PNG_SIGNATURE.length + chunks.reduce((total, part) => total + part.length, 0));
+  png.set(PNG_SIGNATURE, 0);
+  let offset = PNG_SIGNATURE.length;
+  for (const part of chunks) {
+    png.set(part, offset);
+    offset += part.length;
+  }
+  return png;
+}
+
+function chunk(type: string, data: Uint8Array): Uint8Array {
+  const bytes = new Uint8Array(data.length + 12);
+  const view = new DataView(bytes.buffer);
+  view.setUint32(0, data.length);
+  bytes.set([...type].map(char => char.charCodeAt(0)), 4);
+  bytes.set(data, 8);
+  view.setUint32(data.length + 8, crc32(bytes.subarray(4, data.length + 8)));
+  return bytes;
+}
+
+// PNG image data is a zlib stream, which is what the "deflate" format of CompressionStream produces
+async function deflate(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([data as BlobPart]).stream().pipeThrough(new CompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+let crcTable: Uint32Array | null = null;
+
+function crc32(bytes: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      crcTable[n] = c >>> 0;
+    }
+  }
+
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) {
+    crc = crcTable[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
@@ -0,0 +1,379 @@
+// Polygon offsetting for kerf and tool compensation
+// Offsets closed contours with miter or round joins and removes self-intersection artefacts
+
+import { distance, signedArea, pointToSegmentDistance, type Point } from './svg-geometry';
+
+export interface OffsetOptions {
+  joinType?: 'miter' | 'round';
+  miterLimit?: number; // max miter length as a multiple of the offset before falling back to round
+  tolerance?: number; // mm - chord deviation for round joins
+  cornerEffect?: number; // mm - extra offset applied at sharp corners (laser dwell loss)
+  cornerAngle?: number; // degrees - minimum direction change that counts as a sharp corner
+}
+
+const DEFAULT_OFFSET_OPTIONS: Required<OffsetOptions> = {
+  joinType: 'miter',
+  miterLimit: 4,
+  tolerance: 0.01,
+  cornerEffect: 0,
+  cornerAngle: 30
+};
+
+const EPSILON = 1e-9;
+
+/**
+ * Offset a closed polygon by delta. Positive values grow the contour and
+ * negative values shrink it, whichever direction the points wind. Returns one
+ * polygon per surviving region: narrow necks can split a contour in two and
+ * features narrower than the offset disappear entirely.
+ */
+export function offsetPolygon(points: Point[], delta: number, options: OffsetOptions = {}): Point[][] {
+  const settings = { ...DEFAULT_OFFSET_OPTIONS, ...options };
+  const polygon = removeDuplicatePoints(points);
+  if (polygon.length < 3) return [];
+  if (Math.abs(delta) < EPSILON) return [polygon];
+
+  const orientation = Math.sign(signedArea(polygon));
+  if (orientation === 0) return [];
+
+  const raw = buildRawOffset(polygon, delta, orientation, settings);
+  return cleanOffset(raw, polygon, delta, orientation);
+}
+
+// ----------------------------------------------------------------------------
+// Raw offset construction
+// ----------------------------------------------------------------------------
+
+function buildRawOffset(
+  polygon: Point[],
+  delta: number,
+  orientation: number,
+  settings: Required<OffsetOptions>
+): Point[] {
+  const count = polygon.length;
+  const tangents: Point[] = [];
+  const normals: Point[] = [];
+  const lengths: number[] = [];
+
+  for (let i = 0; i < count; i++) {
+    const a = polygon[i];
+    const b = polygon[(i + 1) % count];
+    const length = distance(a, b);
+    const tangent = { x: (b.x - a.x) / length, y: (b.y - a.y) / length };
+    tangents.push(tangent);
+    lengths.push(length);
+    // Outward normal for the polygon's own winding
+    normals.push(orientation > 0 ? { x: tangent.y, y: -tangent.x } : { x: -tangent.y, y: tangent.x });
+  }
+
+  const sharpCosine = Math.cos((settings.cornerAngle * Math.PI) / 180);
+  const magnitude = Math.abs(delta);
+  const direction = Math.sign(delta);
+  const result: Point[] = [];
+
+  for (let i = 0; i < count; i++) {
+    const vertex = polygon[i];
+    const previous = (i - 1 + count) % count;
+    const t1 = tangents[previous];
+    const t2 = tangents[i];
+    const n1 = normals[previous];
+    const n2 = normals[i];
+
+    const turn = t1.x * t2.y - t1.y * t2.x;
+    const dot = t1.x * t2.x + t1.y * t2.y;
+    const start = { x: vertex.x + n1.x * delta, y: vertex.y + n1.y * delta };
+    const end = { x: vertex.x + n2.x * delta, y: vertex.y + n2.y * delta };
+
+    // Straight continuation
+    if (Math.abs(turn) < EPSILON && dot > 0) {
+      result.push(start);
+      continue;
+    }
+
+    const k = 1 + n1.x * n2.x + n1.y * n2.y; // 1 + cos(turn angle)
+    const bisectorLength = Math.hypot(n1.x + n2.x, n1.y + n2.y);
+    const bisector = bisectorLength > EPSILON
+      ? { x: ((n1.x + n2.x) / bisectorLength) * direction, y: ((n1.y + n2.y) / bisectorLength) * direction }
+      : null;
+    const cornerShift = dot <= sharpCosine ? settings.cornerEffect : 0;
+
+    // The offset edges separate at convex corners (relative to the offset
+    // direction) and need a join; elsewhere they overlap and meet at a point
+    const needsJoin = turn * orientation * delta > 0;
+
+    if (needsJoin) {
+      const miterRatio = k > EPSILON ? Math.sqrt(2 / k) : Infinity;
+
+      if (settings.joinType === 'miter' && miterRatio <= settings.miterLimit && bisector) {
+        const reach = magnitude * miterRatio + cornerShift;
+        result.push({ x: vertex.x + bisector.x * reach, y: vertex.y + bisector.y * reach });
+      } else {
+        result.push(...roundJoin(vertex, start, end, magnitude, settings.tolerance));
+      }
+      continue;
+    }
+
+    // Overlapping edges meet where the offset lines intersect, provided both
+    // edges are long enough to reach it; otherwise leave a loop for cleanup
+    const halfTurn = Math.acos(Math.max(-1, Math.min(1, dot))) / 2;
+    const along = magnitude * Math.tan(halfTurn);
+
+    if (bisector && k > EPSILON && along <= lengths[previous] && along <= lengths[i]) {
+      const reach = magnitude * Math.sqrt(2 / k) + cornerShift;
+      result.push({ x: vertex.x + bisector.x * reach, y: vertex.y + bisector.y * reach });
+    } else {
+      // Routing through the source vertex keeps the artefact loop's winding well defined
+      result.push(start, vertex, end);
+    }
+  }
+
+  return result;
+}
+
+function roundJoin(center: Point, start: Point, end: Point, radius: number, tolerance: number): Point[] {
+  const startAngle = Math.atan2(start.y - center.y, start.x - center.x);
+  let sweep = Math.atan2(end.y - center.y, end.x - center.x) - startAngle;
+  while (sweep > Math.PI) sweep -= Math.PI * 2;
+  while (sweep < -Math.PI) sweep += Math.PI * 2;
+
+  const step = radius > tolerance ? 2 * Math.acos(1 - tolerance / radius) : Math.PI / 4;
+  const segments = Math.max(1, Math.ceil(Math.abs(sweep) / step));
+  const points: Point[] = [start];
+
+  for (let i = 1; i < segments; i++) {
+    const angle = startAngle + (sweep * i) / segments;
+    points.push({ x: center.x + Math.cos(angle) * radius, y: center.y + Math.sin(angle) * radius });
+  }
+
+  points.push(end);
+  return points;
+}
+
+function removeDuplicatePoints(points: Point[]): Point[] {
+  const result = points.filter((p, i) => i === 0 || distance(p, points[i - 1]) > 1e-6);
+  while (result.length > 1 && distance(result[0], result[result.length - 1]) <= 1e-6) {
+    result.pop();
+  }
+  return result;
+}
+
+// ----------------------------------------------------------------------------
+// Self-intersection cleanup
+// ----------------------------------------------------------------------------
+
+interface Edge {
+  from: Point;
+  to: Point;
+}
+
+/**
+ * Resolve the raw offset into simple polygons by keeping the region with
+ * positive winding (relative to the source orientation). Overlapping joins
+ * have winding 2 and dissolve into the result; inverted artefacts where a
+ * shrinking contour folds over itself have winding 0 or below and vanish.
+ * Loops that come closer to the source than the offset distance are also
+ * dropped, which catches symmetric shapes that collapse without inverting.
+ */
+function cleanOffset(raw: Point[], source: Point[], delta: number, orientation: number): Point[][] {
+  const rawEdges = toEdges(raw);
+  const edges = mergeCollinearDuplicates(splitEdges(rawEdges));
+  const probe = Math.max(1e-6, Math.abs(delta) * 1e-4);
+  const boundary: Edge[] = [];
+
+  for (const edge of edges) {
+    const length = distance(edge.from, edge.to);
+    if (length < EPSILON) continue;
+
+    const mid = { x: (edge.from.x + edge.to.x) / 2, y: (edge.from.y + edge.to.y) / 2 };
+    const left = { x: -(edge.to.y - edge.from.y) / length, y: (edge.to.x - edge.from.x) / length };
+    const insideLeft = windingNumber({ x: mid.x + left.x * probe, y: mid.y + left.y * probe }, rawEdges) * orientation > 0;
+    const insideRight = windingNumber({ x: mid.x - left.x * probe, y: mid.y - left.y * probe }, rawEdges) * orientation > 0;
+    if (insideLeft === insideRight) continue;
+
+    // Orient boundary edges so the kept region lies on the source's interior side
+    const keepDirection = orientation > 0 ? insideLeft : insideRight;
+    boundary.push(keepDirection ? edge : { from: edge.to, to: edge.from });
+  }
+
+  const minimumArea = delta * delta * 1e-3;
+  const slack = Math.max(1e-4, Math.abs(delta) * 0.01);
+
+  return chainEdges(boundary).filter(loop =>
+    loop.length >= 3 &&
+    Math.abs(signedArea(loop)) > minimumArea &&
+    loop.every(p => distanceToPolygon(p, source) >= Math.abs(delta) - slack)
+  );
+}
+
+function distanceToPolygon(p: Point, polygon: Point[]): number {
+  let minimum = Infinity;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    minimum = Math.min(minimum, pointToSegmentDistance(p, polygon[j], polygon[i]));
+  }
+  return minimum;
+}
+
+function toEdges(points: Point[]): Edge[] {
+  return points
+    .map((from, i) => ({ from, to: points[(i + 1) % points.length] }))
+    .filter(edge => distance(edge.from, edge.to) > EPSILON);
+}
+
+/**
+ * Split edges wherever they cross or touch another edge, including
+ * T-junctions and collinear overlaps
+ */
+function splitEdges(edges: Edge[]): Edge[] {
+  const params: number[][] = edges.map(() => []);
+  const bounds = edges.map(({ from, to }) => ({
+    minX: Math.min(from.x, to.x) - 1e-7,
+    maxX: Math.max(from.x, to.x) + 1e-7,
+    minY: Math.min(from.y, to.y) - 1e-7,
+    maxY: Math.max(from.y, to.y) + 1e-7
+  }));
+
+  for (let i = 0; i < edges.length; i++) {
+    for (let j = i + 1; j < edges.length; j++) {
+      const bi = bounds[i];
+      const bj = bounds[j];
+      if (bi.maxX < bj.minX || bj.maxX < bi.minX || bi.maxY < bj.minY || bj.maxY < bi.minY) continue;
+
+      for (const [t, u] of edgeContacts(edges[i], edges[j])) {
+        if (t > 1e-9 && t < 1 - 1e-9) params[i].push(t);
+        if (u > 1e-9 && u < 1 - 1e-9) params[j].push(u);
+      }
+    }
+  }
+
+  const pieces: Edge[] = [];
+  edges.forEach((edge, i) => {
+    const cuts = [0, ...params[i].sort((a, b) => a - b), 1];
+    for (let k = 1; k < cuts.length; k++) {
+      if (cuts[k] - cuts[k - 1] < 1e-9) continue;
+      pieces.push({ from: lerp(edge, cuts[k - 1]), to: lerp(edge, cuts[k]) });
+    }
+  });
+  return pieces;
+}
+
+// Parameter pairs (t on a, u on b) where two edges meet
+function edgeContacts(a: Edge, b: Edge): [number, number][] {
+  const rx = a.to.x - a.from.x;
+  const ry = a.to.y - a.from.y;
+  const sx = b.to.x - b.from.x;
+  const sy = b.to.y - b.from.y;
+  const qpx = b.from.x - a.from.x;
+  const qpy = b.from.y - a.from.y;
+  const denominator = rx * sy - ry * sx;
+  const scale = Math.hypot(rx, ry) * Math.hypot(sx, sy);
+
+  if (Math.abs(denominator) > 1e-12 * scale) {
+    const t = (qpx * sy - qpy * sx) / denominator;
+    const u = (qpx * ry - qpy * rx) / denominator;
+    const slackA = 1e-9 / Math.hypot(rx, ry);
+    const slackB = 1e-9 / Math.hypot(sx, sy);
+    if (t < -slackA || t > 1 + slackA || u < -slackB || u > 1 + slackB) return [];
+    return [[Math.min(1, Math.max(0, t)), Math.min(1, Math.max(0, u))]];
+  }
+
+  // Parallel: only collinear overlaps matter
+  const offLine = Math.abs(qpx * ry - qpy * rx) / Math.hypot(rx, ry);
+  if (offLine > 1e-9) return [];
+
+  const contacts: [number, number][] = [];
+  const projectOntoA = (p: Point) => ((p.x - a.from.x) * rx + (p.y - a.from.y) * ry) / (rx * rx + ry * ry);
+  const projectOntoB = (p: Point) => ((p.x - b.from.x) * sx + (p.y - b.from.y) * sy) / (sx * sx + sy * sy);
+
+  for (const p of [b.from, b.to]) {
+    const t = projectOntoA(p);
+    if (t > 0 && t < 1) contacts.push([t, projectOntoB(p)]);
+  }
+  for (const p of [a.from, a.to]) {
+    const u = projectOntoB(p);
+    if (u > 0 && u < 1) contacts.push([projectOntoA(p), u]);
+  }
+  return contacts;
+}
+
+function lerp(edge: Edge, t: number): Point {
+  if (t === 0) return edge.from;
+  if (t === 1) return edge.to;
+  return { x: edge.from.x + (edge.to.x - edge.from.x) * t, y: edge.from.y + (edge.to.y - edge.from.y) * t };
+}
+
+function pointKey(p: Point): string {
+  return `${Math.round(p.x * 1e6)},${Math.round(p.y * 1e6)}`;
+}
+
+// Coincident edges running in opposite directions cancel out; same-direction duplicates collapse
+function mergeCollinearDuplicates(edges: Edge[]): Edge[] {
+  const groups = new Map<string, { edge: Edge; net: number }>();
+
+  for (const edge of edges) {
+    const fromKey = pointKey(edge.from);
+    const toKey = pointKey(edge.to);
+    if (fromKey === toKey) continue;
+
+    const forward = fromKey < toKey;
+    const key = forward ? `${fromKey}|${toKey}` : `${toKey}|${fromKey}`;
+    const group = groups.get(key);
+    if (group) {
+      group.net += forward ? 1 : -1;
+    } else {
+      groups.set(key, { edge: forward ? edge : { from: edge.to, to: edge.from }, net: forward ? 1 : -1 });
+    }
+  }
+
+  return [...groups.values()]
+    .filter(group => group.net !== 0)
+    .map(group => group.net > 0 ? group.edge : { from: group.edge.to, to: group.edge.from });
+}
+
+function windingNumber(p: Point, edges: Edge[]): number {
+  let winding = 0;
+  for (const { from, to } of edges) {
+    const side = (to.x - from.x) * (p.y - from.y) - (p.x - from.x) * (to.y - from.y);
+    if (from.y <= p.y) {
+      if (to.y > p.y && side > 0) winding++;
+    } else if (to.y <= p.y && side < 0) {
+      winding--;
+    }
+  }
+  return winding;
+}
+
+function chainEdges(edges: Edge[]): Point[][] {
+  const outgoing = new Map<string, Edge[]>();
+  for (const edge of edges) {
+    const key = pointKey(edge.from);
+    outgoing.set(key, [...(outgoing.get(key) || []), edge]);
+  }
+
+  const used = new Set<Edge>();
+  const loops: Point[][] = [];
+
+  for (const first of edges) {
+    if (used.has(first)) continue;
+
+    const loop: Point[] = [];
+    let edge: Edge | undefined = first;
+    while (edge && !used.has(edge)) {
+      used.add(edge);
+      loop.push(edge.from);
+      edge = outgoing.get(pointKey(edge.to))?.find(candidate => !used.has(candidate));
+    }
+
+    loops.push(removeCollinearPoints(loop));
+  }
+
+  return loops;
+}
+
+function removeCollinearPoints(points: Point[]): Point[] {
+  if (points.length < 4) return points;
+  return points.filter((p, i) => {
+    const previous = points[(i - 1 + points.length) % points.length];
+    const next = points[(i + 1) % points.length];
+    return pointToSegmentDistance(p, previous, next) > 1e-7;
+  });
+}
@@ -1,6 +1,8 @@
 // Centralized pricing configuration for CutGlueBuild
 // Updated pricing strategy: Starter ($49) -> Professional ($99) - No Free Tier
 
+import { PLANS, PLAN_ORDER, getPlan, getPurchasablePlans, hasFeature, type PlanDefinition, type PlanFeature, type QuotaKey } from './entitlements';
+
 export interface PricingTier {
   id: 'starter' | 'professional';
   name: string;
@@ -21,109 +23,52 @@ export interface PricingTier {
   highlighted?: boolean;
 }
 
-export const PRICING_TIERS: PricingTier[] = [
-  {
-    id: 'starter',
-    name: 'Starter',
-    price: 49,
-    billingCycle: 'monthly',
-    description: 'For makers & small workshops',
-    features: [
-      '25 AI designs per month',
-      '100 template downloads',
-      '50 exports per month',
-      'Commercial license',
-      'Priority support',
-      '7-day money-back guarantee'
-    ],
-    limits: {
-      ai_designs: 25,
-      templates: 100,
-      exports: 50,
-      duration_days: -1
-    },
-    stripe_price_ids: {
-      monthly: 'price_starter_monthly', // Replace with actual Stripe price IDs
-      yearly: 'price_starter_yearly'
-    },
-    highlighted: true
-  },
-  {
-    id: 'professional',
-    name: 'Professional',
-    price: 99,
-    billingCycle: 'monthly',
-    description: 'For design professionals',
-    features: [
-      'Unlimited AI designs',
-      'Unlimited templates & exports',
-      'G-code generation',
-      'Premium templates',
-      'API access',
-      'White-label options',
-      'Priority phone support'
-    ],
+// Pricing cards are views of the plan definitions in entitlements.ts
+function toPricingTier(plan: PlanDefinition, billingCycle: 'monthly' | 'yearly'): PricingTier {
+  return {
+    id: plan.id as PricingTier['id'],
+    name: plan.name,
+    price: plan.price[billingCycle],
+    billingCycle,
+    description: billingCycle === 'yearly' ? `${plan.description} (Save 20%)` : plan.description,
+    features: plan.highlights,
     limits: {
-      ai_designs: -1,
-      templates: -1,
-      exports: -1,
+      ai_designs: plan.quotas.ai_designs,
+      templates: plan.quotas.template_downloads,
+      exports: plan.quotas.exports,
       duration_days: -1
     },
-    stripe_price_ids: {
-      monthly: 'price_professional_monthly', // Replace with actual Stripe price IDs
-      yearly: 'price_professional_yearly'
-    }
-  }
-];
+    stripe_price_ids: plan.stripePriceIds,
+    highlighted: plan.highlighted
+  };
+}
+
+export const PRICING_TIERS: PricingTier[] = getPurchasablePlans().map(plan => toPricingTier(plan, 'monthly'));
 
 // Yearly pricing (20% discount)
-export const YEARLY_PRICING_TIERS: PricingTier[] = [
-  {
-    ...PRICING_TIERS[0],
-    price: 39, // $468/year = $39/month equivalent
-    billingCycle: 'yearly',
-    description: 'For makers & small workshops (Save 20%)'
-  },
-  {
-    ...PRICING_TIERS[1],
-    price: 79, // $948/year = $79/month equivalent
-    billingCycle: 'yearly',
-    description: 'For design professionals (Save 20%)'
-  }
-];
+export const YEARLY_PRICING_TIERS: PricingTier[] = getPurchasablePlans().map(plan => toPricingTier(plan, 'yearly'));
 
 // Feature access mapping
 export const FEATURE_ACCESS: Record<string, string[]> = {
-  'ai_generation_unlimited': ['professional'],
-  'premium_templates': ['professional'],
-  'gcode_generation': ['professional'],
-  'priority_support': ['starter', 'professional'],
-  'commercial_license': ['starter', 'professional'],
-  'api_access': ['professional'],
-  'white_label': ['professional'],
-  'bulk_operations': ['professional'],
-  'team_collaboration': ['professional'],
-  'custom_integrations': ['professional'],
-  'phone_support': ['professional']
+  ai_generation_unlimited: PLAN_ORDER.filter(id => PLANS[id].quotas.ai_designs === -1),
+  ...Object.fromEntries(
+    [...new Set(PLAN_ORDER.flatMap(id => PLANS[id].features))].map(feature => [
+      feature,
+      PLAN_ORDER.filter(id => PLANS[id].features.includes(feature))
+    ])
+  )
 };
 
 // Usage limits by tier
-export const USAGE_LIMITS = {
-  starter: {
-    ai_designs: 25,
-    templates: 100,
-    exports: 50,
-    projects: 25,
+export const USAGE_LIMITS = Object.fromEntries(
+  PLAN_ORDER.map(id => [id, {
+    ai_designs: PLANS[id].quotas.ai_designs,
+    templates: PLANS[id].quotas.template_downloads,
+    exports: PLANS[id].quotas.exports,
+    projects: PLANS[id].quotas.projects,
     duration_days: -1 // unlimited
-  },
-  professional: {
-    ai_designs: -1, // unlimited
-    templates: -1, // unlimited
-    exports: -1, // unlimited
-    projects: -1, // unlimited
-    duration_days: -1 // unlimited
-  }
-} as const;
+  }])
+) as Record<PlanDefinition['id'], Record<'ai_designs' | 'templates' | 'exports' | 'projects' | 'duration_days', number>>;
 
 // Stripe webhook event types we handle
 export const STRIPE_WEBHOOK_EVENTS = [
@@ -147,12 +92,16 @@ export function getYearlyTier(tierId: string): PricingTier | undefined {
 }
 
 export function hasFeatureAccess(tier: string, feature: string): boolean {
-  return FEATURE_ACCESS[feature]?.includes(tier) || false;
+  if (feature === 'ai_generation_unlimited') {
+    return getPlan(tier).quotas.ai_designs === -1;
+  }
+  return hasFeature(tier, feature as PlanFeature);
 }
 
 export function getUsageLimit(tier: string, feature: string): number {
-  const limits = USAGE_LIMITS[tier as keyof typeof USAGE_LIMITS];
-  return limits?.[feature as keyof typeof limits] || 0;
+  const quotas = getPlan(tier).quotas;
+  const key = (feature === 'templates' ? 'template_downloads' : feature) as QuotaKey;
+  return quotas[key] ?? 0;
 }
 
 export function calculateYearlyPrice(monthlyPrice: number, discount = 0.2): number {
@@ -170,8 +119,8 @@ export function calculateROI(designsPerMonth: number, hoursSavedPerDesign = 2, h
   professionalROI: number; // percentage
 } {
   const monthlySavings = designsPerMonth * hoursSavedPerDesign * hourlyRate;
-  const starterCost = 49;
-  const professionalCost = 99;
+  const starterCost = PLANS.starter.price.monthly;
+  const professionalCost = PLANS.professional.price.monthly;
   
   return {
     monthlySavings,
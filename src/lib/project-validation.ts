@@ -0,0 +1,173 @@
+// Project API validation
+// Checks project bodies for create and update, and parses list queries with their pagination cursors
+
+import type { ProjectListQuery, ProjectSortField, ProjectSummary, UserProject } from './database';
+import { validateOperationLayers } from './operation-layers';
+import { InputValidator } from './security';
+
+export interface ProjectInput {
+  title?: string;
+  description?: string;
+  project_type?: UserProject['project_type'];
+  svg_data?: string;
+  metadata?: string;
+  canvas_settings?: string;
+  operation_layers?: string;
+}
+
+export const PROJECT_TYPES: UserProject['project_type'][] = ['svg_generated', 'upload_vectorized', 'project_idea'];
+
+const SORT_FIELDS: ProjectSortField[] = ['created_at', 'updated_at', 'title'];
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+
+/**
+ * Parse list parameters: q, type, material, sort, order, limit and cursor.
+ * Sort defaults to the most recently edited first. Throws with a message
+ * suitable for the API response.
+ */
+export function parseProjectListQuery(params: URLSearchParams): ProjectListQuery {
+  const sort = (params.get('sort') || 'updated_at') as ProjectSortField;
+  if (!SORT_FIELDS.includes(sort)) {
+    throw new Error(`sort must be one of ${SORT_FIELDS.join(', ')}`);
+  }
+
+  const order = params.get('order') || (sort === 'title' ? 'asc' : 'desc');
+  if (order !== 'asc' && order !== 'desc') {
+    throw new Error('order must be asc or desc');
+  }
+
+  const limit = params.has('limit') ? Number(params.get('limit')) : DEFAULT_PAGE_SIZE;
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+    throw new Error(`limit must be between 1 and ${MAX_PAGE_SIZE}`);
+  }
+
+  const projectType = params.get('type') || undefined;
+  if (projectType && !PROJECT_TYPES.includes(projectType as UserProject['project_type'])) {
+    throw new Error(`type must be one of ${PROJECT_TYPES.join(', ')}`);
+  }
+
+  const material = params.get('material')?.trim() || undefined;
+  if (material && material.length > 50) {
+    throw new Error('material must be at most 50 characters');
+  }
+
+  const search = params.get('q')?.trim() || '';
+  if (search.length > 200) {
+    throw new Error('q must be at most 200 characters');
+  }
+
+  const cursor = params.get('cursor');
+  return {
+    search: toFTSQuery(search),
+    projectType: projectType as UserProject['project_type'] | undefined,
+    material,
+    sort,
+    order,
+    limit,
+    after: cursor ? decodeProjectCursor(cursor, sort) : undefined
+  };
+}
+
+// Opaque token for the page after this project; it is only valid with the same sort
+export function encodeProjectCursor(project: ProjectSummary, sort: ProjectSortField): string {
+  const value = project[sort] ?? '';
+  return btoa(encodeURIComponent(JSON.stringify([sort, value, project.id])))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+}
+
+/**
+ * Check a project body. On create a title is required and the type defaults
+ * to project_idea; on update only the fields present are returned. The
+ * design itself cannot be changed by update, which goes through revisions.
+ */
+export function validateProjectInput(body: any, mode: 'create' | 'update'): ProjectInput {
+  const input = body && typeof body === 'object' ? body : {};
+  const project: ProjectInput = {};
+
+  if (mode === 'create' || input.title !== undefined) {
+    project.title = validateText(input.title, 'Title', 200, true);
+  }
+  if (input.description !== undefined && input.description !== null) {
+    project.description = validateText(input.description, 'Description', 2000);
+  }
+  if (input.metadata !== undefined && input.metadata !== null) {
+    project.metadata = validateJSONObject(input.metadata, 'Metadata', 10000);
+  }
+  if (input.canvasSettings !== undefined && input.canvasSettings !== null) {
+    project.canvas_settings = validateJSONObject(input.canvasSettings, 'Canvas settings', 1000);
+  }
+
+  if (mode === 'update') {
+    if (input.svgData !== undefined || input.operationLayers !== undefined || input.projectType !== undefined) {
+      throw new Error('Design, operation layers and type cannot be changed here; save a revision instead');
+    }
+    if (Object.keys(project).length === 0) {
+      throw new Error('Nothing to update');
+    }
+    return project;
+  }
+
+  project.project_type = input.projectType ?? 'project_idea';
+  if (!PROJECT_TYPES.includes(project.project_type!)) {
+    throw new Error(`projectType must be one of ${PROJECT_TYPES.join(', ')}`);
+  }
+  if (input.svgData !== undefined && input.svgData !== null) {
+    project.svg_data = InputValidator.validateSVGContent(input.svgData);
+  }
+  if (input.operationLayers !== undefined && input.operationLayers !== null) {
+    project.operation_layers = JSON.stringify(validateOperationLayers(input.operationLayers));
+  }
+
+  return project;
+}
+
+// Each word matches as a prefix, all words required; quoting keeps FTS5 operators in the text literal
+export function toFTSQuery(search: string): string | undefined {
+  const terms = search.split(/\s+/).map(term => term.replace(/"/g, '')).filter(Boolean).slice(0, 10);
+  return terms.length ? terms.map(term => `"${term}"*`).join(' ') : undefined;
+}
+
+function decodeProjectCursor(cursor: string, sort: ProjectSortField): { value: string; id: string } {
+  let decoded: unknown;
+  try {
+    decoded = JSON.parse(decodeURIComponent(atob(cursor.replace(/-/g, '+').replace(/_/g, '/'))));
+  } catch {
+    throw new Error('Invalid cursor');
+  }
+
+  if (!Array.isArray(decoded) || decoded.length !== 3 || typeof decoded[1] !== 'string' || typeof decoded[2] !== 'string') {
+    throw new Error('Invalid cursor');
+  }
+  if (decoded[0] !== sort) {
+    throw new Error('The cursor belongs to a different sort; start again without it');
+  }
+  return { value: decoded[1], id: decoded[2] };
+}
+
+function validateText(value: any, label: string, maxLength: number, required = false): string {
+  if (typeof value !== 'string') {
+    throw new Error(`${label} must be text`);
+  }
+  const text = value.replace(/[\x00-\x08\x0B\x0C\x0E-\x1F\x7F]/g, '').trim();
+  if (required && !text) {
+    throw new Error(`${label} is required`);
+  }
+  if (text.length > maxLength) {
+    throw new Error(`${label} must be at most ${maxLength} characters`);
+  }
+  return text;
+}
+
+function validateJSONObject(value: any, label: string, maxLength: number): string {
+  if (typeof value !== 'object' || Array.isArray(value)) {
+    throw new Error(`${label} must be an object`);
+  }
+  const json = JSON.stringify(value);
+  if (json.length > maxLength) {
+    throw new Error(`${label} must be at most ${maxLength} characters`);
+  }
+  return json;
+}
@@ -0,0 +1,601 @@
+// Raster tracing
+// Turns photos and scans into closed, cuttable contours with one layer per colour
+
+import { distance, pointToSegmentDistance, signedArea, simplifyDouglasPeucker, type Point } from './svg-geometry';
+
+export interface RasterImage {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray | Uint8Array; // RGBA, row by row
+  sourceWidth?: number; // pixels before the image was scaled down for tracing
+}
+
+export interface VectorizationSettings {
+  quality: 'low' | 'medium' | 'high' | 'ultra';
+  colorMode: 'monochrome' | 'grayscale' | 'color' | 'outline';
+  smoothing: number; // 0-100: 0 keeps straight segments, higher fits longer curves and drops more specks
+  threshold: number; // 0-255: luminance below which a pixel is dark; edge strength for outline mode
+}
+
+export interface TraceOptions {
+  widthMm?: number; // physical width of the result; 96 dpi of the source when not given
+}
+
+export interface TracedLayer {
+  id: string;
+  color: string;
+  operation: 'cut' | 'engrave';
+  contours: number;
+}
+
+export interface TraceResult {
+  svg: string;
+  width: number; // mm
+  height: number; // mm
+  layers: TracedLayer[];
+}
+
+// Longest side the image is traced at; larger images are averaged down first
+export const TRACE_RESOLUTION: Record<VectorizationSettings['quality'], number> = {
+  low: 256,
+  medium: 512,
+  high: 1024,
+  ultra: 2048
+};
+
+const PALETTE_SIZE: Record<VectorizationSettings['quality'], number> = { low: 3, medium: 5, high: 8, ultra: 12 };
+const GRAY_LEVELS: Record<VectorizationSettings['quality'], number> = { low: 2, medium: 3, high: 4, ultra: 6 };
+const PIXELS_TO_MM = 25.4 / 96;
+const KMEANS_SAMPLES = 20000;
+const KMEANS_ITERATIONS = 10;
+const DX = [1, 0, -1, 0];
+const DY = [0, 1, 0, -1];
+
+interface RGBRaster {
+  width: number;
+  height: number;
+  rgb: Uint8ClampedArray; // alpha composited over white
+}
+
+interface Classification {
+  labels: Int16Array; // class per pixel, -1 for background
+  colors: string[];
+  operation: 'cut' | 'engrave';
+}
+
+type Bezier = [Point, Point, Point, Point];
+
+/**
+ * Trace an image into SVG. Monochrome thresholds to one cut layer, outline
+ * traces detected edges, grayscale posterizes into engrave layers by tone
+ * and color quantizes the palette into one engrave layer per colour.
+ */
+export function traceImage(image: RasterImage, settings: VectorizationSettings, options: TraceOptions = {}): TraceResult {
+  if (!(image.width > 0 && image.height > 0) || image.data.length < image.width * image.height * 4) {
+    throw new Error('Image has no pixel data');
+  }
+
+  const raster = downsample(image, TRACE_RESOLUTION[settings.quality] || TRACE_RESOLUTION.medium);
+  const { labels, colors, operation } = classify(raster, settings);
+  const smoothing = Math.min(Math.max(settings.smoothing, 0), 100);
+  const minArea = Math.max(2, smoothing / 5);
+
+  const width = options.widthMm ?? (image.sourceWidth ?? image.width) * PIXELS_TO_MM;
+  const height = width * raster.height / raster.width;
+  const strokeWidth = formatNumber(Math.max(raster.width, raster.height) / 500);
+
+  const layers: TracedLayer[] = [];
+  const groups: string[] = [];
+  colors.forEach((color, label) => {
+    const mask = new Uint8Array(labels.length);
+    for (let i = 0; i < labels.length; i++) mask[i] = labels[i] === label ? 1 : 0;
+
+    const contours = traceMask(mask, raster.width, raster.height)
+      .filter(loop => Math.abs(signedArea(loop)) >= minArea);
+    if (contours.length === 0) return;
+
+    const id = operation === 'cut' ? 'Cut' : `${settings.colorMode === 'grayscale' ? 'Tone' : 'Colour'} ${color.slice(1)}`;
+    const paint = operation === 'cut'
+      ? `fill="none" stroke="${color}" stroke-width="${strokeWidth}"`
+      : `fill="${color}" stroke="none"`;
+    const d = contours.map(loop => contourPath(loop, smoothing)).join(' ');
+
+    layers.push({ id, color, operation, contours: contours.length });
+    groups.push(
+      `  <g id="${id}" inkscape:groupmode="layer" inkscape:label="${id}">\n` +
+      `    <path d="${d}" ${paint} fill-rule="evenodd"/>\n` +
+      '  </g>'
+    );
+  });
+
+  const svg = [
+    `<svg xmlns="http://www.w3.org/2000/svg" xmlns:inkscape="http://www.inkscape.org/namespaces/inkscape" width="${formatNumber(width)}mm" height="${formatNumber(height)}mm" viewBox="0 0 ${raster.width} ${raster.height}">`,
+    ...groups,
+    '</svg>'
+  ].join('\n');
+
+  return { svg, width, height, layers };
+}
+
+/**
+ * Decode an image URL in the browser, scaled to the tracing resolution
+ */
+export async function loadRasterImage(src: string, quality: VectorizationSettings['quality']): Promise<RasterImage> {
+  const image = new Image();
+  image.src = src;
+  await image.decode();
+
+  const scale = Math.min(1, TRACE_RESOLUTION[quality] / Math.max(image.naturalWidth, image.naturalHeight));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(image.naturalWidth * scale));
+  canvas.height = Math.max(1, Math.round(image.naturalHeight * scale));
+
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('Canvas is not available');
+  context.drawImage(image, 0, 0, canvas.width, canvas.height);
+
+  return {
+    width: canvas.width,
+    height: canvas.height,
+    data: context.getImageData(0, 0, canvas.width, canvas.height).data,
+    sourceWidth: image.naturalWidth
+  };
+}
+
+// Box-average down to the tracing resolution and drop alpha against white paper
+function downsample(image: RasterImage, maxDimension: number): RGBRaster {
+  const scale = Math.min(1, maxDimension / Math.max(image.width, image.height));
+  const width = Math.max(1, Math.round(image.width * scale));
+  const height = Math.max(1, Math.round(image.height * scale));
+  const rgb = new Uint8ClampedArray(width * height * 3);
+
+  for (let y = 0; y < height; y++) {
+    const y0 = Math.floor(y * image.height / height);
+    const y1 = Math.max(y0 + 1, Math.floor((y + 1) * image.height / height));
+    for (let x = 0; x < width; x++) {
+      const x0 = Math.floor(x * image.width / width);
+      const x1 = Math.max(x0 + 1, Math.floor((x + 1) * image.width / width));
+      let r = 0, g = 0, b = 0, count = 0;
+
+      for (let sy = y0; sy < y1; sy++) {
+        for (let sx = x0; sx < x1; sx++) {
+          const i = (sy * image.width + sx) * 4;
+          const alpha = image.data[i + 3] / 255;
+          r += image.data[i] * alpha + 255 * (1 - alpha);
+          g += image.data[i + 1] * alpha + 255 * (1 - alpha);
+          b += image.data[i + 2] * alpha + 255 * (1 - alpha);
+          count++;
+        }
+      }
+
+      const o = (y * width + x) * 3;
+      rgb[o] = r / count;
+      rgb[o + 1] = g / count;
+      rgb[o + 2] = b / count;
+    }
+  }
+
+  return { width, height, rgb };
+}
+
+function classify(raster: RGBRaster, settings: VectorizationSettings): Classification {
+  const count = raster.width * raster.height;
+  const luminance = new Float32Array(count);
+  for (let i = 0; i < count; i++) {
+    luminance[i] = 0.299 * raster.rgb[i * 3] + 0.587 * raster.rgb[i * 3 + 1] + 0.114 * raster.rgb[i * 3 + 2];
+  }
+
+  const labels = new Int16Array(count).fill(-1);
+
+  if (settings.colorMode === 'monochrome') {
+    for (let i = 0; i < count; i++) if (luminance[i] < settings.threshold) labels[i] = 0;
+    return { labels, colors: ['#000000'], operation: 'cut' };
+  }
+
+  if (settings.colorMode === 'outline') {
+    const edges = sobel(luminance, raster.width, raster.height);
+    for (let i = 0; i < count; i++) if (edges[i] > 255 - settings.threshold) labels[i] = 0;
+    return { labels, colors: ['#000000'], operation: 'cut' };
+  }
+
+  if (settings.colorMode === 'grayscale') {
+    // Tones lighter than the threshold are the background; darker ones split into even bands
+    const levels = GRAY_LEVELS[settings.quality] || GRAY_LEVELS.medium;
+    const threshold = Math.max(settings.threshold, 1);
+    for (let i = 0; i < count; i++) {
+      if (luminance[i] < threshold) labels[i] = Math.min(levels - 1, Math.floor(luminance[i] / threshold * levels));
+    }
+    const colors = Array.from({ length: levels }, (_, level) => {
+      const tone = Math.round((level + 0.5) * threshold / levels);
+      return toHex(tone, tone, tone);
+    });
+    return { labels, colors, operation: 'engrave' };
+  }
+
+  const palette = quantize(raster, PALETTE_SIZE[settings.quality] || PALETTE_SIZE.medium);
+  for (let i = 0; i < count; i++) labels[i] = nearestColor(palette, raster.rgb, i * 3);
+
+  // The colour most of the border is in is the paper or backdrop, which is not traced
+  const borderCounts = new Array(palette.length).fill(0);
+  for (let x = 0; x < raster.width; x++) {
+    borderCounts[labels[x]]++;
+    borderCounts[labels[(raster.height - 1) * raster.width + x]]++;
+  }
+  for (let y = 0; y < raster.height; y++) {
+    borderCounts[labels[y * raster.width]]++;
+    borderCounts[labels[y * raster.width + raster.width - 1]]++;
+  }
+  const background = borderCounts.indexOf(Math.max(...borderCounts));
+  for (let i = 0; i < count; i++) {
+    if (labels[i] === background) labels[i] = -1;
+    else if (labels[i] > background) labels[i]--;
+  }
+
+  return {
+    labels,
+    colors: palette.filter((_, index) => index !== background).map(([r, g, b]) => toHex(r, g, b)),
+    operation: 'engrave'
+  };
+}
+
+// Edge strength scaled so a hard black-to-white edge reads about 255
+function sobel(luminance: Float32Array, width: number, height: number): Float32Array {
+  const edges = new Float32Array(width * height);
+  const at = (x: number, y: number) =>
+    luminance[Math.min(height - 1, Math.max(0, y)) * width + Math.min(width - 1, Math.max(0, x))];
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const gx = at(x + 1, y - 1) + 2 * at(x + 1, y) + at(x + 1, y + 1) - at(x - 1, y - 1) - 2 * at(x - 1, y) - at(x - 1, y + 1);
+      const gy = at(x - 1, y + 1) + 2 * at(x, y + 1) + at(x + 1, y + 1) - at(x - 1, y - 1) - 2 * at(x, y - 1) - at(x + 1, y - 1);
+      edges[y * width + x] = Math.hypot(gx, gy) / 4;
+    }
+  }
+
+  return edges;
+}
+
+// k-means over a sample of pixels, seeded with the most distinct colours so results repeat
+function quantize(raster: RGBRaster, size: number): [number, number, number][] {
+  const count = raster.width * raster.height;
+  const step = Math.max(1, Math.floor(count / KMEANS_SAMPLES));
+  const samples: number[] = [];
+  for (let i = 0; i < count; i += step) samples.push(i * 3);
+
+  const mean = [0, 0, 0];
+  for (const o of samples) for (let c = 0; c < 3; c++) mean[c] += raster.rgb[o + c] / samples.length;
+  const centers: [number, number, number][] = [[mean[0], mean[1], mean[2]]];
+
+  while (centers.length < size) {
+    let farthest = -1;
+    let farthestDistance = 0;
+    for (const o of samples) {
+      const d = colorDistance(centers[nearestColor(centers, raster.rgb, o)], raster.rgb, o);
+      if (d > farthestDistance) {
+        farthestDistance = d;
+        farthest = o;
+      }
+    }
+    if (farthest < 0) break; // fewer distinct colours than requested
+    centers.push([raster.rgb[farthest], raster.rgb[farthest + 1], raster.rgb[farthest + 2]]);
+  }
+
+  for (let iteration = 0; iteration < KMEANS_ITERATIONS; iteration++) {
+    const sums = centers.map(() => [0, 0, 0, 0]);
+    for (const o of samples) {
+      const sum = sums[nearestColor(centers, raster.rgb, o)];
+      sum[0] += raster.rgb[o];
+      sum[1] += raster.rgb[o + 1];
+      sum[2] += raster.rgb[o + 2];
+      sum[3]++;
+    }
+    sums.forEach((sum, index) => {
+      if (sum[3] > 0) centers[index] = [sum[0] / sum[3], sum[1] / sum[3], sum[2] / sum[3]];
+    });
+  }
+
+  return centers;
+}
+
+function nearestColor(palette: [number, number, number][], rgb: Uint8ClampedArray, offset: number): number {
+  let best = 0;
+  let bestDistance = Infinity;
+  palette.forEach((color, index) => {
+    const d = colorDistance(color, rgb, offset);
+    if (d < bestDistance) {
+      bestDistance = d;
+      best = index;
+    }
+  });
+  return best;
+}
+
+function colorDistance(color: [number, number, number], rgb: Uint8ClampedArray, offset: number): number {
+  const dr = color[0] - rgb[offset];
+  const dg = color[1] - rgb[offset + 1];
+  const db = color[2] - rgb[offset + 2];
+  return dr * dr + dg * dg + db * db;
+}
+
+/**
+ * Boundaries of the set pixels as closed loops along pixel edges, clockwise
+ * around regions and anticlockwise around holes. Where two pixels touch only
+ * at a corner the walk turns back into the current pixel, so diagonal
+ * neighbours stay separate regions.
+ */
+function traceMask(mask: Uint8Array, width: number, height: number): Point[][] {
+  const stride = width + 1;
+  const edges = new Uint8Array(stride * (height + 1)); // outgoing edge directions per pixel corner
+  const inside = (x: number, y: number) => x >= 0 && y >= 0 && x < width && y < height && mask[y * width + x] === 1;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (!inside(x, y)) continue;
+      if (!inside(x, y - 1)) edges[y * stride + x] |= 1;
+      if (!inside(x + 1, y)) edges[y * stride + x + 1] |= 2;
+      if (!inside(x, y + 1)) edges[(y + 1) * stride + x + 1] |= 4;
+      if (!inside(x - 1, y)) edges[(y + 1) * stride + x] |= 8;
+    }
+  }
+
+  const remaining = edges.slice();
+  const loops: Point[][] = [];
+
+  for (let start = 0; start < remaining.length; start++) {
+    while (remaining[start]) {
+      const startDirection = Math.log2(remaining[start] & -remaining[start]);
+      const loop: Point[] = [];
+      let vertex = start;
+      let direction = startDirection;
+      let previous = -1;
+
+      while (remaining[vertex] & (1 << direction)) {
+        remaining[vertex] &= ~(1 << direction);
+        if (direction !== previous) loop.push({ x: vertex % stride, y: Math.floor(vertex / stride) });
+        previous = direction;
+        vertex += DX[direction] + DY[direction] * stride;
+
+        const right = (direction + 1) % 4;
+        const left = (direction + 3) % 4;
+        direction = edges[vertex] & (1 << right) ? right : edges[vertex] & (1 << direction) ? direction : left;
+      }
+
+      // The walk began partway along a straight run
+      if (previous === startDirection && loop.length > 1) loop.shift();
+      if (loop.length >= 3) loops.push(loop);
+    }
+  }
+
+  return loops;
+}
+
+/**
+ * Path data for one traced loop: pixel steps smoothed away, simplified with
+ * Douglas-Peucker to find the corners, and the runs between corners fitted
+ * with cubic Béziers. Smoothing 0 keeps the simplified polygon.
+ */
+function contourPath(loop: Point[], smoothing: number): string {
+  const points = removeSteps(loop);
+  const tolerance = 0.5 + smoothing / 50;
+  const simplified = simplifyDouglasPeucker(points, tolerance, true);
+
+  if (smoothing === 0 || simplified.length < 3) {
+    const polygon = simplified.length >= 3 ? simplified : points;
+    return `M${polygon.map(formatPoint).join(' L')} Z`;
+  }
+
+  const cornerAngle = (30 + smoothing * 0.9) * Math.PI / 180;
+  const indices = new Map(points.map((point, index) => [point, index]));
+  const corners = simplified
+    .filter((point, k) => turnAngle(simplified[(k - 1 + simplified.length) % simplified.length], point, simplified[(k + 1) % simplified.length]) > cornerAngle)
+    .map(point => indices.get(point)!);
+
+  // A loop with no corners is fitted as one run that starts and ends on a shared tangent
+  const breaks = corners.length > 0 ? corners : [indices.get(simplified[0])!];
+  const curves: Bezier[] = [];
+  const errorSquared = tolerance * tolerance;
+
+  breaks.forEach((from, k) => {
+    const to = breaks[(k + 1) % breaks.length];
+    const run: Point[] = [];
+    for (let i = from; ; i = (i + 1) % points.length) {
+      run.push(points[i]);
+      if (run.length > 1 && i === to) break;
+    }
+
+    if (corners.length > 0) {
+      curves.push(...fitCubic(run, unit(run[0], run[1]), unit(run[run.length - 1], run[run.length - 2]), errorSquared));
+    } else {
+      const tangent = unit(points[(from - 1 + points.length) % points.length], points[(from + 1) % points.length]);
+      curves.push(...fitCubic(run, tangent, scale(tangent, -1), errorSquared));
+    }
+  });
+
+  // Runs fitted with handles along the chord are straight lines
+  return `M${formatPoint(curves[0][0])} ` +
+    curves.map(([start, c1, c2, end]) =>
+      pointToSegmentDistance(c1, start, end) < 0.01 && pointToSegmentDistance(c2, start, end) < 0.01
+        ? `L${formatPoint(end)}`
+        : `C${formatPoint(c1)} ${formatPoint(c2)} ${formatPoint(end)}`
+    ).join(' ') +
+    ' Z';
+}
+
+// Midpoints of single-pixel steps, with the corners between longer runs kept sharp
+function removeSteps(loop: Point[]): Point[] {
+  const points: Point[] = [];
+
+  loop.forEach((vertex, i) => {
+    const previous = loop[(i - 1 + loop.length) % loop.length];
+    const next = loop[(i + 1) % loop.length];
+    const nextLength = distance(vertex, next);
+    if (distance(previous, vertex) > 1 && nextLength > 1) points.push(vertex);
+
+    if (nextLength <= 2) {
+      points.push({ x: (vertex.x + next.x) / 2, y: (vertex.y + next.y) / 2 });
+      return;
+    }
+    for (let t = 1; t < nextLength; t++) {
+      points.push({ x: vertex.x + (next.x - vertex.x) * t / nextLength, y: vertex.y + (next.y - vertex.y) * t / nextLength });
+    }
+  });
+
+  return points;
+}
+
+/**
+ * Least-squares cubic Bézier fit (Schneider, Graphics Gems 1990), split at
+ * the worst point until every point is within tolerance
+ */
+function fitCubic(points: Point[], tangentStart: Point, tangentEnd: Point, errorSquared: number): Bezier[] {
+  const first = points[0];
+  const last = points[points.length - 1];
+
+  if (points.length === 2) {
+    const handle = distance(first, last) / 3;
+    return [[first, add(first, scale(tangentStart, handle)), add(last, scale(tangentEnd, handle)), last]];
+  }
+
+  let parameters = chordLengthParameters(points);
+  let curve = generateBezier(points, parameters, tangentStart, tangentEnd);
+  let { maxError, split } = maxFitError(points, curve, parameters);
+  if (maxError < errorSquared) return [curve];
+
+  // Close misses usually converge after reparameterising
+  if (maxError < errorSquared * 4) {
+    for (let iteration = 0; iteration < 4; iteration++) {
+      parameters = parameters.map((u, i) => newtonRaphson(curve, points[i], u));
+      curve = generateBezier(points, parameters, tangentStart, tangentEnd);
+      ({ maxError, split } = maxFitError(points, curve, parameters));
+      if (maxError < errorSquared) return [curve];
+    }
+  }
+
+  const tangentCenter = unit(points[split + 1], points[split - 1]);
+  return [
+    ...fitCubic(points.slice(0, split + 1), tangentStart, tangentCenter, errorSquared),
+    ...fitCubic(points.slice(split), scale(tangentCenter, -1), tangentEnd, errorSquared)
+  ];
+}
+
+function generateBezier(points: Point[], parameters: number[], tangentStart: Point, tangentEnd: Point): Bezier {
+  const first = points[0];
+  const last = points[points.length - 1];
+  let c00 = 0, c01 = 0, c11 = 0, x0 = 0, x1 = 0;
+
+  parameters.forEach((u, i) => {
+    const b0 = (1 - u) ** 3;
+    const b1 = 3 * u * (1 - u) ** 2;
+    const b2 = 3 * u * u * (1 - u);
+    const b3 = u ** 3;
+    const a1 = scale(tangentStart, b1);
+    const a2 = scale(tangentEnd, b2);
+    const rest = {
+      x: points[i].x - (first.x * (b0 + b1) + last.x * (b2 + b3)),
+      y: points[i].y - (first.y * (b0 + b1) + last.y * (b2 + b3))
+    };
+    c00 += dot(a1, a1);
+    c01 += dot(a1, a2);
+    c11 += dot(a2, a2);
+    x0 += dot(a1, rest);
+    x1 += dot(a2, rest);
+  });
+
+  const determinant = c00 * c11 - c01 * c01;
+  let alphaStart = determinant === 0 ? 0 : (x0 * c11 - x1 * c01) / determinant;
+  let alphaEnd = determinant === 0 ? 0 : (c00 * x1 - c01 * x0) / determinant;
+
+  // Degenerate or backwards handles fall back to a third of the chord
+  const chord = distance(first, last);
+  if (alphaStart < chord * 1e-6 || alphaEnd < chord * 1e-6) {
+    alphaStart = alphaEnd = chord / 3;
+  }
+
+  return [first, add(first, scale(tangentStart, alphaStart)), add(last, scale(tangentEnd, alphaEnd)), last];
+}
+
+function maxFitError(points: Point[], curve: Bezier, parameters: number[]): { maxError: number; split: number } {
+  let maxError = 0;
+  let split = Math.floor(points.length / 2);
+
+  for (let i = 1; i < points.length - 1; i++) {
+    const point = bezierPoint(curve, parameters[i]);
+    const error = (point.x - points[i].x) ** 2 + (point.y - points[i].y) ** 2;
+    if (error >= maxError) {
+      maxError = error;
+      split = i;
+    }
+  }
+
+  return { maxError, split };
+}
+
+function newtonRaphson(curve: Bezier, point: Point, u: number): number {
+  const q = bezierPoint(curve, u);
+  const q1 = bezierPoint(derivative(curve), u);
+  const q2 = bezierPoint(derivative(derivative(curve)), u);
+  const numerator = (q.x - point.x) * q1.x + (q.y - point.y) * q1.y;
+  const denominator = dot(q1, q1) + (q.x - point.x) * q2.x + (q.y - point.y) * q2.y;
+  return denominator === 0 ? u : u - numerator / denominator;
+}
+
+function chordLengthParameters(points: Point[]): number[] {
+  const lengths = [0];
+  for (let i = 1; i < points.length; i++) lengths.push(lengths[i - 1] + distance(points[i - 1], points[i]));
+  const total = lengths[lengths.length - 1] || 1;
+  return lengths.map(length => length / total);
+}
+
+// Control points of the derivative curve, one degree lower
+function derivative(curve: Point[]): Point[] {
+  const degree = curve.length - 1;
+  return curve.slice(1).map((point, i) => scale({ x: point.x - curve[i].x, y: point.y - curve[i].y }, degree));
+}
+
+// De Casteljau evaluation for a curve of any degree
+function bezierPoint(curve: Point[], u: number): Point {
+  let current = curve;
+  while (current.length > 1) {
+    current = current.slice(1).map((point, i) => ({
+      x: current[i].x + (point.x - current[i].x) * u,
+      y: current[i].y + (point.y - current[i].y) * u
+    }));
+  }
+  return current[0];
+}
+
+function turnAngle(a: Point, b: Point, c: Point): number {
+  const cross = (b.x - a.x) * (c.y - b.y) - (b.y - a.y) * (c.x - b.x);
+  const dotProduct = (b.x - a.x) * (c.x - b.x) + (b.y - a.y) * (c.y - b.y);
+  return Math.abs(Math.atan2(cross, dotProduct));
+}
+
+// Unit vector pointing from a to b
+function unit(a: Point, b: Point): Point {
+  const length = distance(a, b);
+  return length === 0 ? { x: 0, y: 0 } : { x: (b.x - a.x) / length, y: (b.y - a.y) / length };
+}
+
+function add(a: Point, b: Point): Point {
+  return { x: a.x + b.x, y: a.y + b.y };
+}
+
+function scale(p: Point, factor: number): Point {
+  return { x: p.x * factor, y: p.y * factor };
+}
+
+function dot(a: Point, b: Point): number {
+  return a.x * b.x + a.y * b.y;
+}
+
+function toHex(r: number, g: number, b: number): string {
+  return '#' + [r, g, b].map(value => Math.round(value).toString(16).padStart(2, '0')).join('').toUpperCase();
+}
+
+function formatPoint(p: Point): string {
+  return `${formatNumber(p.x)},${formatNumber(p.y)}`;
+}
+
+function formatNumber(value: number): string {
+  return String(Math.round(value * 100) / 100);
+}
@@ -0,0 +1,261 @@
+// Rate limiting
+// Sliding-window request limits shared by every Worker isolate, stored in a Durable Object, KV or (for tests) memory
+
+import type { Env } from './database';
+
+export type RateLimitDimension = 'user' | 'ip' | 'tenant' | 'route';
+
+export interface RateLimitRule {
+  requests: number;
+  windowMs: number;
+}
+
+export interface RateLimitDecision {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  resetMs: number; // until the current window ends
+  retryAfterMs: number; // until a denied request would be allowed, 0 when allowed
+}
+
+/**
+ * Where counters live. hit() counts one request and decides in a single
+ * step, so stores that serialize access per key enforce limits exactly.
+ */
+export interface RateLimitStore {
+  hit(key: string, rule: RateLimitRule, now?: number): Promise<RateLimitDecision>;
+}
+
+export interface RateLimitIdentity {
+  route: string;
+  ip?: string;
+  userId?: string;
+  tenantId?: string;
+}
+
+// Counts for the current fixed window and the one before it
+interface WindowState {
+  start: number; // ms
+  current: number;
+  previous: number;
+}
+
+const MAX_MEMORY_KEYS = 10000;
+
+/**
+ * Count a request against a sliding window. The previous window's count is
+ * weighted by how much of it still overlaps the last windowMs, which
+ * approximates a true sliding log with two numbers per key.
+ */
+export function applySlidingWindow(
+  state: WindowState | null,
+  rule: RateLimitRule,
+  now: number
+): { state: WindowState; decision: RateLimitDecision } {
+  const start = Math.floor(now / rule.windowMs) * rule.windowMs;
+  let current = 0;
+  let previous = 0;
+  if (state && state.start === start) {
+    current = state.current;
+    previous = state.previous;
+  } else if (state && state.start === start - rule.windowMs) {
+    previous = state.current;
+  }
+
+  const overlap = 1 - (now - start) / rule.windowMs;
+  const used = previous * overlap + current;
+  const allowed = used + 1 <= rule.requests;
+  if (allowed) current++;
+
+  let retryAfterMs = 0;
+  if (!allowed) {
+    if (current + 1 <= rule.requests && previous > 0) {
+      // Wait for enough of the previous window to slide out
+      retryAfterMs = start + rule.windowMs * (1 - (rule.requests - current - 1) / previous) - now;
+    } else {
+      // This window alone is full: wait for it to end and then slide out
+      retryAfterMs = start + rule.windowMs + rule.windowMs * (1 - (rule.requests - 1) / Math.max(current, 1)) - now;
+    }
+  }
+
+  return {
+    state: { start, current, previous },
+    decision: {
+      allowed,
+      limit: rule.requests,
+      remaining: Math.max(0, Math.floor(rule.requests - used - (allowed ? 1 : 0))),
+      resetMs: start + rule.windowMs - now,
+      retryAfterMs: Math.max(0, Math.ceil(retryAfterMs))
+    }
+  };
+}
+
+/**
+ * Counters in this isolate only. Correct for tests and local development;
+ * in production each isolate would count separately.
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  private windows = new Map<string, WindowState>();
+
+  async hit(key: string, rule: RateLimitRule, now: number = Date.now()): Promise<RateLimitDecision> {
+    const { state, decision } = applySlidingWindow(this.windows.get(key) || null, rule, now);
+    this.windows.set(key, state);
+    if (this.windows.size > MAX_MEMORY_KEYS) this.prune(now, rule.windowMs);
+    return decision;
+  }
+
+  clear(): void {
+    this.windows.clear();
+  }
+
+  private prune(now: number, windowMs: number): void {
+    for (const [key, state] of this.windows) {
+      if (state.start < now - 2 * windowMs) this.windows.delete(key);
+    }
+  }
+}
+
+/**
+ * Counters in Workers KV. KV is eventually consistent and last write wins,
+ * so simultaneous bursts hitting different locations can slightly exceed
+ * a limit; bind RATE_LIMITER for exact limits.
+ */
+export class KVRateLimitStore implements RateLimitStore {
+  constructor(private kv: any) {}
+
+  async hit(key: string, rule: RateLimitRule, now: number = Date.now()): Promise<RateLimitDecision> {
+    const stored = await this.kv.get(`ratelimit:${key}`, 'json') as WindowState | null;
+    const { state, decision } = applySlidingWindow(stored, rule, now);
+    // KV needs at least 60 seconds; the entry is useless once two windows have passed
+    await this.kv.put(`ratelimit:${key}`, JSON.stringify(state), {
+      expirationTtl: Math.max(60, Math.ceil((2 * rule.windowMs) / 1000))
+    });
+    return decision;
+  }
+}
+
+/**
+ * One RateLimiterDurableObject per key. A Durable Object handles its
+ * requests one at a time, so counts never race.
+ */
+export class DurableObjectRateLimitStore implements RateLimitStore {
+  constructor(private namespace: any) {}
+
+  async hit(key: string, rule: RateLimitRule, now: number = Date.now()): Promise<RateLimitDecision> {
+    const stub = this.namespace.get(this.namespace.idFromName(key));
+    const response = await stub.fetch('https://rate-limiter/hit', {
+      method: 'POST',
+      body: JSON.stringify({ rule, now })
+    });
+    if (!response.ok) {
+      throw new Error(`Rate limiter responded with ${response.status}`);
+    }
+    return response.json() as Promise<RateLimitDecision>;
+  }
+}
+
+/**
+ * The Durable Object behind DurableObjectRateLimitStore. Exported by the
+ * API worker and bound to the site as RATE_LIMITER.
+ */
+export class RateLimiterDurableObject {
+  constructor(private state: any) {}
+
+  async fetch(request: Request): Promise<Response> {
+    const { rule, now } = await request.json() as { rule: RateLimitRule; now?: number };
+    if (!rule || !(rule.requests > 0) || !(rule.windowMs > 0)) {
+      return new Response(JSON.stringify({ error: 'Invalid rule' }), { status: 400 });
+    }
+
+    const time = typeof now === 'number' ? now : Date.now();
+    const result = applySlidingWindow(await this.state.storage.get('window') || null, rule, time);
+    await this.state.storage.put('window', result.state);
+    // Forget idle keys once their windows can no longer count
+    await this.state.storage.setAlarm(time + 2 * rule.windowMs);
+
+    return new Response(JSON.stringify(result.decision), { headers: { 'Content-Type': 'application/json' } });
+  }
+
+  async alarm(): Promise<void> {
+    await this.state.storage.deleteAll();
+  }
+}
+
+const memoryStore = new MemoryRateLimitStore();
+
+/**
+ * The shared store for this deployment: a Durable Object namespace when
+ * bound, then KV, then this isolate's memory
+ */
+export function getRateLimitStore(env?: Env): RateLimitStore {
+  if (env?.RATE_LIMITER) return new DurableObjectRateLimitStore(env.RATE_LIMITER);
+  if (env?.RATE_LIMIT_KV) return new KVRateLimitStore(env.RATE_LIMIT_KV);
+  return memoryStore;
+}
+
+/**
+ * Count a request, letting it through if the store cannot be reached.
+ * Limits guard against abuse; an unavailable counter should not take the site down.
+ */
+export async function consumeRateLimit(store: RateLimitStore, key: string, rule: RateLimitRule): Promise<RateLimitDecision> {
+  try {
+    return await store.hit(key, rule);
+  } catch (error) {
+    console.error('Rate limit store error:', error);
+    return { allowed: true, limit: rule.requests, remaining: rule.requests, resetMs: rule.windowMs, retryAfterMs: 0 };
+  }
+}
+
+/**
+ * Counter key for the chosen dimensions. Without an explicit list, signed-in
+ * callers are counted per user and everyone else per IP, on each route.
+ */
+export function rateLimitKey(identity: RateLimitIdentity, by?: RateLimitDimension[]): string {
+  const dimensions = by && by.length > 0 ? by : [identity.userId ? 'user' : 'ip', 'route'] as RateLimitDimension[];
+  const values: Record<RateLimitDimension, string | undefined> = {
+    user: identity.userId,
+    ip: identity.ip,
+    tenant: identity.tenantId,
+    route: identity.route
+  };
+  return dimensions.map(dimension => `${dimension}=${values[dimension] || '-'}`).join('|');
+}
+
+/**
+ * RateLimit-* headers from the IETF draft, plus Retry-After when denied
+ */
+export function rateLimitHeaders(decision: RateLimitDecision, rule: RateLimitRule): Record<string, string> {
+  const headers: Record<string, string> = {
+    'RateLimit-Limit': String(decision.limit),
+    'RateLimit-Remaining': String(decision.remaining),
+    'RateLimit-Reset': String(Math.ceil(decision.resetMs / 1000)),
+    'RateLimit-Policy': `${rule.requests};w=${Math.ceil(rule.windowMs / 1000)}`
+  };
+  if (!decision.allowed) {
+    headers['Retry-After'] = String(Math.max(1, Math.ceil(decision.retryAfterMs / 1000)));
+  }
+  return headers;
+}
+
+/**
+ * Route pattern of a request, so /api/projects/abc/export and
+ * /api/projects/def/export share one limit
+ */
+export function routePattern(pathname: string, params: Record<string, string | undefined> = {}): string {
+  const names = new Map(Object.entries(params).filter(([, value]) => value).map(([name, value]) => [value!, name]));
+  return pathname
+    .split('/')
+    .map(segment => {
+      const name = names.get(safeDecode(segment));
+      return name ? `[${name}]` : segment;
+    })
+    .join('/');
+}
+
+function safeDecode(segment: string): string {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    return segment;
+  }
+}
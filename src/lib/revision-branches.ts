@@ -0,0 +1,235 @@
+// Revision branches
+// Named lines of revisions per project: forking, committing to a branch head and finding merge bases
+
+import { RevisionNumberTakenError, type DatabaseService, type ProjectBranch, type ProjectRevision, type UserProject } from './database';
+
+export const MAIN_BRANCH = 'main';
+
+export interface RevisionContent {
+  svg_data: string;
+  changes_description?: string;
+  metadata?: string;
+  operation_layers?: string;
+  merge_parent_revision_id?: string | null;
+}
+
+export interface CommitResult {
+  revision: ProjectRevision;
+  branch: ProjectBranch;
+  project: UserProject | null; // updated project when the branch is checked out
+}
+
+export class BranchHeadMovedError extends Error {
+  constructor(public branch: ProjectBranch) {
+    super(`Branch "${branch.name}" has new revisions since this edit started`);
+    this.name = 'BranchHeadMovedError';
+  }
+}
+
+const BRANCH_NAME_PATTERN = /^[A-Za-z0-9][A-Za-z0-9 ._\/-]{0,49}$/;
+const REVISION_NUMBER_ATTEMPTS = 5;
+
+export function isValidBranchName(name: unknown): name is string {
+  return typeof name === 'string' && BRANCH_NAME_PATTERN.test(name) && !name.endsWith('/');
+}
+
+/**
+ * Branches of a project, creating "main" at the current revision for
+ * projects saved before branches existed
+ */
+export async function ensureMainBranch(database: DatabaseService, project: UserProject): Promise<{ branches: ProjectBranch[]; current: ProjectBranch }> {
+  const branches = await database.getProjectBranches(project.id);
+  const current = branches.find(branch => branch.id === project.current_branch_id) ||
+    branches.find(branch => branch.name === MAIN_BRANCH);
+  if (current) {
+    return { branches, current };
+  }
+
+  const main = await database.createProjectBranch({
+    id: crypto.randomUUID(),
+    project_id: project.id,
+    name: MAIN_BRANCH,
+    head_revision_id: project.current_revision_id ?? null,
+    base_revision_id: null,
+    created_by: project.user_id
+  });
+  if (!main) {
+    throw new Error('Failed to create main branch');
+  }
+
+  await database.updateUserProject(project.id, project.user_id, { current_branch_id: main.id });
+  return { branches: [...branches, main], current: main };
+}
+
+/**
+ * Save a revision on top of a branch head. The head only advances if it
+ * has not moved since the branch was read; otherwise BranchHeadMovedError
+ * is thrown and nothing is saved. A checked-out branch also updates the
+ * project's working copy.
+ */
+export async function commitRevision(
+  database: DatabaseService,
+  project: UserProject,
+  branch: ProjectBranch,
+  content: RevisionContent
+): Promise<CommitResult> {
+  const revisionId = crypto.randomUUID();
+
+  // Claim the head first so two saves racing on one branch cannot both land
+  const moved = await database.updateProjectBranchHead(branch.id, revisionId, branch.head_revision_id);
+  if (!moved) {
+    const latest = (await database.getProjectBranches(project.id)).find(candidate => candidate.id === branch.id);
+    throw new BranchHeadMovedError(latest || branch);
+  }
+
+  const revision = await createNextRevision(database, {
+    id: revisionId,
+    project_id: project.id,
+    svg_data: content.svg_data,
+    changes_description: content.changes_description,
+    metadata: content.metadata,
+    operation_layers: content.operation_layers,
+    branch_id: branch.id,
+    parent_revision_id: branch.head_revision_id,
+    merge_parent_revision_id: content.merge_parent_revision_id ?? null
+  });
+  if (!revision) {
+    // Put the head back, to no revision at all for a branch's first commit
+    await database.updateProjectBranchHead(branch.id, branch.head_revision_id ?? null, revisionId);
+    throw new Error('Failed to create revision');
+  }
+
+  return {
+    revision,
+    branch: moved,
+    project: isCheckedOut(project, branch) ? await applyRevision(database, project, revision, branch) : null
+  };
+}
+
+/**
+ * Create a project whose design, when it has one, is saved as revision 1 so
+ * later edits can be compared against it. The project is removed again if
+ * the revision cannot be saved.
+ */
+export async function createProjectWithRevision(
+  database: DatabaseService,
+  project: Omit<UserProject, 'created_at' | 'updated_at' | 'current_revision_id'>,
+  changesDescription: string
+): Promise<UserProject | null> {
+  const revisionId = project.svg_data ? crypto.randomUUID() : undefined;
+  const created = await database.createUserProject({ ...project, current_revision_id: revisionId });
+  if (!created || !revisionId) {
+    return created;
+  }
+
+  const revision = await database.createProjectRevision({
+    id: revisionId,
+    project_id: created.id,
+    revision_number: 1,
+    svg_data: project.svg_data!,
+    changes_description: changesDescription,
+    metadata: project.metadata,
+    operation_layers: project.operation_layers
+  });
+  if (!revision) {
+    await database.deleteUserProject(created.id, created.user_id);
+    return null;
+  }
+
+  return created;
+}
+
+/**
+ * Point the project's working copy at a revision of a branch
+ */
+export async function applyRevision(
+  database: DatabaseService,
+  project: UserProject,
+  revision: ProjectRevision,
+  branch: ProjectBranch
+): Promise<UserProject | null> {
+  return database.updateUserProject(project.id, project.user_id, {
+    current_revision_id: revision.id,
+    current_branch_id: branch.id,
+    svg_data: revision.svg_data,
+    operation_layers: revision.operation_layers
+  });
+}
+
+export function isCheckedOut(project: UserProject, branch: ProjectBranch): boolean {
+  return project.current_branch_id ? project.current_branch_id === branch.id : branch.name === MAIN_BRANCH;
+}
+
+/**
+ * First-parent history of a branch, newest first
+ */
+export function branchHistory(revisions: ProjectRevision[], headId: string | null): ProjectRevision[] {
+  const byId = new Map(revisions.map(revision => [revision.id, revision]));
+  const history: ProjectRevision[] = [];
+  let current = headId ? byId.get(headId) : undefined;
+
+  while (current && history.length < revisions.length) {
+    history.push(current);
+    const parent = parentsOf(current, revisions)[0];
+    current = parent ? byId.get(parent) : undefined;
+  }
+
+  return history;
+}
+
+/**
+ * Nearest revision both heads descend from, or null if they share no history
+ */
+export function findMergeBase(revisions: ProjectRevision[], a: string, b: string): ProjectRevision | null {
+  const byId = new Map(revisions.map(revision => [revision.id, revision]));
+  const ancestors = new Set<string>();
+  const walk = (start: string, visit: (id: string) => boolean) => {
+    const queue = [start];
+    const seen = new Set<string>();
+    while (queue.length > 0) {
+      const id = queue.shift()!;
+      if (seen.has(id)) continue;
+      seen.add(id);
+      if (visit(id)) return id;
+      const revision = byId.get(id);
+      if (revision) queue.push(...parentsOf(revision, revisions));
+    }
+    return null;
+  };
+
+  walk(a, id => { ancestors.add(id); return false; });
+  const base = walk(b, id => ancestors.has(id));
+  return base ? byId.get(base) || null : null;
+}
+
+// Revisions saved before branches have no parent pointer; they follow one another by number
+function parentsOf(revision: ProjectRevision, revisions: ProjectRevision[]): string[] {
+  if (revision.parent_revision_id || revision.branch_id) {
+    return [revision.parent_revision_id, revision.merge_parent_revision_id].filter((id): id is string => !!id);
+  }
+
+  const previous = revisions
+    .filter(candidate => !candidate.branch_id && candidate.revision_number < revision.revision_number)
+    .sort((x, y) => y.revision_number - x.revision_number)[0];
+  return previous ? [previous.id] : [];
+}
+
+// Commits on different branches can read the same next number; the unique index rejects the loser, which takes the next one
+async function createNextRevision(
+  database: DatabaseService,
+  revision: Omit<ProjectRevision, 'created_at' | 'revision_number'>
+): Promise<ProjectRevision | null> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await database.createProjectRevision({
+        ...revision,
+        revision_number: await database.getNextRevisionNumber(revision.project_id)
+      });
+    } catch (error) {
+      if (!(error instanceof RevisionNumberTakenError) || attempt >= REVISION_NUMBER_ATTEMPTS) {
+        console.error('Error creating next revision:', error);
+        return null;
+      }
+    }
+  }
+}
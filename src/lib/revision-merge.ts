@@ -0,0 +1,318 @@
+// Revision merge
+// Three-way merge of two edited versions of a design against the revision they share
+
+import {
+  getBoundingBox,
+  invertMatrix,
+  multiplyMatrix,
+  parseSVGDocument,
+  parseTransform,
+  serializeSVGDocument,
+  setElementAttributes,
+  type Matrix,
+  type SVGDocument,
+  type SVGNode,
+  type SVGShape
+} from './svg-geometry';
+import { matchShapes, type DiffShape } from './design-diff';
+
+export type MergeSide = 'ours' | 'theirs';
+
+export interface MergeConflict {
+  id: string; // stable for the same base revision, so a resolution can be sent back
+  kind: 'both-modified' | 'modified-deleted' | 'deleted-modified';
+  message: string;
+  base: DiffShape;
+  ours: DiffShape | null;
+  theirs: DiffShape | null;
+  resolution?: MergeSide;
+}
+
+export interface MergeOptions {
+  tolerance?: number; // mm
+  resolutions?: Record<string, MergeSide>; // conflict id -> side to keep
+}
+
+export interface MergeResult {
+  svg: string;
+  conflicts: MergeConflict[];
+  applied: {
+    modified: number; // their edits taken over unchanged elements of ours
+    removed: number;
+    added: number;
+  };
+}
+
+interface DesignElement {
+  node: SVGNode;
+  shapes: SVGShape[];
+}
+
+type ElementChange =
+  | { status: 'unchanged'; partner: DesignElement }
+  | { status: 'modified'; partner: DesignElement }
+  | { status: 'deleted' };
+
+interface Container {
+  children: SVGNode[];
+  matrix: Matrix;
+}
+
+const DEFAULT_TOLERANCE = 0.1;
+const EMPTY_SVG = '<svg xmlns="http://www.w3.org/2000/svg"></svg>';
+
+// Attributes that only place or shape an element; anything else (stroke, fill, layer data) is an edit
+const PLACEMENT_ATTRIBUTES = new Set(['id', 'transform', 'x', 'y', 'width', 'height', 'cx', 'cy', 'r', 'rx', 'ry', 'x1', 'y1', 'x2', 'y2', 'points', 'd']);
+
+/**
+ * Merge the edits made on "theirs" since base into "ours". Elements are
+ * matched across versions by geometry; an element only one side touched
+ * takes that side's version, and an element both sides changed differently
+ * is a conflict. Conflicts keep ours until resolved, and document size and
+ * anything outside the drawn elements always come from ours.
+ */
+export function mergeDesigns(baseSvg: string | null, oursSvg: string, theirsSvg: string, options: MergeOptions = {}): MergeResult {
+  const tolerance = options.tolerance ?? DEFAULT_TOLERANCE;
+  const resolutions = options.resolutions || {};
+
+  const base = collectElements(parseSVGDocument(baseSvg || EMPTY_SVG));
+  const oursDocument = parseSVGDocument(oursSvg);
+  const ours = collectElements(oursDocument);
+  const theirs = collectElements(parseSVGDocument(theirsSvg));
+
+  const oursChanges = relateElements(base, ours, tolerance);
+  const theirsChanges = relateElements(base, theirs, tolerance);
+
+  const conflicts: MergeConflict[] = [];
+  const applied = { modified: 0, removed: 0, added: 0 };
+  const removals = new Set<SVGNode>();
+  const insertions: DesignElement[] = [];
+
+  base.forEach((element, index) => {
+    const mine = oursChanges.changes.get(element)!;
+    const other = theirsChanges.changes.get(element)!;
+    if (other.status === 'unchanged') return;
+
+    if (mine.status === 'unchanged') {
+      if (other.status === 'modified') {
+        replaceElement(mine.partner, other.partner);
+        applied.modified++;
+      } else {
+        removals.add(mine.partner.node);
+        applied.removed++;
+      }
+      return;
+    }
+
+    if (mine.status === 'deleted' && other.status === 'deleted') return;
+    if (mine.status === 'modified' && other.status === 'modified' && sameElement(mine.partner, other.partner, tolerance)) return;
+
+    const conflict: MergeConflict = {
+      id: `conflict-${index}`,
+      kind: mine.status === 'deleted' ? 'deleted-modified' : other.status === 'deleted' ? 'modified-deleted' : 'both-modified',
+      message: '',
+      base: describeElement(element),
+      ours: mine.status === 'deleted' ? null : describeElement(mine.partner),
+      theirs: other.status === 'deleted' ? null : describeElement(other.partner)
+    };
+    conflict.message = {
+      'both-modified': 'Both branches changed this shape',
+      'modified-deleted': 'Changed on this branch but deleted on the other',
+      'deleted-modified': 'Deleted on this branch but changed on the other'
+    }[conflict.kind];
+
+    const resolution = resolutions[conflict.id];
+    if (resolution === 'ours' || resolution === 'theirs') {
+      conflict.resolution = resolution;
+    }
+    conflicts.push(conflict);
+
+    if (conflict.resolution !== 'theirs') return;
+    if (mine.status === 'deleted') {
+      if (other.status === 'modified') insertions.push(other.partner);
+    } else if (other.status === 'deleted') {
+      removals.add(mine.partner.node);
+    } else {
+      replaceElement(mine.partner, other.partner);
+    }
+  });
+
+  // Their new elements, unless ours added the same thing independently
+  for (const element of theirsChanges.added) {
+    if (oursChanges.added.some(candidate => sameElement(candidate, element, tolerance))) continue;
+    insertions.push(element);
+    applied.added++;
+  }
+
+  if (insertions.length > 0) {
+    const containers = collectContainers(oursDocument);
+    for (const element of insertions) {
+      const layer = element.shapes[0].layer;
+      insertElement((layer && containers.layers.get(layer)) || containers.root, element);
+    }
+  }
+
+  return {
+    svg: serializeSVGDocument(pruneNodes(oursDocument.tree, removals)),
+    conflicts,
+    applied
+  };
+}
+
+// One entry per source element; an element with several subpaths yields several shapes
+function collectElements(document: SVGDocument): DesignElement[] {
+  const elements = new Map<SVGNode, DesignElement>();
+  for (const shape of document.geometry.shapes) {
+    const element = elements.get(shape.node);
+    if (element) element.shapes.push(shape);
+    else elements.set(shape.node, { node: shape.node, shapes: [shape] });
+  }
+  return [...elements.values()];
+}
+
+/**
+ * How each base element fared in another version: still there untouched,
+ * edited (its partner holds most of its shapes) or gone. Elements of the
+ * other version that no base element maps to were added.
+ */
+function relateElements(base: DesignElement[], other: DesignElement[], tolerance: number) {
+  const matches = matchShapes(base.flatMap(element => element.shapes), other.flatMap(element => element.shapes), tolerance);
+  const owner = new Map<SVGShape, DesignElement>();
+  other.forEach(element => element.shapes.forEach(shape => owner.set(shape, element)));
+
+  const partners = new Map<SVGShape, { shape: SVGShape; same: boolean }>();
+  matches.unchanged.forEach(([a, b]) => partners.set(a, { shape: b, same: true }));
+  [...matches.moved, ...matches.resized].forEach(([a, b]) => partners.set(a, { shape: b, same: false }));
+
+  const changes = new Map<DesignElement, ElementChange>();
+  const claimed = new Set<DesignElement>();
+
+  for (const element of base) {
+    const found = element.shapes.map(shape => partners.get(shape));
+    const votes = new Map<DesignElement, number>();
+    for (const partner of found) {
+      if (!partner) continue;
+      const candidate = owner.get(partner.shape)!;
+      votes.set(candidate, (votes.get(candidate) || 0) + 1);
+    }
+
+    if (votes.size === 0) {
+      changes.set(element, { status: 'deleted' });
+      continue;
+    }
+
+    const partner = [...votes.entries()].sort((a, b) => b[1] - a[1])[0][0];
+    claimed.add(partner);
+    const untouched = votes.size === 1 &&
+      partner.shapes.length === element.shapes.length &&
+      found.every(match => match?.same) &&
+      sameAttributes(element.node, partner.node);
+    changes.set(element, { status: untouched ? 'unchanged' : 'modified', partner });
+  }
+
+  return { changes, added: other.filter(element => !claimed.has(element)) };
+}
+
+function sameElement(a: DesignElement, b: DesignElement, tolerance: number): boolean {
+  if (a.shapes.length !== b.shapes.length || !sameAttributes(a.node, b.node)) return false;
+  const matches = matchShapes(a.shapes, b.shapes, tolerance);
+  return matches.unchanged.length === a.shapes.length;
+}
+
+function sameAttributes(a: SVGNode, b: SVGNode): boolean {
+  if (tagName(a) !== tagName(b)) return false;
+  const styling = (node: SVGNode) => Object.entries((node[':@'] || {}) as Record<string, string>)
+    .filter(([name]) => !PLACEMENT_ATTRIBUTES.has(name))
+    .sort(([x], [y]) => x.localeCompare(y));
+  return JSON.stringify(styling(a)) === JSON.stringify(styling(b));
+}
+
+// Swap ours for a copy of theirs in place, re-expressing its transform in ours' parent coordinates
+function replaceElement(target: DesignElement, source: DesignElement): void {
+  const ownTransform = target.node[':@']?.transform;
+  const parentMatrix = ownTransform
+    ? multiplyMatrix(target.shapes[0].matrix, invertMatrix(parseTransform(ownTransform)))
+    : target.shapes[0].matrix;
+
+  const replacement = placeElement(source, parentMatrix);
+  Object.keys(target.node).forEach(key => delete target.node[key]);
+  Object.assign(target.node, replacement);
+}
+
+function insertElement(container: Container, element: DesignElement): void {
+  container.children.push(placeElement(element, container.matrix));
+}
+
+function placeElement(element: DesignElement, parentMatrix: Matrix): SVGNode {
+  const copy = JSON.parse(JSON.stringify(element.node)) as SVGNode;
+  const local = multiplyMatrix(invertMatrix(parentMatrix), element.shapes[0].matrix);
+  setElementAttributes(copy, { transform: isIdentity(local) ? undefined : formatMatrix(local) });
+  return copy;
+}
+
+/**
+ * Groups of ours by the label shapes report as their layer, with the
+ * matrix from each group's user space to millimetres
+ */
+function collectContainers(document: SVGDocument): { root: Container; layers: Map<string, Container> } {
+  const svg = document.tree.find(node => tagName(node) === 'svg');
+  const root: Container = { children: svg ? svg.svg : document.tree, matrix: document.geometry.matrix };
+  const layers = new Map<string, Container>();
+
+  const walk = (nodes: SVGNode[], matrix: Matrix) => {
+    for (const node of nodes) {
+      const tag = tagName(node);
+      if (!tag || !['g', 'svg', 'a'].includes(tag.replace(/^.*:/, ''))) continue;
+
+      const attributes = (node[':@'] || {}) as Record<string, string>;
+      const nodeMatrix = attributes.transform ? multiplyMatrix(matrix, parseTransform(attributes.transform)) : matrix;
+      const label = attributes['inkscape:label'] || attributes.id;
+      if (label && !layers.has(label)) {
+        layers.set(label, { children: node[tag], matrix: nodeMatrix });
+      }
+      walk(node[tag] || [], nodeMatrix);
+    }
+  };
+  walk(root.children, root.matrix);
+
+  return { root, layers };
+}
+
+function pruneNodes(nodes: SVGNode[], removals: Set<SVGNode>): SVGNode[] {
+  if (removals.size === 0) return nodes;
+  return nodes
+    .filter(node => !removals.has(node))
+    .map(node => {
+      const tag = tagName(node);
+      if (tag && Array.isArray(node[tag])) node[tag] = pruneNodes(node[tag], removals);
+      return node;
+    });
+}
+
+function describeElement(element: DesignElement): DiffShape {
+  const box = getBoundingBox(element.shapes.flatMap(shape => shape.points));
+  const id = element.shapes[0].id;
+  return {
+    ...(id ? { id } : {}),
+    element: element.shapes[0].element,
+    closed: element.shapes.every(shape => shape.closed),
+    bounds: { x: round(box.x), y: round(box.y), width: round(box.width), height: round(box.height) }
+  };
+}
+
+function tagName(node: SVGNode): string | undefined {
+  return Object.keys(node).find(key => key !== ':@');
+}
+
+function isIdentity(m: Matrix): boolean {
+  const identity = [1, 0, 0, 1, 0, 0];
+  return m.every((value, i) => Math.abs(value - identity[i]) < 1e-9);
+}
+
+function formatMatrix(m: Matrix): string {
+  return `matrix(${m.map(value => Number(value.toFixed(6))).join(' ')})`;
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
@@ -6,6 +6,15 @@ import type { Env } from './database';
 import { createSecurityMiddleware, SecurityHeaders, InputValidator, SecurityError, validateEnvironmentSecurity } from './security';
 import { createSecureDatabaseService } from './secure-database';
 import { getAuthService, getSessionFromRequest } from './auth';
+import { isPlanAllowed, type PlanId } from './entitlements';
+import {
+  consumeRateLimit,
+  getRateLimitStore,
+  rateLimitHeaders,
+  rateLimitKey,
+  routePattern,
+  type RateLimitDimension
+} from './rate-limit';
 
 // Enhanced API context with security features
 export interface SecureAPIContext extends APIContext {
@@ -21,10 +30,11 @@ export interface SecureAPIContext extends APIContext {
 // Security middleware options
 export interface SecurityOptions {
   requireAuth?: boolean;
-  requireSubscription?: ('free' | 'starter' | 'maker' | 'pro')[];
+  requireSubscription?: PlanId[];
   rateLimit?: {
     requests: number;
     windowMs: number;
+    by?: RateLimitDimension[]; // defaults to the user (or IP when signed out) on this route
   };
   strictEndpoint?: boolean;
   csrfProtection?: boolean;
@@ -68,7 +78,7 @@ export function createSecureAPI(
 
       // Apply security middleware
       const securityMiddleware = createSecurityMiddleware(env);
-      const endpointName = context.request.url.split('/').pop() || 'unknown';
+      const endpointName = routePattern(new URL(request.url).pathname, context.params);
       const securityCheck = await securityMiddleware(
         request, 
         endpointName, 
@@ -112,21 +122,37 @@ export function createSecureAPI(
 
         // Subscription tier check
         if (securityOptions.requireSubscription && currentUser.profile) {
-          const userTier = currentUser.profile.subscription_tier || 'free';
-          if (!securityOptions.requireSubscription.includes(userTier)) {
+          if (!isPlanAllowed(currentUser.profile.subscription_tier, securityOptions.requireSubscription)) {
             return createSecureErrorResponse('Insufficient subscription tier', 403, request);
           }
         }
       }
 
-      // Create secure database service
-      const secureDb = createSecureDatabaseService(env);
-
-      // Get client IP for logging
+      // Get client IP for logging and rate limits
       const clientIP = request.headers.get('CF-Connecting-IP') || 
                       request.headers.get('X-Forwarded-For')?.split(',')[0].trim() || 
                       '0.0.0.0';
 
+      // Route limit, checked after authentication so it can count per user or tenant
+      let limitHeaders: Record<string, string> = {};
+      if (securityOptions.rateLimit) {
+        const { by, ...rule } = securityOptions.rateLimit;
+        const key = rateLimitKey({
+          route: `${request.method} ${endpointName}`,
+          ip: clientIP,
+          userId: currentUser?.id,
+          tenantId: currentUser?.profile?.tenant_id
+        }, by);
+        const decision = await consumeRateLimit(getRateLimitStore(env), key, rule);
+        limitHeaders = rateLimitHeaders(decision, rule);
+        if (!decision.allowed) {
+          return createSecureErrorResponse('Rate limit exceeded', 429, request, limitHeaders);
+        }
+      }
+
+      // Create secure database service
+      const secureDb = createSecureDatabaseService(env);
+
       // Create enhanced context
       const secureContext: SecureAPIContext = {
         ...context,
@@ -140,7 +166,7 @@ export function createSecureAPI(
 
       // Add security headers to response
       const securityHeaders = SecurityHeaders.getSecurityHeaders(request);
-      Object.entries(securityHeaders).forEach(([key, value]) => {
+      Object.entries({ ...securityHeaders, ...limitHeaders }).forEach(([key, value]) => {
         response.headers.set(key, value);
       });
 
@@ -170,7 +196,7 @@ export function createSecureAPI(
 }
 
 // Create secure error response with proper headers
-function createSecureErrorResponse(message: string, status: number, request: Request): Response {
+function createSecureErrorResponse(message: string, status: number, request: Request, additionalHeaders: Record<string, string> = {}): Response {
   const securityHeaders = SecurityHeaders.getSecurityHeaders(request);
   
   return new Response(JSON.stringify({ 
@@ -181,7 +207,8 @@ function createSecureErrorResponse(message: string, status: number, request: Req
     status,
     headers: {
       'Content-Type': 'application/json',
-      ...securityHeaders
+      ...securityHeaders,
+      ...additionalHeaders
     }
   });
 }
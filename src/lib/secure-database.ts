@@ -3,6 +3,7 @@
 
 import { getDatabase, type Env, type Profile, type UserProject, type Template } from './database';
 import { SQLSafeQuery, InputValidator, SecurityError } from './security';
+import { normalizeTier, type PlanId } from './entitlements';
 
 export class SecureDatabaseService {
   private db: ReturnType<typeof getDatabase>;
@@ -387,12 +388,8 @@ export class SecureDatabaseService {
   }
 
   // Private helper methods
-  private validateSubscriptionTier(tier: any): 'free' | 'starter' | 'maker' | 'pro' {
-    const validTiers = ['free', 'starter', 'maker', 'pro'];
-    if (!tier || !validTiers.includes(tier)) {
-      return 'free';
-    }
-    return tier as 'free' | 'starter' | 'maker' | 'pro';
+  private validateSubscriptionTier(tier: any): PlanId {
+    return normalizeTier(typeof tier === 'string' ? tier : null);
   }
 
   private validateProjectType(type: any): 'svg_generated' | 'upload_vectorized' | 'project_idea' {
@@ -2,6 +2,7 @@
 // Implements defense-in-depth security measures
 
 import type { Env } from './database';
+import { consumeRateLimit, getRateLimitStore, rateLimitHeaders } from './rate-limit';
 
 // Security constants
 const SECURITY_CONFIG = {
@@ -81,8 +82,8 @@ export class InputValidator {
     return num;
   }
   
-  static validateSVGContent(svgContent: string): string {
-    const sanitized = this.sanitizeString(svgContent, 100000); // 100KB limit
+  static validateSVGContent(svgContent: string, maxLength: number = 100000): string {
+    const sanitized = this.sanitizeString(svgContent, maxLength); // 100KB unless the caller stores it elsewhere
     
     // Basic SVG validation
     if (!sanitized.includes('<svg') || !sanitized.includes('</svg>')) {
@@ -138,60 +139,6 @@ export class InputValidator {
   }
 }
 
-// Rate limiting implementation
-export class RateLimiter {
-  private static instance: RateLimiter;
-  private limits: Map<string, { count: number; resetTime: number }> = new Map();
-  
-  static getInstance(): RateLimiter {
-    if (!this.instance) {
-      this.instance = new RateLimiter();
-    }
-    return this.instance;
-  }
-  
-  isAllowed(key: string, limit: number = SECURITY_CONFIG.RATE_LIMIT_REQUESTS, windowMs: number = SECURITY_CONFIG.RATE_LIMIT_WINDOW): boolean {
-    const now = Date.now();
-    const entry = this.limits.get(key);
-    
-    if (!entry || now > entry.resetTime) {
-      this.limits.set(key, { count: 1, resetTime: now + windowMs });
-      return true;
-    }
-    
-    if (entry.count >= limit) {
-      return false;
-    }
-    
-    entry.count++;
-    return true;
-  }
-  
-  getRemainingRequests(key: string, limit: number = SECURITY_CONFIG.RATE_LIMIT_REQUESTS): number {
-    const entry = this.limits.get(key);
-    if (!entry || Date.now() > entry.resetTime) {
-      return limit;
-    }
-    return Math.max(0, limit - entry.count);
-  }
-  
-  getResetTime(key: string): number | null {
-    const entry = this.limits.get(key);
-    if (!entry || Date.now() > entry.resetTime) {
-      return null;
-    }
-    return entry.resetTime;
-  }
-  
-  clear(key?: string): void {
-    if (key) {
-      this.limits.delete(key);
-    } else {
-      this.limits.clear();
-    }
-  }
-}
-
 // SQL Injection prevention
 export class SQLSafeQuery {
   static escapeString(value: string): string {
@@ -361,7 +308,7 @@ export class IPSecurity {
 
 // Comprehensive security middleware
 export function createSecurityMiddleware(env: Env) {
-  const rateLimiter = RateLimiter.getInstance();
+  const rateLimitStore = getRateLimitStore(env);
   
   return async function securityMiddleware(
     request: Request,
@@ -380,25 +327,22 @@ export function createSecurityMiddleware(env: Env) {
         });
       }
       
-      // Rate limiting
-      const rateLimit = isStrictEndpoint 
-        ? SECURITY_CONFIG.STRICT_RATE_LIMIT 
-        : SECURITY_CONFIG.RATE_LIMIT_REQUESTS;
-      const rateLimitKey = `${clientIP}:${endpoint}`;
-      
-      if (!rateLimiter.isAllowed(rateLimitKey, rateLimit)) {
-        const resetTime = rateLimiter.getResetTime(rateLimitKey);
+      // Rate limiting per IP and endpoint, counted across all isolates
+      const rule = {
+        requests: isStrictEndpoint ? SECURITY_CONFIG.STRICT_RATE_LIMIT : SECURITY_CONFIG.RATE_LIMIT_REQUESTS,
+        windowMs: SECURITY_CONFIG.RATE_LIMIT_WINDOW
+      };
+      const decision = await consumeRateLimit(rateLimitStore, `ip=${clientIP}|endpoint=${endpoint}`, rule);
+
+      if (!decision.allowed) {
         return new Response(JSON.stringify({ 
           error: 'Rate limit exceeded',
-          resetTime: resetTime ? new Date(resetTime).toISOString() : null
+          retryAfter: Math.ceil(decision.retryAfterMs / 1000)
         }), {
           status: 429,
           headers: {
             'Content-Type': 'application/json',
-            'X-RateLimit-Limit': rateLimit.toString(),
-            'X-RateLimit-Remaining': '0',
-            'X-RateLimit-Reset': resetTime ? Math.ceil(resetTime / 1000).toString() : '',
-            'Retry-After': '900' // 15 minutes
+            ...rateLimitHeaders(decision, rule)
           }
         });
       }
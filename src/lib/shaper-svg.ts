@@ -0,0 +1,304 @@
+// Shaper Origin SVG converter
+// Rule-based recolouring into Shaper's cut types by nesting depth, with cut depths and tool-fit checks
+
+import { offsetPolygon } from './polygon-offset';
+import { groupShapesByLayer, inferOperationLayers, type OperationLayer, type OperationLayerModel } from './operation-layers';
+import {
+  buildContourTree,
+  distance,
+  parseSVG,
+  pointInPolygon,
+  pointsToPathData,
+  signedArea,
+  type Point,
+  type SVGShape
+} from './svg-geometry';
+
+export type ShaperCutType = 'outside' | 'inside' | 'online' | 'pocket' | 'guide';
+
+export interface ShaperConversionOptions {
+  thickness: number; // mm - depth for through cuts
+  toolDiameter?: number; // mm
+  material?: string;
+  layers?: OperationLayerModel; // inferred from the SVG when not given
+  cutTypes?: Partial<Record<ShaperCutType, boolean>>; // false leaves that cut type out
+}
+
+export interface ShaperToolIssue {
+  type: 'narrow-slot' | 'small-hole' | 'inside-corner';
+  message: string;
+  location: Point; // mm, SVG coordinates
+  width?: number; // mm - the gap the tool has to fit through
+}
+
+export interface ShaperConversionResult {
+  svg: string;
+  counts: Record<ShaperCutType, number>;
+  issues: ShaperToolIssue[];
+  toolDiameter: number;
+}
+
+// Shaper's colour conventions: fill tells inside from outside, grey marks on-line and pocket, blue is guide
+export const SHAPER_CUT_STYLES: Record<ShaperCutType, { name: string; stroke: string; fill: string; description: string }> = {
+  outside: { name: 'Outside', stroke: '#000000', fill: '#000000', description: 'Black fill - the tool cuts outside the line' },
+  inside: { name: 'Inside', stroke: '#000000', fill: '#FFFFFF', description: 'White fill inside black - the tool cuts inside the line' },
+  online: { name: 'On-line', stroke: '#7F7F7F', fill: 'none', description: 'Grey stroke - the tool follows the line' },
+  pocket: { name: 'Pocket', stroke: 'none', fill: '#7F7F7F', description: 'Grey fill - material inside is cleared to depth' },
+  guide: { name: 'Guide', stroke: '#0068FF', fill: 'none', description: 'Blue - reference only, never cut' }
+};
+
+export const DEFAULT_SHAPER_TOOL_DIAMETER = 3.175; // mm (1/8")
+
+const SHAPER_NAMESPACE = 'http://www.shapertools.com/namespaces/shaper';
+const ONLINE_DEPTH = 0.5; // mm - for score and engrave layers that have no depth of their own
+const GUIDE_LAYER = /guide|construction|reference/i;
+const CORNER_ANGLE = Math.PI / 6; // direction change that counts as a corner rather than a flattened curve
+const SAMPLES_PER_TOOL = 4; // contour samples per tool diameter for the slot check
+const MAX_SAMPLES = 1500;
+const SLOT_DETOUR_RATIO = 2; // along-contour distance over straight distance before two walls count as a slot
+const MAX_ISSUES = 100;
+
+interface ShaperShape {
+  shape: SVGShape;
+  cutType: ShaperCutType;
+  depth: number | null; // mm; null for guides
+  nesting: number; // paint order: contours inside others are drawn over them
+}
+
+/**
+ * Convert SVG for the Shaper Origin. Closed cuts become outside or inside
+ * cuts by how deeply they are nested, open cuts and score or engrave layers
+ * become on-line cuts, pocket layers become pockets and shapes on no layer
+ * become guides. Every cut carries shaper:cutDepth.
+ */
+export function convertToShaperSVG(svg: string, options: ShaperConversionOptions): ShaperConversionResult {
+  if (!(options.thickness > 0)) {
+    throw new Error('Material thickness must be greater than zero');
+  }
+
+  const toolDiameter = options.toolDiameter ?? DEFAULT_SHAPER_TOOL_DIAMETER;
+  const geometry = parseSVG(svg);
+  const shapes = geometry.shapes.filter(shape => shape.points.length >= 2);
+  const model = options.layers || inferOperationLayers(shapes, options.material || 'plywood-3mm');
+  const { groups, unassigned } = groupShapesByLayer(shapes, model);
+
+  const nesting = new Map(buildContourTree(shapes).map(node => [node.shape, node.depth]));
+  const converted: ShaperShape[] = [];
+  const add = (shape: SVGShape, cutType: ShaperCutType, depth: number | null) => {
+    if (options.cutTypes?.[cutType] === false) return;
+    converted.push({ shape, cutType, depth, nesting: nesting.get(shape) || 0 });
+  };
+
+  for (const { layer, shapes: layerShapes } of groups) {
+    if (layer.operation !== 'cut') {
+      layerShapes.forEach(shape => add(shape, ...classifyNonCut(shape, layer, options.thickness)));
+      continue;
+    }
+
+    // Inside or outside alternates with nesting among the cut contours only
+    const cutDepths = buildContourTree(layerShapes);
+    const depth = Math.min(layer.depth ?? options.thickness, options.thickness);
+    layerShapes.forEach((shape, index) => {
+      if (isGuide(shape)) add(shape, 'guide', null);
+      else if (!shape.closed) add(shape, 'online', depth);
+      else add(shape, cutDepths[index].depth % 2 === 1 ? 'inside' : 'outside', depth);
+    });
+  }
+  unassigned.forEach(shape => add(shape, 'guide', null));
+
+  // Filled shapes are painted outermost first; unfilled on-line and guide paths go on top
+  const filled = (cutType: ShaperCutType) => cutType === 'outside' || cutType === 'inside' || cutType === 'pocket';
+  converted.sort((a, b) => Number(filled(b.cutType)) - Number(filled(a.cutType)) || a.nesting - b.nesting);
+
+  const counts: Record<ShaperCutType, number> = { outside: 0, inside: 0, online: 0, pocket: 0, guide: 0 };
+  const elements = converted.map(({ shape, cutType, depth }) => {
+    counts[cutType]++;
+    const style = SHAPER_CUT_STYLES[cutType];
+    const d = pointsToPathData([{ points: shape.points, closed: shape.closed || cutType === 'pocket' }], 3);
+    return `  <path d="${d}" fill="${style.fill}" stroke="${style.stroke}" stroke-width="0.1" shaper:cutType="${cutType}"` +
+      (depth !== null ? ` shaper:cutDepth="${formatMillimetres(depth)}"` : '') +
+      (shape.id ? ` id="${escapeXml(shape.id)}"` : '') +
+      '/>';
+  });
+
+  const width = formatNumber(geometry.width);
+  const height = formatNumber(geometry.height);
+  const output = [
+    `<svg xmlns="http://www.w3.org/2000/svg" xmlns:shaper="${SHAPER_NAMESPACE}" width="${width}mm" height="${height}mm" viewBox="0 0 ${width} ${height}">`,
+    ...elements,
+    '</svg>'
+  ].join('\n');
+
+  return {
+    svg: output,
+    counts,
+    issues: checkToolFit(converted, toolDiameter),
+    toolDiameter
+  };
+}
+
+/**
+ * Places a tool of the given diameter cannot reach: holes and pockets
+ * smaller than the tool, slots narrower than it and sharp inside corners,
+ * which the tool rounds to its radius
+ */
+function checkToolFit(shapes: ShaperShape[], toolDiameter: number): ShaperToolIssue[] {
+  const issues: ShaperToolIssue[] = [];
+  const radius = toolDiameter / 2;
+
+  for (const { shape, cutType } of shapes) {
+    if (issues.length >= MAX_ISSUES) break;
+    if (!shape.closed || shape.points.length < 3) continue;
+    if (cutType !== 'outside' && cutType !== 'inside' && cutType !== 'pocket') continue;
+
+    // The tool runs inside holes and pockets, and outside parts
+    const toolInside = cutType !== 'outside';
+    const label = shape.id ? `"${shape.id}"` : `a ${shape.element}`;
+
+    if (toolInside && offsetPolygon(shape.points, -radius).length === 0) {
+      issues.push({
+        type: 'small-hole',
+        message: `${cutType === 'pocket' ? 'Pocket' : 'Hole'} ${label} is smaller than the ${formatNumber(toolDiameter)}mm tool`,
+        location: centroid(shape.points)
+      });
+      continue;
+    }
+
+    for (const slot of findNarrowSlots(shape.points, toolInside, toolDiameter)) {
+      issues.push({
+        type: 'narrow-slot',
+        message: `Gap of ${formatNumber(slot.width)}mm in ${label} is narrower than the ${formatNumber(toolDiameter)}mm tool`,
+        location: slot.location,
+        width: slot.width
+      });
+    }
+
+    const corners = findInsideCorners(shape.points, toolInside);
+    if (corners.length > 0) {
+      issues.push({
+        type: 'inside-corner',
+        message: `${corners.length} inside corner(s) of ${label} will be rounded to a ${formatNumber(radius)}mm radius`,
+        location: corners[0]
+      });
+    }
+  }
+
+  return issues.slice(0, MAX_ISSUES);
+}
+
+// Sharp corners on the tool's side of the contour, which it cannot reach into
+function findInsideCorners(points: Point[], toolInside: boolean): Point[] {
+  const orientation = Math.sign(signedArea(points));
+  const corners: Point[] = [];
+
+  for (let i = 0; i < points.length; i++) {
+    const a = points[(i - 1 + points.length) % points.length];
+    const b = points[i];
+    const c = points[(i + 1) % points.length];
+    const cross = (b.x - a.x) * (c.y - b.y) - (b.y - a.y) * (c.x - b.x);
+    const dot = (b.x - a.x) * (c.x - b.x) + (b.y - a.y) * (c.y - b.y);
+    if (Math.abs(Math.atan2(cross, dot)) < CORNER_ANGLE) continue;
+
+    // Convex corners face a tool running inside; reflex corners face one running outside
+    const convex = Math.sign(cross) === orientation;
+    if (convex === toolInside) corners.push(b);
+  }
+
+  return corners;
+}
+
+/**
+ * Pairs of walls closer than the tool with the gap between them on the
+ * tool's side. Points that are near each other only because they are near
+ * along the contour, such as either side of a corner, are not slots.
+ */
+function findNarrowSlots(points: Point[], toolInside: boolean, toolDiameter: number): { width: number; location: Point }[] {
+  const samples = sampleContour(points, toolDiameter / SAMPLES_PER_TOOL);
+  const perimeter = samples.length > 0 ? samples[samples.length - 1].along : 0;
+  const step = Math.max(toolDiameter / SAMPLES_PER_TOOL, perimeter / MAX_SAMPLES);
+  const slots: { width: number; location: Point; a: [number, number]; b: [number, number] }[] = [];
+  const near = (along: number, range: [number, number]) => along >= range[0] - 2 * step && along <= range[1] + 2 * step;
+
+  for (let i = 0; i < samples.length; i++) {
+    for (let j = i + 1; j < samples.length; j++) {
+      const gap = distance(samples[i].point, samples[j].point);
+      if (gap >= toolDiameter - 1e-6 || gap < 1e-6) continue;
+
+      const along = samples[j].along - samples[i].along;
+      if (Math.min(along, perimeter - along) < gap * SLOT_DETOUR_RATIO + toolDiameter) continue;
+
+      const location = {
+        x: (samples[i].point.x + samples[j].point.x) / 2,
+        y: (samples[i].point.y + samples[j].point.y) / 2
+      };
+      if (pointInPolygon(location, points) !== toolInside) continue;
+
+      // Pairs further along the same two walls belong to the slot already found
+      const a = samples[i].along;
+      const b = samples[j].along;
+      const existing = slots.find(slot => near(a, slot.a) && near(b, slot.b));
+      if (!existing) {
+        slots.push({ width: gap, location, a: [a, a], b: [b, b] });
+        continue;
+      }
+      existing.a = [Math.min(existing.a[0], a), Math.max(existing.a[1], a)];
+      existing.b = [Math.min(existing.b[0], b), Math.max(existing.b[1], b)];
+      if (gap < existing.width) Object.assign(existing, { width: gap, location });
+    }
+  }
+
+  return slots.map(({ width, location }) => ({ width, location }));
+}
+
+// Every vertex plus evenly spaced points around a closed contour, with their distance along it
+function sampleContour(points: Point[], spacing: number): { point: Point; along: number }[] {
+  const perimeter = points.reduce((sum, p, i) => sum + distance(p, points[(i + 1) % points.length]), 0);
+  const step = Math.max(spacing, perimeter / MAX_SAMPLES);
+  const samples: { point: Point; along: number }[] = [];
+  let along = 0;
+  let next = 0;
+
+  for (let i = 0; i < points.length; i++) {
+    const a = points[i];
+    const b = points[(i + 1) % points.length];
+    const length = distance(a, b);
+    if (next > along) samples.push({ point: a, along });
+    while (next <= along + length && length > 0) {
+      const t = (next - along) / length;
+      samples.push({ point: { x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t }, along: next });
+      next += step;
+    }
+    along += length;
+  }
+
+  return samples;
+}
+
+function classifyNonCut(shape: SVGShape, layer: OperationLayer, thickness: number): [ShaperCutType, number | null] {
+  if (isGuide(shape)) return ['guide', null];
+  if (layer.operation === 'pocket' && shape.closed) {
+    return ['pocket', Math.min(layer.depth ?? thickness / 2, thickness)];
+  }
+  return ['online', Math.min(layer.depth || ONLINE_DEPTH, thickness)];
+}
+
+function isGuide(shape: SVGShape): boolean {
+  return !!shape.layer && GUIDE_LAYER.test(shape.layer);
+}
+
+function centroid(points: Point[]): Point {
+  const sum = points.reduce((acc, p) => ({ x: acc.x + p.x, y: acc.y + p.y }), { x: 0, y: 0 });
+  return { x: sum.x / points.length, y: sum.y / points.length };
+}
+
+function formatNumber(value: number): string {
+  return String(Math.round(value * 1000) / 1000);
+}
+
+function formatMillimetres(value: number): string {
+  return `${formatNumber(value)}mm`;
+}
+
+function escapeXml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
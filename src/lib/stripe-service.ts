@@ -3,6 +3,7 @@
 
 import Stripe from 'stripe';
 import { getDatabase, type Env, type Profile } from './database';
+import { PLANS, type PlanId } from './entitlements';
 
 export interface StripeCustomer extends Stripe.Customer {}
 export interface StripeSubscription extends Stripe.Subscription {}
@@ -25,7 +26,7 @@ export interface BillingSubscription {
   stripe_subscription_id: string;
   stripe_customer_id: string;
   status: 'active' | 'canceled' | 'incomplete' | 'incomplete_expired' | 'past_due' | 'trialing' | 'unpaid';
-  tier: 'free' | 'maker' | 'pro';
+  tier: PlanId;
   current_period_start: number;
   current_period_end: number;
   cancel_at_period_end: boolean;
@@ -60,45 +61,13 @@ export interface UsageRecord {
 
 // Stripe pricing configuration
 export const STRIPE_PRICES = {
-  STARTER_MONTHLY: process.env.STRIPE_PRICE_STARTER_MONTHLY || 'price_starter_monthly',
-  STARTER_YEARLY: process.env.STRIPE_PRICE_STARTER_YEARLY || 'price_starter_yearly',
-  PROFESSIONAL_MONTHLY: process.env.STRIPE_PRICE_PROFESSIONAL_MONTHLY || 'price_professional_monthly',
-  PROFESSIONAL_YEARLY: process.env.STRIPE_PRICE_PROFESSIONAL_YEARLY || 'price_professional_yearly',
+  STARTER_MONTHLY: process.env.STRIPE_PRICE_STARTER_MONTHLY || PLANS.starter.stripePriceIds.monthly!,
+  STARTER_YEARLY: process.env.STRIPE_PRICE_STARTER_YEARLY || PLANS.starter.stripePriceIds.yearly!,
+  PROFESSIONAL_MONTHLY: process.env.STRIPE_PRICE_PROFESSIONAL_MONTHLY || PLANS.professional.stripePriceIds.monthly!,
+  PROFESSIONAL_YEARLY: process.env.STRIPE_PRICE_PROFESSIONAL_YEARLY || PLANS.professional.stripePriceIds.yearly!,
   AI_USAGE: process.env.STRIPE_PRICE_AI_USAGE || 'price_ai_usage_metered',
 } as const;
 
-export const SUBSCRIPTION_TIERS = {
-  free: {
-    name: 'Free',
-    limits: {
-      ai_calls_per_day: 5,
-      projects: 3,
-      templates: 'basic',
-      export_formats: ['svg']
-    }
-  },
-  starter: {
-    name: 'Starter',
-    price_monthly: 4900, // $49.00 in cents
-    limits: {
-      ai_calls_per_day: 100,
-      projects: 50,
-      templates: 'premium',
-      export_formats: ['svg', 'dxf', 'gcode']
-    }
-  },
-  professional: {
-    name: 'Professional',
-    price_monthly: 9900, // $99.00 in cents
-    limits: {
-      ai_calls_per_day: -1, // unlimited
-      projects: -1, // unlimited
-      templates: 'all',
-      export_formats: ['svg', 'dxf', 'gcode', 'ai', 'eps']
-    }
-  }
-} as const;
-
 export class StripeService {
   private stripe: Stripe;
   private env?: Env;
@@ -314,7 +283,7 @@ export class StripeService {
   }
 
   // Utility Methods
-  getTierFromPriceId(priceId: string): 'free' | 'starter' | 'professional' {
+  getTierFromPriceId(priceId: string): PlanId {
     if (priceId === STRIPE_PRICES.STARTER_MONTHLY || priceId === STRIPE_PRICES.STARTER_YEARLY) {
       return 'starter';
     }
@@ -387,7 +356,7 @@ export class MockStripeService {
     } as StripeSubscription;
   }
 
-  getTierFromPriceId(priceId: string): 'free' | 'maker' | 'pro' {
+  getTierFromPriceId(priceId: string): PlanId {
     return 'free';
   }
 
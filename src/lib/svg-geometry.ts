@@ -0,0 +1,1201 @@
+// SVG geometry parser for manufacturing analysis
+// Flattens SVG shapes (paths, rects, circles, polygons...) into polylines in millimetres
+
+import { XMLParser, XMLBuilder } from 'fast-xml-parser';
+import type { BoundingBox } from './manufacturing-constraints';
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+// 2D affine transform [a, b, c, d, e, f] as used by SVG matrix()
+export type Matrix = [number, number, number, number, number, number];
+
+export interface SVGShape {
+  id?: string;
+  element: string; // source element name (path, rect, circle, ...)
+  points: Point[];
+  closed: boolean;
+  stroke?: string;
+  fill?: string;
+  strokeWidth?: number;
+  layer?: string; // id or label of the nearest enclosing group
+  attributes: Record<string, string>; // raw attributes of the source element
+  matrix: Matrix; // element user space to document millimetres
+  node: SVGNode; // parsed source element, for rewriting the document
+}
+
+// Element node in fast-xml-parser's preserveOrder tree: { tag: children[], ':@': attributes }
+export type SVGNode = Record<string, any>;
+
+export interface SVGDocument {
+  tree: SVGNode[];
+  geometry: SVGGeometry;
+}
+
+export interface SVGGeometry {
+  width: number; // mm
+  height: number; // mm
+  unitScale: number; // mm per SVG user unit
+  matrix: Matrix; // root user space to millimetres
+  shapes: SVGShape[];
+}
+
+export interface SVGParseOptions {
+  tolerance?: number; // mm - maximum chord deviation when flattening curves
+}
+
+export interface ContourNode {
+  index: number; // index into the shapes array
+  shape: SVGShape;
+  depth: number; // 0 = outer outline, 1 = hole, 2 = island inside a hole...
+  parent: number | null;
+  children: number[];
+  area: number; // signed area, positive = clockwise on screen
+}
+
+const XML_OPTIONS = {
+  ignoreAttributes: false,
+  attributeNamePrefix: '',
+  preserveOrder: true,
+  parseAttributeValue: false,
+  parseTagValue: false,
+  commentPropName: '#comment'
+};
+
+// Attributes that define element geometry and are dropped when an element becomes a <path>
+const GEOMETRY_ATTRIBUTES = ['x', 'y', 'width', 'height', 'cx', 'cy', 'r', 'rx', 'ry', 'x1', 'y1', 'x2', 'y2', 'points', 'd'];
+
+const IDENTITY: Matrix = [1, 0, 0, 1, 0, 0];
+const DEFAULT_TOLERANCE = 0.05; // mm
+const EPSILON = 1e-9;
+const CLOSE_TOLERANCE = 1e-4; // user units
+
+// Elements whose content is never rendered as cut geometry
+const NON_RENDERED_ELEMENTS = new Set([
+  'defs', 'clipPath', 'mask', 'symbol', 'marker', 'pattern', 'metadata',
+  'title', 'desc', 'style', 'script', 'text', 'linearGradient', 'radialGradient'
+]);
+
+// Physical unit conversions to millimetres (CSS reference pixel = 1/96 in)
+const UNIT_TO_MM: Record<string, number> = {
+  mm: 1,
+  cm: 10,
+  in: 25.4,
+  pt: 25.4 / 72,
+  pc: 25.4 / 6,
+  px: 25.4 / 96
+};
+
+/**
+ * Parse an SVG document into flattened polylines.
+ * Coordinates are returned in millimetres. Documents without physical units
+ * on the root element are treated as 1 user unit = 1mm, which is the
+ * convention used by every generator in this project.
+ */
+export function parseSVG(svg: string, options: SVGParseOptions = {}): SVGGeometry {
+  return parseSVGDocument(svg, options).geometry;
+}
+
+/**
+ * Parse an SVG document, keeping the XML tree so callers can rewrite
+ * elements in place and serialize it again with serializeSVGDocument
+ */
+export function parseSVGDocument(svg: string, options: SVGParseOptions = {}): SVGDocument {
+  const tree = new XMLParser(XML_OPTIONS).parse(svg) as SVGNode[];
+  const root = findElement(tree, 'svg');
+  if (!root) {
+    throw new Error('Invalid SVG: missing <svg> root element');
+  }
+
+  const rootAttributes = getAttributes(root);
+  const viewBox = parseNumberList(rootAttributes.viewBox || '');
+  const declaredWidth = parseLength(rootAttributes.width);
+  const declaredHeight = parseLength(rootAttributes.height);
+
+  let unitScale = 1;
+  let rootMatrix: Matrix = IDENTITY;
+
+  if (viewBox.length === 4 && viewBox[2] > 0 && viewBox[3] > 0) {
+    // Physical width + viewBox defines the user unit size
+    if (declaredWidth && declaredWidth.unit) {
+      unitScale = (declaredWidth.value * UNIT_TO_MM[declaredWidth.unit]) / viewBox[2];
+    }
+    rootMatrix = multiplyMatrix(scaleMatrix(unitScale, unitScale), translateMatrix(-viewBox[0], -viewBox[1]));
+  } else if (declaredWidth?.unit) {
+    unitScale = UNIT_TO_MM[declaredWidth.unit];
+    rootMatrix = scaleMatrix(unitScale, unitScale);
+  }
+
+  const width = viewBox.length === 4
+    ? viewBox[2] * unitScale
+    : (declaredWidth ? declaredWidth.value * (declaredWidth.unit ? UNIT_TO_MM[declaredWidth.unit] : 1) : 0);
+  const height = viewBox.length === 4
+    ? viewBox[3] * unitScale
+    : (declaredHeight ? declaredHeight.value * (declaredHeight.unit ? UNIT_TO_MM[declaredHeight.unit] : 1) : 0);
+
+  const tolerance = options.tolerance ?? DEFAULT_TOLERANCE;
+  const shapes: SVGShape[] = [];
+
+  walkChildren(getChildren(root, 'svg'), rootMatrix, {}, undefined, tolerance, shapes);
+
+  return { tree, geometry: { width, height, unitScale, matrix: rootMatrix, shapes } };
+}
+
+export function serializeSVGDocument(tree: SVGNode[]): string {
+  return new XMLBuilder({ ...XML_OPTIONS, suppressEmptyNode: true, format: false }).build(tree);
+}
+
+/**
+ * Turn a shape element into a <path> with the given data, keeping its
+ * presentation attributes, id and transform
+ */
+export function setElementPath(node: SVGNode, d: string): void {
+  const tag = getTagName(node);
+  const attributes = { ...getAttributes(node) };
+  GEOMETRY_ATTRIBUTES.forEach(name => delete attributes[name]);
+
+  if (tag) delete node[tag];
+  node.path = [];
+  node[':@'] = { ...attributes, d };
+}
+
+/**
+ * Set presentation attributes on an element; undefined removes the attribute
+ */
+export function setElementAttributes(node: SVGNode, updates: Record<string, string | undefined>): void {
+  const attributes = { ...getAttributes(node) };
+  for (const [name, value] of Object.entries(updates)) {
+    if (value === undefined) delete attributes[name];
+    else attributes[name] = value;
+  }
+  node[':@'] = attributes;
+}
+
+/**
+ * Serialize polylines as path data
+ */
+export function pointsToPathData(subpaths: Subpath[], precision: number = 3): string {
+  const format = (value: number) => String(Number(value.toFixed(precision)));
+
+  return subpaths
+    .filter(subpath => subpath.points.length > 1)
+    .map(subpath => {
+      const [first, ...rest] = subpath.points;
+      const commands = [`M${format(first.x)},${format(first.y)}`, ...rest.map(p => `L${format(p.x)},${format(p.y)}`)];
+      if (subpath.closed) commands.push('Z');
+      return commands.join(' ');
+    })
+    .join(' ');
+}
+
+// ----------------------------------------------------------------------------
+// Tree traversal
+// ----------------------------------------------------------------------------
+
+interface InheritedStyle {
+  stroke?: string;
+  fill?: string;
+  strokeWidth?: number;
+  display?: string;
+}
+
+function walkChildren(
+  nodes: any[],
+  matrix: Matrix,
+  style: InheritedStyle,
+  layer: string | undefined,
+  tolerance: number,
+  shapes: SVGShape[]
+): void {
+  for (const node of nodes) {
+    const tag = getTagName(node);
+    if (!tag || tag.startsWith('#') || tag.startsWith('?')) continue;
+
+    const name = stripNamespace(tag);
+    if (NON_RENDERED_ELEMENTS.has(name)) continue;
+
+    const attributes = getAttributes(node);
+    const nodeStyle = resolveStyle(attributes, style);
+    if (nodeStyle.display === 'none') continue;
+
+    const nodeMatrix = attributes.transform
+      ? multiplyMatrix(matrix, parseTransform(attributes.transform))
+      : matrix;
+
+    if (name === 'g' || name === 'svg' || name === 'a') {
+      const groupLayer = attributes['inkscape:label'] || attributes.id || layer;
+      walkChildren(getChildren(node, tag), nodeMatrix, nodeStyle, groupLayer, tolerance, shapes);
+      continue;
+    }
+
+    // Flatten in local coordinates with a tolerance scaled to the transform
+    const localTolerance = tolerance / Math.max(matrixScale(nodeMatrix), EPSILON);
+    const subpaths = elementToSubpaths(name, attributes, localTolerance);
+
+    for (const subpath of subpaths) {
+      if (subpath.points.length < 2) continue;
+
+      shapes.push({
+        id: attributes.id,
+        element: name,
+        points: subpath.points.map(p => applyMatrix(nodeMatrix, p)),
+        closed: subpath.closed,
+        stroke: nodeStyle.stroke,
+        fill: nodeStyle.fill,
+        strokeWidth: nodeStyle.strokeWidth !== undefined ? nodeStyle.strokeWidth * matrixScale(nodeMatrix) : undefined,
+        layer,
+        attributes,
+        matrix: nodeMatrix,
+        node
+      });
+    }
+  }
+}
+
+function resolveStyle(attributes: Record<string, string>, inherited: InheritedStyle): InheritedStyle {
+  const declarations: Record<string, string> = {
+    stroke: attributes.stroke,
+    fill: attributes.fill,
+    'stroke-width': attributes['stroke-width'],
+    display: attributes.display
+  };
+
+  // Inline style declarations take precedence over presentation attributes
+  if (attributes.style) {
+    for (const declaration of attributes.style.split(';')) {
+      const [property, value] = declaration.split(':').map(part => part?.trim());
+      if (property && value) {
+        declarations[property] = value;
+      }
+    }
+  }
+
+  const strokeWidth = parseLength(declarations['stroke-width']);
+
+  return {
+    stroke: declarations.stroke ?? inherited.stroke,
+    fill: declarations.fill ?? inherited.fill,
+    strokeWidth: strokeWidth ? strokeWidth.value : inherited.strokeWidth,
+    display: declarations.display ?? inherited.display
+  };
+}
+
+function findElement(nodes: any[], name: string): any | null {
+  for (const node of nodes) {
+    const tag = getTagName(node);
+    if (tag && stripNamespace(tag) === name) return node;
+  }
+  return null;
+}
+
+function getTagName(node: any): string | undefined {
+  return Object.keys(node).find(key => key !== ':@');
+}
+
+function getChildren(node: any, tag: string): any[] {
+  return Array.isArray(node[tag]) ? node[tag] : [];
+}
+
+function getAttributes(node: any): Record<string, string> {
+  return (node[':@'] as Record<string, string>) || {};
+}
+
+function stripNamespace(tag: string): string {
+  const separator = tag.indexOf(':');
+  return separator === -1 ? tag : tag.slice(separator + 1);
+}
+
+// ----------------------------------------------------------------------------
+// Element conversion
+// ----------------------------------------------------------------------------
+
+export interface Subpath {
+  points: Point[];
+  closed: boolean;
+}
+
+function elementToSubpaths(name: string, attributes: Record<string, string>, tolerance: number): Subpath[] {
+  const num = (key: string, fallback = 0) => {
+    const length = parseLength(attributes[key]);
+    return length ? length.value : fallback;
+  };
+
+  switch (name) {
+    case 'path':
+      return attributes.d ? flattenPathData(attributes.d, tolerance) : [];
+
+    case 'rect': {
+      const x = num('x');
+      const y = num('y');
+      const width = num('width');
+      const height = num('height');
+      if (width <= 0 || height <= 0) return [];
+
+      let rx = attributes.rx !== undefined ? num('rx') : undefined;
+      let ry = attributes.ry !== undefined ? num('ry') : undefined;
+      rx = Math.min(rx ?? ry ?? 0, width / 2);
+      ry = Math.min(ry ?? rx ?? 0, height / 2);
+
+      if (rx <= 0 || ry <= 0) {
+        return [{
+          points: [{ x, y }, { x: x + width, y }, { x: x + width, y: y + height }, { x, y: y + height }],
+          closed: true
+        }];
+      }
+
+      // Rounded rectangle expressed as path data so the corners are flattened like arcs
+      const d = `M${x + rx},${y} H${x + width - rx} A${rx},${ry} 0 0 1 ${x + width},${y + ry} ` +
+        `V${y + height - ry} A${rx},${ry} 0 0 1 ${x + width - rx},${y + height} ` +
+        `H${x + rx} A${rx},${ry} 0 0 1 ${x},${y + height - ry} V${y + ry} A${rx},${ry} 0 0 1 ${x + rx},${y} Z`;
+      return flattenPathData(d, tolerance);
+    }
+
+    case 'circle': {
+      const r = num('r');
+      if (r <= 0) return [];
+      return [{ points: ellipsePoints(num('cx'), num('cy'), r, r, tolerance), closed: true }];
+    }
+
+    case 'ellipse': {
+      const rx = num('rx');
+      const ry = num('ry');
+      if (rx <= 0 || ry <= 0) return [];
+      return [{ points: ellipsePoints(num('cx'), num('cy'), rx, ry, tolerance), closed: true }];
+    }
+
+    case 'line':
+      return [{ points: [{ x: num('x1'), y: num('y1') }, { x: num('x2'), y: num('y2') }], closed: false }];
+
+    case 'polyline':
+    case 'polygon': {
+      const values = parseNumberList(attributes.points || '');
+      const points: Point[] = [];
+      for (let i = 0; i + 1 < values.length; i += 2) {
+        points.push({ x: values[i], y: values[i + 1] });
+      }
+      return [{ points, closed: name === 'polygon' }];
+    }
+
+    default:
+      return [];
+  }
+}
+
+function ellipsePoints(cx: number, cy: number, rx: number, ry: number, tolerance: number): Point[] {
+  const segments = arcSegmentCount(Math.max(rx, ry), Math.PI * 2, tolerance);
+  const points: Point[] = [];
+  for (let i = 0; i < segments; i++) {
+    const angle = (i / segments) * Math.PI * 2;
+    points.push({ x: cx + rx * Math.cos(angle), y: cy + ry * Math.sin(angle) });
+  }
+  return points;
+}
+
+// Number of chords needed so the sagitta stays within tolerance
+function arcSegmentCount(radius: number, sweep: number, tolerance: number): number {
+  if (radius <= tolerance) return Math.max(4, Math.ceil(Math.abs(sweep) / (Math.PI / 4)));
+  const step = 2 * Math.acos(1 - tolerance / radius);
+  return Math.min(720, Math.max(4, Math.ceil(Math.abs(sweep) / step)));
+}
+
+// ----------------------------------------------------------------------------
+// Path data
+// ----------------------------------------------------------------------------
+
+class PathDataScanner {
+  private index = 0;
+
+  constructor(private readonly data: string) {}
+
+  private skipSeparators(): void {
+    while (this.index < this.data.length && /[\s,]/.test(this.data[this.index])) {
+      this.index++;
+    }
+  }
+
+  done(): boolean {
+    this.skipSeparators();
+    return this.index >= this.data.length;
+  }
+
+  peekCommand(): string | null {
+    this.skipSeparators();
+    const char = this.data[this.index];
+    return char && /[MmZzLlHhVvCcSsQqTtAa]/.test(char) ? char : null;
+  }
+
+  readCommand(): string {
+    const command = this.peekCommand();
+    if (!command) {
+      throw new Error(`Invalid path data near "${this.data.slice(this.index, this.index + 10)}"`);
+    }
+    this.index++;
+    return command;
+  }
+
+  readNumber(): number {
+    this.skipSeparators();
+    const match = /^[-+]?(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d+)?/.exec(this.data.slice(this.index));
+    if (!match) {
+      throw new Error(`Expected number in path data near "${this.data.slice(this.index, this.index + 10)}"`);
+    }
+    this.index += match[0].length;
+    return parseFloat(match[0]);
+  }
+
+  // Arc flags may be written without separators ("a1 1 0 00 1 1")
+  readFlag(): boolean {
+    this.skipSeparators();
+    const char = this.data[this.index];
+    if (char !== '0' && char !== '1') {
+      throw new Error('Invalid arc flag in path data');
+    }
+    this.index++;
+    return char === '1';
+  }
+
+  hasNumber(): boolean {
+    this.skipSeparators();
+    return this.index < this.data.length && /[-+.\d]/.test(this.data[this.index]);
+  }
+}
+
+/**
+ * Flatten SVG path data into polylines, one per subpath
+ */
+export function flattenPathData(d: string, tolerance: number = DEFAULT_TOLERANCE): Subpath[] {
+  const scanner = new PathDataScanner(d);
+  const subpaths: Subpath[] = [];
+
+  let current: Point = { x: 0, y: 0 };
+  let start: Point = { x: 0, y: 0 };
+  let points: Point[] = [];
+  let lastControl: Point | null = null;
+  let lastCommand = '';
+
+  const flush = (closed: boolean) => {
+    if (points.length > 1) {
+      // Many exporters return to the start point instead of emitting Z
+      const returnsToStart = distance(points[0], points[points.length - 1]) < CLOSE_TOLERANCE;
+      closed = closed || (points.length > 3 && returnsToStart);
+      if (closed && returnsToStart) {
+        points.pop();
+      }
+      subpaths.push({ points, closed });
+    }
+    points = [];
+  };
+
+  while (!scanner.done()) {
+    const command = scanner.readCommand();
+    const relative = command === command.toLowerCase();
+    const upper = command.toUpperCase();
+    const offset = (p: Point): Point => relative ? { x: p.x + current.x, y: p.y + current.y } : p;
+
+    if (upper === 'Z') {
+      flush(true);
+      // Drawing on without a moveto starts the next subpath at the closed one's start
+      points = [start];
+      current = start;
+      lastControl = null;
+      lastCommand = 'Z';
+      continue;
+    }
+
+    let first = true;
+    // Commands repeat implicitly while numbers follow
+    while (first || scanner.hasNumber()) {
+      switch (upper) {
+        case 'M': {
+          const target = offset({ x: scanner.readNumber(), y: scanner.readNumber() });
+          if (first) {
+            flush(false);
+            start = target;
+            points = [target];
+          } else {
+            points.push(target); // Implicit lineto after moveto
+          }
+          current = target;
+          lastControl = null;
+          break;
+        }
+        case 'L': {
+          current = offset({ x: scanner.readNumber(), y: scanner.readNumber() });
+          points.push(current);
+          lastControl = null;
+          break;
+        }
+        case 'H': {
+          const x = scanner.readNumber();
+          current = { x: relative ? current.x + x : x, y: current.y };
+          points.push(current);
+          lastControl = null;
+          break;
+        }
+        case 'V': {
+          const y = scanner.readNumber();
+          current = { x: current.x, y: relative ? current.y + y : y };
+          points.push(current);
+          lastControl = null;
+          break;
+        }
+        case 'C': {
+          const c1 = offset({ x: scanner.readNumber(), y: scanner.readNumber() });
+          const c2 = offset({ x: scanner.readNumber(), y: scanner.readNumber() });
+          const end = offset({ x: scanner.readNumber(), y: scanner.readNumber() });
+          points.push(...flattenCubic(current, c1, c2, end, tolerance));
+          current = end;
+          lastControl = c2;
+          break;
+        }
+        case 'S': {
+          const c1 = lastControl && /[CS]/i.test(lastCommand)
+            ? { x: 2 * current.x - lastControl.x, y: 2 * current.y - lastControl.y }
+            : current;
+          const c2 = offset({ x: scanner.readNumber(), y: scanner.readNumber() });
+          const end = offset({ x: scanner.readNumber(), y: scanner.readNumber() });
+          points.push(...flattenCubic(current, c1, c2, end, tolerance));
+          current = end;
+          lastControl = c2;
+          break;
+        }
+        case 'Q': {
+          const control = offset({ x: scanner.readNumber(), y: scanner.readNumber() });
+          const end = offset({ x: scanner.readNumber(), y: scanner.readNumber() });
+          points.push(...flattenQuadratic(current, control, end, tolerance));
+          current = end;
+          lastControl = control;
+          break;
+        }
+        case 'T': {
+          const control = lastControl && /[QT]/i.test(lastCommand)
+            ? { x: 2 * current.x - lastControl.x, y: 2 * current.y - lastControl.y }
+            : current;
+          const end = offset({ x: scanner.readNumber(), y: scanner.readNumber() });
+          points.push(...flattenQuadratic(current, control, end, tolerance));
+          current = end;
+          lastControl = control;
+          break;
+        }
+        case 'A': {
+          const rx = scanner.readNumber();
+          const ry = scanner.readNumber();
+          const rotation = scanner.readNumber();
+          const largeArc = scanner.readFlag();
+          const sweep = scanner.readFlag();
+          const end = offset({ x: scanner.readNumber(), y: scanner.readNumber() });
+          points.push(...flattenArc(current, rx, ry, rotation, largeArc, sweep, end, tolerance));
+          current = end;
+          lastControl = null;
+          break;
+        }
+      }
+
+      lastCommand = command;
+      first = false;
+    }
+  }
+
+  flush(false);
+  return subpaths;
+}
+
+function flattenCubic(p0: Point, p1: Point, p2: Point, p3: Point, tolerance: number): Point[] {
+  const controlLength = distance(p0, p1) + distance(p1, p2) + distance(p2, p3);
+  const segments = Math.min(200, Math.max(2, Math.ceil(Math.sqrt(controlLength / tolerance))));
+  const points: Point[] = [];
+
+  for (let i = 1; i <= segments; i++) {
+    const t = i / segments;
+    const mt = 1 - t;
+    points.push({
+      x: mt * mt * mt * p0.x + 3 * mt * mt * t * p1.x + 3 * mt * t * t * p2.x + t * t * t * p3.x,
+      y: mt * mt * mt * p0.y + 3 * mt * mt * t * p1.y + 3 * mt * t * t * p2.y + t * t * t * p3.y
+    });
+  }
+
+  return points;
+}
+
+function flattenQuadratic(p0: Point, p1: Point, p2: Point, tolerance: number): Point[] {
+  const controlLength = distance(p0, p1) + distance(p1, p2);
+  const segments = Math.min(200, Math.max(2, Math.ceil(Math.sqrt(controlLength / tolerance))));
+  const points: Point[] = [];
+
+  for (let i = 1; i <= segments; i++) {
+    const t = i / segments;
+    const mt = 1 - t;
+    points.push({
+      x: mt * mt * p0.x + 2 * mt * t * p1.x + t * t * p2.x,
+      y: mt * mt * p0.y + 2 * mt * t * p1.y + t * t * p2.y
+    });
+  }
+
+  return points;
+}
+
+export interface ArcCenterParameters {
+  center: Point;
+  rx: number;
+  ry: number;
+  rotation: number; // radians
+  startAngle: number; // radians
+  sweepAngle: number; // radians, positive = clockwise in SVG coordinates
+}
+
+/**
+ * Convert an SVG endpoint arc to center parameterization (SVG spec F.6.5)
+ */
+export function arcToCenter(
+  from: Point,
+  rx: number,
+  ry: number,
+  rotationDegrees: number,
+  largeArc: boolean,
+  sweep: boolean,
+  to: Point
+): ArcCenterParameters | null {
+  rx = Math.abs(rx);
+  ry = Math.abs(ry);
+  if (rx < EPSILON || ry < EPSILON || distance(from, to) < EPSILON) {
+    return null;
+  }
+
+  const phi = (rotationDegrees * Math.PI) / 180;
+  const cosPhi = Math.cos(phi);
+  const sinPhi = Math.sin(phi);
+
+  const dx = (from.x - to.x) / 2;
+  const dy = (from.y - to.y) / 2;
+  const x1 = cosPhi * dx + sinPhi * dy;
+  const y1 = -sinPhi * dx + cosPhi * dy;
+
+  // Scale radii up if they cannot span the endpoints
+  const lambda = (x1 * x1) / (rx * rx) + (y1 * y1) / (ry * ry);
+  if (lambda > 1) {
+    rx *= Math.sqrt(lambda);
+    ry *= Math.sqrt(lambda);
+  }
+
+  const numerator = rx * rx * ry * ry - rx * rx * y1 * y1 - ry * ry * x1 * x1;
+  const denominator = rx * rx * y1 * y1 + ry * ry * x1 * x1;
+  let coefficient = Math.sqrt(Math.max(0, numerator / denominator));
+  if (largeArc === sweep) coefficient = -coefficient;
+
+  const cx1 = coefficient * ((rx * y1) / ry);
+  const cy1 = coefficient * (-(ry * x1) / rx);
+
+  const center = {
+    x: cosPhi * cx1 - sinPhi * cy1 + (from.x + to.x) / 2,
+    y: sinPhi * cx1 + cosPhi * cy1 + (from.y + to.y) / 2
+  };
+
+  const startAngle = vectorAngle(1, 0, (x1 - cx1) / rx, (y1 - cy1) / ry);
+  let sweepAngle = vectorAngle((x1 - cx1) / rx, (y1 - cy1) / ry, (-x1 - cx1) / rx, (-y1 - cy1) / ry);
+
+  if (!sweep && sweepAngle > 0) sweepAngle -= Math.PI * 2;
+  if (sweep && sweepAngle < 0) sweepAngle += Math.PI * 2;
+
+  return { center, rx, ry, rotation: phi, startAngle, sweepAngle };
+}
+
+function vectorAngle(ux: number, uy: number, vx: number, vy: number): number {
+  const sign = ux * vy - uy * vx < 0 ? -1 : 1;
+  const dot = (ux * vx + uy * vy) / (Math.hypot(ux, uy) * Math.hypot(vx, vy));
+  return sign * Math.acos(Math.max(-1, Math.min(1, dot)));
+}
+
+function flattenArc(
+  from: Point,
+  rx: number,
+  ry: number,
+  rotation: number,
+  largeArc: boolean,
+  sweep: boolean,
+  to: Point,
+  tolerance: number
+): Point[] {
+  const arc = arcToCenter(from, rx, ry, rotation, largeArc, sweep, to);
+  if (!arc) {
+    return [to]; // Degenerate arcs are straight lines per the SVG spec
+  }
+
+  const segments = arcSegmentCount(Math.max(arc.rx, arc.ry), arc.sweepAngle, tolerance);
+  const cosPhi = Math.cos(arc.rotation);
+  const sinPhi = Math.sin(arc.rotation);
+  const points: Point[] = [];
+
+  for (let i = 1; i < segments; i++) {
+    const angle = arc.startAngle + (arc.sweepAngle * i) / segments;
+    const x = arc.rx * Math.cos(angle);
+    const y = arc.ry * Math.sin(angle);
+    points.push({
+      x: arc.center.x + cosPhi * x - sinPhi * y,
+      y: arc.center.y + sinPhi * x + cosPhi * y
+    });
+  }
+
+  points.push(to); // Land exactly on the endpoint
+  return points;
+}
+
+// ----------------------------------------------------------------------------
+// Transforms
+// ----------------------------------------------------------------------------
+
+export function parseTransform(transform: string): Matrix {
+  let result: Matrix = IDENTITY;
+  const pattern = /(matrix|translate|scale|rotate|skewX|skewY)\s*\(([^)]*)\)/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(transform)) !== null) {
+    const values = parseNumberList(match[2]);
+    let next: Matrix = IDENTITY;
+
+    switch (match[1]) {
+      case 'matrix':
+        if (values.length === 6) next = values as Matrix;
+        break;
+      case 'translate':
+        next = translateMatrix(values[0] || 0, values[1] || 0);
+        break;
+      case 'scale':
+        next = scaleMatrix(values[0] ?? 1, values[1] ?? values[0] ?? 1);
+        break;
+      case 'rotate': {
+        const angle = ((values[0] || 0) * Math.PI) / 180;
+        const rotation: Matrix = [Math.cos(angle), Math.sin(angle), -Math.sin(angle), Math.cos(angle), 0, 0];
+        next = values.length === 3
+          ? multiplyMatrix(multiplyMatrix(translateMatrix(values[1], values[2]), rotation), translateMatrix(-values[1], -values[2]))
+          : rotation;
+        break;
+      }
+      case 'skewX':
+        next = [1, 0, Math.tan(((values[0] || 0) * Math.PI) / 180), 1, 0, 0];
+        break;
+      case 'skewY':
+        next = [1, Math.tan(((values[0] || 0) * Math.PI) / 180), 0, 1, 0, 0];
+        break;
+    }
+
+    result = multiplyMatrix(result, next);
+  }
+
+  return result;
+}
+
+export function multiplyMatrix(m1: Matrix, m2: Matrix): Matrix {
+  return [
+    m1[0] * m2[0] + m1[2] * m2[1],
+    m1[1] * m2[0] + m1[3] * m2[1],
+    m1[0] * m2[2] + m1[2] * m2[3],
+    m1[1] * m2[2] + m1[3] * m2[3],
+    m1[0] * m2[4] + m1[2] * m2[5] + m1[4],
+    m1[1] * m2[4] + m1[3] * m2[5] + m1[5]
+  ];
+}
+
+export function applyMatrix(m: Matrix, p: Point): Point {
+  return {
+    x: m[0] * p.x + m[2] * p.y + m[4],
+    y: m[1] * p.x + m[3] * p.y + m[5]
+  };
+}
+
+export function invertMatrix(m: Matrix): Matrix {
+  const determinant = m[0] * m[3] - m[1] * m[2];
+  if (Math.abs(determinant) < EPSILON) {
+    throw new Error('Transform is not invertible');
+  }
+
+  return [
+    m[3] / determinant,
+    -m[1] / determinant,
+    -m[2] / determinant,
+    m[0] / determinant,
+    (m[2] * m[5] - m[3] * m[4]) / determinant,
+    (m[1] * m[4] - m[0] * m[5]) / determinant
+  ];
+}
+
+function translateMatrix(tx: number, ty: number): Matrix {
+  return [1, 0, 0, 1, tx, ty];
+}
+
+function scaleMatrix(sx: number, sy: number): Matrix {
+  return [sx, 0, 0, sy, 0, 0];
+}
+
+// Average linear scale factor of a transform
+function matrixScale(m: Matrix): number {
+  return Math.sqrt(Math.abs(m[0] * m[3] - m[1] * m[2]));
+}
+
+// ----------------------------------------------------------------------------
+// Value parsing
+// ----------------------------------------------------------------------------
+
+function parseNumberList(value: string): number[] {
+  const matches = value.match(/[-+]?(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d+)?/g);
+  return matches ? matches.map(Number) : [];
+}
+
+function parseLength(value?: string): { value: number; unit?: string } | null {
+  if (value === undefined || value === null) return null;
+  const match = /^\s*([-+]?(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d+)?)\s*(mm|cm|in|pt|pc|px)?\s*$/.exec(String(value));
+  if (!match) return null;
+  return { value: parseFloat(match[1]), unit: match[2] };
+}
+
+// ----------------------------------------------------------------------------
+// Polygon utilities
+// ----------------------------------------------------------------------------
+
+export function distance(a: Point, b: Point): number {
+  return Math.hypot(b.x - a.x, b.y - a.y);
+}
+
+/**
+ * Signed polygon area (shoelace formula). In SVG's y-down coordinate system
+ * a positive value means the contour runs clockwise on screen.
+ */
+export function signedArea(points: Point[]): number {
+  let area = 0;
+  for (let i = 0, j = points.length - 1; i < points.length; j = i++) {
+    area += (points[j].x * points[i].y) - (points[i].x * points[j].y);
+  }
+  return area / 2;
+}
+
+export function polylineLength(points: Point[], closed: boolean = false): number {
+  let length = 0;
+  for (let i = 1; i < points.length; i++) {
+    length += distance(points[i - 1], points[i]);
+  }
+  if (closed && points.length > 2) {
+    length += distance(points[points.length - 1], points[0]);
+  }
+  return length;
+}
+
+export function getBoundingBox(points: Point[]): BoundingBox {
+  let minX = Infinity;
+  let minY = Infinity;
+  let maxX = -Infinity;
+  let maxY = -Infinity;
+
+  for (const p of points) {
+    minX = Math.min(minX, p.x);
+    minY = Math.min(minY, p.y);
+    maxX = Math.max(maxX, p.x);
+    maxY = Math.max(maxY, p.y);
+  }
+
+  if (points.length === 0) {
+    minX = minY = maxX = maxY = 0;
+  }
+
+  return {
+    x: minX,
+    y: minY,
+    width: maxX - minX,
+    height: maxY - minY,
+    center: { x: (minX + maxX) / 2, y: (minY + maxY) / 2 }
+  };
+}
+
+export function pointInPolygon(point: Point, polygon: Point[]): boolean {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const pi = polygon[i];
+    const pj = polygon[j];
+    if ((pi.y > point.y) !== (pj.y > point.y) &&
+        point.x < ((pj.x - pi.x) * (point.y - pi.y)) / (pj.y - pi.y) + pi.x) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+export function pointToSegmentDistance(p: Point, a: Point, b: Point): number {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const lengthSquared = dx * dx + dy * dy;
+  if (lengthSquared < EPSILON) return distance(p, a);
+
+  const t = Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / lengthSquared));
+  return Math.hypot(p.x - (a.x + t * dx), p.y - (a.y + t * dy));
+}
+
+/**
+ * Minimum distance between two polylines (0 when they touch or cross)
+ */
+export function polylineDistance(a: Point[], aClosed: boolean, b: Point[], bClosed: boolean): number {
+  const aSegments = toSegments(a, aClosed);
+  const bSegments = toSegments(b, bClosed);
+  let minimum = Infinity;
+
+  for (const [a1, a2] of aSegments) {
+    for (const [b1, b2] of bSegments) {
+      if (segmentsIntersect(a1, a2, b1, b2)) return 0;
+      minimum = Math.min(
+        minimum,
+        pointToSegmentDistance(a1, b1, b2),
+        pointToSegmentDistance(a2, b1, b2),
+        pointToSegmentDistance(b1, a1, a2),
+        pointToSegmentDistance(b2, a1, a2)
+      );
+    }
+  }
+
+  return minimum;
+}
+
+function toSegments(points: Point[], closed: boolean): [Point, Point][] {
+  const segments: [Point, Point][] = [];
+  for (let i = 1; i < points.length; i++) {
+    segments.push([points[i - 1], points[i]]);
+  }
+  if (closed && points.length > 2) {
+    segments.push([points[points.length - 1], points[0]]);
+  }
+  if (segments.length === 0 && points.length === 1) {
+    segments.push([points[0], points[0]]);
+  }
+  return segments;
+}
+
+function cross(o: Point, a: Point, b: Point): number {
+  return (a.x - o.x) * (b.y - o.y) - (a.y - o.y) * (b.x - o.x);
+}
+
+export function segmentsIntersect(p1: Point, p2: Point, q1: Point, q2: Point): boolean {
+  const d1 = cross(q1, q2, p1);
+  const d2 = cross(q1, q2, p2);
+  const d3 = cross(p1, p2, q1);
+  const d4 = cross(p1, p2, q2);
+  return ((d1 > 0 && d2 < 0) || (d1 < 0 && d2 > 0)) &&
+         ((d3 > 0 && d4 < 0) || (d3 < 0 && d4 > 0));
+}
+
+/**
+ * Remove duplicate and collinear vertices so edges reflect the real outline
+ */
+export function simplifyCollinear(points: Point[], closed: boolean, tolerance: number = 1e-3): Point[] {
+  const deduplicated = points.filter((p, i) => i === 0 || distance(p, points[i - 1]) > tolerance);
+  if (closed && deduplicated.length > 1 && distance(deduplicated[0], deduplicated[deduplicated.length - 1]) <= tolerance) {
+    deduplicated.pop();
+  }
+  if (deduplicated.length < 3) return deduplicated;
+
+  const result: Point[] = [];
+  const count = deduplicated.length;
+  for (let i = 0; i < count; i++) {
+    const isEndpoint = !closed && (i === 0 || i === count - 1);
+    const prev = deduplicated[(i - 1 + count) % count];
+    const next = deduplicated[(i + 1) % count];
+    const p = deduplicated[i];
+    if (isEndpoint || pointToSegmentDistance(p, prev, next) > tolerance) {
+      result.push(p);
+    }
+  }
+  return result;
+}
+
+/**
+ * Build the containment tree of closed contours.
+ * Depth 0 contours are part outlines, odd depths are holes.
+ */
+export function buildContourTree(shapes: SVGShape[]): ContourNode[] {
+  const nodes: ContourNode[] = shapes.map((shape, index) => ({
+    index,
+    shape,
+    depth: 0,
+    parent: null,
+    children: [],
+    area: shape.closed ? signedArea(shape.points) : 0
+  }));
+
+  const closed = nodes.filter(node => node.shape.closed && node.shape.points.length >= 3);
+  const bounds = new Map(closed.map(node => [node.index, getBoundingBox(node.shape.points)]));
+
+  for (const node of closed) {
+    const box = bounds.get(node.index)!;
+    let parent: ContourNode | null = null;
+
+    for (const candidate of closed) {
+      if (candidate === node) continue;
+      const candidateBox = bounds.get(candidate.index)!;
+
+      // Cheap bounding box rejection before the point test
+      if (box.x < candidateBox.x || box.y < candidateBox.y ||
+          box.x + box.width > candidateBox.x + candidateBox.width ||
+          box.y + box.height > candidateBox.y + candidateBox.height) {
+        continue;
+      }
+      if (Math.abs(candidate.area) <= Math.abs(node.area)) continue;
+      if (!pointInPolygon(node.shape.points[0], candidate.shape.points)) continue;
+
+      // The smallest enclosing contour is the direct parent
+      if (!parent || Math.abs(candidate.area) < Math.abs(parent.area)) {
+        parent = candidate;
+      }
+    }
+
+    if (parent) {
+      node.parent = parent.index;
+      parent.children.push(node.index);
+    }
+  }
+
+  // Resolve depth by walking up parent links
+  for (const node of closed) {
+    let depth = 0;
+    let parentIndex = node.parent;
+    while (parentIndex !== null && depth < nodes.length) {
+      depth++;
+      parentIndex = nodes[parentIndex].parent;
+    }
+    node.depth = depth;
+  }
+
+  return nodes;
+}
+
+/**
+ * Convex hull (Andrew's monotone chain), counter-clockwise in y-up terms
+ */
+export function convexHull(points: Point[]): Point[] {
+  const sorted = [...points].sort((a, b) => a.x - b.x || a.y - b.y);
+  if (sorted.length < 3) return sorted;
+
+  const lower: Point[] = [];
+  for (const p of sorted) {
+    while (lower.length >= 2 && cross(lower[lower.length - 2], lower[lower.length - 1], p) <= 0) lower.pop();
+    lower.push(p);
+  }
+
+  const upper: Point[] = [];
+  for (let i = sorted.length - 1; i >= 0; i--) {
+    const p = sorted[i];
+    while (upper.length >= 2 && cross(upper[upper.length - 2], upper[upper.length - 1], p) <= 0) upper.pop();
+    upper.push(p);
+  }
+
+  lower.pop();
+  upper.pop();
+  return lower.concat(upper);
+}
+
+export interface OrientedExtent {
+  length: number; // extent along the long axis
+  width: number; // minimum caliper width
+  angle: number; // radians, direction of the long axis
+}
+
+/**
+ * Minimum-width orientation of a point set. The narrowest caliper width of a
+ * convex polygon is always measured perpendicular to one of its hull edges.
+ */
+export function orientedExtent(points: Point[]): OrientedExtent {
+  const hull = convexHull(points);
+  if (hull.length < 2) return { length: 0, width: 0, angle: 0 };
+  if (hull.length === 2) {
+    return {
+      length: distance(hull[0], hull[1]),
+      width: 0,
+      angle: Math.atan2(hull[1].y - hull[0].y, hull[1].x - hull[0].x)
+    };
+  }
+
+  let best: OrientedExtent = { length: 0, width: Infinity, angle: 0 };
+
+  for (let i = 0; i < hull.length; i++) {
+    const a = hull[i];
+    const b = hull[(i + 1) % hull.length];
+    const edgeLength = distance(a, b);
+    if (edgeLength < EPSILON) continue;
+
+    const ux = (b.x - a.x) / edgeLength;
+    const uy = (b.y - a.y) / edgeLength;
+    let minAlong = Infinity;
+    let maxAlong = -Infinity;
+    let maxAcross = 0;
+
+    for (const p of hull) {
+      const along = (p.x - a.x) * ux + (p.y - a.y) * uy;
+      const across = Math.abs((p.x - a.x) * uy - (p.y - a.y) * ux);
+      minAlong = Math.min(minAlong, along);
+      maxAlong = Math.max(maxAlong, along);
+      maxAcross = Math.max(maxAcross, across);
+    }
+
+    if (maxAcross < best.width) {
+      best = { length: maxAlong - minAlong, width: maxAcross, angle: Math.atan2(uy, ux) };
+    }
+  }
+
+  // Report the longer side as the length regardless of which edge won
+  if (best.width > best.length) {
+    best = { length: best.width, width: best.length, angle: best.angle + Math.PI / 2 };
+  }
+
+  return best;
+}
+
+/**
+ * Douglas-Peucker simplification. Closed contours are split at the vertex
+ * farthest from the first point so both halves keep their extremes.
+ */
+export function simplifyDouglasPeucker(points: Point[], tolerance: number, closed: boolean = false): Point[] {
+  if (points.length < 3) return [...points];
+
+  if (closed) {
+    let farthest = 0;
+    let maxDistance = -1;
+    points.forEach((p, i) => {
+      const d = distance(points[0], p);
+      if (d > maxDistance) {
+        maxDistance = d;
+        farthest = i;
+      }
+    });
+
+    const first = simplifyOpen(points.slice(0, farthest + 1), tolerance);
+    const second = simplifyOpen([...points.slice(farthest), points[0]], tolerance);
+    return [...first.slice(0, -1), ...second.slice(0, -1)];
+  }
+
+  return simplifyOpen(points, tolerance);
+}
+
+function simplifyOpen(points: Point[], tolerance: number): Point[] {
+  if (points.length < 3) return [...points];
+
+  const keep = new Array(points.length).fill(false);
+  keep[0] = keep[points.length - 1] = true;
+  const stack: [number, number][] = [[0, points.length - 1]];
+
+  while (stack.length > 0) {
+    const [start, end] = stack.pop()!;
+    let index = -1;
+    let maxDistance = tolerance;
+
+    for (let i = start + 1; i < end; i++) {
+      const d = pointToSegmentDistance(points[i], points[start], points[end]);
+      if (d > maxDistance) {
+        maxDistance = d;
+        index = i;
+      }
+    }
+
+    if (index !== -1) {
+      keep[index] = true;
+      stack.push([start, index], [index, end]);
+    }
+  }
+
+  return points.filter((_, i) => keep[i]);
+}
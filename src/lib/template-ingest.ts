@@ -0,0 +1,335 @@
+// Template ingestion
+// Turns SVG and DXF files from the templates library into template rows: normalized SVG, size, inferred catalogue fields and a preview
+
+import type { Template } from './database';
+import { importDXF } from './dxf';
+import { parseSVG, getBoundingBox } from './svg-geometry';
+import { exportPNG } from './png-export';
+import { InputValidator } from './security';
+
+export interface IngestedTemplate {
+  id: string;
+  title: string;
+  description: string;
+  category: string;
+  tags: string[];
+  materials: string[];
+  difficulty: Template['difficulty'];
+  svg_data: string;
+  content_hash: string; // SHA-256 of svg_data, hex
+  source_path: string; // relative to the templates folder
+  width_mm: number;
+  height_mm: number;
+  warnings: string[];
+}
+
+export const TEMPLATE_EXTENSIONS = ['.svg', '.dxf'];
+
+// D1 rejects statements over 100 KB, so larger SVGs are written out as static files instead of into the row
+export const MAX_INLINE_SVG_LENGTH = 90_000;
+// Cloudflare Pages serves static files up to 25 MiB
+export const MAX_TEMPLATE_SVG_LENGTH = 25 * 1024 * 1024;
+
+const PREVIEW_SIZE = 400; // px, longest side
+const MATERIAL_PATTERN = /(\d+(?:\.\d+)?)\s*mm\s+(birch plywood|plywood|mdf|acrylic|hardboard|cardboard|hardwood|oak|walnut|maple)/gi;
+
+// Folders whose sub-folders are already categories
+const CATEGORY_FOLDERS = ['by-category', 'woodworking', 'shaper-origin'];
+
+// Checked in order against the slugged file name and title when the folder says nothing
+const CATEGORY_KEYWORDS: [RegExp, string][] = [
+  [/gear|planetary/, 'mechanical'],
+  [/\barm\b|robot|\botto\b/, 'robotics'],
+  [/test|\bburn|overcut|calibrat/, 'calibration'],
+  [/font|letter|\bsign\b|nametag|label|etikett/, 'signs-lettering'],
+  [/holder|rack|organi[sz]er|stand|shel(f|ves)|cleat|pegboard/, 'organizational-tools'],
+  [/box|case|tray|\bbins?\b|drawer|insert|housing|dispenser/, 'boxes'],
+  [/clock|lamp|light|frame|display/, 'home-decor']
+];
+
+const DEFAULT_MATERIALS: Record<string, string[]> = {
+  mechanical: ['3mm acrylic', '3mm plywood'],
+  robotics: ['3mm acrylic', '3mm plywood'],
+  'signs-lettering': ['3mm plywood', '3mm acrylic']
+};
+
+/**
+ * Read one library file into a template. The SVG is stripped of comments,
+ * editor metadata and whitespace between tags before it is hashed, so
+ * re-saving a file without visible changes keeps its hash. Throws when the
+ * file has no geometry, is unsafe or too large to store.
+ */
+export async function ingestTemplateFile(id: string, sourcePath: string, content: string): Promise<IngestedTemplate> {
+  const extension = fileExtension(sourcePath);
+  if (!TEMPLATE_EXTENSIONS.includes(extension)) {
+    throw new Error(`Unsupported template file type ${extension || '(none)'}`);
+  }
+
+  const warnings: string[] = [];
+  let svg: string;
+  if (extension === '.dxf') {
+    const drawing = importDXF(content);
+    warnings.push(...drawing.warnings);
+    svg = drawing.svg;
+  } else {
+    svg = normalizeSVG(content);
+  }
+
+  if (svg.length > MAX_TEMPLATE_SVG_LENGTH) {
+    throw new Error(`The normalized SVG is ${svg.length} characters; templates are limited to ${MAX_TEMPLATE_SVG_LENGTH}`);
+  }
+  InputValidator.validateSVGContent(svg, MAX_TEMPLATE_SVG_LENGTH);
+
+  const geometry = parseSVG(svg);
+  const shapes = geometry.shapes.filter(shape => shape.points.length >= 2);
+  if (shapes.length === 0) {
+    throw new Error('The file contains no drawable geometry');
+  }
+  const bounds = getBoundingBox(shapes.flatMap(shape => shape.points));
+  const width = geometry.width > 0 ? geometry.width : bounds.x + bounds.width;
+  const height = geometry.height > 0 ? geometry.height : bounds.y + bounds.height;
+
+  const text = describedText(content);
+  const title = readTitle(content) || humanize(fileStem(sourcePath));
+  const category = inferCategory(sourcePath, title);
+
+  return {
+    id,
+    title,
+    description: readDescription(content) || `${title}, ${round(width)} × ${round(height)} mm`,
+    category,
+    tags: inferTags(sourcePath, extension, content, category),
+    materials: inferMaterials(text, sourcePath, category),
+    difficulty: inferDifficulty(text, shapes.length),
+    svg_data: svg,
+    content_hash: await sha256Hex(svg),
+    source_path: sourcePath,
+    width_mm: round(width),
+    height_mm: round(height),
+    warnings
+  };
+}
+
+/**
+ * Stable ids for a set of library paths: the file name as a slug, with the
+ * folder (and then the file type) prepended only where names collide, so
+ * files matching the seeded templates keep the seeded ids
+ */
+export function assignTemplateIds(paths: string[]): Map<string, string> {
+  const ids = new Map<string, string>();
+  const byStem = new Map<string, string[]>();
+  for (const path of [...paths].sort()) {
+    const stem = slugify(fileStem(path));
+    byStem.set(stem, [...(byStem.get(stem) || []), path]);
+  }
+
+  const taken = new Set<string>();
+  for (const [stem, group] of byStem) {
+    for (const path of group) {
+      const folder = slugify(path.split('/').slice(-2, -1)[0] || '');
+      const candidates = group.length === 1
+        ? [stem]
+        : [`${folder}-${stem}`, `${folder}-${stem}-${fileExtension(path).slice(1)}`];
+      const id = candidates.find(candidate => !taken.has(candidate)) || `${candidates[candidates.length - 1]}-${taken.size}`;
+      taken.add(id);
+      ids.set(path, id);
+    }
+  }
+  return ids;
+}
+
+/**
+ * Upsert for one template, safe to run any number of times. A row with the
+ * same content hash, or failing that the same id, is updated instead of
+ * duplicated. Catalogue text on curated rows, such as the seeded templates,
+ * is kept; premium status and download counts always are. SVGs over
+ * MAX_INLINE_SVG_LENGTH need svgUrl, the static file the caller wrote them
+ * to; the row then keeps svg_data empty.
+ */
+export function templateUpsertSQL(template: IngestedTemplate, previewUrl: string | null, svgUrl: string | null = null): string {
+  if (!svgUrl && template.svg_data.length > MAX_INLINE_SVG_LENGTH) {
+    throw new Error(`${template.source_path} is too large to store inline; write it to a file and pass its URL`);
+  }
+  const curated = (column: string) => `${column} = CASE WHEN templates.catalogue_source = 'curated' THEN templates.${column} ELSE excluded.${column} END`;
+  const updates = [
+    curated('title'),
+    curated('description'),
+    curated('category'),
+    curated('tags'),
+    curated('materials'),
+    curated('difficulty'),
+    'svg_data = excluded.svg_data',
+    'svg_url = excluded.svg_url',
+    'content_hash = excluded.content_hash',
+    'source_path = excluded.source_path',
+    'width_mm = excluded.width_mm',
+    'height_mm = excluded.height_mm',
+    'preview_url = COALESCE(excluded.preview_url, templates.preview_url)',
+    'updated_at = CURRENT_TIMESTAMP'
+  ].join(',\n    ');
+
+  const values = [
+    template.id,
+    template.title,
+    template.description,
+    template.category,
+    JSON.stringify(template.tags),
+    JSON.stringify(template.materials),
+    template.difficulty,
+    svgUrl ? '' : template.svg_data,
+    svgUrl,
+    previewUrl,
+    template.content_hash,
+    template.source_path,
+    template.width_mm,
+    template.height_mm
+  ].map(sqlValue).join(', ');
+
+  return `INSERT INTO templates (id, title, description, category, tags, materials, difficulty, svg_data, svg_url, preview_url, content_hash, source_path, width_mm, height_mm, catalogue_source, updated_at)
+VALUES (${values}, 'inferred', CURRENT_TIMESTAMP)
+ON CONFLICT (content_hash) DO UPDATE SET
+    ${updates}
+ON CONFLICT (id) DO UPDATE SET
+    ${updates};`;
+}
+
+/**
+ * A PNG thumbnail of the template, longest side PREVIEW_SIZE pixels
+ */
+export async function renderTemplatePreview(template: IngestedTemplate): Promise<Uint8Array> {
+  const pixelsPerMm = PREVIEW_SIZE / Math.max(template.width_mm, template.height_mm, 1);
+  return exportPNG(template.svg_data, {
+    dpi: pixelsPerMm * 25.4,
+    strokeWidth: 1.5 / pixelsPerMm // about a pixel and a half whatever the template's size
+  });
+}
+
+function normalizeSVG(svg: string): string {
+  return svg
+    .replace(/<\?xml[\s\S]*?\?>/g, '')
+    .replace(/<!DOCTYPE[^>]*>/gi, '')
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/<metadata[\s\S]*?<\/metadata>/gi, '')
+    .replace(/<sodipodi:namedview[\s\S]*?(?:\/>|<\/sodipodi:namedview>)/gi, '')
+    .replace(/>\s+</g, '><')
+    .trim();
+}
+
+// Generator titles such as Boxes.py's "WallChiselHolder" are split into words
+function readTitle(content: string): string {
+  const match = /<title>([^<]+)<\/title>/i.exec(content) || /<dc:title>([^<]+)<\/dc:title>/i.exec(content);
+  const title = match ? decodeEntities(match[1]).replace(/^Box - /, '').trim() : '';
+  return (/\s/.test(title) ? title : humanize(title)).slice(0, 200);
+}
+
+// First paragraph of the document's description, or of its leading comment
+function readDescription(content: string): string {
+  const source = /<dc:description>([^<]+)<\/dc:description>/i.exec(content)?.[1] ?? /<!--([\s\S]*?)-->/.exec(content)?.[1] ?? '';
+  const paragraph = decodeEntities(source)
+    .replace(/<[^>]*>/g, '')
+    .split(/\n\s*\n/)
+    .map(part => part.replace(/\s+/g, ' ').trim())
+    .find(part => part && !/^(Generator|Created with)\b/i.test(part));
+  return paragraph ? paragraph.slice(0, 500) : '';
+}
+
+// Comments, titles and descriptions, where authors mention materials and difficulty
+function describedText(content: string): string {
+  const parts = [
+    ...content.matchAll(/<!--([\s\S]*?)-->/g),
+    ...content.matchAll(/<(?:title|desc|dc:title|dc:description)>([^<]*)</g)
+  ].map(match => match[1]);
+  return parts.join('\n');
+}
+
+function inferCategory(sourcePath: string, title: string): string {
+  const segments = sourcePath.split('/');
+  if (CATEGORY_FOLDERS.includes(segments[0]) && segments.length > 2 && segments[1] !== 'general-projects') {
+    return slugify(segments[1]);
+  }
+
+  const name = `${slugify(fileStem(sourcePath))} ${slugify(title)}`;
+  const rule = CATEGORY_KEYWORDS.find(([pattern]) => pattern.test(name));
+  return rule ? rule[1] : 'general';
+}
+
+function inferTags(sourcePath: string, extension: string, content: string, category: string): string[] {
+  const tags = new Set<string>([category]);
+  if (sourcePath.startsWith('shaper-origin/')) tags.add('shaper-origin');
+  if (extension === '.dxf') tags.add('dxf');
+  if (/Boxes\.py/i.test(content)) tags.add('boxes.py');
+  if (/gear generator/i.test(content)) tags.add('gear-generator');
+  return [...tags];
+}
+
+function inferMaterials(text: string, sourcePath: string, category: string): string[] {
+  const found = new Set<string>();
+  for (const match of text.matchAll(MATERIAL_PATTERN)) {
+    found.add(`${Number(match[1])}mm ${match[2].toLowerCase().replace('mdf', 'MDF')}`);
+  }
+  if (found.size > 0) return [...found];
+
+  if (/Boxes\.py/i.test(text)) return ['3mm plywood']; // the generator's default thickness
+  if (sourcePath.startsWith('shaper-origin/')) return ['18mm plywood'];
+  return DEFAULT_MATERIALS[category] || ['3mm plywood'];
+}
+
+// Stated difficulty wins; otherwise more parts and outlines means harder to cut and assemble
+function inferDifficulty(text: string, shapeCount: number): Template['difficulty'] {
+  if (/\b(advanced|expert|complex)\b/i.test(text)) return 'advanced';
+  if (/\b(beginner|easy|simple)\b/i.test(text)) return 'beginner';
+  if (shapeCount <= 20) return 'beginner';
+  if (shapeCount <= 150) return 'intermediate';
+  return 'advanced';
+}
+
+async function sha256Hex(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return [...new Uint8Array(digest)].map(byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+function sqlValue(value: string | number | null): string {
+  if (value === null) return 'NULL';
+  if (typeof value === 'number') return String(value);
+  return `'${value.replace(/'/g, "''")}'`;
+}
+
+function fileExtension(path: string): string {
+  const match = /\.[^./]+$/.exec(path);
+  return match ? match[0].toLowerCase() : '';
+}
+
+function fileStem(path: string): string {
+  return (path.split('/').pop() || path).replace(/\.[^.]+$/, '');
+}
+
+function slugify(value: string): string {
+  return value
+    .replace(/([a-z0-9])([A-Z])/g, '$1-$2')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '') || 'template';
+}
+
+function humanize(stem: string): string {
+  return stem
+    .replace(/^so-/, '')
+    .replace(/([a-z])([A-Z])/g, '$1 $2')
+    .replace(/[_-]+/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .replace(/\b[a-z]/g, letter => letter.toUpperCase());
+}
+
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;|&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+function round(value: number): number {
+  return Math.round(value * 10) / 10;
+}
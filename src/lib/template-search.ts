@@ -0,0 +1,168 @@
+// Template search
+// Parses catalogue search queries, resolves machine and sheet filters to sizes, and shapes facet counts
+
+import type { Template, TemplateArea, TemplateFacetCount, TemplateFacets, TemplateSearchQuery, TemplateSortField, TemplateSummary } from './database';
+import type { MachineProfile } from './machine-profiles';
+import { toFTSQuery } from './project-validation';
+
+export interface SheetSize extends TemplateArea {
+  id: string;
+  label: string;
+}
+
+// Stock sizes sold for laser and CNC work, in mm
+export const SHEET_SIZES: SheetSize[] = [
+  { id: '12x12', label: '12 × 12 in', width: 305, height: 305 },
+  { id: '12x20', label: '12 × 20 in', width: 305, height: 508 },
+  { id: '12x24', label: '12 × 24 in', width: 305, height: 610 },
+  { id: '24x24', label: '24 × 24 in', width: 610, height: 610 },
+  { id: '24x48', label: '2 × 4 ft', width: 610, height: 1220 },
+  { id: '48x96', label: '4 × 8 ft', width: 1220, height: 2440 }
+];
+
+export interface TemplateSearchFacets {
+  total: number;
+  tags: TemplateFacetCount[];
+  materials: TemplateFacetCount[];
+  difficulty: TemplateFacetCount[];
+  machines: { id: string; name: string; count: number }[];
+  sheetSizes: (SheetSize & { count: number })[];
+}
+
+const SORT_FIELDS: TemplateSortField[] = ['download_count', 'created_at'];
+const DIFFICULTIES: Template['difficulty'][] = ['beginner', 'intermediate', 'advanced'];
+const DEFAULT_PAGE_SIZE = 24;
+const MAX_PAGE_SIZE = 100;
+const MAX_TAGS = 5;
+
+/**
+ * Parse search parameters: q, category, tag (repeatable), material,
+ * difficulty, premium, machine, sheet, sort, order, limit and cursor.
+ * machine is the id of one of the given profiles and keeps templates that
+ * fit its work area; sheet is a SHEET_SIZES id. Sort defaults to the most
+ * downloaded first. Throws with a message suitable for the API response.
+ */
+export function parseTemplateSearchQuery(params: URLSearchParams, machines: MachineProfile[]): TemplateSearchQuery {
+  const sort = (params.get('sort') || 'download_count') as TemplateSortField;
+  if (!SORT_FIELDS.includes(sort)) {
+    throw new Error(`sort must be one of ${SORT_FIELDS.join(', ')}`);
+  }
+
+  const order = params.get('order') || 'desc';
+  if (order !== 'asc' && order !== 'desc') {
+    throw new Error('order must be asc or desc');
+  }
+
+  const limit = params.has('limit') ? Number(params.get('limit')) : DEFAULT_PAGE_SIZE;
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+    throw new Error(`limit must be between 1 and ${MAX_PAGE_SIZE}`);
+  }
+
+  const tags = [...new Set(params.getAll('tag').map(tag => tag.trim()).filter(Boolean))];
+  if (tags.length > MAX_TAGS) {
+    throw new Error(`At most ${MAX_TAGS} tags can be combined`);
+  }
+
+  const category = shortText(params.get('category'), 'category');
+  const material = shortText(params.get('material'), 'material');
+  tags.forEach(tag => shortText(tag, 'tag'));
+
+  const difficulty = params.get('difficulty') || undefined;
+  if (difficulty && !DIFFICULTIES.includes(difficulty as Template['difficulty'])) {
+    throw new Error(`difficulty must be one of ${DIFFICULTIES.join(', ')}`);
+  }
+
+  const premium = params.get('premium');
+  if (premium !== null && premium !== 'true' && premium !== 'false') {
+    throw new Error('premium must be true or false');
+  }
+
+  const fitsWithin: TemplateArea[] = [];
+  const machineId = params.get('machine');
+  if (machineId) {
+    const machine = machines.find(profile => profile.id === machineId);
+    if (!machine) {
+      throw new Error(`Unknown machine "${machineId}"`);
+    }
+    fitsWithin.push(machine.capabilities.workAreaSize);
+  }
+  const sheetId = params.get('sheet');
+  if (sheetId) {
+    const sheet = SHEET_SIZES.find(size => size.id === sheetId);
+    if (!sheet) {
+      throw new Error(`sheet must be one of ${SHEET_SIZES.map(size => size.id).join(', ')}`);
+    }
+    fitsWithin.push(sheet);
+  }
+
+  const search = params.get('q')?.trim() || '';
+  if (search.length > 200) {
+    throw new Error('q must be at most 200 characters');
+  }
+
+  const cursor = params.get('cursor');
+  return {
+    search: toFTSQuery(search),
+    category,
+    tags,
+    material,
+    difficulty: difficulty as Template['difficulty'] | undefined,
+    premium: premium === null ? undefined : premium === 'true',
+    fitsWithin,
+    sort,
+    order,
+    limit,
+    after: cursor ? decodeTemplateCursor(cursor, sort) : undefined
+  };
+}
+
+// Opaque token for the page after this template; it is only valid with the same sort
+export function encodeTemplateCursor(template: TemplateSummary, sort: TemplateSortField): string {
+  const value = template[sort] ?? (sort === 'download_count' ? 0 : '');
+  return btoa(encodeURIComponent(JSON.stringify([sort, value, template.id])))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+}
+
+// The areas asked of getTemplateFacets: every machine's work area, then every sheet size
+export function facetAreas(machines: MachineProfile[]): TemplateArea[] {
+  return [...machines.map(machine => machine.capabilities.workAreaSize), ...SHEET_SIZES];
+}
+
+export function describeTemplateFacets(facets: TemplateFacets, machines: MachineProfile[]): TemplateSearchFacets {
+  return {
+    total: facets.total,
+    tags: facets.tags,
+    materials: facets.materials,
+    difficulty: facets.difficulty,
+    machines: machines.map((machine, index) => ({ id: machine.id, name: machine.name, count: facets.fits[index] || 0 })),
+    sheetSizes: SHEET_SIZES.map((sheet, index) => ({ ...sheet, count: facets.fits[machines.length + index] || 0 }))
+  };
+}
+
+function decodeTemplateCursor(cursor: string, sort: TemplateSortField): { value: string | number; id: string } {
+  let decoded: unknown;
+  try {
+    decoded = JSON.parse(decodeURIComponent(atob(cursor.replace(/-/g, '+').replace(/_/g, '/'))));
+  } catch {
+    throw new Error('Invalid cursor');
+  }
+
+  const valueType = sort === 'download_count' ? 'number' : 'string';
+  if (!Array.isArray(decoded) || decoded.length !== 3 || typeof decoded[1] !== valueType || typeof decoded[2] !== 'string') {
+    throw new Error('Invalid cursor');
+  }
+  if (decoded[0] !== sort) {
+    throw new Error('The cursor belongs to a different sort; start again without it');
+  }
+  return { value: decoded[1], id: decoded[2] };
+}
+
+function shortText(value: string | null, label: string): string | undefined {
+  const text = value?.trim() || undefined;
+  if (text && text.length > 50) {
+    throw new Error(`${label} must be at most 50 characters`);
+  }
+  return text;
+}
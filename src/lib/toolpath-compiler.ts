@@ -0,0 +1,603 @@
+// Deterministic SVG to G-code toolpath compiler
+// Converts SVG geometry into G0/G1/G2/G3 moves and formats them with pluggable post-processors
+
+import type { GCodeOutput } from './cloudflare-ai';
+import type { MachineCapabilities } from './manufacturing-constraints';
+import { GLOWFORGE_CAPABILITIES } from './material-database';
+import { GCodeSimulator, formatDuration, type SimulationResult } from './gcode-simulator';
+import { contoursFromShapes, optimizeCutOrder } from './cut-order';
+import { groupShapesByLayer, inferOperationLayers, type OperationLayerModel } from './operation-layers';
+import {
+  parseSVG,
+  buildContourTree,
+  getBoundingBox,
+  signedArea,
+  distance,
+  type Point
+} from './svg-geometry';
+
+export type MachineType = 'laser' | 'cnc' | 'plasma';
+
+export interface MachineSettings {
+  machineType: MachineType;
+  material: string;
+  thickness: number; // mm
+  feedRate: number; // mm/min
+  laserPower?: number; // percent
+  spindleSpeed?: number; // RPM
+  passes: number;
+  postProcessor?: string; // post-processor id, defaults to grbl
+}
+
+export interface ToolpathOptions {
+  tolerance?: number; // mm - curve flattening and arc fitting tolerance
+  safeZ?: number; // mm above the stock for CNC travel moves
+  machine?: MachineCapabilities; // limits the program is simulated and checked against
+  leadInLength?: number; // mm - pierce this far off closed contours, on the scrap side
+  layers?: OperationLayerModel; // per-layer order, depth, power and feed; inferred from the SVG when absent
+}
+
+export type ToolpathMove =
+  | { type: 'rapid'; x: number; y: number }
+  | { type: 'linear'; x: number; y: number; feed: number }
+  | { type: 'arc'; clockwise: boolean; x: number; y: number; i: number; j: number; feed: number; points: Point[] }
+  | { type: 'plunge'; z: number; feed: number }
+  | { type: 'retract'; z: number }
+  | { type: 'toolOn'; power?: number } // 0-1 laser power for this layer
+  | { type: 'toolOff' }
+  | { type: 'comment'; text: string };
+
+export interface Toolpath {
+  moves: ToolpathMove[];
+  contours: number;
+  openPaths: number;
+  holes: number;
+  cutLength: number; // mm, including repeated passes
+  travelLength: number; // mm
+  plungeLength: number; // mm
+  warnings: string[];
+}
+
+export interface PostProcessorContext {
+  settings: MachineSettings;
+  power: number; // 0-1 laser power fraction
+  safeZ: number;
+}
+
+/**
+ * A controller dialect. Moves are formatted by the compiler; a post-processor
+ * only decides what surrounds them and how the tool is switched.
+ */
+export interface PostProcessor {
+  id: string;
+  name: string;
+  supportsArcs: boolean; // false linearizes arcs into G1 moves
+  lasersOnly?: boolean;
+  preamble(context: PostProcessorContext): string[];
+  postamble(context: PostProcessorContext): string[];
+  toolOn(context: PostProcessorContext): string[];
+  toolOff(context: PostProcessorContext): string[];
+  comment(text: string): string;
+  linearSuffix?(context: PostProcessorContext): string; // extra words appended to cutting moves
+}
+
+const DEFAULT_TOLERANCE = 0.01; // mm
+const DEFAULT_SAFE_Z = 5; // mm
+const PLUNGE_FEED_RATIO = 0.3; // plunge at 30% of the cutting feed
+const PLASMA_PIERCE_DELAY = 0.5; // seconds
+const SPINDLE_SPINUP_DELAY = 3; // seconds
+const MAX_ARC_RADIUS = 10000; // mm - flatter runs are emitted as lines
+const MAX_ARC_SWEEP = Math.PI + 1e-6; // half circles at most, so I/J never describe an ambiguous full turn
+
+const spindleOn = (context: PostProcessorContext, powerScale: number): string => {
+  const { settings } = context;
+  if (settings.machineType === 'cnc') return `M3 S${Math.round(settings.spindleSpeed || 10000)}`;
+  if (settings.machineType === 'plasma') return 'M3';
+  return `M3 S${Math.round(context.power * powerScale)}`;
+};
+
+// Dwell in seconds; GRBL and LinuxCNC take them in P, Marlin in S (its P is milliseconds)
+const dwellAfterToolOn = (context: PostProcessorContext, word: 'P' | 'S' = 'P'): string[] => {
+  if (context.settings.machineType === 'cnc') return [`G4 ${word}${SPINDLE_SPINUP_DELAY}`];
+  if (context.settings.machineType === 'plasma') return [`G4 ${word}${PLASMA_PIERCE_DELAY}`];
+  return [];
+};
+
+const GRBL: PostProcessor = {
+  id: 'grbl',
+  name: 'GRBL',
+  supportsArcs: true,
+  preamble: () => ['G21', 'G90', 'G17', 'G94'],
+  postamble: () => ['M5', 'G0 X0 Y0', 'M2'],
+  // Dynamic laser power (M4) scales power with speed so corners do not over-burn
+  toolOn: context => context.settings.machineType === 'laser'
+    ? [`M4 S${Math.round(context.power * 1000)}`]
+    : [spindleOn(context, 1000), ...dwellAfterToolOn(context)],
+  toolOff: context => context.settings.machineType === 'cnc' ? [] : ['M5'],
+  comment: text => `; ${text}`
+};
+
+const MARLIN: PostProcessor = {
+  id: 'marlin',
+  name: 'Marlin',
+  supportsArcs: true,
+  preamble: () => ['G21', 'G90'],
+  postamble: () => ['M5', 'G0 X0 Y0', 'M84'],
+  // M400 waits for the planner so the laser never fires ahead of the motion
+  toolOn: context => ['M400', spindleOn(context, 255), ...dwellAfterToolOn(context, 'S')],
+  toolOff: context => context.settings.machineType === 'cnc' ? [] : ['M400', 'M5'],
+  comment: text => `; ${text}`
+};
+
+const LINUXCNC: PostProcessor = {
+  id: 'linuxcnc',
+  name: 'LinuxCNC',
+  supportsArcs: true,
+  preamble: () => ['%', 'G21 G90 G17 G94', 'G64 P0.01'],
+  postamble: () => ['M5', 'G0 X0 Y0', 'M2', '%'],
+  toolOn: context => [spindleOn(context, 100), ...dwellAfterToolOn(context)],
+  toolOff: context => context.settings.machineType === 'cnc' ? [] : ['M5'],
+  comment: text => `(${text.replace(/[()]/g, '')})`
+};
+
+const RUIDA: PostProcessor = {
+  id: 'ruida',
+  name: 'Ruida-style laser',
+  supportsArcs: false,
+  lasersOnly: true,
+  preamble: () => ['G21', 'G90'],
+  postamble: () => ['M5', 'G0 X0 Y0', 'M2'],
+  toolOn: () => ['M3'],
+  toolOff: () => ['M5'],
+  comment: text => `; ${text}`,
+  // Ruida controllers take power as a percentage on every cutting move
+  linearSuffix: context => ` S${Math.round(context.power * 100)}`
+};
+
+export class ToolpathCompiler {
+  private postProcessors = new Map<string, PostProcessor>();
+
+  constructor() {
+    [GRBL, MARLIN, LINUXCNC, RUIDA].forEach(postProcessor => this.registerPostProcessor(postProcessor));
+  }
+
+  /**
+   * Add or replace a controller dialect
+   */
+  registerPostProcessor(postProcessor: PostProcessor): void {
+    this.postProcessors.set(postProcessor.id, postProcessor);
+  }
+
+  getPostProcessor(id: string): PostProcessor | undefined {
+    return this.postProcessors.get(id);
+  }
+
+  listPostProcessors(): { id: string; name: string }[] {
+    return [...this.postProcessors.values()].map(({ id, name }) => ({ id, name }));
+  }
+
+  /**
+   * Compile an SVG into machine moves. Coordinates are millimetres with the
+   * origin at the bottom-left corner of the document and Y pointing up.
+   */
+  compile(svg: string, settings: MachineSettings, options: ToolpathOptions = {}): Toolpath {
+    if (!(settings.feedRate > 0)) {
+      throw new Error('Feed rate must be greater than zero');
+    }
+
+    const tolerance = options.tolerance ?? DEFAULT_TOLERANCE;
+    const safeZ = options.safeZ ?? DEFAULT_SAFE_Z;
+    const passes = Math.max(1, Math.floor(settings.passes || 1));
+    const geometry = parseSVG(svg, { tolerance });
+    const warnings: string[] = [];
+
+    const shapes = geometry.shapes.filter(shape => shape.points.length >= 2);
+    const bounds = shapes.length > 0 ? getBoundingBox(shapes.flatMap(shape => shape.points)) : null;
+    const flipHeight = geometry.height > 0 ? geometry.height : (bounds ? bounds.y + bounds.height : 0);
+    const toMachine = (p: Point): Point => ({ x: p.x, y: flipHeight - p.y });
+
+    // Without a saved model the settings passed in still decide how outlines are cut
+    const model = options.layers || inferOperationLayers(shapes, settings.material, {
+      cut: { speed: settings.feedRate, power: settings.laserPower ?? 100, passes, depth: null }
+    });
+    const { groups, unassigned } = groupShapesByLayer(shapes, model);
+
+    const moves: ToolpathMove[] = [];
+    const toolpath: Toolpath = {
+      moves,
+      contours: 0,
+      openPaths: 0,
+      holes: 0,
+      cutLength: 0,
+      travelLength: 0,
+      plungeLength: 0,
+      warnings
+    };
+
+    let position: Point = { x: 0, y: 0 };
+    let z = safeZ;
+    let openThroughCuts = 0;
+    const isCNC = settings.machineType === 'cnc';
+
+    const moveZ = (target: number, feed: number) => {
+      if (target === z) return;
+      moves.push(target > z ? { type: 'retract', z: target } : { type: 'plunge', z: target, feed: Math.round(feed * PLUNGE_FEED_RATIO) });
+      toolpath.plungeLength += Math.abs(target - z);
+      z = target;
+    };
+    const travelTo = (p: Point) => {
+      moves.push({ type: 'rapid', x: p.x, y: p.y });
+      toolpath.travelLength += distance(position, p);
+      position = p;
+    };
+
+    if (isCNC) {
+      moves.push({ type: 'retract', z: safeZ }, { type: 'toolOn' });
+    }
+
+    for (const { layer, shapes: layerShapes } of groups) {
+      const layerPasses = Math.max(1, Math.floor(layer.passes));
+      const feed = layer.speed;
+      const power = Math.min(1, Math.max(0, layer.power / 100));
+      const depth = layer.depth ?? settings.thickness;
+      const stepDown = depth > 0 ? depth / layerPasses : 0;
+
+      if (isCNC && layer.operation === 'pocket') {
+        warnings.push(`Pocket layer "${layer.name}" is cut along its outlines at ${depth}mm; clear the inside separately`);
+      }
+      if (isCNC && !(depth > 0) && settings.thickness > 0) {
+        warnings.push(`Layer "${layer.name}" has no depth, so its shapes are traced at the surface`);
+      }
+
+      // Holes before the outlines that contain them, ordered for the least rapid travel
+      const sequence = optimizeCutOrder(contoursFromShapes(layerShapes, toMachine), {
+        start: position,
+        leadInLength: options.leadInLength
+      });
+      moves.push({ type: 'comment', text: `Layer: ${layer.name} (${layer.operation})` });
+
+      sequence.cuts.forEach(cut => {
+        const index = Number(cut.id);
+        const shape = layerShapes[index];
+        const points = cut.points.slice();
+        if (cut.closed && distance(points[0], points[points.length - 1]) > 1e-9) {
+          points.push({ ...points[0] });
+        }
+        const segments = fitArcs(points, tolerance);
+        const length = pathLength(segments, points[0]);
+        const isHole = cut.closed && cut.depth % 2 === 1;
+
+        if (cut.closed) {
+          toolpath.contours++;
+          if (isHole) toolpath.holes++;
+        } else {
+          toolpath.openPaths++;
+          if (layer.depth === null) openThroughCuts++;
+        }
+
+        const label = shape.id || `${shape.element} ${shapes.indexOf(shape) + 1}`;
+        moves.push({ type: 'comment', text: `${cut.closed ? (isHole ? 'Hole' : 'Outline') : 'Open path'}: ${label}` });
+
+        for (let pass = 1; pass <= layerPasses; pass++) {
+          // Closed contours end where they start; open paths travel back for the next pass
+          if (pass === 1 || !cut.closed) {
+            if (isCNC) moveZ(safeZ, feed);
+            travelTo(cut.leadIn || points[0]);
+          }
+
+          if (isCNC) {
+            moveZ(depth > 0 ? -Math.min(depth, stepDown * pass) : 0, feed);
+          } else if (pass === 1 || !cut.closed) {
+            moves.push({ type: 'toolOn', power });
+          }
+
+          if (cut.leadIn && (pass === 1 || !cut.closed)) {
+            moves.push({ type: 'linear', x: points[0].x, y: points[0].y, feed });
+            toolpath.cutLength += distance(cut.leadIn, points[0]);
+          }
+
+          moves.push(...segments.map(segment => ({ ...segment, feed }) as ToolpathMove));
+          toolpath.cutLength += length;
+          position = points[points.length - 1];
+
+          if (!isCNC && (!cut.closed || pass === layerPasses)) {
+            moves.push({ type: 'toolOff' });
+          }
+        }
+      });
+    }
+
+    if (isCNC) {
+      moveZ(safeZ, settings.feedRate);
+      moves.push({ type: 'toolOff' });
+    }
+
+    if (unassigned.length > 0) {
+      warnings.push(`${unassigned.length} shape(s) are not on any operation layer and were skipped`);
+    }
+    if (shapes.length === 0) {
+      warnings.push('No cuttable geometry found in the SVG');
+    }
+    if (isCNC && openThroughCuts > 0) {
+      warnings.push(`${openThroughCuts} open path(s) will be cut to full depth - check they are not construction lines`);
+    }
+    if (isCNC && !(settings.thickness > 0)) {
+      warnings.push('Material thickness is not set, so no cutting depth was applied');
+    }
+
+    return toolpath;
+  }
+
+  /**
+   * Compile an SVG and format it for the requested controller
+   */
+  generate(svg: string, settings: MachineSettings, options: ToolpathOptions = {}): GCodeOutput {
+    const postProcessor = this.postProcessors.get(settings.postProcessor || 'grbl');
+    if (!postProcessor) {
+      throw new Error(`Unknown post-processor: ${settings.postProcessor}`);
+    }
+
+    const toolpath = this.compile(svg, settings, options);
+    const warnings = [...toolpath.warnings];
+    const laserPower = settings.laserPower ?? 100;
+    if (laserPower > 100 || laserPower < 0) {
+      warnings.push(`Laser power ${laserPower}% is outside 0-100% and was clamped`);
+    }
+    if (postProcessor.lasersOnly && settings.machineType !== 'laser') {
+      warnings.push(`${postProcessor.name} controllers only drive lasers; tool commands may not match a ${settings.machineType}`);
+    }
+
+    const context: PostProcessorContext = {
+      settings,
+      power: Math.min(1, Math.max(0, laserPower / 100)),
+      safeZ: options.safeZ ?? DEFAULT_SAFE_Z
+    };
+
+    // Program markers such as LinuxCNC's % must stay on the first line
+    const preamble = postProcessor.preamble(context);
+    const leading = preamble[0] === '%' ? 1 : 0;
+    const lines = [
+      ...preamble.slice(0, leading),
+      postProcessor.comment(`CutGlueBuild toolpath - ${postProcessor.name}`),
+      postProcessor.comment(`Machine: ${settings.machineType}, material: ${settings.material} ${settings.thickness}mm, passes: ${Math.max(1, Math.floor(settings.passes || 1))}`),
+      ...preamble.slice(leading),
+      ...this.formatMoves(toolpath.moves, postProcessor, context),
+      ...postProcessor.postamble(context)
+    ];
+
+    const gcode = lines.join('\n') + '\n';
+    const simulation = new GCodeSimulator(options.machine || GLOWFORGE_CAPABILITIES).simulate(gcode, {
+      machineType: settings.machineType,
+      stockThickness: settings.thickness > 0 ? settings.thickness : undefined
+    });
+    warnings.push(...simulation.issues.map(formatIssue));
+    warnings.push('Test settings on scrap material first');
+
+    return {
+      gcode,
+      estimatedTime: formatDuration(simulation.totalTime),
+      materialUsage: this.materialUsage(svg),
+      cuttingPath: [
+        toolpath.openPaths > 0 ? `${toolpath.openPaths} open path(s)` : '',
+        toolpath.holes > 0 ? `${toolpath.holes} hole(s) before ${toolpath.contours - toolpath.holes} outline(s)` : `${toolpath.contours} outline(s)`,
+        `${Math.round(simulation.cutDistance)}mm cutting, ${Math.round(simulation.travelDistance)}mm travel`
+      ].filter(Boolean).join('; '),
+      warnings
+    };
+  }
+
+  private formatMoves(moves: ToolpathMove[], postProcessor: PostProcessor, context: PostProcessorContext): string[] {
+    const lines: string[] = [];
+    let current = context;
+    let suffix = postProcessor.linearSuffix ? postProcessor.linearSuffix(current) : '';
+    let feed = 0;
+
+    const feedWord = (value: number) => {
+      if (value === feed) return '';
+      feed = value;
+      return ` F${formatNumber(value)}`;
+    };
+
+    for (const move of moves) {
+      switch (move.type) {
+        case 'comment':
+          lines.push(postProcessor.comment(move.text));
+          break;
+        case 'rapid':
+          lines.push(`G0 X${formatNumber(move.x)} Y${formatNumber(move.y)}`);
+          break;
+        case 'retract':
+          lines.push(`G0 Z${formatNumber(move.z)}`);
+          break;
+        case 'plunge':
+          lines.push(`G1 Z${formatNumber(move.z)}${feedWord(move.feed)}`);
+          break;
+        case 'linear':
+          lines.push(`G1 X${formatNumber(move.x)} Y${formatNumber(move.y)}${feedWord(move.feed)}${suffix}`);
+          break;
+        case 'arc':
+          if (postProcessor.supportsArcs) {
+            lines.push(`${move.clockwise ? 'G2' : 'G3'} X${formatNumber(move.x)} Y${formatNumber(move.y)} I${formatNumber(move.i)} J${formatNumber(move.j)}${feedWord(move.feed)}`);
+          } else {
+            move.points.forEach(p => lines.push(`G1 X${formatNumber(p.x)} Y${formatNumber(p.y)}${feedWord(move.feed)}${suffix}`));
+          }
+          break;
+        case 'toolOn':
+          // Layers switch the tool on at their own power
+          if (move.power !== undefined && move.power !== current.power) {
+            current = { ...context, power: move.power };
+            suffix = postProcessor.linearSuffix ? postProcessor.linearSuffix(current) : '';
+          }
+          lines.push(...postProcessor.toolOn(current));
+          break;
+        case 'toolOff':
+          lines.push(...postProcessor.toolOff(current));
+          break;
+      }
+    }
+
+    return lines;
+  }
+
+  // Area enclosed by outer contours as a percentage of the document area
+  private materialUsage(svg: string): number {
+    try {
+      const geometry = parseSVG(svg);
+      const documentArea = geometry.width * geometry.height;
+      if (documentArea <= 0) return 0;
+
+      const partArea = buildContourTree(geometry.shapes)
+        .filter(node => node.shape.closed)
+        .reduce((sum, node) => sum + (node.depth % 2 === 0 ? 1 : -1) * Math.abs(signedArea(node.shape.points)), 0);
+      return Math.round(Math.min(100, (partArea / documentArea) * 100) * 10) / 10;
+    } catch (error) {
+      console.error('Material usage calculation error:', error);
+      return 0;
+    }
+  }
+}
+
+type PathSegment =
+  | { type: 'linear'; x: number; y: number }
+  | { type: 'arc'; clockwise: boolean; x: number; y: number; i: number; j: number; points: Point[] };
+
+/**
+ * Replace runs of polyline points that lie on a common circle (within
+ * tolerance) with arcs, so flattened curves come back out as G2/G3 moves.
+ * The first point is the start position and is not emitted.
+ */
+export function fitArcs(points: Point[], tolerance: number): PathSegment[] {
+  const segments: PathSegment[] = [];
+  let i = 0;
+
+  while (i < points.length - 1) {
+    let best: { end: number; center: Point; clockwise: boolean } | null = null;
+
+    // An arc needs at least four points so three-point corners stay sharp
+    for (let end = i + 3; end < points.length; end++) {
+      const arc = arcThrough(points, i, end, tolerance);
+      if (!arc) break;
+      best = { end, ...arc };
+    }
+
+    if (best) {
+      const start = points[i];
+      const endPoint = points[best.end];
+      segments.push({
+        type: 'arc',
+        clockwise: best.clockwise,
+        x: endPoint.x,
+        y: endPoint.y,
+        i: best.center.x - start.x,
+        j: best.center.y - start.y,
+        points: points.slice(i + 1, best.end + 1)
+      });
+      i = best.end;
+    } else {
+      segments.push({ type: 'linear', x: points[i + 1].x, y: points[i + 1].y });
+      i++;
+    }
+  }
+
+  return segments;
+}
+
+// Circle through the first, middle and last points if every point in between fits it
+function arcThrough(points: Point[], start: number, end: number, tolerance: number): { center: Point; clockwise: boolean } | null {
+  const a = points[start];
+  const b = points[Math.floor((start + end) / 2)];
+  const c = points[end];
+  const center = circumcenter(a, b, c);
+  if (!center) return null;
+
+  const radius = distance(center, a);
+  if (radius > MAX_ARC_RADIUS) return null;
+
+  const turn = (b.x - a.x) * (c.y - b.y) - (b.y - a.y) * (c.x - b.x);
+  const direction = Math.sign(turn);
+  let sweep = 0;
+
+  for (let k = start; k < end; k++) {
+    const p = points[k];
+    const q = points[k + 1];
+    if (Math.abs(distance(center, q) - radius) > tolerance) return null;
+
+    // Every chord must turn the same way and stay close to the circle
+    const angle = Math.atan2(
+      (p.x - center.x) * (q.y - center.y) - (p.y - center.y) * (q.x - center.x),
+      (p.x - center.x) * (q.x - center.x) + (p.y - center.y) * (q.y - center.y)
+    );
+    if (Math.sign(angle) !== direction && Math.abs(angle) > 1e-12) return null;
+    const halfChord = distance(p, q) / 2;
+    if (halfChord > radius || radius - Math.sqrt(radius * radius - halfChord * halfChord) > tolerance) return null;
+    sweep += Math.abs(angle);
+  }
+
+  if (sweep > MAX_ARC_SWEEP) return null;
+  return { center, clockwise: direction < 0 };
+}
+
+function circumcenter(a: Point, b: Point, c: Point): Point | null {
+  const d = 2 * (a.x * (b.y - c.y) + b.x * (c.y - a.y) + c.x * (a.y - b.y));
+  if (Math.abs(d) < 1e-9) return null;
+
+  const a2 = a.x * a.x + a.y * a.y;
+  const b2 = b.x * b.x + b.y * b.y;
+  const c2 = c.x * c.x + c.y * c.y;
+  return {
+    x: (a2 * (b.y - c.y) + b2 * (c.y - a.y) + c2 * (a.y - b.y)) / d,
+    y: (a2 * (c.x - b.x) + b2 * (a.x - c.x) + c2 * (b.x - a.x)) / d
+  };
+}
+
+function pathLength(segments: PathSegment[], start: Point): number {
+  let length = 0;
+  let position = start;
+  for (const segment of segments) {
+    if (segment.type === 'arc') {
+      for (const p of segment.points) {
+        length += distance(position, p);
+        position = p;
+      }
+    } else {
+      const p = { x: segment.x, y: segment.y };
+      length += distance(position, p);
+      position = p;
+    }
+  }
+  return length;
+}
+
+/**
+ * Fill in machine settings for callers that only know the material and machine
+ */
+export function resolveMachineSettings(material: string, machineType: string, overrides: Partial<MachineSettings> = {}): MachineSettings {
+  const type = (machineType || '').toLowerCase();
+  const resolvedType: MachineType = type.includes('plasma') ? 'plasma'
+    : type.includes('cnc') || type.includes('router') || type.includes('mill') ? 'cnc'
+    : 'laser';
+
+  return {
+    machineType: resolvedType,
+    material,
+    thickness: 3,
+    feedRate: 1000,
+    passes: 1,
+    ...(resolvedType === 'laser' ? { laserPower: 80 } : {}),
+    ...(resolvedType === 'cnc' ? { spindleSpeed: 10000 } : {}),
+    ...overrides
+  };
+}
+
+function formatIssue(issue: SimulationResult['issues'][number]): string {
+  const prefix = issue.severity === 'error' ? 'Unsafe: ' : '';
+  const repeats = issue.occurrences > 1 ? ` (${issue.occurrences} occurrences)` : '';
+  return `${prefix}${issue.message}${repeats}`;
+}
+
+function formatNumber(value: number): string {
+  const rounded = Math.round(value * 1000) / 1000;
+  return (Object.is(rounded, -0) ? 0 : rounded).toString();
+}
+
+export const toolpathCompiler = new ToolpathCompiler();
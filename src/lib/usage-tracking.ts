@@ -2,7 +2,8 @@
 // Handles feature usage limits and billing integration
 
 import { getDatabase } from './database';
-import { createStripeService, SUBSCRIPTION_TIERS } from './stripe-service';
+import { createStripeService } from './stripe-service';
+import { PLANS, getPlan, getQuota, hasFeature, normalizeTier, type UsageFeature } from './entitlements';
 import type { Env } from './database';
 
 export interface UsageCheck {
@@ -37,94 +38,42 @@ export class UsageTracker {
 
   async checkUsageLimit(
     userId: string, 
-    feature: 'ai_generation' | 'ai_analysis' | 'template_download' | 'export_operation' | 'project_creation',
+    feature: UsageFeature,
     tier?: string
   ): Promise<UsageCheck> {
     try {
       // Get user's current tier if not provided
       if (!tier) {
         const profile = await this.database.getProfile(userId);
-        tier = profile?.subscription_tier || 'free';
+        tier = profile?.subscription_tier;
       }
 
-      const tierLimits = SUBSCRIPTION_TIERS[tier as keyof typeof SUBSCRIPTION_TIERS];
-      if (!tierLimits) {
-        return { allowed: false, message: 'Invalid subscription tier' };
-      }
-
-      // Get feature limits
-      const limits = tierLimits.limits;
-      let dailyLimit: number;
-      let monthlyLimit: number;
-
-      switch (feature) {
-        case 'ai_generation':
-        case 'ai_analysis':
-          dailyLimit = limits.ai_calls_per_day;
-          monthlyLimit = dailyLimit === -1 ? -1 : dailyLimit * 30; // rough monthly estimate
-          break;
-        case 'project_creation':
-          dailyLimit = limits.projects === -1 ? -1 : Math.max(5, limits.projects / 30);
-          monthlyLimit = limits.projects;
-          break;
-        case 'template_download':
-          // Templates are based on subscription tier, not usage limits
-          if (limits.templates === 'all' || limits.templates === 'premium') {
-            return { allowed: true };
-          } else {
-            return { allowed: false, upgradeRequired: true, message: 'Premium templates require a paid plan' };
-          }
-        case 'export_operation':
-          // Export limits based on available formats
-          return { allowed: true }; // Basic exports always allowed
-        default:
-          return { allowed: false, message: 'Unknown feature' };
-      }
-
-      // Unlimited usage for pro tier
-      if (dailyLimit === -1) {
+      const quota = getQuota(tier, feature);
+      if (quota.limit === -1) {
         return { allowed: true };
       }
 
-      // Get current usage
-      const quota = await this.database.getUsageQuota(userId, feature);
-      const usedToday = quota?.used_today || 0;
-      const usedThisMonth = quota?.used_this_month || 0;
-
-      // Check daily limit
-      if (usedToday >= dailyLimit) {
-        return {
-          allowed: false,
-          remaining: 0,
-          limit: dailyLimit,
-          resetDate: new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString().split('T')[0],
-          upgradeRequired: tier === 'free',
-          message: `Daily limit of ${dailyLimit} ${feature.replace('_', ' ')} reached`
-        };
-      }
+      const usedThisMonth = await this.database.getUsageTotal(userId, quota.features, startOfMonth());
+      const resetDate = nextMonthStart();
 
-      // Check monthly limit (if applicable)
-      if (monthlyLimit > 0 && usedThisMonth >= monthlyLimit) {
-        const nextMonth = new Date();
-        nextMonth.setMonth(nextMonth.getMonth() + 1);
-        nextMonth.setDate(1);
-        
+      if (usedThisMonth >= quota.limit) {
         return {
           allowed: false,
           remaining: 0,
-          limit: monthlyLimit,
-          resetDate: nextMonth.toISOString().split('T')[0],
-          upgradeRequired: tier === 'free',
-          message: `Monthly limit of ${monthlyLimit} ${feature.replace('_', ' ')} reached`
+          limit: quota.limit,
+          resetDate,
+          upgradeRequired: quota.plan !== 'professional',
+          message: quota.limit === 0
+            ? `${describeQuota(quota.quota)} are not included in the ${getPlan(tier).name} plan`
+            : `Monthly limit of ${quota.limit} ${describeQuota(quota.quota).toLowerCase()} reached`
         };
       }
 
-      // Usage allowed
       return {
         allowed: true,
-        remaining: dailyLimit - usedToday,
-        limit: dailyLimit,
-        resetDate: new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString().split('T')[0]
+        remaining: quota.limit - usedThisMonth,
+        limit: quota.limit,
+        resetDate
       };
 
     } catch (error) {
@@ -135,14 +84,14 @@ export class UsageTracker {
 
   async recordUsage(
     userId: string,
-    feature: 'ai_generation' | 'ai_analysis' | 'template_download' | 'export_operation' | 'project_creation',
+    feature: UsageFeature,
     quantity = 1,
     metadata?: any
   ): Promise<boolean> {
     try {
       // Get user's tier
       const profile = await this.database.getProfile(userId);
-      const tier = profile?.subscription_tier || 'free';
+      const tier = normalizeTier(profile?.subscription_tier);
 
       // Record usage event
       const timestamp = Math.floor(Date.now() / 1000);
@@ -158,7 +107,7 @@ export class UsageTracker {
       await this.database.updateUsageQuota(userId, feature, tier, quantity);
 
       // If this is a paid feature on a paid tier, report to Stripe for metered billing
-      if (this.stripeService && (tier === 'maker' || tier === 'pro') && (feature === 'ai_generation' || feature === 'ai_analysis')) {
+      if (this.stripeService && tier !== 'free' && (feature === 'ai_generation' || feature === 'ai_analysis')) {
         await this.reportMeteredUsage(userId, feature, quantity);
       }
 
@@ -172,33 +121,24 @@ export class UsageTracker {
   async getUsageStats(userId: string): Promise<UsageStats[]> {
     try {
       const profile = await this.database.getProfile(userId);
-      const tier = profile?.subscription_tier || 'free';
-      const tierLimits = SUBSCRIPTION_TIERS[tier as keyof typeof SUBSCRIPTION_TIERS];
+      const tier = normalizeTier(profile?.subscription_tier);
 
-      const features = ['ai_generation', 'ai_analysis', 'project_creation'];
+      const features: UsageFeature[] = ['ai_generation', 'ai_analysis', 'template_download', 'export_operation', 'project_creation'];
       const stats: UsageStats[] = [];
 
       for (const feature of features) {
-        const quota = await this.database.getUsageQuota(userId, feature);
-        
-        let dailyLimit = -1;
-        let monthlyLimit = -1;
-
-        if (feature === 'ai_generation' || feature === 'ai_analysis') {
-          dailyLimit = tierLimits.limits.ai_calls_per_day;
-        } else if (feature === 'project_creation') {
-          dailyLimit = tierLimits.limits.projects === -1 ? -1 : Math.max(5, tierLimits.limits.projects / 30);
-          monthlyLimit = tierLimits.limits.projects;
-        }
+        const quota = getQuota(tier, feature);
+        const daily = await this.database.getUsageQuota(userId, feature);
 
         stats.push({
           feature,
-          used_today: quota?.used_today || 0,
-          used_this_month: quota?.used_this_month || 0,
-          limit_daily: dailyLimit,
-          limit_monthly: monthlyLimit,
+          used_today: daily?.used_today || 0,
+          // Shared allowances (AI generation and analysis) report their combined use
+          used_this_month: await this.database.getUsageTotal(userId, quota.features, startOfMonth()),
+          limit_daily: -1,
+          limit_monthly: quota.limit,
           tier,
-          reset_date: quota?.reset_date || new Date().toISOString().split('T')[0]
+          reset_date: nextMonthStart()
         });
       }
 
@@ -246,19 +186,17 @@ export class UsageTracker {
   async canAccessFeature(userId: string, feature: string): Promise<boolean> {
     try {
       const profile = await this.database.getProfile(userId);
-      const tier = profile?.subscription_tier || 'free';
-      const tierLimits = SUBSCRIPTION_TIERS[tier as keyof typeof SUBSCRIPTION_TIERS];
+      const plan = getPlan(profile?.subscription_tier);
 
       switch (feature) {
         case 'premium_templates':
-          return tierLimits.limits.templates === 'premium' || tierLimits.limits.templates === 'all';
+          return hasFeature(plan.id, 'premium_templates');
         case 'advanced_export':
-          return tierLimits.limits.export_formats.includes('gcode') || 
-                 tierLimits.limits.export_formats.includes('ai');
+          return hasFeature(plan.id, 'gcode_generation');
         case 'unlimited_ai':
-          return tierLimits.limits.ai_calls_per_day === -1;
+          return plan.quotas.ai_designs === -1;
         default:
-          return true;
+          return (plan.features as string[]).includes(feature) || !isPlanFeature(feature);
       }
     } catch (error) {
       console.error('Feature access check error:', error);
@@ -312,7 +250,7 @@ export function createUsageTracker(env?: Env): UsageTracker | null {
 export async function withUsageCheck(
   env: Env,
   userId: string,
-  feature: 'ai_generation' | 'ai_analysis' | 'template_download' | 'export_operation' | 'project_creation',
+  feature: UsageFeature,
   handler: () => Promise<Response>
 ): Promise<Response> {
   const tracker = createUsageTracker(env);
@@ -348,4 +286,28 @@ export async function withUsageCheck(
   }
 
   return response;
-}
\ No newline at end of file
+}
+
+function startOfMonth(): number {
+  const now = new Date();
+  return Math.floor(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1) / 1000);
+}
+
+function nextMonthStart(): string {
+  const now = new Date();
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1)).toISOString().split('T')[0];
+}
+
+function describeQuota(quota: string): string {
+  return {
+    ai_designs: 'AI designs',
+    template_downloads: 'Template downloads',
+    exports: 'Exports',
+    projects: 'New projects'
+  }[quota] || quota;
+}
+
+// Features no plan lists are open to everyone
+function isPlanFeature(feature: string): boolean {
+  return Object.values(PLANS).some(plan => (plan.features as string[]).includes(feature));
+}
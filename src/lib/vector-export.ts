@@ -0,0 +1,291 @@
+// Vector export writers
+// Writes project SVG as PDF, EPS and Illustrator files with one layer per operation layer
+
+import { getBoundingBox, parseSVG, type Point, type SVGShape } from './svg-geometry';
+import { groupShapesByLayer, inferOperationLayers, type OperationLayerModel } from './operation-layers';
+
+export interface VectorExportOptions {
+  title?: string;
+  layers?: OperationLayerModel; // inferred from the SVG when not given
+  tolerance?: number; // mm - curve flattening tolerance
+}
+
+export interface ExportLayer {
+  name: string;
+  color: string; // #RRGGBB
+  filled: boolean; // closed shapes are filled, as engraved and pocketed areas are
+  shapes: SVGShape[];
+}
+
+export interface ExportLayout {
+  width: number; // mm
+  height: number; // mm
+  layers: ExportLayer[];
+}
+
+const DEFAULT_TOLERANCE = 0.01; // mm
+const PT_PER_MM = 72 / 25.4;
+// 0.001in, the stroke laser software reads as a vector line rather than an area to engrave
+const HAIRLINE = 0.072; // pt
+
+/**
+ * Shapes in execution order, grouped by operation layer and coloured the way
+ * the layer exports. Shapes on no layer keep their own stroke on a final
+ * "Other" layer so nothing in the design is dropped.
+ */
+export function layoutDesign(svg: string, options: VectorExportOptions = {}): ExportLayout {
+  const geometry = parseSVG(svg, { tolerance: options.tolerance ?? DEFAULT_TOLERANCE });
+  const shapes = geometry.shapes.filter(shape => shape.points.length >= 2);
+  const bounds = shapes.length > 0 ? getBoundingBox(shapes.flatMap(shape => shape.points)) : null;
+
+  const model = options.layers || inferOperationLayers(shapes, 'plywood-3mm');
+  const { groups, unassigned } = groupShapesByLayer(shapes, model);
+  const layers: ExportLayer[] = groups.map(group => ({
+    name: group.layer.name,
+    color: group.layer.color,
+    filled: group.layer.operation === 'engrave' || group.layer.operation === 'pocket',
+    shapes: group.shapes
+  }));
+  if (unassigned.length > 0) {
+    layers.push({ name: 'Other', color: '#000000', filled: false, shapes: unassigned });
+  }
+
+  return {
+    width: geometry.width > 0 ? geometry.width : (bounds ? bounds.x + bounds.width : 0),
+    height: geometry.height > 0 ? geometry.height : (bounds ? bounds.y + bounds.height : 0),
+    layers
+  };
+}
+
+/**
+ * A single-page PDF at the design's physical size. Each operation layer is
+ * an optional content group, which PDF viewers and laser software list as layers.
+ */
+export function exportPDF(svg: string, options: VectorExportOptions = {}): string {
+  const layout = layoutDesign(svg, options);
+  const page = pageSize(layout);
+  const toPage = pageTransform(layout);
+
+  const content: string[] = [];
+  layout.layers.forEach((layer, i) => {
+    const [r, g, b] = hexToRgb(layer.color);
+    content.push(`/OC /L${i} BDC`, 'q', `${num(r)} ${num(g)} ${num(b)} RG`, `${num(r)} ${num(g)} ${num(b)} rg`, `${HAIRLINE} w 1 J 1 j`);
+
+    const { filled, stroked } = splitShapes(layer);
+    if (filled.length > 0) {
+      filled.forEach(shape => content.push(...pathCommands(shape, toPage, 'm', 'l', 'h')));
+      content.push('B*');
+    }
+    if (stroked.length > 0) {
+      stroked.forEach(shape => content.push(...pathCommands(shape, toPage, 'm', 'l', 'h')));
+      content.push('S');
+    }
+    content.push('Q', 'EMC');
+  });
+  const stream = content.join('\n');
+
+  // Objects 1-4 are fixed; layer groups follow, then the document info
+  const layerRefs = layout.layers.map((_, i) => `${5 + i} 0 R`);
+  const infoId = 5 + layout.layers.length;
+  const objects = [
+    `<< /Type /Catalog /Pages 2 0 R /OCProperties << /OCGs [${layerRefs.join(' ')}] /D << /Order [${layerRefs.join(' ')}] /ON [${layerRefs.join(' ')}] >> >> >>`,
+    '<< /Type /Pages /Kids [3 0 R] /Count 1 >>',
+    `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${num(page.width)} ${num(page.height)}] /Contents 4 0 R ` +
+      `/Resources << /Properties << ${layout.layers.map((_, i) => `/L${i} ${layerRefs[i]}`).join(' ')} >> >> >>`,
+    `<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`,
+    ...layout.layers.map(layer => `<< /Type /OCG /Name (${pdfString(layer.name)}) >>`),
+    `<< /Title (${pdfString(options.title || 'Untitled')}) /Creator (CutGlueBuild) /Producer (CutGlueBuild) >>`
+  ];
+
+  let pdf = '%PDF-1.5\n';
+  const offsets: number[] = [];
+  objects.forEach((object, i) => {
+    offsets.push(pdf.length);
+    pdf += `${i + 1} 0 obj\n${object}\nendobj\n`;
+  });
+
+  const xref = pdf.length;
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info ${infoId} 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+  return pdf;
+}
+
+/**
+ * Encapsulated PostScript for print and sign software, using only
+ * level 2 operators and a bounding box at the design's size
+ */
+export function exportEPS(svg: string, options: VectorExportOptions = {}): string {
+  const layout = layoutDesign(svg, options);
+  const page = pageSize(layout);
+  const toPage = pageTransform(layout);
+
+  const lines = [
+    '%!PS-Adobe-3.0 EPSF-3.0',
+    '%%Creator: CutGlueBuild',
+    `%%Title: ${asciiText(options.title || 'Untitled')}`,
+    `%%BoundingBox: 0 0 ${Math.ceil(page.width)} ${Math.ceil(page.height)}`,
+    `%%HiResBoundingBox: 0 0 ${num(page.width)} ${num(page.height)}`,
+    '%%LanguageLevel: 2',
+    '%%Pages: 1',
+    '%%EndComments',
+    '%%Page: 1 1',
+    'gsave',
+    `${HAIRLINE} setlinewidth 1 setlinecap 1 setlinejoin`
+  ];
+
+  for (const layer of layout.layers) {
+    const [r, g, b] = hexToRgb(layer.color);
+    lines.push(`% Layer: ${asciiText(layer.name)}`, `${num(r)} ${num(g)} ${num(b)} setrgbcolor`);
+
+    const { filled, stroked } = splitShapes(layer);
+    if (filled.length > 0) {
+      lines.push('newpath');
+      filled.forEach(shape => lines.push(...pathCommands(shape, toPage, 'moveto', 'lineto', 'closepath')));
+      lines.push('gsave eofill grestore stroke');
+    }
+    if (stroked.length > 0) {
+      lines.push('newpath');
+      stroked.forEach(shape => lines.push(...pathCommands(shape, toPage, 'moveto', 'lineto', 'closepath')));
+      lines.push('stroke');
+    }
+  }
+
+  lines.push('grestore', 'showpage', '%%EOF');
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Adobe Illustrator artwork in the PostScript-based format Illustrator,
+ * CorelDRAW and most laser software open as editable layers. The prolog
+ * defines Illustrator's path operators, so the file also prints as plain PostScript.
+ */
+export function exportIllustrator(svg: string, options: VectorExportOptions = {}): string {
+  const layout = layoutDesign(svg, options);
+  const page = pageSize(layout);
+  const toPage = pageTransform(layout);
+
+  const lines = [
+    '%!PS-Adobe-3.0',
+    '%%Creator: CutGlueBuild',
+    `%%Title: ${asciiText(options.title || 'Untitled')}`,
+    `%%BoundingBox: 0 0 ${Math.ceil(page.width)} ${Math.ceil(page.height)}`,
+    `%%HiResBoundingBox: 0 0 ${num(page.width)} ${num(page.height)}`,
+    '%%AI5_FileFormat 3.0',
+    '%%AI3_ColorUsage: Color',
+    '%%EndComments',
+    '%%BeginProlog',
+    ...ILLUSTRATOR_PROLOG,
+    '%%EndProlog',
+    '%%BeginSetup',
+    '%%EndSetup'
+  ];
+
+  layout.layers.forEach((layer, i) => {
+    const [r, g, b] = hexToRgb(layer.color);
+    const [c, m, y, k] = rgbToCmyk(r, g, b);
+    lines.push(
+      '%AI5_BeginLayer',
+      `1 1 1 1 0 0 ${i} ${Math.round(r * 255)} ${Math.round(g * 255)} ${Math.round(b * 255)} Lb`,
+      `(${pdfString(layer.name)}) Ln`,
+      `${num(c)} ${num(m)} ${num(y)} ${num(k)} k`,
+      `${num(c)} ${num(m)} ${num(y)} ${num(k)} K`,
+      `${HAIRLINE} w 1 J 1 j`
+    );
+
+    const { filled, stroked } = splitShapes(layer);
+    if (filled.length > 0) {
+      // One compound path, so holes inside engraved areas stay empty
+      lines.push('*u');
+      filled.forEach(shape => lines.push(...pathCommands(shape, toPage, 'm', 'L', 'b')));
+      lines.push('*U');
+    }
+    for (const shape of stroked) {
+      lines.push(...pathCommands(shape, toPage, 'm', 'L', 's'));
+      if (!shape.closed) lines.push('S');
+    }
+
+    lines.push('LB', '%AI5_EndLayer--');
+  });
+
+  lines.push('%%PageTrailer', 'showpage', '%%Trailer', '%%EOF');
+  return lines.join('\n') + '\n';
+}
+
+// Illustrator keeps separate fill and stroke colours; PostScript has one current colour
+const ILLUSTRATOR_PROLOG = [
+  '/bd { bind def } bind def',
+  '/incompound false def',
+  '/fillcolor [0 0 0 1] def',
+  '/strokecolor [0 0 0 1] def',
+  '/dofill { fillcolor aload pop setcmykcolor eofill } bd',
+  '/dostroke { strokecolor aload pop setcmykcolor stroke } bd',
+  '/k { 4 array astore /fillcolor exch def } bd',
+  '/K { 4 array astore /strokecolor exch def } bd',
+  '/w { setlinewidth } bd',
+  '/j { setlinejoin } bd',
+  '/J { setlinecap } bd',
+  '/m { moveto } bd',
+  '/L { lineto } bd',
+  '/l { lineto } bd',
+  '/S { incompound not { dostroke } if } bd',
+  '/s { closepath S } bd',
+  '/B { incompound not { gsave dofill grestore dostroke } if } bd',
+  '/b { closepath B } bd',
+  '/*u { /incompound true def newpath } bd',
+  '/*U { /incompound false def gsave dofill grestore dostroke } bd',
+  '/Lb { 10 { pop } repeat } bd',
+  '/Ln { pop } bd',
+  '/LB { } bd'
+];
+
+function splitShapes(layer: ExportLayer): { filled: SVGShape[]; stroked: SVGShape[] } {
+  return {
+    filled: layer.filled ? layer.shapes.filter(shape => shape.closed) : [],
+    stroked: layer.filled ? layer.shapes.filter(shape => !shape.closed) : layer.shapes
+  };
+}
+
+// One line per segment keeps lines short, which PostScript readers require
+function pathCommands(shape: SVGShape, toPage: (p: Point) => Point, move: string, line: string, close: string): string[] {
+  const points = shape.points.map(toPage);
+  const commands = points.map((p, i) => `${num(p.x)} ${num(p.y)} ${i === 0 ? move : line}`);
+  if (shape.closed) commands.push(close);
+  return commands;
+}
+
+function pageSize(layout: ExportLayout): { width: number; height: number } {
+  return { width: Math.max(layout.width, 1) * PT_PER_MM, height: Math.max(layout.height, 1) * PT_PER_MM };
+}
+
+// SVG millimetres with Y down to points with Y up
+function pageTransform(layout: ExportLayout): (p: Point) => Point {
+  const height = Math.max(layout.height, 1);
+  return p => ({ x: p.x * PT_PER_MM, y: (height - p.y) * PT_PER_MM });
+}
+
+function hexToRgb(color: string): [number, number, number] {
+  const match = /^#?([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/i.exec(color);
+  if (!match) return [0, 0, 0];
+  return [parseInt(match[1], 16) / 255, parseInt(match[2], 16) / 255, parseInt(match[3], 16) / 255];
+}
+
+function rgbToCmyk(r: number, g: number, b: number): [number, number, number, number] {
+  const k = 1 - Math.max(r, g, b);
+  if (k >= 1) return [0, 0, 0, 1];
+  return [(1 - r - k) / (1 - k), (1 - g - k) / (1 - k), (1 - b - k) / (1 - k), k];
+}
+
+// PDF and PostScript literal strings share escaping; both files are written as ASCII
+function pdfString(text: string): string {
+  return asciiText(text).replace(/[\\()]/g, match => `\\${match}`);
+}
+
+function asciiText(text: string): string {
+  return text.replace(/[^\x20-\x7e]/g, '?').slice(0, 200);
+}
+
+function num(value: number): string {
+  const rounded = Math.round(value * 1000) / 1000;
+  return Object.is(rounded, -0) ? '0' : String(rounded);
+}
@@ -0,0 +1,114 @@
+// Admin AI Budgets API
+// Spend limits per day or month for everyone, a tenant or a user; status is reported by /api/admin/ai-usage
+import { createSecureAPI, parseSecureRequestBody, createSecureResponse } from '../../../lib/secure-api';
+import { getDatabase, type AIBudget } from '../../../lib/database';
+import { evaluateAIBudgets } from '../../../lib/ai-usage-tracker';
+
+export const prerender = false;
+
+const SCOPES: AIBudget['scope'][] = ['global', 'tenant', 'user'];
+const PERIODS: AIBudget['period'][] = ['day', 'month'];
+
+export const GET = createSecureAPI(async ({ request, locals, currentUser }) => {
+  const env = (locals as any)?.runtime?.env;
+  const database = getDatabase(env);
+
+  if (!currentUser || !await database.hasPermission(currentUser.id, 'ai_usage_monitoring')) {
+    return createSecureResponse({ error: 'Access denied' }, 403, request);
+  }
+
+  const budgets = await evaluateAIBudgets(database, await database.getAIBudgets());
+  return createSecureResponse({ budgets }, 200, request);
+}, {
+  requireAuth: true,
+  allowedMethods: ['GET']
+});
+
+// Creates a budget, or replaces the one already set for the same scope and period
+export const POST = createSecureAPI(async ({ request, locals, currentUser }) => {
+  const env = (locals as any)?.runtime?.env;
+  const database = getDatabase(env);
+
+  if (!currentUser || !await database.hasPermission(currentUser.id, 'system_settings')) {
+    return createSecureResponse({ error: 'Access denied' }, 403, request);
+  }
+
+  const body = await parseSecureRequestBody(request, 2000);
+  if (!body || typeof body !== 'object') {
+    return createSecureResponse({ error: 'Invalid request body' }, 400, request);
+  }
+
+  const scope = body.scope as AIBudget['scope'];
+  const period = (body.period ?? 'month') as AIBudget['period'];
+  const scopeId = scope === 'global' ? '' : typeof body.scope_id === 'string' ? body.scope_id.trim() : '';
+  const limit = Number(body.limit_usd);
+  const threshold = body.alert_threshold === undefined ? 0.8 : Number(body.alert_threshold);
+
+  if (!SCOPES.includes(scope)) {
+    return createSecureResponse({ error: `scope must be one of ${SCOPES.join(', ')}` }, 400, request);
+  }
+  if (scope !== 'global' && (!scopeId || scopeId.length > 100)) {
+    return createSecureResponse({ error: `scope_id is required for ${scope} budgets` }, 400, request);
+  }
+  if (!PERIODS.includes(period)) {
+    return createSecureResponse({ error: `period must be one of ${PERIODS.join(', ')}` }, 400, request);
+  }
+  if (!Number.isFinite(limit) || limit <= 0 || limit > 1_000_000) {
+    return createSecureResponse({ error: 'limit_usd must be a positive amount' }, 400, request);
+  }
+  if (!Number.isFinite(threshold) || threshold <= 0 || threshold > 1) {
+    return createSecureResponse({ error: 'alert_threshold must be between 0 and 1' }, 400, request);
+  }
+
+  const budget = await database.upsertAIBudget({
+    id: crypto.randomUUID(),
+    scope,
+    scope_id: scopeId,
+    period,
+    limit_usd: limit,
+    alert_threshold: threshold,
+    created_by: currentUser.id
+  });
+  if (!budget) {
+    return createSecureResponse({ error: 'Failed to save budget' }, 500, request);
+  }
+
+  await database.logAdminActivity(currentUser.id, 'ai_budget_saved', 'ai_budget', budget.id, {
+    scope,
+    scope_id: scopeId,
+    period,
+    limit_usd: limit,
+    alert_threshold: threshold
+  });
+
+  const [status] = await evaluateAIBudgets(database, [budget]);
+  return createSecureResponse({ budget: status }, 200, request);
+}, {
+  requireAuth: true,
+  allowedMethods: ['POST'],
+  allowedContentTypes: ['application/json']
+});
+
+export const DELETE = createSecureAPI(async ({ request, locals, currentUser }) => {
+  const env = (locals as any)?.runtime?.env;
+  const database = getDatabase(env);
+
+  if (!currentUser || !await database.hasPermission(currentUser.id, 'system_settings')) {
+    return createSecureResponse({ error: 'Access denied' }, 403, request);
+  }
+
+  const id = new URL(request.url).searchParams.get('id');
+  if (!id) {
+    return createSecureResponse({ error: 'id is required' }, 400, request);
+  }
+
+  if (!await database.deleteAIBudget(id)) {
+    return createSecureResponse({ error: 'Budget not found' }, 404, request);
+  }
+
+  await database.logAdminActivity(currentUser.id, 'ai_budget_deleted', 'ai_budget', id, {});
+  return createSecureResponse({ success: true }, 200, request);
+}, {
+  requireAuth: true,
+  allowedMethods: ['DELETE']
+});
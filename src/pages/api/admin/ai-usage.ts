@@ -0,0 +1,95 @@
+// Admin AI Spend API
+// Calls, tokens and cost by model, task, user, tenant and over time, with budget alerts
+import { createSecureAPI, createSecureResponse } from '../../../lib/secure-api';
+import { getDatabase, type AISpendGrouping, type AISpendRow } from '../../../lib/database';
+import { evaluateAIBudgets, toSQLiteDateTime } from '../../../lib/ai-usage-tracker';
+
+export const prerender = false;
+
+const INTERVALS: AISpendGrouping[] = ['hour', 'day', 'month'];
+const MAX_RANGE_DAYS = 366;
+const MAX_BUCKETS = 1000; // timeseries rows returned; longer ranges need a coarser interval
+const BUCKET_MS: Record<string, number> = { hour: 60 * 60 * 1000, day: 24 * 60 * 60 * 1000, month: 28 * 24 * 60 * 60 * 1000 };
+
+export const GET = createSecureAPI(async ({ request, locals, currentUser }) => {
+  const env = (locals as any)?.runtime?.env;
+  const database = getDatabase(env);
+
+  if (!currentUser || !await database.hasPermission(currentUser.id, 'ai_usage_monitoring')) {
+    return createSecureResponse({ error: 'Access denied' }, 403, request);
+  }
+
+  // Range defaults to the last 30 days, by day
+  const params = new URL(request.url).searchParams;
+  const to = params.get('to') ? new Date(params.get('to')!) : new Date();
+  const from = params.get('from') ? new Date(params.get('from')!) : new Date(to.getTime() - 30 * 24 * 60 * 60 * 1000);
+  const interval = (params.get('interval') || 'day') as AISpendGrouping;
+
+  if (isNaN(from.getTime()) || isNaN(to.getTime()) || from >= to) {
+    return createSecureResponse({ error: 'from and to must be dates with from before to' }, 400, request);
+  }
+  if (to.getTime() - from.getTime() > MAX_RANGE_DAYS * 24 * 60 * 60 * 1000) {
+    return createSecureResponse({ error: `The range can be at most ${MAX_RANGE_DAYS} days` }, 400, request);
+  }
+  if (!INTERVALS.includes(interval)) {
+    return createSecureResponse({ error: `interval must be one of ${INTERVALS.join(', ')}` }, 400, request);
+  }
+  // Rejected rather than cut short, so a chart never silently stops partway; an unaligned range touches one extra bucket
+  if (Math.ceil((to.getTime() - from.getTime()) / BUCKET_MS[interval]) + 1 > MAX_BUCKETS) {
+    const maxDays = Math.floor((MAX_BUCKETS - 1) * BUCKET_MS[interval] / (24 * 60 * 60 * 1000));
+    return createSecureResponse({
+      error: `By ${interval} the range can be at most ${maxDays} days; narrow it or use a longer interval`
+    }, 400, request);
+  }
+
+  const since = toSQLiteDateTime(from);
+  const until = toSQLiteDateTime(to);
+
+  const [byModel, byTask, byUser, byTenant, timeseries, budgets] = await Promise.all([
+    database.getAISpend('model', since, until),
+    database.getAISpend('task', since, until),
+    database.getAISpend('user', since, until, 50),
+    database.getAISpend('tenant', since, until, 50),
+    database.getAISpend(interval, since, until, MAX_BUCKETS),
+    database.getAIBudgets()
+  ]);
+  const budgetStatus = await evaluateAIBudgets(database, budgets);
+
+  return createSecureResponse({
+    range: { from: from.toISOString(), to: to.toISOString(), interval },
+    totals: sumSpend(byModel),
+    by_model: byModel,
+    by_task: byTask,
+    by_user: byUser,
+    by_tenant: byTenant,
+    timeseries,
+    budgets: budgetStatus,
+    alerts: budgetStatus
+      .filter(budget => budget.status !== 'ok')
+      .map(budget => ({
+        budget_id: budget.id,
+        scope: budget.scope,
+        scope_id: budget.scope_id,
+        period: budget.period,
+        status: budget.status,
+        message: `${budget.scope === 'global' ? 'Total' : `${budget.scope} ${budget.scope_id}`} AI spend this ${budget.period} is $${budget.spent_usd.toFixed(2)} of $${budget.limit_usd.toFixed(2)} (${Math.round(budget.ratio * 100)}%)`
+      }))
+  }, 200, request);
+}, {
+  requireAuth: true,
+  allowedMethods: ['GET']
+});
+
+// Every call has exactly one model, so the model breakdown sums to the whole range
+function sumSpend(rows: AISpendRow[]) {
+  const totals = { calls: 0, failures: 0, input_tokens: 0, output_tokens: 0, cost_usd: 0, unpriced_calls: 0 };
+  for (const row of rows) {
+    totals.calls += row.calls;
+    totals.failures += row.failures;
+    totals.input_tokens += row.input_tokens;
+    totals.output_tokens += row.output_tokens;
+    totals.cost_usd += row.cost_usd;
+    totals.unpriced_calls += row.unpriced_calls;
+  }
+  return totals;
+}
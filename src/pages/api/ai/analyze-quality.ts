@@ -0,0 +1,44 @@
+// API endpoint for fabrication quality prediction
+// Asks the model how likely a design is to cut cleanly and returns a prediction in the declared shape
+import { createSecureAPI, parseSecureRequestBody, createSecureResponse, SecurityError } from '../../../lib/secure-api';
+import { createAIService, type QualityPrediction } from '../../../lib/cloudflare-ai';
+import { validateQualityAnalysisRequest, normalizeQualityPrediction, MAX_SVG_LENGTH, type QualityAnalysisRequest } from '../../../lib/ai-validation';
+import { withUsageCheck } from '../../../lib/usage-tracking';
+
+export const prerender = false;
+
+export const POST = createSecureAPI(async ({ request, locals, currentUser }) => {
+  const env = (locals as any)?.runtime?.env;
+
+  if (!currentUser) {
+    throw new SecurityError('Authentication required');
+  }
+
+  const body = await parseSecureRequestBody(request, MAX_SVG_LENGTH + 10000);
+  let input: QualityAnalysisRequest;
+  try {
+    input = validateQualityAnalysisRequest(body);
+  } catch (error) {
+    throw new SecurityError(error instanceof Error ? error.message : 'Invalid quality analysis request');
+  }
+
+  return withUsageCheck(env, currentUser.id, 'ai_analysis', async () => {
+    const aiService = createAIService(env, { userId: currentUser.id, tenantId: currentUser.profile?.tenant_id });
+
+    try {
+      const prediction: QualityPrediction = normalizeQualityPrediction(
+        await aiService.analyzeQuality(input.svgData, input.material, input.settings)
+      );
+      return createSecureResponse(prediction, 200, request);
+    } catch (error) {
+      // Not a 2xx, so a failed analysis is not counted against the allowance
+      console.error('Quality analysis error:', error);
+      return createSecureResponse({ error: 'Quality analysis is unavailable right now' }, 503, request);
+    }
+  });
+}, {
+  requireAuth: true,
+  rateLimit: { requests: 10, windowMs: 60 * 1000 },
+  allowedMethods: ['POST'],
+  allowedContentTypes: ['application/json']
+});
@@ -0,0 +1,67 @@
+// API endpoint for G-code generation
+// Compiles toolpaths for the chosen machine profile, or a bare machine type, and counts as an export
+import { createSecureAPI, parseSecureRequestBody, createSecureResponse, SecurityError } from '../../../lib/secure-api';
+import { createAIService, type GCodeOutput } from '../../../lib/cloudflare-ai';
+import { getDatabase } from '../../../lib/database';
+import { MachineProfileRegistry, loadMachineProfiles, type MachineProfile } from '../../../lib/machine-profiles';
+import { validateGCodeRequest, MAX_SVG_LENGTH, type GCodeRequest } from '../../../lib/ai-validation';
+import { withUsageCheck } from '../../../lib/usage-tracking';
+import { canExportFormat, getPlan } from '../../../lib/entitlements';
+
+export const prerender = false;
+
+export const POST = createSecureAPI(async ({ request, locals, currentUser }) => {
+  const env = (locals as any)?.runtime?.env;
+
+  if (!currentUser) {
+    throw new SecurityError('Authentication required');
+  }
+
+  const body = await parseSecureRequestBody(request, MAX_SVG_LENGTH + 10000);
+  let input: GCodeRequest;
+  try {
+    input = validateGCodeRequest(body);
+  } catch (error) {
+    throw new SecurityError(error instanceof Error ? error.message : 'Invalid G-code request');
+  }
+
+  let machine: string | MachineProfile = input.machineType;
+  if (input.machineId) {
+    const registry = new MachineProfileRegistry(await loadMachineProfiles(getDatabase(env), currentUser.id));
+    const profile = registry.getProfile(input.machineId);
+    if (!profile) {
+      return createSecureResponse({ error: 'Machine not found' }, 404, request);
+    }
+    if (!profile.postProcessor) {
+      throw new SecurityError(`${profile.name} takes SVG files rather than G-code`);
+    }
+    machine = profile;
+  }
+
+  const tier = currentUser.profile?.subscription_tier;
+  if (!canExportFormat(tier, 'gcode')) {
+    return createSecureResponse({
+      error: 'Export format not included in plan',
+      message: `G-code export is not included in the ${getPlan(tier).name} plan`,
+      upgrade_required: true
+    }, 403, request);
+  }
+
+  // G-code is a machine file, so it uses the same monthly allowance as other exports
+  return withUsageCheck(env, currentUser.id, 'export_operation', async () => {
+    const aiService = createAIService(env, { userId: currentUser.id, tenantId: currentUser.profile?.tenant_id });
+
+    try {
+      const output: GCodeOutput = await aiService.generateGCode(input.svgData, input.material, machine, input.settings);
+      return createSecureResponse(output, 200, request);
+    } catch (error) {
+      // Geometry the compiler cannot handle comes back with a readable message
+      throw new SecurityError(error instanceof Error ? error.message : 'Could not generate G-code');
+    }
+  });
+}, {
+  requireAuth: true,
+  rateLimit: { requests: 30, windowMs: 60 * 1000 },
+  allowedMethods: ['POST'],
+  allowedContentTypes: ['application/json']
+});
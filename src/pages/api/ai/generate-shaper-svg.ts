@@ -1,117 +1,86 @@
-import type { APIRoute } from 'astro';
-import { getAuthService, getSessionFromRequest } from '../../../lib/auth';
-import { openaiService, mockAIService, isOpenAIConfigured } from '../../../lib/openai';
-import type { ShaperSVGRequest } from '../../../lib/openai';
+// API endpoint for Shaper Origin SVG conversion
+// Encodes cut types and depths by rule and reports features the tool cannot cut
+import { createSecureAPI, parseSecureRequestBody, createSecureResponse, SecurityError } from '../../../lib/secure-api';
+import { validateOperationLayers, type OperationLayerModel } from '../../../lib/operation-layers';
+import { convertToShaperSVG, DEFAULT_SHAPER_TOOL_DIAMETER, type ShaperCutType } from '../../../lib/shaper-svg';
 
-export const POST: APIRoute = async ({ request }) => {
-  try {
-    // Validate session
-    const sessionId = getSessionFromRequest(request);
-    
-    if (!sessionId) {
-      return new Response(
-        JSON.stringify({ error: 'Authentication required' }),
-        { 
-          status: 401, 
-          headers: { 'Content-Type': 'application/json' }
-        }
-      );
-    }
+export const prerender = false;
 
-    const authService = getAuthService();
-    const session = await authService.validateSession(sessionId);
-    
-    if (!session) {
-      return new Response(
-        JSON.stringify({ error: 'Invalid session' }),
-        { 
-          status: 401, 
-          headers: { 'Content-Type': 'application/json' }
-        }
-      );
-    }
+// The exporter names cut types after the Shaper Studio menu
+const CUT_TYPE_SETTINGS: Record<string, ShaperCutType> = {
+  exterior: 'outside',
+  interior: 'inside',
+  online: 'online',
+  pocket: 'pocket',
+  guide: 'guide'
+};
 
-    // Parse request body
-    const body = await request.json();
-    const { svgData, material, settings } = body;
+export const POST = createSecureAPI(async ({ request, currentUser }) => {
+  if (!currentUser) {
+    throw new SecurityError('Authentication required');
+  }
 
-    if (!material || !settings) {
-      return new Response(
-        JSON.stringify({ error: 'Material and settings are required' }),
-        { 
-          status: 400, 
-          headers: { 'Content-Type': 'application/json' }
-        }
-      );
-    }
+  const body = await parseSecureRequestBody(request, 5000000);
+  const { svgData, material, settings = {} } = body;
 
-    // Prepare Shaper SVG request
-    const shaperRequest: ShaperSVGRequest = {
-      svgData: svgData || undefined,
-      description: body.description,
-      material: material,
-      thickness: settings.thickness || 3,
-      cutTypes: settings.cutTypes || {
-        exterior: true,
-        online: true,
-        interior: false,
-        pocket: false,
-        guide: true
-      },
-      optimizeForShaper: settings.optimizeForShaper !== false,
-      includeGuides: settings.includeGuides !== false,
-      width: settings.width,
-      height: settings.height
-    };
+  if (typeof svgData !== 'string' || !svgData.includes('<svg')) {
+    throw new SecurityError('SVG data is required');
+  }
 
-    // Use appropriate service based on configuration
-    const aiService = isOpenAIConfigured() ? openaiService : mockAIService;
-    
-    // Generate Shaper SVG
-    const svg = await aiService.generateShaperSVG(shaperRequest);
+  const thickness = Number(settings.thickness ?? 3);
+  const toolDiameter = Number(settings.toolDiameter ?? DEFAULT_SHAPER_TOOL_DIAMETER);
+  if (!(thickness > 0 && thickness <= 100)) {
+    throw new SecurityError('Thickness must be between 0 and 100mm');
+  }
+  if (!(toolDiameter > 0 && toolDiameter <= 50)) {
+    throw new SecurityError('Tool diameter must be between 0 and 50mm');
+  }
 
-    // Prepare response with additional metadata
-    const response = {
-      svg,
-      material: material,
-      thickness: settings.thickness,
-      cutTypes: Object.entries(settings.cutTypes)
-        .filter(([_, enabled]) => enabled)
-        .map(([type, _]) => type),
-      shaperReady: true,
-      instructions: [
-        'Transfer this SVG file to your Shaper Origin device',
-        'Colors indicate different cut operations:',
-        '• Red (#FF0000) - Exterior cuts',
-        '• Green (#00FF00) - Interior cuts',
-        '• Blue (#0066FF) - Engraving operations',
-        '• Magenta (#FF00FF) - Pocket cuts',
-        '• Gray (#888888) - Guide marks',
-        'Set cut depths manually on the device',
-        'Test settings on scrap material first'
-      ]
-    };
+  let layers: OperationLayerModel | undefined;
+  try {
+    layers = body.operationLayers ? validateOperationLayers(body.operationLayers) : undefined;
+  } catch (error) {
+    throw new SecurityError(error instanceof Error ? error.message : 'Invalid operation layers');
+  }
 
-    return new Response(
-      JSON.stringify(response),
-      { 
-        status: 200, 
-        headers: { 'Content-Type': 'application/json' }
-      }
-    );
+  const cutTypes: Partial<Record<ShaperCutType, boolean>> = {};
+  for (const [setting, enabled] of Object.entries(settings.cutTypes || {})) {
+    if (CUT_TYPE_SETTINGS[setting]) cutTypes[CUT_TYPE_SETTINGS[setting]] = enabled !== false;
+  }
+  if (settings.includeGuides === false) cutTypes.guide = false;
 
+  let result;
+  try {
+    result = convertToShaperSVG(svgData, {
+      thickness,
+      toolDiameter,
+      material: typeof material === 'string' ? material : undefined,
+      layers,
+      cutTypes
+    });
   } catch (error) {
-    console.error('Shaper SVG generation error:', error);
-    
-    return new Response(
-      JSON.stringify({ 
-        error: 'Failed to generate Shaper SVG',
-        details: error instanceof Error ? error.message : 'Unknown error'
-      }),
-      { 
-        status: 500, 
-        headers: { 'Content-Type': 'application/json' }
-      }
-    );
+    throw new SecurityError(error instanceof Error ? error.message : 'Could not convert SVG');
   }
-};
\ No newline at end of file
+
+  return createSecureResponse({
+    svg: result.svg,
+    material,
+    thickness,
+    toolDiameter: result.toolDiameter,
+    counts: result.counts,
+    issues: result.issues,
+    shaperReady: result.issues.length === 0,
+    instructions: [
+      'Transfer this SVG file to your Shaper Origin device',
+      'Cut types are encoded in the file: black fill cuts outside, white fill inside black cuts inside,',
+      'grey lines cut on the line, grey fills are pockets and blue lines are guides only',
+      `Cut depths are set from the ${thickness}mm material thickness - check them on the device`,
+      'Test settings on scrap material first'
+    ]
+  }, 200, request);
+}, {
+  requireAuth: true,
+  rateLimit: { requests: 10, windowMs: 60 * 1000 },
+  allowedMethods: ['POST'],
+  allowedContentTypes: ['application/json']
+});
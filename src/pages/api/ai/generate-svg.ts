@@ -43,7 +43,10 @@ export const POST = createSecureAPI(async ({ request, locals, secureDb, currentU
       // Get user project history for contextual generation (optional)
       const userHistory = await secureDb.getUserProjects(currentUser.id, 5); // Last 5 projects for context
 
-      const aiService = createAgentsAIService(env);
+      const aiService = createAgentsAIService(env, {
+        userId: currentUser.id,
+        tenantId: currentUser.profile?.tenant_id
+      });
 
       const requestData: SVGGenerationRequest = {
         description,
@@ -109,6 +112,7 @@ export const POST = createSecureAPI(async ({ request, locals, secureDb, currentU
 }, {
   requireAuth: true,
   strictEndpoint: true,
+  rateLimit: { requests: 10, windowMs: 60 * 1000 },
   allowedMethods: ['POST'],
   allowedContentTypes: ['application/json']
 });
\ No newline at end of file
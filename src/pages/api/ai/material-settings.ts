@@ -59,7 +59,10 @@ export const POST: APIRoute = async ({ request, locals }) => {
       });
     }
 
-    const aiService = createAIService(env);
+    const aiService = createAIService(env, {
+      userId: currentUser.id,
+      tenantId: currentUser.profile?.tenant_id
+    });
 
     try {
       const settings = await (aiService as any).generateMaterialSettings(material, thickness, machine);
@@ -0,0 +1,62 @@
+// API endpoint for workshop guidance
+// Safety tips, steps, tools and troubleshooting for a project, preferring the saved project over what the client sent
+import { createSecureAPI, parseSecureRequestBody, createSecureResponse, SecurityError } from '../../../lib/secure-api';
+import { createAIService, type WorkshopGuidance } from '../../../lib/cloudflare-ai';
+import { getDatabase } from '../../../lib/database';
+import { validateWorkshopGuidanceRequest, normalizeWorkshopGuidance, MAX_SVG_LENGTH, type WorkshopGuidanceRequest } from '../../../lib/ai-validation';
+import { withUsageCheck } from '../../../lib/usage-tracking';
+
+export const prerender = false;
+
+export const POST = createSecureAPI(async ({ request, locals, currentUser }) => {
+  const env = (locals as any)?.runtime?.env;
+
+  if (!currentUser) {
+    throw new SecurityError('Authentication required');
+  }
+
+  // The client sends the whole project, design included
+  const body = await parseSecureRequestBody(request, MAX_SVG_LENGTH + 20000);
+  let input: WorkshopGuidanceRequest;
+  try {
+    input = validateWorkshopGuidanceRequest(body);
+  } catch (error) {
+    throw new SecurityError(error instanceof Error ? error.message : 'Invalid workshop guidance request');
+  }
+
+  let project = {
+    title: input.title,
+    description: input.description,
+    project_type: input.projectType,
+    metadata: input.metadata
+  };
+  if (input.projectId) {
+    const saved = await getDatabase(env).getUserProject(input.projectId, currentUser.id);
+    if (!saved) {
+      return createSecureResponse({ error: 'Project not found' }, 404, request);
+    }
+    project = {
+      title: saved.title,
+      description: saved.description || '',
+      project_type: saved.project_type,
+      metadata: saved.metadata || ''
+    };
+  }
+
+  return withUsageCheck(env, currentUser.id, 'ai_analysis', async () => {
+    const aiService = createAIService(env, { userId: currentUser.id, tenantId: currentUser.profile?.tenant_id });
+
+    try {
+      const guidance: WorkshopGuidance = normalizeWorkshopGuidance(await aiService.generateWorkshopGuidance(project));
+      return createSecureResponse(guidance, 200, request);
+    } catch (error) {
+      console.error('Workshop guidance error:', error);
+      return createSecureResponse({ error: 'Workshop guidance is unavailable right now' }, 503, request);
+    }
+  });
+}, {
+  requireAuth: true,
+  rateLimit: { requests: 10, windowMs: 60 * 1000 },
+  allowedMethods: ['POST'],
+  allowedContentTypes: ['application/json']
+});
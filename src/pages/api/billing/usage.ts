@@ -5,6 +5,7 @@ import type { APIRoute } from 'astro';
 import { createUsageTracker } from '../../../lib/usage-tracking';
 import { getAuthService, getSessionFromRequest } from '../../../lib/auth';
 import type { Env } from '../../../lib/database';
+import { normalizeTier } from '../../../lib/entitlements';
 
 export const GET: APIRoute = async ({ request, locals }) => {
   try {
@@ -49,7 +50,7 @@ export const GET: APIRoute = async ({ request, locals }) => {
     return new Response(JSON.stringify({
       usage_stats: usageStats,
       user_id: currentUser.id,
-      tier: currentUser.profile?.subscription_tier || 'free'
+      tier: normalizeTier(currentUser.profile?.subscription_tier)
     }), {
       status: 200,
       headers: { 'Content-Type': 'application/json' }
@@ -7,6 +7,7 @@ import { createStripeService } from '../../../lib/stripe-service';
 import { getDatabase } from '../../../lib/database';
 import type { Env } from '../../../lib/database';
 import { emailService } from '../../../lib/email-service';
+import { PLANS } from '../../../lib/entitlements';
 
 export const POST: APIRoute = async ({ request, locals }) => {
   try {
@@ -212,8 +213,7 @@ async function handleSubscriptionUpdated(event: Stripe.Event, database: any, str
     if (profile) {
       const action = event.type === 'customer.subscription.created' ? 'upgraded' : 
                      subscription.status === 'canceled' ? 'cancelled' : 'upgraded';
-      const planName = tier === 'starter' ? 'Starter Plan' :
-                       tier === 'professional' ? 'Professional Plan' : 'Free Plan';
+      const planName = `${PLANS[tier].name} Plan`;
       
       await emailService.sendSubscriptionNotification(
         profile.email,
@@ -0,0 +1,46 @@
+// API endpoint for generating a parametric component
+import { createSecureAPI, parseSecureRequestBody, createSecureResponse, InputValidator, SecurityError } from '../../../lib/secure-api';
+import { getDatabase } from '../../../lib/database';
+import { StandardComponentLibrary } from '../../../lib/component-library';
+import { loadComponentPlugins } from '../../../lib/component-plugins';
+
+export const prerender = false;
+
+const MACHINES = ['glowforge', 'shaper', 'cnc'] as const;
+
+export const POST = createSecureAPI(async ({ request, locals, currentUser }) => {
+  const env = (locals as any)?.runtime?.env;
+
+  if (!currentUser) {
+    throw new SecurityError('Authentication required');
+  }
+
+  const body = await parseSecureRequestBody(request, 10000);
+  const componentId = InputValidator.sanitizeString(body.componentId || '', 100);
+  if (!componentId) {
+    throw new SecurityError('componentId is required');
+  }
+
+  const machine = body.machine || 'glowforge';
+  if (!MACHINES.includes(machine)) {
+    throw new SecurityError(`machine must be one of: ${MACHINES.join(', ')}`);
+  }
+
+  const parameters = body.parameters && typeof body.parameters === 'object' ? body.parameters : {};
+  const kerf = body.kerf === undefined ? undefined : InputValidator.validateNumeric(body.kerf, 0, 2);
+
+  const plugins = await loadComponentPlugins(getDatabase(env), currentUser.id, currentUser.profile?.tenant_id);
+  const library = new StandardComponentLibrary(plugins);
+
+  try {
+    const component = await library.generateComponent(componentId, parameters, machine, { kerf });
+    return createSecureResponse({ componentId, machine, ...component }, 200, request);
+  } catch (error) {
+    // Unknown ids and out-of-range parameters are caller errors
+    throw new SecurityError(error instanceof Error ? error.message : 'Component generation failed');
+  }
+}, {
+  requireAuth: true,
+  allowedMethods: ['POST'],
+  allowedContentTypes: ['application/json']
+});
@@ -0,0 +1,24 @@
+// API endpoint listing parametric components
+// Built-in components plus the caller's own and tenant-shared plugins
+import { createSecureAPI, createSecureResponse, SecurityError } from '../../../lib/secure-api';
+import { getDatabase } from '../../../lib/database';
+import { StandardComponentLibrary } from '../../../lib/component-library';
+import { loadComponentPlugins } from '../../../lib/component-plugins';
+
+export const prerender = false;
+
+export const GET = createSecureAPI(async ({ request, locals, currentUser }) => {
+  const env = (locals as any)?.runtime?.env;
+
+  if (!currentUser) {
+    throw new SecurityError('Authentication required');
+  }
+
+  const plugins = await loadComponentPlugins(getDatabase(env), currentUser.id, currentUser.profile?.tenant_id);
+  const library = new StandardComponentLibrary(plugins);
+
+  return createSecureResponse({ components: library.listComponents() }, 200, request);
+}, {
+  requireAuth: true,
+  allowedMethods: ['GET']
+});
@@ -0,0 +1,94 @@
+// API endpoints for updating and deleting a component plugin
+// Only the plugin's owner may change it, including tenant-shared plugins
+import { createSecureAPI, parseSecureRequestBody, createSecureResponse, SecurityError } from '../../../../lib/secure-api';
+import { getDatabase } from '../../../../lib/database';
+import { standardComponentLibrary } from '../../../../lib/component-library';
+import { parseComponentPlugin } from '../../../../lib/component-plugins';
+
+export const prerender = false;
+
+export const PUT = createSecureAPI(async ({ params, request, locals, currentUser }) => {
+  const env = (locals as any)?.runtime?.env;
+
+  if (!currentUser) {
+    throw new SecurityError('Authentication required');
+  }
+
+  const pluginId = params.pluginId;
+  if (!pluginId) {
+    throw new SecurityError('Plugin ID is required');
+  }
+
+  const database = getDatabase(env);
+  const existing = await database.getComponentPlugin(pluginId, currentUser.id);
+  if (!existing) {
+    return createSecureResponse({ error: 'Plugin not found or access denied' }, 404, request);
+  }
+
+  const body = await parseSecureRequestBody(request, 100000);
+  const current = parseComponentPlugin(existing);
+
+  let definition;
+  try {
+    definition = await standardComponentLibrary.preparePlugin(
+      body.spec ?? current?.spec,
+      body.generator ?? current?.generator
+    );
+  } catch (error) {
+    throw new SecurityError(error instanceof Error ? error.message : 'Invalid component plugin');
+  }
+
+  // Omitting shareWithTenant keeps the current sharing
+  const tenantId = body.shareWithTenant === undefined
+    ? existing.tenant_id || null
+    : body.shareWithTenant ? currentUser.profile?.tenant_id || null : null;
+  if (body.shareWithTenant && !tenantId) {
+    throw new SecurityError('You are not a member of a workspace to share with');
+  }
+
+  if (definition.spec.id !== existing.component_id) {
+    const own = await database.getComponentPlugins(currentUser.id, null);
+    if (own.some(record => record.component_id === definition.spec.id)) {
+      return createSecureResponse({ error: `You already have a component with id "${definition.spec.id}"` }, 409, request);
+    }
+  }
+
+  const record = await database.updateComponentPlugin(pluginId, currentUser.id, {
+    tenant_id: tenantId,
+    component_id: definition.spec.id,
+    spec: JSON.stringify(definition.spec),
+    generator: JSON.stringify(definition.generator)
+  });
+  if (!record) {
+    return createSecureResponse({ error: 'Failed to update component plugin' }, 500, request);
+  }
+
+  return createSecureResponse({ plugin: parseComponentPlugin(record) }, 200, request);
+}, {
+  requireAuth: true,
+  allowedMethods: ['PUT'],
+  allowedContentTypes: ['application/json']
+});
+
+export const DELETE = createSecureAPI(async ({ params, request, locals, currentUser }) => {
+  const env = (locals as any)?.runtime?.env;
+
+  if (!currentUser) {
+    throw new SecurityError('Authentication required');
+  }
+
+  const pluginId = params.pluginId;
+  if (!pluginId) {
+    throw new SecurityError('Plugin ID is required');
+  }
+
+  const deleted = await getDatabase(env).deleteComponentPlugin(pluginId, currentUser.id);
+  if (!deleted) {
+    return createSecureResponse({ error: 'Plugin not found or access denied' }, 404, request);
+  }
+
+  return createSecureResponse({ success: true }, 200, request);
+}, {
+  requireAuth: true,
+  allowedMethods: ['DELETE']
+});
@@ -0,0 +1,71 @@
+// API endpoints for the caller's component plugins
+import { createSecureAPI, parseSecureRequestBody, createSecureResponse, SecurityError } from '../../../../lib/secure-api';
+import { getDatabase } from '../../../../lib/database';
+import { standardComponentLibrary } from '../../../../lib/component-library';
+import { parseComponentPlugin, type ComponentPlugin } from '../../../../lib/component-plugins';
+
+export const prerender = false;
+
+export const GET = createSecureAPI(async ({ request, locals, currentUser }) => {
+  const env = (locals as any)?.runtime?.env;
+
+  if (!currentUser) {
+    throw new SecurityError('Authentication required');
+  }
+
+  const records = await getDatabase(env).getComponentPlugins(currentUser.id, currentUser.profile?.tenant_id);
+  const plugins = records
+    .map(parseComponentPlugin)
+    .filter((plugin): plugin is ComponentPlugin => plugin !== null)
+    .map(plugin => ({ ...plugin, editable: plugin.ownerId === currentUser.id }));
+
+  return createSecureResponse({ plugins }, 200, request);
+}, {
+  requireAuth: true,
+  allowedMethods: ['GET']
+});
+
+export const POST = createSecureAPI(async ({ request, locals, currentUser }) => {
+  const env = (locals as any)?.runtime?.env;
+
+  if (!currentUser) {
+    throw new SecurityError('Authentication required');
+  }
+
+  const body = await parseSecureRequestBody(request, 100000); // templates with many shapes run large
+  const tenantId = body.shareWithTenant ? currentUser.profile?.tenant_id : null;
+  if (body.shareWithTenant && !tenantId) {
+    throw new SecurityError('You are not a member of a workspace to share with');
+  }
+
+  let definition;
+  try {
+    definition = await standardComponentLibrary.preparePlugin(body.spec, body.generator);
+  } catch (error) {
+    throw new SecurityError(error instanceof Error ? error.message : 'Invalid component plugin');
+  }
+
+  const database = getDatabase(env);
+  const existing = await database.getComponentPlugins(currentUser.id, null);
+  if (existing.some(record => record.component_id === definition.spec.id)) {
+    return createSecureResponse({ error: `You already have a component with id "${definition.spec.id}"` }, 409, request);
+  }
+
+  const record = await database.createComponentPlugin({
+    id: crypto.randomUUID(),
+    user_id: currentUser.id,
+    tenant_id: tenantId,
+    component_id: definition.spec.id,
+    spec: JSON.stringify(definition.spec),
+    generator: JSON.stringify(definition.generator)
+  });
+  if (!record) {
+    return createSecureResponse({ error: 'Failed to save component plugin' }, 500, request);
+  }
+
+  return createSecureResponse({ plugin: parseComponentPlugin(record) }, 201, request);
+}, {
+  requireAuth: true,
+  allowedMethods: ['POST'],
+  allowedContentTypes: ['application/json']
+});
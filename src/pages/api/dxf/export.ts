@@ -0,0 +1,55 @@
+// API endpoint for DXF export
+// Converts project SVG to an R12 or R2000 drawing with one DXF layer per operation layer
+import { createSecureAPI, parseSecureRequestBody, createSecureResponse, SecurityError } from '../../../lib/secure-api';
+import { SecurityHeaders } from '../../../lib/security';
+import { exportDXF, type DxfExportOptions } from '../../../lib/dxf';
+import { validateOperationLayers, type OperationLayerModel } from '../../../lib/operation-layers';
+
+export const prerender = false;
+
+const MAX_SVG_BYTES = 5_000_000;
+
+export const POST = createSecureAPI(async ({ request, currentUser }) => {
+  if (!currentUser) {
+    throw new SecurityError('Authentication required');
+  }
+
+  const body = await parseSecureRequestBody(request, MAX_SVG_BYTES);
+  if (typeof body.svgData !== 'string' || !body.svgData.includes('<svg')) {
+    throw new SecurityError('svgData must be an SVG document');
+  }
+
+  const version: DxfExportOptions['version'] = body.version === 'R12' ? 'R12' : 'R2000';
+  const units: DxfExportOptions['units'] = body.units === 'in' ? 'in' : 'mm';
+
+  let layers: OperationLayerModel | undefined;
+  if (body.operationLayers) {
+    try {
+      layers = validateOperationLayers(body.operationLayers);
+    } catch (error) {
+      throw new SecurityError(error instanceof Error ? error.message : 'Invalid operation layers');
+    }
+  }
+
+  let dxf: string;
+  try {
+    dxf = exportDXF(body.svgData, { version, units, layers });
+  } catch (error) {
+    console.error('DXF export error:', error);
+    return createSecureResponse({ error: 'Failed to convert SVG to DXF' }, 500, request);
+  }
+
+  const filename = `${String(body.filename || 'project').replace(/[^a-z0-9_-]/gi, '_').slice(0, 100)}.dxf`;
+  return new Response(dxf, {
+    status: 200,
+    headers: {
+      ...SecurityHeaders.getSecurityHeaders(request),
+      'Content-Type': 'application/dxf',
+      'Content-Disposition': `attachment; filename="${filename}"`
+    }
+  });
+}, {
+  requireAuth: true,
+  allowedMethods: ['POST'],
+  allowedContentTypes: ['application/json']
+});
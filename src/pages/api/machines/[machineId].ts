@@ -0,0 +1,65 @@
+// API endpoints for updating and deleting a saved machine
+import { createSecureAPI, parseSecureRequestBody, createSecureResponse, SecurityError } from '../../../lib/secure-api';
+import { getDatabase } from '../../../lib/database';
+import { validateMachineProfile } from '../../../lib/machine-profiles';
+
+export const prerender = false;
+
+export const PUT = createSecureAPI(async ({ params, request, locals, currentUser }) => {
+  const env = (locals as any)?.runtime?.env;
+
+  if (!currentUser) {
+    throw new SecurityError('Authentication required');
+  }
+
+  const machineId = params.machineId;
+  if (!machineId) {
+    throw new SecurityError('Machine ID is required');
+  }
+
+  const body = await parseSecureRequestBody(request, 5000);
+  let machine;
+  try {
+    machine = validateMachineProfile(body);
+  } catch (error) {
+    throw new SecurityError(error instanceof Error ? error.message : 'Invalid machine profile');
+  }
+
+  const { name, ...profile } = machine;
+  const record = await getDatabase(env).updateMachineProfile(machineId, currentUser.id, {
+    name,
+    profile: JSON.stringify(profile)
+  });
+  if (!record) {
+    return createSecureResponse({ error: 'Machine not found or access denied' }, 404, request);
+  }
+
+  return createSecureResponse({ machine: { ...machine, id: record.id, source: 'user' } }, 200, request);
+}, {
+  requireAuth: true,
+  allowedMethods: ['PUT'],
+  allowedContentTypes: ['application/json']
+});
+
+export const DELETE = createSecureAPI(async ({ params, request, locals, currentUser }) => {
+  const env = (locals as any)?.runtime?.env;
+
+  if (!currentUser) {
+    throw new SecurityError('Authentication required');
+  }
+
+  const machineId = params.machineId;
+  if (!machineId) {
+    throw new SecurityError('Machine ID is required');
+  }
+
+  const deleted = await getDatabase(env).deleteMachineProfile(machineId, currentUser.id);
+  if (!deleted) {
+    return createSecureResponse({ error: 'Machine not found or access denied' }, 404, request);
+  }
+
+  return createSecureResponse({ success: true }, 200, request);
+}, {
+  requireAuth: true,
+  allowedMethods: ['DELETE']
+});
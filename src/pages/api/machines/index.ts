@@ -0,0 +1,70 @@
+// API endpoints for machine profiles
+// Lists built-in machines with the caller's own, and saves new ones
+import { createSecureAPI, parseSecureRequestBody, createSecureResponse, SecurityError } from '../../../lib/secure-api';
+import { getDatabase } from '../../../lib/database';
+import { MachineProfileRegistry, loadMachineProfiles, validateMachineProfile } from '../../../lib/machine-profiles';
+
+export const prerender = false;
+
+const MAX_MACHINES_PER_USER = 50;
+
+export const GET = createSecureAPI(async ({ request, locals, currentUser }) => {
+  const env = (locals as any)?.runtime?.env;
+
+  if (!currentUser) {
+    throw new SecurityError('Authentication required');
+  }
+
+  const registry = new MachineProfileRegistry(await loadMachineProfiles(getDatabase(env), currentUser.id));
+
+  return createSecureResponse({
+    machines: registry.listProfiles(),
+    preferredMachineId: registry.resolveProfile(currentUser.profile?.preferred_machine_id).id
+  }, 200, request);
+}, {
+  requireAuth: true,
+  allowedMethods: ['GET']
+});
+
+export const POST = createSecureAPI(async ({ request, locals, currentUser }) => {
+  const env = (locals as any)?.runtime?.env;
+
+  if (!currentUser) {
+    throw new SecurityError('Authentication required');
+  }
+
+  const body = await parseSecureRequestBody(request, 5000);
+  let machine;
+  try {
+    machine = validateMachineProfile(body);
+  } catch (error) {
+    throw new SecurityError(error instanceof Error ? error.message : 'Invalid machine profile');
+  }
+
+  const database = getDatabase(env);
+  const existing = await database.getMachineProfiles(currentUser.id);
+  if (existing.length >= MAX_MACHINES_PER_USER) {
+    throw new SecurityError(`You can save up to ${MAX_MACHINES_PER_USER} machines`);
+  }
+
+  const { name, ...profile } = machine;
+  const record = await database.createMachineProfile({
+    id: crypto.randomUUID(),
+    user_id: currentUser.id,
+    name,
+    profile: JSON.stringify(profile)
+  });
+  if (!record) {
+    return createSecureResponse({ error: 'Failed to save machine' }, 500, request);
+  }
+
+  if (body.preferred === true) {
+    await database.setPreferredMachine(currentUser.id, record.id);
+  }
+
+  return createSecureResponse({ machine: { ...machine, id: record.id, source: 'user' } }, 201, request);
+}, {
+  requireAuth: true,
+  allowedMethods: ['POST'],
+  allowedContentTypes: ['application/json']
+});
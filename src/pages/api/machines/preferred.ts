@@ -0,0 +1,35 @@
+// API endpoint for choosing the machine used for validation, nesting and G-code
+import { createSecureAPI, parseSecureRequestBody, createSecureResponse, SecurityError } from '../../../lib/secure-api';
+import { getDatabase } from '../../../lib/database';
+import { MachineProfileRegistry, loadMachineProfiles } from '../../../lib/machine-profiles';
+
+export const prerender = false;
+
+export const PUT = createSecureAPI(async ({ request, locals, currentUser }) => {
+  const env = (locals as any)?.runtime?.env;
+
+  if (!currentUser) {
+    throw new SecurityError('Authentication required');
+  }
+
+  const body = await parseSecureRequestBody(request, 1000);
+  const machineId = body.machineId ?? null;
+
+  const database = getDatabase(env);
+  if (machineId !== null) {
+    const registry = new MachineProfileRegistry(await loadMachineProfiles(database, currentUser.id));
+    if (typeof machineId !== 'string' || !registry.getProfile(machineId)) {
+      throw new SecurityError('Unknown machine');
+    }
+  }
+
+  if (!(await database.setPreferredMachine(currentUser.id, machineId))) {
+    return createSecureResponse({ error: 'Failed to update preferred machine' }, 500, request);
+  }
+
+  return createSecureResponse({ preferredMachineId: machineId }, 200, request);
+}, {
+  requireAuth: true,
+  allowedMethods: ['PUT'],
+  allowedContentTypes: ['application/json']
+});
@@ -0,0 +1,86 @@
+// API endpoints for updating and deleting a custom material
+// Only the material's owner may change it, including tenant-shared materials
+import { createSecureAPI, parseSecureRequestBody, createSecureResponse, SecurityError } from '../../../lib/secure-api';
+import { getDatabase } from '../../../lib/database';
+import { serializeCustomMaterial, validateCustomMaterial } from '../../../lib/material-library';
+
+export const prerender = false;
+
+export const PUT = createSecureAPI(async ({ params, request, locals, currentUser }) => {
+  const env = (locals as any)?.runtime?.env;
+
+  if (!currentUser) {
+    throw new SecurityError('Authentication required');
+  }
+
+  const materialId = params.materialId;
+  if (!materialId) {
+    throw new SecurityError('Material ID is required');
+  }
+
+  const database = getDatabase(env);
+  const existing = await database.getCustomMaterial(materialId, currentUser.id);
+  if (!existing) {
+    return createSecureResponse({ error: 'Material not found or access denied' }, 404, request);
+  }
+
+  const body = await parseSecureRequestBody(request, 10000);
+  let material;
+  try {
+    material = validateCustomMaterial(body);
+  } catch (error) {
+    throw new SecurityError(error instanceof Error ? error.message : 'Invalid material');
+  }
+
+  // Omitting shareWithTenant keeps the current sharing
+  const tenantId = body.shareWithTenant === undefined
+    ? existing.tenant_id || null
+    : body.shareWithTenant ? currentUser.profile?.tenant_id || null : null;
+  if (body.shareWithTenant && !tenantId) {
+    throw new SecurityError('You are not a member of a workspace to share with');
+  }
+
+  if (material.key !== existing.material_key) {
+    const own = await database.getCustomMaterials(currentUser.id, null);
+    if (own.some(record => record.material_key === material.key)) {
+      return createSecureResponse({ error: `You already have a material with key "${material.key}"` }, 409, request);
+    }
+  }
+
+  const record = await database.updateCustomMaterial(materialId, currentUser.id, {
+    tenant_id: tenantId,
+    ...serializeCustomMaterial(material)
+  });
+  if (!record) {
+    return createSecureResponse({ error: 'Failed to update material' }, 500, request);
+  }
+
+  return createSecureResponse({ material: { ...material, id: record.id, scope: tenantId ? 'tenant' : 'user' } }, 200, request);
+}, {
+  requireAuth: true,
+  allowedMethods: ['PUT'],
+  allowedContentTypes: ['application/json']
+});
+
+export const DELETE = createSecureAPI(async ({ params, request, locals, currentUser }) => {
+  const env = (locals as any)?.runtime?.env;
+
+  if (!currentUser) {
+    throw new SecurityError('Authentication required');
+  }
+
+  const materialId = params.materialId;
+  if (!materialId) {
+    throw new SecurityError('Material ID is required');
+  }
+
+  const deleted = await getDatabase(env).deleteCustomMaterial(materialId, currentUser.id);
+  if (!deleted) {
+    return createSecureResponse({ error: 'Material not found or access denied' }, 404, request);
+  }
+
+  return createSecureResponse({ success: true }, 200, request);
+}, {
+  requireAuth: true,
+  allowedMethods: ['DELETE']
+});
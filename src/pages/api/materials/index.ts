@@ -0,0 +1,74 @@
+// API endpoints for the material library
+// Lists built-in materials with the caller's custom ones, and saves new ones
+import { createSecureAPI, parseSecureRequestBody, createSecureResponse, SecurityError } from '../../../lib/secure-api';
+import { getDatabase } from '../../../lib/database';
+import { MATERIALS } from '../../../lib/material-database';
+import { loadCustomMaterials, serializeCustomMaterial, validateCustomMaterial } from '../../../lib/material-library';
+
+export const prerender = false;
+
+const MAX_MATERIALS_PER_USER = 200;
+
+export const GET = createSecureAPI(async ({ request, locals, currentUser }) => {
+  const env = (locals as any)?.runtime?.env;
+
+  if (!currentUser) {
+    throw new SecurityError('Authentication required');
+  }
+
+  const custom = await loadCustomMaterials(getDatabase(env), currentUser.id, currentUser.profile?.tenant_id);
+
+  return createSecureResponse({
+    builtin: Object.entries(MATERIALS).map(([key, material]) => ({ ...material, key })),
+    custom: custom.map(material => ({ ...material, editable: material.ownerId === currentUser.id }))
+  }, 200, request);
+}, {
+  requireAuth: true,
+  allowedMethods: ['GET']
+});
+
+export const POST = createSecureAPI(async ({ request, locals, currentUser }) => {
+  const env = (locals as any)?.runtime?.env;
+
+  if (!currentUser) {
+    throw new SecurityError('Authentication required');
+  }
+
+  const body = await parseSecureRequestBody(request, 10000);
+  const tenantId = body.shareWithTenant ? currentUser.profile?.tenant_id : null;
+  if (body.shareWithTenant && !tenantId) {
+    throw new SecurityError('You are not a member of a workspace to share with');
+  }
+
+  let material;
+  try {
+    material = validateCustomMaterial(body);
+  } catch (error) {
+    throw new SecurityError(error instanceof Error ? error.message : 'Invalid material');
+  }
+
+  const database = getDatabase(env);
+  const own = await database.getCustomMaterials(currentUser.id, null);
+  if (own.length >= MAX_MATERIALS_PER_USER) {
+    throw new SecurityError(`You can save up to ${MAX_MATERIALS_PER_USER} materials`);
+  }
+  if (own.some(record => record.material_key === material.key)) {
+    return createSecureResponse({ error: `You already have a material with key "${material.key}"` }, 409, request);
+  }
+
+  const record = await database.createCustomMaterial({
+    id: crypto.randomUUID(),
+    user_id: currentUser.id,
+    tenant_id: tenantId,
+    ...serializeCustomMaterial(material)
+  });
+  if (!record) {
+    return createSecureResponse({ error: 'Failed to save material' }, 500, request);
+  }
+
+  return createSecureResponse({ material: { ...material, id: record.id, scope: tenantId ? 'tenant' : 'user' } }, 201, request);
+}, {
+  requireAuth: true,
+  allowedMethods: ['POST'],
+  allowedContentTypes: ['application/json']
+});
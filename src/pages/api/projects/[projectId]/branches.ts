@@ -0,0 +1,86 @@
+// API endpoint for listing a project's branches and forking new ones
+// A branch is forked from any revision; it shares history up to that point
+import { createSecureAPI, createSecureResponse, parseSecureRequestBody, SecurityError } from '../../../../lib/secure-api';
+import { getDatabase } from '../../../../lib/database';
+import { ensureMainBranch, isValidBranchName } from '../../../../lib/revision-branches';
+
+export const prerender = false;
+
+export const GET = createSecureAPI(async ({ params, request, locals, currentUser }) => {
+  const env = (locals as any)?.runtime?.env;
+
+  if (!currentUser) {
+    throw new SecurityError('Authentication required');
+  }
+
+  const database = getDatabase(env);
+  const project = await database.getUserProject(params.projectId || '', currentUser.id);
+  if (!project) {
+    return createSecureResponse({ error: 'Project not found' }, 404, request);
+  }
+
+  const { branches, current } = await ensureMainBranch(database, project);
+
+  return createSecureResponse({
+    branches: branches.map(branch => ({ ...branch, current: branch.id === current.id })),
+    currentBranchId: current.id
+  }, 200, request);
+}, {
+  requireAuth: true,
+  allowedMethods: ['GET']
+});
+
+export const POST = createSecureAPI(async ({ params, request, locals, currentUser }) => {
+  const env = (locals as any)?.runtime?.env;
+
+  if (!currentUser) {
+    throw new SecurityError('Authentication required');
+  }
+
+  const body = await parseSecureRequestBody(request, 4096);
+  if (!isValidBranchName(body.name)) {
+    throw new SecurityError('Branch names use letters, numbers, spaces, ".", "_", "-" or "/" and are at most 50 characters');
+  }
+
+  const database = getDatabase(env);
+  const project = await database.getUserProject(params.projectId || '', currentUser.id);
+  if (!project) {
+    return createSecureResponse({ error: 'Project not found' }, 404, request);
+  }
+
+  const { branches, current } = await ensureMainBranch(database, project);
+  if (branches.some(branch => branch.name.toLowerCase() === body.name.toLowerCase())) {
+    throw new SecurityError(`A branch named "${body.name}" already exists`);
+  }
+
+  // Fork from the given revision, or from the tip of the branch being edited
+  let fromRevisionId = current.head_revision_id;
+  if (body.fromRevisionId !== undefined) {
+    const revision = typeof body.fromRevisionId === 'string' ? await database.getProjectRevision(body.fromRevisionId) : null;
+    if (!revision || revision.project_id !== project.id) {
+      return createSecureResponse({ error: 'Revision not found' }, 404, request);
+    }
+    fromRevisionId = revision.id;
+  }
+  if (!fromRevisionId) {
+    throw new SecurityError('Save a revision before creating a branch');
+  }
+
+  const branch = await database.createProjectBranch({
+    id: crypto.randomUUID(),
+    project_id: project.id,
+    name: body.name,
+    head_revision_id: fromRevisionId,
+    base_revision_id: fromRevisionId,
+    created_by: currentUser.id
+  });
+  if (!branch) {
+    return createSecureResponse({ error: 'Failed to create branch' }, 500, request);
+  }
+
+  return createSecureResponse({ branch }, 201, request);
+}, {
+  requireAuth: true,
+  allowedMethods: ['POST'],
+  allowedContentTypes: ['application/json']
+});
@@ -0,0 +1,73 @@
+// API endpoint for a single branch: its history, or deleting it
+import { createSecureAPI, createSecureResponse, SecurityError } from '../../../../../lib/secure-api';
+import { getDatabase } from '../../../../../lib/database';
+import { branchHistory, ensureMainBranch, MAIN_BRANCH } from '../../../../../lib/revision-branches';
+
+export const prerender = false;
+
+export const GET = createSecureAPI(async ({ params, request, locals, currentUser }) => {
+  const env = (locals as any)?.runtime?.env;
+
+  if (!currentUser) {
+    throw new SecurityError('Authentication required');
+  }
+
+  const database = getDatabase(env);
+  const project = await database.getUserProject(params.projectId || '', currentUser.id);
+  if (!project) {
+    return createSecureResponse({ error: 'Project not found' }, 404, request);
+  }
+
+  const { branches, current } = await ensureMainBranch(database, project);
+  const branch = branches.find(candidate => candidate.id === params.branchId);
+  if (!branch) {
+    return createSecureResponse({ error: 'Branch not found' }, 404, request);
+  }
+
+  const revisions = await database.getProjectRevisions(project.id);
+
+  return createSecureResponse({
+    branch: { ...branch, current: branch.id === current.id },
+    revisions: branchHistory(revisions, branch.head_revision_id)
+  }, 200, request);
+}, {
+  requireAuth: true,
+  allowedMethods: ['GET']
+});
+
+export const DELETE = createSecureAPI(async ({ params, request, locals, currentUser }) => {
+  const env = (locals as any)?.runtime?.env;
+
+  if (!currentUser) {
+    throw new SecurityError('Authentication required');
+  }
+
+  const database = getDatabase(env);
+  const project = await database.getUserProject(params.projectId || '', currentUser.id);
+  if (!project) {
+    return createSecureResponse({ error: 'Project not found' }, 404, request);
+  }
+
+  const { branches, current } = await ensureMainBranch(database, project);
+  const branch = branches.find(candidate => candidate.id === params.branchId);
+  if (!branch) {
+    return createSecureResponse({ error: 'Branch not found' }, 404, request);
+  }
+  if (branch.name === MAIN_BRANCH) {
+    throw new SecurityError('The main branch cannot be deleted');
+  }
+  if (branch.id === current.id) {
+    throw new SecurityError('Switch to another branch before deleting this one');
+  }
+
+  // Revisions stay in the project history; only the name and head go away
+  const deleted = await database.deleteProjectBranch(branch.id, project.id);
+  if (!deleted) {
+    return createSecureResponse({ error: 'Failed to delete branch' }, 500, request);
+  }
+
+  return createSecureResponse({ success: true }, 200, request);
+}, {
+  requireAuth: true,
+  allowedMethods: ['DELETE']
+});
@@ -0,0 +1,46 @@
+// API endpoint for switching the branch a project is edited on
+// The project's working design is replaced by the branch head
+import { createSecureAPI, createSecureResponse, parseSecureRequestBody, SecurityError } from '../../../../lib/secure-api';
+import { getDatabase } from '../../../../lib/database';
+import { applyRevision, ensureMainBranch } from '../../../../lib/revision-branches';
+
+export const prerender = false;
+
+export const POST = createSecureAPI(async ({ params, request, locals, currentUser }) => {
+  const env = (locals as any)?.runtime?.env;
+
+  if (!currentUser) {
+    throw new SecurityError('Authentication required');
+  }
+
+  const body = await parseSecureRequestBody(request, 1024);
+  if (typeof body.branchId !== 'string') {
+    throw new SecurityError('A branch is required');
+  }
+
+  const database = getDatabase(env);
+  const project = await database.getUserProject(params.projectId || '', currentUser.id);
+  if (!project) {
+    return createSecureResponse({ error: 'Project not found' }, 404, request);
+  }
+
+  const { branches } = await ensureMainBranch(database, project);
+  const branch = branches.find(candidate => candidate.id === body.branchId);
+  if (!branch) {
+    return createSecureResponse({ error: 'Branch not found' }, 404, request);
+  }
+
+  const head = branch.head_revision_id ? await database.getProjectRevision(branch.head_revision_id) : null;
+  const updatedProject = head
+    ? await applyRevision(database, project, head, branch)
+    : await database.updateUserProject(project.id, currentUser.id, { current_branch_id: branch.id });
+  if (!updatedProject) {
+    return createSecureResponse({ error: 'Failed to switch branch' }, 500, request);
+  }
+
+  return createSecureResponse({ branch, project: updatedProject }, 200, request);
+}, {
+  requireAuth: true,
+  allowedMethods: ['POST'],
+  allowedContentTypes: ['application/json']
+});
@@ -0,0 +1,78 @@
+// API endpoint for comparing two revisions of a project
+// Revisions are named by id or number; "to" defaults to the project's current design
+import { createSecureAPI, createSecureResponse, SecurityError } from '../../../../lib/secure-api';
+import { getDatabase, type ProjectRevision } from '../../../../lib/database';
+import { diffDesigns } from '../../../../lib/design-diff';
+
+export const prerender = false;
+
+export const GET = createSecureAPI(async ({ params, request, locals, currentUser }) => {
+  const env = (locals as any)?.runtime?.env;
+
+  if (!currentUser) {
+    throw new SecurityError('Authentication required');
+  }
+
+  const url = new URL(request.url);
+  const from = url.searchParams.get('from');
+  const to = url.searchParams.get('to');
+  if (!from) {
+    throw new SecurityError('A revision to compare from is required');
+  }
+
+  const database = getDatabase(env);
+  const project = await database.getUserProject(params.projectId || '', currentUser.id);
+  if (!project) {
+    return createSecureResponse({ error: 'Project not found' }, 404, request);
+  }
+
+  const revisions = await database.getProjectRevisions(project.id);
+  const before = findRevision(revisions, from);
+  const after = to ? findRevision(revisions, to) : null;
+  if (!before || (to && !after)) {
+    return createSecureResponse({ error: 'Revision not found' }, 404, request);
+  }
+
+  const afterSvg = after ? after.svg_data : project.svg_data;
+  if (!before.svg_data || !afterSvg) {
+    throw new SecurityError('Both versions need a design to compare');
+  }
+
+  let diff;
+  try {
+    diff = diffDesigns(before.svg_data, afterSvg);
+  } catch (error) {
+    console.error('Revision diff error:', error);
+    throw new SecurityError('Could not read one of the designs');
+  }
+
+  return createSecureResponse({
+    from: describe(before),
+    to: after ? describe(after) : { id: null, revision_number: null, current: true },
+    summary: {
+      added: diff.added.length,
+      removed: diff.removed.length,
+      moved: diff.moved.length,
+      resized: diff.resized.length,
+      unchanged: diff.unchanged
+    },
+    ...diff
+  }, 200, request);
+}, {
+  requireAuth: true,
+  allowedMethods: ['GET']
+});
+
+function findRevision(revisions: ProjectRevision[], key: string): ProjectRevision | undefined {
+  return revisions.find(revision => revision.id === key) ||
+    (/^\d+$/.test(key) ? revisions.find(revision => revision.revision_number === Number(key)) : undefined);
+}
+
+function describe(revision: ProjectRevision) {
+  return {
+    id: revision.id,
+    revision_number: revision.revision_number,
+    changes_description: revision.changes_description || null,
+    created_at: revision.created_at
+  };
+}
@@ -0,0 +1,61 @@
+// API endpoints for a project's autosaved draft
+// The editor offers the draft back when it was edited from the revision still current
+import { createSecureAPI, createSecureResponse, SecurityError } from '../../../../lib/secure-api';
+import { getDatabase } from '../../../../lib/database';
+
+export const prerender = false;
+
+export const GET = createSecureAPI(async ({ params, request, locals, currentUser }) => {
+  const env = (locals as any)?.runtime?.env;
+
+  if (!currentUser) {
+    throw new SecurityError('Authentication required');
+  }
+
+  const database = getDatabase(env);
+  const project = await database.getUserProject(params.projectId || '', currentUser.id);
+  if (!project) {
+    return createSecureResponse({ error: 'Project not found' }, 404, request);
+  }
+
+  const draft = await database.getProjectDraft(project.id, currentUser.id);
+  const currentRevisionId = project.current_revision_id ?? null;
+
+  return createSecureResponse({
+    currentRevisionId,
+    draft: draft && {
+      svgData: draft.svg_data,
+      metadata: draft.metadata ? JSON.parse(draft.metadata) : null,
+      version: draft.version,
+      baseRevisionId: draft.base_revision_id,
+      updatedAt: draft.updated_at,
+      stale: draft.base_revision_id !== currentRevisionId // a named save has landed since the draft was written
+    }
+  }, 200, request);
+}, {
+  requireAuth: true,
+  allowedMethods: ['GET']
+});
+
+export const DELETE = createSecureAPI(async ({ params, request, locals, currentUser }) => {
+  const env = (locals as any)?.runtime?.env;
+
+  if (!currentUser) {
+    throw new SecurityError('Authentication required');
+  }
+
+  const database = getDatabase(env);
+  const project = await database.getUserProject(params.projectId || '', currentUser.id);
+  if (!project) {
+    return createSecureResponse({ error: 'Project not found' }, 404, request);
+  }
+
+  if (!await database.deleteProjectDraft(project.id, currentUser.id)) {
+    return createSecureResponse({ error: 'Failed to discard draft' }, 500, request);
+  }
+
+  return createSecureResponse({ success: true }, 200, request);
+}, {
+  requireAuth: true,
+  allowedMethods: ['DELETE']
+});
@@ -0,0 +1,55 @@
+// API endpoint for duplicating a project
+// The copy starts from the working design with a fresh history; revisions and branches are not copied
+import { createSecureAPI, parseSecureRequestBody, createSecureResponse, SecurityError } from '../../../../lib/secure-api';
+import { getDatabase } from '../../../../lib/database';
+import { validateProjectInput } from '../../../../lib/project-validation';
+import { createProjectWithRevision } from '../../../../lib/revision-branches';
+import { withUsageCheck } from '../../../../lib/usage-tracking';
+
+export const prerender = false;
+
+export const POST = createSecureAPI(async ({ params, request, locals, currentUser }) => {
+  const env = (locals as any)?.runtime?.env;
+
+  if (!currentUser) {
+    throw new SecurityError('Authentication required');
+  }
+
+  const body = await parseSecureRequestBody(request, 1024);
+  let title: string | undefined;
+  try {
+    title = body.title === undefined ? undefined : validateProjectInput({ title: body.title }, 'update').title;
+  } catch (error) {
+    throw new SecurityError(error instanceof Error ? error.message : 'Invalid title');
+  }
+
+  const database = getDatabase(env);
+  const source = await database.getUserProject(params.projectId || '', currentUser.id);
+  if (!source) {
+    return createSecureResponse({ error: 'Project not found' }, 404, request);
+  }
+
+  return withUsageCheck(env, currentUser.id, 'project_creation', async () => {
+    const project = await createProjectWithRevision(database, {
+      id: crypto.randomUUID(),
+      user_id: currentUser.id,
+      title: title || `${source.title} (copy)`.slice(0, 200),
+      description: source.description,
+      svg_data: source.svg_data,
+      project_type: source.project_type,
+      metadata: source.metadata,
+      canvas_settings: source.canvas_settings,
+      operation_layers: source.operation_layers
+    }, `Duplicated from "${source.title}"`);
+    if (!project) {
+      return createSecureResponse({ error: 'Failed to duplicate project' }, 500, request);
+    }
+
+    return createSecureResponse({ project }, 201, request);
+  });
+}, {
+  requireAuth: true,
+  rateLimit: { requests: 30, windowMs: 60 * 1000 },
+  allowedMethods: ['POST'],
+  allowedContentTypes: ['application/json']
+});
@@ -0,0 +1,207 @@
+// API endpoints for exporting a project
+// POST checks the plan's formats and monthly exports, records the export and returns a signed link; GET serves that link
+import { createSecureAPI, parseSecureRequestBody, createSecureResponse, SecurityError } from '../../../../lib/secure-api';
+import { SecurityHeaders } from '../../../../lib/security';
+import { getDatabase, type DatabaseService, type UserProject } from '../../../../lib/database';
+import { createUsageTracker } from '../../../../lib/usage-tracking';
+import { inferOperationLayers, parseOperationLayers } from '../../../../lib/operation-layers';
+import { MachineProfileRegistry, loadMachineProfiles } from '../../../../lib/machine-profiles';
+import {
+  DOWNLOAD_TTL,
+  EXPORT_FORMATS,
+  ExportError,
+  digestExport,
+  isExportFormat,
+  renderExport,
+  signDownload,
+  validateExportOptions,
+  verifyDownload,
+  type ExportOptions
+} from '../../../../lib/design-export';
+import { canExportFormat, getPlan, type ExportFormat } from '../../../../lib/entitlements';
+
+export const prerender = false;
+
+export const POST = createSecureAPI(async ({ params, request, locals, currentUser }) => {
+  const env = (locals as any)?.runtime?.env;
+
+  if (!currentUser) {
+    throw new SecurityError('Authentication required');
+  }
+
+  const body = await parseSecureRequestBody(request, 5000);
+  if (!isExportFormat(body.format)) {
+    throw new SecurityError(`Format must be one of ${Object.keys(EXPORT_FORMATS).join(', ')}`);
+  }
+  const format = body.format;
+
+  let options: ExportOptions;
+  try {
+    options = validateExportOptions(format, body.options);
+  } catch (error) {
+    throw new SecurityError(error instanceof Error ? error.message : 'Invalid export options');
+  }
+
+  const database = getDatabase(env);
+  const project = await database.getUserProject(params.projectId || '', currentUser.id);
+  if (!project) {
+    return createSecureResponse({ error: 'Project not found' }, 404, request);
+  }
+  if (!project.svg_data) {
+    throw new SecurityError('This project has no design to export yet');
+  }
+
+  const tier = currentUser.profile?.subscription_tier;
+  if (!canExportFormat(tier, format)) {
+    return createSecureResponse({
+      error: 'Export format not included in plan',
+      message: `${EXPORT_FORMATS[format].name} export is not included in the ${getPlan(tier).name} plan`,
+      upgrade_required: true
+    }, 403, request);
+  }
+
+  const tracker = createUsageTracker(env);
+  const usage = await tracker.checkUsageLimit(currentUser.id, 'export_operation', tier);
+  if (!usage.allowed) {
+    return createSecureResponse({
+      error: 'Usage limit exceeded',
+      message: usage.message,
+      limit: usage.limit,
+      remaining: usage.remaining,
+      reset_date: usage.resetDate,
+      upgrade_required: usage.upgradeRequired
+    }, 429, request);
+  }
+
+  const secret = env.JWT_SECRET;
+  if (!secret) {
+    console.error('Export error: JWT_SECRET is not configured');
+    return createSecureResponse({ error: 'Exports are not available right now' }, 500, request);
+  }
+
+  let rendered;
+  try {
+    rendered = await renderExport(await exportSource(database, project, format, options), format, options);
+  } catch (error) {
+    if (error instanceof ExportError) {
+      throw new SecurityError(error.message);
+    }
+    throw error;
+  }
+
+  const expires = Math.floor(Date.now() / 1000) + DOWNLOAD_TTL;
+  const token = await signDownload(secret, {
+    projectId: project.id,
+    userId: currentUser.id,
+    format,
+    options,
+    digest: await digestExport(rendered.body),
+    expires
+  });
+
+  // Counted once the file exists, so a failed render never uses up an export
+  await tracker.recordUsage(currentUser.id, 'export_operation', 1, {
+    project_id: project.id,
+    format,
+    bytes: rendered.body.length
+  });
+
+  return createSecureResponse({
+    download: {
+      url: `/api/projects/${encodeURIComponent(project.id)}/export?token=${encodeURIComponent(token)}`,
+      filename: rendered.filename,
+      contentType: rendered.contentType,
+      size: rendered.body.length,
+      expiresAt: new Date(expires * 1000).toISOString()
+    },
+    warnings: rendered.warnings,
+    usage: {
+      limit: usage.limit ?? -1,
+      remaining: usage.remaining !== undefined ? usage.remaining - 1 : -1,
+      reset_date: usage.resetDate || null
+    }
+  }, 200, request);
+}, {
+  requireAuth: true,
+  rateLimit: { requests: 30, windowMs: 60 * 1000 },
+  allowedMethods: ['POST'],
+  allowedContentTypes: ['application/json']
+});
+
+// The signed token is the credential, so links work in download managers and new tabs without a session
+export const GET = createSecureAPI(async ({ params, request, locals }) => {
+  const env = (locals as any)?.runtime?.env;
+
+  const token = new URL(request.url).searchParams.get('token');
+  const claims = token && env.JWT_SECRET ? await verifyDownload(env.JWT_SECRET, token) : null;
+  if (!claims || claims.projectId !== params.projectId) {
+    return createSecureResponse({ error: 'This download link is invalid or has expired' }, 403, request);
+  }
+
+  const database = getDatabase(env);
+  const project = await database.getUserProject(claims.projectId, claims.userId);
+  if (!project || !project.svg_data) {
+    return createSecureResponse({ error: 'Project not found' }, 404, request);
+  }
+
+  let rendered;
+  try {
+    rendered = await renderExport(await exportSource(database, project, claims.format, claims.options), claims.format, claims.options);
+  } catch (error) {
+    console.error('Export download error:', error);
+    rendered = null;
+  }
+  if (!rendered || await digestExport(rendered.body) !== claims.digest) {
+    return createSecureResponse({ error: 'The design has changed since this export was prepared. Export it again.' }, 410, request);
+  }
+
+  return new Response(rendered.body, {
+    status: 200,
+    headers: {
+      ...SecurityHeaders.getSecurityHeaders(request),
+      'Content-Type': rendered.contentType,
+      'Content-Disposition': `attachment; filename="${rendered.filename}"`,
+      'Cache-Control': 'private, no-store'
+    }
+  });
+}, {
+  requireAuth: false,
+  rateLimit: { requests: 60, windowMs: 60 * 1000 },
+  allowedMethods: ['GET']
+});
+
+async function exportSource(database: DatabaseService, project: UserProject, format: ExportFormat, options: ExportOptions) {
+  const material = projectMaterial(project);
+  const svg = project.svg_data || '';
+
+  let machine;
+  if (format === 'gcode') {
+    const profile = await database.getProfile(project.user_id);
+    const registry = new MachineProfileRegistry(await loadMachineProfiles(database, project.user_id));
+    machine = options.machineId
+      ? registry.getProfile(options.machineId)
+      : registry.resolveProfile(profile?.preferred_machine_id);
+    if (!machine) {
+      throw new ExportError('Machine not found');
+    }
+  }
+
+  return {
+    svg,
+    title: project.title,
+    material,
+    // Designs saved before layers existed get the model their colours and groups imply
+    layers: parseOperationLayers(project.operation_layers) || inferOperationLayers(svg, material),
+    machine
+  };
+}
+
+// Material recorded when the design was generated, for layer settings and feeds
+function projectMaterial(project: UserProject): string {
+  try {
+    const metadata = project.metadata ? JSON.parse(project.metadata) : {};
+    return typeof metadata.material === 'string' ? metadata.material : 'plywood-3mm';
+  } catch {
+    return 'plywood-3mm';
+  }
+}
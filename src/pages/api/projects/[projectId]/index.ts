@@ -0,0 +1,77 @@
+// API endpoints for a single project
+// Reads, renames and describes, and deletes a project; design edits are saved as revisions instead
+import { createSecureAPI, parseSecureRequestBody, createSecureResponse, SecurityError } from '../../../../lib/secure-api';
+import { getDatabase } from '../../../../lib/database';
+import { validateProjectInput, type ProjectInput } from '../../../../lib/project-validation';
+
+export const prerender = false;
+
+export const GET = createSecureAPI(async ({ params, request, locals, currentUser }) => {
+  const env = (locals as any)?.runtime?.env;
+
+  if (!currentUser) {
+    throw new SecurityError('Authentication required');
+  }
+
+  const project = await getDatabase(env).getUserProject(params.projectId || '', currentUser.id);
+  if (!project) {
+    return createSecureResponse({ error: 'Project not found' }, 404, request);
+  }
+
+  return createSecureResponse({ project }, 200, request);
+}, {
+  requireAuth: true,
+  allowedMethods: ['GET']
+});
+
+// Title, description, metadata and canvas settings; fields left out are unchanged
+export const PUT = createSecureAPI(async ({ params, request, locals, currentUser }) => {
+  const env = (locals as any)?.runtime?.env;
+
+  if (!currentUser) {
+    throw new SecurityError('Authentication required');
+  }
+
+  const body = await parseSecureRequestBody(request, 20000);
+  let input: ProjectInput;
+  try {
+    input = validateProjectInput(body, 'update');
+  } catch (error) {
+    throw new SecurityError(error instanceof Error ? error.message : 'Invalid project');
+  }
+
+  const project = await getDatabase(env).updateUserProject(params.projectId || '', currentUser.id, input);
+  if (!project) {
+    return createSecureResponse({ error: 'Project not found' }, 404, request);
+  }
+
+  return createSecureResponse({ project }, 200, request);
+}, {
+  requireAuth: true,
+  allowedMethods: ['PUT'],
+  allowedContentTypes: ['application/json']
+});
+
+// Revisions, branches and the draft go with the project
+export const DELETE = createSecureAPI(async ({ params, request, locals, currentUser }) => {
+  const env = (locals as any)?.runtime?.env;
+
+  if (!currentUser) {
+    throw new SecurityError('Authentication required');
+  }
+
+  const database = getDatabase(env);
+  const project = await database.getUserProject(params.projectId || '', currentUser.id);
+  if (!project) {
+    return createSecureResponse({ error: 'Project not found' }, 404, request);
+  }
+
+  if (!await database.deleteUserProject(project.id, currentUser.id)) {
+    return createSecureResponse({ error: 'Failed to delete project' }, 500, request);
+  }
+
+  return createSecureResponse({ success: true }, 200, request);
+}, {
+  requireAuth: true,
+  allowedMethods: ['DELETE']
+});
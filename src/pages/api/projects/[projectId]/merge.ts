@@ -0,0 +1,135 @@
+// API endpoint for merging one branch of a project into another
+// Non-conflicting shape edits merge automatically; conflicts come back for the user to resolve
+import { createSecureAPI, createSecureResponse, parseSecureRequestBody, SecurityError } from '../../../../lib/secure-api';
+import { getDatabase } from '../../../../lib/database';
+import { mergeDesigns, type MergeSide } from '../../../../lib/revision-merge';
+import {
+  applyRevision,
+  BranchHeadMovedError,
+  commitRevision,
+  ensureMainBranch,
+  findMergeBase,
+  isCheckedOut
+} from '../../../../lib/revision-branches';
+
+export const prerender = false;
+
+export const POST = createSecureAPI(async ({ params, request, locals, currentUser }) => {
+  const env = (locals as any)?.runtime?.env;
+
+  if (!currentUser) {
+    throw new SecurityError('Authentication required');
+  }
+
+  const body = await parseSecureRequestBody(request, 16384);
+  if (typeof body.source !== 'string') {
+    throw new SecurityError('A branch to merge from is required');
+  }
+  const resolutions = validateResolutions(body.resolutions);
+
+  const database = getDatabase(env);
+  const project = await database.getUserProject(params.projectId || '', currentUser.id);
+  if (!project) {
+    return createSecureResponse({ error: 'Project not found' }, 404, request);
+  }
+
+  // Merges into the checked-out branch unless a target is named
+  const { branches, current } = await ensureMainBranch(database, project);
+  const source = branches.find(branch => branch.id === body.source);
+  const target = body.target === undefined ? current : branches.find(branch => branch.id === body.target);
+  if (!source || !target) {
+    return createSecureResponse({ error: 'Branch not found' }, 404, request);
+  }
+  if (source.id === target.id) {
+    throw new SecurityError('A branch cannot be merged into itself');
+  }
+  if (!source.head_revision_id) {
+    throw new SecurityError(`Branch "${source.name}" has no revisions to merge`);
+  }
+
+  const revisions = await database.getProjectRevisions(project.id);
+  const sourceHead = revisions.find(revision => revision.id === source.head_revision_id);
+  const targetHead = revisions.find(revision => revision.id === target.head_revision_id);
+  if (!sourceHead) {
+    return createSecureResponse({ error: 'Revision not found' }, 404, request);
+  }
+
+  const base = targetHead ? findMergeBase(revisions, targetHead.id, sourceHead.id) : null;
+  if (base?.id === sourceHead.id) {
+    return createSecureResponse({ merged: false, upToDate: true, branch: target }, 200, request);
+  }
+
+  try {
+    // Nothing new on the target since the fork: move it forward to the source head
+    if (!targetHead || base?.id === targetHead.id) {
+      const moved = await database.updateProjectBranchHead(target.id, sourceHead.id, target.head_revision_id);
+      if (!moved) {
+        throw new BranchHeadMovedError(target);
+      }
+      const updatedProject = isCheckedOut(project, target) ? await applyRevision(database, project, sourceHead, moved) : null;
+      return createSecureResponse({ merged: true, fastForward: true, branch: moved, revision: sourceHead, project: updatedProject }, 200, request);
+    }
+
+    let merge;
+    try {
+      merge = mergeDesigns(base?.svg_data ?? null, targetHead.svg_data, sourceHead.svg_data, { resolutions });
+    } catch (error) {
+      console.error('Branch merge error:', error);
+      throw new SecurityError('Could not read one of the designs');
+    }
+
+    const unresolved = merge.conflicts.filter(conflict => !conflict.resolution);
+    if (unresolved.length > 0) {
+      return createSecureResponse({
+        error: `${unresolved.length} shape${unresolved.length === 1 ? '' : 's'} changed on both branches`,
+        conflicts: merge.conflicts,
+        applied: merge.applied,
+        preview: merge.svg,
+        base: base ? { id: base.id, revision_number: base.revision_number } : null
+      }, 409, request);
+    }
+
+    const { revision, branch, project: updatedProject } = await commitRevision(database, project, target, {
+      svg_data: merge.svg,
+      changes_description: `Merged branch "${source.name}" into "${target.name}"`,
+      metadata: targetHead.metadata,
+      operation_layers: targetHead.operation_layers,
+      merge_parent_revision_id: sourceHead.id
+    });
+
+    return createSecureResponse({
+      merged: true,
+      fastForward: false,
+      branch,
+      revision,
+      project: updatedProject,
+      applied: merge.applied,
+      conflicts: merge.conflicts
+    }, 200, request);
+  } catch (error) {
+    if (error instanceof BranchHeadMovedError) {
+      return createSecureResponse({ error: error.message, branch: error.branch }, 409, request);
+    }
+    throw error;
+  }
+}, {
+  requireAuth: true,
+  allowedMethods: ['POST'],
+  allowedContentTypes: ['application/json']
+});
+
+function validateResolutions(value: unknown): Record<string, MergeSide> {
+  if (value === undefined) return {};
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new SecurityError('Resolutions must map conflict ids to "ours" or "theirs"');
+  }
+
+  const resolutions: Record<string, MergeSide> = {};
+  for (const [id, side] of Object.entries(value)) {
+    if (side !== 'ours' && side !== 'theirs') {
+      throw new SecurityError(`Resolution for ${id} must be "ours" or "theirs"`);
+    }
+    resolutions[id] = side;
+  }
+  return resolutions;
+}
@@ -0,0 +1,68 @@
+// API endpoints for a project's operation layers
+// Returns the saved model (or one inferred from the design) and saves edits to it
+import { createSecureAPI, parseSecureRequestBody, createSecureResponse, SecurityError } from '../../../../lib/secure-api';
+import { getDatabase, type UserProject } from '../../../../lib/database';
+import { inferOperationLayers, parseOperationLayers, validateOperationLayers } from '../../../../lib/operation-layers';
+
+export const prerender = false;
+
+export const GET = createSecureAPI(async ({ params, request, locals, currentUser }) => {
+  const env = (locals as any)?.runtime?.env;
+
+  if (!currentUser) {
+    throw new SecurityError('Authentication required');
+  }
+
+  const project = await getDatabase(env).getUserProject(params.projectId || '', currentUser.id);
+  if (!project) {
+    return createSecureResponse({ error: 'Project not found' }, 404, request);
+  }
+
+  const saved = parseOperationLayers(project.operation_layers);
+  return createSecureResponse({
+    operationLayers: saved || inferOperationLayers(project.svg_data || '', projectMaterial(project)),
+    inferred: !saved
+  }, 200, request);
+}, {
+  requireAuth: true,
+  allowedMethods: ['GET']
+});
+
+export const PUT = createSecureAPI(async ({ params, request, locals, currentUser }) => {
+  const env = (locals as any)?.runtime?.env;
+
+  if (!currentUser) {
+    throw new SecurityError('Authentication required');
+  }
+
+  const body = await parseSecureRequestBody(request, 50000);
+  let model;
+  try {
+    model = validateOperationLayers(body.operationLayers ?? body);
+  } catch (error) {
+    throw new SecurityError(error instanceof Error ? error.message : 'Invalid operation layers');
+  }
+
+  const updated = await getDatabase(env).updateUserProject(params.projectId || '', currentUser.id, {
+    operation_layers: JSON.stringify(model)
+  });
+  if (!updated) {
+    return createSecureResponse({ error: 'Project not found' }, 404, request);
+  }
+
+  return createSecureResponse({ operationLayers: model, inferred: false }, 200, request);
+}, {
+  requireAuth: true,
+  allowedMethods: ['PUT'],
+  allowedContentTypes: ['application/json']
+});
+
+// Material recorded when the design was generated, for the inferred layer settings
+function projectMaterial(project: UserProject): string {
+  try {
+    const metadata = project.metadata ? JSON.parse(project.metadata) : {};
+    return typeof metadata.material === 'string' ? metadata.material : 'plywood-3mm';
+  } catch {
+    return 'plywood-3mm';
+  }
+}
@@ -2,6 +2,7 @@
 import type { APIRoute } from 'astro';
 import { getDatabase, type Env } from '../../../../lib/database';
 import { getSessionFromRequest, getAuthService } from '../../../../lib/auth';
+import { commitRevision, ensureMainBranch } from '../../../../lib/revision-branches';
 
 export const prerender = false;
 
@@ -68,32 +69,26 @@ export const POST: APIRoute = async ({ params, request }) => {
       });
     }
 
-    // Create a new revision with the restored content
-    const nextRevisionNumber = await database.getNextRevisionNumber(projectId);
-    const newRevisionId = crypto.randomUUID();
-    
-    const newRevision = await database.createProjectRevision({
-      id: newRevisionId,
-      project_id: projectId,
-      revision_number: nextRevisionNumber,
-      svg_data: revisionToRestore.svg_data,
-      changes_description: `Restored from revision #${revisionToRestore.revision_number}`,
-      metadata: revisionToRestore.metadata
-    });
-
-    if (!newRevision) {
+    // Restoring adds a new revision on the checked-out branch with the restored content
+    const { current } = await ensureMainBranch(database, project);
+    let restored;
+    try {
+      restored = await commitRevision(database, project, current, {
+        svg_data: revisionToRestore.svg_data,
+        changes_description: `Restored from revision #${revisionToRestore.revision_number}`,
+        metadata: revisionToRestore.metadata,
+        operation_layers: revisionToRestore.operation_layers
+      });
+    } catch (error) {
+      console.error('Error creating restoration revision:', error);
       return new Response(JSON.stringify({ error: 'Failed to create restoration revision' }), {
         status: 500,
         headers: { 'Content-Type': 'application/json' }
       });
     }
 
-    // Update the project to point to the new current revision
-    const updatedProject = await database.updateUserProject(projectId, user.id, {
-      current_revision_id: newRevisionId,
-      svg_data: revisionToRestore.svg_data
-    });
-
+    const newRevisionId = restored.revision.id;
+    const updatedProject = restored.project;
     if (!updatedProject) {
       return new Response(JSON.stringify({ error: 'Failed to update project' }), {
         status: 500,
@@ -0,0 +1,73 @@
+// API endpoint for DXF import
+// Creates a project from a DXF drawing, stored as normalized millimetre SVG
+import { createSecureAPI, parseSecureRequestBody, createSecureResponse, SecurityError } from '../../../lib/secure-api';
+import { getDatabase } from '../../../lib/database';
+import { importDXF, DXF_UNIT_SCALE, type DxfUnits } from '../../../lib/dxf';
+import { createProjectWithRevision } from '../../../lib/revision-branches';
+
+export const prerender = false;
+
+const MAX_DXF_BYTES = 5_000_000;
+
+export const POST = createSecureAPI(async ({ request, locals, currentUser }) => {
+  const env = (locals as any)?.runtime?.env;
+
+  if (!currentUser) {
+    throw new SecurityError('Authentication required');
+  }
+
+  const body = await parseSecureRequestBody(request, MAX_DXF_BYTES);
+  if (typeof body.dxf !== 'string' || !body.dxf.trim()) {
+    throw new SecurityError('dxf must contain the drawing as text');
+  }
+  if (body.units !== undefined && !(body.units in DXF_UNIT_SCALE)) {
+    throw new SecurityError(`units must be one of: ${Object.keys(DXF_UNIT_SCALE).join(', ')}`);
+  }
+
+  let drawing;
+  try {
+    drawing = importDXF(body.dxf, {
+      units: body.units as DxfUnits | undefined,
+      material: typeof body.material === 'string' ? body.material : undefined
+    });
+  } catch (error) {
+    throw new SecurityError(error instanceof Error ? error.message : 'Invalid DXF file');
+  }
+
+  const title = typeof body.title === 'string' && body.title.trim() ? body.title.trim().slice(0, 200) : 'Imported DXF';
+  const metadata = JSON.stringify({
+    source: 'dxf',
+    units: drawing.units,
+    unitsSource: drawing.unitsSource,
+    width: drawing.width,
+    height: drawing.height,
+    layers: drawing.layers
+  });
+
+  const database = getDatabase(env);
+  const project = await createProjectWithRevision(database, {
+    id: crypto.randomUUID(),
+    user_id: currentUser.id,
+    title,
+    description: typeof body.description === 'string' ? body.description.slice(0, 2000) : undefined,
+    svg_data: drawing.svg,
+    project_type: 'upload_vectorized',
+    metadata,
+    operation_layers: JSON.stringify(drawing.operationLayers)
+  }, 'Imported from DXF');
+  if (!project) {
+    return createSecureResponse({ error: 'Failed to create project' }, 500, request);
+  }
+
+  return createSecureResponse({
+    project,
+    units: drawing.units,
+    unitsSource: drawing.unitsSource,
+    layers: drawing.layers,
+    warnings: drawing.warnings
+  }, 201, request);
+}, {
+  requireAuth: true,
+  allowedMethods: ['POST'],
+  allowedContentTypes: ['application/json']
+});
@@ -0,0 +1,78 @@
+// API endpoints for the signed-in user's projects
+// Lists with search, filters and cursor pagination, and creates projects
+import { createSecureAPI, parseSecureRequestBody, createSecureResponse, SecurityError } from '../../../lib/secure-api';
+import { getDatabase, type ProjectListQuery } from '../../../lib/database';
+import { encodeProjectCursor, parseProjectListQuery, validateProjectInput, type ProjectInput } from '../../../lib/project-validation';
+import { createProjectWithRevision } from '../../../lib/revision-branches';
+import { withUsageCheck } from '../../../lib/usage-tracking';
+
+export const prerender = false;
+
+/**
+ * Query: q (words matched in title, description and metadata), type,
+ * material, sort (updated_at, created_at or title), order, limit and the
+ * cursor from the previous page's nextCursor. Rows leave out svg_data and
+ * operation_layers; fetch a project by id for its design.
+ */
+export const GET = createSecureAPI(async ({ request, locals, currentUser }) => {
+  const env = (locals as any)?.runtime?.env;
+
+  if (!currentUser) {
+    throw new SecurityError('Authentication required');
+  }
+
+  let query: ProjectListQuery;
+  try {
+    query = parseProjectListQuery(new URL(request.url).searchParams);
+  } catch (error) {
+    throw new SecurityError(error instanceof Error ? error.message : 'Invalid project query');
+  }
+
+  const { projects, hasMore } = await getDatabase(env).listUserProjects(currentUser.id, query);
+  const last = projects[projects.length - 1];
+
+  return createSecureResponse({
+    projects,
+    hasMore,
+    nextCursor: hasMore && last ? encodeProjectCursor(last, query.sort) : null
+  }, 200, request);
+}, {
+  requireAuth: true,
+  allowedMethods: ['GET']
+});
+
+export const POST = createSecureAPI(async ({ request, locals, currentUser }) => {
+  const env = (locals as any)?.runtime?.env;
+
+  if (!currentUser) {
+    throw new SecurityError('Authentication required');
+  }
+
+  const body = await parseSecureRequestBody(request, 200000);
+  let input: ProjectInput;
+  try {
+    input = validateProjectInput(body, 'create');
+  } catch (error) {
+    throw new SecurityError(error instanceof Error ? error.message : 'Invalid project');
+  }
+
+  return withUsageCheck(env, currentUser.id, 'project_creation', async () => {
+    const project = await createProjectWithRevision(getDatabase(env), {
+      ...input,
+      id: crypto.randomUUID(),
+      user_id: currentUser.id,
+      title: input.title!,
+      project_type: input.project_type!
+    }, 'Initial design');
+    if (!project) {
+      return createSecureResponse({ error: 'Failed to create project' }, 500, request);
+    }
+
+    return createSecureResponse({ project }, 201, request);
+  });
+}, {
+  requireAuth: true,
+  rateLimit: { requests: 30, windowMs: 60 * 1000 },
+  allowedMethods: ['POST'],
+  allowedContentTypes: ['application/json']
+});
@@ -0,0 +1,164 @@
+// API endpoint for saving the editor's design
+// Named saves become revisions on the checked-out branch; autosaves replace the project's draft
+import { createSecureAPI, parseSecureRequestBody, createSecureResponse, SecurityError } from '../../../lib/secure-api';
+import { getDatabase, type ProjectDraft, type UserProject } from '../../../lib/database';
+import { InputValidator } from '../../../lib/security';
+import { validateOperationLayers } from '../../../lib/operation-layers';
+import { BranchHeadMovedError, commitRevision, ensureMainBranch } from '../../../lib/revision-branches';
+
+export const prerender = false;
+
+/**
+ * Body: { projectId, svgData, baseRevisionId, changesDescription?, metadata?,
+ * operationLayers?, draft?, draftVersion? }. baseRevisionId is the project's
+ * current_revision_id when the editor loaded it; if another save has landed
+ * since, nothing is written and 409 is returned with the current revision.
+ */
+export const POST = createSecureAPI(async ({ request, locals, currentUser }) => {
+  const env = (locals as any)?.runtime?.env;
+
+  if (!currentUser) {
+    throw new SecurityError('Authentication required');
+  }
+
+  const body = await parseSecureRequestBody(request, 200000);
+  if (typeof body.projectId !== 'string' || !body.projectId) {
+    throw new SecurityError('Project ID is required');
+  }
+  if (body.baseRevisionId !== null && typeof body.baseRevisionId !== 'string') {
+    throw new SecurityError('baseRevisionId is required; use null for a project with no revisions');
+  }
+
+  const svgData = InputValidator.validateSVGContent(body.svgData);
+  const metadata = serializeMetadata(body.metadata);
+  let operationLayers: string | undefined;
+  try {
+    operationLayers = body.operationLayers ? JSON.stringify(validateOperationLayers(body.operationLayers)) : undefined;
+  } catch (error) {
+    throw new SecurityError(error instanceof Error ? error.message : 'Invalid operation layers');
+  }
+
+  const database = getDatabase(env);
+  const project = await database.getUserProject(body.projectId, currentUser.id);
+  if (!project) {
+    return createSecureResponse({ error: 'Project not found' }, 404, request);
+  }
+
+  const currentRevisionId = project.current_revision_id ?? null;
+  if (body.baseRevisionId !== currentRevisionId) {
+    return staleResponse(request, currentRevisionId);
+  }
+
+  if (body.draft === true) {
+    const expectedVersion = body.draftVersion ?? null;
+    if (expectedVersion !== null && !Number.isInteger(expectedVersion)) {
+      throw new SecurityError('draftVersion must be a whole number or null');
+    }
+
+    const draft = await database.saveProjectDraft({
+      project_id: project.id,
+      user_id: currentUser.id,
+      svg_data: svgData,
+      metadata,
+      operation_layers: operationLayers ?? project.operation_layers ?? null,
+      base_revision_id: currentRevisionId
+    }, expectedVersion);
+    if (draft) {
+      return createSecureResponse({ draft: describeDraft(draft) }, 200, request);
+    }
+
+    // Nothing written: either another tab autosaved first or the write failed
+    const latest = await database.getProjectDraft(project.id, currentUser.id);
+    if ((latest?.version ?? null) !== expectedVersion) {
+      return createSecureResponse({
+        error: 'This draft was changed in another window',
+        currentRevisionId,
+        draftVersion: latest?.version ?? null
+      }, 409, request);
+    }
+    return createSecureResponse({ error: 'Failed to save draft' }, 500, request);
+  }
+
+  const changesDescription = InputValidator.sanitizeString(
+    typeof body.changesDescription === 'string' && body.changesDescription.trim() ? body.changesDescription : 'Design updated',
+    500
+  );
+
+  // The head must still be the revision the client edited; a save landing since the check above fails the swap
+  const { current } = await ensureMainBranch(database, project);
+  let saved;
+  try {
+    saved = await commitRevision(database, project, { ...current, head_revision_id: body.baseRevisionId }, {
+      svg_data: svgData,
+      changes_description: changesDescription,
+      metadata,
+      operation_layers: operationLayers ?? project.operation_layers
+    });
+  } catch (error) {
+    if (error instanceof BranchHeadMovedError) {
+      return staleResponse(request, error.branch.head_revision_id);
+    }
+    throw error;
+  }
+
+  let updatedProject: UserProject | null = saved.project;
+  const canvasSettings = canvasSettingsFrom(body.metadata);
+  if (canvasSettings) {
+    updatedProject = await database.updateUserProject(project.id, currentUser.id, { canvas_settings: canvasSettings }) || updatedProject;
+  }
+  await database.deleteProjectDraft(project.id, currentUser.id);
+
+  return createSecureResponse({
+    revision: saved.revision,
+    project: updatedProject,
+    currentRevisionId: updatedProject?.current_revision_id ?? saved.revision.id
+  }, 200, request);
+}, {
+  requireAuth: true,
+  rateLimit: { requests: 60, windowMs: 60 * 1000 },
+  allowedMethods: ['POST'],
+  allowedContentTypes: ['application/json']
+});
+
+function staleResponse(request: Request, currentRevisionId: string | null): Response {
+  return createSecureResponse({
+    error: 'This project was saved from another window since you opened it',
+    currentRevisionId
+  }, 409, request);
+}
+
+function describeDraft(draft: ProjectDraft) {
+  return {
+    version: draft.version,
+    baseRevisionId: draft.base_revision_id,
+    updatedAt: draft.updated_at
+  };
+}
+
+function serializeMetadata(metadata: unknown): string | undefined {
+  if (metadata === undefined || metadata === null) return undefined;
+  if (typeof metadata !== 'object' || Array.isArray(metadata)) {
+    throw new SecurityError('Metadata must be an object');
+  }
+  const json = JSON.stringify(metadata);
+  if (json.length > 10000) {
+    throw new SecurityError('Metadata is too large');
+  }
+  return json;
+}
+
+// Canvas size and background from the editor's metadata, stored on the project for the next load
+function canvasSettingsFrom(metadata: any): string | undefined {
+  const settings = metadata?.canvasSettings;
+  const width = Number(settings?.width);
+  const height = Number(settings?.height);
+  if (!Number.isFinite(width) || !Number.isFinite(height) || width <= 0 || height <= 0 || width > 10000 || height > 10000) {
+    return undefined;
+  }
+
+  return JSON.stringify({
+    width,
+    height,
+    backgroundColor: typeof settings.backgroundColor === 'string' ? settings.backgroundColor.slice(0, 50) : '#ffffff'
+  });
+}
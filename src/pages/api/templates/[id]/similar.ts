@@ -0,0 +1,35 @@
+// API endpoint for template recommendations
+// Ranks other templates by tags shared with this one and by downloads from the same users
+import { createSecureAPI, createSecureResponse, SecurityError } from '../../../../lib/secure-api';
+import { getDatabase } from '../../../../lib/database';
+
+export const prerender = false;
+
+const DEFAULT_LIMIT = 8;
+const MAX_LIMIT = 24;
+
+export const GET = createSecureAPI(async ({ params, request, locals, currentUser }) => {
+  const env = (locals as any)?.runtime?.env;
+
+  if (!currentUser) {
+    throw new SecurityError('Authentication required');
+  }
+
+  const searchParams = new URL(request.url).searchParams;
+  const limit = searchParams.has('limit') ? Number(searchParams.get('limit')) : DEFAULT_LIMIT;
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+    throw new SecurityError(`limit must be between 1 and ${MAX_LIMIT}`);
+  }
+
+  const database = getDatabase(env);
+  const template = await database.getTemplate(params.id || '');
+  if (!template) {
+    return createSecureResponse({ error: 'Template not found' }, 404, request);
+  }
+
+  const templates = await database.getSimilarTemplates(template.id, limit);
+  return createSecureResponse({ templateId: template.id, templates }, 200, request);
+}, {
+  requireAuth: true,
+  allowedMethods: ['GET']
+});
@@ -0,0 +1,49 @@
+// API endpoint for searching the template catalogue
+// Full-text search with tag, material, difficulty, machine and sheet size facets, sorted by downloads or recency
+import { createSecureAPI, createSecureResponse, SecurityError } from '../../../lib/secure-api';
+import { getDatabase, type TemplateSearchQuery } from '../../../lib/database';
+import { MachineProfileRegistry, loadMachineProfiles } from '../../../lib/machine-profiles';
+import { describeTemplateFacets, encodeTemplateCursor, facetAreas, parseTemplateSearchQuery } from '../../../lib/template-search';
+
+export const prerender = false;
+
+/**
+ * Query: q (words matched in title, description and tags), category, tag
+ * (repeat for several), material, difficulty, premium, machine (a machine
+ * profile id), sheet, sort (download_count or created_at), order, limit and
+ * the cursor from the previous page's nextCursor. Facet counts cover every
+ * template matching the filters and come with the first page only.
+ */
+export const GET = createSecureAPI(async ({ request, locals, currentUser }) => {
+  const env = (locals as any)?.runtime?.env;
+
+  if (!currentUser) {
+    throw new SecurityError('Authentication required');
+  }
+
+  const database = getDatabase(env);
+  const machines = new MachineProfileRegistry(await loadMachineProfiles(database, currentUser.id)).listProfiles();
+
+  let query: TemplateSearchQuery;
+  try {
+    query = parseTemplateSearchQuery(new URL(request.url).searchParams, machines);
+  } catch (error) {
+    throw new SecurityError(error instanceof Error ? error.message : 'Invalid template query');
+  }
+
+  const [{ templates, hasMore }, facets] = await Promise.all([
+    database.searchTemplates(query),
+    query.after ? Promise.resolve(null) : database.getTemplateFacets(query, facetAreas(machines))
+  ]);
+  const last = templates[templates.length - 1];
+
+  return createSecureResponse({
+    templates,
+    facets: facets ? describeTemplateFacets(facets, machines) : null,
+    hasMore,
+    nextCursor: hasMore && last ? encodeTemplateCursor(last, query.sort) : null
+  }, 200, request);
+}, {
+  requireAuth: true,
+  allowedMethods: ['GET']
+});
@@ -38,8 +38,8 @@ export const POST: APIRoute = async ({ request, locals }) => {
       });
     }
 
-    // Increment template download count
-    const success = await database.incrementTemplateDownloads(templateId);
+    // Count the download and remember it for recommendations
+    const success = await database.recordTemplateDownload(templateId, user.id);
     
     if (!success) {
       return new Response(JSON.stringify({ error: 'Failed to track download' }), {
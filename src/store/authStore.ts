@@ -1,6 +1,8 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
 import { authService, type AuthUser, type AuthSession } from '../lib/auth';
+import { getPlan, normalizeTier } from '../lib/entitlements';
+import { hasFeatureAccess } from '../lib/pricing';
 
 interface AuthState {
   user: AuthUser | null;
@@ -221,25 +223,14 @@ export const useIsLoading = () => useAuthStore((state) => state.isLoading);
 // Helper hooks
 export const useSubscriptionTier = () => {
   const user = useUser();
-  return user?.profile?.subscription_tier || null;
+  return user ? normalizeTier(user.profile?.subscription_tier) : null;
 };
 
 export const useCanAccessFeature = (feature: string) => {
   const tier = useSubscriptionTier();
   if (!tier) return false;
-  
-  const featureAccess: Record<string, string[]> = {
-    'ai_generation_unlimited': ['professional'],
-    'premium_templates': ['professional'],
-    'gcode_generation': ['professional'],
-    'priority_support': ['starter', 'professional'],
-    'commercial_license': ['starter', 'professional'],
-    'api_access': ['professional'],
-    'white_label': ['professional'],
-    'phone_support': ['professional']
-  };
 
-  return featureAccess[feature]?.includes(tier) || false;
+  return hasFeatureAccess(tier, feature);
 };
 
 // Usage limits by tier
@@ -254,23 +245,14 @@ export const useUsageLimits = () => {
       duration_days: 0
     };
   }
-  
-  const limits = {
-    starter: {
-      ai_designs: 25,
-      templates: 100,
-      exports: 50,
-      duration_days: -1 // unlimited
-    },
-    professional: {
-      ai_designs: -1, // unlimited
-      templates: -1, // unlimited
-      exports: -1, // unlimited
-      duration_days: -1 // unlimited
-    }
-  };
 
-  return limits[tier as keyof typeof limits] || limits.starter;
+  const { quotas } = getPlan(tier);
+  return {
+    ai_designs: quotas.ai_designs,
+    templates: quotas.template_downloads,
+    exports: quotas.exports,
+    duration_days: -1 // unlimited
+  };
 };
 
 // Initialize auth on app start
@@ -1,4 +1,6 @@
 // CutGlueBuild Template API Worker
+export { RateLimiterDurableObject } from './lib/rate-limit';
+
 export default {
   async fetch(request, env, ctx) {
     const url = new URL(request.url);